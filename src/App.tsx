@@ -14,11 +14,19 @@ import Settings from './components/Settings';
 import StockTake from './components/StockTake';
 import ActivityLogs from './components/ActivityLogs';
 import SalesHistory from './components/SalesHistory';
-import DrugHistory from './components/DrugHistory';
+import StockCard from './components/StockCard';
 import Profile from './components/Profile';
 import InvoiceManagement from './components/InvoiceManagement';
 import CreditNotes from './components/CreditNotes';
 import Orders from './components/Orders';
+import Suppliers from './components/Suppliers';
+import InsuranceClaims from './components/InsuranceClaims';
+import Promotions from './components/Promotions';
+import Customers from './components/Customers';
+import ControlledDrugRegister from './components/ControlledDrugRegister';
+import FiscalInvoices from './components/FiscalInvoices';
+import Shifts from './components/Shifts';
+import MpesaReconciliation from './components/MpesaReconciliation';
 import { useApp } from './contexts/AppContext';
 
 const AppContent: React.FC = () => {
@@ -116,8 +124,24 @@ const AppContent: React.FC = () => {
         return <InvoiceManagement />;
       case 'orders':
         return <Orders />;
+      case 'suppliers':
+        return <Suppliers />;
       case 'creditnotes':
         return <CreditNotes />;
+      case 'customers':
+        return <Customers />;
+      case 'cdregister':
+        return <ControlledDrugRegister />;
+      case 'claims':
+        return <InsuranceClaims />;
+      case 'promotions':
+        return <Promotions />;
+      case 'fiscal':
+        return <FiscalInvoices />;
+      case 'shifts':
+        return <Shifts />;
+      case 'mpesa':
+        return <MpesaReconciliation />;
       case 'analytics':
         return <Analytics />;
       case 'settings':
@@ -128,8 +152,8 @@ const AppContent: React.FC = () => {
         return <ActivityLogs />;
       case 'drugsaleshistory':
         return <SalesHistory />;
-      case 'drughistory':
-        return <DrugHistory />;
+      case 'stockcard':
+        return <StockCard />;
       case 'profile':
         return <Profile />;
       default:
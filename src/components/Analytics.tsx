@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   TrendingUp,
   Download,
@@ -6,8 +6,10 @@ import {
   Filter,
   BarChart3,
   PieChart,
-  DollarSign
+  DollarSign,
+  Tag
 } from 'lucide-react';
+import { supabase } from '../lib/supabase';
 import { useApp } from '../contexts/AppContext';
 import { useAlert } from '../contexts/AlertContext';
 import { formatKES } from '../utils/currency';
@@ -15,15 +17,54 @@ import SalesChart from './SalesChart';
 import { usePageRefresh } from '../hooks/usePageRefresh';
 
 const Analytics: React.FC = () => {
-  const { sales, products, salesHistory } = useApp();
+  const { sales, saleReturns, products, salesHistory } = useApp();
   const { showAlert } = useAlert();
   usePageRefresh('analytics', { refreshOnMount: true, staleTime: 30000 });
   const [dateRange, setDateRange] = useState('7days');
   const [selectedCategory, setSelectedCategory] = useState('all');
   const [salesPeriod, setSalesPeriod] = useState<'day' | 'week' | 'month' | 'year'>('week');
+  const [discountStats, setDiscountStats] = useState<{ name: string; lines: number; amount: number }[]>([]);
+
+  // Discount lines are read from the database so the cost covers every till, not just this session
+  useEffect(() => {
+    const loadDiscountCost = async () => {
+      try {
+        const rangeDays: Record<string, number> = { '7days': 7, '30days': 30, '90days': 90 };
+        let query = supabase.from('sale_discounts').select('promotion_id, description, amount');
+        if (rangeDays[dateRange]) {
+          const startDate = new Date();
+          startDate.setDate(startDate.getDate() - rangeDays[dateRange]);
+          query = query.gte('created_at', startDate.toISOString());
+        }
+
+        const [discountsResult, promotionsResult] = await Promise.all([
+          query,
+          supabase.from('promotions').select('id, name'),
+        ]);
+
+        if (discountsResult.error) throw discountsResult.error;
+        if (promotionsResult.error) throw promotionsResult.error;
+
+        const promotionNames = new Map((promotionsResult.data || []).map(promotion => [promotion.id, promotion.name as string]));
+        const byPromotion = (discountsResult.data || []).reduce((acc, line) => {
+          const name = (line.promotion_id && promotionNames.get(line.promotion_id)) || line.description;
+          if (!acc[name]) acc[name] = { name, lines: 0, amount: 0 };
+          acc[name].lines += 1;
+          acc[name].amount += Number(line.amount) || 0;
+          return acc;
+        }, {} as Record<string, { name: string; lines: number; amount: number }>);
+
+        setDiscountStats(Object.values(byPromotion).sort((a, b) => b.amount - a.amount));
+      } catch (error) {
+        console.error('Error loading discount cost:', error);
+      }
+    };
 
-  // Filter sales by date range
-  const getFilteredSales = () => {
+    loadDiscountCost();
+  }, [dateRange]);
+
+  // Start of the selected date range
+  const getRangeStart = () => {
     const now = new Date();
     const startDate = new Date();
     
@@ -41,23 +82,44 @@ const Analytics: React.FC = () => {
         startDate.setFullYear(2020); // All time
     }
 
-    return sales.filter(sale => new Date(sale.createdAt) >= startDate);
+    return startDate;
   };
 
-  const filteredSales = getFilteredSales();
+  const rangeStart = getRangeStart();
+  const filteredSales = sales.filter(sale => new Date(sale.createdAt) >= rangeStart);
+  const filteredReturns = saleReturns.filter(saleReturn => new Date(saleReturn.createdAt) >= rangeStart);
+
+  // Returns are negative lines on the day they were refunded, so revenue is net of refunds
+  const revenueLines = [
+    ...filteredSales.map(sale => ({ createdAt: sale.createdAt, amount: sale.totalAmount })),
+    ...filteredReturns.map(saleReturn => ({ createdAt: saleReturn.createdAt, amount: -saleReturn.totalAmount })),
+  ];
   const categories = Array.from(new Set(products.map(p => p.category)));
 
   // Calculate analytics data
-  const totalRevenue = filteredSales.reduce((sum, sale) => sum + sale.totalAmount, 0);
+  const totalRevenue = revenueLines.reduce((sum, line) => sum + line.amount, 0);
   const totalTransactions = filteredSales.length;
   const averageTransaction = totalTransactions > 0 ? totalRevenue / totalTransactions : 0;
+  const totalDiscountCost = discountStats.reduce((sum, stat) => sum + stat.amount, 0);
 
   // Sales by payment method
   const paymentMethodStats = filteredSales.reduce((acc, sale) => {
-    acc[sale.paymentMethod] = (acc[sale.paymentMethod] || 0) + sale.totalAmount;
+    if (sale.payments && sale.payments.length > 0) {
+      sale.payments.forEach(payment => {
+        acc[payment.method] = (acc[payment.method] || 0) + payment.amount;
+      });
+    } else {
+      acc[sale.paymentMethod] = (acc[sale.paymentMethod] || 0) + sale.totalAmount;
+    }
     return acc;
   }, {} as Record<string, number>);
 
+  filteredReturns.forEach(saleReturn => {
+    saleReturn.refunds.forEach(refund => {
+      paymentMethodStats[refund.method] = (paymentMethodStats[refund.method] || 0) - refund.amount;
+    });
+  });
+
   // Top selling products
   const productStats = salesHistory
     .filter(item => {
@@ -175,12 +237,12 @@ const Analytics: React.FC = () => {
           const nextDay = new Date(date);
           nextDay.setDate(nextDay.getDate() + 1);
 
-          const daySales = filteredSales.filter(sale => {
-            const saleDate = new Date(sale.createdAt);
+          const daySales = revenueLines.filter(line => {
+            const saleDate = new Date(line.createdAt);
             return saleDate >= date && saleDate < nextDay;
           });
 
-          const total = daySales.reduce((sum, sale) => sum + sale.totalAmount, 0);
+          const total = daySales.reduce((sum, line) => sum + line.amount, 0);
           data.push({
             label: date.toLocaleDateString('en-KE', { weekday: 'short' }),
             value: total
@@ -203,12 +265,12 @@ const Analytics: React.FC = () => {
 
           const actualWeekEnd = weekEnd > monthEnd ? monthEnd : weekEnd;
 
-          const weekSales = filteredSales.filter(sale => {
-            const saleDate = new Date(sale.createdAt);
+          const weekSales = revenueLines.filter(line => {
+            const saleDate = new Date(line.createdAt);
             return saleDate >= currentWeekStart && saleDate <= actualWeekEnd;
           });
 
-          const total = weekSales.reduce((sum, sale) => sum + sale.totalAmount, 0);
+          const total = weekSales.reduce((sum, line) => sum + line.amount, 0);
 
           data.push({
             label: `Week ${weekNumber}`,
@@ -229,12 +291,12 @@ const Analytics: React.FC = () => {
           const monthStart = new Date(now.getFullYear(), now.getMonth() - i, 1);
           const monthEnd = new Date(now.getFullYear(), now.getMonth() - i + 1, 1);
 
-          const monthSales = filteredSales.filter(sale => {
-            const saleDate = new Date(sale.createdAt);
+          const monthSales = revenueLines.filter(line => {
+            const saleDate = new Date(line.createdAt);
             return saleDate >= monthStart && saleDate < monthEnd;
           });
 
-          const total = monthSales.reduce((sum, sale) => sum + sale.totalAmount, 0);
+          const total = monthSales.reduce((sum, line) => sum + line.amount, 0);
           data.push({
             label: monthStart.toLocaleDateString('en-KE', { month: 'short' }),
             value: total
@@ -248,12 +310,12 @@ const Analytics: React.FC = () => {
           const yearStart = new Date(year, 0, 1);
           const yearEnd = new Date(year + 1, 0, 1);
 
-          const yearSales = filteredSales.filter(sale => {
-            const saleDate = new Date(sale.createdAt);
+          const yearSales = revenueLines.filter(line => {
+            const saleDate = new Date(line.createdAt);
             return saleDate >= yearStart && saleDate < yearEnd;
           });
 
-          const total = yearSales.reduce((sum, sale) => sum + sale.totalAmount, 0);
+          const total = yearSales.reduce((sum, line) => sum + line.amount, 0);
           data.push({
             label: year.toString(),
             value: total
@@ -306,6 +368,7 @@ const Analytics: React.FC = () => {
     <tr><td>Total Revenue</td><td>${formatKES(totalRevenue)}</td></tr>
     <tr><td>Total Transactions</td><td>${totalTransactions}</td></tr>
     <tr><td>Average Transaction</td><td>${formatKES(averageTransaction)}</td></tr>
+    <tr><td>Discount Cost</td><td>${formatKES(totalDiscountCost)}</td></tr>
   </table>
   
   <h2>Top Selling Products</h2>
@@ -342,6 +405,18 @@ const Analytics: React.FC = () => {
     </tr>
     `).join('')}
   </table>
+
+  <h2>Discount Cost by Promotion</h2>
+  <table>
+    <tr><th>Promotion</th><th>Discount Lines</th><th>Cost</th></tr>
+    ${discountStats.map(stat => `
+    <tr>
+      <td>${stat.name}</td>
+      <td>${stat.lines}</td>
+      <td>${formatKES(stat.amount)}</td>
+    </tr>
+    `).join('')}
+  </table>
 </body>
 </html>`;
       
@@ -440,7 +515,7 @@ const Analytics: React.FC = () => {
       </div>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
         <div className="bg-white p-6 rounded-lg shadow-sm border">
           <div className="flex items-center justify-between">
             <div>
@@ -476,6 +551,18 @@ const Analytics: React.FC = () => {
             </div>
           </div>
         </div>
+
+        <div className="bg-white p-6 rounded-lg shadow-sm border">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-medium text-gray-600">Discount Cost</p>
+              <p className="text-2xl font-bold text-red-600">{formatKES(totalDiscountCost)}</p>
+            </div>
+            <div className="bg-red-100 p-3 rounded-full">
+              <Tag className="h-6 w-6 text-red-600" />
+            </div>
+          </div>
+        </div>
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -560,6 +647,30 @@ const Analytics: React.FC = () => {
           </div>
         </div>
 
+        {/* Discount Cost */}
+        <div className="bg-white rounded-lg shadow-sm border">
+          <div className="p-6 border-b">
+            <h2 className="text-lg font-semibold text-gray-900">Discount Cost by Promotion</h2>
+          </div>
+          <div className="p-6">
+            {discountStats.length === 0 ? (
+              <p className="text-gray-500 text-center py-4">No discounts given in this period</p>
+            ) : (
+              <div className="space-y-3 max-h-64 overflow-y-auto">
+                {discountStats.map(stat => (
+                  <div key={stat.name} className="flex items-center justify-between p-3 bg-red-50 rounded-lg">
+                    <div>
+                      <p className="font-medium text-gray-900">{stat.name}</p>
+                      <p className="text-sm text-gray-600">{stat.lines} discount lines</p>
+                    </div>
+                    <p className="font-bold text-red-600">{formatKES(stat.amount)}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
         {/* Daily Sales Trend */}
         <div className="bg-white rounded-lg shadow-sm border">
           <div className="p-6 border-b">
@@ -0,0 +1,49 @@
+import React from 'react';
+import { Product } from '../types';
+import { formatKES } from '../utils/currency';
+import { isBatchExpired } from '../utils/batches';
+
+interface BatchBreakdownProps {
+  batches: Product[];
+  showPrices?: boolean;
+}
+
+// The batches behind a medicine's total stock, first expiry first
+const BatchBreakdown: React.FC<BatchBreakdownProps> = ({ batches, showPrices = false }) => {
+  if (batches.length === 0) {
+    return <p className="text-sm text-gray-500">No batches received yet</p>;
+  }
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500 uppercase">
+          <th className="py-1 pr-4 font-medium">Batch</th>
+          <th className="py-1 pr-4 font-medium">Supplier</th>
+          <th className="py-1 pr-4 font-medium">Expiry</th>
+          <th className="py-1 pr-4 font-medium text-right">Stock</th>
+          {showPrices && <th className="py-1 font-medium text-right">Price</th>}
+        </tr>
+      </thead>
+      <tbody>
+        {batches.map(product => {
+          const expired = isBatchExpired(product);
+          return (
+            <tr key={product.id} className={product.currentStock === 0 ? 'text-gray-400' : 'text-gray-700'}>
+              <td className="py-1 pr-4">{product.batchNumber || '-'}</td>
+              <td className="py-1 pr-4">{product.supplier}</td>
+              <td className={`py-1 pr-4 ${expired ? 'text-red-600' : ''}`}>
+                {product.expiryDate.toLocaleDateString('en-KE')}
+                {expired && ' (expired)'}
+              </td>
+              <td className="py-1 pr-4 text-right">{product.currentStock}</td>
+              {showPrices && <td className="py-1 text-right">{formatKES(product.sellingPrice)}</td>}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
+
+export default BatchBreakdown;
@@ -0,0 +1,196 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CreditCard, CheckCircle, XCircle } from 'lucide-react';
+import { SalePayment } from '../types';
+import { PaymentTerminal, TerminalTransaction } from '../lib/paymentTerminal';
+import { formatKES } from '../utils/currency';
+import { getErrorMessage } from '../utils/errorMessages';
+
+interface CardPaymentModalProps {
+  terminal: PaymentTerminal;
+  amount: number;
+  onApproved: (payment: SalePayment) => void;
+  onClose: () => void;
+}
+
+const POLL_INTERVAL_MS = 1000;
+// After this the cashier is offered to cancel; the terminal may still complete
+const TERMINAL_TIMEOUT_MS = 90000;
+
+const CardPaymentModal: React.FC<CardPaymentModalProps> = ({ terminal, amount, onApproved, onClose }) => {
+  const [transaction, setTransaction] = useState<TerminalTransaction | null>(null);
+  const [error, setError] = useState('');
+  const [timedOut, setTimedOut] = useState(false);
+  const [isCancelling, setIsCancelling] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+  const pollRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const transactionRef = useRef<TerminalTransaction | null>(null);
+  const onApprovedRef = useRef(onApproved);
+
+  useEffect(() => {
+    onApprovedRef.current = onApproved;
+  }, [onApproved]);
+
+  const stopPolling = () => {
+    if (pollRef.current) {
+      clearTimeout(pollRef.current);
+      pollRef.current = null;
+    }
+  };
+
+  const updateTransaction = (next: TerminalTransaction) => {
+    transactionRef.current = next;
+    setTransaction(next);
+  };
+
+  useEffect(() => {
+    let active = true;
+    const startedAt = Date.now();
+
+    const poll = async (transactionId: string) => {
+      try {
+        const next = await terminal.getStatus(transactionId);
+        if (!active) return;
+        updateTransaction(next);
+        if (next.status === 'pending') {
+          setTimedOut(Date.now() - startedAt > TERMINAL_TIMEOUT_MS);
+          pollRef.current = setTimeout(() => poll(transactionId), POLL_INTERVAL_MS);
+        }
+      } catch (err) {
+        if (active) setError(getErrorMessage(err));
+      }
+    };
+
+    const start = async () => {
+      try {
+        setError('');
+        setTimedOut(false);
+        transactionRef.current = null;
+        setTransaction(null);
+        const started = await terminal.startPayment({ amount, reference: crypto.randomUUID() });
+        if (!active) return;
+        updateTransaction(started);
+        pollRef.current = setTimeout(() => poll(started.transactionId), POLL_INTERVAL_MS);
+      } catch (err) {
+        if (active) setError(getErrorMessage(err));
+      }
+    };
+
+    start();
+
+    return () => {
+      active = false;
+      stopPolling();
+    };
+  }, [attempt, terminal, amount]);
+
+  useEffect(() => {
+    if (transaction?.status !== 'approved') return;
+
+    const timeoutId = setTimeout(() => onApprovedRef.current({
+      method: 'card',
+      amount,
+      reference: transaction.approvalCode,
+      approvalCode: transaction.approvalCode,
+      maskedPan: transaction.maskedPan,
+      cardScheme: transaction.cardScheme,
+      terminalId: transaction.terminalId,
+      terminalTransactionId: transaction.transactionId,
+    }), 800);
+    return () => clearTimeout(timeoutId);
+  }, [transaction, amount]);
+
+  // A payment still pending on the terminal must be cancelled there, or the
+  // customer could be charged for a tender the till never recorded
+  const handleCancel = async () => {
+    const current = transactionRef.current;
+    if (!current || current.status !== 'pending') {
+      onClose();
+      return;
+    }
+
+    try {
+      setIsCancelling(true);
+      stopPolling();
+      const result = await terminal.cancel(current.transactionId);
+      updateTransaction(result);
+      if (result.status === 'cancelled') {
+        onClose();
+      }
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setIsCancelling(false);
+    }
+  };
+
+  const status = transaction?.status;
+  const isFinished = status === 'declined' || status === 'failed' || status === 'cancelled' || (!!error && status !== 'approved');
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4">
+        <h3 className="text-lg font-semibold mb-4 flex items-center">
+          <CreditCard className="h-5 w-5 mr-2" />
+          Card Payment
+        </h3>
+
+        <div className="mb-4 p-4 bg-blue-50 rounded-lg">
+          <p className="text-sm text-gray-600">Amount</p>
+          <p className="text-2xl font-bold text-blue-700">{formatKES(amount)}</p>
+          <p className="text-xs text-gray-500 mt-1">Terminal {terminal.terminalId}</p>
+        </div>
+
+        {status === 'approved' ? (
+          <div className="text-center py-4">
+            <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-2" />
+            <p className="font-semibold text-green-700">Approved</p>
+            <p className="text-sm text-gray-600">
+              {transaction?.cardScheme} {transaction?.maskedPan} · Auth {transaction?.approvalCode}
+            </p>
+          </div>
+        ) : isFinished ? (
+          <div className="text-center py-4">
+            <XCircle className="h-12 w-12 text-red-600 mx-auto mb-2" />
+            <p className="font-semibold text-red-700">
+              {status === 'declined' ? 'Declined' : status === 'cancelled' ? 'Cancelled' : 'Payment failed'}
+            </p>
+            <p className="text-sm text-gray-600">{error || transaction?.message}</p>
+          </div>
+        ) : (
+          <div className="text-center py-4">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-600 mx-auto mb-3"></div>
+            <p className="text-gray-700">{transaction?.message || 'Connecting to terminal...'}</p>
+            <p className="text-sm text-gray-500">Ask the customer to tap, insert or swipe their card</p>
+            {timedOut && (
+              <p className="text-sm text-orange-600 mt-2">
+                The terminal has not responded. Check it, or cancel and take payment another way.
+              </p>
+            )}
+          </div>
+        )}
+
+        {status !== 'approved' && (
+          <div className="flex space-x-3 mt-4">
+            {isFinished && status !== 'cancelled' && (
+              <button
+                onClick={() => setAttempt(attempt + 1)}
+                className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+              >
+                Try Again
+              </button>
+            )}
+            <button
+              onClick={isFinished ? onClose : handleCancel}
+              disabled={isCancelling}
+              className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+            >
+              {isCancelling ? 'Cancelling...' : isFinished ? 'Close' : 'Cancel'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CardPaymentModal;
@@ -0,0 +1,290 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { BookOpen, Download, Image } from 'lucide-react';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { supabase } from '../lib/supabase';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { useAutoRefresh } from '../contexts/DataRefreshContext';
+import { getErrorMessage } from '../utils/errorMessages';
+import { StockMovementType, STOCK_MOVEMENT_LABELS } from '../types';
+
+interface RegisterEntry {
+  id: string;
+  product_id: string | null;
+  product_master_id: string | null;
+  product_name: string;
+  batch_number: string | null;
+  movement_type: StockMovementType;
+  sale_id: string | null;
+  prescription_id: string | null;
+  reference: string | null;
+  // Signed: dispensing and other stock out is negative
+  quantity: number;
+  balance_after: number;
+  dispensed_by_name: string;
+  created_at: string;
+  receipt_number?: string;
+  prescription?: PrescriptionRow;
+}
+
+interface PrescriptionRow {
+  id: string;
+  prescriber_name: string;
+  prescriber_licence: string;
+  patient_name: string;
+  reference: string;
+  image_path: string | null;
+}
+
+const ControlledDrugRegister: React.FC = () => {
+  const { products } = useApp();
+  const { showAlert } = useAlert();
+  const [entries, setEntries] = useState<RegisterEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [productFilter, setProductFilter] = useState('all');
+  const [dateFrom, setDateFrom] = useState(() => {
+    const date = new Date();
+    date.setDate(1);
+    return date.toISOString().split('T')[0];
+  });
+  const [dateTo, setDateTo] = useState(() => new Date().toISOString().split('T')[0]);
+
+  // Balances are kept per medicine across its batches
+  const controlledMedicines = [...new Map(
+    products
+      .filter(product => product.drugSchedule === 'controlled')
+      .map(product => [product.productMasterId, product.name])
+  ).entries()];
+
+  const loadRegister = useCallback(async () => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from('controlled_drug_register')
+        .select('*')
+        .gte('created_at', `${dateFrom}T00:00:00`)
+        .lte('created_at', `${dateTo}T23:59:59`)
+        .order('created_at', { ascending: true });
+
+      if (productFilter !== 'all') {
+        query = query.eq('product_master_id', productFilter);
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const rows: RegisterEntry[] = data || [];
+      const saleIds = [...new Set(rows.map(row => row.sale_id).filter((id): id is string => !!id))];
+      const prescriptionIds = [...new Set(rows.map(row => row.prescription_id).filter((id): id is string => !!id))];
+
+      const [salesResult, prescriptionsResult] = await Promise.all([
+        saleIds.length > 0
+          ? supabase.from('sales').select('id, receipt_number').in('id', saleIds)
+          : Promise.resolve({ data: [], error: null }),
+        prescriptionIds.length > 0
+          ? supabase.from('prescriptions').select('*').in('id', prescriptionIds)
+          : Promise.resolve({ data: [], error: null }),
+      ]);
+
+      if (salesResult.error) throw salesResult.error;
+      if (prescriptionsResult.error) throw prescriptionsResult.error;
+
+      const receipts = new Map((salesResult.data || []).map(sale => [sale.id, sale.receipt_number as string]));
+      const prescriptions = new Map((prescriptionsResult.data || []).map((row: PrescriptionRow) => [row.id, row]));
+
+      setEntries(rows.map(row => ({
+        ...row,
+        receipt_number: row.sale_id ? receipts.get(row.sale_id) : undefined,
+        prescription: row.prescription_id ? prescriptions.get(row.prescription_id) : undefined,
+      })));
+    } catch (error) {
+      console.error('Error loading controlled drug register:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [productFilter, dateFrom, dateTo]);
+
+  useEffect(() => {
+    loadRegister();
+  }, [loadRegister]);
+
+  useAutoRefresh(['sales', 'inventory'], loadRegister);
+
+  const viewScript = async (imagePath: string) => {
+    try {
+      const { data, error } = await supabase.storage
+        .from('prescriptions')
+        .createSignedUrl(imagePath, 300);
+
+      if (error) throw error;
+      window.open(data.signedUrl, '_blank');
+    } catch (error) {
+      showAlert({ title: 'Controlled Drug Register', message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
+  const exportRegister = () => {
+    const doc = new jsPDF({ orientation: 'landscape' });
+
+    doc.setFontSize(18);
+    doc.setFont('helvetica', 'bold');
+    doc.text('CONTROLLED DRUG REGISTER', 148, 18, { align: 'center' });
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Wesabi Pharmacy · ${dateFrom} to ${dateTo}`, 148, 25, { align: 'center' });
+
+    autoTable(doc, {
+      startY: 32,
+      head: [['Date', 'Product', 'Batch', 'Type', 'Reference', 'Patient', 'Prescriber', 'Licence', 'Rx Ref', 'In', 'Out', 'Balance', 'By']],
+      body: entries.map(entry => [
+        new Date(entry.created_at).toLocaleString('en-KE'),
+        entry.product_name,
+        entry.batch_number || '',
+        STOCK_MOVEMENT_LABELS[entry.movement_type],
+        entry.reference || entry.receipt_number || '',
+        entry.prescription?.patient_name || '',
+        entry.prescription?.prescriber_name || '',
+        entry.prescription?.prescriber_licence || '',
+        entry.prescription?.reference || '',
+        entry.quantity > 0 ? entry.quantity.toString() : '',
+        entry.quantity < 0 ? (-entry.quantity).toString() : '',
+        entry.balance_after.toString(),
+        entry.dispensed_by_name,
+      ]),
+      theme: 'grid',
+      headStyles: {
+        fillColor: [66, 139, 202],
+        textColor: 255,
+        fontStyle: 'bold',
+        fontSize: 9
+      },
+      bodyStyles: {
+        fontSize: 8
+      },
+      margin: { left: 15, right: 15 }
+    });
+
+    doc.save(`Controlled_Drug_Register_${dateFrom}_${dateTo}.pdf`);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Controlled Drug Register</h1>
+          <p className="text-gray-600">Every movement of a controlled substance, with the balance of the medicine across its batches after it</p>
+        </div>
+        <button
+          onClick={exportRegister}
+          disabled={entries.length === 0}
+          className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Export PDF
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border">
+        <div className="p-4 border-b grid grid-cols-1 md:grid-cols-3 gap-4">
+          <select
+            value={productFilter}
+            onChange={(e) => setProductFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+          >
+            <option value="all">All controlled products</option>
+            {controlledMedicines.map(([productMasterId, name]) => (
+              <option key={productMasterId} value={productMasterId}>{name}</option>
+            ))}
+          </select>
+          <input
+            type="date"
+            value={dateFrom}
+            onChange={(e) => setDateFrom(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+          />
+          <input
+            type="date"
+            value={dateTo}
+            onChange={(e) => setDateTo(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+          />
+        </div>
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-8">Loading register...</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Date</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Product</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Type</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Reference</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Patient</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Prescriber</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Rx Ref</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">In</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Out</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Balance</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">By</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {entries.length === 0 && (
+                  <tr>
+                    <td colSpan={11} className="px-4 py-8 text-center text-gray-500">
+                      <BookOpen className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+                      No controlled substance movements in this period
+                    </td>
+                  </tr>
+                )}
+                {entries.map(entry => (
+                  <tr key={entry.id}>
+                    <td className="px-4 py-2 whitespace-nowrap">{new Date(entry.created_at).toLocaleString('en-KE')}</td>
+                    <td className="px-4 py-2">
+                      <p className="font-medium">{entry.product_name}</p>
+                      {entry.batch_number && <p className="text-xs text-gray-500">Batch {entry.batch_number}</p>}
+                    </td>
+                    <td className="px-4 py-2 whitespace-nowrap">{STOCK_MOVEMENT_LABELS[entry.movement_type]}</td>
+                    <td className="px-4 py-2">{entry.reference || entry.receipt_number || '-'}</td>
+                    <td className="px-4 py-2">{entry.prescription?.patient_name || '-'}</td>
+                    <td className="px-4 py-2">
+                      {entry.prescription ? (
+                        <>
+                          <p>{entry.prescription.prescriber_name}</p>
+                          <p className="text-xs text-gray-500">Licence {entry.prescription.prescriber_licence}</p>
+                        </>
+                      ) : '-'}
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex items-center space-x-1">
+                        <span>{entry.prescription?.reference || '-'}</span>
+                        {entry.prescription?.image_path && (
+                          <button
+                            onClick={() => entry.prescription?.image_path && viewScript(entry.prescription.image_path)}
+                            className="p-1 text-blue-600 hover:text-blue-800"
+                            title="View prescription scan"
+                          >
+                            <Image className="h-4 w-4" />
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2 text-right font-semibold text-green-700">{entry.quantity > 0 ? entry.quantity : ''}</td>
+                    <td className="px-4 py-2 text-right font-semibold">{entry.quantity < 0 ? -entry.quantity : ''}</td>
+                    <td className="px-4 py-2 text-right">{entry.balance_after}</td>
+                    <td className="px-4 py-2">{entry.dispensed_by_name}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ControlledDrugRegister;
@@ -7,6 +7,7 @@ import { CreditNote, CreditNoteItem, Product, RETURN_REASONS, ReturnReasonCode }
 import { formatKES } from '../utils/currency';
 import { getErrorMessage } from '../utils/errorMessages';
 import AutocompleteInput from './AutocompleteInput';
+import SupplierPicker from './SupplierPicker';
 import { useApp } from '../contexts/AppContext';
 import { usePagination } from '../hooks/usePagination';
 import Pagination from './Pagination';
@@ -15,7 +16,7 @@ import { useAutoRefresh } from '../contexts/DataRefreshContext';
 const CreditNotes: React.FC = () => {
   const { user } = useAuth();
   const { showAlert } = useAlert();
-  const { suppliers, products, refreshData, logActivity } = useApp();
+  const { getSupplierByName, isSupabaseEnabled, products, refreshData, logActivity } = useApp();
   const [creditNotes, setCreditNotes] = useState<CreditNote[]>([]);
   const [showAddForm, setShowAddForm] = useState(false);
   const [showViewModal, setShowViewModal] = useState(false);
@@ -86,6 +87,7 @@ const CreditNotes: React.FC = () => {
             invoiceId: creditNote.invoice_id,
             invoiceNumber: creditNote.invoice_number,
             supplier: creditNote.supplier,
+            supplierId: creditNote.supplier_id || undefined,
             returnDate: new Date(creditNote.return_date),
             totalAmount: parseFloat(creditNote.total_amount),
             reason: creditNote.reason,
@@ -180,6 +182,13 @@ const CreditNotes: React.FC = () => {
       return;
     }
 
+    const supplierRecord = getSupplierByName(creditNoteData.supplier);
+    if (isSupabaseEnabled && !supplierRecord) {
+      showAlert({ title: 'Credit Notes', message: `"${creditNoteData.supplier}" is not a known supplier. Pick one from the list or add it.`, type: 'warning' });
+      return;
+    }
+    const supplierName = supplierRecord?.name || creditNoteData.supplier;
+
     if (creditNoteItems.length === 0) {
       showAlert({ title: 'Credit Notes', message: 'Please add at least one item to the credit note', type: 'error' });
       return;
@@ -199,7 +208,8 @@ const CreditNotes: React.FC = () => {
         .insert({
           credit_note_number: autoGeneratedNumber,
           invoice_number: creditNoteData.invoiceNumber,
-          supplier: creditNoteData.supplier,
+          supplier: supplierName,
+          supplier_id: supplierRecord?.id || null,
           return_date: creditNoteData.returnDate,
           total_amount: totalAmount,
           reason: mainReason,
@@ -220,20 +230,18 @@ const CreditNotes: React.FC = () => {
           .single();
 
         if (product) {
-          const newStock = product.current_stock - item.quantity;
-          if (newStock < 0) {
-            throw new Error(`Insufficient stock for ${item.productName}. Available: ${product.current_stock}, Returning: ${item.quantity}`);
-          }
-
-          const { error: updateError } = await supabase
-            .from('products')
-            .update({
-              current_stock: newStock,
-              updated_at: new Date().toISOString(),
-            })
-            .eq('id', item.productId);
-
-          if (updateError) throw updateError;
+          const { error: stockError } = await supabase.rpc('record_stock_movement', {
+            p_product_id: item.productId,
+            p_movement_type: 'supplier_return',
+            p_quantity: -item.quantity,
+            p_reason: item.reason || mainReason,
+            p_source_type: 'credit_note',
+            p_source_id: creditNote.id,
+            p_reference: autoGeneratedNumber,
+            p_user_name: user.name,
+          });
+
+          if (stockError) throw stockError;
         }
 
         const { error: itemError } = await supabase
@@ -259,7 +267,7 @@ const CreditNotes: React.FC = () => {
       // Log activity
       await logActivity(
         'CREDIT_NOTE_CREATED',
-        `Created credit note ${autoGeneratedNumber} for supplier ${creditNoteData.supplier} - Total: ${formatKES(totalAmount)}`
+        `Created credit note ${autoGeneratedNumber} for supplier ${supplierName} - Total: ${formatKES(totalAmount)}`
       );
 
       resetForm();
@@ -637,12 +645,9 @@ const CreditNotes: React.FC = () => {
                   />
                 </div>
 
-                <AutocompleteInput
+                <SupplierPicker
                   value={creditNoteData.supplier}
                   onChange={(value) => setCreditNoteData({ ...creditNoteData, supplier: value })}
-                  options={suppliers}
-                  placeholder="Select supplier"
-                  label="Supplier"
                   required
                 />
 
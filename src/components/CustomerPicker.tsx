@@ -0,0 +1,196 @@
+import React, { useState, useEffect } from 'react';
+import { Search, UserPlus, X, AlertTriangle } from 'lucide-react';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { Customer } from '../types';
+import { getErrorMessage } from '../utils/errorMessages';
+
+interface CustomerPickerProps {
+  customer: Customer | null;
+  customerName: string;
+  onCustomerChange: (customer: Customer | null) => void;
+  onCustomerNameChange: (name: string) => void;
+}
+
+// Finds a customer by phone, name or loyalty number. Text that matches nobody is
+// kept as a walk-in customer name on the sale.
+const CustomerPicker: React.FC<CustomerPickerProps> = ({
+  customer,
+  customerName,
+  onCustomerChange,
+  onCustomerNameChange
+}) => {
+  const { searchCustomers, addCustomer } = useApp();
+  const { showAlert } = useAlert();
+  const [results, setResults] = useState<Customer[]>([]);
+  const [showResults, setShowResults] = useState(false);
+  const [showCreate, setShowCreate] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [newCustomer, setNewCustomer] = useState({ name: '', phone: '', allergies: '' });
+
+  useEffect(() => {
+    if (customer || customerName.trim().length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timeoutId = setTimeout(() => {
+      searchCustomers(customerName)
+        .then(setResults)
+        .catch(() => setResults([]));
+    }, 300);
+
+    return () => clearTimeout(timeoutId);
+  }, [customerName, customer, searchCustomers]);
+
+  const selectCustomer = (selected: Customer) => {
+    onCustomerChange(selected);
+    onCustomerNameChange(selected.name);
+    setShowResults(false);
+  };
+
+  const clearCustomer = () => {
+    onCustomerChange(null);
+    onCustomerNameChange('');
+  };
+
+  const openCreate = () => {
+    const term = customerName.trim();
+    const isPhone = /^[\d\s+]+$/.test(term);
+    setNewCustomer({ name: isPhone ? '' : term, phone: isPhone ? term : '', allergies: '' });
+    setShowResults(false);
+    setShowCreate(true);
+  };
+
+  const createCustomer = async () => {
+    if (!newCustomer.name.trim()) {
+      showAlert({ title: 'Customers', message: 'Enter the customer name', type: 'warning' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const created = await addCustomer({
+        name: newCustomer.name,
+        phone: newCustomer.phone || undefined,
+        allergies: newCustomer.allergies || undefined,
+      });
+      selectCustomer(created);
+      setShowCreate(false);
+    } catch (error) {
+      showAlert({ title: 'Customers', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (customer) {
+    return (
+      <div className="p-3 bg-green-50 border border-green-200 rounded-lg">
+        <div className="flex justify-between items-start">
+          <div className="text-sm">
+            <p className="font-medium text-gray-900">{customer.name}</p>
+            <p className="text-gray-600">
+              {[customer.phone, customer.loyaltyId].filter(Boolean).join(' · ')}
+            </p>
+          </div>
+          <button onClick={clearCustomer} className="p-1 text-gray-400 hover:text-gray-600" title="Remove customer">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+        {customer.allergies && (
+          <p className="mt-2 text-sm text-red-700 flex items-start">
+            <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+            Allergies: {customer.allergies}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+        <input
+          type="text"
+          value={customerName}
+          onChange={(e) => {
+            onCustomerNameChange(e.target.value);
+            setShowResults(true);
+          }}
+          onFocus={() => setShowResults(true)}
+          onBlur={() => setTimeout(() => setShowResults(false), 200)}
+          placeholder="Phone, name or loyalty number"
+          className="w-full pl-9 pr-10 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+        />
+        <button
+          onClick={openCreate}
+          className="absolute right-2 top-1/2 transform -translate-y-1/2 p-1 text-green-600 hover:text-green-800"
+          title="New customer"
+        >
+          <UserPlus className="h-4 w-4" />
+        </button>
+      </div>
+
+      {showResults && results.length > 0 && (
+        <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+          {results.map(result => (
+            <button
+              key={result.id}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => selectCustomer(result)}
+              className="w-full text-left px-3 py-2 hover:bg-gray-50 text-sm"
+            >
+              <p className="font-medium text-gray-900">{result.name}</p>
+              <p className="text-gray-500">{[result.phone, result.loyaltyId].filter(Boolean).join(' · ')}</p>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {showCreate && (
+        <div className="mt-2 p-3 border border-gray-200 rounded-lg space-y-2">
+          <input
+            type="text"
+            value={newCustomer.name}
+            onChange={(e) => setNewCustomer({ ...newCustomer, name: e.target.value })}
+            placeholder="Full name"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+          />
+          <input
+            type="tel"
+            value={newCustomer.phone}
+            onChange={(e) => setNewCustomer({ ...newCustomer, phone: e.target.value })}
+            placeholder="Phone (0712345678)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+          />
+          <input
+            type="text"
+            value={newCustomer.allergies}
+            onChange={(e) => setNewCustomer({ ...newCustomer, allergies: e.target.value })}
+            placeholder="Known allergies (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+          />
+          <div className="flex space-x-2">
+            <button
+              onClick={() => setShowCreate(false)}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={createCustomer}
+              disabled={isSaving}
+              className="flex-1 px-3 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+            >
+              {isSaving ? 'Saving...' : 'Add Customer'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CustomerPicker;
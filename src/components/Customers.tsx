@@ -0,0 +1,376 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Users, Search, Plus, Edit2, X, AlertTriangle, History } from 'lucide-react';
+import { supabase, Customer as CustomerRow } from '../lib/supabase';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { Customer } from '../types';
+import { formatKES } from '../utils/currency';
+import { getErrorMessage } from '../utils/errorMessages';
+import { usePagination } from '../hooks/usePagination';
+import Pagination from './Pagination';
+
+interface CustomerSale {
+  id: string;
+  receipt_number: string;
+  total_amount: number;
+  payment_method: string;
+  created_at: string;
+  sale_items: { product_name: string; quantity: number; total_price: number }[];
+}
+
+const emptyForm = { name: '', phone: '', loyaltyId: '', allergies: '', notes: '' };
+
+const Customers: React.FC = () => {
+  const { addCustomer, updateCustomer } = useApp();
+  const { showAlert } = useAlert();
+  const [customers, setCustomers] = useState<Customer[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [historyCustomer, setHistoryCustomer] = useState<Customer | null>(null);
+  const [history, setHistory] = useState<CustomerSale[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+
+  const loadCustomers = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('customers')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+
+      setCustomers((data || []).map((row: CustomerRow) => ({
+        id: row.id,
+        name: row.name,
+        phone: row.phone || undefined,
+        notes: row.notes || undefined,
+        allergies: row.allergies || undefined,
+        loyaltyId: row.loyalty_id,
+        createdAt: new Date(row.created_at),
+      })));
+    } catch (error) {
+      console.error('Error loading customers:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadCustomers();
+  }, [loadCustomers]);
+
+  const openHistory = async (customer: Customer) => {
+    setHistoryCustomer(customer);
+    setHistoryLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('sales')
+        .select(`
+          id,
+          receipt_number,
+          total_amount,
+          payment_method,
+          created_at,
+          sale_items (product_name, quantity, total_price)
+        `)
+        .eq('customer_id', customer.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setHistory(data || []);
+    } catch (error) {
+      showAlert({ title: 'Customers', message: getErrorMessage(error), type: 'error' });
+      setHistory([]);
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  const openForm = (customer?: Customer) => {
+    setEditingCustomer(customer || null);
+    setForm(customer ? {
+      name: customer.name,
+      phone: customer.phone || '',
+      loyaltyId: customer.loyaltyId,
+      allergies: customer.allergies || '',
+      notes: customer.notes || '',
+    } : emptyForm);
+    setShowForm(true);
+  };
+
+  const saveCustomer = async () => {
+    if (!form.name.trim()) {
+      showAlert({ title: 'Customers', message: 'Customer name is required', type: 'warning' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      if (editingCustomer) {
+        await updateCustomer(editingCustomer.id, form);
+      } else {
+        await addCustomer(form);
+      }
+      setShowForm(false);
+      await loadCustomers();
+    } catch (error) {
+      showAlert({ title: 'Customers', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const term = searchTerm.trim().toLowerCase();
+  const digits = term.replace(/\D/g, '').replace(/^0/, '');
+  const filteredCustomers = customers.filter(customer =>
+    !term ||
+    customer.name.toLowerCase().includes(term) ||
+    customer.loyaltyId.toLowerCase().includes(term) ||
+    (digits.length >= 3 && customer.phone?.includes(digits))
+  );
+
+  const {
+    currentPage,
+    paginatedItems: paginatedCustomers,
+    goToPage,
+    itemsPerPage
+  } = usePagination({ items: filteredCustomers, itemsPerPage: 15 });
+
+  const historyTotal = history.reduce((sum, sale) => sum + (Number(sale.total_amount) || 0), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Customers</h1>
+          <p className="text-gray-600">Customer records, allergies and purchase history</p>
+        </div>
+        <button
+          onClick={() => openForm()}
+          className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Customer
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border">
+        <div className="p-4 border-b">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                goToPage(1);
+              }}
+              placeholder="Search by name, phone or loyalty number"
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-8">Loading customers...</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Name</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Phone</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Loyalty No.</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Allergies</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {paginatedCustomers.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-8 text-center text-gray-500">No customers found</td>
+                  </tr>
+                )}
+                {paginatedCustomers.map(customer => (
+                  <tr key={customer.id}>
+                    <td className="px-4 py-2">
+                      <p className="font-medium text-gray-900">{customer.name}</p>
+                      {customer.notes && <p className="text-xs text-gray-500 truncate max-w-xs">{customer.notes}</p>}
+                    </td>
+                    <td className="px-4 py-2">{customer.phone || '-'}</td>
+                    <td className="px-4 py-2">{customer.loyaltyId}</td>
+                    <td className="px-4 py-2">
+                      {customer.allergies ? (
+                        <span className="text-red-700 flex items-center">
+                          <AlertTriangle className="h-4 w-4 mr-1" />
+                          {customer.allergies}
+                        </span>
+                      ) : '-'}
+                    </td>
+                    <td className="px-4 py-2">
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => openHistory(customer)}
+                          className="p-1 text-blue-600 hover:text-blue-800"
+                          title="Purchase history"
+                        >
+                          <History className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => openForm(customer)}
+                          className="p-1 text-gray-600 hover:text-gray-800"
+                          title="Edit customer"
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            <Pagination
+              currentPage={currentPage}
+              totalItems={filteredCustomers.length}
+              itemsPerPage={itemsPerPage}
+              onPageChange={goToPage}
+              itemName="customers"
+            />
+          </div>
+        )}
+      </div>
+
+      {/* Add / Edit Customer Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold mb-4 flex items-center">
+              <Users className="h-5 w-5 mr-2" />
+              {editingCustomer ? 'Edit Customer' : 'Add Customer'}
+            </h3>
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+                <input
+                  type="tel"
+                  value={form.phone}
+                  onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                  placeholder="0712345678"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Loyalty Number</label>
+                <input
+                  type="text"
+                  value={form.loyaltyId}
+                  onChange={(e) => setForm({ ...form, loyaltyId: e.target.value })}
+                  placeholder={editingCustomer ? '' : 'Assigned automatically if left blank'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Allergies</label>
+                <input
+                  type="text"
+                  value={form.allergies}
+                  onChange={(e) => setForm({ ...form, allergies: e.target.value })}
+                  placeholder="e.g. Penicillin, sulfa drugs"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+            </div>
+            <div className="flex space-x-3 mt-6">
+              <button
+                onClick={() => setShowForm(false)}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveCustomer}
+                disabled={isSaving}
+                className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Purchase History Modal */}
+      {historyCustomer && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b flex justify-between items-start sticky top-0 bg-white">
+              <div>
+                <h3 className="text-lg font-semibold">{historyCustomer.name}</h3>
+                <p className="text-sm text-gray-600">
+                  {history.length} purchase(s) · {formatKES(historyTotal)}
+                  {history.length > 0 && ` · last visit ${new Date(history[0].created_at).toLocaleDateString('en-KE')}`}
+                </p>
+              </div>
+              <button onClick={() => setHistoryCustomer(null)} className="p-1 text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="p-6 space-y-3">
+              {historyLoading ? (
+                <p className="text-center text-gray-500 py-4">Loading history...</p>
+              ) : history.length === 0 ? (
+                <p className="text-center text-gray-500 py-4">No purchases recorded for this customer</p>
+              ) : (
+                history.map(sale => (
+                  <div key={sale.id} className="border rounded-lg p-3 text-sm">
+                    <div className="flex justify-between mb-1">
+                      <span className="font-medium">{sale.receipt_number}</span>
+                      <span className="font-semibold">{formatKES(Number(sale.total_amount) || 0)}</span>
+                    </div>
+                    <p className="text-xs text-gray-500 mb-2">
+                      {new Date(sale.created_at).toLocaleString('en-KE')} · {sale.payment_method.toUpperCase()}
+                    </p>
+                    <ul className="text-gray-700 space-y-0.5">
+                      {sale.sale_items.map((item, index) => (
+                        <li key={index} className="flex justify-between">
+                          <span>{item.product_name} × {item.quantity}</span>
+                          <span>{formatKES(Number(item.total_price) || 0)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Customers;
@@ -17,7 +17,7 @@ import autoTable from 'jspdf-autotable';
 import { usePageRefresh } from '../hooks/usePageRefresh';
 
 const Dashboard: React.FC = () => {
-  const { products, sales, getStockAlerts, salesHistory } = useApp();
+  const { products, sales, saleReturns, getStockAlerts, salesHistory } = useApp();
   usePageRefresh('dashboard', { refreshOnMount: true, staleTime: 30000 });
   const alerts = getStockAlerts();
   const [salesPeriod, setSalesPeriod] = useState<'day' | 'week' | 'month' | 'year'>('week');
@@ -27,14 +27,24 @@ const Dashboard: React.FC = () => {
   const today = new Date();
   today.setHours(0, 0, 0, 0);
 
-  const todaySales = sales.filter(sale => {
-    const saleDate = new Date(sale.createdAt);
-    saleDate.setHours(0, 0, 0, 0);
-    return saleDate.getTime() === today.getTime();
-  });
+  const isToday = (date: Date) => {
+    const day = new Date(date);
+    day.setHours(0, 0, 0, 0);
+    return day.getTime() === today.getTime();
+  };
+
+  // Returns are negative lines on the day they were refunded, so every total is net of refunds
+  const revenueLines = [
+    ...sales.map(sale => ({ createdAt: sale.createdAt, amount: sale.totalAmount })),
+    ...saleReturns.map(saleReturn => ({ createdAt: saleReturn.createdAt, amount: -saleReturn.totalAmount })),
+  ];
+
+  const todaySales = sales.filter(sale => isToday(sale.createdAt));
 
-  const totalSalesToday = todaySales.reduce((sum, sale) => sum + sale.totalAmount, 0);
-  const totalSalesAllTime = sales.reduce((sum, sale) => sum + sale.totalAmount, 0);
+  const totalSalesToday = revenueLines
+    .filter(line => isToday(line.createdAt))
+    .reduce((sum, line) => sum + line.amount, 0);
+  const totalSalesAllTime = revenueLines.reduce((sum, line) => sum + line.amount, 0);
 
   const lowStockAlerts = alerts.filter(alert => alert.alertType === 'low_stock');
   const expiryAlerts = alerts.filter(alert => alert.alertType === 'expiry_warning');
@@ -71,12 +81,12 @@ const Dashboard: React.FC = () => {
           const nextDay = new Date(date);
           nextDay.setDate(nextDay.getDate() + 1);
 
-          const daySales = sales.filter(sale => {
-            const saleDate = new Date(sale.createdAt);
+          const daySales = revenueLines.filter(line => {
+            const saleDate = new Date(line.createdAt);
             return saleDate >= date && saleDate < nextDay;
           });
 
-          const total = daySales.reduce((sum, sale) => sum + sale.totalAmount, 0);
+          const total = daySales.reduce((sum, line) => sum + line.amount, 0);
           data.push({
             label: date.toLocaleDateString('en-KE', { weekday: 'short' }),
             value: total
@@ -99,12 +109,12 @@ const Dashboard: React.FC = () => {
 
           const actualWeekEnd = weekEnd > monthEnd ? monthEnd : weekEnd;
 
-          const weekSales = sales.filter(sale => {
-            const saleDate = new Date(sale.createdAt);
+          const weekSales = revenueLines.filter(line => {
+            const saleDate = new Date(line.createdAt);
             return saleDate >= currentWeekStart && saleDate <= actualWeekEnd;
           });
 
-          const total = weekSales.reduce((sum, sale) => sum + sale.totalAmount, 0);
+          const total = weekSales.reduce((sum, line) => sum + line.amount, 0);
 
           data.push({
             label: `Week ${weekNumber}`,
@@ -125,12 +135,12 @@ const Dashboard: React.FC = () => {
           const monthStart = new Date(now.getFullYear(), now.getMonth() - i, 1);
           const monthEnd = new Date(now.getFullYear(), now.getMonth() - i + 1, 1);
 
-          const monthSales = sales.filter(sale => {
-            const saleDate = new Date(sale.createdAt);
+          const monthSales = revenueLines.filter(line => {
+            const saleDate = new Date(line.createdAt);
             return saleDate >= monthStart && saleDate < monthEnd;
           });
 
-          const total = monthSales.reduce((sum, sale) => sum + sale.totalAmount, 0);
+          const total = monthSales.reduce((sum, line) => sum + line.amount, 0);
           data.push({
             label: monthStart.toLocaleDateString('en-KE', { month: 'short' }),
             value: total
@@ -144,12 +154,12 @@ const Dashboard: React.FC = () => {
           const yearStart = new Date(year, 0, 1);
           const yearEnd = new Date(year + 1, 0, 1);
 
-          const yearSales = sales.filter(sale => {
-            const saleDate = new Date(sale.createdAt);
+          const yearSales = revenueLines.filter(line => {
+            const saleDate = new Date(line.createdAt);
             return saleDate >= yearStart && saleDate < yearEnd;
           });
 
-          const total = yearSales.reduce((sum, sale) => sum + sale.totalAmount, 0);
+          const total = yearSales.reduce((sum, line) => sum + line.amount, 0);
           data.push({
             label: year.toString(),
             value: total
@@ -330,7 +340,7 @@ const Dashboard: React.FC = () => {
                       <p className="text-sm text-gray-600">
                         {alert.alertType === 'low_stock'
                           ? `Stock: ${alert.currentStock} (Min: ${alert.minStockLevel})`
-                          : `Expires in ${alert.daysToExpiry} days`
+                          : `Batch ${alert.batchNumber} expires in ${alert.daysToExpiry} days`
                         }
                       </p>
                     </div>
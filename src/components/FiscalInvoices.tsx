@@ -0,0 +1,248 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Receipt, RefreshCw, Send } from 'lucide-react';
+import { supabase, FiscalInvoice as FiscalInvoiceRow } from '../lib/supabase';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { useAutoRefresh } from '../contexts/DataRefreshContext';
+import { FiscalInvoiceStatus } from '../types';
+import { formatKES } from '../utils/currency';
+import { getErrorMessage } from '../utils/errorMessages';
+
+interface FiscalInvoiceLine {
+  saleId: string;
+  invoiceSequence: number;
+  receiptNumber: string;
+  saleDate: Date;
+  saleTotal: number;
+  status: FiscalInvoiceStatus;
+  buyerPin?: string;
+  controlNumber?: string;
+  attempts: number;
+  lastError?: string;
+  nextAttemptAt?: Date;
+}
+
+const STATUS_STYLES: Record<FiscalInvoiceStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  unconfirmed: 'bg-orange-100 text-orange-800',
+  submitted: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const STATUS_LABELS: Record<FiscalInvoiceStatus, string> = {
+  pending: 'Pending',
+  unconfirmed: 'Awaiting KRA',
+  submitted: 'Accepted',
+  failed: 'Failed',
+};
+
+const PAGE_SIZE = 200;
+
+const FiscalInvoices: React.FC = () => {
+  const { submitFiscalInvoice, retryFiscalInvoices, logActivity } = useApp();
+  const { showAlert } = useAlert();
+  const [loading, setLoading] = useState(true);
+  const [lines, setLines] = useState<FiscalInvoiceLine[]>([]);
+  const [statusFilter, setStatusFilter] = useState<FiscalInvoiceStatus | 'all'>('all');
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+  const [retrying, setRetrying] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      let query = supabase
+        .from('fiscal_invoices')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(PAGE_SIZE);
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data: invoices, error } = await query;
+      if (error) throw error;
+
+      const rows: FiscalInvoiceRow[] = invoices || [];
+      const saleIds = rows.map(row => row.sale_id);
+      const { data: salesData, error: salesError } = saleIds.length > 0
+        ? await supabase.from('sales').select('id, receipt_number, total_amount, created_at').in('id', saleIds)
+        : { data: [], error: null };
+
+      if (salesError) throw salesError;
+
+      const salesById = new Map((salesData || []).map(sale => [sale.id, sale]));
+
+      setLines(rows.map(row => {
+        const sale = salesById.get(row.sale_id);
+        return {
+          saleId: row.sale_id || '',
+          invoiceSequence: row.invoice_sequence || 0,
+          receiptNumber: sale?.receipt_number || '-',
+          saleDate: new Date(sale?.created_at || row.created_at || 0),
+          saleTotal: Number(sale?.total_amount) || 0,
+          status: row.status,
+          buyerPin: row.buyer_pin || undefined,
+          controlNumber: row.control_number || undefined,
+          attempts: row.attempts || 0,
+          lastError: row.last_error || undefined,
+          nextAttemptAt: row.next_attempt_at ? new Date(row.next_attempt_at) : undefined,
+        };
+      }));
+    } catch (error) {
+      console.error('Error loading fiscal invoices:', error);
+      showAlert({ title: 'Fiscal Invoices', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, showAlert]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  useAutoRefresh('sales', loadData);
+
+  const handleSubmit = async (line: FiscalInvoiceLine) => {
+    try {
+      setSubmittingId(line.saleId);
+      const invoice = await submitFiscalInvoice(line.saleId);
+      await logActivity('SUBMIT_FISCAL_INVOICE', `Resubmitted fiscal invoice for receipt ${line.receiptNumber}`);
+
+      if (invoice.status === 'submitted') {
+        showAlert({ title: 'Fiscal Invoices', message: `KRA accepted receipt ${line.receiptNumber} (${invoice.controlNumber})`, type: 'success' });
+      } else {
+        showAlert({ title: 'Fiscal Invoices', message: invoice.lastError || 'KRA did not accept the invoice', type: 'error' });
+      }
+      await loadData();
+    } catch (error) {
+      showAlert({ title: 'Fiscal Invoices', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  const handleRetryDue = async () => {
+    try {
+      setRetrying(true);
+      const { processed, submitted } = await retryFiscalInvoices();
+      await logActivity('RETRY_FISCAL_INVOICES', `Retried ${processed} fiscal invoices, ${submitted} accepted`);
+      showAlert({
+        title: 'Fiscal Invoices',
+        message: processed === 0 ? 'No invoices are due a retry' : `${submitted} of ${processed} invoices accepted by KRA`,
+        type: submitted === processed ? 'success' : 'warning',
+      });
+      await loadData();
+    } catch (error) {
+      showAlert({ title: 'Fiscal Invoices', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  const unsentCount = lines.filter(line => line.status !== 'submitted').length;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Fiscal Invoices</h1>
+          <p className="text-gray-600">Sales transmitted to KRA eTIMS and those waiting to be resubmitted</p>
+        </div>
+        <button
+          onClick={handleRetryDue}
+          disabled={retrying}
+          className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${retrying ? 'animate-spin' : ''}`} />
+          {retrying ? 'Retrying...' : 'Retry Due Now'}
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border">
+        <div className="p-4 border-b flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Receipt className="h-5 w-5 mr-2" />
+            {unsentCount > 0 ? `${unsentCount} not yet accepted` : 'All invoices accepted'}
+          </h2>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as FiscalInvoiceStatus | 'all')}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+          >
+            <option value="all">All statuses</option>
+            {(Object.keys(STATUS_LABELS) as FiscalInvoiceStatus[]).map(status => (
+              <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+        </div>
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-8">Loading fiscal invoices...</p>
+        ) : lines.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No fiscal invoices</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Invoice</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Date</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Receipt</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Buyer PIN</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Total</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">CU Invoice / Error</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {lines.map(line => (
+                  <tr key={line.saleId}>
+                    <td className="px-4 py-2 text-gray-900">{line.invoiceSequence}</td>
+                    <td className="px-4 py-2 text-gray-600">{line.saleDate.toLocaleString('en-KE')}</td>
+                    <td className="px-4 py-2 text-gray-900">{line.receiptNumber}</td>
+                    <td className="px-4 py-2 text-gray-600">{line.buyerPin || '-'}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{formatKES(line.saleTotal)}</td>
+                    <td className="px-4 py-2">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[line.status]}`}>
+                        {STATUS_LABELS[line.status]}
+                      </span>
+                      {line.attempts > 1 && (
+                        <span className="ml-2 text-xs text-gray-500">{line.attempts} attempts</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">
+                      {line.status === 'submitted' ? line.controlNumber : (
+                        <>
+                          <span className="text-red-600">{line.lastError || 'Not sent yet'}</span>
+                          {line.nextAttemptAt && (
+                            <span className="block text-xs text-gray-500">Next try {line.nextAttemptAt.toLocaleTimeString('en-KE')}</span>
+                          )}
+                        </>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      {line.status !== 'submitted' && (
+                        <button
+                          onClick={() => handleSubmit(line)}
+                          disabled={submittingId === line.saleId}
+                          className="flex items-center px-3 py-1 text-sm text-blue-700 border border-blue-300 rounded-lg hover:bg-blue-50 disabled:text-gray-400 disabled:border-gray-200"
+                        >
+                          <Send className="h-4 w-4 mr-1" />
+                          {submittingId === line.saleId ? 'Sending...' : 'Resubmit'}
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FiscalInvoices;
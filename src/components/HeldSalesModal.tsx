@@ -0,0 +1,199 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { PauseCircle, PlayCircle, Trash2, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { HeldSale, SaleItem } from '../types';
+import { formatKES } from '../utils/currency';
+import { getErrorMessage } from '../utils/errorMessages';
+
+interface HeldSaleRow {
+  id: string;
+  label: string;
+  customer_id: string | null;
+  customer_name: string | null;
+  items: SaleItem[];
+  total_amount: number;
+  branch_code: string;
+  held_by: string | null;
+  held_by_name: string;
+  expires_at: string;
+  created_at: string;
+}
+
+interface HeldSalesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onResume: (heldSale: HeldSale) => void;
+  cartHasItems: boolean;
+}
+
+const mapHeldSale = (row: HeldSaleRow): HeldSale => ({
+  id: row.id,
+  label: row.label,
+  customerId: row.customer_id || undefined,
+  customerName: row.customer_name || undefined,
+  items: row.items || [],
+  totalAmount: Number(row.total_amount) || 0,
+  branchCode: row.branch_code,
+  heldBy: row.held_by || undefined,
+  heldByName: row.held_by_name,
+  expiresAt: new Date(row.expires_at),
+  createdAt: new Date(row.created_at),
+});
+
+const formatTimeLeft = (expiresAt: Date): string => {
+  const minutes = Math.max(0, Math.round((expiresAt.getTime() - Date.now()) / 60000));
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const HeldSalesModal: React.FC<HeldSalesModalProps> = ({ isOpen, onClose, onResume, cartHasItems }) => {
+  const { logActivity } = useApp();
+  const { showAlert } = useAlert();
+  const [heldSales, setHeldSales] = useState<HeldSale[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const loadHeldSales = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      // Expired carts are dropped before listing; they never reserved stock
+      const { error: purgeError } = await supabase.rpc('purge_expired_held_sales');
+      if (purgeError) console.error('Error purging expired held sales:', purgeError);
+
+      const { data, error } = await supabase
+        .from('held_sales')
+        .select('*')
+        .gt('expires_at', new Date().toISOString())
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setHeldSales((data || []).map(mapHeldSale));
+    } catch (error) {
+      console.error('Error loading held sales:', error);
+      showAlert({ title: 'Held Sales', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [showAlert]);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadHeldSales();
+    }
+  }, [isOpen, loadHeldSales]);
+
+  // Deleting the row claims it, so the same cart cannot be resumed on two tills
+  const claimHeldSale = async (heldSale: HeldSale): Promise<boolean> => {
+    const { data, error } = await supabase
+      .from('held_sales')
+      .delete()
+      .eq('id', heldSale.id)
+      .select('id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+  };
+
+  const resumeHeldSale = async (heldSale: HeldSale) => {
+    try {
+      const claimed = await claimHeldSale(heldSale);
+      if (!claimed) {
+        showAlert({ title: 'Held Sales', message: `"${heldSale.label}" has already been resumed or has expired`, type: 'warning' });
+        await loadHeldSales();
+        return;
+      }
+
+      await logActivity('RESUME_HELD_SALE', `Resumed held sale "${heldSale.label}" - ${formatKES(heldSale.totalAmount)}`);
+      onResume(heldSale);
+      onClose();
+    } catch (error) {
+      showAlert({ title: 'Held Sales', message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
+  const discardHeldSale = (heldSale: HeldSale) => {
+    showAlert({
+      title: 'Discard Held Sale',
+      message: `Discard "${heldSale.label}" (${formatKES(heldSale.totalAmount)})?`,
+      type: 'confirm',
+      confirmText: 'Discard',
+      onConfirm: async () => {
+        try {
+          await claimHeldSale(heldSale);
+          await logActivity('DISCARD_HELD_SALE', `Discarded held sale "${heldSale.label}" - ${formatKES(heldSale.totalAmount)}`);
+          await loadHeldSales();
+        } catch (error) {
+          showAlert({ title: 'Held Sales', message: getErrorMessage(error), type: 'error' });
+        }
+      }
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold flex items-center">
+            <PauseCircle className="h-5 w-5 mr-2" />
+            Held Sales
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {cartHasItems && (
+          <p className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            Park or clear the current cart before resuming a held sale.
+          </p>
+        )}
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-4">Loading held sales...</p>
+        ) : heldSales.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">No held sales</p>
+        ) : (
+          <div className="space-y-2">
+            {heldSales.map(heldSale => (
+              <div key={heldSale.id} className="p-3 border rounded-lg flex items-center justify-between">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 truncate">{heldSale.label}</p>
+                  <p className="text-sm text-gray-600">
+                    {heldSale.items.length} items · {formatKES(heldSale.totalAmount)}
+                    {heldSale.customerName && ` · ${heldSale.customerName}`}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {heldSale.heldByName} · {heldSale.branchCode} · {heldSale.createdAt.toLocaleTimeString('en-KE')} · expires in {formatTimeLeft(heldSale.expiresAt)}
+                  </p>
+                </div>
+                <div className="flex space-x-2 ml-3">
+                  <button
+                    onClick={() => resumeHeldSale(heldSale)}
+                    disabled={cartHasItems}
+                    className="p-2 text-green-600 hover:text-green-800 disabled:text-gray-300"
+                    title="Resume"
+                  >
+                    <PlayCircle className="h-5 w-5" />
+                  </button>
+                  <button
+                    onClick={() => discardHeldSale(heldSale)}
+                    className="p-2 text-red-600 hover:text-red-800"
+                    title="Discard"
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HeldSalesModal;
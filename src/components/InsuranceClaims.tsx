@@ -0,0 +1,874 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Shield, FileText, Download, Plus, X, Check, Ban, Banknote } from 'lucide-react';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { supabase } from '../lib/supabase';
+import { useApp } from '../contexts/AppContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useAlert } from '../contexts/AlertContext';
+import { useAutoRefresh } from '../contexts/DataRefreshContext';
+import {
+  Insurer,
+  InsuranceScheme,
+  InsuranceClaim,
+  InsuranceClaimStatus,
+  CopayType,
+  INSURANCE_CLAIM_STATUS_LABELS
+} from '../types';
+import { formatKES } from '../utils/currency';
+import { getErrorMessage } from '../utils/errorMessages';
+
+interface ClaimLine {
+  saleId: string;
+  receiptNumber: string;
+  saleDate: Date;
+  saleTotal: number;
+  insurerId: string;
+  schemeId?: string;
+  memberNumber: string;
+  memberName?: string;
+  preauthNumber?: string;
+  insurerAmount: number;
+  copayAmount: number;
+  claimId?: string;
+}
+
+interface SaleInsuranceRow {
+  sale_id: string;
+  insurer_id: string;
+  scheme_id: string | null;
+  member_number: string;
+  member_name: string | null;
+  preauth_number: string | null;
+  insurer_amount: number;
+  copay_amount: number;
+  claim_id: string | null;
+}
+
+type Tab = 'unclaimed' | 'claims' | 'insurers';
+
+const STATUS_STYLES: Record<InsuranceClaimStatus, string> = {
+  submitted: 'bg-blue-100 text-blue-800',
+  partially_paid: 'bg-yellow-100 text-yellow-800',
+  paid: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+};
+
+const COPAY_LABELS: Record<CopayType, string> = {
+  none: 'No co-pay',
+  percent: '% of sale',
+  fixed: 'Fixed KES',
+};
+
+const InsuranceClaims: React.FC = () => {
+  const { logActivity } = useApp();
+  const { user } = useAuth();
+  const { showAlert } = useAlert();
+  const [activeTab, setActiveTab] = useState<Tab>('unclaimed');
+  const [loading, setLoading] = useState(true);
+  const [insurers, setInsurers] = useState<Insurer[]>([]);
+  const [schemes, setSchemes] = useState<InsuranceScheme[]>([]);
+  const [claims, setClaims] = useState<InsuranceClaim[]>([]);
+  const [unclaimedLines, setUnclaimedLines] = useState<ClaimLine[]>([]);
+  const [excludedSales, setExcludedSales] = useState<Set<string>>(new Set());
+  const [statusFilter, setStatusFilter] = useState<InsuranceClaimStatus | 'all'>('all');
+  const [creatingFor, setCreatingFor] = useState<string | null>(null);
+  const [paymentClaim, setPaymentClaim] = useState<InsuranceClaim | null>(null);
+  const [paymentAmount, setPaymentAmount] = useState('');
+  const [rejectClaim, setRejectClaim] = useState<InsuranceClaim | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [newInsurer, setNewInsurer] = useState({ name: '', code: '', contactEmail: '', phone: '' });
+  const [newScheme, setNewScheme] = useState<{ insurerId: string; name: string; copayType: CopayType; copayValue: string }>({
+    insurerId: '',
+    name: '',
+    copayType: 'none',
+    copayValue: '',
+  });
+
+  const loadLines = async (rows: SaleInsuranceRow[]): Promise<ClaimLine[]> => {
+    const saleIds = rows.map(row => row.sale_id);
+    if (saleIds.length === 0) return [];
+
+    const { data: salesData, error } = await supabase
+      .from('sales')
+      .select('id, receipt_number, total_amount, created_at')
+      .in('id', saleIds);
+
+    if (error) throw error;
+
+    const salesById = new Map((salesData || []).map(sale => [sale.id, sale]));
+
+    return rows.map(row => {
+      const sale = salesById.get(row.sale_id);
+      return {
+        saleId: row.sale_id,
+        receiptNumber: sale?.receipt_number || '-',
+        saleDate: new Date(sale?.created_at || 0),
+        saleTotal: Number(sale?.total_amount) || 0,
+        insurerId: row.insurer_id,
+        schemeId: row.scheme_id || undefined,
+        memberNumber: row.member_number,
+        memberName: row.member_name || undefined,
+        preauthNumber: row.preauth_number || undefined,
+        insurerAmount: Number(row.insurer_amount) || 0,
+        copayAmount: Number(row.copay_amount) || 0,
+        claimId: row.claim_id || undefined,
+      };
+    }).sort((a, b) => a.saleDate.getTime() - b.saleDate.getTime());
+  };
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      const [insurersResult, schemesResult, claimsResult, unclaimedResult] = await Promise.all([
+        supabase.from('insurers').select('*').order('name'),
+        supabase.from('insurance_schemes').select('*').order('name'),
+        supabase.from('insurance_claims').select('*').order('submitted_at', { ascending: false }),
+        supabase.from('sale_insurance').select('*').is('claim_id', null),
+      ]);
+
+      if (insurersResult.error) throw insurersResult.error;
+      if (schemesResult.error) throw schemesResult.error;
+      if (claimsResult.error) throw claimsResult.error;
+      if (unclaimedResult.error) throw unclaimedResult.error;
+
+      setInsurers((insurersResult.data || []).map(insurer => ({
+        id: insurer.id,
+        name: insurer.name,
+        code: insurer.code,
+        contactEmail: insurer.contact_email || undefined,
+        phone: insurer.phone || undefined,
+        isActive: insurer.is_active,
+      })));
+      setSchemes((schemesResult.data || []).map(scheme => ({
+        id: scheme.id,
+        insurerId: scheme.insurer_id,
+        name: scheme.name,
+        copayType: scheme.copay_type,
+        copayValue: Number(scheme.copay_value) || 0,
+        isActive: scheme.is_active,
+      })));
+      setClaims((claimsResult.data || []).map(claim => ({
+        id: claim.id,
+        claimNumber: claim.claim_number,
+        insurerId: claim.insurer_id,
+        status: claim.status,
+        totalAmount: Number(claim.total_amount) || 0,
+        amountPaid: Number(claim.amount_paid) || 0,
+        periodStart: claim.period_start || undefined,
+        periodEnd: claim.period_end || undefined,
+        notes: claim.notes || undefined,
+        rejectionReason: claim.rejection_reason || undefined,
+        submittedAt: new Date(claim.submitted_at),
+        paidAt: claim.paid_at ? new Date(claim.paid_at) : undefined,
+        createdByName: claim.created_by_name,
+      })));
+      setUnclaimedLines(await loadLines(unclaimedResult.data || []));
+    } catch (error) {
+      console.error('Error loading insurance claims:', error);
+      showAlert({ title: 'Insurance Claims', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [showAlert]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  useAutoRefresh('sales', loadData);
+
+  const getInsurerName = (insurerId: string) => insurers.find(i => i.id === insurerId)?.name || 'Unknown insurer';
+  const getSchemeName = (schemeId?: string) => schemes.find(s => s.id === schemeId)?.name || '-';
+
+  const unclaimedByInsurer = insurers
+    .map(insurer => ({
+      insurer,
+      lines: unclaimedLines.filter(line => line.insurerId === insurer.id),
+    }))
+    .filter(group => group.lines.length > 0);
+
+  const toggleSale = (saleId: string) => {
+    setExcludedSales(prev => {
+      const next = new Set(prev);
+      if (next.has(saleId)) {
+        next.delete(saleId);
+      } else {
+        next.add(saleId);
+      }
+      return next;
+    });
+  };
+
+  const createClaim = async (insurer: Insurer, lines: ClaimLine[]) => {
+    const selected = lines.filter(line => !excludedSales.has(line.saleId));
+    if (selected.length === 0) {
+      showAlert({ title: 'Insurance Claims', message: 'Select at least one sale to claim', type: 'warning' });
+      return;
+    }
+
+    try {
+      setCreatingFor(insurer.id);
+      const { error } = await supabase.rpc('create_insurance_claim', {
+        p_insurer_id: insurer.id,
+        p_sale_ids: selected.map(line => line.saleId),
+        p_notes: null,
+        p_user_name: user?.name,
+      });
+
+      if (error) throw error;
+
+      const total = selected.reduce((sum, line) => sum + line.insurerAmount, 0);
+      await logActivity('CREATE_INSURANCE_CLAIM', `Claimed ${selected.length} sale(s) from ${insurer.name} - ${formatKES(total)}`);
+      showAlert({ title: 'Insurance Claims', message: `Claim submitted for ${insurer.name}`, type: 'success' });
+      await loadData();
+      setActiveTab('claims');
+    } catch (error) {
+      showAlert({ title: 'Insurance Claims', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setCreatingFor(null);
+    }
+  };
+
+  const recordPayment = async () => {
+    if (!paymentClaim) return;
+
+    const amount = parseFloat(paymentAmount);
+    if (!amount || amount <= 0) {
+      showAlert({ title: 'Insurance Claims', message: 'Please enter a valid payment amount', type: 'warning' });
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc('record_insurance_claim_payment', {
+        p_claim_id: paymentClaim.id,
+        p_amount: amount,
+      });
+
+      if (error) throw error;
+
+      await logActivity('INSURANCE_CLAIM_PAYMENT', `Recorded ${formatKES(amount)} against claim ${paymentClaim.claimNumber}`);
+      setPaymentClaim(null);
+      setPaymentAmount('');
+      await loadData();
+    } catch (error) {
+      showAlert({ title: 'Insurance Claims', message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
+  const submitRejection = async () => {
+    if (!rejectClaim) return;
+
+    if (!rejectionReason.trim()) {
+      showAlert({ title: 'Insurance Claims', message: 'Enter the reason given by the insurer', type: 'warning' });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('insurance_claims')
+        .update({ status: 'rejected', rejection_reason: rejectionReason.trim() })
+        .eq('id', rejectClaim.id);
+
+      if (error) throw error;
+
+      await logActivity('REJECT_INSURANCE_CLAIM', `Claim ${rejectClaim.claimNumber} rejected: ${rejectionReason.trim()}`);
+      setRejectClaim(null);
+      setRejectionReason('');
+      await loadData();
+    } catch (error) {
+      showAlert({ title: 'Insurance Claims', message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
+  const exportClaimForm = async (claim: InsuranceClaim) => {
+    try {
+      const { data, error } = await supabase
+        .from('sale_insurance')
+        .select('*')
+        .eq('claim_id', claim.id);
+
+      if (error) throw error;
+
+      const lines = await loadLines(data || []);
+
+      const { data: itemsData, error: itemsError } = await supabase
+        .from('sale_items')
+        .select('sale_id, product_name, quantity')
+        .in('sale_id', lines.map(line => line.saleId));
+
+      if (itemsError) throw itemsError;
+
+      const itemsBySale = new Map<string, string[]>();
+      (itemsData || []).forEach(item => {
+        const items = itemsBySale.get(item.sale_id) || [];
+        items.push(`${item.product_name} x${item.quantity}`);
+        itemsBySale.set(item.sale_id, items);
+      });
+
+      const insurer = insurers.find(i => i.id === claim.insurerId);
+      const doc = new jsPDF({ orientation: 'landscape' });
+
+      doc.setFontSize(18);
+      doc.setFont('helvetica', 'bold');
+      doc.text('INSURANCE CLAIM', 148, 18, { align: 'center' });
+      doc.setFontSize(11);
+      doc.setFont('helvetica', 'normal');
+      doc.text('Wesabi Pharmacy', 148, 25, { align: 'center' });
+
+      doc.setDrawColor(200);
+      doc.line(15, 30, 282, 30);
+
+      const details: [string, string][] = [
+        ['Claim Number:', claim.claimNumber],
+        ['Insurer:', insurer?.name || ''],
+        ['Period:', `${claim.periodStart || '-'} to ${claim.periodEnd || '-'}`],
+        ['Submitted:', claim.submittedAt.toLocaleDateString('en-KE')],
+      ];
+      details.forEach(([label, value], index) => {
+        doc.setFont('helvetica', 'bold');
+        doc.text(label, 15, 38 + index * 7);
+        doc.setFont('helvetica', 'normal');
+        doc.text(value, 50, 38 + index * 7);
+      });
+
+      autoTable(doc, {
+        startY: 68,
+        head: [['#', 'Date', 'Receipt', 'Member No.', 'Member Name', 'Scheme', 'Pre-auth', 'Items', 'Sale Total', 'Co-pay', 'Claimed']],
+        body: lines.map((line, index) => [
+          (index + 1).toString(),
+          line.saleDate.toLocaleDateString('en-KE'),
+          line.receiptNumber,
+          line.memberNumber,
+          line.memberName || '',
+          getSchemeName(line.schemeId),
+          line.preauthNumber || '',
+          (itemsBySale.get(line.saleId) || []).join(', '),
+          formatKES(line.saleTotal),
+          formatKES(line.copayAmount),
+          formatKES(line.insurerAmount),
+        ]),
+        theme: 'grid',
+        headStyles: {
+          fillColor: [66, 139, 202],
+          textColor: 255,
+          fontStyle: 'bold',
+          fontSize: 9
+        },
+        bodyStyles: {
+          fontSize: 8
+        },
+        columnStyles: {
+          7: { cellWidth: 60 }
+        },
+        margin: { left: 15, right: 15 }
+      });
+
+      const finalY = (doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY || 68;
+
+      doc.setFontSize(12);
+      doc.setFont('helvetica', 'bold');
+      doc.text(`Total Claimed: ${formatKES(claim.totalAmount)}`, 282, finalY + 10, { align: 'right' });
+
+      doc.save(`Claim_${claim.claimNumber}.pdf`);
+    } catch (error) {
+      showAlert({ title: 'Insurance Claims', message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
+  const addInsurer = async () => {
+    if (!newInsurer.name.trim() || !newInsurer.code.trim()) {
+      showAlert({ title: 'Insurance Claims', message: 'Insurer name and code are required', type: 'warning' });
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('insurers').insert({
+        name: newInsurer.name.trim(),
+        code: newInsurer.code.trim().toUpperCase(),
+        contact_email: newInsurer.contactEmail.trim() || null,
+        phone: newInsurer.phone.trim() || null,
+      });
+
+      if (error) throw error;
+
+      await logActivity('ADD_INSURER', `Added insurer: ${newInsurer.name.trim()}`);
+      setNewInsurer({ name: '', code: '', contactEmail: '', phone: '' });
+      await loadData();
+    } catch (error) {
+      showAlert({ title: 'Insurance Claims', message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
+  const addScheme = async () => {
+    if (!newScheme.insurerId || !newScheme.name.trim()) {
+      showAlert({ title: 'Insurance Claims', message: 'Select the insurer and enter a scheme name', type: 'warning' });
+      return;
+    }
+
+    const copayValue = newScheme.copayType === 'none' ? 0 : parseFloat(newScheme.copayValue) || 0;
+    if (newScheme.copayType === 'percent' && copayValue > 100) {
+      showAlert({ title: 'Insurance Claims', message: 'Co-pay percentage cannot exceed 100', type: 'warning' });
+      return;
+    }
+
+    try {
+      const { error } = await supabase.from('insurance_schemes').insert({
+        insurer_id: newScheme.insurerId,
+        name: newScheme.name.trim(),
+        copay_type: newScheme.copayType,
+        copay_value: copayValue,
+      });
+
+      if (error) throw error;
+
+      await logActivity('ADD_INSURANCE_SCHEME', `Added scheme ${newScheme.name.trim()} for ${getInsurerName(newScheme.insurerId)}`);
+      setNewScheme({ insurerId: newScheme.insurerId, name: '', copayType: 'none', copayValue: '' });
+      await loadData();
+    } catch (error) {
+      showAlert({ title: 'Insurance Claims', message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
+  const toggleActive = async (table: 'insurers' | 'insurance_schemes', id: string, isActive: boolean) => {
+    try {
+      const { error } = await supabase.from(table).update({ is_active: !isActive }).eq('id', id);
+      if (error) throw error;
+      await loadData();
+    } catch (error) {
+      showAlert({ title: 'Insurance Claims', message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
+  const filteredClaims = claims.filter(claim => statusFilter === 'all' || claim.status === statusFilter);
+  const outstandingTotal = claims
+    .filter(claim => claim.status === 'submitted' || claim.status === 'partially_paid')
+    .reduce((sum, claim) => sum + claim.totalAmount - claim.amountPaid, 0);
+  const unclaimedTotal = unclaimedLines.reduce((sum, line) => sum + line.insurerAmount, 0);
+
+  const tabs: { id: Tab; label: string }[] = [
+    { id: 'unclaimed', label: `Unclaimed Sales (${unclaimedLines.length})` },
+    { id: 'claims', label: `Claims (${claims.length})` },
+    { id: 'insurers', label: 'Insurers & Schemes' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Insurance Claims</h1>
+        <p className="text-gray-600">Batch insurance sales into claims and track what insurers have paid</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="bg-white p-6 rounded-lg shadow-sm border">
+          <p className="text-sm font-medium text-gray-600">Not Yet Claimed</p>
+          <p className="text-2xl font-bold text-gray-900">{formatKES(unclaimedTotal)}</p>
+        </div>
+        <div className="bg-white p-6 rounded-lg shadow-sm border">
+          <p className="text-sm font-medium text-gray-600">Outstanding on Claims</p>
+          <p className="text-2xl font-bold text-orange-600">{formatKES(outstandingTotal)}</p>
+        </div>
+      </div>
+
+      <div className="flex space-x-2 border-b">
+        {tabs.map(tab => (
+          <button
+            key={tab.id}
+            onClick={() => setActiveTab(tab.id)}
+            className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px ${
+              activeTab === tab.id ? 'border-green-600 text-green-700' : 'border-transparent text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            {tab.label}
+          </button>
+        ))}
+      </div>
+
+      {loading ? (
+        <p className="text-center text-gray-500 py-8">Loading insurance claims...</p>
+      ) : activeTab === 'unclaimed' ? (
+        <div className="space-y-4">
+          {unclaimedByInsurer.length === 0 && (
+            <div className="bg-white rounded-lg shadow-sm border p-8 text-center text-gray-500">
+              No unclaimed insurance sales
+            </div>
+          )}
+          {unclaimedByInsurer.map(({ insurer, lines }) => {
+            const selected = lines.filter(line => !excludedSales.has(line.saleId));
+            return (
+              <div key={insurer.id} className="bg-white rounded-lg shadow-sm border">
+                <div className="p-4 border-b flex justify-between items-center">
+                  <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+                    <Shield className="h-5 w-5 mr-2" />
+                    {insurer.name}
+                  </h2>
+                  <button
+                    onClick={() => createClaim(insurer, lines)}
+                    disabled={creatingFor === insurer.id || selected.length === 0}
+                    className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+                  >
+                    <FileText className="h-4 w-4 mr-2" />
+                    {creatingFor === insurer.id
+                      ? 'Creating...'
+                      : `Create Claim (${selected.length}) · ${formatKES(selected.reduce((sum, line) => sum + line.insurerAmount, 0))}`}
+                  </button>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2"></th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-500">Date</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-500">Receipt</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-500">Member</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-500">Scheme</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-500">Pre-auth</th>
+                        <th className="px-4 py-2 text-right font-medium text-gray-500">Co-pay</th>
+                        <th className="px-4 py-2 text-right font-medium text-gray-500">Insurer Owes</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {lines.map(line => (
+                        <tr key={line.saleId}>
+                          <td className="px-4 py-2">
+                            <input
+                              type="checkbox"
+                              checked={!excludedSales.has(line.saleId)}
+                              onChange={() => toggleSale(line.saleId)}
+                              className="rounded border-gray-300 text-green-600 focus:ring-green-500"
+                            />
+                          </td>
+                          <td className="px-4 py-2">{line.saleDate.toLocaleDateString('en-KE')}</td>
+                          <td className="px-4 py-2 font-medium">{line.receiptNumber}</td>
+                          <td className="px-4 py-2">
+                            {line.memberNumber}
+                            {line.memberName && <span className="text-gray-500"> · {line.memberName}</span>}
+                          </td>
+                          <td className="px-4 py-2">{getSchemeName(line.schemeId)}</td>
+                          <td className="px-4 py-2">{line.preauthNumber || '-'}</td>
+                          <td className="px-4 py-2 text-right">{formatKES(line.copayAmount)}</td>
+                          <td className="px-4 py-2 text-right font-semibold">{formatKES(line.insurerAmount)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ) : activeTab === 'claims' ? (
+        <div className="bg-white rounded-lg shadow-sm border">
+          <div className="p-4 border-b flex justify-end">
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as InsuranceClaimStatus | 'all')}
+              className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+            >
+              <option value="all">All statuses</option>
+              {(Object.keys(INSURANCE_CLAIM_STATUS_LABELS) as InsuranceClaimStatus[]).map(status => (
+                <option key={status} value={status}>{INSURANCE_CLAIM_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Claim</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Insurer</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Period</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Claimed</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Paid</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {filteredClaims.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-8 text-center text-gray-500">No claims found</td>
+                  </tr>
+                )}
+                {filteredClaims.map(claim => (
+                  <tr key={claim.id}>
+                    <td className="px-4 py-2">
+                      <p className="font-medium">{claim.claimNumber}</p>
+                      <p className="text-xs text-gray-500">
+                        {claim.submittedAt.toLocaleDateString('en-KE')} by {claim.createdByName}
+                      </p>
+                      {claim.rejectionReason && <p className="text-xs text-red-600">{claim.rejectionReason}</p>}
+                    </td>
+                    <td className="px-4 py-2">{getInsurerName(claim.insurerId)}</td>
+                    <td className="px-4 py-2">{claim.periodStart} – {claim.periodEnd}</td>
+                    <td className="px-4 py-2">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[claim.status]}`}>
+                        {INSURANCE_CLAIM_STATUS_LABELS[claim.status]}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 text-right">{formatKES(claim.totalAmount)}</td>
+                    <td className="px-4 py-2 text-right">{formatKES(claim.amountPaid)}</td>
+                    <td className="px-4 py-2">
+                      <div className="flex justify-end space-x-2">
+                        <button
+                          onClick={() => exportClaimForm(claim)}
+                          className="p-1 text-blue-600 hover:text-blue-800"
+                          title="Export claim form"
+                        >
+                          <Download className="h-4 w-4" />
+                        </button>
+                        {(claim.status === 'submitted' || claim.status === 'partially_paid') && (
+                          <>
+                            <button
+                              onClick={() => {
+                                setPaymentClaim(claim);
+                                setPaymentAmount((claim.totalAmount - claim.amountPaid).toFixed(2));
+                              }}
+                              className="p-1 text-green-600 hover:text-green-800"
+                              title="Record payment"
+                            >
+                              <Banknote className="h-4 w-4" />
+                            </button>
+                            {claim.status === 'submitted' && (
+                              <button
+                                onClick={() => {
+                                  setRejectClaim(claim);
+                                  setRejectionReason('');
+                                }}
+                                className="p-1 text-red-600 hover:text-red-800"
+                                title="Mark rejected"
+                              >
+                                <Ban className="h-4 w-4" />
+                              </button>
+                            )}
+                          </>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-white rounded-lg shadow-sm border">
+            <div className="p-6 border-b">
+              <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+                <Shield className="h-5 w-5 mr-2" />
+                Insurers
+              </h2>
+            </div>
+            <div className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                <input
+                  type="text"
+                  value={newInsurer.name}
+                  onChange={(e) => setNewInsurer({ ...newInsurer, name: e.target.value })}
+                  placeholder="Name (e.g. AAR Insurance)"
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                />
+                <input
+                  type="text"
+                  value={newInsurer.code}
+                  onChange={(e) => setNewInsurer({ ...newInsurer, code: e.target.value })}
+                  placeholder="Code (e.g. AAR)"
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                />
+                <input
+                  type="email"
+                  value={newInsurer.contactEmail}
+                  onChange={(e) => setNewInsurer({ ...newInsurer, contactEmail: e.target.value })}
+                  placeholder="Claims email (optional)"
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                />
+                <input
+                  type="tel"
+                  value={newInsurer.phone}
+                  onChange={(e) => setNewInsurer({ ...newInsurer, phone: e.target.value })}
+                  placeholder="Phone (optional)"
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                />
+              </div>
+              <button
+                onClick={addInsurer}
+                className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Insurer
+              </button>
+              <div className="divide-y">
+                {insurers.map(insurer => (
+                  <div key={insurer.id} className="py-2 flex justify-between items-center text-sm">
+                    <div>
+                      <p className={`font-medium ${insurer.isActive ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                        {insurer.name} <span className="text-gray-500 font-normal">({insurer.code})</span>
+                      </p>
+                      {(insurer.contactEmail || insurer.phone) && (
+                        <p className="text-xs text-gray-500">{[insurer.contactEmail, insurer.phone].filter(Boolean).join(' · ')}</p>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => toggleActive('insurers', insurer.id, insurer.isActive)}
+                      className={`p-1 ${insurer.isActive ? 'text-red-500 hover:text-red-700' : 'text-green-600 hover:text-green-800'}`}
+                      title={insurer.isActive ? 'Deactivate' : 'Activate'}
+                    >
+                      {insurer.isActive ? <X className="h-4 w-4" /> : <Check className="h-4 w-4" />}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-sm border">
+            <div className="p-6 border-b">
+              <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+                <FileText className="h-5 w-5 mr-2" />
+                Schemes & Co-pay
+              </h2>
+            </div>
+            <div className="p-6 space-y-4">
+              <div className="grid grid-cols-2 gap-2">
+                <select
+                  value={newScheme.insurerId}
+                  onChange={(e) => setNewScheme({ ...newScheme, insurerId: e.target.value })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                >
+                  <option value="">Select insurer</option>
+                  {insurers.filter(insurer => insurer.isActive).map(insurer => (
+                    <option key={insurer.id} value={insurer.id}>{insurer.name}</option>
+                  ))}
+                </select>
+                <input
+                  type="text"
+                  value={newScheme.name}
+                  onChange={(e) => setNewScheme({ ...newScheme, name: e.target.value })}
+                  placeholder="Scheme name"
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                />
+                <select
+                  value={newScheme.copayType}
+                  onChange={(e) => setNewScheme({ ...newScheme, copayType: e.target.value as CopayType })}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                >
+                  {(Object.keys(COPAY_LABELS) as CopayType[]).map(type => (
+                    <option key={type} value={type}>{COPAY_LABELS[type]}</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  value={newScheme.copayValue}
+                  onChange={(e) => setNewScheme({ ...newScheme, copayValue: e.target.value })}
+                  disabled={newScheme.copayType === 'none'}
+                  placeholder={newScheme.copayType === 'percent' ? 'Co-pay %' : 'Co-pay KES'}
+                  className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm disabled:bg-gray-100"
+                />
+              </div>
+              <button
+                onClick={addScheme}
+                className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 text-sm"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Scheme
+              </button>
+              <div className="divide-y">
+                {schemes.map(scheme => (
+                  <div key={scheme.id} className="py-2 flex justify-between items-center text-sm">
+                    <div>
+                      <p className={`font-medium ${scheme.isActive ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                        {scheme.name}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {getInsurerName(scheme.insurerId)} · {scheme.copayType === 'none'
+                          ? 'No co-pay'
+                          : scheme.copayType === 'percent'
+                            ? `${scheme.copayValue}% co-pay`
+                            : `${formatKES(scheme.copayValue)} co-pay`}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => toggleActive('insurance_schemes', scheme.id, scheme.isActive)}
+                      className={`p-1 ${scheme.isActive ? 'text-red-500 hover:text-red-700' : 'text-green-600 hover:text-green-800'}`}
+                      title={scheme.isActive ? 'Deactivate' : 'Activate'}
+                    >
+                      {scheme.isActive ? <X className="h-4 w-4" /> : <Check className="h-4 w-4" />}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Record Payment Modal */}
+      {paymentClaim && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold mb-2">Record Payment</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              {paymentClaim.claimNumber} · outstanding {formatKES(paymentClaim.totalAmount - paymentClaim.amountPaid)}
+            </p>
+            <input
+              type="text"
+              inputMode="decimal"
+              value={paymentAmount}
+              onChange={(e) => setPaymentAmount(e.target.value.replace(/[^0-9.]/g, ''))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+            <div className="flex space-x-3 mt-4">
+              <button
+                onClick={() => setPaymentClaim(null)}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={recordPayment}
+                className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+              >
+                Save Payment
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Reject Claim Modal */}
+      {rejectClaim && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold mb-2">Reject Claim</h3>
+            <p className="text-sm text-gray-600 mb-4">{rejectClaim.claimNumber} · {getInsurerName(rejectClaim.insurerId)}</p>
+            <textarea
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              placeholder="Reason given by the insurer"
+              rows={3}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+            <div className="flex space-x-3 mt-4">
+              <button
+                onClick={() => setRejectClaim(null)}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={submitRejection}
+                className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700"
+              >
+                Reject Claim
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InsuranceClaims;
@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import {
   Plus,
   Search,
@@ -8,15 +8,19 @@ import {
   Edit,
   Trash2,
   AlertTriangle,
-  Package
+  Package,
+  ChevronDown,
+  ChevronRight
 } from 'lucide-react';
 import { useApp } from '../contexts/AppContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useAlert } from '../contexts/AlertContext';
-import { Product } from '../types';
+import { Product, DrugSchedule, DRUG_SCHEDULE_LABELS } from '../types';
 import { formatKES, calculateSellingPrice, getMinimumSellingPrice, enforceMinimumSellingPrice } from '../utils/currency';
 import { getErrorMessage } from '../utils/errorMessages';
+import { MedicineStock, summariseMedicineStock, isLowStock, isBatchExpired, getMedicineKey } from '../utils/batches';
 import AutocompleteInput from './AutocompleteInput';
+import SupplierPicker from './SupplierPicker';
 import VATRateInput from './VATRateInput';
 import { usePageRefresh } from '../hooks/usePageRefresh';
 import { usePagination } from '../hooks/usePagination';
@@ -25,6 +29,7 @@ import Pagination from './Pagination';
 const Inventory: React.FC = () => {
   const {
     products,
+    productMasters,
     addProduct,
     updateProduct,
     deleteProduct,
@@ -32,12 +37,12 @@ const Inventory: React.FC = () => {
     medicineTemplates,
     addMedicine,
     categories,
-    suppliers,
     addCategory,
-    addSupplier,
+    getSupplierByName,
+    isSupabaseEnabled,
     getMedicineByName
   } = useApp();
-  const { user, canManagePricing, canDeleteProducts } = useAuth();
+  const { user, canManagePricing, canManageMedicines, canDeleteProducts } = useAuth();
   const { showAlert } = useAlert();
   usePageRefresh('inventory', { refreshOnMount: true, staleTime: 30000 });
   
@@ -46,6 +51,7 @@ const Inventory: React.FC = () => {
   const [showAddForm, setShowAddForm] = useState(false);
   const [editingProduct, setEditingProduct] = useState<Product | null>(null);
   const [showImportModal, setShowImportModal] = useState(false);
+  const [expandedMedicines, setExpandedMedicines] = useState<Set<string>>(new Set());
   const [formData, setFormData] = useState({
     name: '',
     category: '',
@@ -62,24 +68,50 @@ const Inventory: React.FC = () => {
     currentStock: '',
     minStockLevel: '10',
     barcode: '',
+    drugSchedule: 'otc' as DrugSchedule,
   });
 
   const medicineNames = medicineTemplates.map(med => med.name);
   
-  const filteredProducts = products.filter(product => {
-    const matchesSearch = product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         product.barcode.includes(searchTerm) ||
-                         product.supplier.toLowerCase().includes(searchTerm.toLowerCase());
-    const matchesCategory = categoryFilter === 'all' || product.category === categoryFilter;
+  const medicines = useMemo(() => summariseMedicineStock(productMasters, products), [productMasters, products]);
+
+  // One row per medicine with its stock totalled; batches open underneath
+  const filteredMedicines = medicines.filter(medicine => {
+    const matchesSearch = medicine.master.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         (medicine.master.barcode || '').includes(searchTerm) ||
+                         medicine.batches.some(product =>
+                           product.barcode.includes(searchTerm) ||
+                           product.supplier.toLowerCase().includes(searchTerm.toLowerCase())
+                         );
+    const matchesCategory = categoryFilter === 'all' || medicine.master.category === categoryFilter;
     return matchesSearch && matchesCategory;
   });
 
+  const filteredProducts = filteredMedicines.flatMap(medicine => medicine.batches);
+
+  // The medicine a new batch will be added to, if it exists already
+  const existingMedicine = medicines.find(medicine =>
+    formData.name.trim() !== '' && getMedicineKey(medicine.master.name) === getMedicineKey(formData.name)
+  );
+
   const {
     currentPage,
-    paginatedItems: paginatedProducts,
+    paginatedItems: paginatedMedicines,
     goToPage,
     itemsPerPage
-  } = usePagination({ items: filteredProducts, itemsPerPage: 20 });
+  } = usePagination({ items: filteredMedicines, itemsPerPage: 20 });
+
+  const toggleMedicine = (masterId: string) => {
+    setExpandedMedicines(prev => {
+      const next = new Set(prev);
+      if (next.has(masterId)) {
+        next.delete(masterId);
+      } else {
+        next.add(masterId);
+      }
+      return next;
+    });
+  };
 
   const exportToCSV = () => {
     try {
@@ -109,7 +141,7 @@ const Inventory: React.FC = () => {
   <h1>WESABI PHARMACY - INVENTORY REPORT</h1>
   <div class="summary">
     <p><strong>Generated:</strong> ${new Date().toLocaleDateString('en-KE')} at ${new Date().toLocaleTimeString('en-KE')}</p>
-    <p><strong>Total Products:</strong> ${filteredProducts.length}</p>
+    <p><strong>Total Products:</strong> ${filteredMedicines.length} (${filteredProducts.length} batches)</p>
   </div>
   
   <table>
@@ -210,6 +242,7 @@ const Inventory: React.FC = () => {
       currentStock: '',
       minStockLevel: '10',
       barcode: '',
+      drugSchedule: 'otc',
     });
   };
 
@@ -225,6 +258,7 @@ const Inventory: React.FC = () => {
         category: medicine.category,
         costPrice: medicine.defaultCostPrice?.toString() || prev.costPrice,
         sellingPrice: medicine.defaultSellingPrice?.toString() || prev.sellingPrice,
+        drugSchedule: medicine.schedule || prev.drugSchedule,
       }));
     }
   };
@@ -247,6 +281,10 @@ const Inventory: React.FC = () => {
     }));
   };
 
+  // A batch may be received without a supplier, but a named one must be on record
+  const isUnknownSupplier = (name: string) =>
+    isSupabaseEnabled && name.trim() !== '' && name.trim() !== 'Unknown Supplier' && !getSupplierByName(name);
+
   const handleAddProduct = (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -273,13 +311,18 @@ const Inventory: React.FC = () => {
       return;
     }
 
-    // Check for duplicate product names (case insensitive)
-    const existingProduct = products.find(p =>
-      p.name.toLowerCase() === formData.name.toLowerCase()
+    if (isUnknownSupplier(formData.supplier)) {
+      showAlert({ title: 'Inventory', message: `"${formData.supplier.trim()}" is not a known supplier. Pick one from the list or add it.`, type: 'warning' });
+      return;
+    }
+
+    // A known medicine gets a new batch, but the same batch is not received twice
+    const existingBatch = existingMedicine?.batches.find(product =>
+      formData.batchNumber.trim() !== '' && product.batchNumber.toLowerCase() === formData.batchNumber.trim().toLowerCase()
     );
 
-    if (existingProduct) {
-      showAlert({ title: 'Inventory', message: `Product "${formData.name}" already exists in inventory. Please use a different name or update the existing product.`, type: 'error' });
+    if (existingMedicine && existingBatch) {
+      showAlert({ title: 'Inventory', message: `Batch ${existingBatch.batchNumber} of "${existingMedicine.master.name}" already exists. Edit that batch to change its stock.`, type: 'error' });
       return;
     }
 
@@ -309,7 +352,7 @@ const Inventory: React.FC = () => {
     const productData = {
       name: formData.name,
       category: formData.category || 'General',
-      supplier: formData.supplier || 'Unknown Supplier',
+      supplier: getSupplierByName(formData.supplier)?.name || formData.supplier || 'Unknown Supplier',
       batchNumber: formData.batchNumber || '',
       expiryDate: formData.expiryDate ? new Date(formData.expiryDate) : new Date(Date.now() + 365 * 24 * 60 * 60 * 1000),
       invoiceNumber: formData.invoiceNumber,
@@ -322,6 +365,7 @@ const Inventory: React.FC = () => {
       currentStock: parseInt(formData.currentStock) || 0,
       minStockLevel: parseInt(formData.minStockLevel) || 10,
       barcode: formData.barcode || `${Date.now()}`,
+      drugSchedule: formData.drugSchedule,
     };
 
     console.log('📦 Processed product data:', productData);
@@ -343,6 +387,11 @@ const Inventory: React.FC = () => {
     e.stopPropagation();
     if (!editingProduct) return;
 
+    if (formData.supplier !== editingProduct.supplier && isUnknownSupplier(formData.supplier)) {
+      showAlert({ title: 'Inventory', message: `"${formData.supplier.trim()}" is not a known supplier. Pick one from the list or add it.`, type: 'warning' });
+      return;
+    }
+
     // Validate selling price against minimum
     const invoicePrice = parseFloat(formData.invoicePrice) || 0;
     const supplierDiscountPercent = parseFloat(formData.supplierDiscountPercent) || 0;
@@ -366,12 +415,10 @@ const Inventory: React.FC = () => {
       return;
     }
 
-    const totalUnits = parseInt(formData.packSize || '1') * parseInt(formData.numberOfPacks || '1');
-
     const updates = {
       name: formData.name,
       category: formData.category,
-      supplier: formData.supplier || editingProduct.supplier,
+      supplier: getSupplierByName(formData.supplier)?.name || formData.supplier || editingProduct.supplier,
       batchNumber: formData.batchNumber || editingProduct.batchNumber,
       expiryDate: formData.expiryDate ? new Date(formData.expiryDate) : editingProduct.expiryDate,
       invoiceNumber: formData.invoiceNumber || editingProduct.invoiceNumber,
@@ -381,14 +428,21 @@ const Inventory: React.FC = () => {
       otherCharges: otherCharges || undefined,
       costPrice: costPrice,
       sellingPrice: enforceMinimumSellingPrice(sellingPrice, pricingInputs),
-      currentStock: totalUnits,
+      currentStock: parseInt(formData.currentStock) || 0,
       minStockLevel: parseInt(formData.minStockLevel) || 10,
       barcode: formData.barcode || editingProduct.barcode,
+      drugSchedule: formData.drugSchedule,
     };
 
-    updateProduct(editingProduct.id, updates);
-    setEditingProduct(null);
-    resetForm();
+    updateProduct(editingProduct.id, updates)
+      .then(() => {
+        setEditingProduct(null);
+        resetForm();
+      })
+      .catch((error) => {
+        console.error('Failed to update product:', error);
+        showAlert({ title: 'Inventory', message: getErrorMessage(error), type: 'error' });
+      });
   };
 
   const startEdit = (product: Product) => {
@@ -409,14 +463,29 @@ const Inventory: React.FC = () => {
       currentStock: product.currentStock.toString(),
       minStockLevel: product.minStockLevel.toString(),
       barcode: product.barcode,
+      drugSchedule: product.drugSchedule,
     });
   };
 
+  // Starts the add form for another batch of a medicine already stocked
+  const startAddBatch = (medicine: MedicineStock) => {
+    resetForm();
+    setFormData(prev => ({
+      ...prev,
+      name: medicine.master.name,
+      category: medicine.master.category,
+      minStockLevel: medicine.master.minStockLevel.toString(),
+      barcode: medicine.master.barcode || '',
+      drugSchedule: medicine.master.drugSchedule,
+    }));
+    setShowAddForm(true);
+  };
+
   const handleDeleteProduct = (productId: string) => {
     const product = products.find(p => p.id === productId);
     showAlert({
       title: 'Delete Product',
-      message: `Are you sure you want to delete "${product?.name}"? This action cannot be undone.`,
+      message: `Are you sure you want to delete batch ${product?.batchNumber} of "${product?.name}"? This action cannot be undone.`,
       type: 'confirm',
       confirmText: 'Delete',
       onConfirm: async () => {
@@ -524,107 +593,185 @@ const Inventory: React.FC = () => {
               </tr>
             </thead>
             <tbody className="bg-white divide-y divide-gray-200">
-              {paginatedProducts.map((product) => {
-                const daysToExpiry = Math.ceil((product.expiryDate.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
-                const isLowStock = product.currentStock <= product.minStockLevel;
-                const isExpiringSoon = daysToExpiry <= 30 && daysToExpiry > 0;
+              {paginatedMedicines.map((medicine) => {
+                const isExpanded = expandedMedicines.has(medicine.master.id);
+                const lowStock = isLowStock(medicine);
+                const nextBatch = medicine.batches.find(product => product.currentStock > 0);
+                const expiringBatches = medicine.batches.filter(product => {
+                  const days = Math.ceil((product.expiryDate.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
+                  return product.currentStock > 0 && days <= 30 && days > 0;
+                }).length;
 
                 return (
-                  <tr key={product.id} className="hover:bg-gray-50">
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div>
-                        <div className="text-sm font-medium text-gray-900">{product.name}</div>
-                        <div className="text-sm text-gray-500">Batch: {product.batchNumber}</div>
-                        <div className="text-sm text-gray-500">Barcode: {product.barcode}</div>
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-800">
-                        {product.category}
-                      </span>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">{product.currentStock} units</div>
-                      <div className="text-sm text-gray-500">Min: {product.minStockLevel}</div>
-                    </td>
-                    {canManagePricing && (
-                      <>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">
-                            {product.invoicePrice ? formatKES(product.invoicePrice) : '-'}
+                  <React.Fragment key={medicine.master.id}>
+                    <tr className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <button
+                          onClick={() => toggleMedicine(medicine.master.id)}
+                          className="flex items-center text-left"
+                          title={isExpanded ? 'Hide batches' : 'Show batches'}
+                        >
+                          {isExpanded
+                            ? <ChevronDown className="h-4 w-4 mr-2 text-gray-500" />
+                            : <ChevronRight className="h-4 w-4 mr-2 text-gray-500" />}
+                          <div>
+                            <div className="text-sm font-medium text-gray-900">{medicine.master.name}</div>
+                            <div className="text-sm text-gray-500">
+                              {medicine.batches.length} batch{medicine.batches.length === 1 ? '' : 'es'}
+                              {medicine.master.barcode && ` · Barcode: ${medicine.master.barcode}`}
+                            </div>
                           </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">
-                            {product.supplierDiscountPercent ? `${product.supplierDiscountPercent}%` : '0%'}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">
-                            {product.vatRate ? `${product.vatRate}%` : '0%'}
-                          </div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">{formatKES(product.costPrice)}</div>
-                        </td>
-                        <td className="px-6 py-4 whitespace-nowrap">
-                          <div className="text-sm text-gray-900">{formatKES(product.sellingPrice)}</div>
-                        </td>
-                      </>
-                    )}
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="text-sm text-gray-900">
-                        {product.expiryDate.toLocaleDateString('en-KE')}
-                      </div>
-                      <div className="text-sm text-gray-500">
-                        {daysToExpiry > 0 ? `${daysToExpiry} days` : 'Expired'}
-                      </div>
-                    </td>
-                    <td className="px-6 py-4 whitespace-nowrap">
-                      <div className="flex flex-col space-y-1">
-                        {isLowStock && (
-                          <span className="inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
-                            <AlertTriangle className="h-3 w-3 mr-1" />
-                            Low Stock
-                          </span>
-                        )}
-                        {isExpiringSoon && (
-                          <span className="inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-amber-100 text-amber-800">
-                            <AlertTriangle className="h-3 w-3 mr-1" />
-                            Expiring Soon
-                          </span>
+                        </button>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className="inline-flex px-2 py-1 text-xs font-semibold rounded-full bg-blue-100 text-blue-800">
+                          {medicine.master.category}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">{medicine.sellableStock} units</div>
+                        <div className="text-sm text-gray-500">Min: {medicine.master.minStockLevel}</div>
+                        {medicine.expiredStock > 0 && (
+                          <div className="text-sm text-red-600">+{medicine.expiredStock} expired</div>
                         )}
-                        {!isLowStock && !isExpiringSoon && (
-                          <span className="inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
-                            <Package className="h-3 w-3 mr-1" />
-                            Good
-                          </span>
+                      </td>
+                      {canManagePricing && <td colSpan={5} className="px-6 py-4" />}
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm text-gray-900">
+                          {nextBatch ? nextBatch.expiryDate.toLocaleDateString('en-KE') : '-'}
+                        </div>
+                        {nextBatch && isBatchExpired(nextBatch) && (
+                          <div className="text-sm text-red-600">Expired</div>
                         )}
-                      </div>
-                    </td>
-                    {canManageInventory && (
-                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                        <div className="flex space-x-2">
-                          <button
-                            onClick={() => startEdit(product)}
-                            className="text-indigo-600 hover:text-indigo-900"
-                            title="Edit product"
-                          >
-                            <Edit className="h-4 w-4" />
-                          </button>
-                          {canDeleteProducts() && (
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="flex flex-col space-y-1">
+                          {lowStock && (
+                            <span className="inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              Low Stock
+                            </span>
+                          )}
+                          {expiringBatches > 0 && (
+                            <span className="inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-amber-100 text-amber-800">
+                              <AlertTriangle className="h-3 w-3 mr-1" />
+                              {expiringBatches} Expiring Soon
+                            </span>
+                          )}
+                          {!lowStock && expiringBatches === 0 && (
+                            <span className="inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">
+                              <Package className="h-3 w-3 mr-1" />
+                              Good
+                            </span>
+                          )}
+                        </div>
+                      </td>
+                      {canManageInventory && (
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                           <button
-                            onClick={() => handleDeleteProduct(product.id)}
-                            className="text-red-600 hover:text-red-900"
-                            title="Delete product"
+                            onClick={() => startAddBatch(medicine)}
+                            className="text-purple-600 hover:text-purple-900"
+                            title="Add batch"
                           >
-                            <Trash2 className="h-4 w-4" />
+                            <Plus className="h-4 w-4" />
                           </button>
+                        </td>
+                      )}
+                    </tr>
+                    {isExpanded && medicine.batches.map((product) => {
+                      const daysToExpiry = Math.ceil((product.expiryDate.getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
+                      const isExpiringSoon = product.currentStock > 0 && daysToExpiry <= 30 && daysToExpiry > 0;
+
+                      return (
+                        <tr key={product.id} className="bg-gray-50 hover:bg-gray-100">
+                          <td className="px-6 py-3 whitespace-nowrap">
+                            <div className="pl-6">
+                              <div className="text-sm text-gray-900">Batch: {product.batchNumber}</div>
+                              <div className="text-sm text-gray-500">{product.supplier}</div>
+                              {product.barcode !== medicine.master.barcode && (
+                                <div className="text-sm text-gray-500">Barcode: {product.barcode}</div>
+                              )}
+                            </div>
+                          </td>
+                          <td className="px-6 py-3 whitespace-nowrap" />
+                          <td className="px-6 py-3 whitespace-nowrap">
+                            <div className="text-sm text-gray-900">{product.currentStock} units</div>
+                          </td>
+                          {canManagePricing && (
+                            <>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="text-sm text-gray-900">
+                                  {product.invoicePrice ? formatKES(product.invoicePrice) : '-'}
+                                </div>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="text-sm text-gray-900">
+                                  {product.supplierDiscountPercent ? `${product.supplierDiscountPercent}%` : '0%'}
+                                </div>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="text-sm text-gray-900">
+                                  {product.vatRate ? `${product.vatRate}%` : '0%'}
+                                </div>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="text-sm text-gray-900">{formatKES(product.costPrice)}</div>
+                              </td>
+                              <td className="px-6 py-4 whitespace-nowrap">
+                                <div className="text-sm text-gray-900">{formatKES(product.sellingPrice)}</div>
+                              </td>
+                            </>
                           )}
-                        </div>
-                      </td>
-                    )}
-                  </tr>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="text-sm text-gray-900">
+                              {product.expiryDate.toLocaleDateString('en-KE')}
+                            </div>
+                            <div className="text-sm text-gray-500">
+                              {daysToExpiry > 0 ? `${daysToExpiry} days` : 'Expired'}
+                            </div>
+                          </td>
+                          <td className="px-6 py-4 whitespace-nowrap">
+                            <div className="flex flex-col space-y-1">
+                              {daysToExpiry <= 0 && product.currentStock > 0 && (
+                                <span className="inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">
+                                  <AlertTriangle className="h-3 w-3 mr-1" />
+                                  Expired
+                                </span>
+                              )}
+                              {isExpiringSoon && (
+                                <span className="inline-flex items-center px-2 py-1 text-xs font-semibold rounded-full bg-amber-100 text-amber-800">
+                                  <AlertTriangle className="h-3 w-3 mr-1" />
+                                  Expiring Soon
+                                </span>
+                              )}
+                            </div>
+                          </td>
+                          {canManageInventory && (
+                            <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                              <div className="flex space-x-2">
+                                <button
+                                  onClick={() => startEdit(product)}
+                                  className="text-indigo-600 hover:text-indigo-900"
+                                  title="Edit product"
+                                >
+                                  <Edit className="h-4 w-4" />
+                                </button>
+                                {canDeleteProducts() && (
+                                <button
+                                  onClick={() => handleDeleteProduct(product.id)}
+                                  className="text-red-600 hover:text-red-900"
+                                  title="Delete product"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </button>
+                                )}
+                              </div>
+                            </td>
+                          )}
+                        </tr>
+                      );
+                    })}
+                  </React.Fragment>
                 );
               })}
             </tbody>
@@ -632,7 +779,7 @@ const Inventory: React.FC = () => {
 
           <Pagination
             currentPage={currentPage}
-            totalItems={filteredProducts.length}
+            totalItems={filteredMedicines.length}
             itemsPerPage={itemsPerPage}
             onPageChange={goToPage}
             itemName="products"
@@ -645,6 +792,11 @@ const Inventory: React.FC = () => {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white p-6 rounded-lg max-w-4xl w-full mx-4 max-h-[90vh] overflow-y-auto">
             <h3 className="text-lg font-semibold mb-4">Add New Product - Wesabi Pharmacy</h3>
+            {existingMedicine && (
+              <p className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm text-blue-800">
+                {existingMedicine.master.name} is already stocked ({existingMedicine.totalStock} units in {existingMedicine.batches.length} batch{existingMedicine.batches.length === 1 ? '' : 'es'}). This adds a new batch of it.
+              </p>
+            )}
             <form onSubmit={handleAddProduct} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <AutocompleteInput
@@ -669,14 +821,9 @@ const Inventory: React.FC = () => {
                   required
                 />
 
-                <AutocompleteInput
+                <SupplierPicker
                   value={formData.supplier}
                   onChange={(value) => setFormData({ ...formData, supplier: value })}
-                  options={suppliers}
-                  placeholder="Select or add supplier"
-                  label="Supplier"
-                  allowAddNew
-                  onAddNew={addSupplier}
                 />
 
                 <div>
@@ -847,6 +994,19 @@ const Inventory: React.FC = () => {
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
                   />
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Dispensing</label>
+                  <select
+                    value={formData.drugSchedule}
+                    onChange={(e) => setFormData({ ...formData, drugSchedule: e.target.value as DrugSchedule })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  >
+                    {(Object.keys(DRUG_SCHEDULE_LABELS) as DrugSchedule[]).map(schedule => (
+                      <option key={schedule} value={schedule}>{DRUG_SCHEDULE_LABELS[schedule]}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
               
               <div className="flex justify-end space-x-2 pt-4">
@@ -877,6 +1037,9 @@ const Inventory: React.FC = () => {
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
           <div className="bg-white p-6 rounded-lg max-w-4xl w-full mx-4 max-h-[90vh] overflow-y-auto">
             <h3 className="text-lg font-semibold mb-4">Edit Product - Wesabi Pharmacy</h3>
+            <p className="mb-4 text-sm text-gray-600">
+              Name, category, minimum stock, barcode and schedule apply to every batch of {editingProduct.name}.
+            </p>
             <form onSubmit={handleEditProduct} className="space-y-4">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <AutocompleteInput
@@ -899,14 +1062,9 @@ const Inventory: React.FC = () => {
                   required
                 />
 
-                <AutocompleteInput
+                <SupplierPicker
                   value={formData.supplier}
                   onChange={(value) => setFormData({ ...formData, supplier: value })}
-                  options={suppliers}
-                  placeholder="Select or add supplier"
-                  label="Supplier"
-                  allowAddNew
-                  onAddNew={addSupplier}
                 />
 
                 <div>
@@ -1052,6 +1210,11 @@ const Inventory: React.FC = () => {
                     onChange={(e) => setFormData({ ...formData, currentStock: e.target.value })}
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
                   />
+                  {editingProduct && formData.currentStock !== editingProduct.currentStock.toString() && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      Recorded on the stock card as an adjustment of {(parseInt(formData.currentStock) || 0) - editingProduct.currentStock}
+                    </p>
+                  )}
                 </div>
 
                 <div>
@@ -1063,6 +1226,21 @@ const Inventory: React.FC = () => {
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
                   />
                 </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Dispensing</label>
+                  <select
+                    value={formData.drugSchedule}
+                    onChange={(e) => setFormData({ ...formData, drugSchedule: e.target.value as DrugSchedule })}
+                    disabled={!canManageMedicines}
+                    title={canManageMedicines ? undefined : 'Only admins and inventory staff can change the schedule'}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 disabled:bg-gray-100"
+                  >
+                    {(Object.keys(DRUG_SCHEDULE_LABELS) as DrugSchedule[]).map(schedule => (
+                      <option key={schedule} value={schedule}>{DRUG_SCHEDULE_LABELS[schedule]}</option>
+                    ))}
+                  </select>
+                </div>
               </div>
               
               <div className="flex justify-end space-x-2 pt-4">
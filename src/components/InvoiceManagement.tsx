@@ -1,22 +1,33 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Plus, Search, FileText, Eye, Package, Upload, ArrowUp, ArrowDown, RotateCcw } from 'lucide-react';
+import { Plus, Search, FileText, Eye, Package, Upload, ArrowUp, ArrowDown, RotateCcw, ClipboardList } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useAlert } from '../contexts/AlertContext';
-import { supabase } from '../lib/supabase';
-import { Invoice, InvoiceItem } from '../types';
+import { supabase, SupplierOrderItem } from '../lib/supabase';
+import { Invoice, InvoiceItem, SupplierOrderLine, SupplierOrderStatus, SUPPLIER_ORDER_STATUS_LABELS } from '../types';
 import { formatKES, calculateSellingPrice, calculateNetCost } from '../utils/currency';
 import { getErrorMessage } from '../utils/errorMessages';
 import AutocompleteInput from './AutocompleteInput';
+import SupplierPicker from './SupplierPicker';
 import VATRateInput from './VATRateInput';
 import { useApp } from '../contexts/AppContext';
 import { usePagination } from '../hooks/usePagination';
 import Pagination from './Pagination';
 import { useAutoRefresh } from '../contexts/DataRefreshContext';
+import { getMedicineKey } from '../utils/batches';
+
+// A sent order that invoices can still be received against
+interface OpenOrder {
+  id: string;
+  orderNumber: string;
+  supplier: string;
+  status: SupplierOrderStatus;
+  lines: SupplierOrderLine[];
+}
 
 const InvoiceManagement: React.FC = () => {
   const { user, canDeleteProducts } = useAuth();
   const { showAlert } = useAlert();
-  const { categories, suppliers, addCategory, addSupplier, medicineTemplates, getMedicineByName, refreshData, logActivity } = useApp();
+  const { categories, addCategory, getSupplierByName, isSupabaseEnabled, medicineTemplates, getMedicineByName, refreshData, logActivity } = useApp();
   const [invoices, setInvoices] = useState<Invoice[]>([]);
   const [showAddForm, setShowAddForm] = useState(false);
   const [showViewModal, setShowViewModal] = useState(false);
@@ -32,6 +43,8 @@ const InvoiceManagement: React.FC = () => {
   });
 
   const [invoiceItems, setInvoiceItems] = useState<InvoiceItem[]>([]);
+  const [openOrders, setOpenOrders] = useState<OpenOrder[]>([]);
+  const [receivingOrderId, setReceivingOrderId] = useState('');
   const [savingProgress, setSavingProgress] = useState<{ current: number; total: number; message: string } | null>(null);
   const [currentItem, setCurrentItem] = useState({
     productName: '',
@@ -67,7 +80,7 @@ const InvoiceManagement: React.FC = () => {
 
       const { data: invoicesData, error: invoicesError } = await supabase
         .from('invoices')
-        .select('*')
+        .select('*, supplier_orders(order_number)')
         .order('invoice_date', { ascending: false });
 
       if (invoicesError) throw invoicesError;
@@ -84,9 +97,12 @@ const InvoiceManagement: React.FC = () => {
             id: invoice.id,
             invoiceNumber: invoice.invoice_number,
             supplier: invoice.supplier,
+            supplierId: invoice.supplier_id || undefined,
             invoiceDate: new Date(invoice.invoice_date),
             totalAmount: parseFloat(invoice.total_amount),
             notes: invoice.notes,
+            supplierOrderId: invoice.supplier_order_id || undefined,
+            supplierOrderNumber: invoice.supplier_orders?.order_number,
             userId: invoice.user_id,
             userName: invoice.user_name,
             items: (items || []).map((item: any) => ({
@@ -104,6 +120,7 @@ const InvoiceManagement: React.FC = () => {
               sellingPrice: parseFloat(item.selling_price),
               totalCost: parseFloat(item.total_cost),
               barcode: item.barcode,
+              supplierOrderItemId: item.supplier_order_item_id || undefined,
             })),
             createdAt: new Date(invoice.created_at),
             updatedAt: new Date(invoice.updated_at),
@@ -120,6 +137,93 @@ const InvoiceManagement: React.FC = () => {
     }
   };
 
+  const loadOpenOrders = async () => {
+    try {
+      if (!supabase) return;
+
+      const { data, error } = await supabase
+        .from('supplier_orders')
+        .select('id, order_number, supplier, status, supplier_order_items(*)')
+        .in('status', ['sent', 'partially_received'])
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      setOpenOrders((data || []).map(order => ({
+        id: order.id,
+        orderNumber: order.order_number,
+        supplier: order.supplier || '',
+        status: order.status,
+        lines: (order.supplier_order_items || []).map((line: SupplierOrderItem) => ({
+          id: line.id,
+          orderId: line.order_id,
+          productMasterId: line.product_master_id,
+          productName: line.product_name,
+          orderQuantity: line.order_quantity,
+          receivedQuantity: line.received_quantity || 0,
+          unitCost: line.unit_cost != null ? Number(line.unit_cost) : undefined,
+        })),
+      })));
+    } catch (error) {
+      console.error('Error loading open orders:', error);
+      showAlert({ title: 'Invoice Management', message: 'Failed to load open supplier orders', type: 'error' });
+    }
+  };
+
+  const openAddForm = () => {
+    setShowAddForm(true);
+    loadOpenOrders();
+  };
+
+  const receivingOrder = openOrders.find(order => order.id === receivingOrderId);
+
+  // Invoice items are matched to the order's lines by medicine name
+  const getOrderLine = (productName: string) =>
+    receivingOrder?.lines.find(line => getMedicineKey(line.productName) === getMedicineKey(productName));
+
+  const getQuantityOnInvoice = (line: SupplierOrderLine) =>
+    invoiceItems
+      .filter(item => getOrderLine(item.productName)?.id === line.id)
+      .reduce((sum, item) => sum + item.quantity, 0);
+
+  const handleReceivingOrderChange = (orderId: string) => {
+    setReceivingOrderId(orderId);
+    const order = openOrders.find(o => o.id === orderId);
+    if (order?.supplier) {
+      setInvoiceData(prev => ({ ...prev, supplier: order.supplier }));
+      applySupplierDiscount(order.supplier);
+    }
+  };
+
+  // New lines start with the supplier's usual discount
+  const applySupplierDiscount = (supplier: string) => {
+    const record = getSupplierByName(supplier);
+    if (record) {
+      setCurrentItem(prev => ({ ...prev, supplierDiscountPercent: record.defaultDiscountPercent.toString() }));
+    }
+  };
+
+  const handleSupplierChange = (supplier: string) => {
+    setInvoiceData(prev => ({ ...prev, supplier }));
+    applySupplierDiscount(supplier);
+  };
+
+  // Fills the item form with what is still outstanding on the order line
+  const receiveOrderLine = (line: SupplierOrderLine) => {
+    const remaining = Math.max(0, line.orderQuantity - line.receivedQuantity - getQuantityOnInvoice(line));
+    const medicine = getMedicineByName(line.productName);
+
+    setCurrentItem(prev => ({
+      ...prev,
+      productName: line.productName,
+      category: medicine?.category || prev.category,
+      quantity: remaining > 0 ? remaining.toString() : '',
+      invoicePrice: '',
+      costPrice: line.unitCost != null ? line.unitCost.toString() : '',
+      sellingPrice: line.unitCost != null ? calculateSellingPrice(line.unitCost).toString() : '',
+    }));
+  };
+
   const handleMedicineNameChange = (name: string) => {
     setCurrentItem(prev => ({ ...prev, productName: name }));
 
@@ -214,7 +318,7 @@ const InvoiceManagement: React.FC = () => {
       expiryDate: '',
       quantity: '',
       invoicePrice: '',
-      supplierDiscountPercent: '0',
+      supplierDiscountPercent: (getSupplierByName(invoiceData.supplier)?.defaultDiscountPercent || 0).toString(),
       vatRate: '0',
       otherCharges: '0',
       costPrice: '',
@@ -233,6 +337,13 @@ const InvoiceManagement: React.FC = () => {
       return;
     }
 
+    const supplierRecord = getSupplierByName(invoiceData.supplier);
+    if (isSupabaseEnabled && !supplierRecord) {
+      showAlert({ title: 'Invoice Management', message: `"${invoiceData.supplier}" is not a known supplier. Pick one from the list or add it.`, type: 'warning' });
+      return;
+    }
+    const supplierName = supplierRecord?.name || invoiceData.supplier;
+
     if (invoiceItems.length === 0) {
       showAlert({ title: 'Invoice Management', message: 'Please add at least one item to the invoice', type: 'error' });
       return;
@@ -244,7 +355,8 @@ const InvoiceManagement: React.FC = () => {
     setSavingProgress({ current: 0, total: invoiceItems.length + 2, message: 'Creating invoice...' });
 
     let invoiceId: string | null = null;
-    const processedProducts: Array<{ id: string; originalStock: number }> = [];
+    // Stock received so far, reversed on the stock card if the save fails
+    const processedProducts: Array<{ id: string; quantity: number }> = [];
 
     try {
       const totalAmount = invoiceItems.reduce((sum, item) => sum + item.totalCost, 0);
@@ -253,9 +365,11 @@ const InvoiceManagement: React.FC = () => {
         .from('invoices')
         .insert({
           invoice_number: invoiceData.invoiceNumber,
-          supplier: invoiceData.supplier,
+          supplier: supplierName,
+          supplier_id: supplierRecord?.id || null,
           invoice_date: invoiceData.invoiceDate,
           total_amount: totalAmount,
+          supplier_order_id: receivingOrder?.id || null,
           user_id: user.user_id,
           user_name: user.name,
         })
@@ -288,15 +402,9 @@ const InvoiceManagement: React.FC = () => {
         let productId = existingProduct?.id;
 
         if (existingProduct) {
-          processedProducts.push({
-            id: existingProduct.id,
-            originalStock: existingProduct.current_stock
-          });
-
           const { error: updateError } = await supabase
             .from('products')
             .update({
-              current_stock: existingProduct.current_stock + item.quantity,
               cost_price: item.costPrice,
               selling_price: item.sellingPrice,
               invoice_price: item.invoicePrice,
@@ -311,13 +419,30 @@ const InvoiceManagement: React.FC = () => {
             console.error(`Error updating product ${item.productName}:`, updateError);
             throw new Error(`Failed to update product ${item.productName}: ${updateError.message}`);
           }
+
+          const { error: stockError } = await supabase.rpc('record_stock_movement', {
+            p_product_id: existingProduct.id,
+            p_movement_type: 'purchase',
+            p_quantity: item.quantity,
+            p_source_type: 'invoice',
+            p_source_id: invoiceId,
+            p_reference: invoiceData.invoiceNumber,
+            p_user_name: user.name,
+          });
+
+          if (stockError) {
+            console.error(`Error receiving stock for ${item.productName}:`, stockError);
+            throw new Error(`Failed to receive stock for ${item.productName}: ${stockError.message}`);
+          }
+
+          processedProducts.push({ id: existingProduct.id, quantity: item.quantity });
         } else {
           const { data: newProduct, error: productError } = await supabase
             .from('products')
             .insert({
               name: item.productName,
               category: item.category,
-              supplier: invoiceData.supplier,
+              supplier: supplierName,
               batch_number: item.batchNumber,
               expiry_date: item.expiryDate.toISOString().split('T')[0],
               invoice_price: item.invoicePrice,
@@ -340,7 +465,7 @@ const InvoiceManagement: React.FC = () => {
           }
 
           productId = newProduct.id;
-          processedProducts.push({ id: newProduct.id, originalStock: 0 });
+          processedProducts.push({ id: newProduct.id, quantity: item.quantity });
         }
 
         invoiceItemsToInsert.push({
@@ -359,6 +484,7 @@ const InvoiceManagement: React.FC = () => {
           selling_price: item.sellingPrice,
           total_cost: item.totalCost,
           barcode: item.barcode,
+          supplier_order_item_id: getOrderLine(item.productName)?.id || null,
         });
       }
 
@@ -388,7 +514,7 @@ const InvoiceManagement: React.FC = () => {
 
       await logActivity(
         'INVOICE_CREATED',
-        `Created invoice ${invoiceData.invoiceNumber} for supplier ${invoiceData.supplier} - Total: ${formatKES(totalAmount)}, Items: ${invoiceItems.length}`
+        `Created invoice ${invoiceData.invoiceNumber} for supplier ${supplierName} - Total: ${formatKES(totalAmount)}, Items: ${invoiceItems.length}${receivingOrder ? `, Order: ${receivingOrder.orderNumber}` : ''}`
       );
 
       resetForm();
@@ -410,10 +536,15 @@ const InvoiceManagement: React.FC = () => {
 
       for (const product of processedProducts) {
         try {
-          await supabase
-            .from('products')
-            .update({ current_stock: product.originalStock })
-            .eq('id', product.id);
+          await supabase.rpc('record_stock_movement', {
+            p_product_id: product.id,
+            p_movement_type: 'reversal',
+            p_quantity: -product.quantity,
+            p_reason: 'Invoice could not be saved',
+            p_source_type: 'invoice',
+            p_reference: invoiceData.invoiceNumber,
+            p_user_name: user.name,
+          });
         } catch (rollbackError) {
           console.error('Error rolling back product stock:', rollbackError);
         }
@@ -470,20 +601,18 @@ const InvoiceManagement: React.FC = () => {
               .maybeSingle();
 
             if (product) {
-              const newStock = product.current_stock - item.quantity;
-              if (newStock < 0) {
-                throw new Error(`Insufficient stock for ${item.productName}. Available: ${product.current_stock}, Required: ${item.quantity}`);
-              }
-
-              const { error: updateError } = await supabase
-                .from('products')
-                .update({
-                  current_stock: newStock,
-                  updated_at: new Date().toISOString(),
-                })
-                .eq('id', product.id);
-
-              if (updateError) throw updateError;
+              const { error: stockError } = await supabase.rpc('record_stock_movement', {
+                p_product_id: product.id,
+                p_movement_type: 'reversal',
+                p_quantity: -item.quantity,
+                p_reason: `Reversal of invoice ${invoice.invoiceNumber}`,
+                p_source_type: 'invoice_reversal',
+                p_source_id: reversal.id,
+                p_reference: reversalNumber,
+                p_user_name: user.name,
+              });
+
+              if (stockError) throw stockError;
             }
 
             const { error: itemError } = await supabase
@@ -622,10 +751,7 @@ const InvoiceManagement: React.FC = () => {
       }
 
       if (extractedSupplier) {
-        setInvoiceData(prev => ({
-          ...prev,
-          supplier: extractedSupplier
-        }));
+        handleSupplierChange(extractedSupplier);
       }
 
       if (extractedInvoiceDate) {
@@ -665,6 +791,7 @@ const InvoiceManagement: React.FC = () => {
       invoiceDate: new Date().toISOString().split('T')[0],
     });
     setInvoiceItems([]);
+    setReceivingOrderId('');
     setCurrentItem({
       productName: '',
       category: '',
@@ -711,7 +838,7 @@ const InvoiceManagement: React.FC = () => {
           <p className="text-gray-600">Add inventory by invoice</p>
         </div>
         <button
-          onClick={() => setShowAddForm(true)}
+          onClick={openAddForm}
           className="flex items-center space-x-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
         >
           <Plus className="h-4 w-4" />
@@ -843,6 +970,12 @@ const InvoiceManagement: React.FC = () => {
                   <p className="text-sm text-gray-600">Total Amount</p>
                   <p className="font-semibold text-green-600">{formatKES(selectedInvoice.totalAmount)}</p>
                 </div>
+                {selectedInvoice.supplierOrderNumber && (
+                  <div>
+                    <p className="text-sm text-gray-600">Received Against Order</p>
+                    <p className="font-semibold">{selectedInvoice.supplierOrderNumber}</p>
+                  </div>
+                )}
               </div>
 
               <h4 className="font-semibold mb-2">Items ({selectedInvoice.items.length})</h4>
@@ -916,14 +1049,9 @@ const InvoiceManagement: React.FC = () => {
                   />
                 </div>
 
-                <AutocompleteInput
+                <SupplierPicker
                   value={invoiceData.supplier}
-                  onChange={(value) => setInvoiceData({ ...invoiceData, supplier: value })}
-                  options={suppliers}
-                  placeholder="Select or add supplier"
-                  label="Supplier"
-                  allowAddNew
-                  onAddNew={addSupplier}
+                  onChange={handleSupplierChange}
                   required
                 />
 
@@ -938,6 +1066,75 @@ const InvoiceManagement: React.FC = () => {
                 </div>
               </div>
 
+              <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg">
+                <label className="block text-sm font-medium text-blue-900 mb-2">
+                  <ClipboardList className="h-4 w-4 inline mr-2" />
+                  Receive Against Supplier Order
+                </label>
+                <select
+                  value={receivingOrderId}
+                  onChange={(e) => handleReceivingOrderChange(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  <option value="">No order</option>
+                  {openOrders
+                    .filter(order => !invoiceData.supplier || !order.supplier || order.supplier.toLowerCase() === invoiceData.supplier.toLowerCase() || order.id === receivingOrderId)
+                    .map(order => (
+                      <option key={order.id} value={order.id}>
+                        {order.orderNumber} - {order.supplier || 'No supplier'} ({SUPPLIER_ORDER_STATUS_LABELS[order.status]})
+                      </option>
+                    ))}
+                </select>
+
+                {receivingOrder && (
+                  <div className="mt-3 border rounded-lg overflow-hidden bg-white">
+                    <table className="w-full">
+                      <thead className="bg-gray-50">
+                        <tr>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Product</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Ordered</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Received</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">This Invoice</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Outstanding</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Expected Cost</th>
+                          <th className="px-3 py-2 text-left text-xs font-medium text-gray-500"></th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-gray-200">
+                        {receivingOrder.lines.map(line => {
+                          const onInvoice = getQuantityOnInvoice(line);
+                          const outstanding = line.orderQuantity - line.receivedQuantity - onInvoice;
+
+                          return (
+                            <tr key={line.id}>
+                              <td className="px-3 py-2 text-sm">{line.productName}</td>
+                              <td className="px-3 py-2 text-sm">{line.orderQuantity}</td>
+                              <td className="px-3 py-2 text-sm">{line.receivedQuantity}</td>
+                              <td className="px-3 py-2 text-sm">{onInvoice}</td>
+                              <td className={`px-3 py-2 text-sm font-medium ${outstanding < 0 ? 'text-red-600' : outstanding === 0 ? 'text-green-600' : 'text-gray-900'}`}>
+                                {outstanding < 0 ? `Over by ${-outstanding}` : outstanding}
+                              </td>
+                              <td className="px-3 py-2 text-sm">{line.unitCost != null ? formatKES(line.unitCost) : '-'}</td>
+                              <td className="px-3 py-2 text-sm">
+                                {outstanding > 0 && (
+                                  <button
+                                    type="button"
+                                    onClick={() => receiveOrderLine(line)}
+                                    className="text-blue-600 hover:text-blue-800 font-medium"
+                                  >
+                                    Receive
+                                  </button>
+                                )}
+                              </td>
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   <Upload className="h-4 w-4 inline mr-2" />
@@ -1097,35 +1294,57 @@ const InvoiceManagement: React.FC = () => {
                           <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Discount %</th>
                           <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">VAT %</th>
                           <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Cost</th>
+                          {receivingOrder && (
+                            <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">vs Order</th>
+                          )}
                           <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Selling</th>
                           <th className="px-3 py-2 text-left text-xs font-medium text-gray-500">Total</th>
                           <th className="px-3 py-2 text-left text-xs font-medium text-gray-500"></th>
                         </tr>
                       </thead>
                       <tbody className="divide-y divide-gray-200">
-                        {invoiceItems.map((item, index) => (
-                          <tr key={index}>
-                            <td className="px-3 py-2 text-sm">{item.productName}</td>
-                            <td className="px-3 py-2 text-sm">{item.batchNumber}</td>
-                            <td className="px-3 py-2 text-sm">{item.quantity}</td>
-                            <td className="px-3 py-2 text-sm">{item.invoicePrice ? formatKES(item.invoicePrice) : '-'}</td>
-                            <td className="px-3 py-2 text-sm">{item.supplierDiscountPercent || '0'}%</td>
-                            <td className="px-3 py-2 text-sm">{item.vatRate || '0'}%</td>
-                            <td className="px-3 py-2 text-sm">{formatKES(item.costPrice)}</td>
-                            <td className="px-3 py-2 text-sm">{formatKES(item.sellingPrice)}</td>
-                            <td className="px-3 py-2 text-sm font-medium">{formatKES(item.totalCost)}</td>
-                            <td className="px-3 py-2 text-sm">
-                              <button
-                                onClick={() => removeItemFromInvoice(index)}
-                                className="text-red-600 hover:text-red-800"
-                              >
-                                <Trash2 className="h-4 w-4" />
-                              </button>
-                            </td>
-                          </tr>
-                        ))}
+                        {invoiceItems.map((item, index) => {
+                          const orderLine = getOrderLine(item.productName);
+                          // Difference per unit between the invoiced cost and the order's expected cost
+                          const priceVariance = orderLine?.unitCost != null ? item.costPrice - orderLine.unitCost : null;
+
+                          return (
+                            <tr key={index}>
+                              <td className="px-3 py-2 text-sm">{item.productName}</td>
+                              <td className="px-3 py-2 text-sm">{item.batchNumber}</td>
+                              <td className="px-3 py-2 text-sm">{item.quantity}</td>
+                              <td className="px-3 py-2 text-sm">{item.invoicePrice ? formatKES(item.invoicePrice) : '-'}</td>
+                              <td className="px-3 py-2 text-sm">{item.supplierDiscountPercent || '0'}%</td>
+                              <td className="px-3 py-2 text-sm">{item.vatRate || '0'}%</td>
+                              <td className="px-3 py-2 text-sm">{formatKES(item.costPrice)}</td>
+                              {receivingOrder && (
+                                <td className="px-3 py-2 text-sm">
+                                  {!orderLine ? (
+                                    <span className="text-xs text-orange-600">Not on order</span>
+                                  ) : priceVariance == null ? (
+                                    '-'
+                                  ) : (
+                                    <span className={priceVariance > 0 ? 'text-red-600' : priceVariance < 0 ? 'text-green-600' : 'text-gray-600'}>
+                                      {priceVariance > 0 ? '+' : ''}{formatKES(priceVariance)}
+                                    </span>
+                                  )}
+                                </td>
+                              )}
+                              <td className="px-3 py-2 text-sm">{formatKES(item.sellingPrice)}</td>
+                              <td className="px-3 py-2 text-sm font-medium">{formatKES(item.totalCost)}</td>
+                              <td className="px-3 py-2 text-sm">
+                                <button
+                                  onClick={() => removeItemFromInvoice(index)}
+                                  className="text-red-600 hover:text-red-800"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </button>
+                              </td>
+                            </tr>
+                          );
+                        })}
                         <tr className="bg-gray-50 font-semibold">
-                          <td colSpan={5} className="px-3 py-2 text-right">Total:</td>
+                          <td colSpan={receivingOrder ? 9 : 8} className="px-3 py-2 text-right">Total:</td>
                           <td className="px-3 py-2">
                             {formatKES(invoiceItems.reduce((sum, item) => sum + item.totalCost, 0))}
                           </td>
@@ -15,10 +15,23 @@ import {
   FileInput,
   FileMinus,
   ClipboardList,
-  Pill
+  Pill,
+  WifiOff,
+  RefreshCw,
+  Shield,
+  Users,
+  BookOpen,
+  Tag,
+  Receipt,
+  Clock,
+  Smartphone,
+  Truck,
+  AlertTriangle
 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import { useAlert } from '../contexts/AlertContext';
+import { useApp } from '../contexts/AppContext';
+import QueuedSalesModal from './QueuedSalesModal';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -29,21 +42,31 @@ interface LayoutProps {
 const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange }) => {
   const { user, signOut, canAccessPage } = useAuth();
   const { showAlert } = useAlert();
+  const { isOnline, queuedSales, isSyncing, syncQueuedSales } = useApp();
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [showProfileDropdown, setShowProfileDropdown] = useState(false);
+  const [showQueuedSales, setShowQueuedSales] = useState(false);
 
   if (!user) return null;
 
   const allMenuItems = [
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
     { id: 'pos', label: 'Point of Sale', icon: ShoppingCart },
+    { id: 'customers', label: 'Customers', icon: Users },
     { id: 'invoices', label: 'Invoices', icon: FileInput },
     { id: 'inventory', label: 'Inventory', icon: Package },
     { id: 'orders', label: 'Orders', icon: ClipboardList },
+    { id: 'suppliers', label: 'Suppliers', icon: Truck },
     { id: 'creditnotes', label: 'Credit Notes', icon: FileMinus },
     { id: 'stocktake', label: 'Stock Take', icon: Package },
     { id: 'drugsaleshistory', label: 'Sales Report', icon: FileText },
-    { id: 'drughistory', label: 'Drug History', icon: Pill },
+    { id: 'stockcard', label: 'Stock Card', icon: Pill },
+    { id: 'cdregister', label: 'Controlled Drugs', icon: BookOpen },
+    { id: 'claims', label: 'Insurance Claims', icon: Shield },
+    { id: 'promotions', label: 'Promotions', icon: Tag },
+    { id: 'fiscal', label: 'Fiscal Invoices', icon: Receipt },
+    { id: 'shifts', label: 'Cashier Shifts', icon: Clock },
+    { id: 'mpesa', label: 'M-Pesa Reconciliation', icon: Smartphone },
     { id: 'analytics', label: 'Analytics', icon: TrendingUp },
     { id: 'logs', label: 'Activity Logs', icon: FileText },
     { id: 'settings', label: 'Settings', icon: Settings },
@@ -136,8 +159,39 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange }) =>
           {/* Top Header with Profile */}
           <div className="bg-white shadow-sm border-b px-4 lg:px-8 py-4">
             <div className="flex justify-between items-center">
-              <div></div>
-              
+              {/* Offline / pending sync status */}
+              <div className="flex items-center space-x-2">
+                {!isOnline && (
+                  <span className="flex items-center text-xs font-medium bg-yellow-100 text-yellow-800 px-2 py-1 rounded-full">
+                    <WifiOff className="h-3 w-3 mr-1" />
+                    Offline
+                  </span>
+                )}
+                {queuedSales.length > 0 && (
+                  <button
+                    onClick={() => syncQueuedSales()}
+                    disabled={isSyncing || !isOnline}
+                    className="flex items-center text-xs font-medium bg-orange-100 text-orange-800 px-2 py-1 rounded-full hover:bg-orange-200 disabled:hover:bg-orange-100"
+                    title={queuedSales.some(sale => sale.lastError)
+                      ? `Last error: ${queuedSales.find(sale => sale.lastError)?.lastError}`
+                      : 'Sales saved on this till waiting to sync'}
+                  >
+                    <RefreshCw className={`h-3 w-3 mr-1 ${isSyncing ? 'animate-spin' : ''}`} />
+                    {queuedSales.length} pending sync
+                  </button>
+                )}
+                {queuedSales.some(sale => sale.lastError) && (
+                  <button
+                    onClick={() => setShowQueuedSales(true)}
+                    className="flex items-center text-xs font-medium bg-red-100 text-red-800 px-2 py-1 rounded-full hover:bg-red-200"
+                    title="Offline sales the server refused. Retry or discard them"
+                  >
+                    <AlertTriangle className="h-3 w-3 mr-1" />
+                    {queuedSales.filter(sale => sale.lastError).length} failed to sync
+                  </button>
+                )}
+              </div>
+
               {/* Profile Dropdown */}
               <div className="relative ml-auto">
                 <button
@@ -204,6 +258,8 @@ const Layout: React.FC<LayoutProps> = ({ children, activeTab, onTabChange }) =>
           onClick={() => setShowProfileDropdown(false)}
         />
       )}
+
+      <QueuedSalesModal isOpen={showQueuedSales} onClose={() => setShowQueuedSales(false)} />
     </div>
   );
 };
@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { Search, ScanLine } from 'lucide-react';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { getErrorMessage } from '../utils/errorMessages';
+import { MedicineStock, summariseMedicineStock } from '../utils/batches';
+
+interface LinkBarcodeModalProps {
+  barcode: string;
+  onClose: () => void;
+  onLinked: (medicine: MedicineStock) => void;
+}
+
+// Offered when a scanned code matches no product, so the code can be saved
+// against the medicine it belongs to without leaving the till
+const LinkBarcodeModal: React.FC<LinkBarcodeModalProps> = ({ barcode, onClose, onLinked }) => {
+  const { products, productMasters, updateProductMaster, logActivity } = useApp();
+  const { showAlert } = useAlert();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selected, setSelected] = useState<MedicineStock | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const medicines = useMemo(() => summariseMedicineStock(productMasters, products), [productMasters, products]);
+
+  const matches = searchTerm.trim().length < 2
+    ? []
+    : medicines
+        .filter(medicine => medicine.master.name.toLowerCase().includes(searchTerm.toLowerCase()))
+        .slice(0, 8);
+
+  const linkBarcode = async () => {
+    if (!selected) return;
+
+    setIsSaving(true);
+    try {
+      await updateProductMaster(selected.master.id, { barcode });
+      await logActivity('LINK_BARCODE', `Linked barcode ${barcode} to ${selected.master.name}`);
+      onLinked({ ...selected, master: { ...selected.master, barcode } });
+    } catch (error) {
+      showAlert({ title: 'Link Barcode', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4">
+        <h3 className="text-lg font-semibold mb-2 flex items-center">
+          <ScanLine className="h-5 w-5 mr-2 text-orange-600" />
+          Unknown Barcode
+        </h3>
+        <p className="text-sm text-gray-600 mb-4">
+          <span className="font-mono font-medium text-gray-900">{barcode}</span> does not match any product. Link it to one:
+        </p>
+
+        <div className="relative mb-2">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => {
+              setSearchTerm(e.target.value);
+              setSelected(null);
+            }}
+            placeholder="Search product name"
+            autoFocus
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+          />
+        </div>
+
+        <div className="max-h-48 overflow-y-auto space-y-1 mb-4">
+          {matches.map(medicine => (
+            <button
+              key={medicine.master.id}
+              onClick={() => setSelected(medicine)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-sm border ${
+                selected?.master.id === medicine.master.id ? 'border-green-500 bg-green-50' : 'border-transparent hover:bg-gray-50'
+              }`}
+            >
+              <p className="font-medium text-gray-900">{medicine.master.name}</p>
+              <p className="text-gray-500">
+                {medicine.totalStock} in stock · {medicine.batches.length} batch{medicine.batches.length === 1 ? '' : 'es'}
+                {medicine.master.barcode && ` · replaces ${medicine.master.barcode}`}
+              </p>
+            </button>
+          ))}
+        </div>
+
+        <div className="flex space-x-3">
+          <button
+            onClick={onClose}
+            className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            Skip
+          </button>
+          <button
+            onClick={linkBarcode}
+            disabled={!selected || isSaving}
+            className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+          >
+            {isSaving ? 'Linking...' : 'Link Barcode'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LinkBarcodeModal;
@@ -0,0 +1,351 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Gift, Download } from 'lucide-react';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { supabase } from '../lib/supabase';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { LoyaltyRules, DEFAULT_LOYALTY_RULES } from '../types';
+import { formatKES } from '../utils/currency';
+import { getErrorMessage } from '../utils/errorMessages';
+
+interface LiabilityRow {
+  customerId: string;
+  name: string;
+  loyaltyId: string;
+  balance: number;
+  expiringSoon: number;
+  lastActivityAt: string;
+}
+
+const LoyaltySettings: React.FC = () => {
+  const { categories, getLoyaltyRules, saveLoyaltyRules } = useApp();
+  const { showAlert } = useAlert();
+  const [rules, setRules] = useState<LoyaltyRules>(DEFAULT_LOYALTY_RULES);
+  const [liability, setLiability] = useState<LiabilityRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const loadLoyalty = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      // Write off expired points first so the liability only counts spendable points
+      const { error: expireError } = await supabase.rpc('expire_loyalty_points');
+      if (expireError) console.error('Error expiring loyalty points:', expireError);
+
+      const [loadedRules, balancesResult] = await Promise.all([
+        getLoyaltyRules(),
+        supabase
+          .from('customer_loyalty_balances')
+          .select('*')
+          .gt('balance', 0)
+          .order('balance', { ascending: false }),
+      ]);
+
+      if (balancesResult.error) throw balancesResult.error;
+
+      const balances = balancesResult.data || [];
+      const customerIds = balances.map(row => row.customer_id as string);
+      const { data: customers, error: customersError } = customerIds.length > 0
+        ? await supabase.from('customers').select('id, name, loyalty_id').in('id', customerIds)
+        : { data: [], error: null };
+
+      if (customersError) throw customersError;
+
+      const customersById = new Map((customers || []).map(customer => [customer.id, customer]));
+
+      setRules(loadedRules);
+      setLiability(balances.map(row => ({
+        customerId: row.customer_id,
+        name: customersById.get(row.customer_id)?.name || 'Unknown customer',
+        loyaltyId: customersById.get(row.customer_id)?.loyalty_id || '',
+        balance: Number(row.balance) || 0,
+        expiringSoon: Number(row.expiring_soon) || 0,
+        lastActivityAt: row.last_activity_at,
+      })));
+    } catch (error) {
+      console.error('Error loading loyalty settings:', error);
+      showAlert({ title: 'Loyalty Points', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [getLoyaltyRules, showAlert]);
+
+  useEffect(() => {
+    loadLoyalty();
+  }, [loadLoyalty]);
+
+  const setMultiplier = (category: string, value: string) => {
+    const multiplier = parseFloat(value);
+    const categoryMultipliers = { ...rules.categoryMultipliers };
+    if (isNaN(multiplier) || multiplier === 1) {
+      delete categoryMultipliers[category];
+    } else {
+      categoryMultipliers[category] = multiplier;
+    }
+    setRules({ ...rules, categoryMultipliers });
+  };
+
+  const toggleExcluded = (category: string) => {
+    setRules({
+      ...rules,
+      excludedCategories: rules.excludedCategories.includes(category)
+        ? rules.excludedCategories.filter(c => c !== category)
+        : [...rules.excludedCategories, category],
+    });
+  };
+
+  const saveRules = async () => {
+    if (rules.pointValueKes <= 0) {
+      showAlert({ title: 'Loyalty Points', message: 'A point must be worth more than KES 0', type: 'warning' });
+      return;
+    }
+    if (rules.pointsPer100Kes < 0 || rules.minRedeemPoints < 0 || rules.expiryMonths < 0) {
+      showAlert({ title: 'Loyalty Points', message: 'Earn rate, minimum redemption and expiry cannot be negative', type: 'warning' });
+      return;
+    }
+    if (Object.values(rules.categoryMultipliers).some(multiplier => multiplier < 0)) {
+      showAlert({ title: 'Loyalty Points', message: 'Category multipliers cannot be negative', type: 'warning' });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveLoyaltyRules(rules);
+      showAlert({ title: 'Loyalty Points', message: 'Loyalty rules updated successfully!', type: 'success' });
+    } catch (error) {
+      showAlert({ title: 'Loyalty Points', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const outstandingPoints = liability.reduce((sum, row) => sum + row.balance, 0);
+  const expiringPoints = liability.reduce((sum, row) => sum + row.expiringSoon, 0);
+
+  const exportLiability = () => {
+    const doc = new jsPDF();
+
+    doc.setFontSize(18);
+    doc.setFont('helvetica', 'bold');
+    doc.text('LOYALTY POINTS LIABILITY', 105, 18, { align: 'center' });
+    doc.setFontSize(11);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`Wesabi Pharmacy · as at ${new Date().toLocaleDateString('en-KE')}`, 105, 25, { align: 'center' });
+    doc.text(`Outstanding: ${outstandingPoints.toLocaleString()} points = ${formatKES(outstandingPoints * rules.pointValueKes)}`, 15, 35);
+    doc.text(`Expiring within 30 days: ${expiringPoints.toLocaleString()} points`, 15, 41);
+
+    autoTable(doc, {
+      startY: 48,
+      head: [['Customer', 'Loyalty No.', 'Points', 'Value', 'Expiring (30d)']],
+      body: liability.map(row => [
+        row.name,
+        row.loyaltyId,
+        row.balance.toLocaleString(),
+        formatKES(row.balance * rules.pointValueKes),
+        row.expiringSoon ? row.expiringSoon.toLocaleString() : '',
+      ]),
+      theme: 'grid',
+      headStyles: {
+        fillColor: [66, 139, 202],
+        textColor: 255,
+        fontStyle: 'bold'
+      },
+      margin: { left: 15, right: 15 }
+    });
+
+    doc.save(`Loyalty_Liability_${new Date().toISOString().split('T')[0]}.pdf`);
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="p-6 border-b">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Gift className="h-5 w-5 mr-2" />
+          Loyalty Points
+        </h2>
+      </div>
+      <div className="p-6 space-y-6">
+        {loading ? (
+          <p className="text-center text-gray-500 py-4">Loading loyalty settings...</p>
+        ) : (
+          <>
+            <label className="flex items-center space-x-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={rules.enabled}
+                onChange={(e) => setRules({ ...rules, enabled: e.target.checked })}
+                className="h-4 w-4 text-green-600 border-gray-300 rounded"
+              />
+              <span>Customers earn and redeem points</span>
+            </label>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Points per KES 100</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.1"
+                  value={rules.pointsPer100Kes}
+                  onChange={(e) => setRules({ ...rules, pointsPer100Kes: parseFloat(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">1 point is worth (KES)</label>
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={rules.pointValueKes}
+                  onChange={(e) => setRules({ ...rules, pointValueKes: parseFloat(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Minimum redemption (points)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={rules.minRedeemPoints}
+                  onChange={(e) => setRules({ ...rules, minRedeemPoints: parseInt(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Points expire after (months)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={rules.expiryMonths}
+                  onChange={(e) => setRules({ ...rules, expiryMonths: parseInt(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">0 means points never expire.</p>
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2">Category rules</h3>
+              <div className="max-h-64 overflow-y-auto border rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50 sticky top-0">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Category</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Multiplier</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Earns no points</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {categories.map(category => {
+                      const excluded = rules.excludedCategories.includes(category);
+                      return (
+                        <tr key={category}>
+                          <td className="px-4 py-2">{category}</td>
+                          <td className="px-4 py-2">
+                            <input
+                              type="number"
+                              min={0}
+                              step="0.5"
+                              value={rules.categoryMultipliers[category] ?? 1}
+                              onChange={(e) => setMultiplier(category, e.target.value)}
+                              disabled={excluded}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-green-500 disabled:bg-gray-100"
+                            />
+                          </td>
+                          <td className="px-4 py-2">
+                            <input
+                              type="checkbox"
+                              checked={excluded}
+                              onChange={() => toggleExcluded(category)}
+                              className="h-4 w-4 text-green-600 border-gray-300 rounded"
+                            />
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+
+            <div className="flex justify-end">
+              <button
+                onClick={saveRules}
+                disabled={saving}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+              >
+                {saving ? 'Saving...' : 'Save Rules'}
+              </button>
+            </div>
+
+            <div className="border-t pt-6">
+              <div className="flex justify-between items-center mb-4">
+                <h3 className="text-sm font-medium text-gray-700">Outstanding liability</h3>
+                <button
+                  onClick={exportLiability}
+                  disabled={liability.length === 0}
+                  className="flex items-center px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Export PDF
+                </button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                <div className="text-center p-4 bg-gray-50 rounded-lg">
+                  <p className="text-sm text-gray-600 mb-1">Outstanding Points</p>
+                  <p className="text-lg font-bold text-gray-900">{outstandingPoints.toLocaleString()}</p>
+                </div>
+                <div className="text-center p-4 bg-gray-50 rounded-lg">
+                  <p className="text-sm text-gray-600 mb-1">Liability</p>
+                  <p className="text-lg font-bold text-gray-900">{formatKES(outstandingPoints * rules.pointValueKes)}</p>
+                </div>
+                <div className="text-center p-4 bg-gray-50 rounded-lg">
+                  <p className="text-sm text-gray-600 mb-1">Customers Holding Points</p>
+                  <p className="text-lg font-bold text-gray-900">{liability.length}</p>
+                </div>
+                <div className="text-center p-4 bg-gray-50 rounded-lg">
+                  <p className="text-sm text-gray-600 mb-1">Expiring in 30 Days</p>
+                  <p className="text-lg font-bold text-orange-600">{expiringPoints.toLocaleString()}</p>
+                </div>
+              </div>
+              {liability.length > 0 && (
+                <div className="max-h-64 overflow-y-auto border rounded-lg">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="px-4 py-2 text-left font-medium text-gray-500">Customer</th>
+                        <th className="px-4 py-2 text-right font-medium text-gray-500">Points</th>
+                        <th className="px-4 py-2 text-right font-medium text-gray-500">Value</th>
+                        <th className="px-4 py-2 text-right font-medium text-gray-500">Expiring</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-500">Last Activity</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {liability.map(row => (
+                        <tr key={row.customerId}>
+                          <td className="px-4 py-2">
+                            <p className="font-medium">{row.name}</p>
+                            <p className="text-xs text-gray-500">{row.loyaltyId}</p>
+                          </td>
+                          <td className="px-4 py-2 text-right font-semibold">{row.balance.toLocaleString()}</td>
+                          <td className="px-4 py-2 text-right">{formatKES(row.balance * rules.pointValueKes)}</td>
+                          <td className="px-4 py-2 text-right text-orange-600">{row.expiringSoon ? row.expiringSoon.toLocaleString() : '-'}</td>
+                          <td className="px-4 py-2">{new Date(row.lastActivityAt).toLocaleDateString('en-KE')}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoyaltySettings;
@@ -0,0 +1,515 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Smartphone, RefreshCw, Link, X, Download } from 'lucide-react';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { useAutoRefresh } from '../contexts/DataRefreshContext';
+import { MpesaTransaction, MpesaReconciliationStatus, MpesaVarianceDay, PendingMpesaTender, MPESA_RECONCILIATION_LABELS } from '../types';
+import { formatKES } from '../utils/currency';
+import { getErrorMessage } from '../utils/errorMessages';
+
+type Tab = 'payments' | 'pending' | 'variance';
+
+const STATUS_STYLES: Record<MpesaReconciliationStatus, string> = {
+  unmatched: 'bg-yellow-100 text-yellow-800',
+  matched: 'bg-green-100 text-green-800',
+  underpaid: 'bg-red-100 text-red-800',
+  duplicate: 'bg-orange-100 text-orange-800',
+  ignored: 'bg-gray-100 text-gray-800',
+};
+
+const MATCH_METHOD_LABELS: Record<string, string> = {
+  receipt: 'M-Pesa code',
+  bill_ref: 'Account number',
+  amount_time: 'Amount and time',
+  manual: 'By hand',
+};
+
+const toDateInput = (date: Date) => date.toLocaleDateString('en-CA');
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date;
+};
+
+// Likeliest sales first: same amount, then closest in time to the payment
+const rankTenders = (tenders: PendingMpesaTender[], transaction: MpesaTransaction) =>
+  [...tenders].sort((a, b) =>
+    Math.abs(a.amount - transaction.amount) - Math.abs(b.amount - transaction.amount)
+    || Math.abs(a.createdAt.getTime() - transaction.transactionTime.getTime())
+      - Math.abs(b.createdAt.getTime() - transaction.transactionTime.getTime())
+  );
+
+const downloadVarianceReport = (days: MpesaVarianceDay[], from: string, to: string) => {
+  const doc = new jsPDF({ orientation: 'landscape' });
+
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.text('M-PESA VS SYSTEM VARIANCE', 148, 16, { align: 'center' });
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Wesabi Pharmacy · ${from} to ${to}`, 148, 23, { align: 'center' });
+
+  autoTable(doc, {
+    startY: 30,
+    head: [['Date', 'M-Pesa', 'System', 'Matched', 'Unmatched', 'Unpaid sales', 'Underpaid', 'Duplicates', 'Variance']],
+    body: days.map(day => [
+      day.date,
+      `${day.mpesaCount} · ${formatKES(day.mpesaTotal)}`,
+      `${day.systemCount} · ${formatKES(day.systemTotal)}`,
+      formatKES(day.matchedTotal),
+      `${day.unmatchedCount} · ${formatKES(day.unmatchedTotal)}`,
+      `${day.unpaidTenderCount} · ${formatKES(day.unpaidTenderTotal)}`,
+      `${day.underpaidCount} · ${formatKES(day.underpaidTotal)}`,
+      `${day.duplicateCount} · ${formatKES(day.duplicateTotal)}`,
+      formatKES(day.variance),
+    ]),
+    theme: 'grid',
+    headStyles: {
+      fillColor: [66, 139, 202],
+      textColor: 255,
+      fontStyle: 'bold',
+      fontSize: 9
+    },
+    bodyStyles: { fontSize: 9 },
+    margin: { left: 10, right: 10 }
+  });
+
+  doc.save(`MPesa_Variance_${from}_${to}.pdf`);
+};
+
+const MpesaReconciliation: React.FC = () => {
+  const {
+    getMpesaTransactions,
+    getPendingMpesaTenders,
+    reconcileMpesaTransactions,
+    attachMpesaTransaction,
+    ignoreMpesaTransaction,
+    getMpesaVarianceReport,
+  } = useApp();
+  const { showAlert } = useAlert();
+  const [activeTab, setActiveTab] = useState<Tab>('payments');
+  const [statusFilter, setStatusFilter] = useState<MpesaReconciliationStatus | 'all'>('unmatched');
+  const [transactions, setTransactions] = useState<MpesaTransaction[]>([]);
+  const [pendingTenders, setPendingTenders] = useState<PendingMpesaTender[]>([]);
+  const [varianceDays, setVarianceDays] = useState<MpesaVarianceDay[]>([]);
+  const [varianceFrom, setVarianceFrom] = useState(toDateInput(daysAgo(6)));
+  const [varianceTo, setVarianceTo] = useState(toDateInput(new Date()));
+  const [loading, setLoading] = useState(true);
+  const [matching, setMatching] = useState(false);
+  const [attaching, setAttaching] = useState<MpesaTransaction | null>(null);
+  const [ignoring, setIgnoring] = useState<MpesaTransaction | null>(null);
+  const [ignoreNote, setIgnoreNote] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    try {
+      setLoading(true);
+      if (activeTab === 'variance') {
+        setVarianceDays(await getMpesaVarianceReport(varianceFrom, varianceTo));
+      } else {
+        const [transactionList, tenderList] = await Promise.all([
+          getMpesaTransactions(statusFilter === 'all' ? undefined : statusFilter, daysAgo(30)),
+          getPendingMpesaTenders(),
+        ]);
+        setTransactions(transactionList);
+        setPendingTenders(tenderList);
+      }
+    } catch (error) {
+      showAlert({ title: 'M-Pesa Reconciliation', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [activeTab, statusFilter, varianceFrom, varianceTo, getMpesaTransactions, getMpesaVarianceReport, getPendingMpesaTenders, showAlert]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  useAutoRefresh('sales', loadData);
+
+  const handleRunMatcher = async () => {
+    try {
+      setMatching(true);
+      const matched = await reconcileMpesaTransactions();
+      showAlert({
+        title: 'M-Pesa Reconciliation',
+        message: matched === 0 ? 'No further payments could be matched automatically' : `${matched} payments matched`,
+        type: matched === 0 ? 'info' : 'success',
+      });
+      await loadData();
+    } catch (error) {
+      showAlert({ title: 'M-Pesa Reconciliation', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setMatching(false);
+    }
+  };
+
+  const handleAttach = async (tender: PendingMpesaTender) => {
+    if (!attaching) return;
+
+    try {
+      setIsSaving(true);
+      const status = await attachMpesaTransaction(attaching.id, tender.salePaymentId);
+      showAlert({
+        title: 'M-Pesa Reconciliation',
+        message: status === 'underpaid'
+          ? `Attached to ${tender.receiptNumber}, but ${formatKES(tender.amount - attaching.amount)} short of the sale payment`
+          : `Attached to ${tender.receiptNumber}`,
+        type: status === 'underpaid' ? 'warning' : 'success',
+      });
+      setAttaching(null);
+      await loadData();
+    } catch (error) {
+      showAlert({ title: 'M-Pesa Reconciliation', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleIgnore = async () => {
+    if (!ignoring) return;
+
+    if (!ignoreNote.trim()) {
+      showAlert({ title: 'M-Pesa Reconciliation', message: 'Say what the payment was for', type: 'warning' });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await ignoreMpesaTransaction(ignoring.id, ignoreNote.trim());
+      setIgnoring(null);
+      setIgnoreNote('');
+      await loadData();
+    } catch (error) {
+      showAlert({ title: 'M-Pesa Reconciliation', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const tabs: { id: Tab; label: string }[] = [
+    { id: 'payments', label: 'M-Pesa Payments' },
+    { id: 'pending', label: `Unpaid Sales (${pendingTenders.length})` },
+    { id: 'variance', label: 'Daily Variance' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">M-Pesa Reconciliation</h1>
+          <p className="text-gray-600">Match till and STK payments to sales and account for the differences</p>
+        </div>
+        <button
+          onClick={handleRunMatcher}
+          disabled={matching}
+          className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${matching ? 'animate-spin' : ''}`} />
+          {matching ? 'Matching...' : 'Match Now'}
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border">
+        <div className="px-4 pt-2 border-b flex justify-between items-end">
+          <div className="flex space-x-2">
+            {tabs.map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px ${
+                  activeTab === tab.id ? 'border-green-600 text-green-700' : 'border-transparent text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+          <div className="pb-2">
+            {activeTab === 'payments' && (
+              <select
+                value={statusFilter}
+                onChange={(e) => setStatusFilter(e.target.value as MpesaReconciliationStatus | 'all')}
+                className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+              >
+                <option value="all">All payments</option>
+                {(Object.keys(MPESA_RECONCILIATION_LABELS) as MpesaReconciliationStatus[]).map(status => (
+                  <option key={status} value={status}>{MPESA_RECONCILIATION_LABELS[status]}</option>
+                ))}
+              </select>
+            )}
+            {activeTab === 'variance' && (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="date"
+                  value={varianceFrom}
+                  onChange={(e) => setVarianceFrom(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <span className="text-gray-500 text-sm">to</span>
+                <input
+                  type="date"
+                  value={varianceTo}
+                  onChange={(e) => setVarianceTo(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <button
+                  onClick={() => downloadVarianceReport(varianceDays, varianceFrom, varianceTo)}
+                  disabled={varianceDays.length === 0}
+                  className="p-2 text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                  title="Download PDF"
+                >
+                  <Download className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-8">Loading...</p>
+        ) : activeTab === 'payments' ? (
+          transactions.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">No M-Pesa payments in the last 30 days</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Time</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">M-Pesa Code</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Payer</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Account</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Amount</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Sale</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {transactions.map(transaction => (
+                    <tr key={transaction.id}>
+                      <td className="px-4 py-2 text-gray-600">{transaction.transactionTime.toLocaleString('en-KE')}</td>
+                      <td className="px-4 py-2 text-gray-900 font-mono">{transaction.receiptNumber || '-'}</td>
+                      <td className="px-4 py-2 text-gray-600">
+                        {transaction.customerName || '-'}
+                        {transaction.phoneNumber && <span className="block text-xs text-gray-500">{transaction.phoneNumber}</span>}
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">{transaction.billRefNumber || '-'}</td>
+                      <td className="px-4 py-2 text-right text-gray-900">{formatKES(transaction.amount)}</td>
+                      <td className="px-4 py-2">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[transaction.reconciliationStatus]}`}>
+                          {MPESA_RECONCILIATION_LABELS[transaction.reconciliationStatus]}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">
+                        {transaction.saleReceiptNumber || '-'}
+                        {transaction.matchMethod && (
+                          <span className="block text-xs text-gray-500">{MATCH_METHOD_LABELS[transaction.matchMethod]}</span>
+                        )}
+                        {transaction.reconciliationStatus === 'underpaid' && transaction.variance !== undefined && (
+                          <span className="block text-xs text-red-600">Short by {formatKES(-transaction.variance)}</span>
+                        )}
+                        {transaction.reconciliationNote && (
+                          <span className="block text-xs text-gray-500">{transaction.reconciliationNote}</span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap">
+                        {transaction.reconciliationStatus === 'unmatched' && (
+                          <>
+                            <button
+                              onClick={() => setAttaching(transaction)}
+                              className="inline-flex items-center px-2 py-1 text-xs text-green-700 border border-green-600 rounded hover:bg-green-50"
+                            >
+                              <Link className="h-3 w-3 mr-1" />
+                              Attach
+                            </button>
+                            <button
+                              onClick={() => { setIgnoring(transaction); setIgnoreNote(''); }}
+                              className="ml-2 px-2 py-1 text-xs text-gray-600 border border-gray-300 rounded hover:bg-gray-50"
+                            >
+                              Not a sale
+                            </button>
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )
+        ) : activeTab === 'pending' ? (
+          pendingTenders.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">Every M-Pesa sale has its payment</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Sold</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Receipt</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Customer</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Cashier</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Reference Entered</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">M-Pesa Amount</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {pendingTenders.map(tender => (
+                    <tr key={tender.salePaymentId}>
+                      <td className="px-4 py-2 text-gray-600">{tender.createdAt.toLocaleString('en-KE')}</td>
+                      <td className="px-4 py-2 text-gray-900">{tender.receiptNumber}</td>
+                      <td className="px-4 py-2 text-gray-600">{tender.customerName || '-'}</td>
+                      <td className="px-4 py-2 text-gray-600">{tender.salesPersonName}</td>
+                      <td className="px-4 py-2 text-gray-600 font-mono">{tender.reference || '-'}</td>
+                      <td className="px-4 py-2 text-right text-gray-900">{formatKES(tender.amount)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )
+        ) : varianceDays.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">Choose a date range</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Date</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">M-Pesa Received</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">System M-Pesa Sales</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Unmatched</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Unpaid Sales</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Underpaid</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Duplicates</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Variance</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {varianceDays.map(day => (
+                  <tr key={day.date}>
+                    <td className="px-4 py-2 text-gray-900">{day.date}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">
+                      {formatKES(day.mpesaTotal)} <span className="text-xs text-gray-500">({day.mpesaCount})</span>
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-900">
+                      {formatKES(day.systemTotal)} <span className="text-xs text-gray-500">({day.systemCount})</span>
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-600">
+                      {day.unmatchedCount > 0 ? `${formatKES(day.unmatchedTotal)} (${day.unmatchedCount})` : '-'}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-600">
+                      {day.unpaidTenderCount > 0 ? `${formatKES(day.unpaidTenderTotal)} (${day.unpaidTenderCount})` : '-'}
+                    </td>
+                    <td className="px-4 py-2 text-right text-red-600">
+                      {day.underpaidCount > 0 ? `${formatKES(day.underpaidTotal)} (${day.underpaidCount})` : '-'}
+                    </td>
+                    <td className="px-4 py-2 text-right text-orange-600">
+                      {day.duplicateCount > 0 ? `${formatKES(day.duplicateTotal)} (${day.duplicateCount})` : '-'}
+                    </td>
+                    <td className={`px-4 py-2 text-right font-medium ${
+                      day.variance === 0 ? 'text-green-600' : day.variance < 0 ? 'text-red-600' : 'text-orange-600'
+                    }`}>
+                      {formatKES(day.variance)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {attaching && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <Smartphone className="h-5 w-5 mr-2" />
+                Attach Payment
+              </h3>
+              <button onClick={() => setAttaching(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="mb-4 p-3 bg-green-50 rounded-lg text-sm">
+              <p className="font-medium text-gray-900">
+                {attaching.receiptNumber} · {formatKES(attaching.amount)}
+              </p>
+              <p className="text-gray-600">
+                {attaching.customerName || attaching.phoneNumber || 'Unknown payer'} · {attaching.transactionTime.toLocaleString('en-KE')}
+              </p>
+            </div>
+
+            {pendingTenders.length === 0 ? (
+              <p className="text-center text-gray-500 py-6">No sales are waiting for an M-Pesa payment</p>
+            ) : (
+              <div className="divide-y border rounded-lg">
+                {rankTenders(pendingTenders, attaching).map(tender => (
+                  <button
+                    key={tender.salePaymentId}
+                    onClick={() => handleAttach(tender)}
+                    disabled={isSaving}
+                    className="w-full flex justify-between items-center px-3 py-2 text-left text-sm hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <span>
+                      <span className="font-medium text-gray-900">{tender.receiptNumber}</span>
+                      <span className="block text-xs text-gray-500">
+                        {tender.createdAt.toLocaleString('en-KE')} · {tender.salesPersonName}
+                        {tender.customerName ? ` · ${tender.customerName}` : ''}
+                      </span>
+                    </span>
+                    <span className={tender.amount === attaching.amount ? 'font-medium text-green-700' : 'text-gray-900'}>
+                      {formatKES(tender.amount)}
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {ignoring && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold text-gray-900 mb-2">Not a Sale</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              {ignoring.receiptNumber} · {formatKES(ignoring.amount)} will be left out of the variance report.
+            </p>
+            <input
+              type="text"
+              value={ignoreNote}
+              onChange={(e) => setIgnoreNote(e.target.value)}
+              placeholder="What was it for? e.g. supplier refund, owner deposit"
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+            <div className="flex space-x-3 mt-4">
+              <button
+                onClick={handleIgnore}
+                disabled={isSaving}
+                className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+              <button
+                onClick={() => setIgnoring(null)}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MpesaReconciliation;
@@ -0,0 +1,349 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Smartphone, RefreshCw, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { useDataRefresh } from '../contexts/DataRefreshContext';
+import { MpesaRefund, MpesaRefundStatus } from '../types';
+import { formatKES } from '../utils/currency';
+import { getErrorMessage } from '../utils/errorMessages';
+
+interface MpesaPayment {
+  id: string;
+  receiptNumber?: string;
+  amount: number;
+  phoneNumber?: string;
+}
+
+interface MpesaRefundModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  saleId: string;
+  receiptNumber: string;
+}
+
+const STATUS_STYLES: Record<MpesaRefundStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  completed: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const REFUND_REASONS = [
+  'Items returned',
+  'Customer overcharged',
+  'Paid twice',
+  'Sale cancelled',
+  'Other',
+];
+
+// What is left to refund on each payment; failed refunds do not count
+const getRemaining = (payments: MpesaPayment[], refunds: MpesaRefund[]) =>
+  payments.map(payment => payment.amount - refunds
+    .filter(refund => refund.mpesaTransactionId === payment.id && refund.status !== 'failed')
+    .reduce((sum, refund) => sum + refund.amount, 0));
+
+const MpesaRefundModal: React.FC<MpesaRefundModalProps> = ({ isOpen, onClose, saleId, receiptNumber }) => {
+  const { getMpesaRefunds, refundToMpesa, resendMpesaRefund } = useApp();
+  const { showAlert } = useAlert();
+  const { triggerRefresh } = useDataRefresh();
+  const [payments, setPayments] = useState<MpesaPayment[]>([]);
+  const [refunds, setRefunds] = useState<MpesaRefund[]>([]);
+  const [amount, setAmount] = useState('');
+  const [phoneNumber, setPhoneNumber] = useState('');
+  const [reason, setReason] = useState(REFUND_REASONS[0]);
+  const [notes, setNotes] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const loadRefunds = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('mpesa_transactions')
+        .select('id, mpesa_receipt_number, amount, phone_number')
+        .eq('sale_id', saleId)
+        .eq('transaction_status', 'completed')
+        .in('reconciliation_status', ['matched', 'underpaid']);
+
+      if (error) throw error;
+
+      const salePayments: MpesaPayment[] = (data || []).map(row => ({
+        id: row.id,
+        receiptNumber: row.mpesa_receipt_number || undefined,
+        amount: Number(row.amount) || 0,
+        phoneNumber: row.phone_number || undefined,
+      }));
+      const saleRefunds = await getMpesaRefunds(saleId);
+
+      setPayments(salePayments);
+      setRefunds(saleRefunds);
+      return { salePayments, saleRefunds };
+    } catch (error) {
+      console.error('Error loading M-Pesa refunds:', error);
+      showAlert({ title: 'Refund to M-Pesa', message: getErrorMessage(error), type: 'error' });
+      return null;
+    } finally {
+      setLoading(false);
+    }
+  }, [saleId, getMpesaRefunds, showAlert]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setReason(REFUND_REASONS[0]);
+    setNotes('');
+    loadRefunds().then(loaded => {
+      if (!loaded) return;
+      const remaining = getRemaining(loaded.salePayments, loaded.saleRefunds);
+      setAmount(String(Math.floor(Math.max(0, ...remaining))));
+      // C2B payments come with a masked number, which cannot be paid out to
+      setPhoneNumber(loaded.salePayments.find(payment => /^254\d{9}$/.test(payment.phoneNumber || ''))?.phoneNumber || '');
+    });
+  }, [isOpen, loadRefunds]);
+
+  const remaining = getRemaining(payments, refunds);
+  const maxRefund = Math.max(0, ...remaining);
+  const refundAmount = parseFloat(amount) || 0;
+  const isReversal = payments.some((payment, index) =>
+    refundAmount === payment.amount && remaining[index] === payment.amount && !!payment.receiptNumber
+  );
+
+  const submitRefund = async () => {
+    if (refundAmount <= 0 || !Number.isInteger(refundAmount)) {
+      showAlert({ title: 'Refund to M-Pesa', message: 'Enter a whole number of shillings to refund', type: 'warning' });
+      return;
+    }
+
+    if (reason === 'Other' && !notes.trim()) {
+      showAlert({ title: 'Refund to M-Pesa', message: 'Please describe the reason for the refund', type: 'warning' });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const refund = await refundToMpesa(
+        saleId,
+        refundAmount,
+        reason === 'Other' ? notes.trim() : [reason, notes.trim()].filter(Boolean).join(': '),
+        phoneNumber.trim() || undefined
+      );
+
+      triggerRefresh(['sales']);
+      await loadRefunds();
+
+      showAlert({
+        title: 'Refund to M-Pesa',
+        message: refund.status === 'failed'
+          ? `M-Pesa did not accept the refund: ${refund.resultDescription || 'try again'}`
+          : `${formatKES(refund.amount)} sent to M-Pesa. It is confirmed once Safaricom reports the result.`,
+        type: refund.status === 'failed' ? 'error' : 'success'
+      });
+    } catch (error) {
+      showAlert({ title: 'Refund to M-Pesa', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const resendRefund = async (refundId: string) => {
+    setSubmitting(true);
+    try {
+      const refund = await resendMpesaRefund(refundId);
+      await loadRefunds();
+
+      if (refund.status === 'failed') {
+        showAlert({ title: 'Refund to M-Pesa', message: `M-Pesa did not accept the refund: ${refund.resultDescription || 'try again'}`, type: 'error' });
+      } else if (refund.unconfirmed) {
+        showAlert({
+          title: 'Refund to M-Pesa',
+          message: refund.refundType === 'reversal'
+            ? 'M-Pesa has not confirmed this reversal yet. A reversal is never sent twice; it is settled when Safaricom reports the result.'
+            : 'M-Pesa has not confirmed this refund yet. It is only sent again once its result has had time to arrive.',
+          type: 'warning'
+        });
+      }
+    } catch (error) {
+      showAlert({ title: 'Refund to M-Pesa', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold flex items-center">
+            <Smartphone className="h-5 w-5 mr-2" />
+            Refund to M-Pesa · {receiptNumber}
+          </h3>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={loadRefunds}
+              disabled={loading}
+              className="text-gray-400 hover:text-gray-600"
+              title="Refresh"
+            >
+              <RefreshCw className={`h-5 w-5 ${loading ? 'animate-spin' : ''}`} />
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+              <X className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        {!loading && payments.length === 0 ? (
+          <p className="mb-4 p-3 bg-yellow-50 rounded-lg text-sm text-yellow-800">
+            No M-Pesa payment has been matched to this sale, so there is nothing to refund. Match the payment under M-Pesa first.
+          </p>
+        ) : (
+          <>
+            <div className="mb-4 p-3 bg-gray-50 rounded-lg text-sm text-gray-700 space-y-1">
+              {payments.map((payment, index) => (
+                <div key={payment.id} className="flex justify-between">
+                  <span>
+                    <span className="font-medium">{payment.receiptNumber || 'M-Pesa'}</span>
+                    {payment.phoneNumber && ` · ${payment.phoneNumber}`}
+                  </span>
+                  <span>
+                    {formatKES(payment.amount)}
+                    <span className="text-gray-500"> · {formatKES(remaining[index])} left</span>
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {maxRefund > 0 && (
+              <>
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Amount</label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={maxRefund}
+                      step={1}
+                      value={amount}
+                      onChange={(e) => setAmount(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                    <select
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                    >
+                      {REFUND_REASONS.map(option => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                {isReversal ? (
+                  <p className="mb-4 text-sm text-gray-600">
+                    The whole payment will be reversed back to the number that paid it.
+                  </p>
+                ) : (
+                  <div className="mb-4">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Customer's M-Pesa Number</label>
+                    <input
+                      type="tel"
+                      value={phoneNumber}
+                      onChange={(e) => setPhoneNumber(e.target.value)}
+                      placeholder="0712345678"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                    />
+                    <p className="mt-1 text-xs text-gray-500">Part refunds are paid out to this number</p>
+                  </div>
+                )}
+
+                <div className="mb-4">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                  <textarea
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+              </>
+            )}
+          </>
+        )}
+
+        {refunds.length > 0 && (
+          <div className="overflow-x-auto mb-4">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Date</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Refund</th>
+                  <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Amount</th>
+                  <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {refunds.map(refund => (
+                  <tr key={refund.id}>
+                    <td className="px-3 py-2 whitespace-nowrap">{refund.createdAt.toLocaleString('en-KE')}</td>
+                    <td className="px-3 py-2">
+                      <p className="text-gray-900">{refund.refundType === 'reversal' ? 'Reversal' : `B2C to ${refund.phoneNumber || '-'}`}</p>
+                      <p className="text-xs text-gray-500">{refund.reason} · {refund.requestedByName}</p>
+                    </td>
+                    <td className="px-3 py-2 text-right">{formatKES(refund.amount)}</td>
+                    <td className="px-3 py-2">
+                      <span className={`inline-flex px-2 py-0.5 text-xs font-semibold rounded-full ${STATUS_STYLES[refund.status]}`}>
+                        {refund.status === 'completed' ? refund.receiptNumber || 'Completed' : refund.status === 'pending' ? 'Awaiting M-Pesa' : 'Failed'}
+                      </span>
+                      {(refund.status === 'failed' || refund.unconfirmed) && refund.resultDescription && (
+                        <p className="text-xs text-red-600 mt-1">{refund.resultDescription}</p>
+                      )}
+                    </td>
+                    <td className="px-3 py-2 text-right">
+                      {(refund.status === 'failed' || (refund.unconfirmed && refund.refundType === 'b2c')) && (
+                        <button
+                          onClick={() => resendRefund(refund.id)}
+                          disabled={submitting}
+                          className="text-green-600 hover:text-green-800 text-xs font-medium disabled:text-gray-400"
+                        >
+                          Send again
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        <div className="flex space-x-3">
+          {maxRefund > 0 && (
+            <button
+              onClick={submitRefund}
+              disabled={submitting || refundAmount <= 0 || refundAmount > maxRefund}
+              className="flex-1 bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+            >
+              {submitting ? 'Sending...' : `Refund ${formatKES(refundAmount)}`}
+            </button>
+          )}
+          <button
+            onClick={onClose}
+            className="flex-1 bg-gray-600 text-white py-2 px-4 rounded-lg hover:bg-gray-700"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MpesaRefundModal;
@@ -1,7 +1,8 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { Plus, Trash2, Edit2, Download, Search, Filter, X, RotateCcw, CheckCircle, ArrowUp, ArrowDown } from 'lucide-react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Plus, Trash2, Edit2, Download, Search, Filter, X, RotateCcw, Send, Eye, Lock, TrendingUp, ArrowUp, ArrowDown, ChevronDown, ChevronRight } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { useApp } from '../contexts/AppContext';
 import { useAlert } from '../contexts/AlertContext';
 import { AlertDialog } from './AlertDialog';
 import jsPDF from 'jspdf';
@@ -10,26 +11,34 @@ import { usePageRefresh } from '../hooks/usePageRefresh';
 import { usePagination } from '../hooks/usePagination';
 import Pagination from './Pagination';
 import { useAutoRefresh } from '../contexts/DataRefreshContext';
-
-interface Product {
-  id: string;
-  name: string;
-  current_stock: number;
-  min_stock_level: number;
-}
+import { MedicineStock, summariseMedicineStock, isLowStock } from '../utils/batches';
+import BatchBreakdown from './BatchBreakdown';
+import SupplierPicker from './SupplierPicker';
+import ReorderSuggestions from './ReorderSuggestions';
+import { SupplierOrderStatus, SUPPLIER_ORDER_STATUS_LABELS } from '../types';
+import { formatKES } from '../utils/currency';
+import { getLastCost } from '../utils/reorder';
 
 interface OrderItem {
   id?: string;
-  product_id: string;
+  product_master_id: string;
+  product_id?: string | null;
   product_name: string;
   current_quantity: number;
   order_quantity: number;
+  unit_cost?: number | null;
+  received_quantity?: number;
 }
 
 interface Order {
   id: string;
   order_number: string;
-  status: string;
+  status: SupplierOrderStatus;
+  supplier: string | null;
+  expected_date: string | null;
+  sent_at: string | null;
+  closed_at: string | null;
+  closed_reason: string | null;
   notes: string;
   total_items: number;
   created_at: string;
@@ -39,18 +48,47 @@ interface Order {
   };
 }
 
+// An invoice line received against an order line
+interface OrderReceipt {
+  id: string;
+  supplier_order_item_id: string;
+  quantity: number;
+  cost_price: number;
+  batch_number: string;
+  invoices: {
+    invoice_number: string;
+    invoice_date: string;
+  } | null;
+}
+
+const STATUS_STYLES: Record<SupplierOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-yellow-100 text-yellow-800',
+  received: 'bg-green-100 text-green-800',
+  closed: 'bg-red-100 text-red-800',
+};
+
+const getOutstanding = (item: OrderItem) => Math.max(0, item.order_quantity - (item.received_quantity || 0));
+
 export default function Orders() {
   const { user } = useAuth();
+  const { products, productMasters, addProductMaster, getSupplierByName, isSupabaseEnabled } = useApp();
   const { showAlert } = useAlert();
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showSuggestions, setShowSuggestions] = useState(false);
   const [editingOrder, setEditingOrder] = useState<Order | null>(null);
   const [orderItems, setOrderItems] = useState<OrderItem[]>([]);
   const [notes, setNotes] = useState('');
+  const [supplier, setSupplier] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+  const [closeDialog, setCloseDialog] = useState<{ order: Order | null; reason: string }>({ order: null, reason: '' });
+  const [viewingOrder, setViewingOrder] = useState<{ order: Order; items: OrderItem[]; receipts: OrderReceipt[] } | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
-  const [allProducts, setAllProducts] = useState<Product[]>([]);
+  const [expandedItem, setExpandedItem] = useState<string | null>(null);
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
   const [searchProduct, setSearchProduct] = useState('');
   const [showAddProductModal, setShowAddProductModal] = useState(false);
@@ -101,19 +139,8 @@ export default function Orders() {
     }
   }, [showAlert]);
 
-  const fetchProducts = useCallback(async () => {
-    try {
-      const { data, error } = await supabase
-        .from('products')
-        .select('id, name, current_stock, min_stock_level')
-        .order('name');
-
-      if (error) throw error;
-      setAllProducts(data || []);
-    } catch (error: any) {
-      showAlert({ title: 'Error', message: error.message, type: 'error' });
-    }
-  }, [showAlert]);
+  // Orders are per medicine; stock is the in-date total across its batches
+  const medicines = useMemo(() => summariseMedicineStock(productMasters, products), [productMasters, products]);
 
   usePageRefresh('orders', {
     refreshOnMount: true,
@@ -122,43 +149,31 @@ export default function Orders() {
 
   useEffect(() => {
     fetchOrders();
-    fetchProducts();
-  }, [fetchOrders, fetchProducts]);
+  }, [fetchOrders]);
 
   useAutoRefresh('orders', fetchOrders);
 
-  const loadLowStockItems = async () => {
-    try {
-      await fetchProducts();
-
-      const { data, error } = await supabase
-        .from('products')
-        .select('id, name, current_stock, min_stock_level')
-        .order('name');
-
-      if (error) throw error;
-
-      const products = data || [];
-      const lowStock = products.filter(p => p.current_stock <= p.min_stock_level);
-      const items: OrderItem[] = lowStock.map(product => ({
-        product_id: product.id,
-        product_name: product.name,
-        current_quantity: product.current_stock,
-        order_quantity: Math.max(1, product.min_stock_level * 2 - product.current_stock)
-      }));
-      setOrderItems(items);
-    } catch (error: any) {
-      showAlert({ title: 'Error', message: error.message, type: 'error' });
-    }
+  const loadLowStockItems = () => {
+    const items: OrderItem[] = medicines.filter(isLowStock).map(medicine => ({
+      product_master_id: medicine.master.id,
+      product_name: medicine.master.name,
+      current_quantity: medicine.sellableStock,
+      order_quantity: Math.max(1, medicine.master.minStockLevel * 2 - medicine.sellableStock),
+      unit_cost: getLastCost(medicine)
+    }));
+    setOrderItems(items);
   };
 
-  const handleCreateOrder = async () => {
+  const handleCreateOrder = () => {
     setEditingOrder(null);
     setOrderItems([]);
     setNotes('');
+    setSupplier('');
+    setExpectedDate('');
     setSearchProduct('');
+    setExpandedItem(null);
     setShowCreateModal(true);
-    await loadLowStockItems();
+    loadLowStockItems();
   };
 
   const handleEditOrder = async (order: Order) => {
@@ -172,40 +187,53 @@ export default function Orders() {
 
       setEditingOrder(order);
       setOrderItems(data || []);
+      setExpandedItem(null);
       setNotes(order.notes || '');
+      setSupplier(order.supplier || '');
+      setExpectedDate(order.expected_date || '');
       setShowCreateModal(true);
     } catch (error: any) {
       showAlert({ title: 'Error', message: error.message, type: 'error' });
     }
   };
 
-  const handleAddItem = (product: Product) => {
-    if (orderItems.some(item => item.product_id === product.id)) {
+  const handleAddItem = (medicine: MedicineStock) => {
+    if (orderItems.some(item => item.product_master_id === medicine.master.id)) {
       showAlert({ title: 'Warning', message: 'Item already added to order', type: 'warning' });
       return;
     }
 
     setOrderItems([{
-      product_id: product.id,
-      product_name: product.name,
-      current_quantity: product.current_stock,
-      order_quantity: product.min_stock_level
+      product_master_id: medicine.master.id,
+      product_name: medicine.master.name,
+      current_quantity: medicine.sellableStock,
+      order_quantity: medicine.master.minStockLevel,
+      unit_cost: getLastCost(medicine)
     }, ...orderItems]);
     setSearchProduct('');
   };
 
-  const handleRemoveItem = (productId: string) => {
-    setOrderItems(orderItems.filter(item => item.product_id !== productId));
+  const handleRemoveItem = (masterId: string) => {
+    setOrderItems(orderItems.filter(item => item.product_master_id !== masterId));
   };
 
-  const handleUpdateQuantity = (productId: string, quantity: number) => {
+  const handleUpdateQuantity = (masterId: string, quantity: number) => {
     setOrderItems(orderItems.map(item =>
-      item.product_id === productId
+      item.product_master_id === masterId
         ? { ...item, order_quantity: Math.max(1, quantity) }
         : item
     ));
   };
 
+  const handleUpdateUnitCost = (masterId: string, value: string) => {
+    const unitCost = parseFloat(value);
+    setOrderItems(orderItems.map(item =>
+      item.product_master_id === masterId
+        ? { ...item, unit_cost: isNaN(unitCost) ? null : Math.max(0, unitCost) }
+        : item
+    ));
+  };
+
   const handleQuantityKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, currentIndex: number) => {
     if (e.key === 'Enter') {
       e.preventDefault();
@@ -234,37 +262,23 @@ export default function Orders() {
     }
 
     try {
-      const futureDate = new Date();
-      futureDate.setFullYear(futureDate.getFullYear() + 2);
-
-      const { data, error } = await supabase
-        .from('products')
-        .insert({
-          name: newProduct.name.trim(),
-          current_stock: 0,
-          min_stock_level: parseInt(newProduct.min_stock_level) || 10,
-          category: 'General',
-          supplier: 'To Be Determined',
-          batch_number: 'TBD',
-          expiry_date: futureDate.toISOString().split('T')[0],
-          barcode: `TBD-${Date.now()}`,
-          cost_price: 0,
-          selling_price: 0
-        })
-        .select()
-        .single();
-
-      if (error) throw error;
+      const master = await addProductMaster({
+        name: newProduct.name,
+        category: 'General',
+        minStockLevel: parseInt(newProduct.min_stock_level) || 10,
+        drugSchedule: 'otc',
+        packSize: 1,
+      });
 
       const newOrderItem: OrderItem = {
-        product_id: data.id,
-        product_name: data.name,
+        product_master_id: master.id,
+        product_name: master.name,
         current_quantity: 0,
-        order_quantity: parseInt(newProduct.min_stock_level) || 10
+        order_quantity: master.minStockLevel,
+        unit_cost: null
       };
 
       setOrderItems([newOrderItem, ...orderItems]);
-      await fetchProducts();
       setShowAddProductModal(false);
       setSearchProduct('');
       setNewProduct({ name: '', min_stock_level: '10' });
@@ -274,17 +288,52 @@ export default function Orders() {
     }
   };
 
+  // A new order is expected after the supplier's lead time unless a date is set
+  const handleSupplierChange = (value: string) => {
+    setSupplier(value);
+    const leadTimeDays = getSupplierByName(value)?.leadTimeDays;
+    if (!expectedDate && leadTimeDays !== undefined) {
+      const date = new Date();
+      date.setDate(date.getDate() + leadTimeDays);
+      setExpectedDate(date.toLocaleDateString('en-CA'));
+    }
+  };
+
   const handleSaveOrder = async () => {
     if (orderItems.length === 0) {
       showAlert({ title: 'Error', message: 'Please add at least one item to the order', type: 'error' });
       return;
     }
 
+    if (!supplier.trim()) {
+      showAlert({ title: 'Error', message: 'Please select the supplier the order is for', type: 'error' });
+      return;
+    }
+
+    const supplierRecord = getSupplierByName(supplier);
+    if (isSupabaseEnabled && !supplierRecord) {
+      showAlert({ title: 'Error', message: `"${supplier.trim()}" is not a known supplier. Pick one from the list or add it.`, type: 'warning' });
+      return;
+    }
+
+    const orderLines = (orderId: string) => orderItems.map(item => ({
+      order_id: orderId,
+      product_master_id: item.product_master_id,
+      product_id: item.product_id || null,
+      product_name: item.product_name,
+      current_quantity: item.current_quantity,
+      order_quantity: item.order_quantity,
+      unit_cost: item.unit_cost ?? null
+    }));
+
     try {
       if (editingOrder) {
         const { error: updateError } = await supabase
           .from('supplier_orders')
           .update({
+            supplier: supplierRecord?.name || supplier.trim(),
+            supplier_id: supplierRecord?.id || null,
+            expected_date: expectedDate || null,
             notes,
             total_items: orderItems.reduce((sum, item) => sum + item.order_quantity, 0)
           })
@@ -301,13 +350,7 @@ export default function Orders() {
 
         const { error: insertError } = await supabase
           .from('supplier_order_items')
-          .insert(orderItems.map(item => ({
-            order_id: editingOrder.id,
-            product_id: item.product_id,
-            product_name: item.product_name,
-            current_quantity: item.current_quantity,
-            order_quantity: item.order_quantity
-          })));
+          .insert(orderLines(editingOrder.id));
 
         if (insertError) throw insertError;
 
@@ -325,6 +368,9 @@ export default function Orders() {
           .insert({
             order_number: orderNumber,
             created_by: user?.user_id,
+            supplier: supplierRecord?.name || supplier.trim(),
+            supplier_id: supplierRecord?.id || null,
+            expected_date: expectedDate || null,
             notes,
             total_items: orderItems.reduce((sum, item) => sum + item.order_quantity, 0)
           })
@@ -335,13 +381,7 @@ export default function Orders() {
 
         const { error: itemsError } = await supabase
           .from('supplier_order_items')
-          .insert(orderItems.map(item => ({
-            order_id: orderData.id,
-            product_id: item.product_id,
-            product_name: item.product_name,
-            current_quantity: item.current_quantity,
-            order_quantity: item.order_quantity
-          })));
+          .insert(orderLines(orderData.id));
 
         if (itemsError) throw itemsError;
 
@@ -421,6 +461,9 @@ export default function Orders() {
     }
   };
 
+  const getOrderValue = (items: OrderItem[]) =>
+    items.reduce((sum, item) => sum + (item.unit_cost || 0) * item.order_quantity, 0);
+
   const generatePDF = (order: Order, items: OrderItem[]) => {
     const doc = new jsPDF();
 
@@ -450,19 +493,31 @@ export default function Orders() {
     doc.setFont('helvetica', 'bold');
     doc.text('Status:', 15, 56);
     doc.setFont('helvetica', 'normal');
-    doc.text(order.status.toUpperCase(), 55, 56);
+    doc.text(SUPPLIER_ORDER_STATUS_LABELS[order.status].toUpperCase(), 55, 56);
 
-    doc.line(15, 60, 195, 60);
+    doc.setFont('helvetica', 'bold');
+    doc.text('Supplier:', 15, 63);
+    doc.setFont('helvetica', 'normal');
+    doc.text(order.supplier || '-', 55, 63);
+
+    doc.setFont('helvetica', 'bold');
+    doc.text('Expected By:', 15, 70);
+    doc.setFont('helvetica', 'normal');
+    doc.text(order.expected_date ? new Date(order.expected_date).toLocaleDateString() : '-', 55, 70);
+
+    doc.line(15, 74, 195, 74);
 
     const tableData = items.map((item, index) => [
       (index + 1).toString(),
       item.product_name,
-      item.order_quantity.toString()
+      item.order_quantity.toString(),
+      item.unit_cost != null ? formatKES(item.unit_cost) : '-',
+      item.unit_cost != null ? formatKES(item.unit_cost * item.order_quantity) : '-'
     ]);
 
     autoTable(doc, {
-      startY: 68,
-      head: [['#', 'Product Name', 'Order Quantity']],
+      startY: 82,
+      head: [['#', 'Product Name', 'Quantity', 'Unit Cost', 'Line Total']],
       body: tableData,
       theme: 'grid',
       headStyles: {
@@ -476,8 +531,10 @@ export default function Orders() {
       },
       columnStyles: {
         0: { cellWidth: 15, halign: 'center' },
-        1: { cellWidth: 130 },
-        2: { cellWidth: 40, halign: 'center' }
+        1: { cellWidth: 80 },
+        2: { cellWidth: 25, halign: 'center' },
+        3: { cellWidth: 30, halign: 'right' },
+        4: { cellWidth: 30, halign: 'right' }
       },
       margin: { left: 15, right: 15 },
       didDrawPage: (data) => {
@@ -489,7 +546,7 @@ export default function Orders() {
       }
     });
 
-    const finalY = (doc as any).lastAutoTable.finalY || 68;
+    const finalY = (doc as any).lastAutoTable.finalY || 82;
 
     doc.setDrawColor(200);
     doc.line(15, finalY + 5, 195, finalY + 5);
@@ -497,53 +554,129 @@ export default function Orders() {
     doc.setFontSize(12);
     doc.setFont('helvetica', 'bold');
     doc.text(`Total Items to Order: ${items.reduce((sum, item) => sum + item.order_quantity, 0)}`, 15, finalY + 13);
+    doc.text(`Expected Value: ${formatKES(getOrderValue(items))}`, 15, finalY + 20);
 
     if (order.notes) {
       doc.setFont('helvetica', 'bold');
-      doc.text('Notes:', 15, finalY + 23);
+      doc.text('Notes:', 15, finalY + 30);
       doc.setFont('helvetica', 'normal');
       doc.setFontSize(10);
       const splitNotes = doc.splitTextToSize(order.notes, 180);
-      doc.text(splitNotes, 15, finalY + 30);
+      doc.text(splitNotes, 15, finalY + 37);
     }
 
     return doc;
   };
 
-  const revertOrderStatus = async (order: Order) => {
+  const markAsSent = async (order: Order) => {
     try {
       const { error } = await supabase
         .from('supplier_orders')
-        .update({ status: 'pending' })
+        .update({ status: 'sent', sent_at: new Date().toISOString() })
         .eq('id', order.id);
 
       if (error) throw error;
 
-      showAlert({ title: 'Success', message: `Order ${order.order_number} reverted to pending status`, type: 'success' });
+      showAlert({ title: 'Success', message: `Order ${order.order_number} marked as sent to ${order.supplier || 'the supplier'}`, type: 'success' });
+      fetchOrders();
+    } catch (error: any) {
+      showAlert({ title: 'Error', message: error.message || 'Failed to mark order as sent', type: 'error' });
+    }
+  };
+
+  const handleCloseOrder = async () => {
+    if (!closeDialog.order) return;
+
+    try {
+      const { error } = await supabase
+        .from('supplier_orders')
+        .update({
+          status: 'closed',
+          closed_at: new Date().toISOString(),
+          closed_reason: closeDialog.reason.trim() || null
+        })
+        .eq('id', closeDialog.order.id);
+
+      if (error) throw error;
+
+      showAlert({ title: 'Success', message: `Order ${closeDialog.order.order_number} closed`, type: 'success' });
+      setCloseDialog({ order: null, reason: '' });
       fetchOrders();
     } catch (error: any) {
-      showAlert({ title: 'Error', message: error.message || 'Failed to revert order status', type: 'error' });
+      showAlert({ title: 'Error', message: error.message || 'Failed to close order', type: 'error' });
     }
   };
 
-  const markAsCompleted = async (order: Order) => {
+  // A reopened order goes back to draft if it was never sent; otherwise its
+  // status is worked out again from what has been received
+  const reopenOrder = async (order: Order) => {
     try {
       const { error } = await supabase
         .from('supplier_orders')
-        .update({ status: 'completed' })
+        .update({
+          status: order.sent_at ? 'sent' : 'draft',
+          closed_at: null,
+          closed_reason: null
+        })
         .eq('id', order.id);
 
       if (error) throw error;
 
-      showAlert({ title: 'Success', message: `Order ${order.order_number} marked as completed`, type: 'success' });
+      if (order.sent_at) {
+        const { error: refreshError } = await supabase
+          .rpc('refresh_supplier_order_receipts', { p_order_id: order.id });
+
+        if (refreshError) throw refreshError;
+      }
+
+      showAlert({ title: 'Success', message: `Order ${order.order_number} reopened`, type: 'success' });
       fetchOrders();
     } catch (error: any) {
-      showAlert({ title: 'Error', message: error.message || 'Failed to mark order as completed', type: 'error' });
+      showAlert({ title: 'Error', message: error.message || 'Failed to reopen order', type: 'error' });
+    }
+  };
+
+  const viewOrderDetails = async (order: Order) => {
+    try {
+      const { data: items, error } = await supabase
+        .from('supplier_order_items')
+        .select('*')
+        .eq('order_id', order.id);
+
+      if (error) throw error;
+
+      const itemIds = (items || []).map(item => item.id);
+      let receipts: OrderReceipt[] = [];
+
+      if (itemIds.length > 0) {
+        const { data: receiptData, error: receiptError } = await supabase
+          .from('invoice_items')
+          .select(`
+            id,
+            supplier_order_item_id,
+            quantity,
+            cost_price,
+            batch_number,
+            invoices (
+              invoice_number,
+              invoice_date
+            )
+          `)
+          .in('supplier_order_item_id', itemIds);
+
+        if (receiptError) throw receiptError;
+        receipts = (receiptData || []) as unknown as OrderReceipt[];
+      }
+
+      setViewingOrder({ order, items: items || [], receipts });
+    } catch (error: any) {
+      showAlert({ title: 'Error', message: error.message, type: 'error' });
     }
   };
 
   const filteredOrders = orders.filter(order => {
     const matchesSearch = order.order_number.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      order.supplier?.toLowerCase().includes(searchTerm.toLowerCase()) ||
       order.user_profiles?.name.toLowerCase().includes(searchTerm.toLowerCase());
     const matchesStatus = statusFilter === 'all' || order.status === statusFilter;
     return matchesSearch && matchesStatus;
@@ -566,8 +699,8 @@ export default function Orders() {
     itemsPerPage
   } = usePagination({ items: sortedOrders, itemsPerPage: 15 });
 
-  const filteredProducts = allProducts.filter(product =>
-    product.name.toLowerCase().includes(searchProduct.toLowerCase())
+  const filteredMedicines = medicines.filter(medicine =>
+    medicine.master.name.toLowerCase().includes(searchProduct.toLowerCase())
   );
 
   const isAdmin = user?.role === 'admin' || user?.role === 'super_admin';
@@ -576,13 +709,22 @@ export default function Orders() {
     <div className="space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-2xl font-bold text-gray-900">Supplier Orders</h2>
-        <button
-          onClick={handleCreateOrder}
-          className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
-        >
-          <Plus className="w-5 h-5" />
-          Create Order
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => setShowSuggestions(true)}
+            className="bg-white text-blue-700 border border-blue-600 px-4 py-2 rounded-lg hover:bg-blue-50 flex items-center gap-2"
+          >
+            <TrendingUp className="w-5 h-5" />
+            Reorder Suggestions
+          </button>
+          <button
+            onClick={handleCreateOrder}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700 flex items-center gap-2"
+          >
+            <Plus className="w-5 h-5" />
+            Create Order
+          </button>
+        </div>
       </div>
 
       <div className="bg-white rounded-lg shadow-md p-6">
@@ -605,10 +747,9 @@ export default function Orders() {
               className="pl-10 pr-8 py-2 border border-gray-300 rounded-lg appearance-none bg-white"
             >
               <option value="all">All Status</option>
-              <option value="pending">Pending</option>
-              <option value="approved">Approved</option>
-              <option value="completed">Completed</option>
-              <option value="cancelled">Cancelled</option>
+              {(Object.keys(SUPPLIER_ORDER_STATUS_LABELS) as SupplierOrderStatus[]).map(status => (
+                <option key={status} value={status}>{SUPPLIER_ORDER_STATUS_LABELS[status]}</option>
+              ))}
             </select>
           </div>
         </div>
@@ -640,6 +781,7 @@ export default function Orders() {
                       )}
                     </div>
                   </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Supplier</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Created By</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase">Total Items</th>
@@ -655,17 +797,15 @@ export default function Orders() {
                     <td className="px-6 py-4 whitespace-nowrap text-gray-600">
                       {new Date(order.created_at).toLocaleDateString()}
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-gray-600">
+                      {order.supplier || '-'}
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-gray-600">
                       {order.user_profiles?.name}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`px-2 py-1 text-xs rounded-full ${
-                        order.status === 'pending' ? 'bg-yellow-100 text-yellow-800' :
-                        order.status === 'approved' ? 'bg-blue-100 text-blue-800' :
-                        order.status === 'completed' ? 'bg-green-100 text-green-800' :
-                        'bg-red-100 text-red-800'
-                      }`}>
-                        {order.status}
+                      <span className={`px-2 py-1 text-xs rounded-full ${STATUS_STYLES[order.status]}`}>
+                        {SUPPLIER_ORDER_STATUS_LABELS[order.status]}
                       </span>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-gray-600">
@@ -673,7 +813,19 @@ export default function Orders() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
                       <div className="flex gap-2">
-                        {order.status !== 'completed' && (
+                        <button
+                          onClick={(e) => {
+                            e.preventDefault();
+                            e.stopPropagation();
+                            viewOrderDetails(order);
+                          }}
+                          className="text-gray-600 hover:text-gray-800 transition-colors p-1"
+                          title="View Receipts"
+                          type="button"
+                        >
+                          <Eye className="w-5 h-5" />
+                        </button>
+                        {order.status === 'draft' && (
                           <button
                             onClick={(e) => {
                               e.preventDefault();
@@ -699,29 +851,43 @@ export default function Orders() {
                         >
                           <Download className="w-5 h-5" />
                         </button>
-                        {order.status !== 'completed' && (
+                        {order.status === 'draft' && (
                           <button
                             onClick={(e) => {
                               e.preventDefault();
                               e.stopPropagation();
-                              markAsCompleted(order);
+                              markAsSent(order);
                             }}
                             className="text-emerald-600 hover:text-emerald-800 transition-colors p-1"
-                            title="Mark as Completed"
+                            title="Mark as Sent"
+                            type="button"
+                          >
+                            <Send className="w-5 h-5" />
+                          </button>
+                        )}
+                        {order.status !== 'draft' && order.status !== 'closed' && (
+                          <button
+                            onClick={(e) => {
+                              e.preventDefault();
+                              e.stopPropagation();
+                              setCloseDialog({ order, reason: '' });
+                            }}
+                            className="text-gray-600 hover:text-gray-800 transition-colors p-1"
+                            title="Close Order"
                             type="button"
                           >
-                            <CheckCircle className="w-5 h-5" />
+                            <Lock className="w-5 h-5" />
                           </button>
                         )}
-                        {order.status === 'completed' && (
+                        {order.status === 'closed' && (
                           <button
                             onClick={(e) => {
                               e.preventDefault();
                               e.stopPropagation();
-                              revertOrderStatus(order);
+                              reopenOrder(order);
                             }}
                             className="text-orange-600 hover:text-orange-800 transition-colors p-1"
-                            title="Revert to Pending"
+                            title="Reopen Order"
                             type="button"
                           >
                             <RotateCcw className="w-5 h-5" />
@@ -775,6 +941,25 @@ export default function Orders() {
             </div>
 
             <div className="p-6 space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <SupplierPicker
+                  value={supplier}
+                  onChange={handleSupplierChange}
+                  required
+                />
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Expected Delivery Date
+                  </label>
+                  <input
+                    type="date"
+                    value={expectedDate}
+                    onChange={(e) => setExpectedDate(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  />
+                </div>
+              </div>
+
               <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
                 <label className="block text-sm font-semibold text-blue-900 mb-2">
                   Search & Add Products to Order
@@ -796,20 +981,20 @@ export default function Orders() {
                 </div>
                 {searchProduct && (
                   <div className="mt-2 border border-gray-300 rounded-lg max-h-48 overflow-y-auto bg-white shadow-md">
-                    {filteredProducts.length > 0 ? (
-                      filteredProducts.slice(0, 10).map(product => (
+                    {filteredMedicines.length > 0 ? (
+                      filteredMedicines.slice(0, 10).map(medicine => (
                         <button
-                          key={product.id}
-                          onClick={() => handleAddItem(product)}
+                          key={medicine.master.id}
+                          onClick={() => handleAddItem(medicine)}
                           className="w-full px-4 py-2.5 text-left hover:bg-blue-50 flex justify-between items-center border-b last:border-b-0"
                         >
-                          <span className="font-medium">{product.name}</span>
+                          <span className="font-medium">{medicine.master.name}</span>
                           <span className={`text-sm px-2 py-1 rounded ${
-                            product.current_stock <= product.min_stock_level
+                            isLowStock(medicine)
                               ? 'bg-red-100 text-red-700'
                               : 'bg-green-100 text-green-700'
                           }`}>
-                            Stock: {product.current_stock}
+                            Stock: {medicine.sellableStock}
                           </span>
                         </button>
                       ))
@@ -842,45 +1027,87 @@ export default function Orders() {
                           <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
                           <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Current Stock</th>
                           <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Order Quantity</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Unit Cost</th>
+                          <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Line Total</th>
                           <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Actions</th>
                         </tr>
                       </thead>
                       <tbody className="divide-y divide-gray-200">
                         {orderItems.map((item, index) => (
-                          <tr key={item.product_id}>
-                            <td className="px-4 py-2">{item.product_name}</td>
-                            <td className="px-4 py-2">
-                              <span className={`px-2 py-1 rounded text-sm ${
-                                item.current_quantity <= 0
-                                  ? 'bg-red-100 text-red-700'
-                                  : 'bg-gray-100 text-gray-700'
-                              }`}>
-                                {item.current_quantity}
-                              </span>
-                            </td>
-                            <td className="px-4 py-2">
-                              <input
-                                type="number"
-                                value={item.order_quantity}
-                                onChange={(e) => handleUpdateQuantity(item.product_id, parseInt(e.target.value) || 0)}
-                                onKeyDown={(e) => handleQuantityKeyDown(e, index)}
-                                onFocus={(e) => e.target.select()}
-                                data-quantity-input
-                                className="w-24 px-2 py-1.5 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-                                min="1"
-                              />
-                            </td>
-                            <td className="px-4 py-2">
-                              <button
-                                onClick={() => handleRemoveItem(item.product_id)}
-                                className="text-red-600 hover:text-red-800"
-                                title="Remove item"
-                              >
-                                <Trash2 className="w-4 h-4" />
-                              </button>
-                            </td>
-                          </tr>
+                          <React.Fragment key={item.product_master_id}>
+                            <tr>
+                              <td className="px-4 py-2">
+                                <button
+                                  onClick={() => setExpandedItem(expandedItem === item.product_master_id ? null : item.product_master_id)}
+                                  className="flex items-center text-left"
+                                  title="Show batches"
+                                >
+                                  {expandedItem === item.product_master_id
+                                    ? <ChevronDown className="w-4 h-4 mr-1 text-gray-500" />
+                                    : <ChevronRight className="w-4 h-4 mr-1 text-gray-500" />}
+                                  {item.product_name}
+                                </button>
+                              </td>
+                              <td className="px-4 py-2">
+                                <span className={`px-2 py-1 rounded text-sm ${
+                                  item.current_quantity <= 0
+                                    ? 'bg-red-100 text-red-700'
+                                    : 'bg-gray-100 text-gray-700'
+                                }`}>
+                                  {item.current_quantity}
+                                </span>
+                              </td>
+                              <td className="px-4 py-2">
+                                <input
+                                  type="number"
+                                  value={item.order_quantity}
+                                  onChange={(e) => handleUpdateQuantity(item.product_master_id, parseInt(e.target.value) || 0)}
+                                  onKeyDown={(e) => handleQuantityKeyDown(e, index)}
+                                  onFocus={(e) => e.target.select()}
+                                  data-quantity-input
+                                  className="w-24 px-2 py-1.5 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                  min="1"
+                                />
+                              </td>
+                              <td className="px-4 py-2">
+                                <input
+                                  type="number"
+                                  step="0.01"
+                                  value={item.unit_cost ?? ''}
+                                  onChange={(e) => handleUpdateUnitCost(item.product_master_id, e.target.value)}
+                                  onFocus={(e) => e.target.select()}
+                                  className="w-28 px-2 py-1.5 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                                  min="0"
+                                  placeholder="KES"
+                                />
+                              </td>
+                              <td className="px-4 py-2 text-sm text-gray-700">
+                                {item.unit_cost != null ? formatKES(item.unit_cost * item.order_quantity) : '-'}
+                              </td>
+                              <td className="px-4 py-2">
+                                <button
+                                  onClick={() => handleRemoveItem(item.product_master_id)}
+                                  className="text-red-600 hover:text-red-800"
+                                  title="Remove item"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              </td>
+                            </tr>
+                            {expandedItem === item.product_master_id && (
+                              <tr>
+                                <td colSpan={6} className="px-10 py-2 bg-gray-50">
+                                  <BatchBreakdown batches={medicines.find(medicine => medicine.master.id === item.product_master_id)?.batches || []} />
+                                </td>
+                              </tr>
+                            )}
+                          </React.Fragment>
                         ))}
+                        <tr className="bg-gray-50 font-semibold">
+                          <td colSpan={4} className="px-4 py-2 text-right">Expected Value:</td>
+                          <td className="px-4 py-2">{formatKES(getOrderValue(orderItems))}</td>
+                          <td></td>
+                        </tr>
                       </tbody>
                     </table>
                   </div>
@@ -990,6 +1217,165 @@ export default function Orders() {
         </div>
       )}
 
+      {viewingOrder && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-5xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b border-gray-200 flex justify-between items-center sticky top-0 bg-white">
+              <div>
+                <h3 className="text-xl font-semibold">Order {viewingOrder.order.order_number}</h3>
+                <p className="text-sm text-gray-600">
+                  {viewingOrder.order.supplier || 'No supplier'}
+                  {viewingOrder.order.expected_date && ` · expected ${new Date(viewingOrder.order.expected_date).toLocaleDateString()}`}
+                </p>
+              </div>
+              <div className="flex items-center gap-4">
+                <span className={`px-2 py-1 text-xs rounded-full ${STATUS_STYLES[viewingOrder.order.status]}`}>
+                  {SUPPLIER_ORDER_STATUS_LABELS[viewingOrder.order.status]}
+                </span>
+                <button
+                  onClick={() => setViewingOrder(null)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <X className="w-6 h-6" />
+                </button>
+              </div>
+            </div>
+
+            <div className="p-6 space-y-6">
+              {viewingOrder.order.closed_reason && (
+                <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+                  Closed: {viewingOrder.order.closed_reason}
+                </div>
+              )}
+
+              <div className="border border-gray-300 rounded-lg overflow-hidden">
+                <table className="w-full">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Ordered</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Received</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Outstanding</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Expected Cost</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Price Variance</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {viewingOrder.items.map(item => {
+                      const receipts = viewingOrder.receipts.filter(receipt => receipt.supplier_order_item_id === item.id);
+                      // Paid above (positive) or below the expected cost on what was invoiced
+                      const unitCost = item.unit_cost;
+                      const variance = unitCost != null
+                        ? receipts.reduce((sum, receipt) => sum + (Number(receipt.cost_price) - Number(unitCost)) * receipt.quantity, 0)
+                        : null;
+                      const outstanding = getOutstanding(item);
+
+                      return (
+                        <React.Fragment key={item.id}>
+                          <tr>
+                            <td className="px-4 py-2 font-medium">{item.product_name}</td>
+                            <td className="px-4 py-2">{item.order_quantity}</td>
+                            <td className="px-4 py-2">{item.received_quantity || 0}</td>
+                            <td className="px-4 py-2">
+                              <span className={`px-2 py-1 rounded text-sm ${
+                                outstanding > 0 ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'
+                              }`}>
+                                {outstanding}
+                              </span>
+                            </td>
+                            <td className="px-4 py-2">{item.unit_cost != null ? formatKES(item.unit_cost) : '-'}</td>
+                            <td className={`px-4 py-2 font-medium ${
+                              variance == null || variance === 0 ? 'text-gray-600' : variance > 0 ? 'text-red-600' : 'text-green-600'
+                            }`}>
+                              {variance == null || receipts.length === 0 ? '-' : `${variance > 0 ? '+' : ''}${formatKES(variance)}`}
+                            </td>
+                          </tr>
+                          {receipts.map(receipt => (
+                            <tr key={receipt.id} className="bg-gray-50 text-sm text-gray-600">
+                              <td className="pl-10 pr-4 py-1" colSpan={2}>
+                                Invoice {receipt.invoices?.invoice_number || '-'}
+                                {receipt.invoices?.invoice_date && ` · ${new Date(receipt.invoices.invoice_date).toLocaleDateString()}`}
+                                {receipt.batch_number && ` · batch ${receipt.batch_number}`}
+                              </td>
+                              <td className="px-4 py-1">{receipt.quantity}</td>
+                              <td></td>
+                              <td className="px-4 py-1">{formatKES(receipt.cost_price)}</td>
+                              <td></td>
+                            </tr>
+                          ))}
+                        </React.Fragment>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Received quantities are net of invoice reversals. Price variance compares the cost on each invoice with the expected unit cost.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {showSuggestions && (
+        <ReorderSuggestions
+          onClose={() => setShowSuggestions(false)}
+          onCreated={fetchOrders}
+        />
+      )}
+
+      {closeDialog.order && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-md w-full p-6">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-xl font-semibold">Close Order {closeDialog.order.order_number}</h3>
+              <button
+                onClick={() => setCloseDialog({ order: null, reason: '' })}
+                className="text-gray-400 hover:text-gray-600"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                {closeDialog.order.status === 'received'
+                  ? 'Everything on this order has been received.'
+                  : 'Quantities still outstanding on this order will no longer be expected from the supplier.'}
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Reason (Optional)
+                </label>
+                <textarea
+                  value={closeDialog.reason}
+                  onChange={(e) => setCloseDialog({ ...closeDialog, reason: e.target.value })}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg"
+                  rows={3}
+                  placeholder="e.g. Supplier out of stock"
+                />
+              </div>
+
+              <div className="flex gap-4 pt-2">
+                <button
+                  onClick={handleCloseOrder}
+                  className="flex-1 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 font-medium"
+                >
+                  Close Order
+                </button>
+                <button
+                  onClick={() => setCloseDialog({ order: null, reason: '' })}
+                  className="flex-1 bg-gray-300 text-gray-700 py-2 rounded-lg hover:bg-gray-400"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       <AlertDialog
         isOpen={deleteDialog.isOpen}
         title="Confirm Deletion"
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   ShoppingCart,
   Scan,
@@ -12,31 +12,70 @@ import {
   Shield,
   History,
   Check,
-  Edit
+  Edit,
+  RotateCcw,
+  PauseCircle,
+  PlayCircle,
+  FileText,
+  Gift,
+  Tag,
+  Printer,
+  Clock,
+  Layers,
+  X
 } from 'lucide-react';
 import { useApp } from '../contexts/AppContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useAlert } from '../contexts/AlertContext';
-import { Product, SaleItem } from '../types';
-import { formatKES, getMinimumSellingPrice, validateSellingPrice, enforceMinimumSellingPrice } from '../utils/currency';
+import { Product, Sale, SaleItem, SalePayment, PaymentMethod, HeldSale, Customer, Prescription, Insurer, InsuranceScheme, SaleInsurance, LoyaltyRules, Promotion, ReceiptTemplate, CashierShift, PAYMENT_METHOD_LABELS, KRA_PIN_PATTERN } from '../types';
+import { formatKES, getMinimumSellingPrice, validateSellingPrice, enforceMinimumSellingPrice, calculateCopay } from '../utils/currency';
 import { getErrorMessage } from '../utils/errorMessages';
+import { applyPromotions, getDiscountedItems } from '../utils/promotions';
+import { allocateBatches, allocateSaleItems, getMedicineKey, groupSellableBatches, summariseMedicineStock, findMedicineByBarcode } from '../utils/batches';
 import { retryDatabaseOperation } from '../utils/retry';
+import { beep } from '../utils/beep';
 import { usePageRefresh } from '../hooks/usePageRefresh';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
 import { useDataRefresh } from '../contexts/DataRefreshContext';
+import { supabase } from '../lib/supabase';
+import { getBranchCode } from '../config/environment';
+import { normalizePhoneNumber } from '../utils/phone';
+import SaleReturnModal from './SaleReturnModal';
+import HeldSalesModal from './HeldSalesModal';
+import CustomerPicker from './CustomerPicker';
+import LinkBarcodeModal from './LinkBarcodeModal';
+import BatchBreakdown from './BatchBreakdown';
+import ShiftModal from './ShiftModal';
+import CardPaymentModal from './CardPaymentModal';
+import { getPaymentTerminal, PaymentTerminal } from '../lib/paymentTerminal';
 
 const POS: React.FC = () => {
-  const { products, addSale, getLastSoldPrice } = useApp();
+  const { products, productMasters, addSale, getLastSoldPrice, logActivity, isOnline, searchCustomers, getCustomer, getLoyaltyRules, getLoyaltyBalance, getPromotions, getReceiptTemplate, generateReceipt, openCashDrawer, getCurrentShift, openShift, queryStkPush } = useApp();
   const { user } = useAuth();
   const { showAlert } = useAlert();
   const { triggerRefresh } = useDataRefresh();
   usePageRefresh('pos', { refreshOnMount: true, staleTime: 30000 });
   const [cart, setCart] = useState<SaleItem[]>([]);
   const [searchTerm, setSearchTerm] = useState('');
-  const [paymentMethod, setPaymentMethod] = useState<'cash' | 'mpesa' | 'card' | 'insurance'>('mpesa');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('mpesa');
+  const [tenders, setTenders] = useState<SalePayment[]>([]);
+  const [tenderAmount, setTenderAmount] = useState('');
+  const [tenderReference, setTenderReference] = useState('');
+  const [mpesaAmount, setMpesaAmount] = useState(0);
+  const [showReturnModal, setShowReturnModal] = useState(false);
+  const [showHeldSales, setShowHeldSales] = useState(false);
+  const [showParkModal, setShowParkModal] = useState(false);
+  const [parkLabel, setParkLabel] = useState('');
+  const [isParking, setIsParking] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
   const [customerName, setCustomerName] = useState('');
+  const [buyerPin, setBuyerPin] = useState('');
+  const [customer, setCustomer] = useState<Customer | null>(null);
+  const [prescription, setPrescription] = useState<Prescription>({ prescriberName: '', prescriberLicence: '', patientName: '', reference: '' });
+  const [prescriptionImage, setPrescriptionImage] = useState<File | null>(null);
   const [mpesaPhone, setMpesaPhone] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
-  const [lastReceipt, setLastReceipt] = useState<string | null>(null);
+  const [lastSale, setLastSale] = useState<Sale | null>(null);
   const [showMpesaModal, setShowMpesaModal] = useState(false);
   const [checkoutRequestId, setCheckoutRequestId] = useState<string | null>(null);
   const [pollingInterval, setPollingInterval] = useState<NodeJS.Timeout | null>(null);
@@ -52,17 +91,135 @@ const POS: React.FC = () => {
   const [lastSoldPrices, setLastSoldPrices] = useState<Record<string, number | null>>({});
   const [mpesaTimeoutReached, setMpesaTimeoutReached] = useState(false);
   const [mpesaTimeoutId, setMpesaTimeoutId] = useState<NodeJS.Timeout | null>(null);
+  const [insurers, setInsurers] = useState<Insurer[]>([]);
+  const [insuranceSchemes, setInsuranceSchemes] = useState<InsuranceScheme[]>([]);
+  const [insurance, setInsurance] = useState<SaleInsurance>({ insurerId: '', memberNumber: '' });
+  const [loyaltyRules, setLoyaltyRules] = useState<LoyaltyRules | null>(null);
+  const [loyaltyBalance, setLoyaltyBalance] = useState<number | null>(null);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [discountCode, setDiscountCode] = useState('');
+  const [receiptTemplate, setReceiptTemplate] = useState<ReceiptTemplate | null>(null);
+  const [unknownBarcode, setUnknownBarcode] = useState<string | null>(null);
+  const [expandedMedicine, setExpandedMedicine] = useState<string | null>(null);
+  // undefined until loaded; stays unknown offline so the till keeps selling
+  const [currentShift, setCurrentShift] = useState<CashierShift | null | undefined>(undefined);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [isOpeningShift, setIsOpeningShift] = useState(false);
+  const [showShiftModal, setShowShiftModal] = useState(false);
+  // Card amount waiting on the payment terminal, when one is configured
+  const [cardPayment, setCardPayment] = useState<{ terminal: PaymentTerminal; amount: number } | null>(null);
 
-  const filteredProducts = products.filter(product => 
-    product.currentStock > 0 && (
+  useEffect(() => {
+    loadInsurers();
+    getLoyaltyRules()
+      .then(setLoyaltyRules)
+      .catch(error => console.error('Error loading loyalty rules:', error));
+    getPromotions()
+      .then(loaded => setPromotions(loaded.filter(promotion => promotion.isActive)))
+      .catch(error => console.error('Error loading promotions:', error));
+    getReceiptTemplate()
+      .then(setReceiptTemplate)
+      .catch(error => console.error('Error loading receipt template:', error));
+    getCurrentShift()
+      .then(setCurrentShift)
+      .catch(error => console.error('Error loading current shift:', error));
+  }, [getLoyaltyRules, getPromotions, getReceiptTemplate, getCurrentShift]);
+
+  const handleOpenShift = async () => {
+    const value = parseFloat(openingFloat);
+    if (openingFloat.trim() === '' || isNaN(value) || value < 0) {
+      showAlert({ title: 'Point of Sale', message: 'Count the opening float and enter the total', type: 'warning' });
+      return;
+    }
+
+    try {
+      setIsOpeningShift(true);
+      setCurrentShift(await openShift(value));
+      setOpeningFloat('');
+    } catch (error) {
+      showAlert({ title: 'Point of Sale', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setIsOpeningShift(false);
+    }
+  };
+
+  // Points belong to the selected customer, so a change of customer drops any
+  // redemption. Points cannot be redeemed offline either
+  const customerId = customer?.id;
+  useEffect(() => {
+    setLoyaltyBalance(null);
+    setTenders(prev => prev.filter(tender => tender.method !== 'loyalty'));
+    setPaymentMethod(prev => prev === 'loyalty' ? 'mpesa' : prev);
+
+    if (!customerId || !isOnline) return;
+
+    getLoyaltyBalance(customerId)
+      .then(setLoyaltyBalance)
+      .catch(error => console.error('Error loading loyalty balance:', error));
+  }, [customerId, isOnline, getLoyaltyBalance]);
+
+  const loadInsurers = async () => {
+    try {
+      const [insurersResult, schemesResult] = await Promise.all([
+        supabase.from('insurers').select('*').eq('is_active', true).order('name'),
+        supabase.from('insurance_schemes').select('*').eq('is_active', true).order('name'),
+      ]);
+
+      if (insurersResult.error) throw insurersResult.error;
+      if (schemesResult.error) throw schemesResult.error;
+
+      setInsurers((insurersResult.data || []).map(insurer => ({
+        id: insurer.id,
+        name: insurer.name,
+        code: insurer.code,
+        isActive: insurer.is_active,
+      })));
+      setInsuranceSchemes((schemesResult.data || []).map(scheme => ({
+        id: scheme.id,
+        insurerId: scheme.insurer_id,
+        name: scheme.name,
+        copayType: scheme.copay_type,
+        copayValue: Number(scheme.copay_value) || 0,
+        isActive: scheme.is_active,
+      })));
+    } catch (error) {
+      console.error('Error loading insurers:', error);
+    }
+  };
+
+  // Expired batches are never offered; the rest are sold first expiry first
+  const sellableBatches = useMemo(() => groupSellableBatches(products), [products]);
+
+  const medicines = useMemo(() => summariseMedicineStock(productMasters, products), [productMasters, products]);
+  const masterBarcodes = useMemo(() => new Map(productMasters.map(master => [master.id, master.barcode || ''])), [productMasters]);
+
+  const getMedicineBatches = (productName: string) => sellableBatches.get(getMedicineKey(productName)) || [];
+
+  const getSellableQuantity = (productName: string) =>
+    getMedicineBatches(productName).reduce((sum, product) => sum + product.currentStock, 0);
+
+  const findCartItem = (product: Product) =>
+    cart.find(item => getMedicineKey(item.productName) === getMedicineKey(product.name));
+
+  // One card per medicine, showing the batch that will be sold first
+  const filteredProducts = Array.from(sellableBatches.values()).filter(batches =>
+    batches.some(product =>
       product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      product.barcode.includes(searchTerm)
+      product.barcode.includes(searchTerm) ||
+      (masterBarcodes.get(product.productMasterId) || '').includes(searchTerm)
     )
   );
 
-  const addToCart = (product: Product) => {
-    const existingItem = cart.find(item => item.productId === product.id);
-    
+  // The cart holds one line per medicine; checkout splits it across batches
+  const addToCart = (selected: Product) => {
+    const existingItem = findCartItem(selected);
+    const product = getMedicineBatches(selected.name)[0];
+
+    if (!product) {
+      showAlert({ title: 'Point of Sale', message: `${selected.name} has no stock that is still in date`, type: 'warning' });
+      return;
+    }
+
     if (existingItem) {
       // Don't add duplicate products, just show a message
       showAlert({ title: 'Point of Sale', message: 'Product already in cart. Adjust quantity if needed.', type: 'warning' });
@@ -100,7 +257,7 @@ const POS: React.FC = () => {
       return;
     }
 
-    if (newQuantity > product.currentStock) return;
+    if (newQuantity > getSellableQuantity(product.name)) return;
 
     setCart(cart.map(item =>
       item.productId === productId
@@ -113,6 +270,33 @@ const POS: React.FC = () => {
     setCart(cart.filter(item => item.productId !== productId));
   };
 
+  // A scan adds one unit of the medicine; the earliest-expiring batch is
+  // sold first at checkout
+  const handleScan = (barcode: string) => {
+    const medicine = findMedicineByBarcode(medicines, barcode);
+    if (!medicine) {
+      beep('error');
+      setUnknownBarcode(barcode);
+      return;
+    }
+
+    const existingItem = cart.find(item => getMedicineKey(item.productName) === getMedicineKey(medicine.master.name));
+    if ((existingItem?.quantity || 0) >= getSellableQuantity(medicine.master.name)) {
+      beep('error');
+      showAlert({ title: 'Point of Sale', message: `${medicine.master.name} has no more stock that is still in date`, type: 'warning' });
+      return;
+    }
+
+    if (existingItem) {
+      updateQuantity(existingItem.productId, existingItem.quantity + 1);
+    } else {
+      addToCart(getMedicineBatches(medicine.master.name)[0]);
+    }
+    beep();
+  };
+
+  useBarcodeScanner(handleScan, { enabled: !unknownBarcode });
+
   const startPriceEdit = (productId: string, currentPrice: number) => {
     setEditingPrice(productId);
     setTempPrice(currentPrice.toString());
@@ -148,13 +332,293 @@ const POS: React.FC = () => {
     setTempPrice('');
   };
 
-  const getTotalAmount = () => {
+  const promotionResult = useMemo(
+    () => applyPromotions(cart, products, promotions, discountCode),
+    [cart, products, promotions, discountCode]
+  );
+
+  const getSubtotal = () => {
     return cart.reduce((total, item) => total + item.totalPrice, 0);
   };
 
-  const processSale = async () => {
+  const getTotalAmount = () => {
+    return roundAmount(getSubtotal() - promotionResult.totalDiscount);
+  };
+
+  const isDiscountCodeKnown = promotions.some(
+    promotion => promotion.code && promotion.code.toUpperCase() === discountCode.trim().toUpperCase()
+  );
+
+  const getDrugSchedule = (productId: string) => products.find(p => p.id === productId)?.drugSchedule || 'otc';
+
+  const scriptItems = cart.filter(item => getDrugSchedule(item.productId) !== 'otc');
+
+  const resetPrescription = () => {
+    setPrescription({ prescriberName: '', prescriberLicence: '', patientName: '', reference: '' });
+    setPrescriptionImage(null);
+  };
+
+  // Prescription-only and controlled lines cannot be checked out without the script
+  const validatePrescription = () => {
+    if (scriptItems.length === 0) return true;
+
+    const missing = [
+      !prescription.prescriberName.trim() && 'prescriber name',
+      !prescription.prescriberLicence.trim() && 'prescriber licence number',
+      !(prescription.patientName.trim() || customerName.trim()) && 'patient',
+      !prescription.reference.trim() && 'prescription reference',
+    ].filter(Boolean);
+
+    if (missing.length > 0) {
+      showAlert({
+        title: 'Point of Sale',
+        message: `${scriptItems.map(item => item.productName).join(', ')} require a prescription. Enter the ${missing.join(', ')}.`,
+        type: 'warning'
+      });
+      return false;
+    }
+    return true;
+  };
+
+  const openParkModal = () => {
+    if (cart.length === 0) return;
+
+    if (tenders.length > 0) {
+      showAlert({ title: 'Point of Sale', message: 'Remove the payments already added before parking this cart', type: 'warning' });
+      return;
+    }
+
+    setParkLabel(customerName || '');
+    setShowParkModal(true);
+  };
+
+  const parkSale = async () => {
     if (cart.length === 0 || !user) return;
 
+    const label = parkLabel.trim();
+    if (!label) {
+      showAlert({ title: 'Point of Sale', message: 'Enter a name to park this cart under', type: 'warning' });
+      return;
+    }
+
+    setIsParking(true);
+    try {
+      // Parking does not touch stock; it is checked again when the cart is checked out
+      const { error } = await supabase
+        .from('held_sales')
+        .insert({
+          label,
+          customer_id: customer?.id || null,
+          customer_name: customerName || null,
+          items: cart,
+          total_amount: getTotalAmount(),
+          branch_code: getBranchCode(),
+          held_by: user.user_id,
+          held_by_name: user.name,
+        });
+
+      if (error) throw error;
+
+      await logActivity('HOLD_SALE', `Parked sale "${label}" - ${formatKES(getTotalAmount())}`);
+
+      setCart([]);
+      setCustomerName('');
+      setCustomer(null);
+      setPaymentMethod('mpesa');
+      setTenderAmount('');
+      setTenderReference('');
+      setShowParkModal(false);
+      setParkLabel('');
+
+      showAlert({ title: 'Point of Sale', message: `Cart parked as "${label}"`, type: 'success' });
+    } catch (error) {
+      showAlert({ title: 'Point of Sale', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setIsParking(false);
+    }
+  };
+
+  const resumeHeldSale = (heldSale: HeldSale) => {
+    const adjustments: string[] = [];
+
+    // Stock may have moved, or batches expired, while the cart was parked
+    const resumedCart = heldSale.items.reduce<SaleItem[]>((items, item) => {
+      const [product] = getMedicineBatches(item.productName);
+      if (!product) {
+        adjustments.push(`${item.productName} removed (out of stock)`);
+        return items;
+      }
+
+      const quantity = Math.min(item.quantity, getSellableQuantity(item.productName));
+      if (quantity < item.quantity) {
+        adjustments.push(`${item.productName} reduced to ${quantity}`);
+      }
+
+      return [...items, {
+        ...item,
+        productId: product.id,
+        batchNumber: product.batchNumber,
+        quantity,
+        totalPrice: quantity * item.unitPrice,
+      }];
+    }, []);
+
+    setCart(resumedCart);
+    setCustomerName(heldSale.customerName || '');
+    setCustomer(null);
+    if (heldSale.customerId) {
+      getCustomer(heldSale.customerId)
+        .then(setCustomer)
+        .catch(error => console.error('Error loading held sale customer:', error));
+    }
+
+    if (adjustments.length > 0) {
+      showAlert({ title: 'Point of Sale', message: `Resumed "${heldSale.label}" with changes: ${adjustments.join(', ')}`, type: 'warning' });
+    }
+  };
+
+  const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+  const getBalance = (saleTenders: SalePayment[] = tenders) => {
+    const paid = saleTenders.reduce((sum, tender) => sum + tender.amount, 0);
+    return roundAmount(getTotalAmount() - paid);
+  };
+
+  const pushTender = (tender: SalePayment): SalePayment[] => {
+    const updatedTenders = [...tenders, tender];
+    setTenders(updatedTenders);
+    setTenderAmount('');
+    setTenderReference('');
+    return updatedTenders;
+  };
+
+  const getCopayAmount = () => {
+    const scheme = insuranceSchemes.find(s => s.id === insurance.schemeId);
+    return scheme ? calculateCopay(getTotalAmount(), scheme.copayType, scheme.copayValue) : 0;
+  };
+
+  // The insurer pays whatever is left after the patient's co-pay
+  const getInsurerBalance = () => {
+    const otherTenders = tenders.reduce((sum, tender) => sum + tender.amount, 0);
+    return roundAmount(Math.max(getTotalAmount() - getCopayAmount() - otherTenders, 0));
+  };
+
+  // KES value of the points the customer has not yet put towards this sale
+  const getLoyaltyAvailable = () => {
+    if (!loyaltyRules || loyaltyBalance === null) return 0;
+    const redeemed = tenders
+      .filter(tender => tender.method === 'loyalty')
+      .reduce((sum, tender) => sum + tender.amount, 0);
+    return roundAmount(Math.max(loyaltyBalance * loyaltyRules.pointValueKes - redeemed, 0));
+  };
+
+  const removeTender = async (index: number) => {
+    const tender = tenders[index];
+
+    // A card already charged on the terminal is refunded there before the line goes
+    const terminal = getPaymentTerminal();
+    if (tender.terminalTransactionId && terminal) {
+      try {
+        const refund = await terminal.refund({
+          amount: tender.amount,
+          reference: tender.terminalTransactionId,
+          originalTransactionId: tender.terminalTransactionId,
+        });
+        if (refund.status !== 'approved') {
+          showAlert({ title: 'Point of Sale', message: `Card refund ${refund.status}: ${refund.message || 'try again'}`, type: 'error' });
+          return;
+        }
+      } catch (error) {
+        showAlert({ title: 'Point of Sale', message: getErrorMessage(error), type: 'error' });
+        return;
+      }
+    }
+
+    setTenders(tenders.filter((_, i) => i !== index));
+  };
+
+  // Adds a tender line for the selected method. Returns the updated tender list,
+  // or null when nothing was added (invalid amount, or M-Pesa or the card
+  // terminal is awaiting the customer).
+  const addTender = (): SalePayment[] | null => {
+    const balance = getBalance();
+    if (balance <= 0) {
+      showAlert({ title: 'Point of Sale', message: 'The sale is already fully paid.', type: 'info' });
+      return null;
+    }
+
+    if (paymentMethod === 'insurance') {
+      if (tenders.some(tender => tender.method === 'insurance')) {
+        showAlert({ title: 'Point of Sale', message: 'This sale already has an insurance payment', type: 'warning' });
+        return null;
+      }
+      if (!insurance.insurerId || !insurance.memberNumber.trim()) {
+        showAlert({ title: 'Point of Sale', message: 'Select the insurer and enter the member number', type: 'warning' });
+        return null;
+      }
+    }
+
+    if (paymentMethod === 'loyalty' && !customer) {
+      showAlert({ title: 'Point of Sale', message: 'Select the customer whose points are being redeemed', type: 'warning' });
+      return null;
+    }
+
+    const defaultAmount = paymentMethod === 'insurance'
+      ? getInsurerBalance()
+      : paymentMethod === 'loyalty' ? Math.min(getLoyaltyAvailable(), balance) : balance;
+    const entered = tenderAmount.trim() ? parseFloat(tenderAmount) : defaultAmount;
+    if (!entered || entered <= 0) {
+      showAlert({ title: 'Point of Sale', message: 'Please enter a valid payment amount', type: 'warning' });
+      return null;
+    }
+
+    if (paymentMethod === 'mpesa') {
+      if (!mpesaPhone && customer?.phone) {
+        setMpesaPhone(customer.phone);
+      }
+      setMpesaAmount(roundAmount(Math.min(entered, balance)));
+      setShowMpesaModal(true);
+      return null;
+    }
+
+    // Only cash can be over-tendered; the difference is given back as change
+    if (paymentMethod !== 'cash' && entered > balance) {
+      showAlert({ title: 'Point of Sale', message: `${PAYMENT_METHOD_LABELS[paymentMethod]} amount cannot exceed the balance of ${formatKES(balance)}`, type: 'warning' });
+      return null;
+    }
+
+    const terminal = paymentMethod === 'card' ? getPaymentTerminal() : null;
+    if (terminal) {
+      setCardPayment({ terminal, amount: roundAmount(entered) });
+      return null;
+    }
+
+    if (paymentMethod === 'loyalty' && loyaltyRules) {
+      if (entered > getLoyaltyAvailable()) {
+        showAlert({ title: 'Point of Sale', message: `Points cover at most ${formatKES(getLoyaltyAvailable())}`, type: 'warning' });
+        return null;
+      }
+      const points = Math.ceil(entered / loyaltyRules.pointValueKes);
+      if (points < loyaltyRules.minRedeemPoints) {
+        showAlert({ title: 'Point of Sale', message: `At least ${loyaltyRules.minRedeemPoints} points must be redeemed at a time`, type: 'warning' });
+        return null;
+      }
+    }
+
+    const applied = roundAmount(Math.min(entered, balance));
+    return pushTender({
+      method: paymentMethod,
+      amount: applied,
+      reference: paymentMethod === 'insurance'
+        ? insurance.memberNumber.trim()
+        : paymentMethod === 'loyalty' && loyaltyRules
+          ? `${Math.ceil(entered / loyaltyRules.pointValueKes)} pts`
+          : tenderReference.trim() || undefined,
+      ...(paymentMethod === 'cash' ? { tenderedAmount: entered, changeAmount: roundAmount(entered - applied) } : {}),
+    });
+  };
+
+  const validateCartPrices = () => {
     // Validate all prices against minimum selling price (cost * 1.33)
     for (const item of cart) {
       const product = products.find(p => p.id === item.productId);
@@ -162,40 +626,149 @@ const POS: React.FC = () => {
         const minPrice = getMinimumSellingPrice(product.costPrice);
         if (item.unitPrice < minPrice) {
           showAlert({ title: 'Point of Sale', message: `Price for ${item.productName} cannot be less than minimum selling price: ${formatKES(minPrice)}`, type: 'error' });
-          return;
+          return false;
         }
       }
     }
+    return true;
+  };
 
-    if (paymentMethod === 'mpesa') {
-      setShowMpesaModal(true);
+  const processSale = async () => {
+    if (cart.length === 0 || !user) return;
+
+    if (currentShift === null) {
+      showAlert({ title: 'Point of Sale', message: 'Open a shift before taking payment', type: 'warning' });
+      return;
+    }
+
+    if (!validateCartPrices()) return;
+
+    if (!validatePrescription()) return;
+
+    let saleTenders = tenders;
+    const balance = getBalance();
+
+    if (balance < 0) {
+      showAlert({ title: 'Point of Sale', message: 'Payments exceed the sale total. Remove a payment to continue.', type: 'warning' });
+      return;
+    }
+
+    if (balance > 0) {
+      const updatedTenders = addTender();
+      if (!updatedTenders) return;
+
+      saleTenders = updatedTenders;
+      const remaining = getBalance(saleTenders);
+      if (remaining > 0) {
+        showAlert({ title: 'Point of Sale', message: `Payment added. Remaining balance: ${formatKES(remaining)}`, type: 'info' });
+        return;
+      }
+    }
+
+    await completeSale(saleTenders);
+  };
+
+  const confirmMpesaTender = async () => {
+    const updatedTenders = pushTender({
+      method: 'mpesa',
+      amount: mpesaAmount,
+      reference: mpesaPaymentDetails?.receiptNumber || tenderReference.trim() || undefined,
+    });
+
+    if (getBalance(updatedTenders) > 0) {
+      setShowMpesaModal(false);
+      setMpesaPhone('');
+      return;
+    }
+
+    await completeSale(updatedTenders);
+  };
+
+  const confirmCardTender = async (payment: SalePayment) => {
+    setCardPayment(null);
+    const updatedTenders = pushTender(payment);
+
+    if (getBalance(updatedTenders) > 0) {
+      showAlert({ title: 'Point of Sale', message: `Card approved. Remaining balance: ${formatKES(getBalance(updatedTenders))}`, type: 'info' });
       return;
     }
 
-    await completeSale();
+    await completeSale(updatedTenders);
   };
 
-  const completeSale = async () => {
+  const completeSale = async (saleTenders: SalePayment[]) => {
     if (cart.length === 0 || !user) return;
 
-    setIsProcessing(true);
+    if (!validatePrescription()) return;
+
+    const saleBuyerPin = buyerPin.trim().toUpperCase();
+    if (saleBuyerPin && !KRA_PIN_PATTERN.test(saleBuyerPin)) {
+      showAlert({ title: 'Point of Sale', message: 'Buyer KRA PIN must look like P051234567X', type: 'warning' });
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    // Generated once so a retried checkout cannot record the same sale twice
+    const saleId = crypto.randomUUID();
 
     try {
-      const receiptNumber = await retryDatabaseOperation(
+      let salePrescription: Prescription | undefined;
+      if (scriptItems.length > 0) {
+        salePrescription = {
+          ...prescription,
+          patientName: prescription.patientName.trim() || customerName.trim(),
+        };
+
+        // The scan cannot be stored offline; the written details still are
+        if (prescriptionImage && isOnline) {
+          const imagePath = `${saleId}/${prescriptionImage.name}`;
+          const { error: uploadError } = await supabase.storage
+            .from('prescriptions')
+            .upload(imagePath, prescriptionImage, { upsert: true });
+
+          if (uploadError) throw uploadError;
+          salePrescription.imagePath = imagePath;
+        }
+      }
+
+      const saleItems = allocateSaleItems(getDiscountedItems(cart, promotionResult), products);
+
+      const sale = await retryDatabaseOperation(
         () => addSale({
-          items: cart,
+          items: saleItems,
+          discounts: promotionResult.discounts,
           totalAmount: getTotalAmount(),
-          paymentMethod,
+          payments: saleTenders,
+          insurance: saleTenders.some(tender => tender.method === 'insurance') ? insurance : undefined,
+          customerId: customer?.id,
           customerName: customerName || undefined,
+          buyerPin: saleBuyerPin || undefined,
+          prescription: salePrescription,
           salesPersonId: user.user_id,
           salesPersonName: user.name,
-        }),
+        }, saleId),
         'Complete sale'
       );
+      const receiptNumber = sale.receiptNumber;
+
+      setLastSale(sale);
 
-      setLastReceipt(receiptNumber);
+      if (receiptTemplate?.printAfterSale) {
+        generateReceipt(sale);
+      } else if (receiptTemplate?.openCashDrawer && saleTenders.some(tender => tender.method === 'cash')) {
+        openCashDrawer();
+      }
       setCart([]);
+      setTenders([]);
+      setTenderAmount('');
+      setTenderReference('');
       setCustomerName('');
+      setBuyerPin('');
+      setCustomer(null);
+      setDiscountCode('');
+      resetPrescription();
+      setInsurance({ insurerId: '', memberNumber: '' });
       setMpesaPhone('');
       setPaymentMethod('mpesa');
       setShowMpesaModal(false);
@@ -204,19 +777,21 @@ const POS: React.FC = () => {
 
       triggerRefresh(['sales', 'inventory']);
 
-      showAlert({ title: 'Point of Sale', message: `Sale completed! Receipt #${receiptNumber} - Wesabi Pharmacy`, type: 'success' });
+      if (sale.isOffline) {
+        showAlert({ title: 'Point of Sale', message: `Sale saved offline (${receiptNumber}). It will sync and get its receipt number when the connection returns.`, type: 'warning' });
+      } else if (sale.fiscalInvoice?.status !== 'submitted') {
+        showAlert({ title: 'Point of Sale', message: `Sale completed (${receiptNumber}), but KRA has not confirmed the fiscal invoice yet. It will be resubmitted automatically.`, type: 'warning' });
+      } else {
+        showAlert({ title: 'Point of Sale', message: `Sale completed! Receipt #${receiptNumber} - Wesabi Pharmacy`, type: 'success' });
+      }
     } catch (error) {
       showAlert({ title: 'Point of Sale', message: getErrorMessage(error), type: 'error' });
     } finally {
-      setIsProcessing(false);
+      setIsSubmitting(false);
     }
   };
 
   const handleMpesaPayment = async () => {
-    console.log('=== M-Pesa Payment Started ===');
-    console.log('Phone:', mpesaPhone);
-    console.log('Amount:', getTotalAmount());
-
     if (!mpesaPhone.trim()) {
       showAlert({ title: 'Point of Sale', message: 'Please enter M-Pesa phone number', type: 'warning' });
       return;
@@ -226,6 +801,20 @@ const POS: React.FC = () => {
     setMpesaTimeoutReached(false);
     console.log('Processing set to true');
 
+    // Link the sale to whoever owns the paying number
+    if (!customer) {
+      const phone = normalizePhoneNumber(mpesaPhone);
+      searchCustomers(phone)
+        .then(matches => {
+          const match = matches.find(c => c.phone === phone);
+          if (match) {
+            setCustomer(match);
+            setCustomerName(match.name);
+          }
+        })
+        .catch(error => console.error('Error looking up M-Pesa customer:', error));
+    }
+
     try {
       const apiUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/mpesa-stkpush`;
       console.log('Calling STK Push API:', apiUrl);
@@ -238,7 +827,7 @@ const POS: React.FC = () => {
         },
         body: JSON.stringify({
           phoneNumber: mpesaPhone,
-          amount: getTotalAmount(),
+          amount: mpesaAmount,
           accountReference: `SALE-${Date.now()}`,
           transactionDesc: 'Wesabi Pharmacy Payment',
         }),
@@ -281,6 +870,36 @@ const POS: React.FC = () => {
     }
   };
 
+  // Falls back to the STK Push Query API when the callback has not arrived.
+  // A payment confirmed this way has no M-Pesa code until the callback comes;
+  // reconciliation matches it to the sale by amount and time.
+  const checkStkPushStatus = async (checkoutId: string) => {
+    try {
+      const result = await queryStkPush(checkoutId);
+
+      if (result.status === 'completed') {
+        setMpesaPaymentDetails({
+          phoneNumber: result.phoneNumber || mpesaPhone,
+          receiptNumber: result.receiptNumber || '',
+          amount: result.amount || mpesaAmount,
+        });
+        setIsProcessing(false);
+        stopPolling();
+      } else if (result.status === 'failed') {
+        showAlert({ title: 'Point of Sale', message: `M-Pesa payment ${result.resultDescription || 'failed'}. You can try again or complete manually.`, type: 'warning' });
+        setIsProcessing(false);
+        stopPolling();
+      } else {
+        showAlert({ title: 'Point of Sale', message: 'M-Pesa has not confirmed the payment yet. Check again shortly or complete manually with the M-Pesa code.', type: 'info' });
+        setIsProcessing(false);
+      }
+    } catch (error) {
+      console.error('Error querying STK push status:', error);
+      showAlert({ title: 'Point of Sale', message: `Could not check the payment with M-Pesa: ${getErrorMessage(error)}. You can complete the sale manually.`, type: 'warning' });
+      setIsProcessing(false);
+    }
+  };
+
   const startPollingTransactionStatus = (checkoutId: string) => {
     let pollCount = 0;
     const maxPolls = 120; // Poll for 120 seconds (2 minutes)
@@ -307,7 +926,8 @@ const POS: React.FC = () => {
 
         console.log('Polling result:', data);
 
-        if (data) {
+        // mpesa-stkpush records the push as pending; wait for its result
+        if (data && data.transaction_status !== 'pending') {
           // Transaction response received
           if (timeoutId) clearTimeout(timeoutId);
           setPollingInterval(null);
@@ -344,11 +964,9 @@ const POS: React.FC = () => {
           timeoutId = setTimeout(checkTransaction, 2000); // Poll every 2 seconds
           setPollingInterval(timeoutId);
         } else {
-          // Timeout - stop polling
+          // No callback yet - ask Safaricom directly before giving up
           setPollingInterval(null);
-          showAlert({ title: 'Point of Sale', message: 'M-Pesa payment timeout. You can complete the sale manually.', type: 'warning' });
-          setIsProcessing(false);
-          console.log('Polling timeout reached');
+          await checkStkPushStatus(checkoutId);
         }
       } catch (error) {
         console.error('Error in polling:', error);
@@ -415,18 +1033,77 @@ const POS: React.FC = () => {
     }));
   };
 
-  const paymentMethods = [
-    { id: 'mpesa', label: 'M-Pesa', icon: Smartphone, color: 'green' },
-    { id: 'cash', label: 'Cash', icon: Banknote, color: 'green' },
-    { id: 'card', label: 'Card', icon: CreditCard, color: 'blue' },
-    { id: 'insurance', label: 'Insurance', icon: Shield, color: 'purple' },
+  const paymentMethods: { id: PaymentMethod; label: string; icon: typeof Smartphone; color: string }[] = [
+    { id: 'mpesa', label: PAYMENT_METHOD_LABELS.mpesa, icon: Smartphone, color: 'green' },
+    { id: 'cash', label: PAYMENT_METHOD_LABELS.cash, icon: Banknote, color: 'green' },
+    { id: 'card', label: PAYMENT_METHOD_LABELS.card, icon: CreditCard, color: 'blue' },
+    { id: 'insurance', label: PAYMENT_METHOD_LABELS.insurance, icon: Shield, color: 'purple' },
   ];
 
+  // Redemption is checked against the live balance, so it needs a connection
+  if (loyaltyRules?.enabled && customer && isOnline && getLoyaltyAvailable() > 0) {
+    paymentMethods.push({ id: 'loyalty', label: PAYMENT_METHOD_LABELS.loyalty, icon: Gift, color: 'yellow' });
+  }
+
   return (
     <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
       {/* Product Selection */}
       <div className="lg:col-span-2 space-y-4">
-        <h1 className="text-3xl font-bold text-gray-900">Point of Sale</h1>
+        <div className="flex justify-between items-center">
+          <h1 className="text-3xl font-bold text-gray-900">Point of Sale</h1>
+          <div className="flex items-center space-x-2">
+            {currentShift && (
+              <button
+                onClick={() => setShowShiftModal(true)}
+                className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+                title={`Shift opened ${currentShift.openedAt.toLocaleTimeString('en-KE')}`}
+              >
+                <Clock className="h-4 w-4 mr-2" />
+                Shift
+              </button>
+            )}
+            <button
+              onClick={() => setShowReturnModal(true)}
+              className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Return Items
+            </button>
+          </div>
+        </div>
+
+        {currentShift === null && (
+          <div className="p-4 bg-blue-50 border border-blue-200 rounded-lg">
+            <p className="text-sm font-medium text-blue-900 mb-2 flex items-center">
+              <Clock className="h-4 w-4 mr-1" />
+              Open your shift: count the cash in the drawer and enter the opening float
+            </p>
+            <div className="flex space-x-2">
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={openingFloat}
+                onChange={(e) => setOpeningFloat(e.target.value)}
+                placeholder="Opening float (KES)"
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+              <button
+                onClick={handleOpenShift}
+                disabled={isOpeningShift}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+              >
+                {isOpeningShift ? 'Opening...' : 'Open Shift'}
+              </button>
+            </div>
+          </div>
+        )}
+
+        {!isOnline && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            You are offline. Sales are saved on this till and will sync when the connection returns. M-Pesa prompts are unavailable; enter the M-Pesa code manually.
+          </div>
+        )}
 
         {/* Search Bar */}
         <div className="relative">
@@ -442,7 +1119,7 @@ const POS: React.FC = () => {
 
         {/* Products Grid */}
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 max-h-[calc(100vh-16rem)] overflow-y-auto">
-          {filteredProducts.map(product => (
+          {filteredProducts.map(([product, ...laterBatches]) => (
             <div 
               key={product.id} 
               className="bg-white p-4 rounded-lg shadow-sm border hover:shadow-md transition-shadow cursor-pointer"
@@ -463,10 +1140,19 @@ const POS: React.FC = () => {
                       Last sold: {formatKES(product.priceHistory[product.priceHistory.length - 2]?.sellingPrice || product.sellingPrice)}
                     </p>
                   )}
-                  <p className="text-sm text-gray-600">Stock: {product.currentStock}</p>
-                  <p className="text-xs text-gray-500">Batch: {product.batchNumber}</p>
+                  <p className="text-sm text-gray-600">Stock: {getSellableQuantity(product.name)}</p>
+                  <p className="text-xs text-gray-500">
+                    Batch: {product.batchNumber} · Exp {product.expiryDate.toLocaleDateString()}
+                    {laterBatches.length > 0 && ` (+${laterBatches.length} more)`}
+                  </p>
                 </div>
 
+                {expandedMedicine === product.productMasterId && (
+                  <div className="border-t pt-2" onClick={(e) => e.stopPropagation()}>
+                    <BatchBreakdown batches={medicines.find(medicine => medicine.master.id === product.productMasterId)?.batches || [product, ...laterBatches]} />
+                  </div>
+                )}
+
                 <div className="flex items-center justify-between pt-2">
                   {product.priceHistory.length > 1 && (
                     <label className="flex items-center text-xs">
@@ -484,6 +1170,16 @@ const POS: React.FC = () => {
                   )}
                   
                   <div className="flex space-x-1">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setExpandedMedicine(expandedMedicine === product.productMasterId ? null : product.productMasterId);
+                      }}
+                      className="p-1 text-gray-400 hover:text-gray-600"
+                      title="Batches"
+                    >
+                      <Layers className="h-3 w-3" />
+                    </button>
                     <button
                       onClick={(e) => {
                         e.stopPropagation();
@@ -524,9 +1220,34 @@ const POS: React.FC = () => {
             <ShoppingCart className="h-5 w-5 mr-2" />
             Cart
           </h2>
-          <span className="bg-green-100 text-green-800 px-2 py-1 rounded-full text-sm">
-            {cart.length} items
-          </span>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={openParkModal}
+              disabled={cart.length === 0}
+              className="p-1 text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+              title="Park cart"
+            >
+              <PauseCircle className="h-5 w-5" />
+            </button>
+            <button
+              onClick={() => setShowHeldSales(true)}
+              className="p-1 text-gray-600 hover:text-gray-900"
+              title="Held sales"
+            >
+              <PlayCircle className="h-5 w-5" />
+            </button>
+            <button
+              onClick={() => lastSale && generateReceipt(lastSale)}
+              disabled={!lastSale}
+              className="p-1 text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+              title={lastSale ? `Print receipt ${lastSale.receiptNumber}` : 'Print last receipt'}
+            >
+              <Printer className="h-5 w-5" />
+            </button>
+            <span className="bg-green-100 text-green-800 px-2 py-1 rounded-full text-sm">
+              {cart.length} items
+            </span>
+          </div>
         </div>
 
         {/* Cart Items */}
@@ -534,7 +1255,20 @@ const POS: React.FC = () => {
           {cart.map(item => (
             <div key={item.productId} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg">
               <div className="flex-1 min-w-0">
-                <p className="text-sm font-medium text-gray-900 truncate">{item.productName}</p>
+                <p className="text-sm font-medium text-gray-900 truncate">
+                  {item.productName}
+                  {getDrugSchedule(item.productId) === 'prescription' && (
+                    <span className="ml-1 px-1.5 py-0.5 bg-blue-100 text-blue-800 rounded text-xs">Rx</span>
+                  )}
+                  {getDrugSchedule(item.productId) === 'controlled' && (
+                    <span className="ml-1 px-1.5 py-0.5 bg-red-100 text-red-800 rounded text-xs">CD</span>
+                  )}
+                </p>
+                <p className="text-xs text-gray-500 truncate">
+                  {allocateBatches(getMedicineBatches(item.productName), item.quantity)
+                    .map(allocation => `Batch ${allocation.product.batchNumber} x${allocation.quantity}`)
+                    .join(' + ')}
+                </p>
                 <div className="space-y-1">
                   {editingPrice === item.productId ? (
                     <div className="flex items-center space-x-1">
@@ -629,6 +1363,12 @@ const POS: React.FC = () => {
                       )}
                     </div>
                   )}
+                  {promotionResult.lineDiscounts[item.productId] > 0 && (
+                    <p className="text-xs text-green-700 flex items-center">
+                      <Tag className="h-3 w-3 mr-1" />
+                      {formatKES(promotionResult.lineDiscounts[item.productId])} off
+                    </p>
+                  )}
                 </div>
               </div>
               <div className="flex items-center space-x-2">
@@ -644,13 +1384,12 @@ const POS: React.FC = () => {
                   inputMode="numeric"
                   pattern="[0-9]*"
                   min="1"
-                  max={products.find(p => p.id === item.productId)?.currentStock || 999}
+                  max={getSellableQuantity(item.productName) || 999}
                   value={item.quantity}
                   onChange={(e) => {
                     const value = e.target.value.replace(/[^0-9]/g, '');
                     const newQty = parseInt(value) || 1;
-                    const product = products.find(p => p.id === item.productId);
-                    if (product && newQty <= product.currentStock) {
+                    if (newQty <= getSellableQuantity(item.productName)) {
                       updateQuantity(item.productId, newQty);
                     }
                   }}
@@ -686,62 +1425,289 @@ const POS: React.FC = () => {
 
         {cart.length > 0 && (
           <>
-            {/* Customer Name */}
+            {/* Customer */}
             <div className="mb-4">
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                Customer Name (Optional)
+                Customer (Optional)
               </label>
+              <CustomerPicker
+                customer={customer}
+                customerName={customerName}
+                onCustomerChange={setCustomer}
+                onCustomerNameChange={setCustomerName}
+              />
+              {loyaltyRules?.enabled && customer && loyaltyBalance !== null && (
+                <p className="mt-1 text-sm text-gray-600 flex items-center">
+                  <Gift className="h-4 w-4 mr-1 text-yellow-600" />
+                  {loyaltyBalance.toLocaleString()} points (worth {formatKES(loyaltyBalance * loyaltyRules.pointValueKes)})
+                </p>
+              )}
               <input
                 type="text"
-                value={customerName}
-                onChange={(e) => setCustomerName(e.target.value)}
-                placeholder="Enter customer name"
-                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                value={buyerPin}
+                onChange={(e) => setBuyerPin(e.target.value.toUpperCase())}
+                placeholder="Buyer KRA PIN (for a tax invoice)"
+                maxLength={11}
+                className="mt-2 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
               />
             </div>
 
-            {/* Payment Method */}
+            {/* Prescription */}
+            {scriptItems.length > 0 && (
+              <div className="mb-4 p-3 border border-blue-200 bg-blue-50 rounded-lg">
+                <label className="flex items-center text-sm font-medium text-blue-900 mb-2">
+                  <FileText className="h-4 w-4 mr-1" />
+                  Prescription required
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  <input
+                    type="text"
+                    value={prescription.prescriberName}
+                    onChange={(e) => setPrescription({ ...prescription, prescriberName: e.target.value })}
+                    placeholder="Prescriber name"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                  />
+                  <input
+                    type="text"
+                    value={prescription.prescriberLicence}
+                    onChange={(e) => setPrescription({ ...prescription, prescriberLicence: e.target.value })}
+                    placeholder="Licence number"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                  />
+                  <input
+                    type="text"
+                    value={prescription.patientName}
+                    onChange={(e) => setPrescription({ ...prescription, patientName: e.target.value })}
+                    placeholder={customerName || 'Patient name'}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                  />
+                  <input
+                    type="text"
+                    value={prescription.reference}
+                    onChange={(e) => setPrescription({ ...prescription, reference: e.target.value })}
+                    placeholder="Prescription ref."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                  />
+                  <input
+                    type="file"
+                    accept="image/*,application/pdf"
+                    onChange={(e) => setPrescriptionImage(e.target.files?.[0] || null)}
+                    className="col-span-2 text-sm text-gray-600"
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Discount Code */}
             <div className="mb-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                Payment Method
-              </label>
-              <div className="grid grid-cols-2 gap-2">
-                {paymentMethods.map(method => {
-                  const Icon = method.icon;
-                  return (
-                    <button
-                      key={method.id}
-                      onClick={() => setPaymentMethod(method.id as any)}
-                      className={`flex items-center justify-center space-x-2 p-2 rounded-lg border-2 transition-colors ${
-                        paymentMethod === method.id
-                          ? `border-${method.color}-500 bg-${method.color}-50 text-${method.color}-700`
-                          : 'border-gray-200 hover:border-gray-300'
-                      }`}
-                    >
-                      <Icon className="h-4 w-4" />
-                      <span className="text-sm">{method.label}</span>
-                    </button>
-                  );
-                })}
+              <div className="relative">
+                <Tag className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <input
+                  type="text"
+                  value={discountCode}
+                  onChange={(e) => setDiscountCode(e.target.value.toUpperCase())}
+                  placeholder="Discount code (optional)"
+                  className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                />
               </div>
+              {discountCode.trim() && !isDiscountCodeKnown && (
+                <p className="text-xs text-red-600 mt-1">Code not recognised</p>
+              )}
             </div>
 
             {/* Total */}
             <div className="border-t pt-4 mb-4">
+              {promotionResult.discounts.length > 0 && (
+                <div className="space-y-1 mb-2 text-sm">
+                  <div className="flex justify-between text-gray-600">
+                    <span>Subtotal:</span>
+                    <span>{formatKES(getSubtotal())}</span>
+                  </div>
+                  {promotionResult.discounts.map((discount, index) => (
+                    <div key={index} className="flex justify-between text-green-700">
+                      <span className="truncate mr-2">{discount.description}</span>
+                      <span>-{formatKES(discount.amount)}</span>
+                    </div>
+                  ))}
+                  {promotionResult.cappedPromotions.length > 0 && (
+                    <p className="text-xs text-orange-600">
+                      {promotionResult.cappedPromotions.join(', ')} limited to keep prices above the minimum selling price
+                    </p>
+                  )}
+                </div>
+              )}
               <div className="flex justify-between items-center text-lg font-bold">
                 <span>Total:</span>
                 <span className="text-green-600">{formatKES(getTotalAmount())}</span>
               </div>
             </div>
 
+            {/* Tenders */}
+            {tenders.length > 0 && (
+              <div className="mb-4 space-y-2">
+                {tenders.map((tender, index) => (
+                  <div key={index} className="flex items-center justify-between p-2 bg-gray-50 rounded-lg text-sm">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900">{PAYMENT_METHOD_LABELS[tender.method]}</p>
+                      {tender.maskedPan ? (
+                        <p className="text-xs text-gray-500 truncate">
+                          {tender.cardScheme} {tender.maskedPan} · Auth {tender.approvalCode}
+                        </p>
+                      ) : tender.reference && <p className="text-xs text-gray-500 truncate">Ref: {tender.reference}</p>}
+                      {tender.changeAmount ? (
+                        <p className="text-xs text-gray-500">
+                          Tendered {formatKES(tender.tenderedAmount || 0)}, change {formatKES(tender.changeAmount)}
+                        </p>
+                      ) : null}
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <span className="font-semibold text-gray-900">{formatKES(tender.amount)}</span>
+                      <button
+                        onClick={() => removeTender(index)}
+                        disabled={isSubmitting}
+                        className="p-1 text-red-400 hover:text-red-600 disabled:opacity-50"
+                        title="Remove payment"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+                <div className="flex justify-between items-center text-sm font-semibold px-2">
+                  <span>{getBalance() < 0 ? 'Overpaid:' : 'Balance:'}</span>
+                  <span className={getBalance() === 0 ? 'text-green-600' : 'text-orange-600'}>
+                    {formatKES(Math.abs(getBalance()))}
+                  </span>
+                </div>
+              </div>
+            )}
+
+            {/* Payment Method */}
+            {getBalance() > 0 && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {tenders.length > 0 ? 'Add Another Payment' : 'Payment Method'}
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {paymentMethods.map(method => {
+                    const Icon = method.icon;
+                    return (
+                      <button
+                        key={method.id}
+                        onClick={() => setPaymentMethod(method.id)}
+                        className={`flex items-center justify-center space-x-2 p-2 rounded-lg border-2 transition-colors ${
+                          paymentMethod === method.id
+                            ? `border-${method.color}-500 bg-${method.color}-50 text-${method.color}-700`
+                            : 'border-gray-200 hover:border-gray-300'
+                        }`}
+                      >
+                        <Icon className="h-4 w-4" />
+                        <span className="text-sm">{method.label}</span>
+                      </button>
+                    );
+                  })}
+                </div>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  <input
+                    type="text"
+                    inputMode="decimal"
+                    value={tenderAmount}
+                    onChange={(e) => setTenderAmount(e.target.value.replace(/[^0-9.]/g, ''))}
+                    placeholder={`Amount (${formatKES(
+                      paymentMethod === 'insurance'
+                        ? getInsurerBalance()
+                        : paymentMethod === 'loyalty' ? Math.min(getLoyaltyAvailable(), getBalance()) : getBalance()
+                    )})`}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                  />
+                  {paymentMethod !== 'mpesa' && paymentMethod !== 'insurance' && paymentMethod !== 'loyalty' && (
+                    <input
+                      type="text"
+                      value={tenderReference}
+                      onChange={(e) => setTenderReference(e.target.value)}
+                      placeholder={paymentMethod === 'cash' ? 'Note (optional)' : 'Reference'}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                    />
+                  )}
+                </div>
+                {paymentMethod === 'insurance' && (
+                  <div className="grid grid-cols-2 gap-2 mt-2">
+                    <select
+                      value={insurance.insurerId}
+                      onChange={(e) => setInsurance({ ...insurance, insurerId: e.target.value, schemeId: undefined })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                    >
+                      <option value="">Select insurer</option>
+                      {insurers.map(insurer => (
+                        <option key={insurer.id} value={insurer.id}>{insurer.name}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={insurance.schemeId || ''}
+                      onChange={(e) => setInsurance({ ...insurance, schemeId: e.target.value || undefined })}
+                      disabled={!insurance.insurerId}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm disabled:bg-gray-100"
+                    >
+                      <option value="">Scheme (no co-pay)</option>
+                      {insuranceSchemes.filter(scheme => scheme.insurerId === insurance.insurerId).map(scheme => (
+                        <option key={scheme.id} value={scheme.id}>{scheme.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      type="text"
+                      value={insurance.memberNumber}
+                      onChange={(e) => setInsurance({ ...insurance, memberNumber: e.target.value })}
+                      placeholder="Member / card number"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                    />
+                    <input
+                      type="text"
+                      value={insurance.memberName || ''}
+                      onChange={(e) => setInsurance({ ...insurance, memberName: e.target.value || undefined })}
+                      placeholder="Member name (optional)"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                    />
+                    <input
+                      type="text"
+                      value={insurance.preauthNumber || ''}
+                      onChange={(e) => setInsurance({ ...insurance, preauthNumber: e.target.value || undefined })}
+                      placeholder="Pre-authorisation no. (optional)"
+                      className="col-span-2 w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                    />
+                    {getCopayAmount() > 0 && (
+                      <p className="col-span-2 text-sm text-gray-600">
+                        Patient co-pay: <span className="font-semibold text-purple-600">{formatKES(getCopayAmount())}</span> — collect with another payment method
+                      </p>
+                    )}
+                    {insurers.length === 0 && (
+                      <p className="col-span-2 text-xs text-gray-500">No insurers set up. An admin can add them under Insurance Claims.</p>
+                    )}
+                  </div>
+                )}
+                {paymentMethod === 'cash' && parseFloat(tenderAmount) > getBalance() && (
+                  <p className="text-sm text-gray-600 mt-2">
+                    Change due: <span className="font-semibold text-green-600">{formatKES(roundAmount(parseFloat(tenderAmount) - getBalance()))}</span>
+                  </p>
+                )}
+                <button
+                  onClick={addTender}
+                  disabled={isSubmitting}
+                  className="mt-2 w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm border border-green-600 text-green-700 rounded-lg hover:bg-green-50 disabled:opacity-50"
+                >
+                  <Plus className="h-4 w-4" />
+                  <span>Add Payment</span>
+                </button>
+              </div>
+            )}
+
             {/* Process Sale Button */}
             <button
               onClick={processSale}
-              disabled={isProcessing}
+              disabled={isProcessing || isSubmitting}
               className="w-full flex items-center justify-center space-x-2 bg-green-600 text-white py-3 px-4 rounded-lg hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
             >
               <Receipt className="h-5 w-5" />
-              <span>{isProcessing ? 'Processing...' : 'Complete Sale'}</span>
+              <span>{isProcessing || isSubmitting ? 'Processing...' : 'Complete Sale'}</span>
             </button>
           </>
         )}
@@ -754,8 +1720,8 @@ const POS: React.FC = () => {
             <h3 className="text-lg font-semibold mb-4">M-Pesa Payment</h3>
 
             <div className="mb-4 p-4 bg-green-50 rounded-lg">
-              <p className="text-sm text-gray-600 mb-1">Total Amount</p>
-              <p className="text-2xl font-bold text-green-600">{formatKES(getTotalAmount())}</p>
+              <p className="text-sm text-gray-600 mb-1">{mpesaAmount < getTotalAmount() ? 'M-Pesa Amount' : 'Total Amount'}</p>
+              <p className="text-2xl font-bold text-green-600">{formatKES(mpesaAmount)}</p>
             </div>
 
             {mpesaPaymentDetails ? (
@@ -772,7 +1738,7 @@ const POS: React.FC = () => {
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-600">Receipt:</span>
-                      <span className="font-medium">{mpesaPaymentDetails.receiptNumber}</span>
+                      <span className="font-medium">{mpesaPaymentDetails.receiptNumber || 'Confirmed (code to follow)'}</span>
                     </div>
                     <div className="flex justify-between">
                       <span className="text-gray-600">Amount:</span>
@@ -800,47 +1766,24 @@ const POS: React.FC = () => {
                 <p className="text-xs text-gray-500 mt-1">
                   {isProcessing ? (mpesaTimeoutReached ? 'Payment timeout reached. You can now complete manually.' : 'Waiting for payment confirmation...') : 'Enter the phone number registered with M-Pesa'}
                 </p>
-                {(() => {
-                  console.log('Button render check:', { isProcessing, checkoutRequestId, shouldRender: isProcessing && checkoutRequestId });
-                  return isProcessing && checkoutRequestId && (
-                    <button
-                      onClick={async () => {
-                        console.log('Manual check triggered for:', checkoutRequestId);
-                        const { supabase } = await import('../lib/supabase');
-                        if (!supabase) return;
-
-                        const { data, error } = await supabase
-                          .from('mpesa_transactions')
-                          .select('*')
-                          .eq('checkout_request_id', checkoutRequestId)
-                          .maybeSingle();
-
-                        console.log('Manual check result:', { data, error });
-
-                        if (data) {
-                          if (data.result_code === 0) {
-                            setMpesaPaymentDetails({
-                              phoneNumber: data.phone_number || '',
-                              receiptNumber: data.mpesa_receipt_number || '',
-                              amount: data.amount || 0,
-                            });
-                            setIsProcessing(false);
-                            stopPolling();
-                          } else {
-                            showAlert({ title: 'Point of Sale', message: `Payment ${data.result_description}`, type: 'warning' });
-                            setIsProcessing(false);
-                            stopPolling();
-                          }
-                        } else {
-                          showAlert({ title: 'Point of Sale', message: 'No payment found yet. Please wait or complete manually.', type: 'info' });
-                        }
-                      }}
-                      className="mt-2 w-full px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
-                    >
-                      Check Payment Status Now
-                    </button>
-                  );
-                })()}
+                {checkoutRequestId && !mpesaPaymentDetails && (mpesaTimeoutReached || !isProcessing) && (
+                  <button
+                    onClick={() => checkStkPushStatus(checkoutRequestId)}
+                    className="mt-2 w-full px-3 py-2 text-sm bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200"
+                  >
+                    Check Payment Status Now
+                  </button>
+                )}
+                <label className="block text-sm font-medium text-gray-700 mt-4 mb-2">
+                  M-Pesa Code (for manual confirmation)
+                </label>
+                <input
+                  type="text"
+                  value={tenderReference}
+                  onChange={(e) => setTenderReference(e.target.value.toUpperCase())}
+                  placeholder="e.g. QKL2AB3CDE"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
               </div>
             )}
 
@@ -866,8 +1809,8 @@ const POS: React.FC = () => {
                 </button>
               )}
               <button
-                onClick={completeSale}
-                disabled={isProcessing && !mpesaTimeoutReached}
+                onClick={confirmMpesaTender}
+                disabled={(isProcessing && !mpesaTimeoutReached) || isSubmitting}
                 className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 {isProcessing && !mpesaTimeoutReached ? 'Processing...' : (mpesaPaymentDetails ? 'Complete & Close' : 'Complete Manually')}
@@ -923,6 +1866,91 @@ const POS: React.FC = () => {
           </div>
         </div>
       )}
+
+      <SaleReturnModal
+        isOpen={showReturnModal}
+        onClose={() => setShowReturnModal(false)}
+      />
+
+      {cardPayment && (
+        <CardPaymentModal
+          terminal={cardPayment.terminal}
+          amount={cardPayment.amount}
+          onApproved={confirmCardTender}
+          onClose={() => setCardPayment(null)}
+        />
+      )}
+
+      {showShiftModal && currentShift && (
+        <ShiftModal
+          shift={currentShift}
+          onClose={() => setShowShiftModal(false)}
+          onShiftClosed={() => {
+            setShowShiftModal(false);
+            setCurrentShift(null);
+          }}
+        />
+      )}
+
+      <HeldSalesModal
+        isOpen={showHeldSales}
+        onClose={() => setShowHeldSales(false)}
+        onResume={resumeHeldSale}
+        cartHasItems={cart.length > 0}
+      />
+
+      {unknownBarcode && (
+        <LinkBarcodeModal
+          barcode={unknownBarcode}
+          onClose={() => setUnknownBarcode(null)}
+          onLinked={(medicine) => {
+            setUnknownBarcode(null);
+            const product = getMedicineBatches(medicine.master.name)[0];
+            if (!product) {
+              showAlert({ title: 'Point of Sale', message: `${medicine.master.name} has no stock that is still in date`, type: 'warning' });
+            } else if (!findCartItem(product)) {
+              addToCart(product);
+            }
+          }}
+        />
+      )}
+
+      {/* Park Cart Modal */}
+      {showParkModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4">
+            <h3 className="text-lg font-semibold mb-4">Park Cart</h3>
+            <p className="text-sm text-gray-600 mb-4">
+              {cart.length} items · {formatKES(getTotalAmount())}. Stock is not reserved while the cart is parked.
+            </p>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Park as</label>
+            <input
+              type="text"
+              value={parkLabel}
+              onChange={(e) => setParkLabel(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && parkSale()}
+              placeholder="Customer name or description"
+              autoFocus
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 mb-4"
+            />
+            <div className="flex space-x-3">
+              <button
+                onClick={parkSale}
+                disabled={isParking}
+                className="flex-1 bg-green-600 text-white py-2 px-4 rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+              >
+                {isParking ? 'Parking...' : 'Park Cart'}
+              </button>
+              <button
+                onClick={() => setShowParkModal(false)}
+                className="flex-1 bg-gray-600 text-white py-2 px-4 rounded-lg hover:bg-gray-700"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,76 @@
+import React, { useState } from 'react';
+import { CreditCard } from 'lucide-react';
+import { useAlert } from '../contexts/AlertContext';
+import { TerminalSettings, TerminalType, TERMINAL_TYPE_LABELS, getTerminalSettings, saveTerminalSettings } from '../lib/paymentTerminal';
+
+// The terminal is set per till, so this is kept in the browser rather than the database
+const PaymentTerminalSettings: React.FC = () => {
+  const { showAlert } = useAlert();
+  const [settings, setSettings] = useState<TerminalSettings>(getTerminalSettings());
+
+  const handleSave = () => {
+    saveTerminalSettings({ ...settings, terminalId: settings.terminalId.trim() });
+    showAlert({
+      title: 'Card Terminal',
+      message: settings.type === 'none'
+        ? 'Card payments on this till will be entered by hand'
+        : `This till now takes card payments with: ${TERMINAL_TYPE_LABELS[settings.type]}`,
+      type: 'success',
+    });
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="p-6 border-b">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <CreditCard className="h-5 w-5 mr-2" />
+          Card Terminal
+        </h2>
+      </div>
+      <div className="p-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Terminal on this till</label>
+            <select
+              value={settings.type}
+              onChange={(e) => setSettings({ ...settings, type: e.target.value as TerminalType })}
+              className={inputClassName}
+            >
+              {(Object.keys(TERMINAL_TYPE_LABELS) as TerminalType[]).map(type => (
+                <option key={type} value={type}>{TERMINAL_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+          </div>
+          {settings.type !== 'none' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Terminal ID</label>
+              <input
+                type="text"
+                value={settings.terminalId}
+                onChange={(e) => setSettings({ ...settings, terminalId: e.target.value })}
+                placeholder="SIM-0001"
+                className={inputClassName}
+              />
+            </div>
+          )}
+        </div>
+        {settings.type === 'simulated' && (
+          <p className="text-sm text-gray-600">
+            The simulated terminal approves after a few seconds. Amounts ending in .51 are declined, .52 wait
+            until cancelled and .53 fail as if the terminal lost its connection.
+          </p>
+        )}
+        <button
+          onClick={handleSave}
+          className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+        >
+          Save Terminal
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PaymentTerminalSettings;
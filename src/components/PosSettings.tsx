@@ -0,0 +1,109 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { PauseCircle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAlert } from '../contexts/AlertContext';
+import { useApp } from '../contexts/AppContext';
+import { useAuth } from '../contexts/AuthContext';
+import { getErrorMessage } from '../utils/errorMessages';
+
+const DEFAULT_HELD_SALE_EXPIRY_MINUTES = 240;
+
+const PosSettings: React.FC = () => {
+  const { showAlert } = useAlert();
+  const { logActivity } = useApp();
+  const { user } = useAuth();
+  const [heldSaleExpiryMinutes, setHeldSaleExpiryMinutes] = useState(DEFAULT_HELD_SALE_EXPIRY_MINUTES);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('value')
+        .eq('key', 'held_sale_expiry_minutes')
+        .maybeSingle();
+
+      if (error) throw error;
+      setHeldSaleExpiryMinutes(Number(data?.value) || DEFAULT_HELD_SALE_EXPIRY_MINUTES);
+    } catch (error) {
+      console.error('Error loading POS settings:', error);
+      showAlert({ title: 'POS Settings', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [showAlert]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const saveSettings = async () => {
+    if (heldSaleExpiryMinutes < 5) {
+      showAlert({ title: 'POS Settings', message: 'Held sales must be kept for at least 5 minutes', type: 'warning' });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from('app_settings')
+        .upsert({
+          key: 'held_sale_expiry_minutes',
+          value: heldSaleExpiryMinutes,
+          updated_by_name: user?.name,
+        });
+
+      if (error) throw error;
+
+      await logActivity('UPDATE_POS_SETTINGS', `Held sales now expire after ${heldSaleExpiryMinutes} minutes`);
+      showAlert({ title: 'POS Settings', message: 'POS settings updated successfully!', type: 'success' });
+    } catch (error) {
+      showAlert({ title: 'POS Settings', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="p-6 border-b">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <PauseCircle className="h-5 w-5 mr-2" />
+          POS Settings
+        </h2>
+      </div>
+      <div className="p-6">
+        {loading ? (
+          <p className="text-center text-gray-500 py-4">Loading POS settings...</p>
+        ) : (
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Held sales expire after (minutes)
+              </label>
+              <input
+                type="number"
+                min={5}
+                value={heldSaleExpiryMinutes}
+                onChange={(e) => setHeldSaleExpiryMinutes(parseInt(e.target.value) || 0)}
+                className="w-40 px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">Applies to carts parked from now on.</p>
+            </div>
+            <button
+              onClick={saveSettings}
+              disabled={saving}
+              className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PosSettings;
@@ -0,0 +1,550 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Tag, Plus, Edit, AlertTriangle } from 'lucide-react';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { Promotion, PromotionType, PromotionScope, PROMOTION_TYPE_LABELS } from '../types';
+import { formatKES } from '../utils/currency';
+import { getErrorMessage } from '../utils/errorMessages';
+
+const DAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface PromotionForm {
+  name: string;
+  promotionType: PromotionType;
+  appliesTo: PromotionScope;
+  productMasterId: string;
+  category: string;
+  value: string;
+  buyQuantity: string;
+  getQuantity: string;
+  code: string;
+  startsOn: string;
+  endsOn: string;
+  dailyStartTime: string;
+  dailyEndTime: string;
+  daysOfWeek: number[];
+  allowBelowFloor: boolean;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: PromotionForm = {
+  name: '',
+  promotionType: 'percent',
+  appliesTo: 'product',
+  productMasterId: '',
+  category: '',
+  value: '',
+  buyQuantity: '',
+  getQuantity: '',
+  code: '',
+  startsOn: '',
+  endsOn: '',
+  dailyStartTime: '',
+  dailyEndTime: '',
+  daysOfWeek: [],
+  allowBelowFloor: false,
+  isActive: true,
+};
+
+const toDateInput = (date?: Date) => date ? date.toISOString().split('T')[0] : '';
+
+const Promotions: React.FC = () => {
+  const { productMasters, categories, getPromotions, savePromotion } = useApp();
+  const { showAlert } = useAlert();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<PromotionForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadPromotions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setPromotions(await getPromotions());
+    } catch (error) {
+      showAlert({ title: 'Promotions', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [getPromotions, showAlert]);
+
+  useEffect(() => {
+    loadPromotions();
+  }, [loadPromotions]);
+
+  const describeOffer = (promotion: Promotion) => {
+    switch (promotion.promotionType) {
+      case 'percent':
+        return `${promotion.value}% off`;
+      case 'fixed':
+        return `${formatKES(promotion.value)} off ${promotion.appliesTo === 'cart' ? 'the sale' : 'each unit'}`;
+      case 'buy_x_get_y':
+        return `Buy ${promotion.buyQuantity} get ${promotion.getQuantity} free`;
+      case 'bundle':
+        return `${promotion.buyQuantity} for ${formatKES(promotion.value)}`;
+    }
+  };
+
+  const describeTarget = (promotion: Promotion) => {
+    if (promotion.appliesTo === 'cart') return 'Whole sale';
+    if (promotion.appliesTo === 'category') return promotion.category || '';
+    return productMasters.find(medicine => medicine.id === promotion.productMasterId)?.name || 'Unknown product';
+  };
+
+  const describeSchedule = (promotion: Promotion) => {
+    const parts: string[] = [];
+    if (promotion.startsAt || promotion.endsAt) {
+      parts.push(`${promotion.startsAt ? promotion.startsAt.toLocaleDateString('en-KE') : '...'} - ${promotion.endsAt ? promotion.endsAt.toLocaleDateString('en-KE') : '...'}`);
+    }
+    if (promotion.daysOfWeek && promotion.daysOfWeek.length > 0) {
+      parts.push(promotion.daysOfWeek.map(day => DAY_LABELS[day]).join(', '));
+    }
+    if (promotion.dailyStartTime && promotion.dailyEndTime) {
+      parts.push(`${promotion.dailyStartTime.slice(0, 5)}-${promotion.dailyEndTime.slice(0, 5)}`);
+    }
+    return parts.length > 0 ? parts.join(' · ') : 'Always';
+  };
+
+  const openForm = (promotion?: Promotion) => {
+    setEditingId(promotion?.id || null);
+    setForm(promotion ? {
+      name: promotion.name,
+      promotionType: promotion.promotionType,
+      appliesTo: promotion.appliesTo,
+      productMasterId: promotion.productMasterId || '',
+      category: promotion.category || '',
+      value: promotion.value.toString(),
+      buyQuantity: promotion.buyQuantity?.toString() || '',
+      getQuantity: promotion.getQuantity?.toString() || '',
+      code: promotion.code || '',
+      startsOn: toDateInput(promotion.startsAt),
+      endsOn: toDateInput(promotion.endsAt),
+      dailyStartTime: promotion.dailyStartTime?.slice(0, 5) || '',
+      dailyEndTime: promotion.dailyEndTime?.slice(0, 5) || '',
+      daysOfWeek: promotion.daysOfWeek || [],
+      allowBelowFloor: promotion.allowBelowFloor,
+      isActive: promotion.isActive,
+    } : EMPTY_FORM);
+    setShowForm(true);
+  };
+
+  const toggleDay = (day: number) => {
+    setForm({
+      ...form,
+      daysOfWeek: form.daysOfWeek.includes(day)
+        ? form.daysOfWeek.filter(d => d !== day)
+        : [...form.daysOfWeek, day].sort(),
+    });
+  };
+
+  const handleSave = async () => {
+    const value = parseFloat(form.value) || 0;
+    const buyQuantity = parseInt(form.buyQuantity) || 0;
+    const getQuantity = parseInt(form.getQuantity) || 0;
+    const needsQuantity = form.promotionType === 'buy_x_get_y' || form.promotionType === 'bundle';
+
+    if (!form.name.trim()) {
+      showAlert({ title: 'Promotions', message: 'Enter a name for the promotion', type: 'warning' });
+      return;
+    }
+    if (form.appliesTo === 'product' && !form.productMasterId) {
+      showAlert({ title: 'Promotions', message: 'Select the product', type: 'warning' });
+      return;
+    }
+    if (form.appliesTo === 'category' && !form.category) {
+      showAlert({ title: 'Promotions', message: 'Select the category', type: 'warning' });
+      return;
+    }
+    if (form.promotionType !== 'buy_x_get_y' && value <= 0) {
+      showAlert({ title: 'Promotions', message: 'Enter the discount value', type: 'warning' });
+      return;
+    }
+    if (form.promotionType === 'percent' && value > 100) {
+      showAlert({ title: 'Promotions', message: 'A percentage discount cannot exceed 100%', type: 'warning' });
+      return;
+    }
+    if (needsQuantity && buyQuantity <= 0) {
+      showAlert({ title: 'Promotions', message: 'Enter how many units must be bought', type: 'warning' });
+      return;
+    }
+    if (form.promotionType === 'buy_x_get_y' && getQuantity <= 0) {
+      showAlert({ title: 'Promotions', message: 'Enter how many units are free', type: 'warning' });
+      return;
+    }
+    if (!!form.dailyStartTime !== !!form.dailyEndTime) {
+      showAlert({ title: 'Promotions', message: 'Enter both the start and end of the daily time window', type: 'warning' });
+      return;
+    }
+    if (form.startsOn && form.endsOn && form.endsOn < form.startsOn) {
+      showAlert({ title: 'Promotions', message: 'The end date cannot be before the start date', type: 'warning' });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await savePromotion({
+        name: form.name,
+        promotionType: form.promotionType,
+        appliesTo: form.appliesTo,
+        productMasterId: form.productMasterId || undefined,
+        category: form.category || undefined,
+        value: form.promotionType === 'buy_x_get_y' ? 0 : value,
+        buyQuantity: needsQuantity ? buyQuantity : undefined,
+        getQuantity: form.promotionType === 'buy_x_get_y' ? getQuantity : undefined,
+        code: form.code || undefined,
+        startsAt: form.startsOn ? new Date(`${form.startsOn}T00:00:00`) : undefined,
+        endsAt: form.endsOn ? new Date(`${form.endsOn}T23:59:59`) : undefined,
+        dailyStartTime: form.dailyStartTime || undefined,
+        dailyEndTime: form.dailyEndTime || undefined,
+        daysOfWeek: form.daysOfWeek,
+        allowBelowFloor: form.allowBelowFloor,
+        isActive: form.isActive,
+      }, editingId || undefined);
+
+      setShowForm(false);
+      await loadPromotions();
+      showAlert({ title: 'Promotions', message: 'Promotion saved successfully!', type: 'success' });
+    } catch (error) {
+      showAlert({ title: 'Promotions', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const toggleActive = async (promotion: Promotion) => {
+    try {
+      const { id, ...rest } = promotion;
+      await savePromotion({ ...rest, isActive: !promotion.isActive }, id);
+      await loadPromotions();
+    } catch (error) {
+      showAlert({ title: 'Promotions', message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Promotions</h1>
+          <p className="text-gray-600">Discounts applied automatically at the till</p>
+        </div>
+        <button
+          onClick={() => openForm()}
+          className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          New Promotion
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border">
+        {loading ? (
+          <p className="text-center text-gray-500 py-8">Loading promotions...</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Promotion</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Offer</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Applies To</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">When</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Code</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+                  <th className="px-4 py-2"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {promotions.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-8 text-center text-gray-500">
+                      <Tag className="h-8 w-8 mx-auto mb-2 text-gray-300" />
+                      No promotions set up
+                    </td>
+                  </tr>
+                )}
+                {promotions.map(promotion => (
+                  <tr key={promotion.id}>
+                    <td className="px-4 py-2">
+                      <p className="font-medium">{promotion.name}</p>
+                      {promotion.allowBelowFloor && (
+                        <p className="text-xs text-orange-600 flex items-center">
+                          <AlertTriangle className="h-3 w-3 mr-1" />
+                          May sell below minimum price
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-2">{describeOffer(promotion)}</td>
+                    <td className="px-4 py-2">{describeTarget(promotion)}</td>
+                    <td className="px-4 py-2">{describeSchedule(promotion)}</td>
+                    <td className="px-4 py-2 font-mono">{promotion.code || '-'}</td>
+                    <td className="px-4 py-2">
+                      <button
+                        onClick={() => toggleActive(promotion)}
+                        className={`px-2 py-1 rounded-full text-xs ${
+                          promotion.isActive ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+                        }`}
+                        title={promotion.isActive ? 'Deactivate' : 'Activate'}
+                      >
+                        {promotion.isActive ? 'Active' : 'Inactive'}
+                      </button>
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => openForm(promotion)}
+                        className="p-1 text-blue-600 hover:text-blue-800"
+                        title="Edit promotion"
+                      >
+                        <Edit className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-semibold mb-4">{editingId ? 'Edit Promotion' : 'New Promotion'}</h3>
+            <div className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g. Weekend vitamins 10% off"
+                  className={inputClass}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                  <select
+                    value={form.promotionType}
+                    onChange={(e) => {
+                      const promotionType = e.target.value as PromotionType;
+                      const cartAllowed = promotionType === 'percent' || promotionType === 'fixed';
+                      setForm({
+                        ...form,
+                        promotionType,
+                        appliesTo: form.appliesTo === 'cart' && !cartAllowed ? 'product' : form.appliesTo,
+                      });
+                    }}
+                    className={inputClass}
+                  >
+                    {(Object.keys(PROMOTION_TYPE_LABELS) as PromotionType[]).map(type => (
+                      <option key={type} value={type}>{PROMOTION_TYPE_LABELS[type]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Applies to</label>
+                  <select
+                    value={form.appliesTo}
+                    onChange={(e) => setForm({ ...form, appliesTo: e.target.value as PromotionScope })}
+                    className={inputClass}
+                  >
+                    <option value="product">A product</option>
+                    <option value="category">A category</option>
+                    {(form.promotionType === 'percent' || form.promotionType === 'fixed') && (
+                      <option value="cart">The whole sale</option>
+                    )}
+                  </select>
+                </div>
+              </div>
+
+              {form.appliesTo === 'product' && (
+                <select
+                  value={form.productMasterId}
+                  onChange={(e) => setForm({ ...form, productMasterId: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Select product</option>
+                  {productMasters.map(medicine => (
+                    <option key={medicine.id} value={medicine.id}>{medicine.name}</option>
+                  ))}
+                </select>
+              )}
+
+              {form.appliesTo === 'category' && (
+                <select
+                  value={form.category}
+                  onChange={(e) => setForm({ ...form, category: e.target.value })}
+                  className={inputClass}
+                >
+                  <option value="">Select category</option>
+                  {categories.map(category => (
+                    <option key={category} value={category}>{category}</option>
+                  ))}
+                </select>
+              )}
+
+              <div className="grid grid-cols-2 gap-4">
+                {(form.promotionType === 'buy_x_get_y' || form.promotionType === 'bundle') && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {form.promotionType === 'bundle' ? 'Units in bundle' : 'Buy (units)'}
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={form.buyQuantity}
+                      onChange={(e) => setForm({ ...form, buyQuantity: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+                {form.promotionType === 'buy_x_get_y' ? (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Get free (units)</label>
+                    <input
+                      type="number"
+                      min={1}
+                      value={form.getQuantity}
+                      onChange={(e) => setForm({ ...form, getQuantity: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                ) : (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {form.promotionType === 'percent' ? 'Discount (%)' : form.promotionType === 'bundle' ? 'Bundle price (KES)' : 'Amount off (KES)'}
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={form.value}
+                      onChange={(e) => setForm({ ...form, value: e.target.value })}
+                      className={inputClass}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Discount code (optional)</label>
+                <input
+                  type="text"
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase().replace(/\s/g, '') })}
+                  placeholder="Leave blank to apply automatically"
+                  className={`${inputClass} font-mono`}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+                  <input
+                    type="date"
+                    value={form.startsOn}
+                    onChange={(e) => setForm({ ...form, startsOn: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Ends</label>
+                  <input
+                    type="date"
+                    value={form.endsOn}
+                    onChange={(e) => setForm({ ...form, endsOn: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Daily from</label>
+                  <input
+                    type="time"
+                    value={form.dailyStartTime}
+                    onChange={(e) => setForm({ ...form, dailyStartTime: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Daily until</label>
+                  <input
+                    type="time"
+                    value={form.dailyEndTime}
+                    onChange={(e) => setForm({ ...form, dailyEndTime: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Days (none selected = every day)</label>
+                <div className="flex flex-wrap gap-2">
+                  {DAY_LABELS.map((label, day) => (
+                    <button
+                      key={label}
+                      type="button"
+                      onClick={() => toggleDay(day)}
+                      className={`px-3 py-1 text-sm rounded-lg border ${
+                        form.daysOfWeek.includes(day)
+                          ? 'border-green-500 bg-green-50 text-green-700'
+                          : 'border-gray-300 text-gray-600 hover:bg-gray-50'
+                      }`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <label className="flex items-start space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.allowBelowFloor}
+                  onChange={(e) => setForm({ ...form, allowBelowFloor: e.target.checked })}
+                  className="h-4 w-4 mt-0.5 text-green-600 border-gray-300 rounded"
+                />
+                <span>
+                  Allow prices below the minimum selling price (cost + 33%)
+                  <span className="block text-xs text-gray-500">Otherwise the discount stops at the minimum price.</span>
+                </span>
+              </label>
+
+              <label className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                  className="h-4 w-4 text-green-600 border-gray-300 rounded"
+                />
+                <span>Active</span>
+              </label>
+            </div>
+
+            <div className="flex space-x-3 mt-6">
+              <button
+                onClick={() => setShowForm(false)}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSave}
+                disabled={isSaving}
+                className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+              >
+                {isSaving ? 'Saving...' : 'Save Promotion'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Promotions;
@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { AlertTriangle, RefreshCw, Trash2, X } from 'lucide-react';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { QueuedSale } from '../lib/offlineStore';
+import { formatKES } from '../utils/currency';
+import { getErrorMessage } from '../utils/errorMessages';
+
+interface QueuedSalesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Matches the number printed on the offline receipt
+const formatOfflineReceipt = (queued: QueuedSale): string => `OFFLINE-${queued.id.slice(0, 8).toUpperCase()}`;
+
+const QueuedSalesModal: React.FC<QueuedSalesModalProps> = ({ isOpen, onClose }) => {
+  const { queuedSales, isOnline, isSyncing, retryQueuedSale, discardQueuedSale } = useApp();
+  const { showAlert } = useAlert();
+  const [retryingId, setRetryingId] = useState<string | null>(null);
+
+  // Sales the server refused; the rest are only waiting for the connection
+  const failedSales = queuedSales.filter(queued => queued.lastError);
+
+  const retrySale = async (queued: QueuedSale) => {
+    try {
+      setRetryingId(queued.id);
+      await retryQueuedSale(queued.id);
+      showAlert({ title: 'Offline Sales', message: `${formatOfflineReceipt(queued)} synced`, type: 'success' });
+    } catch (error) {
+      showAlert({ title: 'Offline Sales', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setRetryingId(null);
+    }
+  };
+
+  const discardSale = (queued: QueuedSale) => {
+    showAlert({
+      title: 'Discard Offline Sale',
+      message: `Discard ${formatOfflineReceipt(queued)} (${formatKES(queued.sale.totalAmount)})? It will never reach the sales records, so record it another way first.`,
+      type: 'confirm',
+      confirmText: 'Discard',
+      onConfirm: async () => {
+        try {
+          await discardQueuedSale(queued.id);
+        } catch (error) {
+          showAlert({ title: 'Offline Sales', message: getErrorMessage(error), type: 'error' });
+        }
+      }
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold flex items-center">
+            <AlertTriangle className="h-5 w-5 mr-2 text-red-600" />
+            Offline Sales That Failed to Sync
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {failedSales.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">No failed offline sales</p>
+        ) : (
+          <div className="space-y-2">
+            {failedSales.map(queued => (
+              <div key={queued.id} className="p-3 border rounded-lg flex items-center justify-between">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">{formatOfflineReceipt(queued)}</p>
+                  <p className="text-sm text-gray-600">
+                    {queued.sale.items.length} items · {formatKES(queued.sale.totalAmount)}
+                    {queued.sale.customerName && ` · ${queued.sale.customerName}`}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {queued.sale.salesPersonName} · {queued.soldAt.toLocaleString('en-KE')} · {queued.attempts} attempt(s)
+                  </p>
+                  <p className="text-xs text-red-600 mt-1">{queued.lastError}</p>
+                </div>
+                <div className="flex space-x-2 ml-3">
+                  <button
+                    onClick={() => retrySale(queued)}
+                    disabled={!isOnline || isSyncing}
+                    className="p-2 text-green-600 hover:text-green-800 disabled:text-gray-300"
+                    title="Retry"
+                  >
+                    <RefreshCw className={`h-5 w-5 ${retryingId === queued.id ? 'animate-spin' : ''}`} />
+                  </button>
+                  <button
+                    onClick={() => discardSale(queued)}
+                    disabled={isSyncing}
+                    className="p-2 text-red-600 hover:text-red-800 disabled:text-gray-300"
+                    title="Discard"
+                  >
+                    <Trash2 className="h-5 w-5" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QueuedSalesModal;
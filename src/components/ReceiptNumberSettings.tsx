@@ -0,0 +1,276 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Hash, Edit, Check, X, Plus } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAlert } from '../contexts/AlertContext';
+import { useApp } from '../contexts/AppContext';
+import { getBranchCode } from '../config/environment';
+import { getErrorMessage } from '../utils/errorMessages';
+
+interface ReceiptSequence {
+  branch_code: string;
+  prefix: string;
+  reset_yearly: boolean;
+  padding: number;
+  current_year: number;
+  last_value: number;
+}
+
+const formatReceiptPreview = (sequence: ReceiptSequence): string => {
+  const year = new Date().getFullYear();
+  const next = sequence.reset_yearly && sequence.current_year !== year ? 1 : sequence.last_value + 1;
+  const number = String(next).padStart(sequence.padding, '0');
+
+  return sequence.reset_yearly
+    ? `${sequence.prefix}-${year}-${number}`
+    : `${sequence.prefix}${number}`;
+};
+
+const ReceiptNumberSettings: React.FC = () => {
+  const { showAlert } = useAlert();
+  const { logActivity } = useApp();
+  const [sequences, setSequences] = useState<ReceiptSequence[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingBranch, setEditingBranch] = useState<string | null>(null);
+  const [formData, setFormData] = useState({ prefix: '', reset_yearly: false, padding: 6 });
+  const [newBranch, setNewBranch] = useState({ branch_code: '', prefix: '' });
+
+  const loadSequences = useCallback(async () => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('receipt_sequences')
+        .select('*')
+        .order('branch_code');
+
+      if (error) throw error;
+      setSequences(data || []);
+    } catch (error) {
+      console.error('Error loading receipt sequences:', error);
+      showAlert({ title: 'Receipt Numbering', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [showAlert]);
+
+  useEffect(() => {
+    loadSequences();
+  }, [loadSequences]);
+
+  const startEdit = (sequence: ReceiptSequence) => {
+    setEditingBranch(sequence.branch_code);
+    setFormData({
+      prefix: sequence.prefix,
+      reset_yearly: sequence.reset_yearly,
+      padding: sequence.padding,
+    });
+  };
+
+  const saveSequence = async (branchCode: string) => {
+    const prefix = formData.prefix.trim().toUpperCase();
+    if (!prefix) {
+      showAlert({ title: 'Receipt Numbering', message: 'Prefix is required', type: 'warning' });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('receipt_sequences')
+        .update({
+          prefix,
+          reset_yearly: formData.reset_yearly,
+          padding: formData.padding,
+        })
+        .eq('branch_code', branchCode);
+
+      if (error) throw error;
+
+      await logActivity('UPDATE_RECEIPT_NUMBERING', `Updated receipt numbering for ${branchCode}: prefix ${prefix}${formData.reset_yearly ? ', yearly reset' : ''}`);
+      setEditingBranch(null);
+      await loadSequences();
+      showAlert({
+        title: 'Receipt Numbering',
+        message: 'Receipt numbering updated. Numbers continue after the highest receipt already issued in this format.',
+        type: 'success'
+      });
+    } catch (error) {
+      showAlert({ title: 'Receipt Numbering', message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
+  // Checkout refuses a branch without a sequence, so each till's branch is added here first
+  const addSequence = async () => {
+    const branchCode = newBranch.branch_code.trim().toUpperCase();
+    const prefix = newBranch.prefix.trim().toUpperCase();
+    if (!branchCode || !prefix) {
+      showAlert({ title: 'Receipt Numbering', message: 'Branch code and prefix are required', type: 'warning' });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('receipt_sequences')
+        .insert({ branch_code: branchCode, prefix });
+
+      if (error) throw error;
+
+      await logActivity('UPDATE_RECEIPT_NUMBERING', `Added receipt numbering for ${branchCode}: prefix ${prefix}`);
+      setNewBranch({ branch_code: '', prefix: '' });
+      await loadSequences();
+    } catch (error) {
+      showAlert({ title: 'Receipt Numbering', message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
+  const currentBranch = getBranchCode();
+  const currentBranchMissing = !loading && !sequences.some(sequence => sequence.branch_code === currentBranch);
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="p-6 border-b">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Hash className="h-5 w-5 mr-2" />
+          Receipt Numbering
+        </h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Receipt numbers are allocated by the database per branch. This till uses branch <span className="font-medium">{currentBranch}</span>.
+        </p>
+      </div>
+      <div className="p-6">
+        {currentBranchMissing && (
+          <p className="mb-4 text-sm text-red-700 bg-red-50 border border-red-200 rounded-md px-3 py-2">
+            Branch {currentBranch} has no receipt numbering, so this till cannot complete sales until it is added below.
+          </p>
+        )}
+        {loading ? (
+          <p className="text-center text-gray-500 py-4">Loading receipt sequences...</p>
+        ) : sequences.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">No receipt sequences yet. Add one for each branch below.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Branch</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Prefix</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Digits</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Yearly Reset</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Next Receipt</th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {sequences.map(sequence => {
+                  const isEditing = editingBranch === sequence.branch_code;
+                  const preview = formatReceiptPreview(isEditing ? { ...sequence, ...formData, prefix: formData.prefix.toUpperCase() } : sequence);
+
+                  return (
+                    <tr key={sequence.branch_code} className="hover:bg-gray-50">
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                        {sequence.branch_code}
+                        {sequence.branch_code === currentBranch && (
+                          <span className="ml-2 text-xs bg-green-100 text-green-800 px-2 py-0.5 rounded-full">This till</span>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {isEditing ? (
+                          <input
+                            type="text"
+                            value={formData.prefix}
+                            onChange={(e) => setFormData({ ...formData, prefix: e.target.value.replace(/[^A-Za-z0-9-]/g, '') })}
+                            className="w-28 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-green-500"
+                          />
+                        ) : sequence.prefix}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {isEditing ? (
+                          <input
+                            type="number"
+                            min={1}
+                            max={12}
+                            value={formData.padding}
+                            onChange={(e) => setFormData({ ...formData, padding: Math.min(12, Math.max(1, parseInt(e.target.value) || 1)) })}
+                            className="w-16 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-green-500"
+                          />
+                        ) : sequence.padding}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                        {isEditing ? (
+                          <input
+                            type="checkbox"
+                            checked={formData.reset_yearly}
+                            onChange={(e) => setFormData({ ...formData, reset_yearly: e.target.checked })}
+                          />
+                        ) : (sequence.reset_yearly ? 'Yes' : 'No')}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-mono text-gray-700">
+                        {preview}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        {isEditing ? (
+                          <div className="flex space-x-2">
+                            <button
+                              onClick={() => saveSequence(sequence.branch_code)}
+                              className="text-green-600 hover:text-green-900"
+                              title="Save"
+                            >
+                              <Check className="h-4 w-4" />
+                            </button>
+                            <button
+                              onClick={() => setEditingBranch(null)}
+                              className="text-gray-600 hover:text-gray-900"
+                              title="Cancel"
+                            >
+                              <X className="h-4 w-4" />
+                            </button>
+                          </div>
+                        ) : (
+                          <button
+                            onClick={() => startEdit(sequence)}
+                            className="text-indigo-600 hover:text-indigo-900"
+                            title="Edit numbering"
+                          >
+                            <Edit className="h-4 w-4" />
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        <div className="mt-6 flex flex-wrap items-end gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Branch Code</label>
+            <input
+              type="text"
+              value={newBranch.branch_code}
+              placeholder={currentBranchMissing ? currentBranch : ''}
+              onChange={(e) => setNewBranch({ ...newBranch, branch_code: e.target.value.replace(/[^A-Za-z0-9-]/g, '') })}
+              className="w-32 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Prefix</label>
+            <input
+              type="text"
+              value={newBranch.prefix}
+              onChange={(e) => setNewBranch({ ...newBranch, prefix: e.target.value.replace(/[^A-Za-z0-9-]/g, '') })}
+              className="w-28 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+          </div>
+          <button
+            onClick={addSequence}
+            className="flex items-center px-3 py-1.5 bg-green-600 text-white text-sm rounded-md hover:bg-green-700"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Branch
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptNumberSettings;
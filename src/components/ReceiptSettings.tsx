@@ -0,0 +1,340 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Printer } from 'lucide-react';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { ReceiptTemplate, DEFAULT_RECEIPT_TEMPLATE, Sale } from '../types';
+import { renderReceiptHtml, renderReceiptEscPos } from '../utils/receipt';
+import { PrinterConnection, connectPrinter, getPrinterConnection, isConnectionSupported, printBytes } from '../lib/thermalPrinter';
+import { getErrorMessage } from '../utils/errorMessages';
+
+const MAX_LOGO_BYTES = 100 * 1024;
+
+const CONNECTION_LABELS: Record<PrinterConnection, string> = {
+  browser: 'Browser print dialog',
+  usb: 'Thermal printer (USB)',
+  serial: 'Thermal printer (serial / Bluetooth)',
+};
+
+const FIELD_TOGGLES: { key: keyof ReceiptTemplate; label: string }[] = [
+  { key: 'showLogo', label: 'Logo' },
+  { key: 'showAddress', label: 'Address' },
+  { key: 'showPhone', label: 'Phone number' },
+  { key: 'showKraPin', label: 'KRA PIN' },
+  { key: 'showCustomer', label: 'Customer name' },
+  { key: 'showBatchNumbers', label: 'Batch numbers' },
+  { key: 'showPaymentReferences', label: 'Payment references' },
+  { key: 'showServedBy', label: 'Served by' },
+];
+
+// Used for the preview and the test print
+const getSampleSale = (): Sale => ({
+  id: 'sample',
+  receiptNumber: 'MAIN-000123',
+  customerName: 'Jane Wanjiku',
+  totalAmount: 580,
+  paymentMethod: 'cash',
+  payments: [{ method: 'cash', amount: 580, tenderedAmount: 1000, changeAmount: 420 }],
+  salesPersonId: 'sample',
+  salesPersonName: 'Cashier',
+  items: [
+    { productId: 'sample-1', productName: 'Paracetamol 500mg Tablets', quantity: 2, unitPrice: 50, totalPrice: 100, batchNumber: 'PCM2401' },
+    { productId: 'sample-2', productName: 'Amoxicillin 250mg Capsules', quantity: 1, unitPrice: 480, totalPrice: 480, batchNumber: 'AMX2312' },
+  ],
+  createdAt: new Date(),
+});
+
+const ReceiptSettings: React.FC = () => {
+  const { getReceiptTemplate, saveReceiptTemplate } = useApp();
+  const { showAlert } = useAlert();
+  const [template, setTemplate] = useState<ReceiptTemplate>(DEFAULT_RECEIPT_TEMPLATE);
+  const [connection, setConnection] = useState<PrinterConnection>(getPrinterConnection());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [printing, setPrinting] = useState(false);
+
+  const loadTemplate = useCallback(async () => {
+    try {
+      setLoading(true);
+      setTemplate(await getReceiptTemplate());
+    } catch (error) {
+      showAlert({ title: 'Receipt Settings', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [getReceiptTemplate, showAlert]);
+
+  useEffect(() => {
+    loadTemplate();
+  }, [loadTemplate]);
+
+  const saveTemplate = async () => {
+    if (!template.businessName.trim()) {
+      showAlert({ title: 'Receipt Settings', message: 'Enter the business name to print on receipts', type: 'warning' });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveReceiptTemplate({ ...template, businessName: template.businessName.trim() });
+      showAlert({ title: 'Receipt Settings', message: 'Receipt template saved', type: 'success' });
+    } catch (error) {
+      showAlert({ title: 'Receipt Settings', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLogoChange = (file: File | undefined) => {
+    if (!file) return;
+
+    if (file.size > MAX_LOGO_BYTES) {
+      showAlert({ title: 'Receipt Settings', message: 'The logo must be smaller than 100 KB', type: 'warning' });
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result;
+      if (typeof result === 'string') {
+        setTemplate(prev => ({ ...prev, logoDataUrl: result, showLogo: true }));
+      }
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const selectPrinter = async (selected: PrinterConnection) => {
+    try {
+      await connectPrinter(selected);
+      setConnection(selected);
+      showAlert({ title: 'Receipt Settings', message: `This till now prints with: ${CONNECTION_LABELS[selected]}`, type: 'success' });
+    } catch (error) {
+      showAlert({ title: 'Receipt Settings', message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
+  const testPrint = async () => {
+    if (connection === 'browser') {
+      const printWindow = window.open('', '_blank', 'width=400,height=600');
+      if (!printWindow) {
+        showAlert({ title: 'Receipt Settings', message: 'Please allow popups to print receipts', type: 'warning' });
+        return;
+      }
+      printWindow.document.write(renderReceiptHtml(getSampleSale(), template));
+      printWindow.document.close();
+      printWindow.onload = () => printWindow.print();
+      return;
+    }
+
+    try {
+      setPrinting(true);
+      await printBytes(await renderReceiptEscPos(getSampleSale(), template, { openDrawer: template.openCashDrawer }));
+    } catch (error) {
+      showAlert({ title: 'Receipt Settings', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setPrinting(false);
+    }
+  };
+
+  const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500';
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="p-6 border-b">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <Printer className="h-5 w-5 mr-2" />
+          Receipts
+        </h2>
+      </div>
+      <div className="p-6">
+        {loading ? (
+          <p className="text-center text-gray-500 py-4">Loading receipt settings...</p>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Business name</label>
+                  <input
+                    type="text"
+                    value={template.businessName}
+                    onChange={(e) => setTemplate({ ...template, businessName: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">KRA PIN</label>
+                  <input
+                    type="text"
+                    value={template.kraPin}
+                    onChange={(e) => setTemplate({ ...template, kraPin: e.target.value.toUpperCase() })}
+                    placeholder="P000000000A"
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Address</label>
+                  <input
+                    type="text"
+                    value={template.address}
+                    onChange={(e) => setTemplate({ ...template, address: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+                  <input
+                    type="text"
+                    value={template.phone}
+                    onChange={(e) => setTemplate({ ...template, phone: e.target.value })}
+                    className={inputClassName}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Footer message</label>
+                <textarea
+                  value={template.footerMessage}
+                  onChange={(e) => setTemplate({ ...template, footerMessage: e.target.value })}
+                  rows={2}
+                  className={inputClassName}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Logo</label>
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    onChange={(e) => handleLogoChange(e.target.files?.[0])}
+                    className="w-full text-sm"
+                  />
+                  {template.logoDataUrl && (
+                    <button
+                      onClick={() => setTemplate({ ...template, logoDataUrl: undefined, showLogo: false })}
+                      className="mt-1 text-xs text-red-600 hover:text-red-800"
+                    >
+                      Remove logo
+                    </button>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Paper width</label>
+                  <select
+                    value={template.paperWidth}
+                    onChange={(e) => setTemplate({ ...template, paperWidth: e.target.value === '58' ? 58 : 80 })}
+                    className={inputClassName}
+                  >
+                    <option value="80">80mm</option>
+                    <option value="58">58mm</option>
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <p className="block text-sm font-medium text-gray-700 mb-2">Print on receipt</p>
+                <div className="grid grid-cols-2 gap-2">
+                  {FIELD_TOGGLES.map(({ key, label }) => (
+                    <label key={key} className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={template[key] === true}
+                        onChange={(e) => setTemplate({ ...template, [key]: e.target.checked })}
+                            className="h-4 w-4 text-green-600 border-gray-300 rounded"
+                      />
+                      <span>{label}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="flex items-center space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={template.printAfterSale}
+                    onChange={(e) => setTemplate({ ...template, printAfterSale: e.target.checked })}
+                    className="h-4 w-4 text-green-600 border-gray-300 rounded"
+                  />
+                  <span>Print a receipt after every sale</span>
+                </label>
+                <label className="flex items-center space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={template.openCashDrawer}
+                    onChange={(e) => setTemplate({ ...template, openCashDrawer: e.target.checked })}
+                    className="h-4 w-4 text-green-600 border-gray-300 rounded"
+                  />
+                  <span>Open the cash drawer for cash sales (thermal printers only)</span>
+                </label>
+              </div>
+
+              <div className="flex justify-end">
+                <button
+                  onClick={saveTemplate}
+                  disabled={saving}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+                >
+                  {saving ? 'Saving...' : 'Save Template'}
+                </button>
+              </div>
+
+              <div className="border-t pt-4">
+                <h3 className="text-sm font-semibold text-gray-900 mb-1">Printer on this till</h3>
+                <p className="text-xs text-gray-500 mb-3">
+                  Each till keeps its own printer. USB and serial printers need Chrome or Edge.
+                </p>
+                <div className="space-y-2">
+                  {(Object.keys(CONNECTION_LABELS) as PrinterConnection[]).map(option => (
+                    <label key={option} className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="radio"
+                        name="printer-connection"
+                        checked={connection === option}
+                        onChange={() => selectPrinter(option)}
+                        disabled={!isConnectionSupported(option)}
+                        className="h-4 w-4 text-green-600 border-gray-300"
+                      />
+                      <span className={isConnectionSupported(option) ? '' : 'text-gray-400'}>
+                        {CONNECTION_LABELS[option]}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+                <div className="flex space-x-3 mt-3">
+                  {connection !== 'browser' && (
+                    <button
+                      onClick={() => selectPrinter(connection)}
+                      className="px-3 py-1.5 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+                    >
+                      Reconnect
+                    </button>
+                  )}
+                  <button
+                    onClick={testPrint}
+                    disabled={printing}
+                    className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400"
+                  >
+                    {printing ? 'Printing...' : 'Test Print'}
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <p className="block text-sm font-medium text-gray-700 mb-2">Preview</p>
+              <iframe
+                title="Receipt preview"
+                srcDoc={renderReceiptHtml(getSampleSale(), template)}
+                className="w-full h-[600px] border rounded-lg bg-gray-50"
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReceiptSettings;
@@ -0,0 +1,130 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { TrendingUp } from 'lucide-react';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { ReorderRules, DEFAULT_REORDER_RULES } from '../types';
+import { getErrorMessage } from '../utils/errorMessages';
+
+const ReorderSettings: React.FC = () => {
+  const { getReorderRules, saveReorderRules } = useApp();
+  const { showAlert } = useAlert();
+  const [rules, setRules] = useState<ReorderRules>(DEFAULT_REORDER_RULES);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const loadRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      setRules(await getReorderRules());
+    } catch (error) {
+      console.error('Error loading reorder rules:', error);
+      showAlert({ title: 'Reorder Rules', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [getReorderRules, showAlert]);
+
+  useEffect(() => {
+    loadRules();
+  }, [loadRules]);
+
+  const saveRules = async () => {
+    if (rules.salesWindowDays < 1) {
+      showAlert({ title: 'Reorder Rules', message: 'The sales window must be at least 1 day', type: 'warning' });
+      return;
+    }
+    if (rules.defaultLeadTimeDays < 0 || rules.safetyStockDays < 0 || rules.reviewPeriodDays < 0) {
+      showAlert({ title: 'Reorder Rules', message: 'Lead time, safety stock and review period cannot be negative', type: 'warning' });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await saveReorderRules(rules);
+      showAlert({ title: 'Reorder Rules', message: 'Reorder rules updated successfully!', type: 'success' });
+    } catch (error) {
+      showAlert({ title: 'Reorder Rules', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border">
+      <div className="p-6 border-b">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+          <TrendingUp className="h-5 w-5 mr-2" />
+          Reorder Suggestions
+        </h2>
+      </div>
+      <div className="p-6 space-y-6">
+        {loading ? (
+          <p className="text-center text-gray-500 py-4">Loading reorder rules...</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Sales window (days)</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={rules.salesWindowDays}
+                  onChange={(e) => setRules({ ...rules, salesWindowDays: parseInt(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">Average daily sales are taken over this period.</p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Default lead time (days)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={rules.defaultLeadTimeDays}
+                  onChange={(e) => setRules({ ...rules, defaultLeadTimeDays: parseInt(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Safety stock (days of sales)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={rules.safetyStockDays}
+                  onChange={(e) => setRules({ ...rules, safetyStockDays: parseInt(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Order covers (days of sales)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={rules.reviewPeriodDays}
+                  onChange={(e) => setRules({ ...rules, reviewPeriodDays: parseInt(e.target.value) || 0 })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <p className="text-xs text-gray-500 mt-1">Beyond the reorder point, until the next order.</p>
+              </div>
+            </div>
+
+            <p className="text-sm text-gray-500">
+              Lead times for individual suppliers are set on their records under Suppliers; the default applies to the rest.
+            </p>
+
+            <div className="flex justify-end">
+              <button
+                onClick={saveRules}
+                disabled={saving}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+              >
+                {saving ? 'Saving...' : 'Save Rules'}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReorderSettings;
@@ -0,0 +1,383 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { X, RefreshCw, TrendingUp, AlertTriangle } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useAuth } from '../contexts/AuthContext';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { ReorderRules, DEFAULT_REORDER_RULES } from '../types';
+import { formatKES } from '../utils/currency';
+import { getErrorMessage } from '../utils/errorMessages';
+import { summariseMedicineStock } from '../utils/batches';
+import { ReorderSuggestion, buildReorderSuggestion, getPreferredSupplier, getLeadTimeDays, roundToPackSize } from '../utils/reorder';
+
+interface ReorderSuggestionsProps {
+  onClose: () => void;
+  onCreated: () => void;
+}
+
+// What the user changed on a suggested line before creating the orders
+interface LineOverride {
+  include?: boolean;
+  supplier?: string;
+  packSize?: number;
+  quantity?: number;
+}
+
+interface SuggestionLine extends ReorderSuggestion {
+  include: boolean;
+  packSize: number;
+  quantity: number;
+}
+
+const ReorderSuggestions: React.FC<ReorderSuggestionsProps> = ({ onClose, onCreated }) => {
+  const { user } = useAuth();
+  const { products, productMasters, suppliers, getSupplierByName, getReorderRules, getMedicineSalesVelocity, saveReorderDefaults } = useApp();
+  const { showAlert } = useAlert();
+  const [rules, setRules] = useState<ReorderRules>(DEFAULT_REORDER_RULES);
+  const [windowDays, setWindowDays] = useState('');
+  const [unitsSold, setUnitsSold] = useState<Map<string, number>>(new Map());
+  const [onOrder, setOnOrder] = useState<Map<string, number>>(new Map());
+  const [overrides, setOverrides] = useState<Record<string, LineOverride>>({});
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+
+  const medicines = useMemo(() => summariseMedicineStock(productMasters, products), [productMasters, products]);
+
+  const loadSuggestions = useCallback(async (days?: number) => {
+    try {
+      setLoading(true);
+
+      // Recalculating over another window keeps the rules already loaded
+      const loadedRules = days ? undefined : await getReorderRules();
+      const salesWindowDays = days || loadedRules?.salesWindowDays || DEFAULT_REORDER_RULES.salesWindowDays;
+
+      const [velocity, openLinesResult] = await Promise.all([
+        getMedicineSalesVelocity(salesWindowDays),
+        supabase
+          .from('supplier_order_items')
+          .select('product_master_id, order_quantity, received_quantity, supplier_orders!inner(status)')
+          .in('supplier_orders.status', ['draft', 'sent', 'partially_received']),
+      ]);
+
+      if (openLinesResult.error) throw openLinesResult.error;
+
+      const outstanding = new Map<string, number>();
+      (openLinesResult.data || []).forEach(line => {
+        const quantity = Math.max(0, line.order_quantity - (line.received_quantity || 0));
+        outstanding.set(line.product_master_id, (outstanding.get(line.product_master_id) || 0) + quantity);
+      });
+
+      setRules(prev => ({ ...(loadedRules || prev), salesWindowDays }));
+      setWindowDays(salesWindowDays.toString());
+      setUnitsSold(new Map(velocity.map(row => [row.productMasterId, row.unitsSold])));
+      setOnOrder(outstanding);
+      setOverrides({});
+    } catch (error) {
+      console.error('Error loading reorder suggestions:', error);
+      showAlert({ title: 'Reorder Suggestions', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [getReorderRules, getMedicineSalesVelocity, showAlert]);
+
+  useEffect(() => {
+    loadSuggestions();
+  }, [loadSuggestions]);
+
+  const lines = useMemo(() => {
+    const result: SuggestionLine[] = [];
+    medicines.forEach(medicine => {
+      const override = overrides[medicine.master.id] || {};
+      const packSize = override.packSize || medicine.master.packSize;
+      const suggestion = buildReorderSuggestion(
+        medicine,
+        unitsSold.get(medicine.master.id) || 0,
+        onOrder.get(medicine.master.id) || 0,
+        override.supplier ?? getPreferredSupplier(medicine),
+        packSize,
+        rules
+      );
+      if (!suggestion) return;
+
+      result.push({
+        ...suggestion,
+        include: override.include ?? true,
+        packSize,
+        quantity: override.quantity ?? suggestion.suggestedQuantity,
+      });
+    });
+    return result;
+  }, [medicines, unitsSold, onOrder, overrides, rules]);
+
+  // One draft order per supplier; lines without a supplier are listed last
+  const groups = useMemo(() => {
+    const bySupplier = new Map<string, SuggestionLine[]>();
+    lines.forEach(line => {
+      bySupplier.set(line.supplier, [...(bySupplier.get(line.supplier) || []), line]);
+    });
+    return [...bySupplier.entries()]
+      .map(([supplier, groupLines]) => ({ supplier, lines: groupLines }))
+      .sort((a, b) => (a.supplier ? 0 : 1) - (b.supplier ? 0 : 1) || a.supplier.localeCompare(b.supplier));
+  }, [lines]);
+
+  const setOverride = (masterId: string, changes: LineOverride) => {
+    setOverrides(prev => ({ ...prev, [masterId]: { ...prev[masterId], ...changes } }));
+  };
+
+  const applyWindow = () => {
+    const days = parseInt(windowDays);
+    if (!days || days < 1) {
+      showAlert({ title: 'Reorder Suggestions', message: 'The sales window must be at least 1 day', type: 'warning' });
+      return;
+    }
+    loadSuggestions(days);
+  };
+
+  const orderableGroups = groups
+    .filter(group => group.supplier)
+    .map(group => ({ ...group, lines: group.lines.filter(line => line.include && line.quantity > 0) }))
+    .filter(group => group.lines.length > 0);
+
+  const createDraftOrders = async () => {
+    if (orderableGroups.length === 0) {
+      showAlert({ title: 'Reorder Suggestions', message: 'Select at least one line with a supplier', type: 'warning' });
+      return;
+    }
+
+    try {
+      setCreating(true);
+
+      for (const group of orderableGroups) {
+        const { data: orderNumber, error: numberError } = await supabase.rpc('generate_order_number');
+        if (numberError) throw numberError;
+
+        const expectedDate = new Date();
+        expectedDate.setDate(expectedDate.getDate() + getLeadTimeDays(group.supplier, rules));
+
+        const { data: order, error: orderError } = await supabase
+          .from('supplier_orders')
+          .insert({
+            order_number: orderNumber,
+            created_by: user?.user_id,
+            supplier: group.supplier,
+            supplier_id: getSupplierByName(group.supplier)?.id || null,
+            expected_date: expectedDate.toLocaleDateString('en-CA'),
+            status: 'draft',
+            notes: `Suggested from ${rules.salesWindowDays} days of sales`,
+            total_items: group.lines.reduce((sum, line) => sum + line.quantity, 0)
+          })
+          .select()
+          .single();
+
+        if (orderError) throw orderError;
+
+        const { error: itemsError } = await supabase
+          .from('supplier_order_items')
+          .insert(group.lines.map(line => ({
+            order_id: order.id,
+            product_master_id: line.master.id,
+            product_name: line.master.name,
+            current_quantity: line.stock,
+            order_quantity: line.quantity,
+            unit_cost: line.unitCost
+          })));
+
+        if (itemsError) throw itemsError;
+      }
+
+      // Remember supplier and pack size changes for the next suggestions
+      const defaults = lines
+        .filter(line => {
+          const override = overrides[line.master.id];
+          return (override?.supplier !== undefined && line.supplier !== (line.master.preferredSupplier || ''))
+            || (override?.packSize !== undefined && line.packSize !== line.master.packSize);
+        })
+        .map(line => ({ id: line.master.id, packSize: line.packSize, preferredSupplier: line.supplier }));
+      await saveReorderDefaults(defaults);
+
+      showAlert({
+        title: 'Reorder Suggestions',
+        message: `Created ${orderableGroups.length} draft order(s). Review and send them from Supplier Orders.`,
+        type: 'success'
+      });
+      onCreated();
+      onClose();
+    } catch (error) {
+      console.error('Error creating draft orders:', error);
+      showAlert({ title: 'Reorder Suggestions', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg max-w-6xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b border-gray-200 flex justify-between items-center sticky top-0 bg-white z-10">
+          <h3 className="text-xl font-semibold flex items-center">
+            <TrendingUp className="w-5 h-5 mr-2" />
+            Reorder Suggestions
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <div className="flex flex-wrap items-end gap-4 bg-blue-50 border border-blue-200 rounded-lg p-4">
+            <div>
+              <label className="block text-sm font-medium text-blue-900 mb-1">Sales window (days)</label>
+              <input
+                type="number"
+                min={1}
+                value={windowDays}
+                onChange={(e) => setWindowDays(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && applyWindow()}
+                className="w-28 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              />
+            </div>
+            <button
+              onClick={applyWindow}
+              disabled={loading}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <RefreshCw className="w-4 h-4" />
+              Recalculate
+            </button>
+            <p className="text-xs text-blue-700 flex-1 min-w-[16rem]">
+              Reorder point = average daily sales × supplier lead time ({rules.defaultLeadTimeDays} days unless set for the supplier)
+              + {rules.safetyStockDays} days safety stock, and never below the minimum stock level. Orders top stock up to
+              the reorder point plus {rules.reviewPeriodDays} days of sales, less what is already on order, in whole packs.
+            </p>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto"></div>
+            </div>
+          ) : groups.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              Nothing needs reordering. Stock and open orders cover expected sales.
+            </div>
+          ) : (
+            groups.map(group => (
+              <div key={group.supplier || 'none'} className="border border-gray-300 rounded-lg overflow-hidden">
+                <div className="px-4 py-3 bg-gray-50 border-b flex justify-between items-center">
+                  {group.supplier ? (
+                    <h4 className="font-semibold">{group.supplier}</h4>
+                  ) : (
+                    <h4 className="font-semibold text-orange-700 flex items-center">
+                      <AlertTriangle className="w-4 h-4 mr-1" />
+                      No supplier - choose one to include these lines
+                    </h4>
+                  )}
+                  <span className="text-sm text-gray-600">
+                    {group.lines.filter(line => line.include).length} of {group.lines.length} lines ·{' '}
+                    {formatKES(group.lines.filter(line => line.include).reduce((sum, line) => sum + (line.unitCost || 0) * line.quantity, 0))}
+                  </span>
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead className="bg-white">
+                      <tr className="border-b">
+                        <th className="px-3 py-2"></th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Medicine</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Stock</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">On Order</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Sold</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Per Day</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Reorder Point</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Supplier</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Pack</th>
+                        <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Quantity</th>
+                        <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Unit Cost</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {group.lines.map(line => (
+                        <tr key={line.master.id} className={line.include ? '' : 'opacity-50'}>
+                          <td className="px-3 py-2">
+                            <input
+                              type="checkbox"
+                              checked={line.include}
+                              onChange={(e) => setOverride(line.master.id, { include: e.target.checked })}
+                              className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+                            />
+                          </td>
+                          <td className="px-3 py-2">
+                            <p className="font-medium">{line.master.name}</p>
+                            {line.basis === 'min_stock' && (
+                              <p className="text-xs text-gray-500">No sales in window - topped up from minimum stock</p>
+                            )}
+                          </td>
+                          <td className="px-3 py-2 text-right">{line.stock}</td>
+                          <td className="px-3 py-2 text-right">{line.onOrder || '-'}</td>
+                          <td className="px-3 py-2 text-right">{line.unitsSold}</td>
+                          <td className="px-3 py-2 text-right">{line.averageDailySales.toFixed(1)}</td>
+                          <td className="px-3 py-2 text-right" title={`${line.leadTimeDays}-day lead time, ${line.safetyStock} safety stock`}>
+                            {line.reorderPoint}
+                          </td>
+                          <td className="px-3 py-2">
+                            <select
+                              value={line.supplier}
+                              onChange={(e) => setOverride(line.master.id, { supplier: e.target.value, quantity: undefined })}
+                              className="w-40 px-2 py-1 border border-gray-300 rounded bg-white"
+                            >
+                              <option value="">Select supplier</option>
+                              {suppliers.map(supplier => (
+                                <option key={supplier} value={supplier}>{supplier}</option>
+                              ))}
+                            </select>
+                          </td>
+                          <td className="px-3 py-2">
+                            <input
+                              type="number"
+                              min={1}
+                              value={line.packSize}
+                              onChange={(e) => setOverride(line.master.id, { packSize: Math.max(1, parseInt(e.target.value) || 1), quantity: undefined })}
+                              className="w-16 px-2 py-1 border border-gray-300 rounded"
+                            />
+                          </td>
+                          <td className="px-3 py-2">
+                            <input
+                              type="number"
+                              min={0}
+                              step={line.packSize}
+                              value={line.quantity}
+                              onChange={(e) => setOverride(line.master.id, { quantity: Math.max(0, parseInt(e.target.value) || 0) })}
+                              onBlur={() => setOverride(line.master.id, { quantity: roundToPackSize(line.quantity, line.packSize) })}
+                              className="w-24 px-2 py-1 border border-gray-300 rounded"
+                            />
+                          </td>
+                          <td className="px-3 py-2 text-right">{line.unitCost != null ? formatKES(line.unitCost) : '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            ))
+          )}
+
+          <div className="flex gap-4">
+            <button
+              onClick={createDraftOrders}
+              disabled={creating || loading || orderableGroups.length === 0}
+              className="flex-1 bg-blue-600 text-white py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {creating ? 'Creating...' : `Create ${orderableGroups.length} Draft Order${orderableGroups.length === 1 ? '' : 's'}`}
+            </button>
+            <button
+              onClick={onClose}
+              className="flex-1 bg-gray-300 text-gray-700 py-2 rounded-lg hover:bg-gray-400"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReorderSuggestions;
@@ -0,0 +1,600 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { RotateCcw, Search, X } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useApp } from '../contexts/AppContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useAlert } from '../contexts/AlertContext';
+import { useDataRefresh } from '../contexts/DataRefreshContext';
+import { PaymentMethod, SalePayment, SaleReturn, PAYMENT_METHOD_LABELS } from '../types';
+import { getPaymentTerminal } from '../lib/paymentTerminal';
+import { formatKES } from '../utils/currency';
+import { getErrorMessage } from '../utils/errorMessages';
+import { retryDatabaseOperation } from '../utils/retry';
+
+interface ReturnableLine {
+  saleItemId: string;
+  productName: string;
+  batchNumber?: string;
+  unitPrice: number;
+  // Charged for the line after its discount, and refunded on earlier returns
+  totalPrice: number;
+  refundedAmount: number;
+  soldQuantity: number;
+  returnedQuantity: number;
+}
+
+interface ReturnableSale {
+  id: string;
+  receiptNumber: string;
+  customerName?: string;
+  totalAmount: number;
+  createdAt: Date;
+  paymentMethods: PaymentMethod[];
+  // Terminal transaction of the card payment, so the refund goes back to that card
+  cardTransactionId?: string;
+  // Paid per tender, and how much of each earlier returns refunded
+  paid: Partial<Record<PaymentMethod, number>>;
+  refunded: Partial<Record<PaymentMethod, number>>;
+  lines: ReturnableLine[];
+}
+
+interface SaleReturnModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  initialReceiptNumber?: string;
+}
+
+const RETURN_REASONS = [
+  'Wrong item dispensed',
+  'Adverse reaction',
+  'Prescription changed',
+  'Damaged/Defective',
+  'Customer changed mind',
+  'Other',
+];
+
+// The line's share of what was charged, worked out as process_sale_return
+// does: the last units returned get whatever is left of the line
+const getLineRefund = (line: ReturnableLine, quantity: number): number => {
+  if (quantity <= 0) return 0;
+
+  const left = Math.round((line.totalPrice - line.refundedAmount) * 100) / 100;
+  if (quantity === line.soldQuantity - line.returnedQuantity) return Math.max(left, 0);
+
+  return Math.max(Math.min(Math.round(line.totalPrice * quantity / line.soldQuantity * 100) / 100, left), 0);
+};
+
+const SaleReturnModal: React.FC<SaleReturnModalProps> = ({ isOpen, onClose, initialReceiptNumber }) => {
+  const { addSaleReturn, recordReturnCardRefund, refundToMpesa } = useApp();
+  const { canManagePricing } = useAuth();
+  const { showAlert } = useAlert();
+  const { triggerRefresh } = useDataRefresh();
+  const [receiptNumber, setReceiptNumber] = useState('');
+  const [sale, setSale] = useState<ReturnableSale | null>(null);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState(RETURN_REASONS[0]);
+  const [notes, setNotes] = useState('');
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>('cash');
+  const [refundReference, setRefundReference] = useState('');
+  const [sendToMpesa, setSendToMpesa] = useState(true);
+  const [mpesaPhone, setMpesaPhone] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  // Kept across retries so a retried return cannot be recorded or refunded twice
+  const [returnId, setReturnId] = useState(() => crypto.randomUUID());
+  const [recordedReturn, setRecordedReturn] = useState<SaleReturn | null>(null);
+  const [approvedCardRefund, setApprovedCardRefund] = useState<SalePayment | null>(null);
+
+  const lookupReceipt = useCallback(async (receipt: string) => {
+    const trimmed = receipt.trim().toUpperCase();
+    if (!trimmed) return;
+
+    try {
+      setLoading(true);
+      setSale(null);
+      setQuantities({});
+      setReturnId(crypto.randomUUID());
+
+      const { data: saleData, error: saleError } = await supabase
+        .from('sales')
+        .select(`
+          id,
+          receipt_number,
+          customer_name,
+          total_amount,
+          payment_method,
+          created_at,
+          sale_items (
+            id,
+            product_name,
+            quantity,
+            unit_price,
+            total_price,
+            batch_number
+          ),
+          sale_payments (
+            payment_method,
+            amount,
+            terminal_transaction_id
+          )
+        `)
+        .eq('receipt_number', trimmed)
+        .maybeSingle();
+
+      if (saleError) throw saleError;
+
+      if (!saleData) {
+        showAlert({ title: 'Return Items', message: `Receipt ${trimmed} was not found`, type: 'warning' });
+        return;
+      }
+
+      // Quantities already returned against this receipt
+      const { data: returnedData, error: returnedError } = await supabase
+        .from('invoice_reversal_items')
+        .select('original_sale_item_id, quantity, refund_amount, invoice_reversals!inner(original_sale_id)')
+        .eq('invoice_reversals.original_sale_id', saleData.id);
+
+      if (returnedError) throw returnedError;
+
+      const { data: refundedData, error: refundedError } = await supabase
+        .from('sale_return_payments')
+        .select('payment_method, amount, invoice_reversals!inner(original_sale_id)')
+        .eq('invoice_reversals.original_sale_id', saleData.id);
+
+      if (refundedError) throw refundedError;
+
+      const returnedBySaleItem: Record<string, number> = {};
+      const refundedBySaleItem: Record<string, number> = {};
+      (returnedData || []).forEach(row => {
+        if (row.original_sale_item_id) {
+          returnedBySaleItem[row.original_sale_item_id] = (returnedBySaleItem[row.original_sale_item_id] || 0) + row.quantity;
+          refundedBySaleItem[row.original_sale_item_id] = (refundedBySaleItem[row.original_sale_item_id] || 0) + (Number(row.refund_amount) || 0);
+        }
+      });
+
+      const paymentMethods = (saleData.sale_payments || []).map(payment => payment.payment_method as PaymentMethod);
+      const paid: Partial<Record<PaymentMethod, number>> = {};
+      (saleData.sale_payments || []).forEach(payment => {
+        const method = payment.payment_method as PaymentMethod;
+        paid[method] = (paid[method] || 0) + (Number(payment.amount) || 0);
+      });
+      if (paymentMethods.length === 0 && saleData.payment_method !== 'split') {
+        paymentMethods.push(saleData.payment_method as PaymentMethod);
+        paid[saleData.payment_method as PaymentMethod] = Number(saleData.total_amount) || 0;
+      }
+
+      const refunded: Partial<Record<PaymentMethod, number>> = {};
+      (refundedData || []).forEach(row => {
+        const method = row.payment_method as PaymentMethod;
+        refunded[method] = (refunded[method] || 0) + (Number(row.amount) || 0);
+      });
+
+      setSale({
+        id: saleData.id,
+        receiptNumber: saleData.receipt_number,
+        customerName: saleData.customer_name || undefined,
+        totalAmount: Number(saleData.total_amount) || 0,
+        createdAt: new Date(saleData.created_at),
+        paymentMethods,
+        cardTransactionId: (saleData.sale_payments || [])
+          .find(payment => payment.terminal_transaction_id)?.terminal_transaction_id || undefined,
+        paid,
+        refunded,
+        lines: (saleData.sale_items || []).map(item => ({
+          saleItemId: item.id,
+          productName: item.product_name,
+          batchNumber: item.batch_number || undefined,
+          unitPrice: Number(item.unit_price) || 0,
+          totalPrice: Number(item.total_price) || 0,
+          refundedAmount: refundedBySaleItem[item.id] || 0,
+          soldQuantity: item.quantity,
+          returnedQuantity: returnedBySaleItem[item.id] || 0,
+        })),
+      });
+      setRefundMethod(paymentMethods.find(method => method !== 'loyalty') || 'cash');
+    } catch (error) {
+      console.error('Error looking up receipt:', error);
+      showAlert({ title: 'Return Items', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [showAlert]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setSale(null);
+    setQuantities({});
+    setReason(RETURN_REASONS[0]);
+    setNotes('');
+    setRefundReference('');
+    setSendToMpesa(true);
+    setMpesaPhone('');
+    setRecordedReturn(null);
+    setApprovedCardRefund(null);
+    setReceiptNumber(initialReceiptNumber || '');
+
+    if (initialReceiptNumber) {
+      lookupReceipt(initialReceiptNumber);
+    }
+  }, [isOpen, initialReceiptNumber, lookupReceipt]);
+
+  const setLineQuantity = (line: ReturnableLine, value: number) => {
+    const maxQuantity = line.soldQuantity - line.returnedQuantity;
+    setQuantities(prev => ({
+      ...prev,
+      [line.saleItemId]: Math.min(maxQuantity, Math.max(0, value || 0)),
+    }));
+  };
+
+  const refundTotal = sale
+    ? Math.round(sale.lines.reduce((sum, line) => sum + getLineRefund(line, quantities[line.saleItemId] || 0), 0) * 100) / 100
+    : 0;
+
+  // The part paid with points is credited back as points, worked out the same
+  // way as process_sale_return; the last return settles whatever is left
+  const remainingFor = (method: PaymentMethod) => sale
+    ? Math.max(0, Math.round(((sale.paid[method] || 0) - (sale.refunded[method] || 0)) * 100) / 100)
+    : 0;
+  const loyaltyRemaining = remainingFor('loyalty');
+  const fullyReturned = !!sale && sale.lines.every(line =>
+    line.returnedQuantity + (quantities[line.saleItemId] || 0) >= line.soldQuantity
+  );
+  const loyaltyRefund = !sale || loyaltyRemaining === 0 || refundTotal === 0
+    ? 0
+    : fullyReturned
+      ? loyaltyRemaining
+      : Math.min(loyaltyRemaining, Math.round(refundTotal * (sale.paid.loyalty || 0) / sale.totalAmount * 100) / 100);
+  const payoutTotal = Math.round((refundTotal - loyaltyRefund) * 100) / 100;
+
+  // A card only gets back what it paid, as process_sale_return checks
+  const cardRemaining = remainingFor('card');
+  const cardRefundTooLarge = refundMethod === 'card' && payoutTotal > cardRemaining;
+
+  // Admins can pay an M-Pesa refund straight back to the customer; M-Pesa
+  // only moves whole shillings
+  const canSendToMpesa = canManagePricing && refundMethod === 'mpesa' && !!sale?.paymentMethods.includes('mpesa');
+  const willSendToMpesa = canSendToMpesa && sendToMpesa && payoutTotal > 0 && Number.isInteger(payoutTotal);
+
+  const submitReturn = async () => {
+    if (!sale) return;
+
+    const items = sale.lines
+      .filter(line => (quantities[line.saleItemId] || 0) > 0)
+      .map(line => ({ saleItemId: line.saleItemId, quantity: quantities[line.saleItemId] }));
+
+    if (items.length === 0) {
+      showAlert({ title: 'Return Items', message: 'Select at least one item to return', type: 'warning' });
+      return;
+    }
+
+    if (reason === 'Other' && !notes.trim()) {
+      showAlert({ title: 'Return Items', message: 'Please describe the reason for the return', type: 'warning' });
+      return;
+    }
+
+    if (!recordedReturn && cardRefundTooLarge) {
+      showAlert({
+        title: 'Return Items',
+        message: `Only ${formatKES(cardRemaining)} of this sale can go back to the card. Refund the rest another way.`,
+        type: 'warning'
+      });
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      // The return is recorded before any money moves, like the M-Pesa
+      // refund below, so a refund is never made for a return that failed
+      let saleReturn = recordedReturn;
+      if (!saleReturn) {
+        const refund: SalePayment = { method: refundMethod, amount: payoutTotal, reference: refundReference.trim() || undefined };
+        saleReturn = await retryDatabaseOperation(
+          () => addSaleReturn(
+            sale.id,
+            items,
+            payoutTotal > 0 ? [refund] : [],
+            reason,
+            notes.trim() || undefined,
+            returnId
+          ),
+          'Process return'
+        );
+        setRecordedReturn(saleReturn);
+        triggerRefresh(['sales', 'inventory']);
+      }
+
+      // Card refunds go through the terminal when this till has one. An
+      // approval is kept so a retry only records it, never refunds again
+      const cardTender = saleReturn.refunds.find(tender => tender.method === 'card');
+      const terminal = cardTender && !cardTender.terminalTransactionId ? getPaymentTerminal() : null;
+      if (cardTender && terminal) {
+        let cardRefund = approvedCardRefund;
+        if (!cardRefund) {
+          const result = await terminal.refund({
+            amount: cardTender.amount,
+            reference: saleReturn.id,
+            originalTransactionId: sale.cardTransactionId,
+          });
+          if (result.status !== 'approved') {
+            showAlert({
+              title: 'Return Items',
+              message: `Return ${saleReturn.returnNumber} recorded, but the card refund was ${result.status}: ${result.message || 'no reason given'}. Retry the card refund before closing.`,
+              type: 'warning'
+            });
+            return;
+          }
+          cardRefund = {
+            ...cardTender,
+            reference: result.approvalCode,
+            approvalCode: result.approvalCode,
+            maskedPan: result.maskedPan,
+            terminalId: result.terminalId,
+            terminalTransactionId: result.transactionId,
+          };
+          setApprovedCardRefund(cardRefund);
+        }
+
+        const recordedId = saleReturn.id;
+        const approved = cardRefund;
+        saleReturn = await retryDatabaseOperation(
+          () => recordReturnCardRefund(recordedId, approved),
+          'Record card refund'
+        );
+        setRecordedReturn(saleReturn);
+      }
+
+      if (willSendToMpesa) {
+        try {
+          const mpesaRefund = await refundToMpesa(sale.id, payoutTotal, reason, mpesaPhone.trim() || undefined, saleReturn.id);
+          if (mpesaRefund.status === 'failed') {
+            throw new Error(mpesaRefund.resultDescription || 'M-Pesa did not accept the refund');
+          }
+        } catch (error) {
+          showAlert({
+            title: 'Return Items',
+            message: `Return ${saleReturn.returnNumber} recorded, but the M-Pesa refund was not sent: ${getErrorMessage(error)}. Send it again from Refund to M-Pesa in the sales report.`,
+            type: 'warning'
+          });
+          onClose();
+          return;
+        }
+      }
+
+      const pointsRefund = saleReturn.refunds.find(tender => tender.method === 'loyalty');
+      const payout = saleReturn.refunds.filter(tender => tender.method !== 'loyalty')
+        .reduce((sum, tender) => sum + tender.amount, 0);
+      showAlert({
+        title: 'Return Items',
+        message: [
+          `Return ${saleReturn.returnNumber} recorded.`,
+          payout > 0 && `Refund ${formatKES(payout)} via ${PAYMENT_METHOD_LABELS[refundMethod]}.`,
+          pointsRefund && `${formatKES(pointsRefund.amount)} credited back as loyalty points.`,
+        ].filter(Boolean).join(' '),
+        type: 'success'
+      });
+      onClose();
+    } catch (error) {
+      showAlert({ title: 'Return Items', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold flex items-center">
+            <RotateCcw className="h-5 w-5 mr-2" />
+            Return Items
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="flex space-x-2 mb-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-2.5 h-4 w-4 text-gray-400" />
+            <input
+              type="text"
+              value={receiptNumber}
+              onChange={(e) => setReceiptNumber(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && lookupReceipt(receiptNumber)}
+              placeholder="Receipt number, e.g. WSB000123"
+              disabled={!!recordedReturn}
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+          </div>
+          <button
+            onClick={() => lookupReceipt(receiptNumber)}
+            disabled={loading || !receiptNumber.trim() || !!recordedReturn}
+            className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+          >
+            {loading ? 'Searching...' : 'Find'}
+          </button>
+        </div>
+
+        {sale && (
+          // Locked once the return is recorded; only the card refund can be retried
+          <fieldset disabled={!!recordedReturn}>
+            <div className="mb-4 p-3 bg-gray-50 rounded-lg text-sm text-gray-700">
+              <p><span className="font-medium">Receipt:</span> {sale.receiptNumber}</p>
+              <p><span className="font-medium">Date:</span> {sale.createdAt.toLocaleString('en-KE')}</p>
+              {sale.customerName && <p><span className="font-medium">Customer:</span> {sale.customerName}</p>}
+              <p><span className="font-medium">Total:</span> {formatKES(sale.totalAmount)}</p>
+            </div>
+
+            <div className="overflow-x-auto mb-4">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-medium text-gray-500 uppercase">Item</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Price</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Sold</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Returned</th>
+                    <th className="px-3 py-2 text-right text-xs font-medium text-gray-500 uppercase">Return Qty</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {sale.lines.map(line => {
+                    const remaining = line.soldQuantity - line.returnedQuantity;
+                    return (
+                      <tr key={line.saleItemId}>
+                        <td className="px-3 py-2">
+                          <p className="font-medium text-gray-900">{line.productName}</p>
+                          {line.batchNumber && <p className="text-xs text-gray-500">Batch: {line.batchNumber}</p>}
+                        </td>
+                        <td className="px-3 py-2 text-right">{formatKES(line.unitPrice)}</td>
+                        <td className="px-3 py-2 text-right">{line.soldQuantity}</td>
+                        <td className="px-3 py-2 text-right">{line.returnedQuantity}</td>
+                        <td className="px-3 py-2 text-right">
+                          <input
+                            type="number"
+                            min={0}
+                            max={remaining}
+                            value={quantities[line.saleItemId] || 0}
+                            onChange={(e) => setLineQuantity(line, parseInt(e.target.value))}
+                            disabled={remaining === 0}
+                            className="w-20 px-2 py-1 border border-gray-300 rounded text-right focus:outline-none focus:ring-2 focus:ring-green-500 disabled:bg-gray-100"
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <select
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  {RETURN_REASONS.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Refund Via</label>
+                <select
+                  value={refundMethod}
+                  onChange={(e) => setRefundMethod(e.target.value as PaymentMethod)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  {/* The share paid with points is credited back as points by the return itself */}
+                  {(Object.keys(PAYMENT_METHOD_LABELS) as PaymentMethod[]).filter(method => method !== 'loyalty').map(method => (
+                    <option key={method} value={method}>
+                      {PAYMENT_METHOD_LABELS[method]}{sale.paymentMethods.includes(method) ? ' (original tender)' : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+
+            {cardRefundTooLarge && !recordedReturn ? (
+              <p className="mb-4 text-sm text-orange-600">
+                Only {formatKES(cardRemaining)} of this sale can go back to the card.
+              </p>
+            ) : refundMethod === 'card' && getPaymentTerminal() ? (
+              <p className="mb-4 text-sm text-gray-600">
+                The refund will be sent to the card terminal once the return is recorded.
+              </p>
+            ) : canSendToMpesa ? (
+              <div className="mb-4 space-y-2">
+                <label className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={sendToMpesa}
+                    onChange={(e) => setSendToMpesa(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Send the refund to the customer's M-Pesa
+                </label>
+                {sendToMpesa && payoutTotal > 0 && !Number.isInteger(payoutTotal) && (
+                  <p className="text-xs text-orange-600">M-Pesa refunds are in whole shillings; send this one by hand.</p>
+                )}
+                {willSendToMpesa ? (
+                  <input
+                    type="tel"
+                    value={mpesaPhone}
+                    onChange={(e) => setMpesaPhone(e.target.value)}
+                    placeholder="Customer's M-Pesa number, for a part refund"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                ) : (
+                  <input
+                    type="text"
+                    value={refundReference}
+                    onChange={(e) => setRefundReference(e.target.value)}
+                    placeholder="M-Pesa code of the refund"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                )}
+              </div>
+            ) : refundMethod !== 'cash' && (
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Refund Reference</label>
+                <input
+                  type="text"
+                  value={refundReference}
+                  onChange={(e) => setRefundReference(e.target.value)}
+                  placeholder="M-Pesa code, card reversal slip..."
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+            )}
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+            </div>
+
+            {loyaltyRefund > 0 && (
+              <div className="flex justify-between items-center px-3 mb-2 text-sm text-gray-600">
+                <span>Credited back as loyalty points</span>
+                <span>{formatKES(loyaltyRefund)}</span>
+              </div>
+            )}
+
+            <div className="flex justify-between items-center p-3 bg-red-50 rounded-lg mb-4">
+              <span className="font-medium text-gray-700">Refund Total</span>
+              <span className="text-xl font-bold text-red-600">{formatKES(payoutTotal)}</span>
+            </div>
+          </fieldset>
+        )}
+
+        <div className="flex space-x-3">
+          <button
+            onClick={submitReturn}
+            disabled={!sale || refundTotal <= 0 || submitting}
+            className="flex-1 bg-red-600 text-white py-2 px-4 rounded-lg hover:bg-red-700 disabled:bg-gray-400"
+          >
+            {submitting ? 'Processing...' : recordedReturn ? 'Retry Card Refund' : 'Process Return'}
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 bg-gray-600 text-white py-2 px-4 rounded-lg hover:bg-gray-700"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SaleReturnModal;
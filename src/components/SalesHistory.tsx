@@ -8,21 +8,30 @@ import {
   Package,
   DollarSign,
   ShoppingCart,
-  CreditCard
+  CreditCard,
+  RotateCcw,
+  Printer,
+  Smartphone
 } from 'lucide-react';
 import { useAlert } from '../contexts/AlertContext';
 import { formatKES } from '../utils/currency';
+import { getErrorMessage } from '../utils/errorMessages';
 import { useAuth } from '../contexts/AuthContext';
+import { useApp } from '../contexts/AppContext';
 import { supabase } from '../lib/supabase';
 import Pagination from './Pagination';
+import SaleReturnModal from './SaleReturnModal';
+import MpesaRefundModal from './MpesaRefundModal';
+import SyncExceptionsReview from './SyncExceptionsReview';
 import { useAutoRefresh } from '../contexts/DataRefreshContext';
+import { PaymentMethod } from '../types';
 
 interface SaleData {
   id: string;
   receipt_number: string;
   customer_name: string | null;
   total_amount: number;
-  payment_method: 'cash' | 'mpesa' | 'card' | 'insurance';
+  payment_method: PaymentMethod | 'split';
   sales_person_name: string;
   created_at: string;
   sale_items: {
@@ -31,17 +40,61 @@ interface SaleData {
     unit_price: number;
     total_price: number;
   }[];
+  sale_payments: {
+    payment_method: PaymentMethod;
+    amount: number;
+    reference: string | null;
+  }[];
+  sale_discounts?: {
+    description: string;
+    amount: number;
+  }[];
+  is_return?: boolean;
+  // Money sent back over M-Pesa without items being returned
+  is_mpesa_refund?: boolean;
 }
 
+// Tender lines of a sale; sales recorded before split tender have none
+const getSaleTenders = (sale: SaleData): SaleData['sale_payments'] => {
+  if (sale.sale_payments && sale.sale_payments.length > 0) {
+    return sale.sale_payments;
+  }
+  return sale.payment_method === 'split'
+    ? []
+    : [{ payment_method: sale.payment_method, amount: sale.total_amount, reference: null }];
+};
+
+const getSaleMethodLabel = (sale: SaleData): string => {
+  const methods = Array.from(new Set(getSaleTenders(sale).map(tender => tender.payment_method)));
+  return methods.length > 1 ? 'SPLIT' : (methods[0] || sale.payment_method).toUpperCase();
+};
+
 interface PaymentMethodStats {
   cash: number;
   mpesa: number;
   card: number;
   insurance: number;
+  loyalty: number;
 }
 
+const getWeeksInMonth = (year: number, month: number) => {
+  const firstDay = new Date(year, month - 1, 1);
+  const lastDay = new Date(year, month, 0);
+  const days = lastDay.getDate();
+  return Math.ceil(days / 7);
+};
+
+const getWeekDateRange = (year: number, month: number, week: number) => {
+  const startDay = (week - 1) * 7 + 1;
+  const endDay = Math.min(week * 7, new Date(year, month, 0).getDate());
+  const startDate = new Date(year, month - 1, startDay);
+  const endDate = new Date(year, month - 1, endDay, 23, 59, 59, 999);
+  return { startDate, endDate };
+};
+
 const SalesHistory: React.FC = () => {
-  const { user } = useAuth();
+  const { user, canManagePricing } = useAuth();
+  const { reprintReceipt } = useApp();
   const { showAlert } = useAlert();
 
   const [salesData, setSalesData] = useState<SaleData[]>([]);
@@ -49,6 +102,8 @@ const SalesHistory: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [filterType, setFilterType] = useState<'day' | 'week' | 'month' | 'year' | 'custom'>('day');
   const [paymentFilter, setPaymentFilter] = useState('all');
+  const [returnReceipt, setReturnReceipt] = useState<string | null>(null);
+  const [mpesaRefundSale, setMpesaRefundSale] = useState<{ id: string; receiptNumber: string } | null>(null);
 
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth() + 1);
@@ -60,21 +115,54 @@ const SalesHistory: React.FC = () => {
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 20;
 
-  const fetchSalesDataCallback = useCallback(() => {
-    fetchSalesData();
-  }, []);
+  // Sales, returns and refunds are all loaded for the selected period only
+  const dateRange = useMemo(() => {
+    let startDate: Date | null = null;
+    let endDate: Date | null = null;
 
-  useEffect(() => {
-    fetchSalesData();
-  }, []);
+    switch (filterType) {
+      case 'day': {
+        const selected = new Date(selectedDate);
+        startDate = new Date(selected.getFullYear(), selected.getMonth(), selected.getDate());
+        endDate = new Date(selected.getFullYear(), selected.getMonth(), selected.getDate(), 23, 59, 59, 999);
+        break;
+      }
+      case 'week': {
+        const range = getWeekDateRange(selectedYear, selectedMonth, selectedWeek);
+        startDate = range.startDate;
+        endDate = range.endDate;
+        break;
+      }
+      case 'month': {
+        startDate = new Date(selectedYear, selectedMonth - 1, 1);
+        endDate = new Date(selectedYear, selectedMonth, 0, 23, 59, 59, 999);
+        break;
+      }
+      case 'year': {
+        startDate = new Date(selectedYear, 0, 1);
+        endDate = new Date(selectedYear, 11, 31, 23, 59, 59, 999);
+        break;
+      }
+      case 'custom': {
+        if (customStartDate && customEndDate) {
+          startDate = new Date(customStartDate);
+          endDate = new Date(customEndDate);
+          endDate.setHours(23, 59, 59, 999);
+        }
+        break;
+      }
+    }
 
-  useAutoRefresh('sales', fetchSalesDataCallback);
+    return startDate && endDate
+      ? { from: startDate.toISOString(), to: endDate.toISOString() }
+      : null;
+  }, [filterType, selectedDate, selectedYear, selectedMonth, selectedWeek, customStartDate, customEndDate]);
 
-  const fetchSalesData = async () => {
+  const fetchSalesData = useCallback(async () => {
     try {
       setLoading(true);
 
-      const { data: sales, error } = await supabase
+      let salesQuery = supabase
         .from('sales')
         .select(`
           id,
@@ -89,13 +177,130 @@ const SalesHistory: React.FC = () => {
             quantity,
             unit_price,
             total_price
+          ),
+          sale_payments (
+            payment_method,
+            amount,
+            reference
+          ),
+          sale_discounts (
+            description,
+            amount
+          )
+        `)
+        .order('created_at', { ascending: false });
+
+      // Customer returns are listed as negative lines so period totals are net of refunds
+      let returnsQuery = supabase
+        .from('invoice_reversals')
+        .select(`
+          id,
+          reversal_number,
+          total_amount,
+          original_sale_id,
+          user_name,
+          created_at,
+          invoice_reversal_items (
+            product_name,
+            quantity,
+            selling_price,
+            refund_amount
+          ),
+          sale_return_payments (
+            payment_method,
+            amount,
+            reference
           )
         `)
+        .eq('reversal_type', 'sales')
         .order('created_at', { ascending: false });
 
+      // Refunds for a return are already in its refund tender
+      let mpesaRefundsQuery = supabase
+        .from('mpesa_refunds')
+        .select('id, sale_id, amount, mpesa_receipt_number, requested_by_name, completed_at')
+        .eq('status', 'completed')
+        .is('sale_return_id', null)
+        .order('completed_at', { ascending: false });
+
+      if (dateRange) {
+        salesQuery = salesQuery.gte('created_at', dateRange.from).lte('created_at', dateRange.to);
+        returnsQuery = returnsQuery.gte('created_at', dateRange.from).lte('created_at', dateRange.to);
+        mpesaRefundsQuery = mpesaRefundsQuery.gte('completed_at', dateRange.from).lte('completed_at', dateRange.to);
+      }
+
+      const { data: sales, error } = await salesQuery;
       if (error) throw error;
 
-      setSalesData(sales || []);
+      const { data: returns, error: returnsError } = await returnsQuery;
+      if (returnsError) throw returnsError;
+
+      const { data: mpesaRefunds, error: mpesaRefundsError } = await mpesaRefundsQuery;
+      if (mpesaRefundsError) throw mpesaRefundsError;
+
+      const customerBySale = new Map((sales || []).map(sale => [sale.id, sale.customer_name]));
+      const receiptBySale = new Map((sales || []).map(sale => [sale.id, sale.receipt_number]));
+
+      // A refund in the period can be against a sale made before it
+      const earlierSaleIds = Array.from(new Set([
+        ...(returns || []).map(saleReturn => saleReturn.original_sale_id),
+        ...(mpesaRefunds || []).map(refund => refund.sale_id),
+      ])).filter(saleId => saleId && !receiptBySale.has(saleId));
+
+      if (earlierSaleIds.length > 0) {
+        const { data: earlierSales, error: earlierSalesError } = await supabase
+          .from('sales')
+          .select('id, receipt_number, customer_name')
+          .in('id', earlierSaleIds);
+
+        if (earlierSalesError) throw earlierSalesError;
+
+        (earlierSales || []).forEach(sale => {
+          customerBySale.set(sale.id, sale.customer_name);
+          receiptBySale.set(sale.id, sale.receipt_number);
+        });
+      }
+
+      const returnLines: SaleData[] = (returns || []).map(saleReturn => ({
+        id: saleReturn.id,
+        receipt_number: saleReturn.reversal_number,
+        customer_name: customerBySale.get(saleReturn.original_sale_id) || null,
+        total_amount: -Number(saleReturn.total_amount),
+        payment_method: saleReturn.sale_return_payments?.[0]?.payment_method || 'cash',
+        sales_person_name: saleReturn.user_name,
+        created_at: saleReturn.created_at,
+        sale_items: (saleReturn.invoice_reversal_items || []).map((item: { product_name: string; quantity: number; selling_price: number; refund_amount: number }) => ({
+          product_name: item.product_name,
+          quantity: -item.quantity,
+          unit_price: Number(item.selling_price),
+          total_price: -Number(item.refund_amount),
+        })),
+        sale_payments: (saleReturn.sale_return_payments || []).map((refund: SaleData['sale_payments'][number]) => ({
+          ...refund,
+          amount: -Number(refund.amount),
+        })),
+        is_return: true,
+      }));
+
+      const mpesaRefundLines: SaleData[] = (mpesaRefunds || []).map(refund => ({
+        id: refund.id,
+        receipt_number: receiptBySale.get(refund.sale_id) || '-',
+        customer_name: customerBySale.get(refund.sale_id) || null,
+        total_amount: -Number(refund.amount),
+        payment_method: 'mpesa',
+        sales_person_name: refund.requested_by_name,
+        created_at: refund.completed_at,
+        sale_items: [],
+        sale_payments: [{ payment_method: 'mpesa', amount: -Number(refund.amount), reference: refund.mpesa_receipt_number }],
+        is_return: true,
+        is_mpesa_refund: true,
+      }));
+
+      setSalesData(
+        [...(sales || []), ...returnLines, ...mpesaRefundLines].sort(
+          (a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+        )
+      );
     } catch (error) {
       console.error('Error fetching sales data:', error);
       showAlert({
@@ -106,22 +311,13 @@ const SalesHistory: React.FC = () => {
     } finally {
       setLoading(false);
     }
-  };
+  }, [dateRange, showAlert]);
 
-  const getWeeksInMonth = (year: number, month: number) => {
-    const firstDay = new Date(year, month - 1, 1);
-    const lastDay = new Date(year, month, 0);
-    const days = lastDay.getDate();
-    return Math.ceil(days / 7);
-  };
+  useEffect(() => {
+    fetchSalesData();
+  }, [fetchSalesData]);
 
-  const getWeekDateRange = (year: number, month: number, week: number) => {
-    const startDay = (week - 1) * 7 + 1;
-    const endDay = Math.min(week * 7, new Date(year, month, 0).getDate());
-    const startDate = new Date(year, month - 1, startDay);
-    const endDate = new Date(year, month - 1, endDay, 23, 59, 59, 999);
-    return { startDate, endDate };
-  };
+  useAutoRefresh('sales', fetchSalesData);
 
   const filteredSales = useMemo(() => {
     let filtered = [...salesData];
@@ -137,69 +333,30 @@ const SalesHistory: React.FC = () => {
     }
 
     if (paymentFilter !== 'all') {
-      filtered = filtered.filter(sale => sale.payment_method === paymentFilter);
-    }
-
-    const now = new Date();
-    let startDate: Date | null = null;
-    let endDate: Date | null = null;
-
-    switch (filterType) {
-      case 'day': {
-        const selected = new Date(selectedDate);
-        startDate = new Date(selected.getFullYear(), selected.getMonth(), selected.getDate());
-        endDate = new Date(selected.getFullYear(), selected.getMonth(), selected.getDate(), 23, 59, 59, 999);
-        break;
-      }
-      case 'week': {
-        const range = getWeekDateRange(selectedYear, selectedMonth, selectedWeek);
-        startDate = range.startDate;
-        endDate = range.endDate;
-        break;
-      }
-      case 'month': {
-        startDate = new Date(selectedYear, selectedMonth - 1, 1);
-        endDate = new Date(selectedYear, selectedMonth, 0, 23, 59, 59, 999);
-        break;
-      }
-      case 'year': {
-        startDate = new Date(selectedYear, 0, 1);
-        endDate = new Date(selectedYear, 11, 31, 23, 59, 59, 999);
-        break;
-      }
-      case 'custom': {
-        if (customStartDate && customEndDate) {
-          startDate = new Date(customStartDate);
-          endDate = new Date(customEndDate);
-          endDate.setHours(23, 59, 59, 999);
-        }
-        break;
-      }
-    }
-
-    if (startDate && endDate) {
-      filtered = filtered.filter(sale => {
-        const saleDate = new Date(sale.created_at);
-        return saleDate >= startDate! && saleDate <= endDate!;
-      });
+      filtered = filtered.filter(sale =>
+        getSaleTenders(sale).some(tender => tender.payment_method === paymentFilter)
+      );
     }
 
     return filtered;
-  }, [salesData, searchTerm, paymentFilter, filterType, selectedDate, selectedYear, selectedMonth, selectedWeek, customStartDate, customEndDate]);
+  }, [salesData, searchTerm, paymentFilter]);
 
   const statistics = useMemo(() => {
-    const uniqueTransactions = filteredSales.length;
+    const uniqueTransactions = filteredSales.filter(sale => !sale.is_return).length;
     const totalSales = filteredSales.reduce((sum, sale) => sum + Number(sale.total_amount), 0);
 
     const paymentMethodTotals: PaymentMethodStats = {
       cash: 0,
       mpesa: 0,
       card: 0,
-      insurance: 0
+      insurance: 0,
+      loyalty: 0
     };
 
     filteredSales.forEach(sale => {
-      paymentMethodTotals[sale.payment_method] += Number(sale.total_amount);
+      getSaleTenders(sale).forEach(tender => {
+        paymentMethodTotals[tender.payment_method] += Number(tender.amount);
+      });
     });
 
     const totalDrugsSold = filteredSales.reduce((sum, sale) => {
@@ -277,6 +434,9 @@ const SalesHistory: React.FC = () => {
     <div class="stat-box">
       <strong>Insurance:</strong> ${formatKES(statistics.paymentMethodTotals.insurance)}
     </div>
+    <div class="stat-box">
+      <strong>Loyalty Points:</strong> ${formatKES(statistics.paymentMethodTotals.loyalty)}
+    </div>
   </div>
 
   <table>
@@ -296,7 +456,7 @@ const SalesHistory: React.FC = () => {
       <td>${sale.customer_name || 'N/A'}</td>
       <td>${sale.sale_items.map(item => `${item.product_name} (${item.quantity})`).join(', ')}</td>
       <td>${formatKES(sale.total_amount)}</td>
-      <td>${sale.payment_method.toUpperCase()}</td>
+      <td>${getSaleTenders(sale).map(tender => `${tender.payment_method.toUpperCase()} ${formatKES(tender.amount)}`).join(', ')}</td>
       <td>${sale.sales_person_name}</td>
     </tr>
     `).join('')}
@@ -323,6 +483,15 @@ const SalesHistory: React.FC = () => {
     }
   };
 
+  const handleReprint = async (saleId: string) => {
+    try {
+      await reprintReceipt(saleId);
+    } catch (error) {
+      console.error('Error reprinting receipt:', error);
+      showAlert({ title: 'Sales History', message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
   const getFilterDescription = () => {
     switch (filterType) {
       case 'day':
@@ -376,6 +545,8 @@ const SalesHistory: React.FC = () => {
         </button>
       </div>
 
+      {canManagePricing && <SyncExceptionsReview />}
+
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <div className="bg-white p-6 rounded-lg shadow-sm border">
           <div className="flex items-center justify-between">
@@ -428,7 +599,7 @@ const SalesHistory: React.FC = () => {
 
       <div className="bg-white p-6 rounded-lg shadow-sm border">
         <h3 className="text-lg font-semibold text-gray-900 mb-4">Payment Method Breakdown</h3>
-        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
           <div className="text-center p-4 bg-gray-50 rounded-lg">
             <p className="text-sm text-gray-600 mb-1">Cash</p>
             <p className="text-lg font-bold text-gray-900">{formatKES(statistics.paymentMethodTotals.cash)}</p>
@@ -445,6 +616,10 @@ const SalesHistory: React.FC = () => {
             <p className="text-sm text-gray-600 mb-1">Insurance</p>
             <p className="text-lg font-bold text-gray-900">{formatKES(statistics.paymentMethodTotals.insurance)}</p>
           </div>
+          <div className="text-center p-4 bg-gray-50 rounded-lg">
+            <p className="text-sm text-gray-600 mb-1">Loyalty Points</p>
+            <p className="text-lg font-bold text-gray-900">{formatKES(statistics.paymentMethodTotals.loyalty)}</p>
+          </div>
         </div>
       </div>
 
@@ -645,18 +820,19 @@ const SalesHistory: React.FC = () => {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Amount</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Payment</th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sales Person</th>
+                    <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                   {paginatedSales.length === 0 ? (
                     <tr>
-                      <td colSpan={7} className="px-6 py-8 text-center text-gray-500">
+                      <td colSpan={8} className="px-6 py-8 text-center text-gray-500">
                         No sales found for the selected period
                       </td>
                     </tr>
                   ) : (
                     paginatedSales.map((sale) => (
-                      <tr key={sale.id} className="hover:bg-gray-50">
+                      <tr key={sale.id} className={sale.is_return ? 'bg-red-50 hover:bg-red-100' : 'hover:bg-gray-50'}>
                         <td className="px-6 py-4 whitespace-nowrap">
                           <div className="text-sm text-gray-900">
                             {new Date(sale.created_at).toLocaleDateString('en-KE')}
@@ -667,6 +843,11 @@ const SalesHistory: React.FC = () => {
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
                           {sale.receipt_number}
+                          {sale.is_return && (
+                            <span className="ml-2 text-xs bg-red-100 text-red-800 px-2 py-0.5 rounded-full">
+                              {sale.is_mpesa_refund ? 'M-PESA REFUND' : 'RETURN'}
+                            </span>
+                          )}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {sale.customer_name || 'N/A'}
@@ -678,24 +859,62 @@ const SalesHistory: React.FC = () => {
                                 {item.product_name} x{item.quantity}
                               </div>
                             ))}
+                            {(sale.sale_discounts || []).map((discount, idx) => (
+                              <div key={`discount-${idx}`} className="truncate text-green-700">
+                                {discount.description} -{formatKES(discount.amount)}
+                              </div>
+                            ))}
                           </div>
                         </td>
-                        <td className="px-6 py-4 whitespace-nowrap text-sm font-semibold text-green-600">
+                        <td className={`px-6 py-4 whitespace-nowrap text-sm font-semibold ${sale.is_return ? 'text-red-600' : 'text-green-600'}`}>
                           {formatKES(sale.total_amount)}
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap">
-                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                            sale.payment_method === 'cash' ? 'bg-green-100 text-green-800' :
-                            sale.payment_method === 'mpesa' ? 'bg-blue-100 text-blue-800' :
-                            sale.payment_method === 'card' ? 'bg-purple-100 text-purple-800' :
-                            'bg-orange-100 text-orange-800'
-                          }`}>
-                            {sale.payment_method.toUpperCase()}
+                          <span
+                            className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                              getSaleMethodLabel(sale) === 'CASH' ? 'bg-green-100 text-green-800' :
+                              getSaleMethodLabel(sale) === 'MPESA' ? 'bg-blue-100 text-blue-800' :
+                              getSaleMethodLabel(sale) === 'CARD' ? 'bg-purple-100 text-purple-800' :
+                              getSaleMethodLabel(sale) === 'SPLIT' ? 'bg-gray-100 text-gray-800' :
+                              'bg-orange-100 text-orange-800'
+                            }`}
+                            title={getSaleTenders(sale).map(tender => `${tender.payment_method.toUpperCase()}: ${formatKES(tender.amount)}`).join('\n')}
+                          >
+                            {getSaleMethodLabel(sale)}
                           </span>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           {sale.sales_person_name}
                         </td>
+                        <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                          {!sale.is_return && (
+                            <div className="flex items-center space-x-3">
+                              <button
+                                onClick={() => handleReprint(sale.id)}
+                                className="text-gray-600 hover:text-gray-900"
+                                title="Reprint receipt"
+                              >
+                                <Printer className="h-4 w-4" />
+                              </button>
+                              <button
+                                onClick={() => setReturnReceipt(sale.receipt_number)}
+                                className="text-red-600 hover:text-red-900"
+                                title="Return items"
+                              >
+                                <RotateCcw className="h-4 w-4" />
+                              </button>
+                              {canManagePricing && getSaleTenders(sale).some(tender => tender.payment_method === 'mpesa') && (
+                                <button
+                                  onClick={() => setMpesaRefundSale({ id: sale.id, receiptNumber: sale.receipt_number })}
+                                  className="text-green-600 hover:text-green-900"
+                                  title="Refund to M-Pesa"
+                                >
+                                  <Smartphone className="h-4 w-4" />
+                                </button>
+                              )}
+                            </div>
+                          )}
+                        </td>
                       </tr>
                     ))
                   )}
@@ -713,6 +932,21 @@ const SalesHistory: React.FC = () => {
           </>
         )}
       </div>
+
+      <SaleReturnModal
+        isOpen={returnReceipt !== null}
+        onClose={() => setReturnReceipt(null)}
+        initialReceiptNumber={returnReceipt || undefined}
+      />
+
+      {mpesaRefundSale && (
+        <MpesaRefundModal
+          isOpen
+          onClose={() => setMpesaRefundSale(null)}
+          saleId={mpesaRefundSale.id}
+          receiptNumber={mpesaRefundSale.receiptNumber}
+        />
+      )}
     </div>
   );
 };
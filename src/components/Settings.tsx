@@ -17,6 +17,12 @@ import type { UserProfile } from '../contexts/AuthContext';
 import { getErrorMessage } from '../utils/errorMessages';
 import { usePagination } from '../hooks/usePagination';
 import Pagination from './Pagination';
+import ReceiptNumberSettings from './ReceiptNumberSettings';
+import PosSettings from './PosSettings';
+import LoyaltySettings from './LoyaltySettings';
+import ReorderSettings from './ReorderSettings';
+import ReceiptSettings from './ReceiptSettings';
+import PaymentTerminalSettings from './PaymentTerminalSettings';
 
 const Settings: React.FC = () => {
   const {
@@ -365,6 +371,24 @@ const Settings: React.FC = () => {
         </div>
       </div>
 
+      {/* Receipt Numbering */}
+      <ReceiptNumberSettings />
+
+      {/* POS Settings */}
+      <PosSettings />
+
+      {/* Loyalty Points */}
+      <LoyaltySettings />
+
+      {/* Reorder Suggestions */}
+      <ReorderSettings />
+
+      {/* Receipt Template and Printer */}
+      <ReceiptSettings />
+
+      {/* Card Payment Terminal */}
+      <PaymentTerminalSettings />
+
       {/* Add User Modal */}
       {showAddUser && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
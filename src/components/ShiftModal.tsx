@@ -0,0 +1,241 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Clock, X, ArrowDownCircle, ArrowUpCircle, FileText, Lock } from 'lucide-react';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { CashierShift, CashMovementType, ShiftReport } from '../types';
+import { formatKES } from '../utils/currency';
+import { getErrorMessage } from '../utils/errorMessages';
+import ShiftReportView from './ShiftReportView';
+
+interface ShiftModalProps {
+  shift: CashierShift;
+  onClose: () => void;
+  onShiftClosed: () => void;
+}
+
+type Tab = 'cash' | 'report' | 'close';
+
+const ShiftModal: React.FC<ShiftModalProps> = ({ shift, onClose, onShiftClosed }) => {
+  const { recordCashMovement, getShiftReport, closeShift } = useApp();
+  const { showAlert } = useAlert();
+  const [activeTab, setActiveTab] = useState<Tab>('cash');
+  const [movementType, setMovementType] = useState<CashMovementType>('pay_out');
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [countedCash, setCountedCash] = useState('');
+  const [closingNotes, setClosingNotes] = useState('');
+  const [report, setReport] = useState<ShiftReport | null>(null);
+  const [zReport, setZReport] = useState<ShiftReport | null>(null);
+  const [loadingReport, setLoadingReport] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadReport = useCallback(async () => {
+    try {
+      setLoadingReport(true);
+      setReport(await getShiftReport(shift.id));
+    } catch (error) {
+      showAlert({ title: 'Shift', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setLoadingReport(false);
+    }
+  }, [shift.id, getShiftReport, showAlert]);
+
+  useEffect(() => {
+    if (activeTab === 'report') {
+      loadReport();
+    }
+  }, [activeTab, loadReport]);
+
+  const handleRecordMovement = async () => {
+    const value = parseFloat(amount);
+    if (!value || value <= 0) {
+      showAlert({ title: 'Shift', message: 'Enter an amount greater than zero', type: 'warning' });
+      return;
+    }
+    if (!reason.trim()) {
+      showAlert({ title: 'Shift', message: 'Give a reason so the cash can be accounted for', type: 'warning' });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      await recordCashMovement(shift.id, movementType, value, reason.trim());
+      showAlert({
+        title: 'Shift',
+        message: `${movementType === 'pay_in' ? 'Pay-in' : 'Pay-out'} of ${formatKES(value)} recorded`,
+        type: 'success',
+      });
+      setAmount('');
+      setReason('');
+    } catch (error) {
+      showAlert({ title: 'Shift', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCloseShift = async () => {
+    const value = parseFloat(countedCash);
+    if (countedCash.trim() === '' || isNaN(value) || value < 0) {
+      showAlert({ title: 'Shift', message: 'Count the cash in the drawer and enter the total', type: 'warning' });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      setZReport(await closeShift(shift.id, value, closingNotes.trim() || undefined));
+    } catch (error) {
+      showAlert({ title: 'Shift', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Once closed the till has no shift, whichever way the Z-report is dismissed
+  const handleDismiss = zReport ? onShiftClosed : onClose;
+
+  const tabs: { id: Tab; label: string; icon: typeof Clock }[] = [
+    { id: 'cash', label: 'Pay In / Out', icon: ArrowDownCircle },
+    { id: 'report', label: 'X-Report', icon: FileText },
+    { id: 'close', label: 'Close Shift', icon: Lock },
+  ];
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-lg max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+              <Clock className="h-5 w-5 mr-2" />
+              {zReport ? 'Shift Closed' : 'My Shift'}
+            </h3>
+            <p className="text-xs text-gray-500">
+              Opened {shift.openedAt.toLocaleString('en-KE')} with a float of {formatKES(shift.openingFloat)}
+            </p>
+          </div>
+          <button onClick={handleDismiss} className="text-gray-400 hover:text-gray-600">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {zReport ? (
+          <div className="space-y-4">
+            <ShiftReportView report={zReport} />
+            <p className="text-sm text-gray-600">An admin will review and sign off this shift.</p>
+            <button
+              onClick={handleDismiss}
+              className="w-full px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+            >
+              Done
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="flex space-x-2 border-b mb-4">
+              {tabs.map(tab => (
+                <button
+                  key={tab.id}
+                  onClick={() => setActiveTab(tab.id)}
+                  className={`flex items-center px-3 py-2 text-sm font-medium border-b-2 -mb-px ${
+                    activeTab === tab.id ? 'border-green-600 text-green-700' : 'border-transparent text-gray-600 hover:text-gray-900'
+                  }`}
+                >
+                  <tab.icon className="h-4 w-4 mr-1" />
+                  {tab.label}
+                </button>
+              ))}
+            </div>
+
+            {activeTab === 'cash' && (
+              <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => setMovementType('pay_in')}
+                    className={`flex items-center justify-center px-3 py-2 rounded-lg border text-sm ${
+                      movementType === 'pay_in' ? 'border-green-600 bg-green-50 text-green-700' : 'border-gray-300 text-gray-700'
+                    }`}
+                  >
+                    <ArrowDownCircle className="h-4 w-4 mr-1" />
+                    Pay-in
+                  </button>
+                  <button
+                    onClick={() => setMovementType('pay_out')}
+                    className={`flex items-center justify-center px-3 py-2 rounded-lg border text-sm ${
+                      movementType === 'pay_out' ? 'border-red-600 bg-red-50 text-red-700' : 'border-gray-300 text-gray-700'
+                    }`}
+                  >
+                    <ArrowUpCircle className="h-4 w-4 mr-1" />
+                    Pay-out
+                  </button>
+                </div>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="Amount (KES)"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <input
+                  type="text"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={movementType === 'pay_in' ? 'Reason, e.g. extra change from safe' : 'Reason, e.g. delivery fee, cash banked'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <button
+                  onClick={handleRecordMovement}
+                  disabled={isSaving}
+                  className="w-full px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+                >
+                  {isSaving ? 'Saving...' : `Record ${movementType === 'pay_in' ? 'Pay-in' : 'Pay-out'}`}
+                </button>
+              </div>
+            )}
+
+            {activeTab === 'report' && (
+              loadingReport || !report
+                ? <p className="text-center text-gray-500 py-6">Loading X-report...</p>
+                : <ShiftReportView report={report} />
+            )}
+
+            {activeTab === 'close' && (
+              <div className="space-y-3">
+                <p className="text-sm text-gray-600">
+                  Count all the cash in the drawer, including the opening float, and enter the total. The expected
+                  amount is shown only after you close.
+                </p>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={countedCash}
+                  onChange={(e) => setCountedCash(e.target.value)}
+                  placeholder="Counted cash (KES)"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <textarea
+                  value={closingNotes}
+                  onChange={(e) => setClosingNotes(e.target.value)}
+                  placeholder="Notes for the reviewer (optional)"
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <button
+                  onClick={handleCloseShift}
+                  disabled={isSaving}
+                  className="w-full px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-gray-400"
+                >
+                  {isSaving ? 'Closing...' : 'Close Shift'}
+                </button>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShiftModal;
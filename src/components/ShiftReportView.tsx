@@ -0,0 +1,200 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { ShiftReport, PaymentMethod, PAYMENT_METHOD_LABELS } from '../types';
+import { formatKES } from '../utils/currency';
+
+interface ShiftReportViewProps {
+  report: ShiftReport;
+}
+
+const REPORT_METHODS: PaymentMethod[] = ['cash', 'mpesa', 'card', 'insurance', 'loyalty'];
+
+// X-report while the shift is open, Z-report once it is closed
+const getReportTitle = (report: ShiftReport) => (report.shift.status === 'open' ? 'X-Report' : 'Z-Report');
+
+const getReportRows = (report: ShiftReport): [string, string][] => {
+  const refundsTotal = Object.values(report.refunds).reduce((sum, amount) => sum + (amount || 0), 0);
+
+  if (report.cashWithheld) {
+    return [
+      ['Sales', String(report.salesCount)],
+      ['Discounts given', formatKES(report.discounts)],
+      ...REPORT_METHODS
+        .filter(method => report.payments[method])
+        .map((method): [string, string] => [`${PAYMENT_METHOD_LABELS[method]} taken`, formatKES(report.payments[method] || 0)]),
+      ['Returns', String(report.returnsCount)],
+      ...REPORT_METHODS
+        .filter(method => report.refunds[method])
+        .map((method): [string, string] => [`${PAYMENT_METHOD_LABELS[method]} refunded`, formatKES(report.refunds[method] || 0)]),
+    ];
+  }
+
+  return [
+    ['Opening float', formatKES(report.shift.openingFloat)],
+    ['Sales', `${report.salesCount} · ${formatKES(report.grossSales)}`],
+    ['Discounts given', formatKES(report.discounts)],
+    ...REPORT_METHODS
+      .filter(method => report.payments[method])
+      .map((method): [string, string] => [`${PAYMENT_METHOD_LABELS[method]} taken`, formatKES(report.payments[method] || 0)]),
+    ['Refunds', `${report.returnsCount} · ${formatKES(refundsTotal)}`],
+    ...REPORT_METHODS
+      .filter(method => report.refunds[method])
+      .map((method): [string, string] => [`${PAYMENT_METHOD_LABELS[method]} refunded`, formatKES(report.refunds[method] || 0)]),
+    ...(report.mpesaRefunds.count > 0
+      ? [['Sent to M-Pesa', `${report.mpesaRefunds.count} · ${formatKES(report.mpesaRefunds.sent)}`] as [string, string]]
+      : []),
+    ...(report.mpesaRefunds.pendingCount > 0
+      ? [['M-Pesa refunds awaiting result', `${report.mpesaRefunds.pendingCount} · ${formatKES(report.mpesaRefunds.pending)}`] as [string, string]]
+      : []),
+    ['Pay-ins', formatKES(report.payIns)],
+    ['Pay-outs', formatKES(report.payOuts)],
+  ];
+};
+
+const getCashRows = (report: ShiftReport): [string, string][] => [
+  [report.cashWithheld ? 'Cash totals' : 'Expected cash', report.expectedCash !== undefined ? formatKES(report.expectedCash) : 'Shown after close'],
+  ...(report.countedCash !== undefined ? [['Counted cash', formatKES(report.countedCash)] as [string, string]] : []),
+  ...(report.cashVariance !== undefined ? [['Variance', formatKES(report.cashVariance)] as [string, string]] : []),
+];
+
+const downloadReport = (report: ShiftReport) => {
+  const doc = new jsPDF();
+  const title = getReportTitle(report);
+
+  doc.setFontSize(18);
+  doc.setFont('helvetica', 'bold');
+  doc.text(title.toUpperCase(), 105, 18, { align: 'center' });
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'normal');
+  doc.text('Wesabi Pharmacy', 105, 25, { align: 'center' });
+
+  const details: [string, string][] = [
+    ['Cashier:', report.shift.cashierName],
+    ['Opened:', report.shift.openedAt.toLocaleString('en-KE')],
+    ['Closed:', report.shift.closedAt ? report.shift.closedAt.toLocaleString('en-KE') : '-'],
+    ['Printed:', new Date().toLocaleString('en-KE')],
+  ];
+  details.forEach(([label, value], index) => {
+    doc.setFont('helvetica', 'bold');
+    doc.text(label, 15, 36 + index * 7);
+    doc.setFont('helvetica', 'normal');
+    doc.text(value, 45, 36 + index * 7);
+  });
+
+  autoTable(doc, {
+    startY: 66,
+    body: [...getReportRows(report), ...getCashRows(report)],
+    theme: 'grid',
+    bodyStyles: { fontSize: 10 },
+    columnStyles: { 1: { halign: 'right' } },
+    margin: { left: 15, right: 15 }
+  });
+
+  if (report.cashMovements.length > 0) {
+    const finalY = (doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY || 66;
+    autoTable(doc, {
+      startY: finalY + 8,
+      head: [['Time', 'Type', 'Reason', 'By', 'Amount']],
+      body: report.cashMovements.map(movement => [
+        movement.createdAt.toLocaleTimeString('en-KE'),
+        movement.movementType === 'pay_in' ? 'Pay-in' : 'Pay-out',
+        movement.reason,
+        movement.createdByName,
+        formatKES(movement.amount),
+      ]),
+      theme: 'grid',
+      headStyles: {
+        fillColor: [66, 139, 202],
+        textColor: 255,
+        fontStyle: 'bold',
+        fontSize: 9
+      },
+      bodyStyles: { fontSize: 9 },
+      margin: { left: 15, right: 15 }
+    });
+  }
+
+  doc.save(`${title}_${report.shift.cashierName.replace(/\s+/g, '_')}_${report.shift.openedAt.toISOString().slice(0, 10)}.pdf`);
+};
+
+const ShiftReportView: React.FC<ShiftReportViewProps> = ({ report }) => {
+  const variance = report.cashVariance;
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex justify-between items-start">
+        <div>
+          <p className="font-semibold text-gray-900">{getReportTitle(report)} · {report.shift.cashierName}</p>
+          <p className="text-xs text-gray-500">
+            {report.shift.openedAt.toLocaleString('en-KE')}
+            {report.shift.closedAt ? ` – ${report.shift.closedAt.toLocaleString('en-KE')}` : ' – now'}
+          </p>
+        </div>
+        <button
+          onClick={() => downloadReport(report)}
+          className="p-1 text-gray-600 hover:text-gray-900"
+          title="Download PDF"
+        >
+          <Download className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="divide-y border rounded-lg">
+        {getReportRows(report).map(([label, value]) => (
+          <div key={label} className="flex justify-between px-3 py-1.5">
+            <span className="text-gray-600">{label}</span>
+            <span className="text-gray-900">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="divide-y border rounded-lg bg-gray-50">
+        {getCashRows(report).map(([label, value]) => (
+          <div key={label} className="flex justify-between px-3 py-1.5 font-medium">
+            <span className="text-gray-700">{label}</span>
+            <span className={
+              label === 'Variance' && variance !== undefined
+                ? variance < 0 ? 'text-red-600' : variance > 0 ? 'text-orange-600' : 'text-green-600'
+                : 'text-gray-900'
+            }>
+              {value}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {report.cashMovements.length > 0 && (
+        <div>
+          <p className="font-medium text-gray-700 mb-1">Pay-ins and pay-outs</p>
+          <div className="divide-y border rounded-lg">
+            {report.cashMovements.map((movement, index) => (
+              <div key={index} className="flex justify-between px-3 py-1.5">
+                <span className="text-gray-600">
+                  {movement.createdAt.toLocaleTimeString('en-KE')} · {movement.reason}
+                </span>
+                <span className={movement.movementType === 'pay_in' ? 'text-green-600' : 'text-red-600'}>
+                  {movement.movementType === 'pay_in' ? '+' : '-'}{formatKES(movement.amount)}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {report.shift.closingNotes && (
+        <p className="text-gray-600"><span className="font-medium">Cashier notes:</span> {report.shift.closingNotes}</p>
+      )}
+      {report.shift.reviewedByName && (
+        <p className="text-gray-600">
+          <span className="font-medium">Signed off</span> by {report.shift.reviewedByName}
+          {report.shift.reviewedAt ? ` on ${report.shift.reviewedAt.toLocaleString('en-KE')}` : ''}
+          {report.shift.reviewNotes ? ` — ${report.shift.reviewNotes}` : ''}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ShiftReportView;
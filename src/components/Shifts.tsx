@@ -0,0 +1,197 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Clock, X, CheckCircle } from 'lucide-react';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { useAutoRefresh } from '../contexts/DataRefreshContext';
+import { CashierShift, ShiftReport, ShiftStatus, SHIFT_STATUS_LABELS } from '../types';
+import { formatKES } from '../utils/currency';
+import { getErrorMessage } from '../utils/errorMessages';
+import ShiftReportView from './ShiftReportView';
+
+const STATUS_STYLES: Record<ShiftStatus, string> = {
+  open: 'bg-blue-100 text-blue-800',
+  closed: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+};
+
+const getVarianceClass = (variance?: number) => {
+  if (variance === undefined || variance === 0) return 'text-gray-900';
+  return variance < 0 ? 'text-red-600' : 'text-orange-600';
+};
+
+const Shifts: React.FC = () => {
+  const { getShifts, getShiftReport, approveShift } = useApp();
+  const { showAlert } = useAlert();
+  const [shifts, setShifts] = useState<CashierShift[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<ShiftStatus | 'all'>('closed');
+  const [selectedReport, setSelectedReport] = useState<ShiftReport | null>(null);
+  const [reviewNotes, setReviewNotes] = useState('');
+  const [isApproving, setIsApproving] = useState(false);
+
+  const loadShifts = useCallback(async () => {
+    try {
+      setLoading(true);
+      setShifts(await getShifts(statusFilter === 'all' ? undefined : statusFilter));
+    } catch (error) {
+      showAlert({ title: 'Shifts', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, getShifts, showAlert]);
+
+  useEffect(() => {
+    loadShifts();
+  }, [loadShifts]);
+
+  useAutoRefresh('sales', loadShifts);
+
+  const openReport = async (shift: CashierShift) => {
+    try {
+      setReviewNotes('');
+      setSelectedReport(await getShiftReport(shift.id));
+    } catch (error) {
+      showAlert({ title: 'Shifts', message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!selectedReport) return;
+
+    const variance = selectedReport.cashVariance || 0;
+    if (variance !== 0 && !reviewNotes.trim()) {
+      showAlert({ title: 'Shifts', message: 'Explain the cash variance before signing off', type: 'warning' });
+      return;
+    }
+
+    try {
+      setIsApproving(true);
+      await approveShift(selectedReport.shift.id, reviewNotes.trim() || undefined);
+      showAlert({ title: 'Shifts', message: `Shift for ${selectedReport.shift.cashierName} signed off`, type: 'success' });
+      setSelectedReport(null);
+      await loadShifts();
+    } catch (error) {
+      showAlert({ title: 'Shifts', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setIsApproving(false);
+    }
+  };
+
+  const awaitingTotal = shifts.filter(shift => shift.status === 'closed').length;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Cashier Shifts</h1>
+        <p className="text-gray-600">Review Z-reports, cash variances and sign off closed shifts</p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border">
+        <div className="p-4 border-b flex justify-between items-center">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Clock className="h-5 w-5 mr-2" />
+            {statusFilter === 'closed' ? `${awaitingTotal} awaiting sign-off` : 'Shifts'}
+          </h2>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as ShiftStatus | 'all')}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+          >
+            <option value="all">All shifts</option>
+            {(Object.keys(SHIFT_STATUS_LABELS) as ShiftStatus[]).map(status => (
+              <option key={status} value={status}>{SHIFT_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+        </div>
+
+        {loading ? (
+          <p className="text-center text-gray-500 py-8">Loading shifts...</p>
+        ) : shifts.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No shifts</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Cashier</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Opened</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Closed</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Float</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Expected</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Counted</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Variance</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {shifts.map(shift => (
+                  <tr
+                    key={shift.id}
+                    onClick={() => openReport(shift)}
+                    className="hover:bg-gray-50 cursor-pointer"
+                  >
+                    <td className="px-4 py-2 text-gray-900">{shift.cashierName}</td>
+                    <td className="px-4 py-2 text-gray-600">{shift.openedAt.toLocaleString('en-KE')}</td>
+                    <td className="px-4 py-2 text-gray-600">{shift.closedAt ? shift.closedAt.toLocaleString('en-KE') : '-'}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">{formatKES(shift.openingFloat)}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">
+                      {shift.expectedCash !== undefined ? formatKES(shift.expectedCash) : '-'}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-900">
+                      {shift.countedCash !== undefined ? formatKES(shift.countedCash) : '-'}
+                    </td>
+                    <td className={`px-4 py-2 text-right font-medium ${getVarianceClass(shift.cashVariance)}`}>
+                      {shift.cashVariance !== undefined ? formatKES(shift.cashVariance) : '-'}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[shift.status]}`}>
+                        {SHIFT_STATUS_LABELS[shift.status]}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {selectedReport && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Shift Report</h3>
+              <button onClick={() => setSelectedReport(null)} className="text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <ShiftReportView report={selectedReport} />
+
+            {selectedReport.shift.status === 'closed' && (
+              <div className="mt-4 space-y-2">
+                <textarea
+                  value={reviewNotes}
+                  onChange={(e) => setReviewNotes(e.target.value)}
+                  placeholder={selectedReport.cashVariance ? 'Explain the variance (required)' : 'Review notes (optional)'}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500 text-sm"
+                />
+                <button
+                  onClick={handleApprove}
+                  disabled={isApproving}
+                  className="w-full flex items-center justify-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+                >
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  {isApproving ? 'Signing off...' : 'Sign Off Shift'}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Shifts;
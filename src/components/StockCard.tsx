@@ -0,0 +1,526 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { Search, Package, ArrowDownLeft, ArrowUpRight, CheckCircle, AlertTriangle, Plus, X } from 'lucide-react';
+import { useApp } from '../contexts/AppContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useAlert } from '../contexts/AlertContext';
+import { StockMovement, StockMovementType, STOCK_MOVEMENT_LABELS } from '../types';
+import { summariseMedicineStock, MedicineStock } from '../utils/batches';
+import { getErrorMessage } from '../utils/errorMessages';
+import { usePagination } from '../hooks/usePagination';
+import Pagination from './Pagination';
+
+const TYPE_STYLES: Record<StockMovementType, string> = {
+  sale: 'bg-blue-100 text-blue-800',
+  customer_return: 'bg-indigo-100 text-indigo-800',
+  purchase: 'bg-green-100 text-green-800',
+  supplier_return: 'bg-orange-100 text-orange-800',
+  reversal: 'bg-red-100 text-red-800',
+  adjustment: 'bg-yellow-100 text-yellow-800',
+  transfer: 'bg-purple-100 text-purple-800',
+  write_off: 'bg-gray-200 text-gray-800',
+};
+
+type EntryType = 'adjustment' | 'write_off' | 'transfer';
+
+interface StockCardLine {
+  movement: StockMovement;
+  balance: number;
+}
+
+// Movements of a medicine, or one of its batches, with the running balance
+// after each. The date range only hides lines; the balance counts them all.
+const buildStockCard = (movements: StockMovement[], batchId: string) =>
+  movements
+    .filter(movement => !batchId || movement.productId === batchId)
+    .reduce<StockCardLine[]>((lines, movement) => {
+      const previous = lines.length > 0 ? lines[lines.length - 1].balance : 0;
+      return [...lines, { movement, balance: previous + movement.quantity }];
+    }, []);
+
+const StockCard: React.FC = () => {
+  const { products, productMasters, getStockMovements, recordStockMovement, transferStock, lastRefreshTime } = useApp();
+  const { user } = useAuth();
+  const { showAlert } = useAlert();
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [selectedMasterId, setSelectedMasterId] = useState<string | null>(null);
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [batchFilter, setBatchFilter] = useState('');
+  const [typeFilter, setTypeFilter] = useState<StockMovementType | ''>('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+  const [showEntryForm, setShowEntryForm] = useState(false);
+  const [entryType, setEntryType] = useState<EntryType>('adjustment');
+  const [entryBatchId, setEntryBatchId] = useState('');
+  const [entryTargetId, setEntryTargetId] = useState('');
+  const [entryQuantity, setEntryQuantity] = useState('');
+  const [entryReason, setEntryReason] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const searchRef = useRef<HTMLDivElement>(null);
+
+  const canRecordMovements = !!user && ['super_admin', 'admin', 'inventory'].includes(user.role);
+
+  const medicines = useMemo(() => summariseMedicineStock(productMasters, products), [productMasters, products]);
+  const medicine: MedicineStock | undefined = medicines.find(m => m.master.id === selectedMasterId);
+
+  const suggestions = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    if (!term) return [];
+    return medicines
+      .filter(m => m.master.name.toLowerCase().includes(term) || m.master.barcode === searchTerm.trim())
+      .slice(0, 10);
+  }, [medicines, searchTerm]);
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (searchRef.current && !searchRef.current.contains(event.target as Node)) {
+        setShowSuggestions(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  const loadMovements = useCallback(async () => {
+    if (!selectedMasterId) return;
+
+    try {
+      setLoading(true);
+      setMovements(await getStockMovements(selectedMasterId));
+    } catch (error) {
+      showAlert({ title: 'Stock Card', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [selectedMasterId, getStockMovements, showAlert]);
+
+  // Reloads after any stock change made in the app, including our own entries
+  useEffect(() => {
+    loadMovements();
+  }, [loadMovements, lastRefreshTime]);
+
+  const selectMedicine = (selected: MedicineStock) => {
+    setSelectedMasterId(selected.master.id);
+    setSearchTerm(selected.master.name);
+    setShowSuggestions(false);
+    setBatchFilter('');
+    setMovements([]);
+  };
+
+  const lines = useMemo(() => buildStockCard(movements, batchFilter), [movements, batchFilter]);
+
+  const { openingBalance, linesInRange } = useMemo(() => {
+    const fromTime = dateFrom ? new Date(`${dateFrom}T00:00:00`).getTime() : -Infinity;
+    const toTime = dateTo ? new Date(`${dateTo}T23:59:59.999`).getTime() : Infinity;
+    const before = lines.filter(line => line.movement.createdAt.getTime() < fromTime);
+
+    return {
+      openingBalance: before.length > 0 ? before[before.length - 1].balance : 0,
+      linesInRange: lines.filter(line => {
+        const time = line.movement.createdAt.getTime();
+        return time >= fromTime && time <= toTime;
+      }),
+    };
+  }, [lines, dateFrom, dateTo]);
+
+  const closingBalance = linesInRange.length > 0 ? linesInRange[linesInRange.length - 1].balance : openingBalance;
+  const received = linesInRange.reduce((sum, line) => sum + Math.max(line.movement.quantity, 0), 0);
+  const issued = linesInRange.reduce((sum, line) => sum + Math.max(-line.movement.quantity, 0), 0);
+
+  const visibleLines = useMemo(
+    () => linesInRange.filter(line => !typeFilter || line.movement.movementType === typeFilter).reverse(),
+    [linesInRange, typeFilter]
+  );
+
+  const {
+    currentPage,
+    paginatedItems,
+    setCurrentPage,
+    itemsPerPage,
+  } = usePagination({ items: visibleLines, itemsPerPage: 25 });
+
+  // Each batch's stock on hand should equal the sum of its movements
+  const ledgerMismatches = useMemo(() => {
+    if (!medicine || loading) return [];
+    return medicine.batches
+      .map(batch => ({
+        batch,
+        ledger: movements.filter(m => m.productId === batch.id).reduce((sum, m) => sum + m.quantity, 0),
+      }))
+      .filter(({ batch, ledger }) => ledger !== batch.currentStock);
+  }, [medicine, movements, loading]);
+
+  const resetEntryForm = () => {
+    setShowEntryForm(false);
+    setEntryType('adjustment');
+    setEntryBatchId('');
+    setEntryTargetId('');
+    setEntryQuantity('');
+    setEntryReason('');
+  };
+
+  const handleRecordEntry = async () => {
+    const batch = medicine?.batches.find(b => b.id === entryBatchId);
+    const quantity = parseInt(entryQuantity);
+
+    if (!batch) {
+      showAlert({ title: 'Stock Card', message: 'Choose a batch', type: 'warning' });
+      return;
+    }
+
+    if (!quantity || (entryType !== 'adjustment' && quantity < 0)) {
+      showAlert({ title: 'Stock Card', message: 'Enter a quantity', type: 'warning' });
+      return;
+    }
+
+    if (!entryReason.trim()) {
+      showAlert({ title: 'Stock Card', message: 'Give a reason', type: 'warning' });
+      return;
+    }
+
+    if (entryType === 'transfer' && !entryTargetId) {
+      showAlert({ title: 'Stock Card', message: 'Choose the batch to move the stock to', type: 'warning' });
+      return;
+    }
+
+    try {
+      setIsSaving(true);
+      if (entryType === 'transfer') {
+        await transferStock(batch.id, entryTargetId, quantity, entryReason.trim());
+      } else {
+        await recordStockMovement(
+          batch.id,
+          entryType,
+          entryType === 'write_off' ? -quantity : quantity,
+          entryReason.trim(),
+          batch.currentStock
+        );
+      }
+      resetEntryForm();
+      showAlert({ title: 'Stock Card', message: `${STOCK_MOVEMENT_LABELS[entryType]} recorded`, type: 'success' });
+    } catch (error) {
+      showAlert({ title: 'Stock Card', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Stock Card</h1>
+          <p className="text-gray-600">Every movement of a medicine's stock, batch by batch</p>
+        </div>
+        {medicine && canRecordMovements && (
+          <button
+            onClick={() => setShowEntryForm(true)}
+            className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Record Movement
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border p-4 space-y-4">
+        <div className="relative" ref={searchRef}>
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={searchTerm}
+            onChange={(e) => {
+              setSearchTerm(e.target.value);
+              setShowSuggestions(true);
+            }}
+            onFocus={() => setShowSuggestions(true)}
+            placeholder="Search medicine by name or barcode..."
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+          />
+          {showSuggestions && suggestions.length > 0 && (
+            <div className="absolute z-10 w-full mt-1 bg-white border border-gray-300 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+              {suggestions.map(suggestion => (
+                <button
+                  key={suggestion.master.id}
+                  onClick={() => selectMedicine(suggestion)}
+                  className="w-full flex justify-between px-4 py-2 text-left text-sm hover:bg-green-50"
+                >
+                  <span>{suggestion.master.name}</span>
+                  <span className="text-gray-500">{suggestion.totalStock} in stock</span>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {medicine && (
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <select
+              value={batchFilter}
+              onChange={(e) => setBatchFilter(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+            >
+              <option value="">All batches</option>
+              {medicine.batches.map(batch => (
+                <option key={batch.id} value={batch.id}>
+                  {batch.batchNumber || '-'} · exp {batch.expiryDate.toLocaleDateString('en-KE')} · {batch.currentStock} units
+                </option>
+              ))}
+            </select>
+            <select
+              value={typeFilter}
+              onChange={(e) => setTypeFilter(e.target.value as StockMovementType | '')}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+            >
+              <option value="">All movements</option>
+              {(Object.keys(STOCK_MOVEMENT_LABELS) as StockMovementType[]).map(type => (
+                <option key={type} value={type}>{STOCK_MOVEMENT_LABELS[type]}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={dateFrom}
+              onChange={(e) => setDateFrom(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+            <input
+              type="date"
+              value={dateTo}
+              onChange={(e) => setDateTo(e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+          </div>
+        )}
+      </div>
+
+      {!medicine ? (
+        <div className="bg-white rounded-lg shadow-sm border text-center py-12">
+          <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-600">Search for a medicine to see its stock card</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div className="bg-white rounded-lg shadow-sm border p-4">
+              <p className="text-sm text-gray-600">Opening balance</p>
+              <p className="text-2xl font-bold text-gray-900">{openingBalance}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border p-4">
+              <p className="text-sm text-gray-600">Received</p>
+              <p className="text-2xl font-bold text-green-600">+{received}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border p-4">
+              <p className="text-sm text-gray-600">Issued</p>
+              <p className="text-2xl font-bold text-red-600">-{issued}</p>
+            </div>
+            <div className="bg-white rounded-lg shadow-sm border p-4">
+              <p className="text-sm text-gray-600">Closing balance</p>
+              <p className="text-2xl font-bold text-gray-900">{closingBalance}</p>
+            </div>
+          </div>
+
+          {!loading && (
+            ledgerMismatches.length === 0 ? (
+              <div className="flex items-center text-sm text-green-700">
+                <CheckCircle className="h-4 w-4 mr-2" />
+                Stock on hand agrees with the ledger for every batch
+              </div>
+            ) : (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                <div className="flex items-center font-medium mb-1">
+                  <AlertTriangle className="h-4 w-4 mr-2" />
+                  Stock on hand does not agree with the ledger
+                </div>
+                {ledgerMismatches.map(({ batch, ledger }) => (
+                  <p key={batch.id}>
+                    Batch {batch.batchNumber || '-'}: {batch.currentStock} on hand, {ledger} per the ledger
+                  </p>
+                ))}
+              </div>
+            )
+          )}
+
+          <div className="bg-white rounded-lg shadow-sm border">
+            {loading ? (
+              <p className="text-center text-gray-500 py-8">Loading...</p>
+            ) : visibleLines.length === 0 ? (
+              <p className="text-center text-gray-500 py-8">No stock movements for the selected filters</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Date</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Movement</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Batch</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">Document</th>
+                      <th className="px-4 py-2 text-left font-medium text-gray-500">By</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-500">In</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-500">Out</th>
+                      <th className="px-4 py-2 text-right font-medium text-gray-500">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {paginatedItems.map(({ movement, balance }) => (
+                      <tr key={movement.id}>
+                        <td className="px-4 py-2 text-gray-600 whitespace-nowrap">{movement.createdAt.toLocaleString('en-KE')}</td>
+                        <td className="px-4 py-2">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${TYPE_STYLES[movement.movementType]}`}>
+                            {STOCK_MOVEMENT_LABELS[movement.movementType]}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-gray-600">
+                          {movement.batchNumber || '-'}
+                          <span className="block text-xs text-gray-500">
+                            {movement.balanceBefore} → {movement.balanceAfter}
+                          </span>
+                        </td>
+                        <td className="px-4 py-2 text-gray-600">
+                          {movement.reference || '-'}
+                          {movement.reason && <span className="block text-xs text-gray-500">{movement.reason}</span>}
+                        </td>
+                        <td className="px-4 py-2 text-gray-600">{movement.userName || '-'}</td>
+                        <td className="px-4 py-2 text-right text-green-700">
+                          {movement.quantity > 0 && (
+                            <span className="inline-flex items-center">
+                              <ArrowDownLeft className="h-3 w-3 mr-1" />
+                              {movement.quantity}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-right text-red-700">
+                          {movement.quantity < 0 && (
+                            <span className="inline-flex items-center">
+                              <ArrowUpRight className="h-3 w-3 mr-1" />
+                              {-movement.quantity}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-2 text-right font-medium text-gray-900">{balance}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <div className="px-4 pb-4">
+              <Pagination
+                currentPage={currentPage}
+                totalItems={visibleLines.length}
+                itemsPerPage={itemsPerPage}
+                onPageChange={setCurrentPage}
+                itemName="movements"
+              />
+            </div>
+          </div>
+        </>
+      )}
+
+      {showEntryForm && medicine && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg max-w-md w-full mx-4">
+            <div className="flex justify-between items-center mb-4">
+              <h3 className="text-lg font-semibold text-gray-900">Record Movement · {medicine.master.name}</h3>
+              <button onClick={resetEntryForm} className="text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Movement</label>
+                <select
+                  value={entryType}
+                  onChange={(e) => setEntryType(e.target.value as EntryType)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  <option value="adjustment">Adjustment (+ or -)</option>
+                  <option value="write_off">Write-off (expired, damaged)</option>
+                  <option value="transfer">Transfer to another batch</option>
+                </select>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Batch</label>
+                <select
+                  value={entryBatchId}
+                  onChange={(e) => setEntryBatchId(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                >
+                  <option value="">Choose a batch</option>
+                  {medicine.batches.map(batch => (
+                    <option key={batch.id} value={batch.id}>
+                      {batch.batchNumber || '-'} · {batch.currentStock} units
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {entryType === 'transfer' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">To batch</label>
+                  <select
+                    value={entryTargetId}
+                    onChange={(e) => setEntryTargetId(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  >
+                    <option value="">Choose a batch</option>
+                    {medicine.batches.filter(batch => batch.id !== entryBatchId).map(batch => (
+                      <option key={batch.id} value={batch.id}>
+                        {batch.batchNumber || '-'} · {batch.currentStock} units
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Quantity{entryType === 'adjustment' && ' (negative to remove)'}
+                </label>
+                <input
+                  type="number"
+                  min={entryType === 'adjustment' ? undefined : 1}
+                  value={entryQuantity}
+                  onChange={(e) => setEntryQuantity(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                <input
+                  type="text"
+                  value={entryReason}
+                  onChange={(e) => setEntryReason(e.target.value)}
+                  placeholder={entryType === 'write_off' ? 'e.g. expired, broken bottle' : 'e.g. miscount, booked to wrong batch'}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+            </div>
+
+            <div className="flex space-x-3 mt-4">
+              <button
+                onClick={handleRecordEntry}
+                disabled={isSaving}
+                className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+              >
+                {isSaving ? 'Saving...' : 'Record'}
+              </button>
+              <button
+                onClick={resetEntryForm}
+                className="flex-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default StockCard;
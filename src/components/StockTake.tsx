@@ -1,14 +1,19 @@
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { useEffect } from 'react';
-import { Package, Save, AlertTriangle, CheckCircle, History, Calendar, Download, Edit, Trash2, Plus, ArrowLeft, ArrowUp, ArrowDown } from 'lucide-react';
+import { Package, Save, AlertTriangle, CheckCircle, History, Calendar, Download, Edit, Trash2, Plus, ArrowLeft, ArrowUp, ArrowDown, ChevronDown, ChevronRight } from 'lucide-react';
 import { useApp } from '../contexts/AppContext';
 import { useAuth } from '../contexts/AuthContext';
 import { useAlert } from '../contexts/AlertContext';
+import { Product } from '../types';
+import { MedicineStock, summariseMedicineStock, findMedicineByBarcode, isBatchExpired } from '../utils/batches';
 import { formatKES } from '../utils/currency';
 import { getErrorMessage } from '../utils/errorMessages';
 import { usePageRefresh } from '../hooks/usePageRefresh';
 import { usePagination } from '../hooks/usePagination';
+import { useBarcodeScanner } from '../hooks/useBarcodeScanner';
+import { beep } from '../utils/beep';
 import Pagination from './Pagination';
+import LinkBarcodeModal from './LinkBarcodeModal';
 
 interface StockTakeSession {
   id: string;
@@ -19,7 +24,7 @@ interface StockTakeSession {
 }
 
 const StockTake: React.FC = () => {
-  const { products, stockTakes, addStockTake, isSupabaseEnabled, stockTakeSessions, updateStockTakeSession, createStockTakeSession, deleteStockTakeSession, logActivity } = useApp();
+  const { products, productMasters, stockTakes, addStockTake, isSupabaseEnabled, stockTakeSessions, updateStockTakeSession, createStockTakeSession, deleteStockTakeSession, logActivity } = useApp();
   const { user } = useAuth();
   const { showAlert } = useAlert();
   usePageRefresh('stocktake', { refreshOnMount: true, staleTime: 30000 });
@@ -35,6 +40,8 @@ const StockTake: React.FC = () => {
   const [isSaving, setIsSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  const [unknownBarcode, setUnknownBarcode] = useState<string | null>(null);
+  const [collapsedMedicines, setCollapsedMedicines] = useState<Set<string>>(new Set());
 
   // Auto-save every 20 seconds for active session
   useEffect(() => {
@@ -77,12 +84,35 @@ const StockTake: React.FC = () => {
     localStorage.setItem('stockTakeSessions', JSON.stringify(sessions));
   }, [sessions]);
 
-  const filteredProducts = products.filter(product =>
-    product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    product.barcode.includes(searchTerm)
+  const medicines = useMemo(() => summariseMedicineStock(productMasters, products), [productMasters, products]);
+
+  // Counting is per batch, listed under the medicine it belongs to
+  const filteredMedicines = medicines.filter(medicine =>
+    medicine.batches.length > 0 && (
+      medicine.master.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      (medicine.master.barcode || '').includes(searchTerm) ||
+      medicine.batches.some(product => product.barcode.includes(searchTerm))
+    )
   );
 
-  const { paginatedItems: paginatedProducts, ...paginationProps } = usePagination(filteredProducts, 20);
+  const {
+    currentPage,
+    paginatedItems: paginatedMedicines,
+    goToPage,
+    itemsPerPage
+  } = usePagination({ items: filteredMedicines, itemsPerPage: 20 });
+
+  const toggleMedicine = (masterId: string) => {
+    setCollapsedMedicines(prev => {
+      const next = new Set(prev);
+      if (next.has(masterId)) {
+        next.delete(masterId);
+      } else {
+        next.add(masterId);
+      }
+      return next;
+    });
+  };
 
   const startNewStockTake = () => {
     setShowNameModal(true);
@@ -237,6 +267,40 @@ const StockTake: React.FC = () => {
     });
   };
 
+  // Each scan counts one unit against the medicine's earliest-expiring batch
+  // with stock, and narrows the list so the counted row is on screen
+  const countScannedMedicine = (medicine: MedicineStock) => {
+    const product: Product | undefined = medicine.batches.find(batch => batch.currentStock > 0) || medicine.batches[0];
+    if (!product) {
+      beep('error');
+      showAlert({ title: 'Stock Take', message: `${medicine.master.name} has no batches to count. Receive it on an invoice first.`, type: 'warning' });
+      return;
+    }
+
+    const current = activeSession?.products[product.id];
+    handleStockChange(product.id, (current?.actualStock ?? 0) + 1, current?.reason ?? '');
+    setSearchTerm(medicine.master.name);
+    setCollapsedMedicines(prev => {
+      const next = new Set(prev);
+      next.delete(medicine.master.id);
+      return next;
+    });
+    beep();
+  };
+
+  const handleScan = (barcode: string) => {
+    const medicine = findMedicineByBarcode(medicines, barcode);
+    if (!medicine) {
+      beep('error');
+      setUnknownBarcode(barcode);
+      return;
+    }
+
+    countScannedMedicine(medicine);
+  };
+
+  useBarcodeScanner(handleScan, { enabled: currentView === 'active' && !!activeSession && !unknownBarcode });
+
   const saveProgress = async () => {
     if (!activeSession || !user) return;
 
@@ -634,95 +698,153 @@ const StockTake: React.FC = () => {
                 </tr>
               </thead>
               <tbody className="bg-white divide-y divide-gray-200">
-                {paginatedProducts.map((product) => {
-                  const stockData = activeSession.products[product.id];
-                  const actualStock = stockData?.actualStock;
-                  const difference = actualStock !== undefined ? actualStock - product.currentStock : 0;
-                  const valueImpact = actualStock !== undefined ? difference * product.costPrice : 0;
+                {paginatedMedicines.map((medicine) => {
+                  const isCollapsed = collapsedMedicines.has(medicine.master.id);
+                  const countedBatches = medicine.batches.filter(product => activeSession.products[product.id] !== undefined);
+                  const medicineDifference = countedBatches.reduce((sum, product) =>
+                    sum + activeSession.products[product.id].actualStock - product.currentStock, 0);
 
                   return (
-                    <tr key={product.id} className="hover:bg-gray-50">
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div>
-                          <div className="text-sm font-medium text-gray-900">{product.name}</div>
-                          <div className="text-sm text-gray-500">Batch: {product.batchNumber}</div>
-                          <div className="text-sm text-gray-500">Barcode: {product.barcode}</div>
-                        </div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <div className="text-sm text-gray-900">{product.currentStock}</div>
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        <input
-                          type="text"
-                          inputMode="numeric"
-                          pattern="[0-9]*"
-                          value={stockData?.actualStock !== undefined ? stockData.actualStock.toString() : ''}
-                          placeholder="Enter actual stock..."
-                          onChange={(e) => {
-                            const value = e.target.value.replace(/[^0-9]/g, '');
-                            const numValue = parseInt(value) || 0;
-                            if (value !== '') {
-                              handleStockChange(product.id, numValue, stockData?.reason || '');
-                            }
-                          }}
-                          onKeyPress={(e) => {
-                            if (e.key === 'Enter') {
-                              e.preventDefault();
-                              const value = e.currentTarget.value.replace(/[^0-9]/g, '');
-                              if (value.trim() !== '') {
-                                const nextInput = e.currentTarget.closest('tr')?.nextElementSibling?.querySelector('input[type="text"]') as HTMLInputElement;
-                                if (nextInput) {
-                                  nextInput.focus();
-                                }
-                              }
-                            }
-                          }}
-                          className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-green-500"
-                        />
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        {actualStock !== undefined && difference !== 0 && (
-                          <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
-                            difference === 0 
-                              ? 'bg-green-100 text-green-800' 
-                              : difference > 0 
-                              ? 'bg-blue-100 text-blue-800'
-                              : 'bg-red-100 text-red-800'
-                          }`}>
-                            {difference > 0 ? '+' : ''}{difference}
-                          </span>
-                        )}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        {actualStock !== undefined && difference !== 0 && (
-                          <input
-                            type="text"
-                            value={stockData?.reason || ''}
-                            placeholder="Enter reason..."
-                            onChange={(e) => {
-                              handleStockChange(product.id, actualStock, e.target.value);
-                            }}
-                            className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-green-500"
-                          />
-                        )}
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap">
-                        {actualStock !== undefined && difference !== 0 && (
-                          <span className={`text-sm font-medium ${
-                            valueImpact >= 0 ? 'text-blue-600' : 'text-red-600'
-                          }`}>
-                            {valueImpact >= 0 ? '+' : ''}{formatKES(valueImpact)}
-                          </span>
-                        )}
-                      </td>
-                    </tr>
+                    <React.Fragment key={medicine.master.id}>
+                      <tr className="bg-gray-50">
+                        <td className="px-6 py-3 whitespace-nowrap">
+                          <button
+                            onClick={() => toggleMedicine(medicine.master.id)}
+                            className="flex items-center text-left"
+                          >
+                            {isCollapsed
+                              ? <ChevronRight className="h-4 w-4 mr-2 text-gray-500" />
+                              : <ChevronDown className="h-4 w-4 mr-2 text-gray-500" />}
+                            <div>
+                              <div className="text-sm font-semibold text-gray-900">{medicine.master.name}</div>
+                              <div className="text-sm text-gray-500">
+                                {medicine.master.barcode ? `Barcode: ${medicine.master.barcode} · ` : ''}
+                                {countedBatches.length} of {medicine.batches.length} batch{medicine.batches.length === 1 ? '' : 'es'} counted
+                              </div>
+                            </div>
+                          </button>
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap">
+                          <div className="text-sm font-semibold text-gray-900">{medicine.totalStock}</div>
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap">
+                          {countedBatches.length > 0 && (
+                            <div className="text-sm font-semibold text-gray-900">
+                              {countedBatches.reduce((sum, product) => sum + activeSession.products[product.id].actualStock, 0)}
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-6 py-3 whitespace-nowrap">
+                          {medicineDifference !== 0 && (
+                            <span className={`text-sm font-semibold ${medicineDifference > 0 ? 'text-blue-600' : 'text-red-600'}`}>
+                              {medicineDifference > 0 ? '+' : ''}{medicineDifference}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-6 py-3" />
+                        <td className="px-6 py-3" />
+                      </tr>
+                      {!isCollapsed && medicine.batches.map((product) => {
+                        const stockData = activeSession.products[product.id];
+                        const actualStock = stockData?.actualStock;
+                        const difference = actualStock !== undefined ? actualStock - product.currentStock : 0;
+                        const valueImpact = actualStock !== undefined ? difference * product.costPrice : 0;
+
+                        return (
+                          <tr key={product.id} className="hover:bg-gray-50">
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <div>
+                                <div className="text-sm text-gray-900 pl-6">Batch: {product.batchNumber}</div>
+                                <div className={`text-sm pl-6 ${isBatchExpired(product) ? 'text-red-600' : 'text-gray-500'}`}>
+                                  Expires {product.expiryDate.toLocaleDateString('en-KE')}
+                                </div>
+                              </div>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <div className="text-sm text-gray-900">{product.currentStock}</div>
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              <input
+                                type="text"
+                                inputMode="numeric"
+                                pattern="[0-9]*"
+                                value={stockData?.actualStock !== undefined ? stockData.actualStock.toString() : ''}
+                                placeholder="Enter actual stock..."
+                                data-count-input
+                                onChange={(e) => {
+                                  const value = e.target.value.replace(/[^0-9]/g, '');
+                                  const numValue = parseInt(value) || 0;
+                                  if (value !== '') {
+                                    handleStockChange(product.id, numValue, stockData?.reason || '');
+                                  }
+                                }}
+                                onKeyPress={(e) => {
+                                  if (e.key === 'Enter') {
+                                    e.preventDefault();
+                                    const value = e.currentTarget.value.replace(/[^0-9]/g, '');
+                                    if (value.trim() !== '') {
+                                      const inputs = Array.from(document.querySelectorAll<HTMLInputElement>('input[data-count-input]'));
+                                      const nextInput = inputs[inputs.indexOf(e.currentTarget) + 1];
+                                      if (nextInput) {
+                                        nextInput.focus();
+                                      }
+                                    }
+                                  }
+                                }}
+                                className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-green-500"
+                              />
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              {actualStock !== undefined && difference !== 0 && (
+                                <span className={`inline-flex px-2 py-1 text-xs font-semibold rounded-full ${
+                                  difference === 0 
+                                    ? 'bg-green-100 text-green-800' 
+                                    : difference > 0 
+                                    ? 'bg-blue-100 text-blue-800'
+                                    : 'bg-red-100 text-red-800'
+                                }`}>
+                                  {difference > 0 ? '+' : ''}{difference}
+                                </span>
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              {actualStock !== undefined && difference !== 0 && (
+                                <input
+                                  type="text"
+                                  value={stockData?.reason || ''}
+                                  placeholder="Enter reason..."
+                                  onChange={(e) => {
+                                    handleStockChange(product.id, actualStock, e.target.value);
+                                  }}
+                                  className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-green-500"
+                                />
+                              )}
+                            </td>
+                            <td className="px-6 py-4 whitespace-nowrap">
+                              {actualStock !== undefined && difference !== 0 && (
+                                <span className={`text-sm font-medium ${
+                                  valueImpact >= 0 ? 'text-blue-600' : 'text-red-600'
+                                }`}>
+                                  {valueImpact >= 0 ? '+' : ''}{formatKES(valueImpact)}
+                                </span>
+                              )}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </React.Fragment>
                   );
                 })}
               </tbody>
             </table>
           </div>
-          <Pagination {...paginationProps} />
+          <Pagination
+            currentPage={currentPage}
+            totalItems={filteredMedicines.length}
+            itemsPerPage={itemsPerPage}
+            onPageChange={goToPage}
+            itemName="products"
+          />
         </div>
       </div>
     );
@@ -971,6 +1093,17 @@ const StockTake: React.FC = () => {
           </div>
         </div>
       )}
+
+      {unknownBarcode && (
+        <LinkBarcodeModal
+          barcode={unknownBarcode}
+          onClose={() => setUnknownBarcode(null)}
+          onLinked={(medicine) => {
+            setUnknownBarcode(null);
+            countScannedMedicine(medicine);
+          }}
+        />
+      )}
     </div>
   );
 };
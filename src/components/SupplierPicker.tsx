@@ -0,0 +1,70 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { getErrorMessage } from '../utils/errorMessages';
+import AutocompleteInput from './AutocompleteInput';
+
+interface SupplierPickerProps {
+  value: string;
+  onChange: (value: string) => void;
+  label?: string;
+  placeholder?: string;
+  required?: boolean;
+}
+
+// Picks from the supplier records. A new name is added as a supplier with
+// default terms, to be filled in later from the Suppliers page.
+const SupplierPicker: React.FC<SupplierPickerProps> = ({
+  value,
+  onChange,
+  label = 'Supplier',
+  placeholder = 'Select or add supplier',
+  required = false
+}) => {
+  const { suppliers, addSupplier, getSupplierByName, isSupabaseEnabled } = useApp();
+  const { showAlert } = useAlert();
+
+  const record = value.trim() ? getSupplierByName(value) : undefined;
+  const isUnknown = isSupabaseEnabled && !!value.trim() && value.trim() !== 'Unknown Supplier' && !record;
+
+  const handleAddNew = async (name: string) => {
+    try {
+      await addSupplier({ name });
+      onChange(name);
+    } catch (error) {
+      showAlert({ title: 'Suppliers', message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
+  return (
+    <div>
+      <AutocompleteInput
+        label={label}
+        value={value}
+        onChange={onChange}
+        options={suppliers}
+        placeholder={placeholder}
+        allowAddNew={true}
+        onAddNew={handleAddNew}
+        required={required}
+      />
+      {record && (
+        <p className="text-xs text-gray-500 mt-1">
+          {record.paymentTermsDays}-day terms
+          {record.leadTimeDays !== undefined && ` · ${record.leadTimeDays}-day lead time`}
+          {record.defaultDiscountPercent > 0 && ` · ${record.defaultDiscountPercent}% discount`}
+          {!record.isActive && ' · inactive'}
+        </p>
+      )}
+      {isUnknown && (
+        <p className="text-xs text-amber-700 mt-1 flex items-center">
+          <AlertTriangle className="h-3 w-3 mr-1" />
+          Not a known supplier. Pick one from the list or add it.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SupplierPicker;
@@ -0,0 +1,658 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Truck, Search, Plus, Edit2, X, Download, LineChart } from 'lucide-react';
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { useApp } from '../contexts/AppContext';
+import { useAlert } from '../contexts/AlertContext';
+import { useAutoRefresh } from '../contexts/DataRefreshContext';
+import { Supplier, SupplierScorecard, SupplierPriceTrendPoint, KRA_PIN_PATTERN } from '../types';
+import { formatKES } from '../utils/currency';
+import { getErrorMessage } from '../utils/errorMessages';
+import { usePagination } from '../hooks/usePagination';
+import Pagination from './Pagination';
+
+type Tab = 'directory' | 'scorecards';
+
+const emptyForm = {
+  name: '',
+  contactPerson: '',
+  phone: '',
+  email: '',
+  address: '',
+  kraPin: '',
+  paymentTermsDays: '30',
+  leadTimeDays: '',
+  defaultDiscountPercent: '0',
+  notes: '',
+  isActive: true,
+};
+
+const toDateInput = (date: Date) => date.toLocaleDateString('en-CA');
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date;
+};
+
+const formatRate = (rate: number | null) => (rate === null ? '-' : `${rate}%`);
+
+const formatPriceChange = (change: number | null) =>
+  change === null ? '-' : `${change > 0 ? '+' : ''}${change}%`;
+
+// Fill rate and on-time delivery: higher is better
+const rateStyle = (rate: number | null) =>
+  rate === null ? 'text-gray-400' : rate >= 95 ? 'text-green-600' : rate >= 80 ? 'text-orange-600' : 'text-red-600';
+
+const downloadScorecards = (scorecards: SupplierScorecard[], from: string, to: string) => {
+  const doc = new jsPDF({ orientation: 'landscape' });
+
+  doc.setFontSize(16);
+  doc.setFont('helvetica', 'bold');
+  doc.text('SUPPLIER SCORECARDS', 148, 16, { align: 'center' });
+  doc.setFontSize(10);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Wesabi Pharmacy · ${from} to ${to}`, 148, 23, { align: 'center' });
+
+  autoTable(doc, {
+    startY: 30,
+    head: [['Supplier', 'Invoices', 'Spend', 'Fill Rate', 'On Time', 'Price Change', 'Returns', 'Return Rate']],
+    body: scorecards.map(scorecard => [
+      scorecard.supplierName,
+      scorecard.invoiceCount.toString(),
+      formatKES(scorecard.spend),
+      scorecard.orderedUnits > 0 ? `${formatRate(scorecard.fillRate)} (${scorecard.receivedUnits}/${scorecard.orderedUnits})` : '-',
+      scorecard.deliveriesDue > 0 ? `${formatRate(scorecard.onTimeRate)} (${scorecard.onTimeDeliveries}/${scorecard.deliveriesDue})` : '-',
+      formatPriceChange(scorecard.priceChangePercent),
+      formatKES(scorecard.returnsAmount),
+      formatRate(scorecard.returnRate),
+    ]),
+    theme: 'grid',
+    headStyles: {
+      fillColor: [66, 139, 202],
+      textColor: 255,
+      fontStyle: 'bold',
+      fontSize: 9
+    },
+    bodyStyles: { fontSize: 9 },
+    margin: { left: 10, right: 10 }
+  });
+
+  doc.save(`Supplier_Scorecards_${from}_${to}.pdf`);
+};
+
+const Suppliers: React.FC = () => {
+  const { supplierRecords, addSupplier, updateSupplier, getSupplierScorecards, getSupplierPriceTrend } = useApp();
+  const { showAlert } = useAlert();
+  const [activeTab, setActiveTab] = useState<Tab>('directory');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showInactive, setShowInactive] = useState(false);
+  const [editingSupplier, setEditingSupplier] = useState<Supplier | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [scorecards, setScorecards] = useState<SupplierScorecard[]>([]);
+  const [scorecardFrom, setScorecardFrom] = useState(toDateInput(daysAgo(89)));
+  const [scorecardTo, setScorecardTo] = useState(toDateInput(new Date()));
+  const [loading, setLoading] = useState(false);
+  const [trendSupplier, setTrendSupplier] = useState<SupplierScorecard | null>(null);
+  const [trend, setTrend] = useState<SupplierPriceTrendPoint[]>([]);
+  const [trendLoading, setTrendLoading] = useState(false);
+
+  const loadScorecards = useCallback(async () => {
+    if (activeTab !== 'scorecards') return;
+    try {
+      setLoading(true);
+      setScorecards(await getSupplierScorecards(scorecardFrom, scorecardTo));
+    } catch (error) {
+      showAlert({ title: 'Suppliers', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  }, [activeTab, scorecardFrom, scorecardTo, getSupplierScorecards, showAlert]);
+
+  useEffect(() => {
+    loadScorecards();
+  }, [loadScorecards]);
+
+  useAutoRefresh('invoices', loadScorecards);
+
+  const openTrend = async (scorecard: SupplierScorecard) => {
+    setTrendSupplier(scorecard);
+    setTrendLoading(true);
+    try {
+      setTrend(await getSupplierPriceTrend(scorecard.supplierId, scorecardFrom, scorecardTo));
+    } catch (error) {
+      showAlert({ title: 'Suppliers', message: getErrorMessage(error), type: 'error' });
+      setTrend([]);
+    } finally {
+      setTrendLoading(false);
+    }
+  };
+
+  const openForm = (supplier?: Supplier) => {
+    setEditingSupplier(supplier || null);
+    setForm(supplier ? {
+      name: supplier.name,
+      contactPerson: supplier.contactPerson || '',
+      phone: supplier.phone || '',
+      email: supplier.email || '',
+      address: supplier.address || '',
+      kraPin: supplier.kraPin || '',
+      paymentTermsDays: supplier.paymentTermsDays.toString(),
+      leadTimeDays: supplier.leadTimeDays?.toString() ?? '',
+      defaultDiscountPercent: supplier.defaultDiscountPercent.toString(),
+      notes: supplier.notes || '',
+      isActive: supplier.isActive,
+    } : emptyForm);
+    setShowForm(true);
+  };
+
+  const saveSupplier = async () => {
+    const kraPin = form.kraPin.trim().toUpperCase();
+    const paymentTermsDays = parseInt(form.paymentTermsDays);
+    const leadTimeDays = form.leadTimeDays.trim() ? parseInt(form.leadTimeDays) : undefined;
+    const defaultDiscountPercent = parseFloat(form.defaultDiscountPercent) || 0;
+
+    if (!form.name.trim()) {
+      showAlert({ title: 'Suppliers', message: 'Supplier name is required', type: 'warning' });
+      return;
+    }
+    if (kraPin && !KRA_PIN_PATTERN.test(kraPin)) {
+      showAlert({ title: 'Suppliers', message: 'KRA PIN must look like P051234567X', type: 'warning' });
+      return;
+    }
+    if (isNaN(paymentTermsDays) || paymentTermsDays < 0 || (leadTimeDays !== undefined && (isNaN(leadTimeDays) || leadTimeDays < 0))) {
+      showAlert({ title: 'Suppliers', message: 'Payment terms and lead time must be whole days, zero or more', type: 'warning' });
+      return;
+    }
+    if (defaultDiscountPercent < 0 || defaultDiscountPercent > 100) {
+      showAlert({ title: 'Suppliers', message: 'Discount must be between 0 and 100%', type: 'warning' });
+      return;
+    }
+
+    const supplierData = {
+      ...form,
+      kraPin,
+      paymentTermsDays,
+      leadTimeDays,
+      defaultDiscountPercent,
+    };
+
+    setIsSaving(true);
+    try {
+      if (editingSupplier) {
+        await updateSupplier(editingSupplier.id, supplierData);
+      } else {
+        await addSupplier(supplierData);
+      }
+      setShowForm(false);
+    } catch (error) {
+      showAlert({ title: 'Suppliers', message: getErrorMessage(error), type: 'error' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const term = searchTerm.trim().toLowerCase();
+  const filteredSuppliers = supplierRecords.filter(supplier =>
+    (showInactive || supplier.isActive) && (
+      !term ||
+      supplier.name.toLowerCase().includes(term) ||
+      supplier.contactPerson?.toLowerCase().includes(term) ||
+      supplier.kraPin?.toLowerCase().includes(term)
+    )
+  );
+
+  const {
+    currentPage,
+    paginatedItems: paginatedSuppliers,
+    goToPage,
+    itemsPerPage
+  } = usePagination({ items: filteredSuppliers, itemsPerPage: 15 });
+
+  const totalSpend = scorecards.reduce((sum, scorecard) => sum + scorecard.spend, 0);
+
+  const tabs: { id: Tab; label: string }[] = [
+    { id: 'directory', label: 'Directory' },
+    { id: 'scorecards', label: 'Scorecards' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-start">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Suppliers</h1>
+          <p className="text-gray-600">Supplier contacts and terms, and how each supplier performs</p>
+        </div>
+        <button
+          onClick={() => openForm()}
+          className="flex items-center px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700"
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Add Supplier
+        </button>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-sm border">
+        <div className="px-4 pt-2 border-b flex justify-between items-end">
+          <div className="flex space-x-2">
+            {tabs.map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveTab(tab.id)}
+                className={`px-3 py-2 text-sm font-medium border-b-2 -mb-px ${
+                  activeTab === tab.id ? 'border-green-600 text-green-700' : 'border-transparent text-gray-600 hover:text-gray-900'
+                }`}
+              >
+                {tab.label}
+              </button>
+            ))}
+          </div>
+          <div className="pb-2">
+            {activeTab === 'directory' && (
+              <label className="flex items-center text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={showInactive}
+                  onChange={(e) => {
+                    setShowInactive(e.target.checked);
+                    goToPage(1);
+                  }}
+                  className="mr-2"
+                />
+                Show inactive
+              </label>
+            )}
+            {activeTab === 'scorecards' && (
+              <div className="flex items-center space-x-2">
+                <input
+                  type="date"
+                  value={scorecardFrom}
+                  onChange={(e) => setScorecardFrom(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <span className="text-gray-500 text-sm">to</span>
+                <input
+                  type="date"
+                  value={scorecardTo}
+                  onChange={(e) => setScorecardTo(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <button
+                  onClick={() => downloadScorecards(scorecards, scorecardFrom, scorecardTo)}
+                  disabled={scorecards.length === 0}
+                  className="p-2 text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                  title="Download PDF"
+                >
+                  <Download className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {activeTab === 'directory' ? (
+          <>
+            <div className="p-4 border-b">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <input
+                  type="text"
+                  value={searchTerm}
+                  onChange={(e) => {
+                    setSearchTerm(e.target.value);
+                    goToPage(1);
+                  }}
+                  placeholder="Search by name, contact or KRA PIN"
+                  className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Supplier</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">Contact</th>
+                    <th className="px-4 py-2 text-left font-medium text-gray-500">KRA PIN</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Terms</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Lead Time</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Discount</th>
+                    <th className="px-4 py-2 text-right font-medium text-gray-500">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {paginatedSuppliers.length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="px-4 py-8 text-center text-gray-500">No suppliers found</td>
+                    </tr>
+                  )}
+                  {paginatedSuppliers.map(supplier => (
+                    <tr key={supplier.id} className={supplier.isActive ? '' : 'bg-gray-50 text-gray-500'}>
+                      <td className="px-4 py-2">
+                        <p className="font-medium text-gray-900">
+                          {supplier.name}
+                          {!supplier.isActive && <span className="ml-2 text-xs font-normal text-gray-500">(inactive)</span>}
+                        </p>
+                        {supplier.address && <p className="text-xs text-gray-500 truncate max-w-xs">{supplier.address}</p>}
+                      </td>
+                      <td className="px-4 py-2">
+                        <p>{supplier.contactPerson || '-'}</p>
+                        {(supplier.phone || supplier.email) && (
+                          <p className="text-xs text-gray-500">{[supplier.phone, supplier.email].filter(Boolean).join(' · ')}</p>
+                        )}
+                      </td>
+                      <td className="px-4 py-2">{supplier.kraPin || '-'}</td>
+                      <td className="px-4 py-2 text-right">{supplier.paymentTermsDays} days</td>
+                      <td className="px-4 py-2 text-right">
+                        {supplier.leadTimeDays !== undefined ? `${supplier.leadTimeDays} days` : <span className="text-gray-400">Default</span>}
+                      </td>
+                      <td className="px-4 py-2 text-right">{supplier.defaultDiscountPercent}%</td>
+                      <td className="px-4 py-2">
+                        <div className="flex justify-end">
+                          <button
+                            onClick={() => openForm(supplier)}
+                            className="p-1 text-gray-600 hover:text-gray-800"
+                            title="Edit supplier"
+                          >
+                            <Edit2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              <Pagination
+                currentPage={currentPage}
+                totalItems={filteredSuppliers.length}
+                itemsPerPage={itemsPerPage}
+                onPageChange={goToPage}
+                itemName="suppliers"
+              />
+            </div>
+          </>
+        ) : loading ? (
+          <p className="text-center text-gray-500 py-8">Loading...</p>
+        ) : scorecards.length === 0 ? (
+          <p className="text-center text-gray-500 py-8">No supplier activity in this period</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Supplier</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Spend</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Share</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Fill Rate</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">On Time</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Price Change</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Returns</th>
+                  <th className="px-4 py-2 text-right font-medium text-gray-500">Price Trend</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {scorecards.map(scorecard => (
+                  <tr key={scorecard.supplierId}>
+                    <td className="px-4 py-2 font-medium text-gray-900">{scorecard.supplierName}</td>
+                    <td className="px-4 py-2 text-right text-gray-900">
+                      {formatKES(scorecard.spend)} <span className="text-xs text-gray-500">({scorecard.invoiceCount})</span>
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-600">
+                      {totalSpend > 0 ? `${((scorecard.spend / totalSpend) * 100).toFixed(1)}%` : '-'}
+                    </td>
+                    <td className={`px-4 py-2 text-right ${rateStyle(scorecard.fillRate)}`}>
+                      {formatRate(scorecard.fillRate)}
+                      {scorecard.orderedUnits > 0 && (
+                        <span className="block text-xs text-gray-500">{scorecard.receivedUnits} of {scorecard.orderedUnits} units</span>
+                      )}
+                    </td>
+                    <td className={`px-4 py-2 text-right ${rateStyle(scorecard.onTimeRate)}`}>
+                      {formatRate(scorecard.onTimeRate)}
+                      {scorecard.deliveriesDue > 0 && (
+                        <span className="block text-xs text-gray-500">{scorecard.onTimeDeliveries} of {scorecard.deliveriesDue} orders</span>
+                      )}
+                    </td>
+                    <td className={`px-4 py-2 text-right ${
+                      scorecard.priceChangePercent === null ? 'text-gray-400' : scorecard.priceChangePercent > 0 ? 'text-red-600' : 'text-green-600'
+                    }`}>
+                      {formatPriceChange(scorecard.priceChangePercent)}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-600">
+                      {scorecard.returnsAmount > 0 ? (
+                        <>
+                          {formatKES(scorecard.returnsAmount)}
+                          <span className="block text-xs text-gray-500">{formatRate(scorecard.returnRate)} of spend</span>
+                        </>
+                      ) : '-'}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => openTrend(scorecard)}
+                        disabled={scorecard.invoiceCount === 0}
+                        className="p-1 text-blue-600 hover:text-blue-800 disabled:text-gray-300"
+                        title="Monthly price trend"
+                      >
+                        <LineChart className="h-4 w-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="px-4 py-3 text-xs text-gray-500 border-t">
+              Spend is net of purchase reversals. Fill rate and on-time delivery cover orders sent in the period; an order is late once
+              its expected date passes without a delivery. Price change averages each medicine's last cost against its first.
+            </p>
+          </div>
+        )}
+      </div>
+
+      {/* Add / Edit Supplier Modal */}
+      {showForm && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+          <div className="bg-white p-6 rounded-lg max-w-lg w-full mx-4 max-h-[90vh] overflow-y-auto">
+            <h3 className="text-lg font-semibold mb-4 flex items-center">
+              <Truck className="h-5 w-5 mr-2" />
+              {editingSupplier ? 'Edit Supplier' : 'Add Supplier'}
+            </h3>
+            <div className="space-y-3">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <input
+                  type="text"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                {editingSupplier && form.name.trim() !== editingSupplier.name && (
+                  <p className="text-xs text-gray-500 mt-1">The new name is carried onto this supplier's invoices, credit notes, orders and batches.</p>
+                )}
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Contact Person</label>
+                  <input
+                    type="text"
+                    value={form.contactPerson}
+                    onChange={(e) => setForm({ ...form, contactPerson: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Phone</label>
+                  <input
+                    type="tel"
+                    value={form.phone}
+                    onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                    placeholder="0712345678"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Email</label>
+                  <input
+                    type="email"
+                    value={form.email}
+                    onChange={(e) => setForm({ ...form, email: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">KRA PIN</label>
+                  <input
+                    type="text"
+                    value={form.kraPin}
+                    onChange={(e) => setForm({ ...form, kraPin: e.target.value.toUpperCase() })}
+                    placeholder="P051234567X"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Address</label>
+                <input
+                  type="text"
+                  value={form.address}
+                  onChange={(e) => setForm({ ...form, address: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Terms (days)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={form.paymentTermsDays}
+                    onChange={(e) => setForm({ ...form, paymentTermsDays: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Lead Time (days)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    value={form.leadTimeDays}
+                    onChange={(e) => setForm({ ...form, leadTimeDays: e.target.value })}
+                    placeholder="Default"
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Discount %</label>
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    step="0.01"
+                    value={form.defaultDiscountPercent}
+                    onChange={(e) => setForm({ ...form, defaultDiscountPercent: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                Lead time sets the expected date on new orders and drives reorder suggestions. The discount is filled in on new invoice lines.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <textarea
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  rows={2}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+              </div>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                  className="mr-2"
+                />
+                Active (inactive suppliers are hidden from supplier pickers)
+              </label>
+            </div>
+            <div className="flex space-x-3 mt-6">
+              <button
+                onClick={() => setShowForm(false)}
+                className="flex-1 px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={saveSupplier}
+                disabled={isSaving}
+                className="flex-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400"
+              >
+                {isSaving ? 'Saving...' : 'Save'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Price Trend Modal */}
+      {trendSupplier && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+          <div className="bg-white rounded-lg max-w-xl w-full max-h-[90vh] overflow-y-auto">
+            <div className="p-6 border-b flex justify-between items-start">
+              <div>
+                <h3 className="text-lg font-semibold">{trendSupplier.supplierName}</h3>
+                <p className="text-sm text-gray-600">Monthly price trend · {scorecardFrom} to {scorecardTo}</p>
+              </div>
+              <button onClick={() => setTrendSupplier(null)} className="p-1 text-gray-400 hover:text-gray-600">
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+            <div className="p-6">
+              {trendLoading ? (
+                <p className="text-center text-gray-500 py-4">Loading price trend...</p>
+              ) : trend.length === 0 ? (
+                <p className="text-center text-gray-500 py-4">No invoice lines from this supplier in the period</p>
+              ) : (
+                <>
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium text-gray-500">Month</th>
+                        <th className="px-3 py-2 text-right font-medium text-gray-500">Lines</th>
+                        <th className="px-3 py-2 text-right font-medium text-gray-500">Spend</th>
+                        <th className="px-3 py-2 text-right font-medium text-gray-500">Price Index</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {trend.map(point => (
+                        <tr key={point.month}>
+                          <td className="px-3 py-2">
+                            {new Date(`${point.month}T00:00:00`).toLocaleDateString('en-KE', { month: 'short', year: 'numeric' })}
+                          </td>
+                          <td className="px-3 py-2 text-right">{point.lineCount}</td>
+                          <td className="px-3 py-2 text-right">{formatKES(point.spend)}</td>
+                          <td className={`px-3 py-2 text-right font-medium ${
+                            point.priceIndex === null ? 'text-gray-400' : point.priceIndex > 100 ? 'text-red-600' : point.priceIndex < 100 ? 'text-green-600' : 'text-gray-900'
+                          }`}>
+                            {point.priceIndex ?? '-'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  <p className="text-xs text-gray-500 mt-3">
+                    100 is the first unit cost paid for each medicine in the period; 105 means the same medicines cost 5% more on average.
+                  </p>
+                </>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Suppliers;
@@ -0,0 +1,176 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlertTriangle, Check } from 'lucide-react';
+import { supabase } from '../lib/supabase';
+import { useApp } from '../contexts/AppContext';
+import { useAuth } from '../contexts/AuthContext';
+import { useAlert } from '../contexts/AlertContext';
+import { useAutoRefresh } from '../contexts/DataRefreshContext';
+import { getErrorMessage } from '../utils/errorMessages';
+
+interface SyncException {
+  id: string;
+  sale_id: string;
+  exception_type: 'stock' | 'expired' | 'prescription' | 'pricing';
+  product_name: string;
+  batch_number: string | null;
+  quantity_sold: number;
+  stock_available: number;
+  shortfall: number | null;
+  details: string | null;
+  created_at: string;
+  receipt_number?: string;
+}
+
+const EXCEPTION_LABELS: Record<SyncException['exception_type'], string> = {
+  stock: 'Oversold',
+  expired: 'Expired batch',
+  prescription: 'No prescription',
+  pricing: 'Price or discount',
+};
+
+// Offline sales that broke a rule the till could not check: more than the
+// stock on hand when they synced, an expired batch, a missing prescription,
+// or a discount or price the server would have refused
+const SyncExceptionsReview: React.FC = () => {
+  const { logActivity } = useApp();
+  const { user } = useAuth();
+  const { showAlert } = useAlert();
+  const [exceptions, setExceptions] = useState<SyncException[]>([]);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [resolutionNotes, setResolutionNotes] = useState('');
+
+  const loadExceptions = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sale_sync_exceptions')
+        .select('*')
+        .eq('status', 'open')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const saleIds = [...new Set((data || []).map(exception => exception.sale_id))];
+      const receipts: Record<string, string> = {};
+
+      if (saleIds.length > 0) {
+        const { data: salesData, error: salesError } = await supabase
+          .from('sales')
+          .select('id, receipt_number')
+          .in('id', saleIds);
+
+        if (salesError) throw salesError;
+        (salesData || []).forEach(sale => {
+          receipts[sale.id] = sale.receipt_number;
+        });
+      }
+
+      setExceptions((data || []).map(exception => ({
+        ...exception,
+        receipt_number: receipts[exception.sale_id],
+      })));
+    } catch (error) {
+      console.error('Error loading sync exceptions:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadExceptions();
+  }, [loadExceptions]);
+
+  useAutoRefresh('sales', loadExceptions);
+
+  const resolveException = async (exception: SyncException) => {
+    if (!resolutionNotes.trim()) {
+      showAlert({ title: 'Offline Sales Review', message: 'Describe how the shortfall was resolved', type: 'warning' });
+      return;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('sale_sync_exceptions')
+        .update({
+          status: 'resolved',
+          resolution_notes: resolutionNotes.trim(),
+          resolved_by_name: user?.name,
+          resolved_at: new Date().toISOString(),
+        })
+        .eq('id', exception.id);
+
+      if (error) throw error;
+
+      await logActivity(
+        'RESOLVE_SYNC_EXCEPTION',
+        `Resolved ${EXCEPTION_LABELS[exception.exception_type].toLowerCase()} ${exception.product_name}${exception.shortfall ? ` (${exception.shortfall} units)` : ''} on ${exception.receipt_number || exception.sale_id}: ${resolutionNotes.trim()}`
+      );
+
+      setResolvingId(null);
+      setResolutionNotes('');
+      await loadExceptions();
+    } catch (error) {
+      showAlert({ title: 'Offline Sales Review', message: getErrorMessage(error), type: 'error' });
+    }
+  };
+
+  if (exceptions.length === 0) return null;
+
+  return (
+    <div className="bg-orange-50 border border-orange-200 rounded-lg p-4">
+      <h3 className="text-sm font-semibold text-orange-900 flex items-center mb-3">
+        <AlertTriangle className="h-4 w-4 mr-2" />
+        {exceptions.length} offline sale line(s) need review
+      </h3>
+      <div className="space-y-2">
+        {exceptions.map(exception => (
+          <div key={exception.id} className="bg-white rounded-lg p-3 text-sm">
+            <div className="flex justify-between items-start">
+              <div>
+                <p className="font-medium text-gray-900">
+                  <span className="text-orange-700">{EXCEPTION_LABELS[exception.exception_type]}:</span> {exception.product_name}
+                  {exception.batch_number && <span className="text-gray-500 font-normal"> · Batch {exception.batch_number}</span>}
+                </p>
+                <p className="text-gray-600">
+                  Receipt {exception.receipt_number || '-'} · sold {exception.quantity_sold}
+                  {exception.exception_type === 'stock'
+                    ? <>, {exception.stock_available} in stock at sync · short by <span className="font-semibold text-red-600">{exception.shortfall}</span></>
+                    : exception.details && ` · ${exception.details}`}
+                </p>
+                <p className="text-xs text-gray-500">Synced {new Date(exception.created_at).toLocaleString('en-KE')}</p>
+              </div>
+              {resolvingId !== exception.id && (
+                <button
+                  onClick={() => {
+                    setResolvingId(exception.id);
+                    setResolutionNotes('');
+                  }}
+                  className="text-sm text-green-600 hover:text-green-800"
+                >
+                  Resolve
+                </button>
+              )}
+            </div>
+            {resolvingId === exception.id && (
+              <div className="flex space-x-2 mt-2">
+                <input
+                  type="text"
+                  value={resolutionNotes}
+                  onChange={(e) => setResolutionNotes(e.target.value)}
+                  placeholder="e.g. Stock found on shelf, count corrected in stock take"
+                  className="flex-1 px-3 py-1 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-green-500"
+                />
+                <button
+                  onClick={() => resolveException(exception)}
+                  className="p-1 text-green-600 hover:text-green-800"
+                  title="Mark resolved"
+                >
+                  <Check className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SyncExceptionsReview;
@@ -9,6 +9,9 @@ export interface EnvironmentConfig {
   api: {
     timeout: number;
   };
+  pos: {
+    branchCode: string;
+  };
   features: {
     enableDebugLogs: boolean;
     enableAnalytics: boolean;
@@ -74,6 +77,9 @@ function loadConfig(): EnvironmentConfig {
     api: {
       timeout: parseInt(import.meta.env.VITE_API_TIMEOUT || '30000', 10),
     },
+    pos: {
+      branchCode: (import.meta.env.VITE_BRANCH_CODE || 'MAIN').toUpperCase(),
+    },
     features: {
       enableDebugLogs: import.meta.env.VITE_ENABLE_DEBUG_LOGS === 'true',
       enableAnalytics: import.meta.env.VITE_ENABLE_ANALYTICS === 'true',
@@ -177,6 +183,10 @@ export function getSupabaseConfig() {
   };
 }
 
+export function getBranchCode(): string {
+  return config.pos.branchCode;
+}
+
 export function shouldEnableFeature(feature: keyof EnvironmentConfig['features']): boolean {
   return config.features[feature];
 }
@@ -1,4 +1,4 @@
-import React, { createContext, useContext, useState, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useCallback, ReactNode } from 'react';
 import { AlertDialog } from '../components/AlertDialog';
 
 interface AlertOptions {
@@ -35,12 +35,13 @@ export const AlertProvider: React.FC<AlertProviderProps> = ({ children }) => {
     type: 'info'
   });
 
-  const showAlert = (options: AlertOptions) => {
+  // Stable, so screens can load data in effects that depend on it
+  const showAlert = useCallback((options: AlertOptions) => {
     setAlertState({
       isOpen: true,
       ...options
     });
-  };
+  }, []);
 
   const closeAlert = () => {
     setAlertState(prev => ({ ...prev, isOpen: false }));
@@ -1,28 +1,87 @@
-import React, { createContext, useContext, useState, useEffect } from 'react';
-import { supabase, isSupabaseEnabled } from '../lib/supabase';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback } from 'react';
+import { supabase, isSupabaseEnabled, Sale as SaleRow, SaleItem as SaleItemRow, SalePayment as SalePaymentRow, InvoiceReversalItem as InvoiceReversalItemRow, SaleReturnPayment as SaleReturnPaymentRow, Customer as CustomerRow, SaleDiscount as SaleDiscountRow, Promotion as PromotionRow, FiscalInvoice as FiscalInvoiceRow, CashierShift as CashierShiftRow, CashMovement as CashMovementRow, MpesaTransaction as MpesaTransactionRow, MpesaVarianceDay as MpesaVarianceDayRow, MpesaRefund as MpesaRefundRow, ProductMaster as ProductMasterRow, StockMovement as StockMovementRow, Supplier as SupplierRow } from '../lib/supabase';
 import { formatKES, calculateSellingPrice, getMinimumSellingPrice, enforceMinimumSellingPrice } from '../utils/currency';
 import { medicineDatabase, drugCategories, commonSuppliers } from '../data/medicineDatabase';
 import { useAuth } from './AuthContext';
 import { useAlert } from './AlertContext';
-import { retryDatabaseOperation } from '../utils/retry';
-import { Product, PriceHistory, SaleItem, Sale, StockTake, ActivityLog, StockAlert, SalesHistoryItem } from '../types';
+import { retryDatabaseOperation, isNetworkError } from '../utils/retry';
+import { getErrorMessage } from '../utils/errorMessages';
+import { getBranchCode } from '../config/environment';
+import { normalizePhoneNumber } from '../utils/phone';
+import { cacheProducts, getCachedProducts, queueSale, getQueuedSales, updateQueuedSale, removeQueuedSale, saveOfflineTokens, takeOfflineToken, QueuedSale } from '../lib/offlineStore';
+import { isThermalPrinterConfigured, printBytes } from '../lib/thermalPrinter';
+import { renderReceiptHtml, renderReceiptEscPos, hasCashTender } from '../utils/receipt';
+import { encode, initialize, kickDrawer } from '../utils/escpos';
+import { summariseMedicineStock, isLowStock } from '../utils/batches';
+import { Product, ProductMaster, PriceHistory, SaleItem, Sale, SalePayment, SaleReturn, FiscalInvoice, CashierShift, CashMovementType, ShiftReport, ShiftStatus, StkPushStatus, MpesaTransaction, MpesaReconciliationStatus, PendingMpesaTender, MpesaVarianceDay, MpesaRefund, PaymentMethod, Customer, LoyaltyRules, DEFAULT_LOYALTY_RULES, ReorderRules, DEFAULT_REORDER_RULES, MedicineSalesVelocity, Supplier, SupplierScorecard, SupplierPriceTrendPoint, ReceiptTemplate, DEFAULT_RECEIPT_TEMPLATE, Promotion, StockTake, StockMovement, ManualStockMovementType, ActivityLog, StockAlert, SalesHistoryItem } from '../types';
 
 interface AppContextType {
   products: Product[];
+  productMasters: ProductMaster[];
   sales: Sale[];
+  saleReturns: SaleReturn[];
   stockTakes: StockTake[];
   activityLogs: ActivityLog[];
   salesHistory: SalesHistoryItem[];
   categories: string[];
   suppliers: string[];
+  supplierRecords: Supplier[];
   medicineTemplates: typeof medicineDatabase;
   loading: boolean;
   error: Error | null;
   stockTakeSessions: any[];
-  addProduct: (product: Omit<Product, 'id' | 'createdAt' | 'updatedAt' | 'priceHistory'>) => Promise<void>;
+  addProduct: (product: Omit<Product, 'id' | 'productMasterId' | 'createdAt' | 'updatedAt' | 'priceHistory'>) => Promise<void>;
   updateProduct: (id: string, updates: Partial<Product>) => Promise<void>;
   deleteProduct: (id: string) => Promise<void>;
-  addSale: (sale: Omit<Sale, 'id' | 'createdAt' | 'receiptNumber'>) => Promise<string>;
+  addProductMaster: (master: Omit<ProductMaster, 'id' | 'createdAt' | 'updatedAt'>) => Promise<ProductMaster>;
+  updateProductMaster: (id: string, updates: Partial<Omit<ProductMaster, 'id' | 'createdAt' | 'updatedAt'>>) => Promise<void>;
+  getStockMovements: (productMasterId: string) => Promise<StockMovement[]>;
+  recordStockMovement: (productId: string, movementType: ManualStockMovementType, quantity: number, reason: string, expectedStock?: number) => Promise<void>;
+  transferStock: (fromProductId: string, toProductId: string, quantity: number, reason: string) => Promise<void>;
+  addSale: (sale: Omit<Sale, 'id' | 'createdAt' | 'receiptNumber' | 'paymentMethod'>, saleId?: string, options?: { soldAt?: Date; offline?: boolean; offlineToken?: string }) => Promise<Sale>;
+  isOnline: boolean;
+  queuedSales: QueuedSale[];
+  isSyncing: boolean;
+  syncQueuedSales: () => Promise<void>;
+  retryQueuedSale: (id: string) => Promise<void>;
+  discardQueuedSale: (id: string) => Promise<void>;
+  getCurrentShift: () => Promise<CashierShift | null>;
+  openShift: (openingFloat: number) => Promise<CashierShift>;
+  recordCashMovement: (shiftId: string, movementType: CashMovementType, amount: number, reason: string) => Promise<void>;
+  getShifts: (status?: ShiftStatus) => Promise<CashierShift[]>;
+  getShiftReport: (shiftId: string) => Promise<ShiftReport>;
+  closeShift: (shiftId: string, countedCash: number, notes?: string) => Promise<ShiftReport>;
+  approveShift: (shiftId: string, notes?: string) => Promise<void>;
+  queryStkPush: (checkoutRequestId: string) => Promise<StkPushStatus>;
+  getMpesaTransactions: (status?: MpesaReconciliationStatus, from?: Date, to?: Date) => Promise<MpesaTransaction[]>;
+  getPendingMpesaTenders: () => Promise<PendingMpesaTender[]>;
+  reconcileMpesaTransactions: () => Promise<number>;
+  attachMpesaTransaction: (transactionId: string, salePaymentId: string) => Promise<MpesaReconciliationStatus>;
+  ignoreMpesaTransaction: (transactionId: string, note: string) => Promise<void>;
+  getMpesaVarianceReport: (from: string, to: string) => Promise<MpesaVarianceDay[]>;
+  getMpesaRefunds: (saleId: string) => Promise<MpesaRefund[]>;
+  refundToMpesa: (saleId: string, amount: number, reason: string, phoneNumber?: string, saleReturnId?: string) => Promise<MpesaRefund>;
+  resendMpesaRefund: (refundId: string) => Promise<MpesaRefund>;
+  addSaleReturn: (saleId: string, items: { saleItemId: string; quantity: number }[], refunds: SalePayment[], reason: string, notes?: string, returnId?: string) => Promise<SaleReturn>;
+  recordReturnCardRefund: (returnId: string, refund: SalePayment) => Promise<SaleReturn>;
+  searchCustomers: (term: string) => Promise<Customer[]>;
+  getCustomer: (id: string) => Promise<Customer | null>;
+  addCustomer: (customer: Omit<Customer, 'id' | 'loyaltyId' | 'createdAt'> & { loyaltyId?: string }) => Promise<Customer>;
+  updateCustomer: (id: string, updates: Partial<Omit<Customer, 'id' | 'createdAt'>>) => Promise<Customer>;
+  getLoyaltyRules: () => Promise<LoyaltyRules>;
+  saveLoyaltyRules: (rules: LoyaltyRules) => Promise<void>;
+  getLoyaltyBalance: (customerId: string) => Promise<number>;
+  getReorderRules: () => Promise<ReorderRules>;
+  saveReorderRules: (rules: ReorderRules) => Promise<void>;
+  getMedicineSalesVelocity: (days: number) => Promise<MedicineSalesVelocity[]>;
+  saveReorderDefaults: (changes: { id: string; packSize: number; preferredSupplier: string }[]) => Promise<void>;
+  getReceiptTemplate: () => Promise<ReceiptTemplate>;
+  saveReceiptTemplate: (template: ReceiptTemplate) => Promise<void>;
+  getSale: (saleId: string) => Promise<Sale>;
+  submitFiscalInvoice: (saleId: string, buyerPin?: string) => Promise<FiscalInvoice>;
+  retryFiscalInvoices: () => Promise<{ processed: number; submitted: number }>;
+  getPromotions: () => Promise<Promotion[]>;
+  savePromotion: (promotion: Omit<Promotion, 'id'>, id?: string) => Promise<Promotion>;
   addStockTake: (stockTake: Omit<StockTake, 'id' | 'createdAt'>) => Promise<void>;
   createStockTakeSession: (name: string) => Promise<string>;
   updateStockTakeSession: (id: string, updates: any) => Promise<void>;
@@ -32,11 +91,17 @@ interface AppContextType {
   getStockAlerts: () => StockAlert[];
   importProducts: (products: any[]) => Promise<void>;
   addCategory: (category: string) => void;
-  addSupplier: (supplier: string) => void;
+  addSupplier: (supplier: Pick<Supplier, 'name'> & Partial<Omit<Supplier, 'id' | 'createdAt' | 'updatedAt'>>) => Promise<Supplier | null>;
+  updateSupplier: (id: string, updates: Partial<Omit<Supplier, 'id' | 'createdAt' | 'updatedAt'>>) => Promise<Supplier>;
+  getSupplierByName: (name: string) => Supplier | undefined;
+  getSupplierScorecards: (from: string, to: string) => Promise<SupplierScorecard[]>;
+  getSupplierPriceTrend: (supplierId: string, from: string, to: string) => Promise<SupplierPriceTrendPoint[]>;
   addMedicine: (medicine: string) => void;
   getMedicineByName: (name: string) => typeof medicineDatabase[0] | undefined;
   getSalesHistory: () => SalesHistoryItem[];
-  generateReceipt: (sale: Sale) => void;
+  generateReceipt: (sale: Sale, options?: { reprint?: boolean }) => Promise<void>;
+  reprintReceipt: (saleId: string) => Promise<void>;
+  openCashDrawer: () => Promise<void>;
   exportToPDF: (data: any, type: string) => void;
   refreshData: () => Promise<void>;
   getLastSoldPrice: (productId: string) => Promise<number | null>;
@@ -58,23 +123,396 @@ interface AppProviderProps {
   children: React.ReactNode;
 }
 
+// Offline sales a till can take before it has to reach the server again
+const OFFLINE_TOKEN_POOL = 20;
+
+// Shape returned by process_sale and get_sale_json
+interface SaleJson extends SaleRow {
+  sale_items?: SaleItemRow[];
+  sale_payments?: SalePaymentRow[];
+  sale_discounts?: SaleDiscountRow[];
+  fiscal_invoice?: FiscalInvoiceRow | null;
+}
+
+const mapProductMaster = (row: ProductMasterRow): ProductMaster => ({
+  id: row.id,
+  name: row.name,
+  category: row.category,
+  barcode: row.barcode || undefined,
+  minStockLevel: row.min_stock_level,
+  drugSchedule: row.drug_schedule,
+  packSize: row.pack_size || 1,
+  preferredSupplier: row.preferred_supplier || undefined,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+});
+
+const mapSupplier = (row: SupplierRow): Supplier => ({
+  id: row.id,
+  name: row.name,
+  contactPerson: row.contact_person || undefined,
+  phone: row.phone || undefined,
+  email: row.email || undefined,
+  address: row.address || undefined,
+  kraPin: row.kra_pin || undefined,
+  paymentTermsDays: row.payment_terms_days,
+  leadTimeDays: row.lead_time_days ?? undefined,
+  defaultDiscountPercent: Number(row.default_discount_percent) || 0,
+  notes: row.notes || undefined,
+  isActive: row.is_active,
+  createdAt: new Date(row.created_at),
+  updatedAt: new Date(row.updated_at),
+});
+
+const mapCustomer = (row: CustomerRow): Customer => ({
+  id: row.id,
+  name: row.name,
+  phone: row.phone || undefined,
+  notes: row.notes || undefined,
+  allergies: row.allergies || undefined,
+  loyaltyId: row.loyalty_id,
+  createdAt: new Date(row.created_at),
+});
+
+const mapPromotion = (row: PromotionRow): Promotion => ({
+  id: row.id,
+  name: row.name,
+  promotionType: row.promotion_type,
+  appliesTo: row.applies_to,
+  productMasterId: row.product_master_id || undefined,
+  category: row.category || undefined,
+  value: Number(row.value) || 0,
+  buyQuantity: row.buy_quantity || undefined,
+  getQuantity: row.get_quantity || undefined,
+  code: row.code || undefined,
+  startsAt: row.starts_at ? new Date(row.starts_at) : undefined,
+  endsAt: row.ends_at ? new Date(row.ends_at) : undefined,
+  dailyStartTime: row.daily_start_time || undefined,
+  dailyEndTime: row.daily_end_time || undefined,
+  daysOfWeek: row.days_of_week || undefined,
+  allowBelowFloor: row.allow_below_floor,
+  isActive: row.is_active,
+});
+
+// Every supplier, active or not
+const fetchSuppliers = async (): Promise<Supplier[]> => {
+  if (!isSupabaseEnabled || !supabase) return [];
+
+  const { data, error } = await supabase
+    .from('suppliers')
+    .select('*')
+    .order('name');
+
+  if (error) throw error;
+
+  return (data || []).map(mapSupplier);
+};
+
+const mapStockMovement = (row: StockMovementRow): StockMovement => ({
+  id: row.id,
+  productId: row.product_id,
+  productMasterId: row.product_master_id || undefined,
+  productName: row.product_name,
+  batchNumber: row.batch_number || undefined,
+  movementType: row.movement_type,
+  quantity: row.quantity,
+  balanceBefore: row.balance_before,
+  balanceAfter: row.balance_after,
+  sourceType: row.source_type || undefined,
+  sourceId: row.source_id || undefined,
+  reference: row.reference || undefined,
+  reason: row.reason || undefined,
+  userName: row.user_name || undefined,
+  createdAt: new Date(row.created_at),
+});
+
+const mapFiscalInvoice = (row: FiscalInvoiceRow): FiscalInvoice => ({
+  status: row.status,
+  buyerPin: row.buyer_pin || undefined,
+  controlNumber: row.control_number || undefined,
+  invoiceNumber: row.invoice_number || undefined,
+  qrCode: row.qr_code || undefined,
+  lastError: row.last_error || undefined,
+});
+
+// Shape returned by process_sale_return and get_sale_return_json
+interface SaleReturnJson {
+  id: string;
+  original_sale_id: string;
+  reversal_number: string;
+  total_amount: number;
+  reason: string;
+  notes: string | null;
+  user_name: string;
+  created_at: string;
+  invoice_reversal_items?: InvoiceReversalItemRow[];
+  sale_return_payments?: SaleReturnPaymentRow[];
+}
+
+const mapSaleReturnJson = (data: SaleReturnJson): SaleReturn => ({
+  id: data.id,
+  saleId: data.original_sale_id,
+  returnNumber: data.reversal_number,
+  totalAmount: Number(data.total_amount) || 0,
+  reason: data.reason,
+  notes: data.notes || undefined,
+  userName: data.user_name,
+  items: (data.invoice_reversal_items || []).map((item: InvoiceReversalItemRow) => ({
+    saleItemId: item.original_sale_item_id || '',
+    productId: item.product_id || undefined,
+    productName: item.product_name,
+    batchNumber: item.batch_number || undefined,
+    quantity: item.quantity,
+    unitPrice: Number(item.selling_price) || 0,
+  })),
+  refunds: (data.sale_return_payments || []).map((refund: SaleReturnPaymentRow) => ({
+    method: refund.payment_method,
+    amount: Number(refund.amount) || 0,
+    reference: refund.reference || undefined,
+    approvalCode: refund.approval_code || undefined,
+    maskedPan: refund.masked_pan || undefined,
+    terminalId: refund.terminal_id || undefined,
+    terminalTransactionId: refund.terminal_transaction_id || undefined,
+  })),
+  createdAt: new Date(data.created_at),
+});
+
+// Shape returned by get_shift_report and close_cashier_shift
+interface ShiftReportJson {
+  shift_id: string;
+  cashier_id: string;
+  cashier_name: string;
+  status: CashierShiftRow['status'];
+  opened_at: string;
+  closed_at: string | null;
+  // Left out of a cashier's own X-report, with cash_withheld set
+  opening_float?: number;
+  sales_count: number;
+  gross_sales?: number;
+  discounts: number;
+  payments: Record<string, number>;
+  returns_count: number;
+  refunds: Record<string, number>;
+  mpesa_refunds?: {
+    count: number;
+    sent: number;
+    pending_count: number;
+    pending: number;
+  };
+  pay_ins?: number;
+  pay_outs?: number;
+  cash_movements?: CashMovementRow[];
+  expected_cash?: number | null;
+  counted_cash: number | null;
+  cash_variance: number | null;
+  closing_notes: string | null;
+  reviewed_by_name: string | null;
+  reviewed_at: string | null;
+  review_notes: string | null;
+  generated_at: string;
+  cash_withheld?: boolean;
+}
+
+const optionalNumber = (value: number | null | undefined) => (value != null ? Number(value) : undefined);
+
+const mapCashierShift = (row: CashierShiftRow): CashierShift => ({
+  id: row.id,
+  cashierId: row.cashier_id,
+  cashierName: row.cashier_name,
+  status: row.status,
+  openingFloat: Number(row.opening_float) || 0,
+  openedAt: new Date(row.opened_at),
+  closedAt: row.closed_at ? new Date(row.closed_at) : undefined,
+  countedCash: optionalNumber(row.counted_cash),
+  expectedCash: optionalNumber(row.expected_cash),
+  cashVariance: optionalNumber(row.cash_variance),
+  closingNotes: row.closing_notes || undefined,
+  reviewedByName: row.reviewed_by_name || undefined,
+  reviewedAt: row.reviewed_at ? new Date(row.reviewed_at) : undefined,
+  reviewNotes: row.review_notes || undefined,
+});
+
+const mapMpesaTransaction = (row: MpesaTransactionRow, saleReceiptNumber?: string): MpesaTransaction => ({
+  id: row.id,
+  receiptNumber: row.mpesa_receipt_number || undefined,
+  amount: Number(row.amount) || 0,
+  phoneNumber: row.phone_number || undefined,
+  customerName: row.customer_name || undefined,
+  billRefNumber: row.bill_ref_number || undefined,
+  transactionType: row.transaction_type,
+  transactionTime: new Date(row.transaction_time || row.created_at),
+  reconciliationStatus: row.reconciliation_status,
+  matchMethod: row.match_method || undefined,
+  saleId: row.sale_id || undefined,
+  saleReceiptNumber,
+  salePaymentId: row.sale_payment_id || undefined,
+  duplicateOf: row.duplicate_of || undefined,
+  variance: optionalNumber(row.variance),
+  reconciledAt: row.reconciled_at ? new Date(row.reconciled_at) : undefined,
+  reconciledByName: row.reconciled_by_name || undefined,
+  reconciliationNote: row.reconciliation_note || undefined,
+});
+
+const mapMpesaVarianceDay = (row: MpesaVarianceDayRow): MpesaVarianceDay => ({
+  date: row.report_date,
+  mpesaCount: row.mpesa_count,
+  mpesaTotal: Number(row.mpesa_total) || 0,
+  systemCount: row.system_count,
+  systemTotal: Number(row.system_total) || 0,
+  matchedTotal: Number(row.matched_total) || 0,
+  unmatchedCount: row.unmatched_count,
+  unmatchedTotal: Number(row.unmatched_total) || 0,
+  unpaidTenderCount: row.unpaid_tender_count,
+  unpaidTenderTotal: Number(row.unpaid_tender_total) || 0,
+  underpaidCount: row.underpaid_count,
+  underpaidTotal: Number(row.underpaid_total) || 0,
+  duplicateCount: row.duplicate_count,
+  duplicateTotal: Number(row.duplicate_total) || 0,
+  variance: Number(row.variance) || 0,
+});
+
+const mapMpesaRefund = (row: MpesaRefundRow): MpesaRefund => ({
+  id: row.id,
+  saleId: row.sale_id,
+  mpesaTransactionId: row.mpesa_transaction_id,
+  saleReturnId: row.sale_return_id || undefined,
+  refundType: row.refund_type,
+  amount: Number(row.amount) || 0,
+  phoneNumber: row.phone_number || undefined,
+  reason: row.reason,
+  status: row.status,
+  unconfirmed: row.status === 'pending' && row.attempts > 0 && !row.conversation_id,
+  receiptNumber: row.mpesa_receipt_number || undefined,
+  resultDescription: row.result_description || undefined,
+  attempts: row.attempts,
+  requestedByName: row.requested_by_name,
+  createdAt: new Date(row.created_at),
+  completedAt: row.completed_at ? new Date(row.completed_at) : undefined,
+});
+
+const mapTotalsByMethod = (totals: Record<string, number>): Partial<Record<PaymentMethod, number>> =>
+  Object.fromEntries(Object.entries(totals || {}).map(([method, amount]) => [method, Number(amount) || 0]));
+
+const mapShiftReport = (data: ShiftReportJson): ShiftReport => ({
+  shift: mapCashierShift({
+    id: data.shift_id,
+    cashier_id: data.cashier_id,
+    cashier_name: data.cashier_name,
+    status: data.status,
+    opening_float: data.opening_float ?? 0,
+    opened_at: data.opened_at,
+    closed_at: data.closed_at,
+    counted_cash: data.counted_cash,
+    expected_cash: data.expected_cash ?? null,
+    cash_variance: data.cash_variance,
+    closing_notes: data.closing_notes,
+    reviewed_by_name: data.reviewed_by_name,
+    reviewed_at: data.reviewed_at,
+    review_notes: data.review_notes,
+  }),
+  salesCount: Number(data.sales_count) || 0,
+  grossSales: Number(data.gross_sales) || 0,
+  discounts: Number(data.discounts) || 0,
+  payments: mapTotalsByMethod(data.payments),
+  returnsCount: Number(data.returns_count) || 0,
+  refunds: mapTotalsByMethod(data.refunds),
+  // Z-reports taken before M-Pesa refunds have none
+  mpesaRefunds: {
+    count: Number(data.mpesa_refunds?.count) || 0,
+    sent: Number(data.mpesa_refunds?.sent) || 0,
+    pendingCount: Number(data.mpesa_refunds?.pending_count) || 0,
+    pending: Number(data.mpesa_refunds?.pending) || 0,
+  },
+  payIns: Number(data.pay_ins) || 0,
+  payOuts: Number(data.pay_outs) || 0,
+  cashMovements: (data.cash_movements || []).map(movement => ({
+    movementType: movement.movement_type,
+    amount: Number(movement.amount) || 0,
+    reason: movement.reason,
+    createdByName: movement.created_by_name,
+    createdAt: new Date(movement.created_at),
+  })),
+  expectedCash: optionalNumber(data.expected_cash),
+  countedCash: optionalNumber(data.counted_cash),
+  cashVariance: optionalNumber(data.cash_variance),
+  cashWithheld: !!data.cash_withheld,
+  generatedAt: new Date(data.generated_at),
+});
+
+const mapSaleJson = (data: SaleJson): Sale => ({
+  id: data.id,
+  receiptNumber: data.receipt_number,
+  customerName: data.customer_name || undefined,
+  customerId: data.customer_id || undefined,
+  totalAmount: Number(data.total_amount) || 0,
+  paymentMethod: data.payment_method,
+  payments: (data.sale_payments || []).map(payment => ({
+    method: payment.payment_method,
+    amount: Number(payment.amount) || 0,
+    reference: payment.reference || undefined,
+    tenderedAmount: payment.tendered_amount != null ? Number(payment.tendered_amount) : undefined,
+    changeAmount: Number(payment.change_amount) || 0,
+    approvalCode: payment.approval_code || undefined,
+    maskedPan: payment.masked_pan || undefined,
+    cardScheme: payment.card_scheme || undefined,
+    terminalId: payment.terminal_id || undefined,
+    terminalTransactionId: payment.terminal_transaction_id || undefined,
+  })),
+  salesPersonId: data.sales_person_id,
+  salesPersonName: data.sales_person_name,
+  items: (data.sale_items || []).map(item => ({
+    productId: item.product_id,
+    productName: item.product_name,
+    quantity: item.quantity,
+    unitPrice: Number(item.unit_price) || 0,
+    totalPrice: Number(item.total_price) || 0,
+    discountAmount: Number(item.discount_amount) || undefined,
+    batchNumber: item.batch_number || undefined,
+  })),
+  discounts: (data.sale_discounts || []).map(discount => ({
+    promotionId: discount.promotion_id || undefined,
+    productId: discount.product_id || undefined,
+    description: discount.description,
+    amount: Number(discount.amount) || 0,
+  })),
+  buyerPin: data.fiscal_invoice?.buyer_pin || undefined,
+  fiscalInvoice: data.fiscal_invoice ? mapFiscalInvoice(data.fiscal_invoice) : undefined,
+  createdAt: new Date(data.created_at),
+});
+
 export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
   const { user, loading: authLoading } = useAuth();
   const { showAlert } = useAlert();
   const [products, setProducts] = useState<Product[]>([]);
+  const [productMasters, setProductMasters] = useState<ProductMaster[]>([]);
   const [sales, setSales] = useState<Sale[]>([]);
+  const [saleReturns, setSaleReturns] = useState<SaleReturn[]>([]);
   const [stockTakes, setStockTakes] = useState<StockTake[]>([]);
   const [activityLogs, setActivityLogs] = useState<ActivityLog[]>([]);
   const [salesHistory, setSalesHistory] = useState<SalesHistoryItem[]>([]);
   const [categories, setCategories] = useState<string[]>(drugCategories);
   const [suppliers, setSuppliers] = useState<string[]>(commonSuppliers);
+  const [supplierRecords, setSupplierRecords] = useState<Supplier[]>([]);
   const [medicineTemplates, setMedicineTemplates] = useState(medicineDatabase);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [stockTakeSessions, setStockTakeSessions] = useState<any[]>([]);
   const [lastRefreshTime, setLastRefreshTime] = useState<number>(0);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [queuedSales, setQueuedSales] = useState<QueuedSale[]>([]);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  // Last template loaded, so receipts still print with it while offline
+  const receiptTemplateRef = useRef<ReceiptTemplate | null>(null);
 
   // Load data from database
+  // Active suppliers are the choices in every supplier picker
+  const loadSuppliers = async () => {
+    const records = await fetchSuppliers();
+    setSupplierRecords(records);
+    setSuppliers(records.filter(supplier => supplier.isActive).map(supplier => supplier.name));
+  };
+
   const refreshData = async () => {
     setLoading(true);
     setError(null);
@@ -110,9 +548,18 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
         if (productsError) {
           console.error('Error loading products:', productsError);
           hasError = true;
+
+          // Keep the POS selling from the last catalogue seen on this till
+          const cachedProducts = await getCachedProducts();
+          if (cachedProducts.length > 0) {
+            console.warn(`Using ${cachedProducts.length} cached products while offline`);
+            formattedProducts = cachedProducts;
+            setProducts(cachedProducts);
+          }
         } else {
           formattedProducts = (productsData || []).map(product => ({
           id: product.id,
+          productMasterId: product.product_master_id,
           name: product.name,
           category: product.category,
           supplier: product.supplier,
@@ -124,6 +571,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           minStockLevel: product.min_stock_level || 10,
           barcode: product.barcode,
           invoiceNumber: product.invoice_number,
+          drugSchedule: product.drug_schedule || 'otc',
           priceHistory: [],
           createdAt: new Date(product.created_at),
           updatedAt: new Date(product.updated_at),
@@ -161,12 +609,31 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
         }
 
           setProducts(formattedProducts);
+          cacheProducts(formattedProducts);
         }
       } catch (error) {
         console.error('Error in products loading block:', error);
         hasError = true;
       }
 
+      // Load the medicines the batches belong to
+      try {
+        const { data: mastersData, error: mastersError } = await supabase
+          .from('product_master')
+          .select('*')
+          .order('name');
+
+        if (mastersError) {
+          console.error('Error loading product master:', mastersError);
+          hasError = true;
+        } else {
+          setProductMasters((mastersData || []).map(mapProductMaster));
+        }
+      } catch (error) {
+        console.error('Error in product master loading block:', error);
+        hasError = true;
+      }
+
       // Sales data is loaded on-demand by the SalesHistory component
       // Not loaded here to improve initial load performance
 
@@ -256,15 +723,23 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
         hasError = true;
       }
 
+      // Load suppliers
+      try {
+        const records = await fetchSuppliers();
+        setSupplierRecords(records);
+        setSuppliers(records.filter(supplier => supplier.isActive).map(supplier => supplier.name));
+      } catch (error) {
+        console.error('Error loading suppliers:', error);
+        hasError = true;
+      }
+
       // Sales history is generated on-demand by the SalesHistory component
       // Not generated here to improve initial load performance
 
-      // Update categories and suppliers from loaded data
+      // Update categories from loaded data
       const loadedCategories = [...new Set(formattedProducts.map(p => p.category))];
-      const loadedSuppliers = [...new Set(formattedProducts.map(p => p.supplier))];
-      
+
       setCategories(prev => [...new Set([...prev, ...loadedCategories])]);
-      setSuppliers(prev => [...new Set([...prev, ...loadedSuppliers])]);
 
     } catch (error) {
       console.error('Error refreshing data:', error);
@@ -356,7 +831,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     }
   };
 
-  const addProduct = async (productData: Omit<Product, 'id' | 'createdAt' | 'updatedAt' | 'priceHistory'>) => {
+  const addProduct = async (productData: Omit<Product, 'id' | 'productMasterId' | 'createdAt' | 'updatedAt' | 'priceHistory'>) => {
     if (!isSupabaseEnabled || !supabase) {
       console.log('Demo mode: Cannot add products without Supabase configuration');
       throw new Error('Database not configured. Please set up Supabase environment variables.');
@@ -395,6 +870,7 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
           min_stock_level: productData.minStockLevel,
           barcode: productData.barcode,
           invoice_number: productData.invoiceNumber,
+          drug_schedule: productData.drugSchedule,
         })
         .select()
         .single();
@@ -446,10 +922,24 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     }
 
     try {
+      const existing = products.find(p => p.id === id);
       const updateData: any = {};
 
-      if (updates.name) updateData.name = updates.name;
-      if (updates.category) updateData.category = updates.category;
+      // Catalogue fields belong to the medicine, so they change every batch
+      // of it. A changed barcode becomes the medicine's too.
+      // Only changed fields are sent, so staff who cannot edit medicines can
+      // still edit a batch
+      const masterUpdates: Partial<Omit<ProductMaster, 'id' | 'createdAt' | 'updatedAt'>> = {};
+      if (updates.name && updates.name !== existing?.name) masterUpdates.name = updates.name;
+      if (updates.category && updates.category !== existing?.category) masterUpdates.category = updates.category;
+      if (updates.minStockLevel !== undefined && updates.minStockLevel !== existing?.minStockLevel) masterUpdates.minStockLevel = updates.minStockLevel;
+      if (updates.drugSchedule && updates.drugSchedule !== existing?.drugSchedule) masterUpdates.drugSchedule = updates.drugSchedule;
+      if (updates.barcode && updates.barcode !== existing?.barcode) masterUpdates.barcode = updates.barcode;
+
+      if (existing?.productMasterId && Object.keys(masterUpdates).length > 0) {
+        await saveProductMaster(existing.productMasterId, masterUpdates);
+      }
+
       if (updates.supplier) updateData.supplier = updates.supplier;
       if (updates.batchNumber) updateData.batch_number = updates.batchNumber;
       if (updates.expiryDate) updateData.expiry_date = updates.expiryDate.toISOString();
@@ -470,19 +960,25 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
         };
         updateData.selling_price = enforceMinimumSellingPrice(updates.sellingPrice, pricingInputs);
       }
-      if (updates.currentStock !== undefined) updateData.current_stock = updates.currentStock;
-      if (updates.minStockLevel !== undefined) updateData.min_stock_level = updates.minStockLevel;
       if (updates.barcode) updateData.barcode = updates.barcode;
       if (updates.invoiceNumber) updateData.invoice_number = updates.invoiceNumber;
 
-      const { error } = await supabase
-        .from('products')
-        .update(updateData)
-        .eq('id', id);
+      if (Object.keys(updateData).length > 0) {
+        const { error } = await supabase
+          .from('products')
+          .update(updateData)
+          .eq('id', id);
 
-      if (error) {
-        console.error('Error updating product:', error);
-        throw error;
+        if (error) {
+          console.error('Error updating product:', error);
+          throw error;
+        }
+      }
+
+      // Stock is only changed through the ledger, as a correction of what
+      // the batch showed when it was opened for editing
+      if (existing && updates.currentStock !== undefined && updates.currentStock !== existing.currentStock) {
+        await saveStockMovement(id, 'adjustment', updates.currentStock - existing.currentStock, 'Corrected on the inventory record', existing.currentStock);
       }
 
       await logActivity('UPDATE_PRODUCT', `Updated product: ${updates.name || id}`);
@@ -493,339 +989,1775 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     }
   };
 
-  const deleteProduct = async (id: string) => {
+  const saveProductMaster = async (id: string, updates: Partial<Omit<ProductMaster, 'id' | 'createdAt' | 'updatedAt'>>) => {
+    const updateData: Partial<ProductMasterRow> = {};
+    if (updates.name !== undefined) updateData.name = updates.name.trim();
+    if (updates.category !== undefined) updateData.category = updates.category;
+    if (updates.barcode !== undefined) updateData.barcode = updates.barcode.trim() || null;
+    if (updates.minStockLevel !== undefined) updateData.min_stock_level = updates.minStockLevel;
+    if (updates.drugSchedule !== undefined) updateData.drug_schedule = updates.drugSchedule;
+    if (updates.packSize !== undefined) updateData.pack_size = updates.packSize;
+    if (updates.preferredSupplier !== undefined) updateData.preferred_supplier = updates.preferredSupplier.trim() || null;
+
+    const { data, error } = await supabase
+      .from('product_master')
+      .update(updateData)
+      .eq('id', id)
+      .select('id');
+
+    if (error) throw error;
+    // Medicines are only editable by admins and inventory staff; for anyone
+    // else the update matches no rows
+    if (!data || data.length === 0) {
+      throw new Error('Only admins and inventory staff can change a medicine\'s details');
+    }
+  };
+
+  // A medicine with no stock yet, e.g. one being ordered for the first time
+  const addProductMaster = async (master: Omit<ProductMaster, 'id' | 'createdAt' | 'updatedAt'>): Promise<ProductMaster> => {
     if (!isSupabaseEnabled || !supabase) {
-      console.log('Demo mode: Cannot delete products without Supabase configuration');
       throw new Error('Database not configured. Please set up Supabase environment variables.');
     }
 
     try {
-      const product = products.find(p => p.id === id);
-      
-      const { error } = await supabase
-        .from('products')
-        .delete()
-        .eq('id', id);
+      const { data, error } = await supabase
+        .from('product_master')
+        .insert({
+          name: master.name.trim(),
+          category: master.category || 'General',
+          barcode: master.barcode?.trim() || null,
+          min_stock_level: master.minStockLevel,
+          drug_schedule: master.drugSchedule,
+          pack_size: master.packSize,
+          preferred_supplier: master.preferredSupplier?.trim() || null,
+        })
+        .select()
+        .single();
 
-      if (error) {
-        console.error('Error deleting product:', error);
-        throw error;
-      }
+      if (error) throw error;
 
-      await logActivity('DELETE_PRODUCT', `Deleted product: ${product?.name || id}`);
-      await refreshData();
+      const added = mapProductMaster(data);
+      setProductMasters(prev => [...prev, added].sort((a, b) => a.name.localeCompare(b.name)));
+      await logActivity('ADD_PRODUCT', `Added product: ${added.name}`);
+      return added;
     } catch (error) {
-      console.error('Error deleting product:', error);
+      console.error('Error adding product master:', error);
       throw error;
     }
   };
 
-  const addSale = async (saleData: Omit<Sale, 'id' | 'createdAt' | 'receiptNumber'>): Promise<string> => {
+  const updateProductMaster = async (id: string, updates: Partial<Omit<ProductMaster, 'id' | 'createdAt' | 'updatedAt'>>) => {
     if (!isSupabaseEnabled || !supabase) {
-      console.log('Demo mode: Cannot process sales without Supabase configuration');
       throw new Error('Database not configured. Please set up Supabase environment variables.');
     }
 
     try {
-      // Generate receipt number
-      const receiptNumber = `WSB${String(sales.length + 1).padStart(4, '0')}`;
-      
-      // Insert sale
-      const { data: saleResult, error: saleError } = await supabase
-        .from('sales')
-        .insert({
-          receipt_number: receiptNumber,
-          customer_name: saleData.customerName,
-          total_amount: saleData.totalAmount,
-          payment_method: saleData.paymentMethod,
-          sales_person_id: saleData.salesPersonId,
-          sales_person_name: saleData.salesPersonName,
-        })
-        .select()
-        .single();
-
-      if (saleError) {
-        console.error('Error adding sale:', saleError);
-        throw saleError;
-      }
-
-      // Insert sale items
-      const saleItems = saleData.items.map(item => ({
-        sale_id: saleResult.id,
-        product_id: item.productId,
-        product_name: item.productName,
-        quantity: item.quantity,
-        unit_price: item.unitPrice,
-        total_price: item.totalPrice,
-        batch_number: item.batchNumber,
-      }));
-
-      const { error: itemsError } = await supabase
-        .from('sale_items')
-        .insert(saleItems);
+      await saveProductMaster(id, updates);
 
-      if (itemsError) {
-        console.error('Error adding sale items:', itemsError);
-        throw itemsError;
-      }
+      const master = productMasters.find(m => m.id === id);
+      await logActivity('UPDATE_PRODUCT', `Updated product: ${updates.name || master?.name || id}`);
+      await refreshData();
+    } catch (error) {
+      console.error('Error updating product master:', error);
+      throw error;
+    }
+  };
 
-      // Update product stock and add price history in parallel
-      const stockUpdates = saleData.items.map(item => {
-        const product = products.find(p => p.id === item.productId);
-        if (product) {
-          const newStock = product.currentStock - item.quantity;
-          return supabase
-            .from('products')
-            .update({ current_stock: newStock })
-            .eq('id', item.productId);
-        }
-        return null;
-      }).filter(Boolean);
-
-      // Batch insert price history entries
-      const priceHistoryEntries = saleData.items
-        .filter(() => user && user.user_id !== '00000000-0000-0000-0000-000000000001' && user.user_id !== 'demo-user')
-        .map(item => {
-          const product = products.find(p => p.id === item.productId);
-          if (product) {
-            return {
-              product_id: item.productId,
-              cost_price: product.costPrice,
-              selling_price: item.unitPrice,
-              user_id: user.user_id,
-              user_name: user?.name || 'Demo User',
-            };
-          }
-          return null;
-        })
-        .filter(Boolean);
+  const saveStockMovement = async (productId: string, movementType: ManualStockMovementType, quantity: number, reason: string, expectedStock?: number) => {
+    const { error } = await supabase.rpc('record_stock_movement', {
+      p_product_id: productId,
+      p_movement_type: movementType,
+      p_quantity: quantity,
+      p_reason: reason,
+      p_user_name: user?.name || 'Unknown',
+      p_expected_stock: expectedStock ?? null,
+    });
 
-      // Execute all updates in parallel
-      const priceHistoryPromise = priceHistoryEntries.length > 0
-        ? supabase.from('price_history').insert(priceHistoryEntries)
-        : Promise.resolve({ data: null, error: null });
+    if (error) throw error;
+  };
 
-      await Promise.all([
-        ...stockUpdates,
-        priceHistoryPromise,
-        logActivity('SALE', `Sale completed: ${receiptNumber} - ${formatKES(saleData.totalAmount)}`)
-      ]);
+  // Every movement of a medicine's batches, oldest first
+  const getStockMovements = useCallback(async (productMasterId: string): Promise<StockMovement[]> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
 
-      // Update local product stock
-      setProducts(prev => prev.map(p => {
-        const soldItem = saleData.items.find(item => item.productId === p.id);
-        if (soldItem) {
-          return {
-            ...p,
-            currentStock: p.currentStock - soldItem.quantity
-          };
-        }
-        return p;
-      }));
+    try {
+      const { data, error } = await supabase
+        .from('stock_movements')
+        .select('*')
+        .eq('product_master_id', productMasterId)
+        .order('created_at', { ascending: true });
 
-      return receiptNumber;
+      if (error) throw error;
+      return (data || []).map(mapStockMovement);
     } catch (error) {
-      console.error('Error adding sale:', error);
+      console.error('Error loading stock movements:', error);
       throw error;
     }
-  };
+  }, []);
 
-  const addStockTake = async (stockTakeData: Omit<StockTake, 'id' | 'createdAt'>) => {
+  const recordStockMovement = async (productId: string, movementType: ManualStockMovementType, quantity: number, reason: string, expectedStock?: number) => {
     if (!isSupabaseEnabled || !supabase) {
       throw new Error('Database not configured. Please set up Supabase environment variables.');
     }
 
     try {
-      const { data, error } = await supabase
-        .from('stock_takes')
-        .insert({
-          product_id: stockTakeData.productId,
-          product_name: stockTakeData.productName,
-          expected_stock: stockTakeData.expectedStock,
-          actual_stock: stockTakeData.actualStock,
-          difference: stockTakeData.difference,
-          reason: stockTakeData.reason,
-          user_id: stockTakeData.userId,
-          user_name: stockTakeData.userName,
-        })
-        .select()
-        .single();
-
-      if (error) {
-        console.error('Error adding stock take:', error);
-        throw error;
-      }
-
-      console.log('Stock take saved to database:', data);
+      await saveStockMovement(productId, movementType, quantity, reason, expectedStock);
 
-      await logActivity('STOCK_TAKE', `Stock take: ${stockTakeData.productName} - Difference: ${stockTakeData.difference}`);
+      const product = products.find(p => p.id === productId);
+      await logActivity('STOCK_MOVEMENT', `${movementType}: ${quantity > 0 ? '+' : ''}${quantity} ${product?.name || productId} (batch ${product?.batchNumber || '-'}) - ${reason}`);
       await refreshData();
     } catch (error) {
-      console.error('Error adding stock take:', error);
+      console.error('Error recording stock movement:', error);
       throw error;
     }
   };
 
-  const createStockTakeSession = async (name: string): Promise<string> => {
+  const transferStock = async (fromProductId: string, toProductId: string, quantity: number, reason: string) => {
     if (!isSupabaseEnabled || !supabase) {
       throw new Error('Database not configured. Please set up Supabase environment variables.');
     }
 
     try {
-      const { data, error } = await supabase
-        .from('stock_take_sessions')
-        .insert({
-          session_name: name.trim(),
-          user_id: user?.user_id || 'demo-user',
-          user_name: user?.name || 'Demo User',
-          status: 'in_progress'
-        })
-        .select()
-        .single();
+      const { error } = await supabase.rpc('transfer_stock', {
+        p_from_product_id: fromProductId,
+        p_to_product_id: toProductId,
+        p_quantity: quantity,
+        p_reason: reason,
+        p_user_name: user?.name || 'Unknown',
+      });
 
-      if (error) {
-        console.error('Error creating stock take session:', error);
-        throw error;
-      }
+      if (error) throw error;
 
-      await logActivity('CREATE_STOCK_TAKE_SESSION', `Created stock take session: ${name}`);
+      const from = products.find(p => p.id === fromProductId);
+      const to = products.find(p => p.id === toProductId);
+      await logActivity('STOCK_TRANSFER', `Moved ${quantity} ${from?.name || fromProductId} from batch ${from?.batchNumber || '-'} to batch ${to?.batchNumber || '-'} - ${reason}`);
       await refreshData();
-      
-      return data.id;
     } catch (error) {
-      console.error('Error creating stock take session:', error);
+      console.error('Error transferring stock:', error);
       throw error;
     }
   };
 
-  const updateStockTakeSession = async (id: string, updates: any) => {
+  const deleteProduct = async (id: string) => {
     if (!isSupabaseEnabled || !supabase) {
+      console.log('Demo mode: Cannot delete products without Supabase configuration');
       throw new Error('Database not configured. Please set up Supabase environment variables.');
     }
 
     try {
+      const product = products.find(p => p.id === id);
+      
       const { error } = await supabase
-        .from('stock_take_sessions')
-        .update(updates)
+        .from('products')
+        .delete()
         .eq('id', id);
 
       if (error) {
-        console.error('Error updating stock take session:', error);
+        console.error('Error deleting product:', error);
         throw error;
       }
 
-      await logActivity('UPDATE_STOCK_TAKE_SESSION', `Updated stock take session: ${id}`);
+      await logActivity('DELETE_PRODUCT', `Deleted product: ${product?.name || id}`);
       await refreshData();
     } catch (error) {
-      console.error('Error updating stock take session:', error);
+      console.error('Error deleting product:', error);
       throw error;
     }
   };
 
-  const deleteStockTakeSession = async (id: string) => {
+  const addSale = async (
+    saleData: Omit<Sale, 'id' | 'createdAt' | 'receiptNumber' | 'paymentMethod'>,
+    saleId?: string,
+    options: { soldAt?: Date; offline?: boolean; offlineToken?: string } = {}
+  ): Promise<Sale> => {
     if (!isSupabaseEnabled || !supabase) {
+      console.log('Demo mode: Cannot process sales without Supabase configuration');
       throw new Error('Database not configured. Please set up Supabase environment variables.');
     }
 
+    const id = saleId || crypto.randomUUID();
+
     try {
-      const { error } = await supabase
-        .from('stock_take_sessions')
-        .delete()
-        .eq('id', id);
+      // Sale, items, stock, price history and the receipt number are committed in one transaction
+      const { data, error } = await supabase.rpc('process_sale', {
+        p_sale_id: id,
+        p_branch_code: getBranchCode(),
+        p_customer_name: saleData.customerName || null,
+        p_customer_id: saleData.customerId || null,
+        p_prescription: saleData.prescription ? {
+          prescriber_name: saleData.prescription.prescriberName,
+          prescriber_licence: saleData.prescription.prescriberLicence,
+          patient_name: saleData.prescription.patientName,
+          reference: saleData.prescription.reference,
+          image_path: saleData.prescription.imagePath,
+        } : null,
+        p_sales_person_id: saleData.salesPersonId,
+        p_sales_person_name: saleData.salesPersonName,
+        p_items: saleData.items.map(item => ({
+          product_id: item.productId,
+          product_name: item.productName,
+          quantity: item.quantity,
+          unit_price: item.unitPrice,
+          total_price: item.totalPrice,
+          discount_amount: item.discountAmount || 0,
+          batch_number: item.batchNumber,
+        })),
+        p_discounts: (saleData.discounts || []).map(discount => ({
+          promotion_id: discount.promotionId,
+          product_id: discount.productId,
+          description: discount.description,
+          amount: discount.amount,
+        })),
+        p_payments: saleData.payments.map(payment => ({
+          payment_method: payment.method,
+          amount: payment.amount,
+          reference: payment.reference,
+          tendered_amount: payment.tenderedAmount,
+          change_amount: payment.changeAmount,
+          approval_code: payment.approvalCode,
+          masked_pan: payment.maskedPan,
+          card_scheme: payment.cardScheme,
+          terminal_id: payment.terminalId,
+          terminal_transaction_id: payment.terminalTransactionId,
+        })),
+        // Queued offline sales keep their till time. The server only treats
+        // them as offline with the token reserved for the shift, and then
+        // flags stock, expiry and prescription problems instead of rejecting them
+        p_sold_at: options.soldAt ? options.soldAt.toISOString() : null,
+        p_offline_token: options.offlineToken || null,
+        p_insurance: saleData.insurance ? {
+          insurer_id: saleData.insurance.insurerId,
+          scheme_id: saleData.insurance.schemeId,
+          member_number: saleData.insurance.memberNumber,
+          member_name: saleData.insurance.memberName,
+          preauth_number: saleData.insurance.preauthNumber,
+        } : null,
+      });
 
       if (error) {
-        console.error('Error deleting stock take session:', error);
+        console.error('Error processing sale:', error);
         throw error;
       }
 
-      await logActivity('DELETE_STOCK_TAKE_SESSION', `Deleted stock take session: ${id}`);
-      await refreshData();
+      const committedSale: Sale = {
+        ...mapSaleJson(data),
+        customerId: saleData.customerId,
+        insurance: saleData.insurance,
+        prescription: saleData.prescription,
+      };
+
+      // The sale stands whatever KRA says; an invoice that does not go through
+      // stays queued and the receipt shows it as pending
+      if (committedSale.fiscalInvoice?.status !== 'submitted') {
+        try {
+          committedSale.fiscalInvoice = await submitFiscalInvoice(committedSale.id, saleData.buyerPin);
+        } catch (fiscalError) {
+          console.error('Error submitting fiscal invoice:', fiscalError);
+        }
+      }
+
+      await logActivity('SALE', `${options.offline ? 'Offline sale synced' : 'Sale completed'}: ${committedSale.receiptNumber} - ${formatKES(committedSale.totalAmount)}`);
+
+      setSales(prev => [committedSale, ...prev]);
+
+      // Update local product stock
+      setProducts(prev => prev.map(p => {
+        const soldItem = committedSale.items.find(item => item.productId === p.id);
+        if (soldItem) {
+          return {
+            ...p,
+            currentStock: p.currentStock - soldItem.quantity
+          };
+        }
+        return p;
+      }));
+
+      return committedSale;
     } catch (error) {
-      console.error('Error deleting stock take session:', error);
+      // Connection lost: keep selling and replay the sale when it comes back
+      if (!options.offline && isNetworkError(error)) {
+        return queueOfflineSale(saleData, id);
+      }
+
+      console.error('Error adding sale:', error);
       throw error;
     }
   };
 
-  const completeStockTakeSession = async (sessionId: string, stockTakeEntries: any[]) => {
-    if (!isSupabaseEnabled || !supabase) {
-      throw new Error('Database not configured. Please set up Supabase environment variables.');
+  const queueOfflineSale = async (
+    saleData: Omit<Sale, 'id' | 'createdAt' | 'receiptNumber' | 'paymentMethod'>,
+    saleId: string
+  ): Promise<Sale> => {
+    // Each offline sale uses up a token reserved while the till was online
+    const offlineToken = await takeOfflineToken();
+    if (!offlineToken) {
+      throw new Error('No offline sales are left on this till. Reconnect and make sure your shift is open to keep selling.');
     }
 
-    try {
-      // Insert all stock take entries with session reference
-      const stockTakeInserts = stockTakeEntries.map(entry => ({
-        session_id: sessionId,
-        product_id: entry.productId,
-        product_name: entry.productName,
-        expected_stock: entry.expectedStock,
-        actual_stock: entry.actualStock,
-        difference: entry.difference,
-        reason: entry.reason,
-        user_id: entry.userId,
-        user_name: entry.userName,
-      }));
+    const soldAt = new Date();
+    await queueSale({ id: saleId, sale: saleData, soldAt, attempts: 0, offlineToken });
+    setQueuedSales(await getQueuedSales());
 
-      const { error: stockTakeError } = await supabase
-        .from('stock_takes')
-        .insert(stockTakeInserts);
+    console.warn(`Sale ${saleId} queued for sync while offline`);
 
-      if (stockTakeError) {
-        console.error('Error inserting stock takes:', stockTakeError);
-        throw stockTakeError;
-      }
+    setProducts(prev => prev.map(p => {
+      const soldItem = saleData.items.find(item => item.productId === p.id);
+      return soldItem ? { ...p, currentStock: Math.max(0, p.currentStock - soldItem.quantity) } : p;
+    }));
 
-      // Mark session as completed
-      const { error: sessionError } = await supabase
-        .from('stock_take_sessions')
-        .update({
-          status: 'completed',
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', sessionId);
+    const methods = [...new Set(saleData.payments.map(payment => payment.method))];
 
-      if (sessionError) {
-        console.error('Error completing session:', sessionError);
-        throw sessionError;
-      }
+    // The real receipt number is allocated by the database when the sale syncs
+    return {
+      ...saleData,
+      id: saleId,
+      receiptNumber: `OFFLINE-${saleId.slice(0, 8).toUpperCase()}`,
+      paymentMethod: methods.length > 1 ? 'split' : methods[0],
+      createdAt: soldAt,
+      isOffline: true,
+    };
+  };
 
-      await logActivity('COMPLETE_STOCK_TAKE_SESSION', `Completed stock take session: ${sessionId}`);
-      await refreshData();
+  // Tops up this till's offline sale tokens for the cashier's open shift.
+  // With no open shift the server returns none and the till stops selling offline
+  const refillOfflineTokens = async () => {
+    if (!isSupabaseEnabled || !supabase || !user) return;
+
+    try {
+      const { data, error } = await supabase.rpc('reserve_offline_sale_tokens', { p_count: OFFLINE_TOKEN_POOL });
+      if (error) throw error;
+
+      // Tokens already on queued sales stay unused on the server until they sync
+      const queuedTokens = new Set((await getQueuedSales()).map(queued => queued.offlineToken));
+      await saveOfflineTokens(((data || []) as string[]).filter(token => !queuedTokens.has(token)));
     } catch (error) {
-      console.error('Error completing stock take session:', error);
-      throw error;
+      console.error('Error reserving offline sale tokens:', error);
     }
   };
 
-  const getStockAlerts = (): StockAlert[] => {
-    const alerts: StockAlert[] = [];
-    const now = new Date();
+  const syncQueuedSales = async () => {
+    if (syncingRef.current || !isSupabaseEnabled || !supabase || !user) return;
 
-    products.forEach(product => {
-      if (product.currentStock <= product.minStockLevel) {
-        alerts.push({
-          id: `low-${product.id}`,
-          productId: product.id,
-          productName: product.name,
-          alertType: 'low_stock',
-          currentStock: product.currentStock,
-          minStockLevel: product.minStockLevel,
-        });
+    const pending = await getQueuedSales();
+    if (pending.length === 0) return;
+
+    syncingRef.current = true;
+    setIsSyncing(true);
+    const syncedIds: string[] = [];
+
+    try {
+      // Oldest first; process_sale is idempotent on the client-generated id
+      for (const queued of pending) {
+        try {
+          await addSale(queued.sale, queued.id, { soldAt: queued.soldAt, offline: true, offlineToken: queued.offlineToken });
+          await removeQueuedSale(queued.id);
+          syncedIds.push(queued.id);
+        } catch (error) {
+          if (isNetworkError(error)) break;
+
+          console.error(`Error syncing offline sale ${queued.id}:`, error);
+          await updateQueuedSale({ ...queued, attempts: queued.attempts + 1, lastError: getErrorMessage(error) });
+        }
       }
 
-      const daysToExpiry = Math.ceil((product.expiryDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
-      if (daysToExpiry <= 30 && daysToExpiry > 0) {
-        alerts.push({
-          id: `expiry-${product.id}`,
-          productId: product.id,
-          productName: product.name,
-          alertType: 'expiry_warning',
-          expiryDate: product.expiryDate,
-          daysToExpiry,
+      if (syncedIds.length > 0) {
+        const { data: exceptions } = await supabase
+          .from('sale_sync_exceptions')
+          .select('id')
+          .in('sale_id', syncedIds);
+
+        await refreshData();
+        await refillOfflineTokens();
+
+        const exceptionCount = (exceptions || []).length;
+        showAlert({
+          title: 'Offline Sales',
+          message: exceptionCount > 0
+            ? `${syncedIds.length} offline sale(s) synced. ${exceptionCount} line(s) sold more than was in stock, from an expired batch, without a prescription or at a price the server refused, and have been flagged for manager review.`
+            : `${syncedIds.length} offline sale(s) synced.`,
+          type: exceptionCount > 0 ? 'warning' : 'success'
         });
       }
-    });
-
-    return alerts;
+    } finally {
+      setQueuedSales(await getQueuedSales());
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  };
+
+  // Replays one queued sale now, e.g. once the problem that refused it is fixed
+  const retryQueuedSale = async (id: string) => {
+    if (syncingRef.current) return;
+
+    const queued = (await getQueuedSales()).find(sale => sale.id === id);
+    if (!queued) return;
+
+    syncingRef.current = true;
+    setIsSyncing(true);
+
+    try {
+      await addSale(queued.sale, queued.id, { soldAt: queued.soldAt, offline: true, offlineToken: queued.offlineToken });
+      await removeQueuedSale(queued.id);
+      await refreshData();
+    } catch (error) {
+      if (!isNetworkError(error)) {
+        await updateQueuedSale({ ...queued, attempts: queued.attempts + 1, lastError: getErrorMessage(error) });
+      }
+      throw error;
+    } finally {
+      setQueuedSales(await getQueuedSales());
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  };
+
+  // The sale is dropped from this till for good; the log keeps what was lost
+  const discardQueuedSale = async (id: string) => {
+    const queued = (await getQueuedSales()).find(sale => sale.id === id);
+    if (!queued) return;
+
+    await removeQueuedSale(queued.id);
+    await logActivity(
+      'DISCARD_OFFLINE_SALE',
+      `Discarded offline sale OFFLINE-${queued.id.slice(0, 8).toUpperCase()} from ${queued.soldAt.toLocaleString('en-KE')} - ${formatKES(queued.sale.totalAmount)}${queued.lastError ? `: ${queued.lastError}` : ''}`
+    );
+    setQueuedSales(await getQueuedSales());
+  };
+
+  // Listeners outlive renders, so they call the latest syncQueuedSales through a ref
+  const syncQueuedSalesRef = useRef(syncQueuedSales);
+  syncQueuedSalesRef.current = syncQueuedSales;
+
+  useEffect(() => {
+    getQueuedSales().then(setQueuedSales);
+
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncQueuedSalesRef.current();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // The browser can report online while the internet is still unreachable
+    const interval = setInterval(() => {
+      if (navigator.onLine) {
+        syncQueuedSalesRef.current();
+      }
+    }, 60000);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(interval);
+    };
+  }, []);
+
+  const refillOfflineTokensRef = useRef(refillOfflineTokens);
+  refillOfflineTokensRef.current = refillOfflineTokens;
+
+  useEffect(() => {
+    if (user && navigator.onLine) {
+      syncQueuedSalesRef.current();
+      refillOfflineTokensRef.current();
+    }
+  }, [user]);
+
+  const getCurrentShift = useCallback(async (): Promise<CashierShift | null> => {
+    if (!isSupabaseEnabled || !supabase || !user) {
+      return null;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('cashier_shifts')
+        .select('*')
+        .eq('cashier_id', user.user_id)
+        .eq('status', 'open')
+        .maybeSingle();
+
+      if (error) throw error;
+      return data ? mapCashierShift(data) : null;
+    } catch (error) {
+      console.error('Error loading current shift:', error);
+      throw error;
+    }
+  }, [user]);
+
+  const openShift = async (openingFloat: number): Promise<CashierShift> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data: shiftId, error } = await supabase.rpc('open_cashier_shift', {
+        p_opening_float: openingFloat,
+        p_cashier_name: user?.name || 'Unknown',
+      });
+
+      if (error) throw error;
+
+      const { data, error: loadError } = await supabase
+        .from('cashier_shifts')
+        .select('*')
+        .eq('id', shiftId)
+        .single();
+
+      if (loadError) throw loadError;
+
+      await logActivity('OPEN_SHIFT', `Opened shift with a float of ${formatKES(openingFloat)}`);
+      await refillOfflineTokens();
+      return mapCashierShift(data);
+    } catch (error) {
+      console.error('Error opening shift:', error);
+      throw error;
+    }
+  };
+
+  const recordCashMovement = async (shiftId: string, movementType: CashMovementType, amount: number, reason: string) => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { error } = await supabase.rpc('record_cash_movement', {
+        p_shift_id: shiftId,
+        p_movement_type: movementType,
+        p_amount: amount,
+        p_reason: reason,
+        p_user_name: user?.name || 'Unknown',
+      });
+
+      if (error) throw error;
+
+      await logActivity(
+        movementType === 'pay_in' ? 'CASH_PAY_IN' : 'CASH_PAY_OUT',
+        `${movementType === 'pay_in' ? 'Pay-in' : 'Pay-out'} of ${formatKES(amount)}: ${reason}`
+      );
+    } catch (error) {
+      console.error('Error recording cash movement:', error);
+      throw error;
+    }
+  };
+
+  const getShifts = useCallback(async (status?: ShiftStatus): Promise<CashierShift[]> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      let query = supabase
+        .from('cashier_shifts')
+        .select('*')
+        .order('opened_at', { ascending: false })
+        .limit(200);
+
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return (data || []).map(mapCashierShift);
+    } catch (error) {
+      console.error('Error loading shifts:', error);
+      throw error;
+    }
+  }, []);
+
+  const getShiftReport = useCallback(async (shiftId: string): Promise<ShiftReport> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_shift_report', { p_shift_id: shiftId });
+
+      if (error) throw error;
+      return mapShiftReport(data);
+    } catch (error) {
+      console.error('Error loading shift report:', error);
+      throw error;
+    }
+  }, []);
+
+  const closeShift = async (shiftId: string, countedCash: number, notes?: string): Promise<ShiftReport> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    // Queued sales can only replay into the shift they were made in
+    const pending = await getQueuedSales();
+    if (pending.length > 0) {
+      throw new Error(`Sync the ${pending.length} offline sale(s) on this till before closing the shift.`);
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('close_cashier_shift', {
+        p_shift_id: shiftId,
+        p_counted_cash: countedCash,
+        p_notes: notes || null,
+      });
+
+      if (error) throw error;
+
+      const report = mapShiftReport(data);
+      await saveOfflineTokens([]);
+      await logActivity(
+        'CLOSE_SHIFT',
+        `Closed shift - Counted ${formatKES(countedCash)}, variance ${formatKES(report.cashVariance || 0)}`
+      );
+      return report;
+    } catch (error) {
+      console.error('Error closing shift:', error);
+      throw error;
+    }
+  };
+
+  const approveShift = async (shiftId: string, notes?: string) => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { error } = await supabase.rpc('approve_cashier_shift', {
+        p_shift_id: shiftId,
+        p_notes: notes || null,
+        p_user_name: user?.name || 'Unknown',
+      });
+
+      if (error) throw error;
+
+      await logActivity('APPROVE_SHIFT', `Signed off shift ${shiftId}`);
+    } catch (error) {
+      console.error('Error signing off shift:', error);
+      throw error;
+    }
+  };
+
+  // Asks Safaricom for the push result when the callback has not arrived
+  const queryStkPush = async (checkoutRequestId: string): Promise<StkPushStatus> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/mpesa-stkquery`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ checkoutRequestId }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to check M-Pesa payment status');
+    }
+    return result;
+  };
+
+  const getMpesaTransactions = useCallback(async (status?: MpesaReconciliationStatus, from?: Date, to?: Date): Promise<MpesaTransaction[]> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      let query = supabase
+        .from('mpesa_transactions')
+        .select('*')
+        .eq('transaction_status', 'completed')
+        .order('transaction_time', { ascending: false })
+        .limit(500);
+
+      if (status) query = query.eq('reconciliation_status', status);
+      if (from) query = query.gte('transaction_time', from.toISOString());
+      if (to) query = query.lt('transaction_time', to.toISOString());
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const rows: MpesaTransactionRow[] = data || [];
+      const saleIds = [...new Set(rows.map(row => row.sale_id).filter((id): id is string => !!id))];
+      const receiptNumbers = new Map<string, string>();
+
+      if (saleIds.length > 0) {
+        const { data: salesData, error: salesError } = await supabase
+          .from('sales')
+          .select('id, receipt_number')
+          .in('id', saleIds);
+
+        if (salesError) throw salesError;
+        (salesData || []).forEach(sale => receiptNumbers.set(sale.id, sale.receipt_number));
+      }
+
+      return rows.map(row => mapMpesaTransaction(row, row.sale_id ? receiptNumbers.get(row.sale_id) : undefined));
+    } catch (error) {
+      console.error('Error loading M-Pesa transactions:', error);
+      throw error;
+    }
+  }, []);
+
+  const getPendingMpesaTenders = useCallback(async (): Promise<PendingMpesaTender[]> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data: salesData, error: salesError } = await supabase
+        .from('sales')
+        .select('id, receipt_number, customer_name, sales_person_name, created_at')
+        .eq('payment_status', 'pending')
+        .order('created_at', { ascending: false })
+        .limit(200);
+
+      if (salesError) throw salesError;
+      if (!salesData || salesData.length === 0) return [];
+
+      const { data: tenderData, error: tenderError } = await supabase
+        .from('sale_payments')
+        .select('id, sale_id, amount, reference')
+        .eq('payment_method', 'mpesa')
+        .in('sale_id', salesData.map(sale => sale.id));
+
+      if (tenderError) throw tenderError;
+
+      // Tenders of a pending sale that already have their payment
+      const { data: paidData, error: paidError } = await supabase
+        .from('mpesa_transactions')
+        .select('sale_payment_id')
+        .in('reconciliation_status', ['matched', 'underpaid'])
+        .in('sale_payment_id', (tenderData || []).map(tender => tender.id));
+
+      if (paidError) throw paidError;
+
+      const paid = new Set((paidData || []).map(row => row.sale_payment_id));
+      const salesById = new Map(salesData.map(sale => [sale.id, sale]));
+
+      return (tenderData || [])
+        .filter(tender => !paid.has(tender.id))
+        .flatMap(tender => {
+          const sale = salesById.get(tender.sale_id);
+          return sale ? [{
+            salePaymentId: tender.id,
+            saleId: sale.id,
+            receiptNumber: sale.receipt_number,
+            customerName: sale.customer_name || undefined,
+            amount: Number(tender.amount) || 0,
+            reference: tender.reference || undefined,
+            salesPersonName: sale.sales_person_name,
+            createdAt: new Date(sale.created_at),
+          }] : [];
+        })
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    } catch (error) {
+      console.error('Error loading pending M-Pesa sales:', error);
+      throw error;
+    }
+  }, []);
+
+  const reconcileMpesaTransactions = async (): Promise<number> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('reconcile_mpesa_transactions', { p_days: 7 });
+      if (error) throw error;
+      return Number(data) || 0;
+    } catch (error) {
+      console.error('Error matching M-Pesa transactions:', error);
+      throw error;
+    }
+  };
+
+  const attachMpesaTransaction = async (transactionId: string, salePaymentId: string): Promise<MpesaReconciliationStatus> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('attach_mpesa_transaction', {
+        p_transaction_id: transactionId,
+        p_sale_payment_id: salePaymentId,
+        p_user_name: user?.name || 'Unknown',
+      });
+
+      if (error) throw error;
+
+      await logActivity('MPESA_ATTACH', `Attached M-Pesa payment ${transactionId} to sale payment ${salePaymentId} (${data})`);
+      return data;
+    } catch (error) {
+      console.error('Error attaching M-Pesa payment:', error);
+      throw error;
+    }
+  };
+
+  const ignoreMpesaTransaction = async (transactionId: string, note: string) => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { error } = await supabase.rpc('ignore_mpesa_transaction', {
+        p_transaction_id: transactionId,
+        p_note: note,
+        p_user_name: user?.name || 'Unknown',
+      });
+
+      if (error) throw error;
+
+      await logActivity('MPESA_IGNORE', `Set aside M-Pesa payment ${transactionId}: ${note}`);
+    } catch (error) {
+      console.error('Error setting aside M-Pesa payment:', error);
+      throw error;
+    }
+  };
+
+  const getMpesaVarianceReport = useCallback(async (from: string, to: string): Promise<MpesaVarianceDay[]> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_mpesa_variance_report', { p_from: from, p_to: to });
+      if (error) throw error;
+      return (data || []).map(mapMpesaVarianceDay);
+    } catch (error) {
+      console.error('Error loading M-Pesa variance report:', error);
+      throw error;
+    }
+  }, []);
+
+  const getMpesaRefunds = useCallback(async (saleId: string): Promise<MpesaRefund[]> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('mpesa_refunds')
+        .select('*')
+        .eq('sale_id', saleId)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return (data || []).map(mapMpesaRefund);
+    } catch (error) {
+      console.error('Error loading M-Pesa refunds:', error);
+      throw error;
+    }
+  }, []);
+
+  // Sends a recorded refund to Safaricom; the result arrives by callback
+  const sendMpesaRefund = async (refundId: string): Promise<MpesaRefund> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/mpesa-refund`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ refundId }),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to send M-Pesa refund');
+    }
+    return mapMpesaRefund(result);
+  };
+
+  const refundToMpesa = async (
+    saleId: string,
+    amount: number,
+    reason: string,
+    phoneNumber?: string,
+    saleReturnId?: string
+  ): Promise<MpesaRefund> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data: refundId, error } = await supabase.rpc('request_mpesa_refund', {
+        p_sale_id: saleId,
+        p_amount: amount,
+        p_reason: reason,
+        p_phone_number: phoneNumber || null,
+        p_sale_return_id: saleReturnId || null,
+        p_user_name: user?.name || 'Unknown',
+      });
+
+      if (error) throw error;
+
+      const refund = await sendMpesaRefund(refundId);
+      await logActivity('MPESA_REFUND', `M-Pesa ${refund.refundType === 'reversal' ? 'reversal' : 'refund'} of ${formatKES(refund.amount)} for sale ${saleId}: ${refund.status}`);
+      return refund;
+    } catch (error) {
+      console.error('Error refunding to M-Pesa:', error);
+      throw error;
+    }
+  };
+
+  const resendMpesaRefund = async (refundId: string): Promise<MpesaRefund> => {
+    try {
+      const refund = await sendMpesaRefund(refundId);
+      await logActivity('MPESA_REFUND', `Resent M-Pesa refund ${refundId} of ${formatKES(refund.amount)}: ${refund.status}`);
+      return refund;
+    } catch (error) {
+      console.error('Error resending M-Pesa refund:', error);
+      throw error;
+    }
+  };
+
+  const addSaleReturn = async (
+    saleId: string,
+    items: { saleItemId: string; quantity: number }[],
+    refunds: SalePayment[],
+    reason: string,
+    notes?: string,
+    returnId?: string
+  ): Promise<SaleReturn> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      // Reversal, items, restock and refund tender are committed in one transaction
+      const { data, error } = await supabase.rpc('process_sale_return', {
+        p_reversal_id: returnId || crypto.randomUUID(),
+        p_sale_id: saleId,
+        p_reason: reason,
+        p_notes: notes || null,
+        p_user_name: user?.name || 'Unknown',
+        p_items: items.map(item => ({
+          sale_item_id: item.saleItemId,
+          quantity: item.quantity,
+        })),
+        p_refunds: refunds.map(refund => ({
+          payment_method: refund.method,
+          amount: refund.amount,
+          reference: refund.reference,
+          approval_code: refund.approvalCode,
+          masked_pan: refund.maskedPan,
+          terminal_id: refund.terminalId,
+          terminal_transaction_id: refund.terminalTransactionId,
+        })),
+      });
+
+      if (error) {
+        console.error('Error processing return:', error);
+        throw error;
+      }
+
+      const saleReturn = mapSaleReturnJson(data);
+
+      await logActivity('SALE_RETURN', `Return ${saleReturn.returnNumber} processed - Refund: ${formatKES(saleReturn.totalAmount)}`);
+
+      setSaleReturns(prev => [saleReturn, ...prev]);
+
+      // Update local product stock for the restocked batches
+      setProducts(prev => prev.map(p => {
+        const returnedQuantity = saleReturn.items
+          .filter(item => item.productId === p.id)
+          .reduce((sum, item) => sum + item.quantity, 0);
+        return returnedQuantity > 0 ? { ...p, currentStock: p.currentStock + returnedQuantity } : p;
+      }));
+
+      return saleReturn;
+    } catch (error) {
+      console.error('Error adding sale return:', error);
+      throw error;
+    }
+  };
+
+  // Attaches the terminal's approval to a recorded return's card refund
+  const recordReturnCardRefund = async (returnId: string, refund: SalePayment): Promise<SaleReturn> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('record_return_card_refund', {
+        p_reversal_id: returnId,
+        p_approval_code: refund.approvalCode || null,
+        p_masked_pan: refund.maskedPan || null,
+        p_terminal_id: refund.terminalId || null,
+        p_terminal_transaction_id: refund.terminalTransactionId,
+      });
+
+      if (error) throw error;
+
+      const saleReturn = mapSaleReturnJson(data);
+      await logActivity('SALE_RETURN', `Card refund of ${formatKES(refund.amount)} approved for return ${saleReturn.returnNumber}`);
+      return saleReturn;
+    } catch (error) {
+      console.error('Error recording card refund:', error);
+      throw error;
+    }
+  };
+
+  // Matches on name, phone (in any format) or loyalty card number
+  const searchCustomers = useCallback(async (term: string): Promise<Customer[]> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    const search = term.trim().replace(/[,()%]/g, '');
+    if (search.length < 2) return [];
+
+    const filters = [`name.ilike.%${search}%`, `loyalty_id.ilike.%${search}%`];
+    const digits = search.replace(/\D/g, '');
+    if (digits.length >= 3) {
+      filters.push(`phone.ilike.%${digits.replace(/^0/, '')}%`);
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('*')
+        .or(filters.join(','))
+        .order('name')
+        .limit(10);
+
+      if (error) throw error;
+
+      return (data || []).map(mapCustomer);
+    } catch (error) {
+      console.error('Error searching customers:', error);
+      throw error;
+    }
+  }, []);
+
+  const getCustomer = async (id: string): Promise<Customer | null> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('*')
+        .eq('id', id)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return data ? mapCustomer(data) : null;
+    } catch (error) {
+      console.error('Error loading customer:', error);
+      throw error;
+    }
+  };
+
+  const addCustomer = async (
+    customerData: Omit<Customer, 'id' | 'loyaltyId' | 'createdAt'> & { loyaltyId?: string }
+  ): Promise<Customer> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .insert({
+          name: customerData.name.trim(),
+          phone: customerData.phone ? normalizePhoneNumber(customerData.phone) || null : null,
+          notes: customerData.notes?.trim() || null,
+          allergies: customerData.allergies?.trim() || null,
+          // Left out so the database assigns the next card number
+          ...(customerData.loyaltyId?.trim() ? { loyalty_id: customerData.loyaltyId.trim() } : {}),
+          created_by_name: user?.name,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const customer = mapCustomer(data);
+      await logActivity('ADD_CUSTOMER', `Added customer: ${customer.name} (${customer.loyaltyId})`);
+      return customer;
+    } catch (error) {
+      console.error('Error adding customer:', error);
+      throw error;
+    }
+  };
+
+  const updateCustomer = async (id: string, updates: Partial<Omit<Customer, 'id' | 'createdAt'>>): Promise<Customer> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const dbUpdates: Partial<CustomerRow> = {};
+      if (updates.name !== undefined) dbUpdates.name = updates.name.trim();
+      if (updates.phone !== undefined) dbUpdates.phone = normalizePhoneNumber(updates.phone) || null;
+      if (updates.notes !== undefined) dbUpdates.notes = updates.notes.trim() || null;
+      if (updates.allergies !== undefined) dbUpdates.allergies = updates.allergies.trim() || null;
+      if (updates.loyaltyId?.trim()) dbUpdates.loyalty_id = updates.loyaltyId.trim();
+
+      const { data, error } = await supabase
+        .from('customers')
+        .update(dbUpdates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const customer = mapCustomer(data);
+      await logActivity('UPDATE_CUSTOMER', `Updated customer: ${customer.name}`);
+      return customer;
+    } catch (error) {
+      console.error('Error updating customer:', error);
+      throw error;
+    }
+  };
+
+  const getLoyaltyRules = useCallback(async (): Promise<LoyaltyRules> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('value')
+        .eq('key', 'loyalty_rules')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data?.value) return DEFAULT_LOYALTY_RULES;
+
+      const value = data.value;
+      return {
+        enabled: value.enabled === true,
+        pointsPer100Kes: Number(value.points_per_100_kes) || 0,
+        pointValueKes: Number(value.point_value_kes) || DEFAULT_LOYALTY_RULES.pointValueKes,
+        minRedeemPoints: Number(value.min_redeem_points) || 0,
+        expiryMonths: Number(value.expiry_months) || 0,
+        categoryMultipliers: value.category_multipliers || {},
+        excludedCategories: value.excluded_categories || [],
+      };
+    } catch (error) {
+      console.error('Error loading loyalty rules:', error);
+      throw error;
+    }
+  }, []);
+
+  const saveLoyaltyRules = async (rules: LoyaltyRules) => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { error } = await supabase
+        .from('app_settings')
+        .upsert({
+          key: 'loyalty_rules',
+          value: {
+            enabled: rules.enabled,
+            points_per_100_kes: rules.pointsPer100Kes,
+            point_value_kes: rules.pointValueKes,
+            min_redeem_points: rules.minRedeemPoints,
+            expiry_months: rules.expiryMonths,
+            category_multipliers: rules.categoryMultipliers,
+            excluded_categories: rules.excludedCategories,
+          },
+          updated_by_name: user?.name,
+        });
+
+      if (error) throw error;
+
+      await logActivity(
+        'UPDATE_LOYALTY_RULES',
+        rules.enabled
+          ? `Loyalty: ${rules.pointsPer100Kes} pts per KES 100, 1 pt = ${formatKES(rules.pointValueKes)}, points expire ${rules.expiryMonths ? `after ${rules.expiryMonths} months` : 'never'}`
+          : 'Loyalty points disabled'
+      );
+    } catch (error) {
+      console.error('Error saving loyalty rules:', error);
+      throw error;
+    }
+  };
+
+  const getReorderRules = useCallback(async (): Promise<ReorderRules> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('value')
+        .eq('key', 'reorder_rules')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const { data: leadTimes, error: leadTimesError } = await supabase
+        .from('suppliers')
+        .select('name, lead_time_days')
+        .not('lead_time_days', 'is', null);
+
+      if (leadTimesError) throw leadTimesError;
+
+      const supplierLeadTimes: Record<string, number> = Object.fromEntries(
+        (leadTimes || []).map((row: Pick<SupplierRow, 'name' | 'lead_time_days'>) => [row.name, Number(row.lead_time_days)])
+      );
+
+      if (!data?.value) return { ...DEFAULT_REORDER_RULES, supplierLeadTimes };
+
+      const value = data.value;
+      return {
+        salesWindowDays: Number(value.sales_window_days) || DEFAULT_REORDER_RULES.salesWindowDays,
+        defaultLeadTimeDays: Number(value.default_lead_time_days) || 0,
+        safetyStockDays: Number(value.safety_stock_days) || 0,
+        reviewPeriodDays: Number(value.review_period_days) || 0,
+        supplierLeadTimes,
+      };
+    } catch (error) {
+      console.error('Error loading reorder rules:', error);
+      throw error;
+    }
+  }, []);
+
+  const saveReorderRules = async (rules: ReorderRules) => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { error } = await supabase
+        .from('app_settings')
+        .upsert({
+          key: 'reorder_rules',
+          value: {
+            sales_window_days: rules.salesWindowDays,
+            default_lead_time_days: rules.defaultLeadTimeDays,
+            safety_stock_days: rules.safetyStockDays,
+            review_period_days: rules.reviewPeriodDays,
+          },
+          updated_by_name: user?.name,
+        });
+
+      if (error) throw error;
+
+      await logActivity(
+        'UPDATE_REORDER_RULES',
+        `Reorder: ${rules.salesWindowDays}-day sales window, ${rules.defaultLeadTimeDays}-day lead time, ${rules.safetyStockDays} days safety stock, ${rules.reviewPeriodDays}-day review period`
+      );
+    } catch (error) {
+      console.error('Error saving reorder rules:', error);
+      throw error;
+    }
+  };
+
+  // Units sold per medicine over the last `days` days, net of returns
+  const getMedicineSalesVelocity = useCallback(async (days: number): Promise<MedicineSalesVelocity[]> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_medicine_sales_velocity', { p_days: days });
+
+      if (error) throw error;
+
+      return (data || []).map((row: { product_master_id: string; units_sold: number }) => ({
+        productMasterId: row.product_master_id,
+        unitsSold: Number(row.units_sold) || 0,
+      }));
+    } catch (error) {
+      console.error('Error loading sales velocity:', error);
+      throw error;
+    }
+  }, []);
+
+  // Pack sizes and preferred suppliers changed while reviewing reorder suggestions
+  const saveReorderDefaults = async (changes: { id: string; packSize: number; preferredSupplier: string }[]) => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+    if (changes.length === 0) return;
+
+    try {
+      for (const change of changes) {
+        await saveProductMaster(change.id, { packSize: change.packSize, preferredSupplier: change.preferredSupplier });
+      }
+
+      await logActivity('UPDATE_REORDER_DEFAULTS', `Updated pack size or preferred supplier for ${changes.length} product(s)`);
+      await refreshData();
+    } catch (error) {
+      console.error('Error saving reorder defaults:', error);
+      throw error;
+    }
+  };
+
+  // Unexpired points only; expired points still on the ledger are not spendable
+  const getLoyaltyBalance = useCallback(async (customerId: string): Promise<number> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('customer_loyalty_balances')
+        .select('balance')
+        .eq('customer_id', customerId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      return Number(data?.balance) || 0;
+    } catch (error) {
+      console.error('Error loading loyalty balance:', error);
+      throw error;
+    }
+  }, []);
+
+  const getReceiptTemplate = useCallback(async (): Promise<ReceiptTemplate> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('app_settings')
+        .select('value')
+        .eq('key', 'receipt_template')
+        .maybeSingle();
+
+      if (error) throw error;
+
+      const value = data?.value || {};
+      const template: ReceiptTemplate = {
+        businessName: value.business_name || DEFAULT_RECEIPT_TEMPLATE.businessName,
+        kraPin: value.kra_pin || '',
+        address: value.address || '',
+        phone: value.phone || '',
+        footerMessage: value.footer_message ?? DEFAULT_RECEIPT_TEMPLATE.footerMessage,
+        logoDataUrl: value.logo_data_url || undefined,
+        paperWidth: value.paper_width === 58 ? 58 : 80,
+        showLogo: value.show_logo ?? DEFAULT_RECEIPT_TEMPLATE.showLogo,
+        showKraPin: value.show_kra_pin ?? DEFAULT_RECEIPT_TEMPLATE.showKraPin,
+        showAddress: value.show_address ?? DEFAULT_RECEIPT_TEMPLATE.showAddress,
+        showPhone: value.show_phone ?? DEFAULT_RECEIPT_TEMPLATE.showPhone,
+        showCustomer: value.show_customer ?? DEFAULT_RECEIPT_TEMPLATE.showCustomer,
+        showBatchNumbers: value.show_batch_numbers ?? DEFAULT_RECEIPT_TEMPLATE.showBatchNumbers,
+        showPaymentReferences: value.show_payment_references ?? DEFAULT_RECEIPT_TEMPLATE.showPaymentReferences,
+        showServedBy: value.show_served_by ?? DEFAULT_RECEIPT_TEMPLATE.showServedBy,
+        printAfterSale: value.print_after_sale ?? DEFAULT_RECEIPT_TEMPLATE.printAfterSale,
+        openCashDrawer: value.open_cash_drawer ?? DEFAULT_RECEIPT_TEMPLATE.openCashDrawer,
+      };
+
+      receiptTemplateRef.current = template;
+      return template;
+    } catch (error) {
+      console.error('Error loading receipt template:', error);
+      throw error;
+    }
+  }, []);
+
+  const saveReceiptTemplate = async (template: ReceiptTemplate) => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { error } = await supabase
+        .from('app_settings')
+        .upsert({
+          key: 'receipt_template',
+          value: {
+            business_name: template.businessName,
+            kra_pin: template.kraPin,
+            address: template.address,
+            phone: template.phone,
+            footer_message: template.footerMessage,
+            logo_data_url: template.logoDataUrl || null,
+            paper_width: template.paperWidth,
+            show_logo: template.showLogo,
+            show_kra_pin: template.showKraPin,
+            show_address: template.showAddress,
+            show_phone: template.showPhone,
+            show_customer: template.showCustomer,
+            show_batch_numbers: template.showBatchNumbers,
+            show_payment_references: template.showPaymentReferences,
+            show_served_by: template.showServedBy,
+            print_after_sale: template.printAfterSale,
+            open_cash_drawer: template.openCashDrawer,
+          },
+          updated_by_name: user?.name,
+        });
+
+      if (error) throw error;
+
+      receiptTemplateRef.current = template;
+      await logActivity('UPDATE_RECEIPT_TEMPLATE', `Receipt template updated (${template.paperWidth}mm paper)`);
+    } catch (error) {
+      console.error('Error saving receipt template:', error);
+      throw error;
+    }
+  };
+
+  const getSale = async (saleId: string): Promise<Sale> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_sale_json', { p_sale_id: saleId });
+
+      if (error) throw error;
+      if (!data) throw new Error('Sale not found');
+
+      return mapSaleJson(data);
+    } catch (error) {
+      console.error('Error loading sale:', error);
+      throw error;
+    }
+  };
+
+  const callEtimsSubmit = async (body: object) => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('Not authenticated');
+    }
+
+    const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/etims-submit`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(body),
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to submit fiscal invoice');
+    }
+    return result;
+  };
+
+  const submitFiscalInvoice = async (saleId: string, buyerPin?: string): Promise<FiscalInvoice> => {
+    try {
+      const invoice: FiscalInvoiceRow = await callEtimsSubmit({ sale_id: saleId, buyer_pin: buyerPin || null });
+      return mapFiscalInvoice(invoice);
+    } catch (error) {
+      console.error('Error submitting fiscal invoice:', error);
+      throw error;
+    }
+  };
+
+  const retryFiscalInvoices = async (): Promise<{ processed: number; submitted: number }> => {
+    try {
+      return await callEtimsSubmit({ action: 'retry' });
+    } catch (error) {
+      console.error('Error retrying fiscal invoices:', error);
+      throw error;
+    }
+  };
+
+  const retryFiscalInvoicesRef = useRef(retryFiscalInvoices);
+  retryFiscalInvoicesRef.current = retryFiscalInvoices;
+
+  // Any open till works through invoices KRA did not accept the first time
+  useEffect(() => {
+    if (!user || !isSupabaseEnabled) return;
+
+    const interval = setInterval(() => {
+      if (navigator.onLine) {
+        retryFiscalInvoicesRef.current().catch(() => undefined);
+      }
+    }, 5 * 60000);
+
+    return () => clearInterval(interval);
+  }, [user]);
+
+  const getPromotions = useCallback(async (): Promise<Promotion[]> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('promotions')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+
+      return (data || []).map(mapPromotion);
+    } catch (error) {
+      console.error('Error loading promotions:', error);
+      throw error;
+    }
+  }, []);
+
+  const savePromotion = async (promotion: Omit<Promotion, 'id'>, id?: string): Promise<Promotion> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const row = {
+        name: promotion.name.trim(),
+        promotion_type: promotion.promotionType,
+        applies_to: promotion.appliesTo,
+        product_master_id: promotion.appliesTo === 'product' ? promotion.productMasterId || null : null,
+        category: promotion.appliesTo === 'category' ? promotion.category || null : null,
+        value: promotion.value,
+        buy_quantity: promotion.buyQuantity || null,
+        get_quantity: promotion.getQuantity || null,
+        code: promotion.code?.trim().toUpperCase() || null,
+        starts_at: promotion.startsAt ? promotion.startsAt.toISOString() : null,
+        ends_at: promotion.endsAt ? promotion.endsAt.toISOString() : null,
+        daily_start_time: promotion.dailyStartTime || null,
+        daily_end_time: promotion.dailyEndTime || null,
+        days_of_week: promotion.daysOfWeek && promotion.daysOfWeek.length > 0 ? promotion.daysOfWeek : null,
+        allow_below_floor: promotion.allowBelowFloor,
+        is_active: promotion.isActive,
+      };
+
+      const { data, error } = id
+        ? await supabase.from('promotions').update(row).eq('id', id).select().single()
+        : await supabase.from('promotions').insert({ ...row, created_by_name: user?.name }).select().single();
+
+      if (error) throw error;
+
+      const saved = mapPromotion(data);
+      await logActivity(
+        id ? 'UPDATE_PROMOTION' : 'ADD_PROMOTION',
+        `${id ? 'Updated' : 'Added'} promotion: ${saved.name}${saved.isActive ? '' : ' (inactive)'}${saved.allowBelowFloor ? ' - may sell below margin floor' : ''}`
+      );
+      return saved;
+    } catch (error) {
+      console.error('Error saving promotion:', error);
+      throw error;
+    }
+  };
+
+  const addStockTake = async (stockTakeData: Omit<StockTake, 'id' | 'createdAt'>) => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { error } = await supabase
+        .from('stock_takes')
+        .insert({
+          product_id: stockTakeData.productId,
+          product_name: stockTakeData.productName,
+          expected_stock: stockTakeData.expectedStock,
+          actual_stock: stockTakeData.actualStock,
+          difference: stockTakeData.difference,
+          reason: stockTakeData.reason,
+          user_id: stockTakeData.userId,
+          user_name: stockTakeData.userName,
+        });
+
+      if (error) {
+        console.error('Error adding stock take:', error);
+        throw error;
+      }
+
+      await logActivity('STOCK_TAKE', `Stock take: ${stockTakeData.productName} - Difference: ${stockTakeData.difference}`);
+      await refreshData();
+    } catch (error) {
+      console.error('Error adding stock take:', error);
+      throw error;
+    }
+  };
+
+  const createStockTakeSession = async (name: string): Promise<string> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('stock_take_sessions')
+        .insert({
+          session_name: name.trim(),
+          user_id: user?.user_id || 'demo-user',
+          user_name: user?.name || 'Demo User',
+          status: 'in_progress'
+        })
+        .select()
+        .single();
+
+      if (error) {
+        console.error('Error creating stock take session:', error);
+        throw error;
+      }
+
+      await logActivity('CREATE_STOCK_TAKE_SESSION', `Created stock take session: ${name}`);
+      await refreshData();
+      
+      return data.id;
+    } catch (error) {
+      console.error('Error creating stock take session:', error);
+      throw error;
+    }
+  };
+
+  const updateStockTakeSession = async (id: string, updates: any) => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { error } = await supabase
+        .from('stock_take_sessions')
+        .update(updates)
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error updating stock take session:', error);
+        throw error;
+      }
+
+      await logActivity('UPDATE_STOCK_TAKE_SESSION', `Updated stock take session: ${id}`);
+      await refreshData();
+    } catch (error) {
+      console.error('Error updating stock take session:', error);
+      throw error;
+    }
+  };
+
+  const deleteStockTakeSession = async (id: string) => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { error } = await supabase
+        .from('stock_take_sessions')
+        .delete()
+        .eq('id', id);
+
+      if (error) {
+        console.error('Error deleting stock take session:', error);
+        throw error;
+      }
+
+      await logActivity('DELETE_STOCK_TAKE_SESSION', `Deleted stock take session: ${id}`);
+      await refreshData();
+    } catch (error) {
+      console.error('Error deleting stock take session:', error);
+      throw error;
+    }
+  };
+
+  const completeStockTakeSession = async (sessionId: string, stockTakeEntries: any[]) => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      // Insert all stock take entries with session reference
+      const stockTakeInserts = stockTakeEntries.map(entry => ({
+        session_id: sessionId,
+        product_id: entry.productId,
+        product_name: entry.productName,
+        expected_stock: entry.expectedStock,
+        actual_stock: entry.actualStock,
+        difference: entry.difference,
+        reason: entry.reason,
+        user_id: entry.userId,
+        user_name: entry.userName,
+      }));
+
+      const { error: stockTakeError } = await supabase
+        .from('stock_takes')
+        .insert(stockTakeInserts);
+
+      if (stockTakeError) {
+        console.error('Error inserting stock takes:', stockTakeError);
+        throw stockTakeError;
+      }
+
+      // Mark session as completed
+      const { error: sessionError } = await supabase
+        .from('stock_take_sessions')
+        .update({
+          status: 'completed',
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', sessionId);
+
+      if (sessionError) {
+        console.error('Error completing session:', sessionError);
+        throw sessionError;
+      }
+
+      await logActivity('COMPLETE_STOCK_TAKE_SESSION', `Completed stock take session: ${sessionId}`);
+      await refreshData();
+    } catch (error) {
+      console.error('Error completing stock take session:', error);
+      throw error;
+    }
+  };
+
+  // Low stock is judged on a medicine's in-date stock across all its
+  // batches; expiry is still per batch, for batches that have stock
+  const getStockAlerts = (): StockAlert[] => {
+    const alerts: StockAlert[] = [];
+    const now = new Date();
+
+    summariseMedicineStock(productMasters, products, now).forEach(medicine => {
+      if (isLowStock(medicine)) {
+        alerts.push({
+          id: `low-${medicine.master.id}`,
+          productId: medicine.master.id,
+          productName: medicine.master.name,
+          alertType: 'low_stock',
+          currentStock: medicine.sellableStock,
+          minStockLevel: medicine.master.minStockLevel,
+        });
+      }
+
+      medicine.batches.forEach(product => {
+        const daysToExpiry = Math.ceil((product.expiryDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+        if (product.currentStock > 0 && daysToExpiry <= 30 && daysToExpiry > 0) {
+          alerts.push({
+            id: `expiry-${product.id}`,
+            productId: product.id,
+            productName: product.name,
+            batchNumber: product.batchNumber,
+            alertType: 'expiry_warning',
+            expiryDate: product.expiryDate,
+            daysToExpiry,
+          });
+        }
+      });
+    });
+
+    return alerts;
   };
 
   const importProducts = async (importedProducts: any[]) => {
@@ -893,12 +2825,172 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     }
   };
 
-  const addSupplier = (supplier: string) => {
-    if (!suppliers.includes(supplier)) {
-      setSuppliers(prev => [...prev, supplier].sort());
+  const getSupplierByName = (name: string) => {
+    const key = name.trim().toLowerCase();
+    return supplierRecords.find(supplier => supplier.name.trim().toLowerCase() === key);
+  };
+
+  // Without a database the name is only added to the picker list
+  const addSupplier = async (
+    supplierData: Pick<Supplier, 'name'> & Partial<Omit<Supplier, 'id' | 'createdAt' | 'updatedAt'>>
+  ): Promise<Supplier | null> => {
+    const name = supplierData.name.trim();
+
+    if (!isSupabaseEnabled || !supabase) {
+      if (!suppliers.includes(name)) {
+        setSuppliers(prev => [...prev, name].sort());
+      }
+      return null;
+    }
+
+    const existing = getSupplierByName(name);
+    if (existing) {
+      throw new Error(`Supplier "${existing.name}" already exists`);
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('suppliers')
+        .insert({
+          name,
+          contact_person: supplierData.contactPerson?.trim() || null,
+          phone: supplierData.phone ? normalizePhoneNumber(supplierData.phone) || null : null,
+          email: supplierData.email?.trim() || null,
+          address: supplierData.address?.trim() || null,
+          kra_pin: supplierData.kraPin?.trim().toUpperCase() || null,
+          payment_terms_days: supplierData.paymentTermsDays ?? 30,
+          lead_time_days: supplierData.leadTimeDays ?? null,
+          default_discount_percent: supplierData.defaultDiscountPercent ?? 0,
+          notes: supplierData.notes?.trim() || null,
+          is_active: supplierData.isActive ?? true,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const supplier = mapSupplier(data);
+      await logActivity('ADD_SUPPLIER', `Added supplier: ${supplier.name}`);
+      await loadSuppliers();
+      return supplier;
+    } catch (error) {
+      console.error('Error adding supplier:', error);
+      throw error;
+    }
+  };
+
+  const updateSupplier = async (id: string, updates: Partial<Omit<Supplier, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Supplier> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const dbUpdates: Partial<SupplierRow> = {};
+      if (updates.name !== undefined) dbUpdates.name = updates.name.trim();
+      if (updates.contactPerson !== undefined) dbUpdates.contact_person = updates.contactPerson.trim() || null;
+      if (updates.phone !== undefined) dbUpdates.phone = normalizePhoneNumber(updates.phone) || null;
+      if (updates.email !== undefined) dbUpdates.email = updates.email.trim() || null;
+      if (updates.address !== undefined) dbUpdates.address = updates.address.trim() || null;
+      if (updates.kraPin !== undefined) dbUpdates.kra_pin = updates.kraPin.trim().toUpperCase() || null;
+      if (updates.paymentTermsDays !== undefined) dbUpdates.payment_terms_days = updates.paymentTermsDays;
+      if ('leadTimeDays' in updates) dbUpdates.lead_time_days = updates.leadTimeDays ?? null;
+      if (updates.defaultDiscountPercent !== undefined) dbUpdates.default_discount_percent = updates.defaultDiscountPercent;
+      if (updates.notes !== undefined) dbUpdates.notes = updates.notes.trim() || null;
+      if (updates.isActive !== undefined) dbUpdates.is_active = updates.isActive;
+
+      const { data, error } = await supabase
+        .from('suppliers')
+        .update(dbUpdates)
+        .eq('id', id)
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const supplier = mapSupplier(data);
+      await logActivity('UPDATE_SUPPLIER', `Updated supplier: ${supplier.name}`);
+      // A rename is carried onto batches, so products are reloaded too
+      await refreshData();
+      return supplier;
+    } catch (error) {
+      console.error('Error updating supplier:', error);
+      throw error;
     }
   };
 
+  const getSupplierScorecards = useCallback(async (from: string, to: string): Promise<SupplierScorecard[]> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    const toRate = (value: number | null) => (value === null ? null : Number(value));
+
+    try {
+      const { data, error } = await supabase.rpc('get_supplier_scorecards', { p_from: from, p_to: to });
+      if (error) throw error;
+
+      return (data || []).map((row: {
+        supplier_id: string;
+        supplier_name: string;
+        invoice_count: number;
+        spend: number;
+        returns_amount: number;
+        return_rate: number | null;
+        orders_sent: number;
+        ordered_units: number;
+        received_units: number;
+        fill_rate: number | null;
+        deliveries_due: number;
+        on_time_deliveries: number;
+        on_time_rate: number | null;
+        price_change_percent: number | null;
+      }) => ({
+        supplierId: row.supplier_id,
+        supplierName: row.supplier_name,
+        invoiceCount: row.invoice_count,
+        spend: Number(row.spend) || 0,
+        returnsAmount: Number(row.returns_amount) || 0,
+        returnRate: toRate(row.return_rate),
+        ordersSent: row.orders_sent,
+        orderedUnits: row.ordered_units,
+        receivedUnits: row.received_units,
+        fillRate: toRate(row.fill_rate),
+        deliveriesDue: row.deliveries_due,
+        onTimeDeliveries: row.on_time_deliveries,
+        onTimeRate: toRate(row.on_time_rate),
+        priceChangePercent: toRate(row.price_change_percent),
+      }));
+    } catch (error) {
+      console.error('Error loading supplier scorecards:', error);
+      throw error;
+    }
+  }, []);
+
+  const getSupplierPriceTrend = useCallback(async (supplierId: string, from: string, to: string): Promise<SupplierPriceTrendPoint[]> => {
+    if (!isSupabaseEnabled || !supabase) {
+      throw new Error('Database not configured. Please set up Supabase environment variables.');
+    }
+
+    try {
+      const { data, error } = await supabase.rpc('get_supplier_price_trend', {
+        p_supplier_id: supplierId,
+        p_from: from,
+        p_to: to,
+      });
+      if (error) throw error;
+
+      return (data || []).map((row: { month_start: string; line_count: number; spend: number; price_index: number | null }) => ({
+        month: row.month_start,
+        lineCount: row.line_count,
+        spend: Number(row.spend) || 0,
+        priceIndex: row.price_index === null ? null : Number(row.price_index),
+      }));
+    } catch (error) {
+      console.error('Error loading supplier price trend:', error);
+      throw error;
+    }
+  }, []);
+
   const addMedicine = (medicine: string) => {
     const newMedicine = {
       name: medicine,
@@ -919,64 +3011,31 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     return salesHistory.sort((a, b) => b.saleDate.getTime() - a.saleDate.getTime());
   };
 
-  const generateReceipt = (sale: Sale) => {
+  // Prints on the till's thermal printer when one is set up, falling back to
+  // the browser print dialog. Cash sales open the drawer; reprints never do.
+  const generateReceipt = async (sale: Sale, options: { reprint?: boolean } = {}) => {
+    const reprint = options.reprint || false;
+
     try {
-      const receiptContent = `
-        <html>
-          <head>
-            <title>Receipt - ${sale.receiptNumber}</title>
-            <style>
-              body { font-family: Arial, sans-serif; max-width: 400px; margin: 0 auto; padding: 20px; line-height: 1.4; }
-              .header { text-align: center; border-bottom: 2px solid #000; padding-bottom: 10px; margin-bottom: 20px; }
-              .item { display: flex; justify-content: space-between; margin: 8px 0; padding: 2px 0; }
-              .total { border-top: 2px solid #000; padding-top: 10px; font-weight: bold; margin-top: 15px; }
-              .footer { text-align: center; margin-top: 20px; border-top: 1px solid #ccc; padding-top: 15px; }
-              h2 { margin: 0 0 10px 0; font-size: 18px; }
-              @media print { 
-                body { margin: 0; padding: 10px; } 
-                .no-print { display: none; }
-              }
-            </style>
-          </head>
-          <body>
-            <div class="header">
-              <h2>WESABI PHARMACY</h2>
-              <p><strong>Receipt #${sale.receiptNumber}</strong></p>
-              <p>${sale.createdAt.toLocaleDateString('en-KE')} ${sale.createdAt.toLocaleTimeString('en-KE')}</p>
-              ${sale.customerName ? `<p>Customer: ${sale.customerName}</p>` : ''}
-            </div>
-            
-            <div class="items">
-              ${sale.items.map(item => `
-                <div class="item">
-                  <span>${item.productName} x${item.quantity}</span>
-                  <span>${formatKES(item.totalPrice)}</span>
-                </div>
-              `).join('')}
-            </div>
-            
-            <div class="total">
-              <div class="item">
-                <span>TOTAL:</span>
-                <span>${formatKES(sale.totalAmount)}</span>
-              </div>
-              <div class="item">
-                <span>Payment Method:</span>
-                <span>${sale.paymentMethod.toUpperCase()}</span>
-              </div>
-            </div>
-            
-            <div class="footer">
-              <p>Thank you for your business!</p>
-              <p>Served by: ${sale.salesPersonName}</p>
-            </div>
-          </body>
-        </html>
-      `;
-      
+      const template = await getReceiptTemplate()
+        .catch(() => receiptTemplateRef.current || DEFAULT_RECEIPT_TEMPLATE);
+
+      if (isThermalPrinterConfigured()) {
+        try {
+          await printBytes(await renderReceiptEscPos(sale, template, {
+            reprint,
+            openDrawer: !reprint && template.openCashDrawer && hasCashTender(sale),
+          }));
+          return;
+        } catch (error) {
+          console.error('Error printing to thermal printer:', error);
+          showAlert({ title: 'App Context', message: `Receipt printer unavailable (${getErrorMessage(error)}). Printing through the browser instead.`, type: 'warning' });
+        }
+      }
+
       const printWindow = window.open('', '_blank', 'width=400,height=600');
       if (printWindow) {
-        printWindow.document.write(receiptContent);
+        printWindow.document.write(renderReceiptHtml(sale, template, { reprint }));
         printWindow.document.close();
         
         // Wait for content to load then trigger print
@@ -994,6 +3053,24 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
     }
   };
 
+  // Copies are marked REPRINT so they cannot pass as a second original
+  const reprintReceipt = async (saleId: string) => {
+    const sale = await getSale(saleId);
+    await generateReceipt(sale, { reprint: true });
+    await logActivity('REPRINT_RECEIPT', `Reprinted receipt ${sale.receiptNumber}`);
+  };
+
+  // For cash sales that are not printed; the drawer is wired to the printer
+  const openCashDrawer = async () => {
+    if (!isThermalPrinterConfigured()) return;
+
+    try {
+      await printBytes(encode([initialize(), kickDrawer()]));
+    } catch (error) {
+      console.error('Error opening cash drawer:', error);
+    }
+  };
+
   const exportToPDF = (data: any, type: string) => {
     let content = '';
     
@@ -1092,20 +3169,71 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
   return (
     <AppContext.Provider value={{
       products,
+      productMasters,
       sales,
+      saleReturns,
       stockTakes,
       stockTakeSessions,
       activityLogs,
       salesHistory,
       categories,
       suppliers,
+      supplierRecords,
       medicineTemplates,
       loading,
       error,
       addProduct,
       updateProduct,
       deleteProduct,
+      addProductMaster,
+      updateProductMaster,
+      getStockMovements,
+      recordStockMovement,
+      transferStock,
       addSale,
+      isOnline,
+      queuedSales,
+      isSyncing,
+      syncQueuedSales,
+      retryQueuedSale,
+      discardQueuedSale,
+      getCurrentShift,
+      openShift,
+      recordCashMovement,
+      getShifts,
+      getShiftReport,
+      closeShift,
+      approveShift,
+      queryStkPush,
+      getMpesaTransactions,
+      getPendingMpesaTenders,
+      reconcileMpesaTransactions,
+      attachMpesaTransaction,
+      ignoreMpesaTransaction,
+      getMpesaVarianceReport,
+      getMpesaRefunds,
+      refundToMpesa,
+      resendMpesaRefund,
+      addSaleReturn,
+      recordReturnCardRefund,
+      searchCustomers,
+      getCustomer,
+      addCustomer,
+      updateCustomer,
+      getLoyaltyRules,
+      saveLoyaltyRules,
+      getLoyaltyBalance,
+      getReorderRules,
+      saveReorderRules,
+      getMedicineSalesVelocity,
+      saveReorderDefaults,
+      getReceiptTemplate,
+      saveReceiptTemplate,
+      getSale,
+      submitFiscalInvoice,
+      retryFiscalInvoices,
+      getPromotions,
+      savePromotion,
       addStockTake,
       createStockTakeSession,
       updateStockTakeSession,
@@ -1116,10 +3244,16 @@ export const AppProvider: React.FC<AppProviderProps> = ({ children }) => {
       importProducts,
       addCategory,
       addSupplier,
+      updateSupplier,
+      getSupplierByName,
+      getSupplierScorecards,
+      getSupplierPriceTrend,
       addMedicine,
       getMedicineByName,
       getSalesHistory,
       generateReceipt,
+      reprintReceipt,
+      openCashDrawer,
       exportToPDF,
       refreshData,
       getLastSoldPrice,
@@ -39,6 +39,7 @@ interface AuthContextType {
   canAccessPage: (page: string) => boolean;
   canManageUsers: boolean;
   canManagePricing: boolean;
+  canManageMedicines: boolean;
   canDeleteProducts: () => boolean;
   isSupabaseEnabled: boolean;
 }
@@ -710,16 +711,32 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         return ['super_admin', 'admin', 'sales', 'inventory'].includes(role);
       case 'orders':
         return ['super_admin', 'admin', 'sales', 'inventory'].includes(role);
+      case 'suppliers':
+        return ['super_admin', 'admin', 'inventory'].includes(role);
       case 'creditnotes':
         return ['super_admin', 'admin', 'sales', 'inventory'].includes(role);
       case 'stocktake':
         return ['super_admin', 'admin', 'sales', 'stock_take'].includes(role);
       case 'drugsaleshistory':
         return ['super_admin', 'admin', 'sales'].includes(role);
-      case 'drughistory':
-        return ['super_admin', 'admin', 'sales'].includes(role);
+      case 'stockcard':
+        return ['super_admin', 'admin', 'sales', 'inventory'].includes(role);
       case 'saleshistory':
         return ['super_admin', 'admin', 'sales'].includes(role);
+      case 'customers':
+        return ['super_admin', 'admin', 'sales'].includes(role);
+      case 'cdregister':
+        return ['super_admin', 'admin', 'sales'].includes(role);
+      case 'claims':
+        return ['super_admin', 'admin'].includes(role);
+      case 'promotions':
+        return ['super_admin', 'admin'].includes(role);
+      case 'fiscal':
+        return ['super_admin', 'admin'].includes(role);
+      case 'shifts':
+        return ['super_admin', 'admin'].includes(role);
+      case 'mpesa':
+        return ['super_admin', 'admin', 'sales'].includes(role);
       case 'analytics':
         return ['super_admin', 'admin'].includes(role);
       case 'logs':
@@ -735,6 +752,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   const canManageUsers = user?.role === 'super_admin' || user?.role === 'admin';
   const canManagePricing = user?.role === 'super_admin' || user?.role === 'admin';
+  // Name, category, stock level and schedule shared by every batch of a medicine
+  const canManageMedicines = user?.role === 'super_admin' || user?.role === 'admin' || user?.role === 'inventory';
 
   const canDeleteProducts = (): boolean => {
     return user?.role === 'super_admin' || user?.role === 'admin';
@@ -756,6 +775,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       canAccessPage,
       canManageUsers,
       canManagePricing,
+      canManageMedicines,
       canDeleteProducts,
       isSupabaseEnabled,
     }}>
@@ -1,3 +1,5 @@
+import { DrugSchedule } from '../types';
+
 // Comprehensive medicine database for autocomplete
 export interface MedicineTemplate {
   id: string;
@@ -9,6 +11,7 @@ export interface MedicineTemplate {
   manufacturer?: string;
   defaultCostPrice?: number;
   defaultSellingPrice?: number;
+  schedule?: DrugSchedule; // Defaults to over the counter
 }
 
 export const medicineDatabase: MedicineTemplate[] = [
@@ -17,14 +20,14 @@ export const medicineDatabase: MedicineTemplate[] = [
   { id: '2', name: 'Ibuprofen 400mg', category: 'Pain Relief', genericName: 'Ibuprofen', strength: '400mg', form: 'Tablet', defaultCostPrice: 60, defaultSellingPrice: 100 },
   { id: '3', name: 'Aspirin 75mg', category: 'Pain Relief', genericName: 'Aspirin', strength: '75mg', form: 'Tablet', defaultCostPrice: 40, defaultSellingPrice: 70 },
   { id: '4', name: 'Diclofenac 50mg', category: 'Pain Relief', genericName: 'Diclofenac', strength: '50mg', form: 'Tablet', defaultCostPrice: 80, defaultSellingPrice: 120 },
-  { id: '5', name: 'Tramadol 50mg', category: 'Pain Relief', genericName: 'Tramadol', strength: '50mg', form: 'Capsule', defaultCostPrice: 150, defaultSellingPrice: 250 },
+  { id: '5', name: 'Tramadol 50mg', category: 'Pain Relief', genericName: 'Tramadol', strength: '50mg', form: 'Capsule', defaultCostPrice: 150, defaultSellingPrice: 250, schedule: 'controlled' },
 
   // Antibiotics
-  { id: '6', name: 'Amoxicillin 250mg', category: 'Antibiotics', genericName: 'Amoxicillin', strength: '250mg', form: 'Capsule', defaultCostPrice: 120, defaultSellingPrice: 200 },
-  { id: '7', name: 'Amoxicillin 500mg', category: 'Antibiotics', genericName: 'Amoxicillin', strength: '500mg', form: 'Capsule', defaultCostPrice: 180, defaultSellingPrice: 300 },
-  { id: '8', name: 'Ciprofloxacin 500mg', category: 'Antibiotics', genericName: 'Ciprofloxacin', strength: '500mg', form: 'Tablet', defaultCostPrice: 200, defaultSellingPrice: 350 },
-  { id: '9', name: 'Azithromycin 250mg', category: 'Antibiotics', genericName: 'Azithromycin', strength: '250mg', form: 'Tablet', defaultCostPrice: 300, defaultSellingPrice: 500 },
-  { id: '10', name: 'Doxycycline 100mg', category: 'Antibiotics', genericName: 'Doxycycline', strength: '100mg', form: 'Capsule', defaultCostPrice: 150, defaultSellingPrice: 250 },
+  { id: '6', name: 'Amoxicillin 250mg', category: 'Antibiotics', genericName: 'Amoxicillin', strength: '250mg', form: 'Capsule', defaultCostPrice: 120, defaultSellingPrice: 200, schedule: 'prescription' },
+  { id: '7', name: 'Amoxicillin 500mg', category: 'Antibiotics', genericName: 'Amoxicillin', strength: '500mg', form: 'Capsule', defaultCostPrice: 180, defaultSellingPrice: 300, schedule: 'prescription' },
+  { id: '8', name: 'Ciprofloxacin 500mg', category: 'Antibiotics', genericName: 'Ciprofloxacin', strength: '500mg', form: 'Tablet', defaultCostPrice: 200, defaultSellingPrice: 350, schedule: 'prescription' },
+  { id: '9', name: 'Azithromycin 250mg', category: 'Antibiotics', genericName: 'Azithromycin', strength: '250mg', form: 'Tablet', defaultCostPrice: 300, defaultSellingPrice: 500, schedule: 'prescription' },
+  { id: '10', name: 'Doxycycline 100mg', category: 'Antibiotics', genericName: 'Doxycycline', strength: '100mg', form: 'Capsule', defaultCostPrice: 150, defaultSellingPrice: 250, schedule: 'prescription' },
 
   // Vitamins & Supplements
   { id: '11', name: 'Vitamin C 1000mg', category: 'Supplements', genericName: 'Ascorbic Acid', strength: '1000mg', form: 'Tablet', defaultCostPrice: 80, defaultSellingPrice: 150 },
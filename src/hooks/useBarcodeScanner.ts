@@ -0,0 +1,72 @@
+import { useEffect, useRef } from 'react';
+
+interface BarcodeScannerOptions {
+  enabled?: boolean;
+  minLength?: number;
+  maxKeyInterval?: number;
+}
+
+// Puts a text field back to what it held before the scanner typed into it, in a
+// way React's onChange picks up
+const restoreInputValue = (input: HTMLInputElement, value: string) => {
+  const setValue = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')?.set;
+  setValue?.call(input, value);
+  input.dispatchEvent(new Event('input', { bubbles: true }));
+};
+
+// Keyboard-wedge scanners type the code as a burst of keystrokes ending in Enter,
+// much faster than a person types. Bursts are caught anywhere on the page, and if
+// the scanner typed into a text field, that field is restored.
+export function useBarcodeScanner(
+  onScan: (barcode: string) => void,
+  { enabled = true, minLength = 4, maxKeyInterval = 35 }: BarcodeScannerOptions = {}
+) {
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = '';
+    let lastKeyAt = 0;
+    let target: HTMLInputElement | null = null;
+    let valueBefore = '';
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const now = performance.now();
+
+      if (event.key === 'Enter') {
+        const isScan = buffer.length >= minLength && now - lastKeyAt <= maxKeyInterval * 3;
+        if (isScan) {
+          event.preventDefault();
+          event.stopPropagation();
+          if (target && target.value !== valueBefore) {
+            restoreInputValue(target, valueBefore);
+          }
+          onScanRef.current(buffer);
+        }
+        buffer = '';
+        target = null;
+        return;
+      }
+
+      if (event.key.length !== 1 || event.ctrlKey || event.altKey || event.metaKey) return;
+
+      // A slow keystroke starts a new burst
+      if (now - lastKeyAt > maxKeyInterval) {
+        buffer = '';
+        target = event.target instanceof HTMLInputElement ? event.target : null;
+        valueBefore = target?.value ?? '';
+      }
+
+      buffer += event.key;
+      lastKeyAt = now;
+    };
+
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [enabled, minLength, maxKeyInterval]);
+}
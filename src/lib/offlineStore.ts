@@ -0,0 +1,147 @@
+import { Product, Sale } from '../types';
+
+// IndexedDB cache that lets the POS keep selling while the connection is down:
+// the product catalogue from the last successful load, completed sales
+// waiting to be replayed through process_sale, and the offline sale tokens
+// reserved for the cashier's shift that let those sales replay as offline.
+
+const DB_NAME = 'wesabi-pos';
+const DB_VERSION = 2;
+const PRODUCTS_STORE = 'products';
+const QUEUED_SALES_STORE = 'queuedSales';
+const OFFLINE_TOKENS_STORE = 'offlineTokens';
+
+export interface QueuedSale {
+  id: string;
+  sale: Omit<Sale, 'id' | 'createdAt' | 'receiptNumber' | 'paymentMethod'>;
+  soldAt: Date;
+  attempts: number;
+  lastError?: string;
+  offlineToken?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('Offline storage is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PRODUCTS_STORE)) {
+          db.createObjectStore(PRODUCTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(QUEUED_SALES_STORE)) {
+          db.createObjectStore(QUEUED_SALES_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(OFFLINE_TOKENS_STORE)) {
+          db.createObjectStore(OFFLINE_TOKENS_STORE, { keyPath: 'id' });
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+
+    transaction.oncomplete = () => resolve(request ? request.result : undefined);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const cacheProducts = async (products: Product[]): Promise<void> => {
+  try {
+    await runTransaction(PRODUCTS_STORE, 'readwrite', store => {
+      store.clear();
+      // Price history is not needed to sell offline and makes the cache much larger
+      products.forEach(product => store.put({ ...product, priceHistory: [] }));
+    });
+  } catch (error) {
+    console.error('Error caching products for offline use:', error);
+  }
+};
+
+export const getCachedProducts = async (): Promise<Product[]> => {
+  try {
+    return (await runTransaction<Product[]>(PRODUCTS_STORE, 'readonly', store => store.getAll())) || [];
+  } catch (error) {
+    console.error('Error reading offline product cache:', error);
+    return [];
+  }
+};
+
+export const queueSale = async (queuedSale: QueuedSale): Promise<void> => {
+  await runTransaction(QUEUED_SALES_STORE, 'readwrite', store => store.put(queuedSale));
+};
+
+export const getQueuedSales = async (): Promise<QueuedSale[]> => {
+  try {
+    const sales = (await runTransaction<QueuedSale[]>(QUEUED_SALES_STORE, 'readonly', store => store.getAll())) || [];
+    return sales.sort((a, b) => a.soldAt.getTime() - b.soldAt.getTime());
+  } catch (error) {
+    console.error('Error reading queued sales:', error);
+    return [];
+  }
+};
+
+export const updateQueuedSale = async (queuedSale: QueuedSale): Promise<void> => {
+  await runTransaction(QUEUED_SALES_STORE, 'readwrite', store => store.put(queuedSale));
+};
+
+export const removeQueuedSale = async (id: string): Promise<void> => {
+  await runTransaction(QUEUED_SALES_STORE, 'readwrite', store => store.delete(id));
+};
+
+export const saveOfflineTokens = async (tokens: string[]): Promise<void> => {
+  await runTransaction(OFFLINE_TOKENS_STORE, 'readwrite', store => {
+    store.clear();
+    tokens.forEach(id => store.put({ id }));
+  });
+};
+
+// Removes and returns one token, or undefined when none are left
+export const takeOfflineToken = async (): Promise<string | undefined> => {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(OFFLINE_TOKENS_STORE, 'readwrite');
+    const request = transaction.objectStore(OFFLINE_TOKENS_STORE).openCursor();
+    let token: string | undefined;
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (cursor) {
+        token = cursor.key as string;
+        cursor.delete();
+      }
+    };
+
+    transaction.oncomplete = () => resolve(token);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
@@ -0,0 +1,167 @@
+// Card payment terminal attached to this till. Each make of terminal gets an
+// adapter implementing PaymentTerminal; the POS only talks to the interface.
+// The choice is kept per browser, since each till has its own terminal.
+
+export type TerminalType = 'none' | 'simulated';
+
+export type TerminalTransactionStatus = 'pending' | 'approved' | 'declined' | 'cancelled' | 'failed';
+
+export interface TerminalTransaction {
+  transactionId: string;
+  terminalId: string;
+  status: TerminalTransactionStatus;
+  amount: number;
+  approvalCode?: string;
+  maskedPan?: string;
+  cardScheme?: string;
+  message?: string;
+}
+
+export interface TerminalRequest {
+  amount: number;
+  // Shown on the terminal and kept in its journal, e.g. the sale or return id
+  reference: string;
+}
+
+export interface TerminalRefundRequest extends TerminalRequest {
+  // The approved payment being refunded, when the terminal took it
+  originalTransactionId?: string;
+}
+
+export interface PaymentTerminal {
+  type: TerminalType;
+  terminalId: string;
+  // Sends the amount to the terminal; the customer then presents their card
+  startPayment(request: TerminalRequest): Promise<TerminalTransaction>;
+  getStatus(transactionId: string): Promise<TerminalTransaction>;
+  // Only a pending payment can be cancelled
+  cancel(transactionId: string): Promise<TerminalTransaction>;
+  refund(request: TerminalRefundRequest): Promise<TerminalTransaction>;
+}
+
+export interface TerminalSettings {
+  type: TerminalType;
+  terminalId: string;
+}
+
+const TERMINAL_STORAGE_KEY = 'paymentTerminal';
+
+let terminal: PaymentTerminal | null = null;
+
+export const TERMINAL_TYPE_LABELS: Record<TerminalType, string> = {
+  none: 'No terminal (enter card payments by hand)',
+  simulated: 'Simulated terminal (testing)',
+};
+
+export const getTerminalSettings = (): TerminalSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(TERMINAL_STORAGE_KEY) || '{}');
+    return {
+      type: stored.type === 'simulated' ? stored.type : 'none',
+      terminalId: typeof stored.terminalId === 'string' ? stored.terminalId : '',
+    };
+  } catch {
+    return { type: 'none', terminalId: '' };
+  }
+};
+
+export const saveTerminalSettings = (settings: TerminalSettings) => {
+  localStorage.setItem(TERMINAL_STORAGE_KEY, JSON.stringify(settings));
+  terminal = null;
+};
+
+// Simulated terminal for testing the till without card hardware. It approves
+// after a few seconds as if a card were tapped. The cents of the amount pick
+// other outcomes: .51 is declined, .52 never completes (to test cancel) and
+// .53 fails as if the terminal lost its connection.
+const SIMULATED_APPROVAL_DELAY_MS = 4000;
+
+const createSimulatedTerminal = (terminalId: string): PaymentTerminal => {
+  const transactions = new Map<string, TerminalTransaction>();
+  const startedAt = new Map<string, number>();
+
+  const randomDigits = (length: number) =>
+    Array.from(crypto.getRandomValues(new Uint8Array(length)), byte => (byte % 10).toString()).join('');
+
+  const settle = (transaction: TerminalTransaction) => {
+    const elapsed = Date.now() - (startedAt.get(transaction.transactionId) || 0);
+    if (transaction.status !== 'pending' || elapsed < SIMULATED_APPROVAL_DELAY_MS) {
+      return transaction;
+    }
+
+    const cents = Math.round(transaction.amount * 100) % 100;
+    if (cents === 51) {
+      Object.assign(transaction, { status: 'declined', message: 'Declined by issuer' });
+    } else if (cents === 53) {
+      Object.assign(transaction, { status: 'failed', message: 'Terminal lost connection to the acquirer' });
+    } else if (cents !== 52) {
+      Object.assign(transaction, {
+        status: 'approved',
+        approvalCode: randomDigits(6),
+        maskedPan: `******${randomDigits(4)}`,
+        cardScheme: Number(randomDigits(1)) < 5 ? 'VISA' : 'MASTERCARD',
+        message: 'Approved',
+      });
+    }
+    return transaction;
+  };
+
+  const find = (transactionId: string) => {
+    const transaction = transactions.get(transactionId);
+    if (!transaction) throw new Error('Terminal transaction not found');
+    return transaction;
+  };
+
+  const copy = (transaction: TerminalTransaction): TerminalTransaction => ({ ...transaction });
+
+  return {
+    type: 'simulated',
+    terminalId,
+    startPayment: async ({ amount }) => {
+      const transaction: TerminalTransaction = {
+        transactionId: crypto.randomUUID(),
+        terminalId,
+        status: 'pending',
+        amount,
+        message: 'Present card',
+      };
+      transactions.set(transaction.transactionId, transaction);
+      startedAt.set(transaction.transactionId, Date.now());
+      return copy(transaction);
+    },
+    getStatus: async (transactionId) => copy(settle(find(transactionId))),
+    cancel: async (transactionId) => {
+      const transaction = settle(find(transactionId));
+      if (transaction.status === 'pending') {
+        Object.assign(transaction, { status: 'cancelled', message: 'Cancelled at the till' });
+      }
+      return copy(transaction);
+    },
+    refund: async ({ amount, originalTransactionId }) => {
+      const original = originalTransactionId ? transactions.get(originalTransactionId) : undefined;
+      return {
+        transactionId: crypto.randomUUID(),
+        terminalId,
+        status: 'approved',
+        amount,
+        approvalCode: randomDigits(6),
+        maskedPan: original?.maskedPan || `******${randomDigits(4)}`,
+        cardScheme: original?.cardScheme,
+        message: 'Refund approved',
+      };
+    },
+  };
+};
+
+// The terminal configured on this till, or null when card payments are keyed
+// in by hand
+export const getPaymentTerminal = (): PaymentTerminal | null => {
+  const settings = getTerminalSettings();
+  if (settings.type === 'none') return null;
+
+  if (!terminal || terminal.type !== settings.type) {
+    const terminalId = settings.terminalId || 'SIM-0001';
+    terminal = createSimulatedTerminal(terminalId);
+  }
+  return terminal;
+};
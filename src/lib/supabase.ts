@@ -63,8 +63,22 @@ export interface User {
   created_at: string;
 }
 
+export interface ProductMaster {
+  id: string;
+  name: string;
+  category: string;
+  barcode: string | null;
+  min_stock_level: number;
+  drug_schedule: 'otc' | 'prescription' | 'controlled';
+  pack_size: number;
+  preferred_supplier: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Product {
   id: string;
+  product_master_id: string;
   name: string;
   category: string;
   supplier: string;
@@ -76,6 +90,7 @@ export interface Product {
   min_stock_level: number;
   barcode: string;
   invoice_number?: string;
+  drug_schedule: 'otc' | 'prescription' | 'controlled';
   created_at: string;
   updated_at: string;
 }
@@ -83,14 +98,27 @@ export interface Product {
 export interface Sale {
   id: string;
   receipt_number: string;
+  customer_id?: string | null;
   customer_name?: string;
   total_amount: number;
-  payment_method: 'cash' | 'mpesa' | 'card' | 'insurance';
+  payment_method: 'cash' | 'mpesa' | 'card' | 'insurance' | 'split';
   sales_person_id: string;
   sales_person_name: string;
   created_at: string;
 }
 
+export interface Customer {
+  id: string;
+  name: string;
+  phone: string | null;
+  notes: string | null;
+  allergies: string | null;
+  loyalty_id: string;
+  created_by_name: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface SaleItem {
   id: string;
   sale_id: string;
@@ -99,9 +127,181 @@ export interface SaleItem {
   quantity: number;
   unit_price: number;
   total_price: number;
+  discount_amount?: number;
   batch_number?: string;
 }
 
+export interface SalePayment {
+  id?: string;
+  sale_id?: string;
+  payment_method: 'cash' | 'mpesa' | 'card' | 'insurance' | 'loyalty';
+  amount: number;
+  reference?: string | null;
+  tendered_amount?: number | null;
+  change_amount?: number;
+  approval_code?: string | null;
+  masked_pan?: string | null;
+  card_scheme?: string | null;
+  terminal_id?: string | null;
+  terminal_transaction_id?: string | null;
+}
+
+export interface SaleDiscount {
+  id?: string;
+  sale_id?: string;
+  promotion_id: string | null;
+  product_id: string | null;
+  description: string;
+  amount: number;
+  created_at?: string;
+}
+
+export interface FiscalInvoice {
+  id?: string;
+  sale_id?: string;
+  invoice_sequence?: number;
+  status: 'pending' | 'unconfirmed' | 'submitted' | 'failed';
+  buyer_pin: string | null;
+  control_number: string | null;
+  invoice_number: string | null;
+  qr_code: string | null;
+  attempts?: number;
+  last_error: string | null;
+  next_attempt_at?: string;
+  submitted_at?: string | null;
+  created_at?: string;
+}
+
+export interface CashierShift {
+  id: string;
+  cashier_id: string;
+  cashier_name: string;
+  status: 'open' | 'closed' | 'approved';
+  opening_float: number;
+  opened_at: string;
+  closed_at: string | null;
+  counted_cash: number | null;
+  expected_cash: number | null;
+  cash_variance: number | null;
+  closing_notes: string | null;
+  reviewed_by_name: string | null;
+  reviewed_at: string | null;
+  review_notes: string | null;
+}
+
+export interface MpesaTransaction {
+  id: string;
+  mpesa_receipt_number: string | null;
+  amount: number;
+  phone_number: string | null;
+  customer_name: string | null;
+  bill_ref_number: string | null;
+  transaction_type: string;
+  transaction_time: string | null;
+  created_at: string;
+  reconciliation_status: 'unmatched' | 'matched' | 'underpaid' | 'duplicate' | 'ignored';
+  match_method: 'receipt' | 'bill_ref' | 'amount_time' | 'manual' | null;
+  sale_id: string | null;
+  sale_payment_id: string | null;
+  duplicate_of: string | null;
+  variance: number | null;
+  reconciled_at: string | null;
+  reconciled_by_name: string | null;
+  reconciliation_note: string | null;
+}
+
+export interface MpesaRefund {
+  id: string;
+  sale_id: string;
+  mpesa_transaction_id: string;
+  sale_return_id: string | null;
+  refund_type: 'reversal' | 'b2c';
+  amount: number;
+  phone_number: string | null;
+  reason: string;
+  status: 'pending' | 'completed' | 'failed';
+  conversation_id: string | null;
+  mpesa_receipt_number: string | null;
+  result_description: string | null;
+  attempts: number;
+  requested_by_name: string;
+  created_at: string;
+  completed_at: string | null;
+}
+
+export interface MpesaVarianceDay {
+  report_date: string;
+  mpesa_count: number;
+  mpesa_total: number;
+  system_count: number;
+  system_total: number;
+  matched_total: number;
+  unmatched_count: number;
+  unmatched_total: number;
+  unpaid_tender_count: number;
+  unpaid_tender_total: number;
+  underpaid_count: number;
+  underpaid_total: number;
+  duplicate_count: number;
+  duplicate_total: number;
+  variance: number;
+}
+
+export interface CashMovement {
+  movement_type: 'pay_in' | 'pay_out';
+  amount: number;
+  reason: string;
+  created_by_name: string;
+  created_at: string;
+}
+
+export interface Promotion {
+  id: string;
+  name: string;
+  promotion_type: 'percent' | 'fixed' | 'buy_x_get_y' | 'bundle';
+  applies_to: 'product' | 'category' | 'cart';
+  product_master_id: string | null;
+  category: string | null;
+  value: number;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  code: string | null;
+  starts_at: string | null;
+  ends_at: string | null;
+  daily_start_time: string | null;
+  daily_end_time: string | null;
+  days_of_week: number[] | null;
+  allow_below_floor: boolean;
+  is_active: boolean;
+  created_by_name: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface InvoiceReversalItem {
+  id?: string;
+  reversal_id?: string;
+  original_sale_item_id?: string | null;
+  product_id?: string | null;
+  product_name: string;
+  batch_number?: string | null;
+  quantity: number;
+  selling_price?: number | null;
+  refund_amount?: number;
+}
+
+export interface SaleReturnPayment {
+  id?: string;
+  reversal_id?: string;
+  payment_method: 'cash' | 'mpesa' | 'card' | 'insurance';
+  amount: number;
+  reference?: string | null;
+  approval_code?: string | null;
+  masked_pan?: string | null;
+  terminal_id?: string | null;
+  terminal_transaction_id?: string | null;
+}
+
 export interface PriceHistory {
   id: string;
   product_id: string;
@@ -125,6 +325,55 @@ export interface StockTake {
   created_at: string;
 }
 
+export interface StockMovement {
+  id: string;
+  product_id: string;
+  product_master_id: string | null;
+  product_name: string;
+  batch_number: string | null;
+  movement_type: 'sale' | 'customer_return' | 'purchase' | 'supplier_return' | 'reversal' | 'adjustment' | 'transfer' | 'write_off';
+  quantity: number;
+  balance_before: number;
+  balance_after: number;
+  source_type: string | null;
+  source_id: string | null;
+  reference: string | null;
+  reason: string | null;
+  user_id: string | null;
+  user_name: string | null;
+  created_at: string;
+}
+
+export interface SupplierOrderItem {
+  id: string;
+  order_id: string;
+  product_master_id: string;
+  product_id: string | null;
+  product_name: string;
+  current_quantity: number;
+  order_quantity: number;
+  unit_cost: number | null;
+  received_quantity: number;
+  created_at: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contact_person: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  kra_pin: string | null;
+  payment_terms_days: number;
+  lead_time_days: number | null;
+  default_discount_percent: number;
+  notes: string | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface ActivityLog {
   id: string;
   user_id: string;
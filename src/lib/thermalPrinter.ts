@@ -0,0 +1,147 @@
+// Receipt printer attached to this till. Thermal printers are sent ESC/POS
+// bytes over WebUSB or Web Serial (Chrome and Edge); tills without one use the
+// browser print dialog. The choice is kept per browser, since each till has
+// its own printer.
+
+export type PrinterConnection = 'browser' | 'usb' | 'serial';
+
+const PRINTER_STORAGE_KEY = 'receiptPrinterConnection';
+const SERIAL_BAUD_RATE = 9600;
+
+// The parts of the WebUSB and Web Serial APIs used here; TypeScript's DOM
+// library does not include them yet
+interface UsbEndpoint {
+  endpointNumber: number;
+  direction: 'in' | 'out';
+}
+
+interface UsbInterface {
+  interfaceNumber: number;
+  alternate: { endpoints: UsbEndpoint[] };
+}
+
+interface UsbDevice {
+  opened: boolean;
+  configuration: { interfaces: UsbInterface[] } | null;
+  open(): Promise<void>;
+  selectConfiguration(configurationValue: number): Promise<void>;
+  claimInterface(interfaceNumber: number): Promise<void>;
+  transferOut(endpointNumber: number, data: Uint8Array): Promise<unknown>;
+}
+
+interface SerialPortHandle {
+  writable: WritableStream<Uint8Array> | null;
+  open(options: { baudRate: number }): Promise<void>;
+}
+
+interface PrinterNavigator extends Navigator {
+  usb?: {
+    requestDevice(options: { filters: object[] }): Promise<UsbDevice>;
+    getDevices(): Promise<UsbDevice[]>;
+  };
+  serial?: {
+    requestPort(): Promise<SerialPortHandle>;
+    getPorts(): Promise<SerialPortHandle[]>;
+  };
+}
+
+const getNavigator = () => navigator as PrinterNavigator;
+
+let usbPrinter: { device: UsbDevice; endpointNumber: number } | null = null;
+let serialPort: SerialPortHandle | null = null;
+
+export const isConnectionSupported = (connection: PrinterConnection): boolean => {
+  if (connection === 'usb') return !!getNavigator().usb;
+  if (connection === 'serial') return !!getNavigator().serial;
+  return true;
+};
+
+export const getPrinterConnection = (): PrinterConnection => {
+  const stored = localStorage.getItem(PRINTER_STORAGE_KEY);
+  return stored === 'usb' || stored === 'serial' ? stored : 'browser';
+};
+
+export const isThermalPrinterConfigured = () => getPrinterConnection() !== 'browser';
+
+const openUsbPrinter = async (device: UsbDevice) => {
+  if (!device.opened) await device.open();
+  if (!device.configuration) await device.selectConfiguration(1);
+
+  const printerInterface = device.configuration?.interfaces.find(candidate =>
+    candidate.alternate.endpoints.some(endpoint => endpoint.direction === 'out')
+  );
+  const endpoint = printerInterface?.alternate.endpoints.find(candidate => candidate.direction === 'out');
+  if (!printerInterface || !endpoint) {
+    throw new Error('The selected USB device does not accept print data');
+  }
+
+  await device.claimInterface(printerInterface.interfaceNumber);
+  return { device, endpointNumber: endpoint.endpointNumber };
+};
+
+const openSerialPort = async (port: SerialPortHandle) => {
+  if (!port.writable) await port.open({ baudRate: SERIAL_BAUD_RATE });
+  return port;
+};
+
+// Asks the user to pick the printer, so it must be called from a click
+export const connectPrinter = async (connection: PrinterConnection) => {
+  const { usb, serial } = getNavigator();
+
+  if (connection === 'usb') {
+    if (!usb) throw new Error('USB printing needs Chrome or Edge');
+    usbPrinter = await openUsbPrinter(await usb.requestDevice({ filters: [] }));
+  } else if (connection === 'serial') {
+    if (!serial) throw new Error('Serial printing needs Chrome or Edge');
+    serialPort = await openSerialPort(await serial.requestPort());
+  }
+
+  localStorage.setItem(PRINTER_STORAGE_KEY, connection);
+};
+
+// The browser remembers printers the user picked before, so later receipts
+// reopen them without asking
+const getUsbPrinter = async () => {
+  if (usbPrinter) return usbPrinter;
+
+  const [device] = (await getNavigator().usb?.getDevices()) || [];
+  if (!device) throw new Error('Receipt printer not found. Reconnect it in Settings.');
+  usbPrinter = await openUsbPrinter(device);
+  return usbPrinter;
+};
+
+const getSerialPort = async () => {
+  if (serialPort) return serialPort;
+
+  const [port] = (await getNavigator().serial?.getPorts()) || [];
+  if (!port) throw new Error('Receipt printer not found. Reconnect it in Settings.');
+  serialPort = await openSerialPort(port);
+  return serialPort;
+};
+
+export const printBytes = async (bytes: Uint8Array) => {
+  const connection = getPrinterConnection();
+
+  try {
+    if (connection === 'usb') {
+      const printer = await getUsbPrinter();
+      await printer.device.transferOut(printer.endpointNumber, bytes);
+    } else if (connection === 'serial') {
+      const port = await getSerialPort();
+      const writer = port.writable?.getWriter();
+      if (!writer) throw new Error('Receipt printer is not ready');
+      try {
+        await writer.write(bytes);
+      } finally {
+        writer.releaseLock();
+      }
+    } else {
+      throw new Error('No thermal printer is set up on this till');
+    }
+  } catch (error) {
+    // Unplugged or power-cycled printers are reopened on the next attempt
+    usbPrinter = null;
+    serialPort = null;
+    throw error;
+  }
+};
@@ -9,8 +9,33 @@ export interface PriceHistory {
   userName: string;
 }
 
+export type DrugSchedule = 'otc' | 'prescription' | 'controlled';
+
+export const DRUG_SCHEDULE_LABELS: Record<DrugSchedule, string> = {
+  otc: 'Over the counter',
+  prescription: 'Prescription only',
+  controlled: 'Controlled substance'
+};
+
+// One row per medicine; its stock is held in batches (Product)
+export interface ProductMaster {
+  id: string;
+  name: string;
+  category: string;
+  barcode?: string;
+  minStockLevel: number;
+  drugSchedule: DrugSchedule;
+  // Units per pack the supplier sells; reorder quantities are whole packs
+  packSize: number;
+  preferredSupplier?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// A stock batch. The catalogue fields are copies of its ProductMaster.
 export interface Product {
   id: string;
+  productMasterId: string;
   name: string;
   category: string;
   supplier: string;
@@ -26,6 +51,7 @@ export interface Product {
   supplierDiscountPercent?: number;
   vatRate?: number;
   otherCharges?: number;
+  drugSchedule: DrugSchedule;
   priceHistory: PriceHistory[];
   createdAt: Date;
   updatedAt: Date;
@@ -40,6 +66,31 @@ export interface SaleItem {
   originalPrice?: number;
   priceAdjusted?: boolean;
   batchNumber?: string;
+  discountAmount?: number;
+}
+
+export type PaymentMethod = 'cash' | 'mpesa' | 'card' | 'insurance' | 'loyalty';
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  mpesa: 'M-Pesa',
+  card: 'Card',
+  insurance: 'Insurance',
+  loyalty: 'Loyalty Points'
+};
+
+export interface SalePayment {
+  method: PaymentMethod;
+  amount: number;
+  reference?: string;
+  tenderedAmount?: number;
+  changeAmount?: number;
+  // Card payments taken on a payment terminal
+  approvalCode?: string;
+  maskedPan?: string;
+  cardScheme?: string;
+  terminalId?: string;
+  terminalTransactionId?: string;
 }
 
 export interface Sale {
@@ -47,11 +98,435 @@ export interface Sale {
   receiptNumber: string;
   customerName?: string;
   totalAmount: number;
-  paymentMethod: 'cash' | 'mpesa' | 'card' | 'insurance';
+  customerId?: string;
+  paymentMethod: PaymentMethod | 'split';
+  payments: SalePayment[];
   salesPersonId: string;
   salesPersonName: string;
   items: SaleItem[];
   createdAt: Date;
+  isOffline?: boolean;
+  insurance?: SaleInsurance;
+  prescription?: Prescription;
+  discounts?: SaleDiscount[];
+  buyerPin?: string;
+  fiscalInvoice?: FiscalInvoice;
+}
+
+export type FiscalInvoiceStatus = 'pending' | 'unconfirmed' | 'submitted' | 'failed';
+
+// Individual PINs start with A, companies with P
+export const KRA_PIN_PATTERN = /^[AP]\d{9}[A-Z]$/;
+
+// The sale's tax invoice as transmitted to KRA eTIMS
+export interface FiscalInvoice {
+  status: FiscalInvoiceStatus;
+  buyerPin?: string;
+  controlNumber?: string;
+  invoiceNumber?: string;
+  qrCode?: string;
+  lastError?: string;
+}
+
+export type PromotionType = 'percent' | 'fixed' | 'buy_x_get_y' | 'bundle';
+
+export type PromotionScope = 'product' | 'category' | 'cart';
+
+export const PROMOTION_TYPE_LABELS: Record<PromotionType, string> = {
+  percent: 'Percentage off',
+  fixed: 'Amount off',
+  buy_x_get_y: 'Buy X get Y free',
+  bundle: 'Bundle price'
+};
+
+export interface Promotion {
+  id: string;
+  name: string;
+  promotionType: PromotionType;
+  appliesTo: PromotionScope;
+  // Medicine a product promotion applies to, across all its batches
+  productMasterId?: string;
+  category?: string;
+  value: number;
+  buyQuantity?: number;
+  getQuantity?: number;
+  code?: string;
+  startsAt?: Date;
+  endsAt?: Date;
+  dailyStartTime?: string;
+  dailyEndTime?: string;
+  daysOfWeek?: number[];
+  allowBelowFloor: boolean;
+  isActive: boolean;
+}
+
+// A discount line on the receipt. Line discounts carry the product they came off.
+export interface SaleDiscount {
+  promotionId?: string;
+  productId?: string;
+  description: string;
+  amount: number;
+}
+
+// Script details captured at the till for prescription-only and controlled lines
+export interface Prescription {
+  prescriberName: string;
+  prescriberLicence: string;
+  patientName: string;
+  reference: string;
+  imagePath?: string;
+}
+
+export type CopayType = 'none' | 'percent' | 'fixed';
+
+export interface Insurer {
+  id: string;
+  name: string;
+  code: string;
+  contactEmail?: string;
+  phone?: string;
+  isActive: boolean;
+}
+
+export interface InsuranceScheme {
+  id: string;
+  insurerId: string;
+  name: string;
+  copayType: CopayType;
+  copayValue: number;
+  isActive: boolean;
+}
+
+export interface SaleInsurance {
+  insurerId: string;
+  schemeId?: string;
+  memberNumber: string;
+  memberName?: string;
+  preauthNumber?: string;
+}
+
+export type InsuranceClaimStatus = 'submitted' | 'partially_paid' | 'paid' | 'rejected';
+
+export const INSURANCE_CLAIM_STATUS_LABELS: Record<InsuranceClaimStatus, string> = {
+  submitted: 'Submitted',
+  partially_paid: 'Partially Paid',
+  paid: 'Paid',
+  rejected: 'Rejected'
+};
+
+export interface InsuranceClaim {
+  id: string;
+  claimNumber: string;
+  insurerId: string;
+  status: InsuranceClaimStatus;
+  totalAmount: number;
+  amountPaid: number;
+  periodStart?: string;
+  periodEnd?: string;
+  notes?: string;
+  rejectionReason?: string;
+  submittedAt: Date;
+  paidAt?: Date;
+  createdByName: string;
+}
+
+export interface SaleReturnItem {
+  saleItemId: string;
+  productId?: string;
+  productName: string;
+  batchNumber?: string;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface SaleReturn {
+  id: string;
+  saleId: string;
+  returnNumber: string;
+  totalAmount: number;
+  reason: string;
+  notes?: string;
+  userName: string;
+  items: SaleReturnItem[];
+  refunds: SalePayment[];
+  createdAt: Date;
+}
+
+export type ShiftStatus = 'open' | 'closed' | 'approved';
+
+export const SHIFT_STATUS_LABELS: Record<ShiftStatus, string> = {
+  open: 'Open',
+  closed: 'Awaiting sign-off',
+  approved: 'Signed off'
+};
+
+export type CashMovementType = 'pay_in' | 'pay_out';
+
+export interface CashierShift {
+  id: string;
+  cashierId: string;
+  cashierName: string;
+  status: ShiftStatus;
+  openingFloat: number;
+  openedAt: Date;
+  closedAt?: Date;
+  countedCash?: number;
+  expectedCash?: number;
+  cashVariance?: number;
+  closingNotes?: string;
+  reviewedByName?: string;
+  reviewedAt?: Date;
+  reviewNotes?: string;
+}
+
+export interface CashMovement {
+  movementType: CashMovementType;
+  amount: number;
+  reason: string;
+  createdByName: string;
+  createdAt: Date;
+}
+
+// X-report while the shift is open, Z-report once it is closed. Expected cash
+// is left out of a cashier's own X-report so the closing count stays blind.
+export interface ShiftReport {
+  shift: CashierShift;
+  salesCount: number;
+  grossSales: number;
+  discounts: number;
+  payments: Partial<Record<PaymentMethod, number>>;
+  returnsCount: number;
+  refunds: Partial<Record<PaymentMethod, number>>;
+  // Sent back over M-Pesa; pending ones await Safaricom's result
+  mpesaRefunds: {
+    count: number;
+    sent: number;
+    pendingCount: number;
+    pending: number;
+  };
+  payIns: number;
+  payOuts: number;
+  cashMovements: CashMovement[];
+  expectedCash?: number;
+  countedCash?: number;
+  cashVariance?: number;
+  // A cashier's X-report leaves out every cash figure until the shift is
+  // closed, so the closing count stays blind
+  cashWithheld: boolean;
+  generatedAt: Date;
+}
+
+// Result of an STK push, from the callback or the STK Push Query API
+export interface StkPushStatus {
+  checkoutRequestId: string;
+  status: 'pending' | 'completed' | 'failed';
+  resultCode?: number;
+  resultDescription?: string;
+  // Only known once the callback arrives; the query does not return it
+  receiptNumber?: string;
+  amount?: number;
+  phoneNumber?: string;
+}
+
+export type MpesaReconciliationStatus = 'unmatched' | 'matched' | 'underpaid' | 'duplicate' | 'ignored';
+
+export const MPESA_RECONCILIATION_LABELS: Record<MpesaReconciliationStatus, string> = {
+  unmatched: 'Unmatched',
+  matched: 'Matched',
+  underpaid: 'Underpaid',
+  duplicate: 'Duplicate',
+  ignored: 'Not a sale',
+};
+
+export type MpesaMatchMethod = 'receipt' | 'bill_ref' | 'amount_time' | 'manual';
+
+export interface MpesaTransaction {
+  id: string;
+  receiptNumber?: string;
+  amount: number;
+  phoneNumber?: string;
+  customerName?: string;
+  billRefNumber?: string;
+  transactionType: string;
+  transactionTime: Date;
+  reconciliationStatus: MpesaReconciliationStatus;
+  matchMethod?: MpesaMatchMethod;
+  saleId?: string;
+  saleReceiptNumber?: string;
+  salePaymentId?: string;
+  duplicateOf?: string;
+  // Paid minus the tender it was matched to
+  variance?: number;
+  reconciledAt?: Date;
+  reconciledByName?: string;
+  reconciliationNote?: string;
+}
+
+// M-Pesa tender on a sale that no payment has been matched to yet
+export interface PendingMpesaTender {
+  salePaymentId: string;
+  saleId: string;
+  receiptNumber: string;
+  customerName?: string;
+  amount: number;
+  reference?: string;
+  salesPersonName: string;
+  createdAt: Date;
+}
+
+export interface MpesaVarianceDay {
+  date: string;
+  mpesaCount: number;
+  mpesaTotal: number;
+  systemCount: number;
+  systemTotal: number;
+  matchedTotal: number;
+  unmatchedCount: number;
+  unmatchedTotal: number;
+  unpaidTenderCount: number;
+  unpaidTenderTotal: number;
+  underpaidCount: number;
+  underpaidTotal: number;
+  duplicateCount: number;
+  duplicateTotal: number;
+  // M-Pesa statement minus system; positive means money received but not sold
+  variance: number;
+}
+
+export type MpesaRefundStatus = 'pending' | 'completed' | 'failed';
+
+// A whole payment is reversed; part refunds are paid out with B2C
+export type MpesaRefundType = 'reversal' | 'b2c';
+
+export interface MpesaRefund {
+  id: string;
+  saleId: string;
+  mpesaTransactionId: string;
+  saleReturnId?: string;
+  refundType: MpesaRefundType;
+  amount: number;
+  phoneNumber?: string;
+  reason: string;
+  status: MpesaRefundStatus;
+  // Sent, but M-Pesa never said whether it took the request
+  unconfirmed: boolean;
+  receiptNumber?: string;
+  resultDescription?: string;
+  attempts: number;
+  requestedByName: string;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+export interface Customer {
+  id: string;
+  name: string;
+  phone?: string;
+  notes?: string;
+  allergies?: string;
+  loyaltyId: string;
+  createdAt: Date;
+}
+
+export interface LoyaltyRules {
+  enabled: boolean;
+  pointsPer100Kes: number;
+  pointValueKes: number;
+  minRedeemPoints: number;
+  expiryMonths: number;
+  categoryMultipliers: Record<string, number>;
+  excludedCategories: string[];
+}
+
+export const DEFAULT_LOYALTY_RULES: LoyaltyRules = {
+  enabled: false,
+  pointsPer100Kes: 1,
+  pointValueKes: 1,
+  minRedeemPoints: 100,
+  expiryMonths: 12,
+  categoryMultipliers: {},
+  excludedCategories: []
+};
+
+export interface ReorderRules {
+  // Days of sales the average daily rate is taken over
+  salesWindowDays: number;
+  defaultLeadTimeDays: number;
+  // Days of average sales held back against late deliveries and busy spells
+  safetyStockDays: number;
+  // Days of sales an order should cover beyond the reorder point
+  reviewPeriodDays: number;
+  // Taken from the supplier records; suppliers without one use the default
+  supplierLeadTimes: Record<string, number>;
+}
+
+export const DEFAULT_REORDER_RULES: ReorderRules = {
+  salesWindowDays: 30,
+  defaultLeadTimeDays: 7,
+  safetyStockDays: 7,
+  reviewPeriodDays: 14,
+  supplierLeadTimes: {}
+};
+
+export interface MedicineSalesVelocity {
+  productMasterId: string;
+  unitsSold: number;
+}
+
+export type ReceiptPaperWidth = 58 | 80;
+
+export interface ReceiptTemplate {
+  businessName: string;
+  kraPin: string;
+  address: string;
+  phone: string;
+  footerMessage: string;
+  // Small image stored as a data URL so it prints without a network fetch
+  logoDataUrl?: string;
+  paperWidth: ReceiptPaperWidth;
+  showLogo: boolean;
+  showKraPin: boolean;
+  showAddress: boolean;
+  showPhone: boolean;
+  showCustomer: boolean;
+  showBatchNumbers: boolean;
+  showPaymentReferences: boolean;
+  showServedBy: boolean;
+  printAfterSale: boolean;
+  openCashDrawer: boolean;
+}
+
+export const DEFAULT_RECEIPT_TEMPLATE: ReceiptTemplate = {
+  businessName: 'WESABI PHARMACY',
+  kraPin: '',
+  address: '',
+  phone: '',
+  footerMessage: 'Thank you for your business!',
+  paperWidth: 80,
+  showLogo: false,
+  showKraPin: true,
+  showAddress: true,
+  showPhone: true,
+  showCustomer: true,
+  showBatchNumbers: false,
+  showPaymentReferences: true,
+  showServedBy: true,
+  printAfterSale: false,
+  openCashDrawer: true
+};
+
+export interface HeldSale {
+  id: string;
+  label: string;
+  customerId?: string;
+  customerName?: string;
+  items: SaleItem[];
+  totalAmount: number;
+  branchCode: string;
+  heldBy?: string;
+  heldByName: string;
+  expiresAt: Date;
+  createdAt: Date;
 }
 
 export interface StockTake {
@@ -67,6 +542,50 @@ export interface StockTake {
   createdAt: Date;
 }
 
+export type StockMovementType =
+  | 'sale'
+  | 'customer_return'
+  | 'purchase'
+  | 'supplier_return'
+  | 'reversal'
+  | 'adjustment'
+  | 'transfer'
+  | 'write_off';
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  sale: 'Sale',
+  customer_return: 'Customer return',
+  purchase: 'Purchase',
+  supplier_return: 'Supplier return',
+  reversal: 'Reversal',
+  adjustment: 'Adjustment',
+  transfer: 'Transfer',
+  write_off: 'Write-off',
+};
+
+// Movement types that can be recorded directly; sales, customer returns and
+// transfers have their own functions
+export type ManualStockMovementType = 'purchase' | 'supplier_return' | 'reversal' | 'adjustment' | 'write_off';
+
+export interface StockMovement {
+  id: string;
+  productId: string;
+  productMasterId?: string;
+  productName: string;
+  batchNumber?: string;
+  movementType: StockMovementType;
+  // Signed change to the batch's stock
+  quantity: number;
+  balanceBefore: number;
+  balanceAfter: number;
+  sourceType?: string;
+  sourceId?: string;
+  reference?: string;
+  reason?: string;
+  userName?: string;
+  createdAt: Date;
+}
+
 export interface ActivityLog {
   id: string;
   userId: string;
@@ -78,8 +597,10 @@ export interface ActivityLog {
 
 export interface StockAlert {
   id: string;
+  // The medicine for low stock, the batch for expiry
   productId: string;
   productName: string;
+  batchNumber?: string;
   alertType: 'low_stock' | 'expiry_warning';
   currentStock?: number;
   minStockLevel?: number;
@@ -119,15 +640,20 @@ export interface InvoiceItem {
   sellingPrice: number;
   totalCost: number;
   barcode: string;
+  // Purchase order line this item was received against
+  supplierOrderItemId?: string;
 }
 
 export interface Invoice {
   id: string;
   invoiceNumber: string;
   supplier: string;
+  supplierId?: string;
   invoiceDate: Date;
   totalAmount: number;
   notes?: string;
+  supplierOrderId?: string;
+  supplierOrderNumber?: string;
   userId: string;
   userName: string;
   items: InvoiceItem[];
@@ -135,6 +661,74 @@ export interface Invoice {
   updatedAt: Date;
 }
 
+export type SupplierOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'closed';
+
+export const SUPPLIER_ORDER_STATUS_LABELS: Record<SupplierOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially received',
+  received: 'Received',
+  closed: 'Closed',
+};
+
+export interface SupplierOrderLine {
+  id: string;
+  orderId: string;
+  productMasterId: string;
+  productName: string;
+  orderQuantity: number;
+  receivedQuantity: number;
+  // Expected cost per unit, compared with the cost on the invoice
+  unitCost?: number;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  contactPerson?: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  kraPin?: string;
+  // Days allowed to pay an invoice
+  paymentTermsDays: number;
+  // Days from sending an order to delivery; blank uses the default lead time
+  leadTimeDays?: number;
+  defaultDiscountPercent: number;
+  notes?: string;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SupplierScorecard {
+  supplierId: string;
+  supplierName: string;
+  invoiceCount: number;
+  // Invoiced in the period, net of purchase reversals
+  spend: number;
+  returnsAmount: number;
+  // Percentages; null when there is nothing to measure
+  returnRate: number | null;
+  ordersSent: number;
+  orderedUnits: number;
+  receivedUnits: number;
+  fillRate: number | null;
+  deliveriesDue: number;
+  onTimeDeliveries: number;
+  onTimeRate: number | null;
+  // Average change in unit cost across medicines bought more than once
+  priceChangePercent: number | null;
+}
+
+export interface SupplierPriceTrendPoint {
+  month: string;
+  lineCount: number;
+  spend: number;
+  // Unit costs against the first cost paid in the period, which is 100
+  priceIndex: number | null;
+}
+
 export interface CreditNoteItem {
   id?: string;
   productId: string;
@@ -152,6 +746,7 @@ export interface CreditNote {
   invoiceId?: string;
   invoiceNumber: string;
   supplier: string;
+  supplierId?: string;
   returnDate: Date;
   totalAmount: number;
   reason: string;
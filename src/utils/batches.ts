@@ -0,0 +1,168 @@
+import { Product, ProductMaster, SaleItem } from '../types';
+
+export interface BatchAllocation {
+  product: Product;
+  quantity: number;
+}
+
+// A medicine with its batches, first expiry first
+export interface MedicineStock {
+  master: ProductMaster;
+  batches: Product[];
+  totalStock: number;
+  // Stock in batches that are still in date
+  sellableStock: number;
+  expiredStock: number;
+  // Earliest expiry among the batches that have stock
+  nextExpiry?: Date;
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+// Each batch is its own products row. The product master keeps one name per
+// medicine, so rows with the same name are the same medicine.
+export const getMedicineKey = (name: string) => name.trim().toLowerCase();
+
+const isSameMedicine = (product: Product, name: string) => getMedicineKey(product.name) === getMedicineKey(name);
+
+const compareExpiry = (a: Product, b: Product) =>
+  a.expiryDate.getTime() - b.expiryDate.getTime() || a.batchNumber.localeCompare(b.batchNumber);
+
+// A batch can still be sold on its expiry date
+export const isBatchExpired = (product: Product, now: Date = new Date()): boolean => {
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  return product.expiryDate < today;
+};
+
+// In-date batches of a medicine that have stock, first expiry first
+export const getSellableBatches = (products: Product[], name: string, now: Date = new Date()): Product[] => {
+  return products
+    .filter(product => isSameMedicine(product, name) && product.currentStock > 0 && !isBatchExpired(product, now))
+    .sort(compareExpiry);
+};
+
+// Sellable batches for the whole catalogue, keyed by medicine name
+export const groupSellableBatches = (products: Product[], now: Date = new Date()): Map<string, Product[]> => {
+  const groups = new Map<string, Product[]>();
+  products.forEach(product => {
+    if (product.currentStock <= 0 || isBatchExpired(product, now)) return;
+    const key = getMedicineKey(product.name);
+    groups.set(key, [...(groups.get(key) || []), product]);
+  });
+  groups.forEach(batches => batches.sort(compareExpiry));
+  return groups;
+};
+
+export const getSellableStock = (products: Product[], name: string, now: Date = new Date()): number => {
+  return getSellableBatches(products, name, now).reduce((sum, product) => sum + product.currentStock, 0);
+};
+
+// Takes the quantity from the earliest-expiring batches first. Returns what
+// could be allocated; callers compare it with what was asked for.
+export const allocateBatches = (batches: Product[], quantity: number): BatchAllocation[] => {
+  const allocations: BatchAllocation[] = [];
+  let remaining = quantity;
+
+  for (const product of batches) {
+    if (remaining <= 0) break;
+    const take = Math.min(product.currentStock, remaining);
+    allocations.push({ product, quantity: take });
+    remaining -= take;
+  }
+
+  return allocations;
+};
+
+// Cart lines are one per medicine; the sale records one line per batch sold.
+// Line totals and discounts are split by quantity, with any rounding left on
+// the last batch so the sale total is unchanged.
+export const allocateSaleItems = (items: SaleItem[], products: Product[], now: Date = new Date()): SaleItem[] => {
+  return items.flatMap(item => {
+    const allocations = allocateBatches(getSellableBatches(products, item.productName, now), item.quantity);
+    const allocated = allocations.reduce((sum, allocation) => sum + allocation.quantity, 0);
+
+    if (allocated < item.quantity) {
+      throw new Error(`Only ${allocated} of ${item.productName} in stock and in date, ${item.quantity} requested`);
+    }
+
+    let totalLeft = item.totalPrice;
+    let discountLeft = item.discountAmount || 0;
+
+    return allocations.map(({ product, quantity }, index) => {
+      const isLast = index === allocations.length - 1;
+      const totalPrice = isLast ? roundAmount(totalLeft) : roundAmount(item.totalPrice * quantity / item.quantity);
+      const discountAmount = isLast ? roundAmount(discountLeft) : roundAmount((item.discountAmount || 0) * quantity / item.quantity);
+      totalLeft -= totalPrice;
+      discountLeft -= discountAmount;
+
+      return {
+        ...item,
+        productId: product.id,
+        batchNumber: product.batchNumber,
+        quantity,
+        unitPrice: roundAmount(totalPrice / quantity),
+        totalPrice,
+        ...(item.discountAmount ? { discountAmount } : {}),
+      };
+    });
+  });
+};
+
+// Batches cached offline before the product master existed carry no link to
+// it; their name identifies the medicine instead
+const getMasterId = (product: Product) => product.productMasterId || getMedicineKey(product.name);
+
+// Stands in for a master that is not loaded, e.g. on a till selling from its
+// offline cache of batches
+const masterFromBatch = (product: Product): ProductMaster => ({
+  id: getMasterId(product),
+  name: product.name,
+  category: product.category,
+  barcode: product.barcode || undefined,
+  minStockLevel: product.minStockLevel,
+  drugSchedule: product.drugSchedule,
+  packSize: 1,
+  createdAt: product.createdAt,
+  updatedAt: product.updatedAt,
+});
+
+// Stock per medicine, including medicines that have no batches left
+export const summariseMedicineStock = (masters: ProductMaster[], products: Product[], now: Date = new Date()): MedicineStock[] => {
+  const batchesByMaster = new Map<string, Product[]>();
+  products.forEach(product => {
+    const masterId = getMasterId(product);
+    batchesByMaster.set(masterId, [...(batchesByMaster.get(masterId) || []), product]);
+  });
+
+  const knownMasters = new Set(masters.map(master => master.id));
+  const unknownMasters = Array.from(batchesByMaster.values())
+    .filter(batches => !knownMasters.has(getMasterId(batches[0])))
+    .map(batches => masterFromBatch(batches[0]));
+
+  return [...masters, ...unknownMasters]
+    .map(master => {
+      const batches = (batchesByMaster.get(master.id) || []).sort(compareExpiry);
+      const expiredStock = batches
+        .filter(product => isBatchExpired(product, now))
+        .reduce((sum, product) => sum + product.currentStock, 0);
+      const totalStock = batches.reduce((sum, product) => sum + product.currentStock, 0);
+
+      return {
+        master,
+        batches,
+        totalStock,
+        sellableStock: totalStock - expiredStock,
+        expiredStock,
+        nextExpiry: batches.find(product => product.currentStock > 0)?.expiryDate,
+      };
+    })
+    .sort((a, b) => a.master.name.localeCompare(b.master.name));
+};
+
+export const isLowStock = (medicine: MedicineStock) => medicine.sellableStock <= medicine.master.minStockLevel;
+
+// A scan matches the medicine's barcode, or the code printed on one of its batches
+export const findMedicineByBarcode = (medicines: MedicineStock[], barcode: string): MedicineStock | undefined =>
+  medicines.find(medicine => medicine.master.barcode === barcode)
+  || medicines.find(medicine => medicine.batches.some(product => product.barcode === barcode));
@@ -0,0 +1,25 @@
+let audioContext: AudioContext | null = null;
+
+// Short tone for scanner feedback: a high beep for a match, a low double beep for
+// an unknown code
+export const beep = (kind: 'success' | 'error' = 'success') => {
+  try {
+    const context = audioContext || new AudioContext();
+    audioContext = context;
+    const tones = kind === 'success' ? [{ frequency: 1800, start: 0 }] : [{ frequency: 300, start: 0 }, { frequency: 300, start: 0.2 }];
+
+    tones.forEach(({ frequency, start }) => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.frequency.value = frequency;
+      gain.gain.value = 0.1;
+      oscillator.connect(gain);
+      gain.connect(context.destination);
+      oscillator.start(context.currentTime + start);
+      oscillator.stop(context.currentTime + start + 0.12);
+    });
+  } catch (error) {
+    // Sound is a nicety; browsers without Web Audio just stay silent
+    console.error('Error playing scanner tone:', error);
+  }
+};
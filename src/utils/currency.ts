@@ -59,4 +59,19 @@ export const enforceMinimumSellingPrice = (
 ): number => {
   const minPrice = getMinimumSellingPrice(inputs);
   return Math.max(sellingPrice, minPrice);
-};
\ No newline at end of file
+};
+
+// Portion of a sale the patient pays under an insurance scheme
+export const calculateCopay = (
+  totalAmount: number,
+  copayType: 'none' | 'percent' | 'fixed',
+  copayValue: number
+): number => {
+  if (copayType === 'percent') {
+    return Math.round(totalAmount * copayValue) / 100;
+  }
+  if (copayType === 'fixed') {
+    return Math.min(copayValue, totalAmount);
+  }
+  return 0;
+};
@@ -0,0 +1,91 @@
+import { ReceiptPaperWidth } from '../types';
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+export type EscPosCommand = number[];
+
+// Characters per line in the printer's standard font
+export const getCharactersPerLine = (paperWidth: ReceiptPaperWidth) => (paperWidth === 58 ? 32 : 48);
+
+// Printable dots across the paper, used to size the logo
+export const getDotsPerLine = (paperWidth: ReceiptPaperWidth) => (paperWidth === 58 ? 384 : 576);
+
+// Text is sent in the printer's default code page, so accents are dropped and
+// anything else outside plain ASCII is printed as '?'
+const toAscii = (text: string) =>
+  text
+    .replace(/\u00a0/g, ' ')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7e]/g, '?');
+
+export const initialize = (): EscPosCommand => [ESC, 0x40];
+
+export const align = (alignment: 'left' | 'center' | 'right'): EscPosCommand =>
+  [ESC, 0x61, alignment === 'left' ? 0 : alignment === 'center' ? 1 : 2];
+
+export const bold = (on: boolean): EscPosCommand => [ESC, 0x45, on ? 1 : 0];
+
+export const doubleSize = (on: boolean): EscPosCommand => [GS, 0x21, on ? 0x11 : 0];
+
+export const line = (text: string = ''): EscPosCommand =>
+  [...Array.from(toAscii(text), char => char.charCodeAt(0)), LF];
+
+export const feed = (lines: number): EscPosCommand => [ESC, 0x64, lines];
+
+// Feeds past the tear bar and makes a partial cut
+export const cut = (): EscPosCommand => [GS, 0x56, 0x42, 0x03];
+
+// Pulses pin 2, where the cash drawer is wired on most receipt printers
+export const kickDrawer = (): EscPosCommand => [ESC, 0x70, 0x00, 0x19, 0xfa];
+
+// Prints a 1-bit image; each row is packed eight dots to a byte, left to right
+export const rasterImage = (bytesPerRow: number, height: number, bits: Uint8Array): EscPosCommand => [
+  GS, 0x76, 0x30, 0x00,
+  bytesPerRow & 0xff, (bytesPerRow >> 8) & 0xff,
+  height & 0xff, (height >> 8) & 0xff,
+  ...Array.from(bits),
+];
+
+// Prints a QR code with the printer's own encoder (model 2, error correction
+// level M); moduleSize is the width of one square in dots
+export const qrCode = (data: string, moduleSize: number = 5): EscPosCommand => {
+  const bytes = Array.from(toAscii(data), char => char.charCodeAt(0));
+  const length = bytes.length + 3;
+  return [
+    GS, 0x28, 0x6b, 0x04, 0x00, 0x31, 0x41, 0x32, 0x00,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x43, moduleSize,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x45, 0x31,
+    GS, 0x28, 0x6b, length & 0xff, (length >> 8) & 0xff, 0x31, 0x50, 0x30, ...bytes,
+    GS, 0x28, 0x6b, 0x03, 0x00, 0x31, 0x51, 0x30,
+  ];
+};
+
+// A label on the left and an amount on the right, wrapping long labels
+export const columns = (left: string, right: string, width: number): EscPosCommand[] => {
+  const leftWidth = Math.max(width - right.length - 1, 1);
+  const words = toAscii(left).split(' ');
+  const lines: string[] = [];
+  let current = '';
+
+  words.forEach(word => {
+    const candidate = current ? `${current} ${word}` : word;
+    if (candidate.length <= leftWidth) {
+      current = candidate;
+    } else {
+      if (current) lines.push(current);
+      current = word.slice(0, leftWidth);
+    }
+  });
+  lines.push(current);
+
+  return lines.map((text, index) => index === lines.length - 1
+    ? line(`${text.padEnd(leftWidth)} ${right.padStart(width - leftWidth - 1)}`)
+    : line(text));
+};
+
+export const divider = (width: number, char: string = '-'): EscPosCommand => line(char.repeat(width));
+
+export const encode = (commands: EscPosCommand[]): Uint8Array => Uint8Array.from(commands.flat());
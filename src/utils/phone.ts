@@ -0,0 +1,8 @@
+// Kenyan mobile numbers in the 2547XXXXXXXX form M-Pesa uses
+export const normalizePhoneNumber = (phone: string): string => {
+  const digits = phone.replace(/\D/g, '');
+  if (!digits) return '';
+  if (digits.startsWith('0')) return '254' + digits.slice(1);
+  if (!digits.startsWith('254')) return '254' + digits;
+  return digits;
+};
@@ -0,0 +1,184 @@
+import { Product, Promotion, SaleItem, SaleDiscount } from '../types';
+import { getMinimumSellingPrice } from './currency';
+
+export interface PromotionResult {
+  discounts: SaleDiscount[];
+  // Total discount per cart line, keyed by product id
+  lineDiscounts: Record<string, number>;
+  totalDiscount: number;
+  // Promotions that were cut back to keep a line at the margin floor
+  cappedPromotions: string[];
+}
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const isPromotionLive = (promotion: Promotion, now: Date, code?: string): boolean => {
+  if (!promotion.isActive) return false;
+  if (promotion.startsAt && now < promotion.startsAt) return false;
+  if (promotion.endsAt && now > promotion.endsAt) return false;
+  if (promotion.daysOfWeek && promotion.daysOfWeek.length > 0 && !promotion.daysOfWeek.includes(now.getDay())) {
+    return false;
+  }
+
+  if (promotion.dailyStartTime && promotion.dailyEndTime) {
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    const start = toMinutes(promotion.dailyStartTime);
+    const end = toMinutes(promotion.dailyEndTime);
+    // A window such as 22:00-02:00 runs past midnight
+    const inWindow = start <= end
+      ? minutes >= start && minutes < end
+      : minutes >= start || minutes < end;
+    if (!inWindow) return false;
+  }
+
+  if (promotion.code) {
+    return !!code && code.trim().toUpperCase() === promotion.code.toUpperCase();
+  }
+
+  return true;
+};
+
+const getLineDiscount = (promotion: Promotion, item: SaleItem): number => {
+  switch (promotion.promotionType) {
+    case 'percent':
+      return item.totalPrice * promotion.value / 100;
+    case 'fixed':
+      return Math.min(promotion.value, item.unitPrice) * item.quantity;
+    case 'buy_x_get_y': {
+      const buy = promotion.buyQuantity || 0;
+      const free = promotion.getQuantity || 0;
+      if (buy <= 0 || free <= 0) return 0;
+      return Math.floor(item.quantity / (buy + free)) * free * item.unitPrice;
+    }
+    case 'bundle': {
+      const size = promotion.buyQuantity || 0;
+      if (size <= 0) return 0;
+      return Math.max(Math.floor(item.quantity / size) * (size * item.unitPrice - promotion.value), 0);
+    }
+  }
+};
+
+// Works out the discounts for a cart. Each line gets the single best product or
+// category promotion, then the best cart-level promotion is spread across the
+// lines in proportion to what is left on them. No line is taken below the
+// margin floor unless the promotion was set up by an admin to allow it.
+export const applyPromotions = (
+  cart: SaleItem[],
+  products: Product[],
+  promotions: Promotion[],
+  code: string,
+  now: Date = new Date()
+): PromotionResult => {
+  const productsById = new Map(products.map(product => [product.id, product]));
+  const live = promotions.filter(promotion => isPromotionLive(promotion, now, code));
+  const discounts: SaleDiscount[] = [];
+  const lineDiscounts: Record<string, number> = {};
+  const capped = new Set<string>();
+
+  const getHeadroom = (item: SaleItem, alreadyDiscounted: number, allowBelowFloor: boolean) => {
+    const net = item.totalPrice - alreadyDiscounted;
+    if (allowBelowFloor) return Math.max(net, 0);
+
+    const product = productsById.get(item.productId);
+    if (!product) return 0;
+    return Math.max(roundAmount(net - getMinimumSellingPrice(product.costPrice) * item.quantity), 0);
+  };
+
+  for (const item of cart) {
+    const product = productsById.get(item.productId);
+    let best: { promotion: Promotion; amount: number; capped: boolean } | null = null;
+
+    for (const promotion of live) {
+      const matches = (promotion.appliesTo === 'product' && !!product && promotion.productMasterId === product.productMasterId)
+        || (promotion.appliesTo === 'category' && !!product && promotion.category === product.category);
+      if (!matches) continue;
+
+      const raw = roundAmount(getLineDiscount(promotion, item));
+      const amount = Math.min(raw, getHeadroom(item, 0, promotion.allowBelowFloor));
+      if (amount > 0 && (!best || amount > best.amount)) {
+        best = { promotion, amount, capped: amount < raw };
+      }
+    }
+
+    if (best) {
+      lineDiscounts[item.productId] = best.amount;
+      discounts.push({
+        promotionId: best.promotion.id,
+        productId: item.productId,
+        description: `${best.promotion.name} - ${item.productName}`,
+        amount: best.amount,
+      });
+      if (best.capped) capped.add(best.promotion.name);
+    }
+  }
+
+  const netTotal = cart.reduce((sum, item) => sum + item.totalPrice - (lineDiscounts[item.productId] || 0), 0);
+  let bestCart: { promotion: Promotion; shares: Record<string, number>; amount: number; capped: boolean } | null = null;
+
+  if (netTotal > 0) {
+    for (const promotion of live.filter(p => p.appliesTo === 'cart')) {
+      const nominal = promotion.promotionType === 'percent'
+        ? netTotal * promotion.value / 100
+        : Math.min(promotion.value, netTotal);
+
+      const shares: Record<string, number> = {};
+      let amount = 0;
+      for (const item of cart) {
+        const lineDiscount = lineDiscounts[item.productId] || 0;
+        const share = roundAmount(nominal * (item.totalPrice - lineDiscount) / netTotal);
+        const allowed = Math.min(share, getHeadroom(item, lineDiscount, promotion.allowBelowFloor));
+        if (allowed > 0) {
+          shares[item.productId] = allowed;
+          amount = roundAmount(amount + allowed);
+        }
+      }
+
+      if (amount > 0 && (!bestCart || amount > bestCart.amount)) {
+        bestCart = { promotion, shares, amount, capped: amount < roundAmount(nominal) };
+      }
+    }
+  }
+
+  if (bestCart) {
+    Object.entries(bestCart.shares).forEach(([productId, share]) => {
+      lineDiscounts[productId] = roundAmount((lineDiscounts[productId] || 0) + share);
+    });
+    discounts.push({
+      promotionId: bestCart.promotion.id,
+      description: bestCart.promotion.code
+        ? `${bestCart.promotion.name} (${bestCart.promotion.code.toUpperCase()})`
+        : bestCart.promotion.name,
+      amount: bestCart.amount,
+    });
+    if (bestCart.capped) capped.add(bestCart.promotion.name);
+  }
+
+  return {
+    discounts,
+    lineDiscounts,
+    totalDiscount: roundAmount(discounts.reduce((sum, discount) => sum + discount.amount, 0)),
+    cappedPromotions: Array.from(capped),
+  };
+};
+
+// Cart lines as they are recorded on the sale: prices after discount, with the
+// discount taken kept on the line for the receipt
+export const getDiscountedItems = (cart: SaleItem[], result: PromotionResult): SaleItem[] => {
+  return cart.map(item => {
+    const discount = result.lineDiscounts[item.productId] || 0;
+    if (discount <= 0) return item;
+
+    const totalPrice = roundAmount(item.totalPrice - discount);
+    return {
+      ...item,
+      unitPrice: roundAmount(totalPrice / item.quantity),
+      totalPrice,
+      discountAmount: discount,
+    };
+  });
+};
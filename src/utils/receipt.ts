@@ -0,0 +1,251 @@
+import { Sale, ReceiptTemplate, PAYMENT_METHOD_LABELS } from '../types';
+import { formatKES } from './currency';
+import {
+  EscPosCommand,
+  initialize,
+  align,
+  bold,
+  doubleSize,
+  line,
+  feed,
+  cut,
+  kickDrawer,
+  rasterImage,
+  qrCode,
+  columns,
+  divider,
+  encode,
+  getCharactersPerLine,
+  getDotsPerLine,
+} from './escpos';
+
+export interface ReceiptOptions {
+  reprint?: boolean;
+  openDrawer?: boolean;
+}
+
+// One row of the receipt body: a label on the left and an amount on the right
+interface ReceiptRow {
+  label: string;
+  amount: string;
+  detail?: string;
+  emphasis?: boolean;
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+export const hasCashTender = (sale: Sale) => sale.payments.some(payment => payment.method === 'cash');
+
+const getHeaderLines = (template: ReceiptTemplate): string[] => [
+  template.showAddress ? template.address : '',
+  template.showPhone && template.phone ? `Tel: ${template.phone}` : '',
+  template.showKraPin && template.kraPin ? `KRA PIN: ${template.kraPin}` : '',
+].filter(Boolean);
+
+const getSaleLines = (sale: Sale, template: ReceiptTemplate): string[] => [
+  `Receipt #${sale.receiptNumber}`,
+  `${sale.createdAt.toLocaleDateString('en-KE')} ${sale.createdAt.toLocaleTimeString('en-KE')}`,
+  template.showCustomer && sale.customerName ? `Customer: ${sale.customerName}` : '',
+].filter(Boolean);
+
+// Items are shown at their price before discount, with the discounts listed
+// underneath, so the lines add up to the total
+const getItemRows = (sale: Sale, template: ReceiptTemplate): ReceiptRow[] => [
+  ...sale.items.map(item => ({
+    label: `${item.productName} x${item.quantity}`,
+    amount: formatKES(item.totalPrice + (item.discountAmount || 0)),
+    detail: template.showBatchNumbers && item.batchNumber ? `Batch: ${item.batchNumber}` : undefined,
+  })),
+  ...(sale.discounts || []).map(discount => ({
+    label: discount.description,
+    amount: `-${formatKES(discount.amount)}`,
+  })),
+];
+
+const getTotalRows = (sale: Sale, template: ReceiptTemplate): ReceiptRow[] => [
+  { label: 'TOTAL', amount: formatKES(sale.totalAmount), emphasis: true },
+  ...sale.payments.flatMap(payment => [
+    {
+      label: `${PAYMENT_METHOD_LABELS[payment.method]}${template.showPaymentReferences && payment.reference && !payment.maskedPan ? ` (${payment.reference})` : ''}`,
+      amount: formatKES(payment.tenderedAmount ?? payment.amount),
+      // Terminal card payments always print the card slip details
+      detail: payment.maskedPan
+        ? [payment.cardScheme, payment.maskedPan, `Auth ${payment.approvalCode || '-'}`, `TID ${payment.terminalId || '-'}`].filter(Boolean).join(' ')
+        : undefined,
+    },
+    ...(payment.changeAmount ? [{ label: 'Change', amount: formatKES(payment.changeAmount) }] : []),
+  ]),
+];
+
+// KRA requires the CU invoice number and the verification QR on every
+// receipt; until the invoice is accepted the receipt says it is pending
+const getFiscalLines = (sale: Sale): string[] => {
+  const invoice = sale.fiscalInvoice;
+  const buyerPin = invoice?.buyerPin || sale.buyerPin;
+  return [
+    buyerPin ? `Buyer PIN: ${buyerPin}` : '',
+    invoice?.status === 'submitted' && invoice.controlNumber
+      ? `CU Invoice No: ${invoice.controlNumber}`
+      : 'Fiscal invoice pending',
+  ].filter(Boolean);
+};
+
+const getFiscalQrCode = (sale: Sale) =>
+  sale.fiscalInvoice?.status === 'submitted' ? sale.fiscalInvoice.qrCode : undefined;
+
+const getFooterLines = (sale: Sale, template: ReceiptTemplate): string[] => [
+  template.footerMessage,
+  template.showServedBy ? `Served by: ${sale.salesPersonName}` : '',
+].filter(Boolean);
+
+export const renderReceiptHtml = (sale: Sale, template: ReceiptTemplate, { reprint = false }: ReceiptOptions = {}): string => {
+  const renderRow = (row: ReceiptRow) => `
+    <div class="item${row.emphasis ? ' emphasis' : ''}">
+      <span>${escapeHtml(row.label)}</span>
+      <span>${escapeHtml(row.amount)}</span>
+    </div>
+    ${row.detail ? `<div class="detail">${escapeHtml(row.detail)}</div>` : ''}
+  `;
+  const fiscalQrCode = getFiscalQrCode(sale);
+
+  return `
+    <html>
+      <head>
+        <title>Receipt - ${escapeHtml(sale.receiptNumber)}</title>
+        <style>
+          body { font-family: Arial, sans-serif; width: ${template.paperWidth - 8}mm; margin: 0 auto; padding: 10px; font-size: 12px; line-height: 1.4; }
+          .header { text-align: center; border-bottom: 2px solid #000; padding-bottom: 10px; margin-bottom: 10px; }
+          .header img { max-width: 60%; max-height: 80px; }
+          .header p { margin: 2px 0; }
+          .reprint { text-align: center; font-weight: bold; border: 2px solid #000; padding: 4px; margin-bottom: 10px; }
+          .item { display: flex; justify-content: space-between; gap: 8px; margin: 4px 0; }
+          .detail { font-size: 10px; color: #555; margin: -2px 0 4px 0; }
+          .emphasis { font-weight: bold; font-size: 14px; }
+          .total { border-top: 2px solid #000; padding-top: 8px; margin-top: 10px; }
+          .fiscal { text-align: center; margin-top: 10px; font-size: 11px; word-break: break-all; }
+          .fiscal p { margin: 2px 0; }
+          .footer { text-align: center; margin-top: 15px; border-top: 1px solid #ccc; padding-top: 10px; }
+          h2 { margin: 0 0 6px 0; font-size: 16px; }
+          @page { size: ${template.paperWidth}mm auto; margin: 0; }
+          @media print {
+            body { padding: 4px; }
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          ${template.showLogo && template.logoDataUrl ? `<img src="${template.logoDataUrl}" alt="" />` : ''}
+          <h2>${escapeHtml(template.businessName)}</h2>
+          ${getHeaderLines(template).map(text => `<p>${escapeHtml(text)}</p>`).join('')}
+          ${getSaleLines(sale, template).map(text => `<p>${escapeHtml(text)}</p>`).join('')}
+        </div>
+        ${reprint ? '<div class="reprint">*** REPRINT ***</div>' : ''}
+        <div class="items">
+          ${getItemRows(sale, template).map(renderRow).join('')}
+        </div>
+        <div class="total">
+          ${getTotalRows(sale, template).map(renderRow).join('')}
+        </div>
+        <div class="fiscal">
+          ${getFiscalLines(sale).map(text => `<p>${escapeHtml(text)}</p>`).join('')}
+          ${fiscalQrCode ? `<p>Verify: ${escapeHtml(fiscalQrCode)}</p>` : ''}
+        </div>
+        <div class="footer">
+          ${getFooterLines(sale, template).map(text => `<p>${escapeHtml(text)}</p>`).join('')}
+          ${reprint ? `<p><strong>REPRINT</strong> ${new Date().toLocaleString('en-KE')}</p>` : ''}
+        </div>
+      </body>
+    </html>
+  `;
+};
+
+// Scales the logo to at most half the paper width and converts it to 1-bit
+// rows for the printer. Light pixels and transparency print as paper.
+const getLogoCommand = async (dataUrl: string, maxDots: number): Promise<EscPosCommand | null> => {
+  const image = new Image();
+  image.src = dataUrl;
+  await image.decode();
+
+  const width = Math.min(image.width, Math.floor(maxDots / 2 / 8) * 8);
+  const height = Math.round(image.height * width / image.width);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context || width === 0 || height === 0) return null;
+
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, width, height);
+  context.drawImage(image, 0, 0, width, height);
+  const pixels = context.getImageData(0, 0, width, height).data;
+
+  const bytesPerRow = Math.ceil(width / 8);
+  const bits = new Uint8Array(bytesPerRow * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      const luminance = 0.299 * pixels[offset] + 0.587 * pixels[offset + 1] + 0.114 * pixels[offset + 2];
+      if (luminance < 128) {
+        bits[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+
+  return rasterImage(bytesPerRow, height, bits);
+};
+
+export const renderReceiptEscPos = async (
+  sale: Sale,
+  template: ReceiptTemplate,
+  { reprint = false, openDrawer = false }: ReceiptOptions = {}
+): Promise<Uint8Array> => {
+  const width = getCharactersPerLine(template.paperWidth);
+  const commands: EscPosCommand[] = [initialize()];
+
+  // The drawer opens first so the cashier can give change while it prints
+  if (openDrawer) commands.push(kickDrawer());
+
+  commands.push(align('center'));
+  if (template.showLogo && template.logoDataUrl) {
+    try {
+      const logo = await getLogoCommand(template.logoDataUrl, getDotsPerLine(template.paperWidth));
+      if (logo) commands.push(logo);
+    } catch (error) {
+      // A logo that will not decode should not stop the receipt
+      console.error('Error preparing receipt logo:', error);
+    }
+  }
+
+  commands.push(bold(true), doubleSize(true), line(template.businessName), doubleSize(false), bold(false));
+  getHeaderLines(template).forEach(text => commands.push(line(text)));
+  getSaleLines(sale, template).forEach(text => commands.push(line(text)));
+  if (reprint) commands.push(bold(true), line('*** REPRINT ***'), bold(false));
+
+  commands.push(align('left'), divider(width));
+  getItemRows(sale, template).forEach(row => {
+    commands.push(...columns(row.label, row.amount, width));
+    if (row.detail) commands.push(line(`  ${row.detail}`));
+  });
+
+  commands.push(divider(width, '='));
+  getTotalRows(sale, template).forEach(row => {
+    if (row.emphasis) commands.push(bold(true));
+    commands.push(...columns(row.label, row.amount, width));
+    if (row.emphasis) commands.push(bold(false));
+  });
+
+  commands.push(divider(width), align('center'));
+  getFiscalLines(sale).forEach(text => commands.push(line(text)));
+  const fiscalQrCode = getFiscalQrCode(sale);
+  if (fiscalQrCode) commands.push(qrCode(fiscalQrCode, template.paperWidth === 58 ? 4 : 6), line());
+  getFooterLines(sale, template).forEach(text => commands.push(line(text)));
+  if (reprint) commands.push(line(`REPRINT ${new Date().toLocaleString('en-KE')}`));
+
+  commands.push(feed(3), cut());
+  return encode(commands);
+};
@@ -0,0 +1,103 @@
+import { ProductMaster, ReorderRules } from '../types';
+import { MedicineStock } from './batches';
+
+export interface ReorderSuggestion {
+  master: ProductMaster;
+  supplier: string;
+  // In-date stock on hand
+  stock: number;
+  // Outstanding on orders not yet received or closed
+  onOrder: number;
+  unitsSold: number;
+  averageDailySales: number;
+  leadTimeDays: number;
+  safetyStock: number;
+  reorderPoint: number;
+  suggestedQuantity: number;
+  unitCost: number | null;
+  // Medicines with no sales in the window fall back to the minimum stock level
+  basis: 'velocity' | 'min_stock';
+}
+
+const latestBatch = (medicine: MedicineStock) =>
+  [...medicine.batches].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+
+// Last cost paid for the medicine, used as the expected cost on a new order line
+export const getLastCost = (medicine?: MedicineStock): number | null => {
+  const latest = medicine ? latestBatch(medicine) : undefined;
+  return latest ? latest.costPrice : null;
+};
+
+// The preferred supplier, else whoever supplied the latest batch
+export const getPreferredSupplier = (medicine: MedicineStock): string => {
+  if (medicine.master.preferredSupplier) return medicine.master.preferredSupplier;
+  const supplier = latestBatch(medicine)?.supplier || '';
+  return supplier === 'Unknown Supplier' ? '' : supplier;
+};
+
+export const getLeadTimeDays = (supplier: string, rules: ReorderRules): number =>
+  rules.supplierLeadTimes[supplier] ?? rules.defaultLeadTimeDays;
+
+export const roundToPackSize = (quantity: number, packSize: number): number => {
+  const size = Math.max(1, Math.floor(packSize) || 1);
+  return Math.ceil(quantity / size) * size;
+};
+
+// Reorder when stock plus what is on order will not last the supplier's lead
+// time plus the safety stock. The order tops stock up to the reorder point
+// plus the review period's worth of sales, in whole packs.
+export const buildReorderSuggestion = (
+  medicine: MedicineStock,
+  unitsSold: number,
+  onOrder: number,
+  supplier: string,
+  packSize: number,
+  rules: ReorderRules
+): ReorderSuggestion | null => {
+  const averageDailySales = unitsSold / Math.max(1, rules.salesWindowDays);
+  const leadTimeDays = getLeadTimeDays(supplier, rules);
+  const safetyStock = Math.ceil(averageDailySales * rules.safetyStockDays);
+  const minStockLevel = medicine.master.minStockLevel;
+
+  const basis = averageDailySales > 0 ? 'velocity' : 'min_stock';
+  const reorderPoint = Math.max(Math.ceil(averageDailySales * leadTimeDays) + safetyStock, minStockLevel);
+  const targetStock = basis === 'velocity'
+    ? reorderPoint + Math.ceil(averageDailySales * rules.reviewPeriodDays)
+    : minStockLevel * 2;
+
+  const position = medicine.sellableStock + onOrder;
+  if (position > reorderPoint || targetStock <= position) return null;
+
+  return {
+    master: medicine.master,
+    supplier,
+    stock: medicine.sellableStock,
+    onOrder,
+    unitsSold,
+    averageDailySales,
+    leadTimeDays,
+    safetyStock,
+    reorderPoint,
+    suggestedQuantity: roundToPackSize(targetStock - position, packSize),
+    unitCost: getLastCost(medicine),
+    basis,
+  };
+};
+
+export const buildReorderSuggestions = (
+  medicines: MedicineStock[],
+  unitsSold: Map<string, number>,
+  onOrder: Map<string, number>,
+  rules: ReorderRules
+): ReorderSuggestion[] => {
+  return medicines
+    .map(medicine => buildReorderSuggestion(
+      medicine,
+      unitsSold.get(medicine.master.id) || 0,
+      onOrder.get(medicine.master.id) || 0,
+      getPreferredSupplier(medicine),
+      medicine.master.packSize,
+      rules
+    ))
+    .filter((suggestion): suggestion is ReorderSuggestion => suggestion !== null);
+};
@@ -86,3 +86,27 @@ export async function retryDatabaseOperation<T>(
     }
   });
 }
+
+// True when the request never reached the server (offline, DNS, dropped connection)
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return true;
+  }
+
+  if (typeof error === 'object' && error !== null) {
+    const errorMessage = 'message' in error ? String((error as { message: unknown }).message).toLowerCase() : '';
+
+    const networkErrors = [
+      'failed to fetch',
+      'networkerror',
+      'network error',
+      'network request failed',
+      'load failed',
+      'err_internet_disconnected',
+    ];
+
+    return networkErrors.some(pattern => errorMessage.includes(pattern));
+  }
+
+  return false;
+}
@@ -0,0 +1,92 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+
+// Stand-in for the KRA eTIMS sales endpoint, for testing fiscal invoicing
+// without a KRA device. Serve it locally and point etims-submit at it:
+//
+//   supabase functions serve etims-mock --no-verify-jwt
+//   ETIMS_ENDPOINT=http://localhost:54321/functions/v1/etims-mock
+//
+// ETIMS_MOCK_FAILURE_RATE (0 to 1) rejects that share of submissions, and
+// ?fail=1 on the endpoint rejects all of them, to exercise the retry queue.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey, tin, bhfId, cmcKey',
+};
+
+const SDC_ID = 'KRACU0000000001';
+
+// Receipts issued since the function started, by invoice number, so a
+// resubmitted invoice gets its original receipt back as eTIMS does
+const issued = new Map<string, { rcptNo: number; rcptSign: string; intrlData: string }>();
+
+const reply = (resultCd: string, resultMsg: string, data: unknown = null) =>
+  new Response(
+    JSON.stringify({ resultCd, resultMsg, resultDt: new Date().toISOString(), data }),
+    { status: 200, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+
+const randomCode = (length: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(length)), byte => 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789'[byte % 32]).join('');
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+  if (req.method !== 'POST' || !url.pathname.endsWith('/trnsSales/saveSales')) {
+    return reply('894', 'Unknown endpoint');
+  }
+
+  try {
+    const failureRate = Number(Deno.env.get('ETIMS_MOCK_FAILURE_RATE') || 0);
+    if (url.searchParams.get('fail') === '1' || Math.random() < failureRate) {
+      return reply('896', 'Simulated eTIMS failure');
+    }
+
+    if (!req.headers.get('tin') || !req.headers.get('bhfId')) {
+      return reply('910', 'Request header tin and bhfId are required');
+    }
+
+    const invoice = await req.json();
+    const items: Array<{ taxblAmt: number; taxAmt: number; totAmt: number }> = invoice.itemList || [];
+    if (!invoice.invcNo || items.length === 0) {
+      return reply('910', 'invcNo and itemList are required');
+    }
+
+    // The same checks eTIMS makes: line totals must add up to the invoice
+    const sum = (values: number[]) => Math.round(values.reduce((total, value) => total + value, 0) * 100) / 100;
+    if (Math.abs(sum(items.map(item => item.totAmt)) - invoice.totAmt) > 0.01) {
+      return reply('911', 'Sum of item totals does not match totAmt');
+    }
+    if (Math.abs(sum(items.map(item => item.taxAmt)) - invoice.totTaxAmt) > 0.01) {
+      return reply('911', 'Sum of item tax does not match totTaxAmt');
+    }
+    if (invoice.custTin && !/^[AP]\d{9}[A-Z]$/.test(invoice.custTin)) {
+      return reply('912', 'Invalid customer PIN');
+    }
+
+    const key = String(invoice.invcNo);
+    let receipt = issued.get(key);
+    if (!receipt) {
+      receipt = { rcptNo: issued.size + 1, rcptSign: randomCode(16), intrlData: randomCode(26) };
+      issued.set(key, receipt);
+    }
+
+    return reply('000', 'It is succeeded', {
+      curRcptNo: receipt.rcptNo,
+      totRcptNo: receipt.rcptNo,
+      intrlData: receipt.intrlData,
+      rcptSign: receipt.rcptSign,
+      sdcDateTime: invoice.cfmDt,
+      sdcId: SDC_ID,
+      rcptNo: receipt.rcptNo,
+      mrcNo: 'MOCK00000001',
+    });
+  } catch (error) {
+    console.error('Error in eTIMS mock:', error);
+    return reply('999', error instanceof Error ? error.message : 'Internal error');
+  }
+});
@@ -0,0 +1,511 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+// eTIMS tax types by VAT rate: A exempt, B standard 16%, E reduced 8%.
+// C (zero-rated exports) and D (non-VAT) are not used by the pharmacy.
+const TAX_TYPES: Record<number, string> = { 0: 'A', 16: 'B', 8: 'E' };
+const TAX_RATES: Record<string, number> = { A: 0, B: 16, C: 0, D: 0, E: 8 };
+
+// eTIMS payment type codes, one for every tender the till takes. Loyalty
+// points have no code of their own and are filed as 07 (other).
+const PAYMENT_TYPES: Record<string, string> = {
+  cash: '01',
+  insurance: '02',
+  card: '05',
+  mpesa: '06',
+  loyalty: '07',
+};
+
+const KRA_PIN_PATTERN = /^[AP]\d{9}[A-Z]$/;
+const RETRY_BATCH_SIZE = 20;
+const SUBMIT_TIMEOUT_MS = 10000;
+// How long a claimed invoice is left to its submission before a sweep may
+// pick it up again
+const CLAIM_LEASE_MS = 2 * 60000;
+
+interface FiscalItem {
+  itemSeq: number;
+  itemCd: string;
+  itemNm: string;
+  qty: number;
+  prc: number;
+  splyAmt: number;
+  dcAmt: number;
+  taxTyCd: string;
+  taxblAmt: number;
+  taxAmt: number;
+  totAmt: number;
+}
+
+type FiscalPayload = Record<string, string | number | null | FiscalItem[]>;
+
+interface FiscalResult {
+  controlNumber: string;
+  invoiceNumber: string;
+  qrCode: string;
+}
+
+// KRA gave no answer either way: the request timed out, the connection
+// dropped or the reply could not be read. KRA may have recorded the invoice.
+class FiscalOutcomeUnknownError extends Error {}
+
+// A fiscal adapter is one route to KRA: the eTIMS OSCU/VSCU API, a physical
+// control unit on the network, and so on. Adapters throw when KRA does not
+// accept the invoice, and throw FiscalOutcomeUnknownError when they cannot
+// tell; the caller records the error and schedules a retry.
+interface FiscalAdapter {
+  name: string;
+  submit(payload: FiscalPayload): Promise<FiscalResult>;
+}
+
+interface FiscalInvoiceRow {
+  id: string;
+  sale_id: string;
+  invoice_sequence: number;
+  status: 'pending' | 'unconfirmed' | 'submitted' | 'failed';
+  buyer_pin: string | null;
+  payload: FiscalPayload | null;
+  attempts: number;
+}
+
+const INVOICE_COLUMNS = 'id, sale_id, invoice_sequence, status, buyer_pin, payload, attempts';
+
+const roundAmount = (amount: number) => Math.round(amount * 100) / 100;
+
+const jsonResponse = (body: unknown, status: number = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// KRA expects Nairobi local time as yyyyMMddHHmmss
+const formatKraDateTime = (date: Date) => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-GB', {
+      timeZone: 'Africa/Nairobi',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    }).formatToParts(date).map(part => [part.type, part.value])
+  );
+  return `${parts.year}${parts.month}${parts.day}${parts.hour}${parts.minute}${parts.second}`;
+};
+
+const createEtimsAdapter = (): FiscalAdapter => {
+  const endpoint = Deno.env.get('ETIMS_ENDPOINT');
+  const tin = Deno.env.get('ETIMS_PIN');
+  const branchId = Deno.env.get('ETIMS_BRANCH_ID') || '00';
+  const verifyUrl = Deno.env.get('ETIMS_VERIFY_URL') || 'https://etims.kra.go.ke/common/link/etims/receipt/indexEtimsReceiptData';
+
+  return {
+    name: 'etims',
+    submit: async (payload) => {
+      if (!endpoint || !tin) {
+        throw new Error('eTIMS is not configured. Set ETIMS_ENDPOINT and ETIMS_PIN.');
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(`${endpoint.replace(/\/$/, '')}/trnsSales/saveSales`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            tin,
+            bhfId: branchId,
+            cmcKey: Deno.env.get('ETIMS_CMC_KEY') || '',
+          },
+          body: JSON.stringify({ ...payload, tin, bhfId: branchId }),
+          signal: AbortSignal.timeout(SUBMIT_TIMEOUT_MS),
+        });
+      } catch (error) {
+        throw new FiscalOutcomeUnknownError(`No answer from eTIMS: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      // A server error can come after the invoice was recorded
+      if (response.status >= 500) {
+        throw new FiscalOutcomeUnknownError(`eTIMS returned HTTP ${response.status}`);
+      }
+
+      if (!response.ok) {
+        throw new Error(`eTIMS returned HTTP ${response.status}`);
+      }
+
+      let result;
+      try {
+        result = await response.json();
+      } catch {
+        throw new FiscalOutcomeUnknownError('eTIMS sent a reply that could not be read');
+      }
+
+      if (result.resultCd !== '000') {
+        throw new Error(`eTIMS rejected the invoice: ${result.resultMsg || result.resultCd}`);
+      }
+
+      const { sdcId, rcptNo, rcptSign } = result.data || {};
+      if (!sdcId || !rcptNo || !rcptSign) {
+        throw new Error('eTIMS response is missing the receipt signature');
+      }
+
+      return {
+        controlNumber: `${sdcId}/${rcptNo}`,
+        invoiceNumber: String(rcptNo),
+        qrCode: `${verifyUrl}?Data=${tin}${branchId}${rcptSign}`,
+      };
+    },
+  };
+};
+
+const getAdapter = (): FiscalAdapter => {
+  const name = Deno.env.get('FISCAL_ADAPTER') || 'etims';
+  switch (name) {
+    case 'etims':
+      return createEtimsAdapter();
+    default:
+      throw new Error(`Unknown fiscal adapter: ${name}`);
+  }
+};
+
+// An invoice carries a single payment type, so a split sale is filed under
+// the tender that paid the most of it. Sales from before split payments
+// only have the method on the sale.
+const getPaymentType = (paymentMethod: string, payments: { payment_method: string; amount: number }[]) => {
+  const totals = new Map<string, number>();
+  payments.forEach(payment => {
+    totals.set(payment.payment_method, (totals.get(payment.payment_method) || 0) + Number(payment.amount));
+  });
+
+  const mainTender = totals.size > 0
+    ? Array.from(totals).sort((a, b) => b[1] - a[1])[0][0]
+    : paymentMethod;
+
+  const paymentType = PAYMENT_TYPES[mainTender];
+  if (!paymentType) {
+    throw new Error(`Payment method ${mainTender} has no eTIMS payment type`);
+  }
+  return paymentType;
+};
+
+// Builds the tax invoice from the sale as recorded. Prices include VAT, so
+// each line's taxable amount is worked back from its total.
+const buildPayload = async (supabase: SupabaseClient, invoice: FiscalInvoiceRow): Promise<FiscalPayload> => {
+  const { data: sale, error: saleError } = await supabase
+    .from('sales')
+    .select(`
+      receipt_number,
+      customer_name,
+      total_amount,
+      payment_method,
+      created_at,
+      sale_items (
+        product_id,
+        product_name,
+        quantity,
+        total_price,
+        discount_amount
+      ),
+      sale_payments (
+        payment_method,
+        amount
+      )
+    `)
+    .eq('id', invoice.sale_id)
+    .single();
+
+  if (saleError) throw saleError;
+
+  const productIds = sale.sale_items.map((item: { product_id: string }) => item.product_id);
+  const { data: products, error: productsError } = await supabase
+    .from('products')
+    .select('id, vat_rate, barcode')
+    .in('id', productIds);
+
+  if (productsError) throw productsError;
+
+  const productsById = new Map((products || []).map(product => [product.id, product]));
+  const totals: Record<string, { taxable: number; tax: number }> = {};
+
+  const items: FiscalItem[] = sale.sale_items.map((item: {
+    product_id: string;
+    product_name: string;
+    quantity: number;
+    total_price: number;
+    discount_amount: number;
+  }, index: number) => {
+    const product = productsById.get(item.product_id);
+    const rate = Number(product?.vat_rate ?? 16);
+    const taxType = TAX_TYPES[rate];
+    if (!taxType) {
+      throw new Error(`${item.product_name} has a VAT rate of ${rate}%, which has no eTIMS tax type`);
+    }
+
+    const total = Number(item.total_price);
+    const discount = Number(item.discount_amount) || 0;
+    const taxable = roundAmount(total / (1 + rate / 100));
+    const tax = roundAmount(total - taxable);
+
+    totals[taxType] = {
+      taxable: roundAmount((totals[taxType]?.taxable || 0) + taxable),
+      tax: roundAmount((totals[taxType]?.tax || 0) + tax),
+    };
+
+    return {
+      itemSeq: index + 1,
+      itemCd: product?.barcode || item.product_id,
+      itemNm: item.product_name,
+      qty: item.quantity,
+      prc: roundAmount((total + discount) / item.quantity),
+      splyAmt: roundAmount(total + discount),
+      dcAmt: discount,
+      taxTyCd: taxType,
+      taxblAmt: taxable,
+      taxAmt: tax,
+      totAmt: total,
+    };
+  });
+
+  const byType = (prefix: 'taxblAmt' | 'taxRt' | 'taxAmt') =>
+    Object.fromEntries(Object.keys(TAX_RATES).map(type => [
+      `${prefix}${type}`,
+      prefix === 'taxRt' ? TAX_RATES[type] : prefix === 'taxblAmt' ? totals[type]?.taxable || 0 : totals[type]?.tax || 0,
+    ]));
+
+  const soldAt = new Date(sale.created_at);
+
+  return {
+    invcNo: invoice.invoice_sequence,
+    orgInvcNo: 0,
+    trdInvcNo: sale.receipt_number,
+    custTin: invoice.buyer_pin,
+    custNm: sale.customer_name || null,
+    salesTyCd: 'N',
+    rcptTyCd: 'S',
+    pmtTyCd: getPaymentType(sale.payment_method, sale.sale_payments || []),
+    salesSttsCd: '02',
+    cfmDt: formatKraDateTime(soldAt),
+    salesDt: formatKraDateTime(soldAt).slice(0, 8),
+    totItemCnt: items.length,
+    ...byType('taxblAmt'),
+    ...byType('taxRt'),
+    ...byType('taxAmt'),
+    totTaxblAmt: roundAmount(items.reduce((sum, item) => sum + item.taxblAmt, 0)),
+    totTaxAmt: roundAmount(items.reduce((sum, item) => sum + item.taxAmt, 0)),
+    totAmt: Number(sale.total_amount),
+    itemList: items,
+  };
+};
+
+// Claims an invoice for one submission by bumping its attempts only if no one
+// else has since, so an overlapping sweep or a second click from the till
+// cannot send it to KRA twice. Returns null when it was claimed elsewhere.
+const claimInvoice = async (supabase: SupabaseClient, invoice: FiscalInvoiceRow): Promise<FiscalInvoiceRow | null> => {
+  const { data, error } = await supabase
+    .from('fiscal_invoices')
+    .update({
+      attempts: invoice.attempts + 1,
+      next_attempt_at: new Date(Date.now() + CLAIM_LEASE_MS).toISOString(),
+    })
+    .eq('id', invoice.id)
+    .eq('attempts', invoice.attempts)
+    .neq('status', 'submitted')
+    .select(INVOICE_COLUMNS);
+
+  if (error) throw error;
+  return data && data.length > 0 ? data[0] : null;
+};
+
+// Submits an invoice claimed with claimInvoice; its attempt is already counted.
+// An invoice is unconfirmed from the moment it is sent until KRA answers, so
+// one that may be with KRA is never rebuilt: it is resent exactly as first
+// sent, and eTIMS answers a resent invoice number with the receipt it issued.
+const submitInvoice = async (supabase: SupabaseClient, invoice: FiscalInvoiceRow) => {
+  let payload: FiscalPayload | null = invoice.payload;
+  let adapterName: string | null = null;
+  let sent = false;
+  let accepted = false;
+
+  try {
+    const adapter = getAdapter();
+    adapterName = adapter.name;
+    if (invoice.status !== 'unconfirmed' || !payload) {
+      payload = await buildPayload(supabase, invoice);
+    }
+
+    const { error: sendingError } = await supabase
+      .from('fiscal_invoices')
+      .update({ status: 'unconfirmed', payload, adapter: adapter.name })
+      .eq('id', invoice.id);
+
+    if (sendingError) throw sendingError;
+
+    sent = true;
+    const result = await adapter.submit(payload);
+    accepted = true;
+
+    const { data, error } = await supabase
+      .from('fiscal_invoices')
+      .update({
+        status: 'submitted',
+        payload,
+        adapter: adapter.name,
+        control_number: result.controlNumber,
+        invoice_number: result.invoiceNumber,
+        qr_code: result.qrCode,
+        last_error: null,
+        submitted_at: new Date().toISOString(),
+      })
+      .eq('id', invoice.id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  } catch (error) {
+    const delayMinutes = Math.min(2 ** (invoice.attempts - 1), 60);
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`Fiscal invoice for sale ${invoice.sale_id} failed (attempt ${invoice.attempts}):`, message);
+
+    // Only a rejection from KRA, or an error before anything was sent, clears
+    // an invoice to be rebuilt
+    const unconfirmed = sent
+      ? accepted || error instanceof FiscalOutcomeUnknownError
+      : invoice.status === 'unconfirmed';
+
+    const { data } = await supabase
+      .from('fiscal_invoices')
+      .update({
+        status: unconfirmed ? 'unconfirmed' : 'failed',
+        payload,
+        adapter: adapterName,
+        last_error: message,
+        next_attempt_at: new Date(Date.now() + delayMinutes * 60000).toISOString(),
+      })
+      .eq('id', invoice.id)
+      .select()
+      .single();
+
+    return data;
+  }
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authorization' }, 401);
+    }
+
+    const { sale_id: saleId, buyer_pin: buyerPin, action } = await req.json();
+
+    // Sweep of invoices that are due a retry. Pending invoices younger than a
+    // minute are left alone; their till is most likely still submitting them.
+    if (action === 'retry') {
+      const cutoff = new Date(Date.now() - 60000).toISOString();
+      const { data: due, error } = await supabase
+        .from('fiscal_invoices')
+        .select(INVOICE_COLUMNS)
+        .neq('status', 'submitted')
+        .lte('next_attempt_at', new Date().toISOString())
+        .or(`status.in.(failed,unconfirmed),created_at.lt.${cutoff}`)
+        .order('created_at')
+        .limit(RETRY_BATCH_SIZE);
+
+      if (error) throw error;
+
+      let processed = 0;
+      let submitted = 0;
+      for (const invoice of due || []) {
+        const claimed = await claimInvoice(supabase, invoice);
+        if (!claimed) continue;
+
+        processed++;
+        const result = await submitInvoice(supabase, claimed);
+        if (result?.status === 'submitted') submitted++;
+      }
+
+      return jsonResponse({ processed, submitted });
+    }
+
+    if (!saleId) {
+      return jsonResponse({ error: 'Missing sale_id' }, 400);
+    }
+
+    const pin = typeof buyerPin === 'string' ? buyerPin.trim().toUpperCase() : '';
+    if (pin && !KRA_PIN_PATTERN.test(pin)) {
+      return jsonResponse({ error: 'Buyer KRA PIN must look like P051234567X' }, 400);
+    }
+
+    // Sales made before fiscal invoicing started have no queued invoice
+    const { data: invoice, error } = await supabase
+      .from('fiscal_invoices')
+      .upsert({ sale_id: saleId }, { onConflict: 'sale_id', ignoreDuplicates: true })
+      .select(INVOICE_COLUMNS)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const { data: current, error: currentError } = invoice
+      ? { data: invoice, error: null }
+      : await supabase
+          .from('fiscal_invoices')
+          .select(INVOICE_COLUMNS)
+          .eq('sale_id', saleId)
+          .single();
+
+    if (currentError) throw currentError;
+
+    // Already with KRA; a second submission would duplicate the invoice
+    if (current.status === 'submitted') {
+      const { data: existing } = await supabase.from('fiscal_invoices').select('*').eq('id', current.id).single();
+      return jsonResponse(existing);
+    }
+
+    if (pin && pin !== current.buyer_pin) {
+      // KRA may already hold the invoice without the PIN
+      if (current.status === 'unconfirmed') {
+        return jsonResponse({ error: 'This invoice may already be with KRA. Wait for KRA to confirm it before adding a buyer PIN.' }, 409);
+      }
+
+      await supabase.from('fiscal_invoices').update({ buyer_pin: pin }).eq('id', current.id);
+      current.buyer_pin = pin;
+    }
+
+    // Already being submitted by the sweep or another till
+    const claimed = await claimInvoice(supabase, current);
+    if (!claimed) {
+      const { data: existing } = await supabase.from('fiscal_invoices').select('*').eq('id', current.id).single();
+      return jsonResponse(existing);
+    }
+
+    return jsonResponse(await submitInvoice(supabase, claimed));
+  } catch (error) {
+    console.error('Error submitting fiscal invoice:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
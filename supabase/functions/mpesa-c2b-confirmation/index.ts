@@ -69,46 +69,22 @@ Deno.serve(async (req: Request) => {
         customer_name: customerName,
       });
 
+    // The insert trigger matches the payment to its sale; the result is
+    // only logged here, unmatched payments are handled on the reconciliation page
     if (insertError) {
       console.error('Error saving C2B transaction:', insertError);
-    }
-
-    const { data: pendingSale, error: saleError } = await supabase
-      .from('sales')
-      .select('*')
-      .eq('receipt_number', BillRefNumber)
-      .eq('payment_method', 'M-Pesa')
-      .eq('payment_status', 'pending')
-      .maybeSingle();
-
-    if (pendingSale && !saleError) {
-      console.log(`Found pending sale: ${pendingSale.id} for receipt ${BillRefNumber}`);
-
-      if (Math.abs(parseFloat(pendingSale.total_amount) - TransAmount) <= 1) {
-        const { error: updateError } = await supabase
-          .from('sales')
-          .update({
-            payment_status: 'completed',
-            mpesa_receipt_number: TransID,
-            customer_phone: MSISDN,
-            customer_name: customerName,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', pendingSale.id);
-
-        if (updateError) {
-          console.error('Error updating sale:', updateError);
-        } else {
-          console.log(`Sale ${pendingSale.id} auto-completed via C2B payment`);
-        }
-      } else {
-        console.warn(
-          `Amount mismatch: Expected ${pendingSale.total_amount}, Received ${TransAmount}`
-        );
-      }
     } else {
+      const { data: saved } = await supabase
+        .from('mpesa_transactions')
+        .select('reconciliation_status, sale_id')
+        .eq('mpesa_receipt_number', TransID)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
       console.log(
-        `No pending sale found for receipt ${BillRefNumber}. Payment recorded but not linked to sale.`
+        `C2B payment ${TransID} for ${BillRefNumber}: ${saved?.reconciliation_status || 'unknown'}` +
+        (saved?.sale_id ? ` (sale ${saved.sale_id})` : '')
       );
     }
 
@@ -75,48 +75,40 @@ Deno.serve(async (req: Request) => {
 
     const transactionStatus = ResultCode === 0 ? 'completed' : 'failed';
 
-    const { error: insertError } = await supabase
-      .from('mpesa_transactions')
-      .insert({
-        merchant_request_id: MerchantRequestID,
-        checkout_request_id: CheckoutRequestID,
-        result_code: ResultCode,
-        result_description: ResultDesc,
+    // Completes the pending row recorded by mpesa-stkpush. Safaricom retries
+    // callbacks, and the status query may have resolved the push already, so
+    // only a pending push is updated and a missing one is added
+    const result = {
+      merchant_request_id: MerchantRequestID,
+      checkout_request_id: CheckoutRequestID,
+      result_code: ResultCode,
+      result_description: ResultDesc,
+      transaction_status: transactionStatus,
+      ...(ResultCode === 0 ? {
         amount: amount,
         mpesa_receipt_number: mpesaReceiptNumber,
         phone_number: phoneNumber,
         transaction_date: transactionDate,
-        transaction_status: transactionStatus,
-      });
-
-    if (insertError) {
-      console.error('Error saving M-Pesa transaction:', insertError);
-    }
+      } : {}),
+      updated_at: new Date().toISOString(),
+    };
 
-    if (ResultCode === 0) {
-      const { data: pendingSale, error: saleError } = await supabase
-        .from('sales')
-        .select('*')
-        .eq('checkout_request_id', CheckoutRequestID)
-        .eq('payment_status', 'pending')
-        .maybeSingle();
+    const { data: updated, error: updateError } = await supabase
+      .from('mpesa_transactions')
+      .update(result)
+      .eq('checkout_request_id', CheckoutRequestID)
+      .or('transaction_status.eq.pending,mpesa_receipt_number.is.null')
+      .select('id');
 
-      if (pendingSale && !saleError) {
-        const { error: updateError } = await supabase
-          .from('sales')
-          .update({
-            payment_status: 'completed',
-            mpesa_receipt_number: mpesaReceiptNumber,
-            customer_phone: phoneNumber,
-            updated_at: new Date().toISOString(),
-          })
-          .eq('id', pendingSale.id);
+    if (updateError) {
+      console.error('Error updating M-Pesa transaction:', updateError);
+    } else if (!updated || updated.length === 0) {
+      const { error: insertError } = await supabase
+        .from('mpesa_transactions')
+        .insert(result);
 
-        if (updateError) {
-          console.error('Error updating sale:', updateError);
-        } else {
-          console.log(`Sale ${pendingSale.id} completed successfully`);
-        }
+      if (insertError) {
+        console.error('Error saving M-Pesa transaction:', insertError);
       }
     }
 
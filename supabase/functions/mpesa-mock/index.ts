@@ -0,0 +1,256 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+
+// Stand-in for the Daraja OAuth, STK push, STK push query, B2C and transaction
+// reversal endpoints, for testing M-Pesa payments and refunds without the
+// Safaricom sandbox. Serve it locally and point the M-Pesa functions at it:
+//
+//   supabase functions serve mpesa-mock --no-verify-jwt
+//   MPESA_API_URL=http://localhost:54321/functions/v1/mpesa-mock
+//
+// The last digit of the amount picks what the customer does:
+//   1 - cancels the prompt (result 1032)
+//   2 - never answers; the query says it is processing, then 1037 after a minute
+//   3 - pays, but the callback is lost, so only the status query finds out
+//   anything else - pays, and the callback follows a few seconds later
+//
+// Refunds (B2C and reversals) succeed, with the result posted a few seconds
+// later, unless the amount ends in 1, which fails for lack of funds.
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+const CALLBACK_DELAY_MS = 5000;
+const NO_ANSWER_TIMEOUT_MS = 60000;
+
+type Scenario = 'cancelled' | 'no_answer' | 'lost_callback' | 'paid';
+
+interface MockPush {
+  checkoutRequestId: string;
+  merchantRequestId: string;
+  amount: number;
+  phoneNumber: string;
+  callbackUrl: string;
+  scenario: Scenario;
+  receiptNumber: string;
+  createdAt: number;
+}
+
+// Pushes sent since the function started, by CheckoutRequestID
+const pushes = new Map<string, MockPush>();
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const randomCode = (length: number) =>
+  Array.from(crypto.getRandomValues(new Uint8Array(length)), byte => 'ABCDEFGHJKLMNPQRSTUVWXYZ0123456789'[byte % 34]).join('');
+
+const getScenario = (amount: number): Scenario => {
+  switch (Math.round(amount) % 10) {
+    case 1: return 'cancelled';
+    case 2: return 'no_answer';
+    case 3: return 'lost_callback';
+    default: return 'paid';
+  }
+};
+
+// Where the push stands, as Daraja would report it
+const getResult = (push: MockPush): { code: number; description: string } | null => {
+  const age = Date.now() - push.createdAt;
+  switch (push.scenario) {
+    case 'cancelled':
+      return age < CALLBACK_DELAY_MS ? null : { code: 1032, description: 'Request cancelled by user' };
+    case 'no_answer':
+      return age < NO_ANSWER_TIMEOUT_MS ? null : { code: 1037, description: 'DS timeout user cannot be reached' };
+    default:
+      return age < CALLBACK_DELAY_MS
+        ? null
+        : { code: 0, description: 'The service request is processed successfully.' };
+  }
+};
+
+const sendCallback = async (push: MockPush) => {
+  await new Promise(resolve => setTimeout(resolve, CALLBACK_DELAY_MS));
+  const result = getResult(push);
+  if (!result) return;
+
+  const timestamp = new Date(Date.now() + 3 * 60 * 60 * 1000).toISOString().replace(/[^0-9]/g, '').slice(0, 14);
+  const body = {
+    Body: {
+      stkCallback: {
+        MerchantRequestID: push.merchantRequestId,
+        CheckoutRequestID: push.checkoutRequestId,
+        ResultCode: result.code,
+        ResultDesc: result.description,
+        ...(result.code === 0 ? {
+          CallbackMetadata: {
+            Item: [
+              { Name: 'Amount', Value: push.amount },
+              { Name: 'MpesaReceiptNumber', Value: push.receiptNumber },
+              { Name: 'TransactionDate', Value: Number(timestamp) },
+              { Name: 'PhoneNumber', Value: Number(push.phoneNumber) },
+            ],
+          },
+        } : {}),
+      },
+    },
+  };
+
+  try {
+    await fetch(push.callbackUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    console.error(`Mock callback for ${push.checkoutRequestId} failed:`, error);
+  }
+};
+
+const sendRefundResult = async (
+  resultUrl: string,
+  amount: number,
+  originatorConversationId: string,
+  conversationId: string,
+  originalTransactionId?: string
+) => {
+  await new Promise(resolve => setTimeout(resolve, CALLBACK_DELAY_MS));
+
+  const failed = Math.round(amount) % 10 === 1;
+  const transactionId = randomCode(10);
+  const body = {
+    Result: {
+      ResultType: 0,
+      ResultCode: failed ? 2001 : 0,
+      ResultDesc: failed ? 'The balance is insufficient for the transaction.' : 'The service request is processed successfully.',
+      OriginatorConversationID: originatorConversationId,
+      ConversationID: conversationId,
+      TransactionID: transactionId,
+      ...(failed ? {} : {
+        ResultParameters: {
+          ResultParameter: [
+            { Key: 'TransactionAmount', Value: amount },
+            { Key: 'TransactionReceipt', Value: transactionId },
+            // Reversal results name the payment they reversed
+            ...(originalTransactionId ? [{ Key: 'OriginalTransactionID', Value: originalTransactionId }] : []),
+          ],
+        },
+      }),
+    },
+  };
+
+  try {
+    await fetch(resultUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    console.error(`Mock refund result for ${conversationId} failed:`, error);
+  }
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  const url = new URL(req.url);
+
+  if (url.pathname.endsWith('/oauth/v1/generate')) {
+    return json({ access_token: `mock-${randomCode(24)}`, expires_in: '3599' });
+  }
+
+  if (req.method !== 'POST') {
+    return json({ errorCode: '404.001.01', errorMessage: 'Resource not found' }, 404);
+  }
+
+  const request = await req.json();
+
+  if (url.pathname.endsWith('/mpesa/stkpush/v1/processrequest')) {
+    const amount = Number(request.Amount);
+    if (!amount || amount < 1 || !request.PhoneNumber || !request.CallBackURL) {
+      return json({ errorCode: '400.002.02', errorMessage: 'Bad Request - Invalid Amount, PhoneNumber or CallBackURL' }, 400);
+    }
+
+    const push: MockPush = {
+      checkoutRequestId: `ws_CO_${Date.now()}${randomCode(6)}`,
+      merchantRequestId: `${randomCode(5)}-${randomCode(8)}-1`,
+      amount,
+      phoneNumber: String(request.PhoneNumber),
+      callbackUrl: request.CallBackURL,
+      scenario: getScenario(amount),
+      receiptNumber: randomCode(10),
+      createdAt: Date.now(),
+    };
+    pushes.set(push.checkoutRequestId, push);
+    console.log(`Mock STK push ${push.checkoutRequestId}: ${push.amount} from ${push.phoneNumber} (${push.scenario})`);
+
+    if (push.scenario !== 'no_answer' && push.scenario !== 'lost_callback') {
+      EdgeRuntime.waitUntil(sendCallback(push));
+    }
+
+    return json({
+      MerchantRequestID: push.merchantRequestId,
+      CheckoutRequestID: push.checkoutRequestId,
+      ResponseCode: '0',
+      ResponseDescription: 'Success. Request accepted for processing',
+      CustomerMessage: 'Success. Request accepted for processing',
+    });
+  }
+
+  if (url.pathname.endsWith('/mpesa/stkpushquery/v1/query')) {
+    const push = pushes.get(request.CheckoutRequestID);
+    if (!push) {
+      return json({ errorCode: '400.002.02', errorMessage: 'Bad Request - Invalid CheckoutRequestID' }, 400);
+    }
+
+    const result = getResult(push);
+    if (!result) {
+      return json({ errorCode: '500.001.1001', errorMessage: 'The transaction is being processed' }, 500);
+    }
+
+    return json({
+      ResponseCode: '0',
+      ResponseDescription: 'The service request has been accepted successsfully',
+      MerchantRequestID: push.merchantRequestId,
+      CheckoutRequestID: push.checkoutRequestId,
+      ResultCode: String(result.code),
+      ResultDesc: result.description,
+    });
+  }
+
+  if (url.pathname.endsWith('/mpesa/b2c/v3/paymentrequest') || url.pathname.endsWith('/mpesa/reversal/v1/request')) {
+    const amount = Number(request.Amount);
+    const reversal = url.pathname.endsWith('/mpesa/reversal/v1/request');
+    if (!amount || amount < 1 || !request.ResultURL || (reversal ? !request.TransactionID : !request.PartyB)) {
+      return json({ errorCode: '400.002.02', errorMessage: 'Bad Request - Invalid Amount, ResultURL, TransactionID or PartyB' }, 400);
+    }
+
+    const originatorConversationId = request.OriginatorConversationID || `${randomCode(5)}-${randomCode(8)}-1`;
+    const conversationId = `AG_${new Date().toISOString().replace(/[^0-9]/g, '').slice(0, 8)}_${randomCode(20)}`;
+    console.log(`Mock ${reversal ? 'reversal' : 'B2C payment'} ${conversationId}: ${amount} to ${reversal ? request.TransactionID : request.PartyB}`);
+
+    EdgeRuntime.waitUntil(sendRefundResult(
+      request.ResultURL,
+      amount,
+      originatorConversationId,
+      conversationId,
+      reversal ? request.TransactionID : undefined
+    ));
+
+    return json({
+      ConversationID: conversationId,
+      OriginatorConversationID: originatorConversationId,
+      ResponseCode: '0',
+      ResponseDescription: 'Accept the service request successfully.',
+    });
+  }
+
+  return json({ errorCode: '404.001.01', errorMessage: 'Resource not found' }, 404);
+});
@@ -0,0 +1,142 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+// Result of a B2C payment or transaction reversal, posted by Daraja to the
+// ResultURL given in the request
+interface RefundResultBody {
+  Result: {
+    ResultType?: number;
+    ResultCode: number | string;
+    ResultDesc: string;
+    OriginatorConversationID: string;
+    ConversationID: string;
+    TransactionID?: string;
+    ResultParameters?: {
+      ResultParameter: { Key: string; Value: string | number }[] | { Key: string; Value: string | number };
+    };
+  };
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Daraja conversation IDs are alphanumeric with dashes; anything else is not
+// from Safaricom and must not reach a query
+const CONVERSATION_ID_PATTERN = /^[A-Za-z0-9-]{1,64}$/;
+
+const getParameter = (result: RefundResultBody['Result'], key: string) => {
+  const parameters = result.ResultParameters?.ResultParameter;
+  const list = Array.isArray(parameters) ? parameters : parameters ? [parameters] : [];
+  return list.find(parameter => parameter.Key === key)?.Value;
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    // mpesa-refund puts the token in the ResultURL it gives Safaricom, so a
+    // request without it did not come from a refund we sent
+    const resultToken = Deno.env.get('MPESA_REFUND_RESULT_TOKEN');
+    const requestUrl = new URL(req.url);
+    if (!resultToken || requestUrl.searchParams.get('token') !== resultToken) {
+      console.warn('M-Pesa refund result rejected: invalid token');
+      return jsonResponse({ ResultCode: 1, ResultDesc: 'Unauthorized' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The QueueTimeOutURL is the ResultURL with timeout=1 added
+    const timedOut = requestUrl.searchParams.has('timeout');
+    const { Result: result }: RefundResultBody = await req.json();
+
+    console.log('M-Pesa refund result received:', JSON.stringify(result));
+
+    const conversationIds = [
+      ['conversation_id', result?.ConversationID],
+      ['originator_conversation_id', result?.OriginatorConversationID],
+    ].filter((entry): entry is [string, string] =>
+      typeof entry[1] === 'string' && CONVERSATION_ID_PATTERN.test(entry[1])
+    );
+
+    if (conversationIds.length === 0) {
+      return jsonResponse({ ResultCode: 1, ResultDesc: 'Invalid conversation ID' }, 400);
+    }
+
+    const resultCode = timedOut ? null : Number(result.ResultCode);
+    const completed = resultCode === 0;
+    const receiptNumber = getParameter(result, 'TransactionReceipt') || result.TransactionID;
+
+    const settlement = {
+      status: completed ? 'completed' : 'failed',
+      result_code: resultCode,
+      result_description: timedOut ? 'Request timed out in the M-Pesa queue' : result.ResultDesc,
+      mpesa_receipt_number: completed && receiptNumber ? String(receiptNumber) : null,
+      completed_at: completed ? new Date().toISOString() : null,
+    };
+
+    let updated: { id: string }[] = [];
+    for (const [column, value] of conversationIds) {
+      const { data, error } = await supabase
+        .from('mpesa_refunds')
+        .update(settlement)
+        .eq(column, value)
+        .eq('status', 'pending')
+        .select('id');
+
+      if (error) throw error;
+      updated = data || [];
+      if (updated.length > 0) break;
+    }
+
+    // A reversal whose request got no answer has no conversation ID saved and
+    // is never sent again, so its result is matched on the payment it reverses
+    const originalTransactionId = getParameter(result, 'OriginalTransactionID');
+    if (updated.length === 0 && typeof originalTransactionId === 'string' && CONVERSATION_ID_PATTERN.test(originalTransactionId)) {
+      const { data: payment, error: paymentError } = await supabase
+        .from('mpesa_transactions')
+        .select('id')
+        .eq('mpesa_receipt_number', originalTransactionId)
+        .maybeSingle();
+
+      if (paymentError) throw paymentError;
+
+      if (payment) {
+        const { data, error } = await supabase
+          .from('mpesa_refunds')
+          .update({ ...settlement, conversation_id: result.ConversationID })
+          .eq('mpesa_transaction_id', payment.id)
+          .eq('refund_type', 'reversal')
+          .eq('status', 'pending')
+          .is('conversation_id', null)
+          .select('id');
+
+        if (error) throw error;
+        updated = data || [];
+      }
+    }
+
+    if (updated.length === 0) {
+      console.warn(`No pending refund for conversation ${result.ConversationID}`);
+    } else {
+      console.log(`Refund ${updated[0].id} ${completed ? 'completed' : 'failed'}: ${result.ResultDesc}`);
+    }
+
+    return jsonResponse({ ResultCode: 0, ResultDesc: 'Accepted' });
+  } catch (error) {
+    console.error('Error processing M-Pesa refund result:', error);
+    return jsonResponse({ ResultCode: 1, ResultDesc: 'Failed to process result' }, 500);
+  }
+});
@@ -0,0 +1,326 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+const REQUEST_TIMEOUT_MS = 10000;
+// A B2C refund M-Pesa never answered is only sent again once its result has
+// had time to arrive, and then with the same request ID
+const UNCONFIRMED_RESEND_AFTER_MS = 10 * 60 * 1000;
+
+interface RefundRow {
+  id: string;
+  sale_id: string;
+  mpesa_transaction_id: string;
+  refund_type: 'reversal' | 'b2c';
+  amount: number;
+  phone_number: string | null;
+  reason: string;
+  status: 'pending' | 'completed' | 'failed';
+  conversation_id: string | null;
+  originator_conversation_id: string | null;
+  attempts: number;
+  updated_at: string;
+}
+
+// Safaricom answered and turned the request down, so nothing was paid out
+class RefundRejectedError extends Error {}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const getDarajaConfig = () => {
+  const consumerKey = Deno.env.get('MPESA_CONSUMER_KEY');
+  const consumerSecret = Deno.env.get('MPESA_CONSUMER_SECRET');
+  const shortcode = Deno.env.get('MPESA_SHORTCODE');
+  const initiatorName = Deno.env.get('MPESA_INITIATOR_NAME');
+  // The initiator password encrypted with Safaricom's public certificate
+  const securityCredential = Deno.env.get('MPESA_SECURITY_CREDENTIAL');
+  const environment = Deno.env.get('MPESA_ENVIRONMENT') || 'sandbox';
+  // Checked by mpesa-refund-result so only Safaricom's answers are accepted
+  const resultToken = Deno.env.get('MPESA_REFUND_RESULT_TOKEN');
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+
+  if (!consumerKey || !consumerSecret || !shortcode || !initiatorName || !securityCredential) {
+    throw new Error('M-Pesa refund credentials not configured. Please set MPESA_INITIATOR_NAME and MPESA_SECURITY_CREDENTIAL.');
+  }
+
+  if (!resultToken) {
+    throw new Error('M-Pesa refund result token not configured. Please set MPESA_REFUND_RESULT_TOKEN.');
+  }
+
+  const resultUrl = new URL(Deno.env.get('MPESA_REFUND_RESULT_URL') || `${supabaseUrl}/functions/v1/mpesa-refund-result`);
+  resultUrl.searchParams.set('token', resultToken);
+  const queueTimeoutUrl = new URL(resultUrl);
+  queueTimeoutUrl.searchParams.set('timeout', '1');
+
+  return {
+    consumerKey,
+    consumerSecret,
+    shortcode,
+    // B2C pays out of a separate shortcode when the paybill is not enabled for it
+    b2cShortcode: Deno.env.get('MPESA_B2C_SHORTCODE') || shortcode,
+    initiatorName,
+    securityCredential,
+    resultUrl: resultUrl.toString(),
+    queueTimeoutUrl: queueTimeoutUrl.toString(),
+    // Points at mpesa-mock for local testing
+    apiUrl: Deno.env.get('MPESA_API_URL') || (environment === 'production'
+      ? 'https://api.safaricom.co.ke'
+      : 'https://sandbox.safaricom.co.ke'),
+  };
+};
+
+const getAccessToken = async (config: ReturnType<typeof getDarajaConfig>) => {
+  const response = await fetch(`${config.apiUrl}/oauth/v1/generate?grant_type=client_credentials`, {
+    headers: { 'Authorization': `Basic ${btoa(`${config.consumerKey}:${config.consumerSecret}`)}` },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new RefundRejectedError('Failed to get M-Pesa access token');
+  }
+
+  const data = await response.json();
+  return data.access_token as string;
+};
+
+// Daraja only accepts the request here; the outcome comes to the result URL.
+// Throws RefundRejectedError when Safaricom turned the request down; any other
+// error leaves it unknown whether the request was taken
+const sendToDaraja = async (
+  config: ReturnType<typeof getDarajaConfig>,
+  refund: RefundRow,
+  originatorConversationId: string | null,
+  mpesaReceiptNumber: string | null,
+  saleReceiptNumber: string
+): Promise<{ conversationId: string; originatorConversationId: string }> => {
+  const accessToken = await getAccessToken(config).catch(error => {
+    // Nothing has been sent yet
+    throw error instanceof RefundRejectedError ? error : new RefundRejectedError(String(error?.message || error));
+  });
+  // Remarks must be 2-100 characters
+  const remarks = refund.reason.slice(0, 100).padEnd(2, '.');
+
+  const [url, payload] = refund.refund_type === 'reversal'
+    ? [`${config.apiUrl}/mpesa/reversal/v1/request`, {
+      Initiator: config.initiatorName,
+      SecurityCredential: config.securityCredential,
+      CommandID: 'TransactionReversal',
+      TransactionID: mpesaReceiptNumber,
+      Amount: Math.round(refund.amount),
+      ReceiverParty: config.shortcode,
+      RecieverIdentifierType: '11',
+      ResultURL: config.resultUrl,
+      QueueTimeOutURL: config.queueTimeoutUrl,
+      Remarks: remarks,
+      Occasion: saleReceiptNumber,
+    }]
+    : [`${config.apiUrl}/mpesa/b2c/v3/paymentrequest`, {
+      OriginatorConversationID: originatorConversationId,
+      InitiatorName: config.initiatorName,
+      SecurityCredential: config.securityCredential,
+      CommandID: 'BusinessPayment',
+      Amount: Math.round(refund.amount),
+      PartyA: config.b2cShortcode,
+      PartyB: refund.phone_number,
+      Remarks: remarks,
+      QueueTimeOutURL: config.queueTimeoutUrl,
+      ResultURL: config.resultUrl,
+      Occasion: saleReceiptNumber,
+    }];
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  // A gateway error or an unreadable body does not say the request was refused
+  if (response.status >= 500) {
+    throw new Error(`M-Pesa returned HTTP ${response.status}`);
+  }
+
+  const data = await response.json();
+
+  if (!response.ok || data.ResponseCode !== '0') {
+    throw new RefundRejectedError(data.errorMessage || data.ResponseDescription || 'M-Pesa did not accept the refund');
+  }
+
+  return {
+    conversationId: data.ConversationID,
+    originatorConversationId: data.OriginatorConversationID,
+  };
+};
+
+const loadRefund = async (supabase: SupabaseClient, refundId: string) => {
+  const { data, error } = await supabase
+    .from('mpesa_refunds')
+    .select('*')
+    .eq('id', refundId)
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser(authHeader.replace('Bearer ', ''));
+    if (authError || !user) {
+      return jsonResponse({ error: 'Invalid authorization' }, 401);
+    }
+
+    const { data: profile } = await supabase
+      .from('user_profiles')
+      .select('role')
+      .eq('user_id', user.id)
+      .maybeSingle();
+
+    if (!profile || !['super_admin', 'admin'].includes(profile.role)) {
+      return jsonResponse({ error: 'Insufficient permissions. Only admins can refund to M-Pesa.' }, 403);
+    }
+
+    const { refundId } = await req.json();
+    if (!refundId) {
+      return jsonResponse({ error: 'Missing refundId' }, 400);
+    }
+
+    const refund: RefundRow | null = await loadRefund(supabase, refundId).catch(() => null);
+    if (!refund) {
+      return jsonResponse({ error: 'Refund not found' }, 404);
+    }
+
+    // A new refund or a rejected one is sent. One M-Pesa took, or one whose
+    // result is still due, must not be sent twice. A reversal carries no
+    // request ID of ours for Safaricom to spot a duplicate by, so an
+    // unconfirmed one is never sent again and waits for its result
+    const unconfirmed = refund.status === 'pending' && refund.attempts > 0 && !refund.conversation_id;
+    if (
+      refund.status === 'completed'
+      || (refund.status === 'pending' && refund.attempts > 0 && !unconfirmed)
+      || (unconfirmed && refund.refund_type === 'reversal')
+      || (unconfirmed && Date.now() - new Date(refund.updated_at).getTime() < UNCONFIRMED_RESEND_AFTER_MS)
+    ) {
+      return jsonResponse(refund);
+    }
+
+    const config = getDarajaConfig();
+
+    const { data: payment, error: paymentError } = await supabase
+      .from('mpesa_transactions')
+      .select('mpesa_receipt_number')
+      .eq('id', refund.mpesa_transaction_id)
+      .single();
+
+    if (paymentError) throw paymentError;
+
+    const { data: sale, error: saleError } = await supabase
+      .from('sales')
+      .select('receipt_number')
+      .eq('id', refund.sale_id)
+      .single();
+
+    if (saleError) throw saleError;
+
+    // B2C takes our request ID, so it is saved before the result can arrive;
+    // Safaricom assigns the reversal's. Resending an unconfirmed B2C reuses
+    // its ID, so Safaricom refuses it as a duplicate if the first got through
+    const originatorConversationId = refund.refund_type === 'b2c'
+      ? (unconfirmed && refund.originator_conversation_id) || crypto.randomUUID()
+      : null;
+
+    // Claim the refund so a second click cannot send it again
+    const { data: claimed, error: claimError } = await supabase
+      .from('mpesa_refunds')
+      .update({
+        status: 'pending',
+        attempts: refund.attempts + 1,
+        conversation_id: null,
+        originator_conversation_id: originatorConversationId,
+        result_code: null,
+        result_description: null,
+      })
+      .eq('id', refund.id)
+      .eq('attempts', refund.attempts)
+      .select('id');
+
+    if (claimError) throw claimError;
+    if (!claimed || claimed.length === 0) {
+      return jsonResponse(await loadRefund(supabase, refund.id));
+    }
+
+    let accepted: Awaited<ReturnType<typeof sendToDaraja>>;
+    try {
+      accepted = await sendToDaraja(
+        config,
+        refund,
+        originatorConversationId,
+        payment.mpesa_receipt_number,
+        sale.receipt_number
+      );
+    } catch (error) {
+      // A duplicate on a resend means the first request got through
+      const rejected = error instanceof RefundRejectedError && !(unconfirmed && /duplicate/i.test(error.message));
+      console.error(`M-Pesa refund ${refund.id} ${rejected ? 'was rejected' : 'got no answer'}:`, error);
+
+      // Without an answer the refund may still be paid, so it stays pending
+      // until its result arrives or it is safe to send again
+      const message = error instanceof Error ? error.message : String(error);
+      const { error: updateError } = await supabase
+        .from('mpesa_refunds')
+        .update(rejected
+          ? { status: 'failed', result_description: message }
+          : { result_description: `No answer from M-Pesa (${message}). Check again in a few minutes.` })
+        .eq('id', refund.id)
+        .eq('status', 'pending');
+
+      if (updateError) throw updateError;
+      return jsonResponse(await loadRefund(supabase, refund.id));
+    }
+
+    // The result callback may already have settled it; only add the IDs
+    const { error: acceptedError } = await supabase
+      .from('mpesa_refunds')
+      .update({
+        conversation_id: accepted.conversationId,
+        originator_conversation_id: accepted.originatorConversationId,
+      })
+      .eq('id', refund.id);
+
+    if (acceptedError) throw acceptedError;
+
+    return jsonResponse(await loadRefund(supabase, refund.id));
+  } catch (error) {
+    console.error('M-Pesa refund error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
@@ -1,4 +1,5 @@
 import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import { createClient } from 'jsr:@supabase/supabase-js@2';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -41,6 +42,10 @@ Deno.serve(async (req: Request) => {
     const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
     const MPESA_CALLBACK_URL = Deno.env.get('MPESA_CALLBACK_URL') || `${supabaseUrl}/functions/v1/mpesa-callback`;
     const MPESA_ENVIRONMENT = Deno.env.get('MPESA_ENVIRONMENT') || 'sandbox';
+    // Points at mpesa-mock for local testing
+    const MPESA_API_URL = Deno.env.get('MPESA_API_URL') || (MPESA_ENVIRONMENT === 'production'
+      ? 'https://api.safaricom.co.ke'
+      : 'https://sandbox.safaricom.co.ke');
 
     if (!MPESA_CONSUMER_KEY || !MPESA_CONSUMER_SECRET || !MPESA_SHORTCODE || !MPESA_PASSKEY) {
       return new Response(
@@ -52,9 +57,7 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const authUrl = MPESA_ENVIRONMENT === 'production'
-      ? 'https://api.safaricom.co.ke/oauth/v1/generate?grant_type=client_credentials'
-      : 'https://sandbox.safaricom.co.ke/oauth/v1/generate?grant_type=client_credentials';
+    const authUrl = `${MPESA_API_URL}/oauth/v1/generate?grant_type=client_credentials`;
 
     const authString = btoa(`${MPESA_CONSUMER_KEY}:${MPESA_CONSUMER_SECRET}`);
     const authResponse = await fetch(authUrl, {
@@ -81,9 +84,7 @@ Deno.serve(async (req: Request) => {
       formattedPhone = '254' + formattedPhone;
     }
 
-    const stkPushUrl = MPESA_ENVIRONMENT === 'production'
-      ? 'https://api.safaricom.co.ke/mpesa/stkpush/v1/processrequest'
-      : 'https://sandbox.safaricom.co.ke/mpesa/stkpush/v1/processrequest';
+    const stkPushUrl = `${MPESA_API_URL}/mpesa/stkpush/v1/processrequest`;
 
     const stkPushPayload = {
       BusinessShortCode: MPESA_SHORTCODE,
@@ -123,6 +124,24 @@ Deno.serve(async (req: Request) => {
       );
     }
 
+    // Recorded as pending so the push can be followed up if the callback is lost
+    const supabase = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+    const { error: insertError } = await supabase
+      .from('mpesa_transactions')
+      .insert({
+        merchant_request_id: stkData.MerchantRequestID,
+        checkout_request_id: stkData.CheckoutRequestID,
+        phone_number: formattedPhone,
+        requested_amount: Math.round(amount),
+        account_reference: accountReference,
+        transaction_status: 'pending',
+        transaction_type: 'STK',
+      });
+
+    if (insertError) {
+      console.error('Error recording STK push:', insertError);
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
@@ -0,0 +1,272 @@
+import 'jsr:@supabase/functions-js/edge-runtime.d.ts';
+import { createClient, SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Client-Info, Apikey',
+};
+
+// Pushes younger than this are left to the callback; the customer may still
+// be entering their PIN
+const SWEEP_MIN_AGE_MS = 2 * 60 * 1000;
+// Safaricom keeps no answer for pushes older than this; they are failed
+const SWEEP_EXPIRY_MS = 24 * 60 * 60 * 1000;
+const SWEEP_BATCH_SIZE = 20;
+const QUERY_TIMEOUT_MS = 10000;
+
+// Daraja answers a query for a push still awaiting the customer with this code
+const STILL_PROCESSING_ERROR = '500.001.1001';
+
+interface PendingPush {
+  id: string;
+  checkout_request_id: string;
+  requested_amount: number | null;
+  created_at: string;
+  query_attempts: number;
+}
+
+interface QueryOutcome {
+  checkoutRequestId: string;
+  status: 'pending' | 'completed' | 'failed';
+  resultCode?: number;
+  resultDescription?: string;
+  receiptNumber?: string;
+  amount?: number;
+  phoneNumber?: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+const getDarajaConfig = () => {
+  const consumerKey = Deno.env.get('MPESA_CONSUMER_KEY');
+  const consumerSecret = Deno.env.get('MPESA_CONSUMER_SECRET');
+  const shortcode = Deno.env.get('MPESA_SHORTCODE');
+  const passkey = Deno.env.get('MPESA_PASSKEY');
+  const environment = Deno.env.get('MPESA_ENVIRONMENT') || 'sandbox';
+
+  if (!consumerKey || !consumerSecret || !shortcode || !passkey) {
+    throw new Error('M-Pesa credentials not configured. Please set up environment variables.');
+  }
+
+  return {
+    consumerKey,
+    consumerSecret,
+    shortcode,
+    passkey,
+    // Points at mpesa-mock for local testing
+    apiUrl: Deno.env.get('MPESA_API_URL') || (environment === 'production'
+      ? 'https://api.safaricom.co.ke'
+      : 'https://sandbox.safaricom.co.ke'),
+  };
+};
+
+const getAccessToken = async (config: ReturnType<typeof getDarajaConfig>) => {
+  const response = await fetch(`${config.apiUrl}/oauth/v1/generate?grant_type=client_credentials`, {
+    headers: { 'Authorization': `Basic ${btoa(`${config.consumerKey}:${config.consumerSecret}`)}` },
+    signal: AbortSignal.timeout(QUERY_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error('Failed to get M-Pesa access token');
+  }
+
+  const data = await response.json();
+  return data.access_token as string;
+};
+
+// Asks Daraja for the result of one push. The query reports the outcome but
+// not the M-Pesa code; that still arrives with the callback if it comes.
+const queryDaraja = async (
+  config: ReturnType<typeof getDarajaConfig>,
+  accessToken: string,
+  checkoutRequestId: string
+): Promise<{ status: QueryOutcome['status']; resultCode?: number; resultDescription?: string }> => {
+  const timestamp = new Date().toISOString().replace(/[^0-9]/g, '').slice(0, 14);
+  const response = await fetch(`${config.apiUrl}/mpesa/stkpushquery/v1/query`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      BusinessShortCode: config.shortcode,
+      Password: btoa(`${config.shortcode}${config.passkey}${timestamp}`),
+      Timestamp: timestamp,
+      CheckoutRequestID: checkoutRequestId,
+    }),
+    signal: AbortSignal.timeout(QUERY_TIMEOUT_MS),
+  });
+
+  const data = await response.json();
+
+  if (data.errorCode === STILL_PROCESSING_ERROR) {
+    return { status: 'pending', resultDescription: data.errorMessage };
+  }
+
+  if (!response.ok || data.ResponseCode !== '0') {
+    throw new Error(data.errorMessage || data.ResponseDescription || 'STK push query failed');
+  }
+
+  const resultCode = Number(data.ResultCode);
+  return {
+    status: resultCode === 0 ? 'completed' : 'failed',
+    resultCode,
+    resultDescription: data.ResultDesc,
+  };
+};
+
+const loadOutcome = async (supabase: SupabaseClient, push: PendingPush): Promise<QueryOutcome> => {
+  const { data: row, error } = await supabase
+    .from('mpesa_transactions')
+    .select('transaction_status, result_code, result_description, mpesa_receipt_number, amount, phone_number')
+    .eq('id', push.id)
+    .single();
+
+  if (error) throw error;
+
+  return {
+    checkoutRequestId: push.checkout_request_id,
+    status: row.transaction_status,
+    resultCode: row.result_code ?? undefined,
+    resultDescription: row.result_description || undefined,
+    receiptNumber: row.mpesa_receipt_number || undefined,
+    amount: row.amount != null ? Number(row.amount) : undefined,
+    phoneNumber: row.phone_number || undefined,
+  };
+};
+
+const queryPush = async (
+  supabase: SupabaseClient,
+  config: ReturnType<typeof getDarajaConfig>,
+  accessToken: string,
+  push: PendingPush
+): Promise<QueryOutcome> => {
+  let outcome: Awaited<ReturnType<typeof queryDaraja>>;
+  try {
+    outcome = await queryDaraja(config, accessToken, push.checkout_request_id);
+  } catch (error) {
+    console.error(`STK query failed for ${push.checkout_request_id}:`, error);
+    outcome = { status: 'pending', resultDescription: error instanceof Error ? error.message : String(error) };
+  }
+
+  const now = new Date();
+  if (outcome.status === 'pending' && now.getTime() - new Date(push.created_at).getTime() > SWEEP_EXPIRY_MS) {
+    outcome = { status: 'failed', resultDescription: 'Expired without confirmation from M-Pesa' };
+  }
+
+  // The callback may have landed while the query was in flight; it wins
+  const { error } = await supabase
+    .from('mpesa_transactions')
+    .update({
+      query_attempts: push.query_attempts + 1,
+      last_queried_at: now.toISOString(),
+      updated_at: now.toISOString(),
+      ...(outcome.status !== 'pending' ? {
+        transaction_status: outcome.status,
+        result_code: outcome.resultCode ?? null,
+        result_description: outcome.resultDescription,
+        ...(outcome.status === 'completed' ? { amount: push.requested_amount } : {}),
+      } : {}),
+    })
+    .eq('id', push.id)
+    .eq('transaction_status', 'pending');
+
+  if (error) throw error;
+
+  const saved = await loadOutcome(supabase, push);
+  // Why it is still pending, e.g. the customer has not answered yet
+  return saved.status === 'pending' ? { ...saved, resultDescription: outcome.resultDescription } : saved;
+};
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    if (req.method !== 'POST') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    // The scheduled sweeper calls with the service role key; tills with a session
+    const token = authHeader.replace('Bearer ', '');
+    if (token !== supabaseServiceKey) {
+      const { data: { user }, error: authError } = await supabase.auth.getUser(token);
+      if (authError || !user) {
+        return jsonResponse({ error: 'Invalid authorization' }, 401);
+      }
+    }
+
+    const { checkoutRequestId, action } = await req.json();
+    const config = getDarajaConfig();
+
+    if (action === 'sweep') {
+      const cutoff = new Date(Date.now() - SWEEP_MIN_AGE_MS).toISOString();
+      const { data: stale, error } = await supabase
+        .from('mpesa_transactions')
+        .select('id, checkout_request_id, requested_amount, created_at, query_attempts')
+        .eq('transaction_status', 'pending')
+        .not('checkout_request_id', 'is', null)
+        .lt('created_at', cutoff)
+        .order('last_queried_at', { ascending: true, nullsFirst: true })
+        .limit(SWEEP_BATCH_SIZE);
+
+      if (error) throw error;
+      if (!stale || stale.length === 0) {
+        return jsonResponse({ processed: 0, completed: 0, failed: 0 });
+      }
+
+      const accessToken = await getAccessToken(config);
+      const outcomes: QueryOutcome[] = [];
+      for (const push of stale) {
+        outcomes.push(await queryPush(supabase, config, accessToken, push));
+      }
+
+      return jsonResponse({
+        processed: outcomes.length,
+        completed: outcomes.filter(outcome => outcome.status === 'completed').length,
+        failed: outcomes.filter(outcome => outcome.status === 'failed').length,
+      });
+    }
+
+    if (!checkoutRequestId) {
+      return jsonResponse({ error: 'Missing checkoutRequestId' }, 400);
+    }
+
+    const { data: push, error } = await supabase
+      .from('mpesa_transactions')
+      .select('id, checkout_request_id, requested_amount, created_at, query_attempts, transaction_status')
+      .eq('checkout_request_id', checkoutRequestId)
+      .maybeSingle();
+
+    if (error) throw error;
+    if (!push) {
+      return jsonResponse({ error: 'STK push not found' }, 404);
+    }
+
+    // Already settled by the callback or an earlier query
+    if (push.transaction_status !== 'pending') {
+      return jsonResponse(await loadOutcome(supabase, push));
+    }
+
+    const accessToken = await getAccessToken(config);
+    return jsonResponse(await queryPush(supabase, config, accessToken, push));
+  } catch (error) {
+    console.error('M-Pesa STK query error:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Internal server error' }, 500);
+  }
+});
@@ -0,0 +1,179 @@
+/*
+  # Atomic Server-Side Checkout
+
+  1. Overview
+    - Replaces the client-orchestrated checkout (sale, items, stock, price history
+      as separate requests) with a single Postgres function called via RPC
+    - Everything runs in one transaction: a dropped connection can no longer leave
+      a sale without items or stock that was never decremented
+
+  2. New Functions
+    - `process_sale(...)` - Inserts the sale and its items, decrements stock,
+      records price history and returns the committed sale as JSON
+
+  3. Business Rules
+    - Product rows are locked (FOR UPDATE) before stock is checked
+    - The whole checkout is rejected if any line would drive
+      `products.current_stock` negative
+    - `total_amount` is computed from the line totals, not trusted from the client
+    - `p_sale_id` is generated by the client; calling again with the same id
+      returns the already committed sale instead of selling twice, so retries
+      after a lost response are safe
+
+  4. Security
+    - Runs as the calling user (SECURITY INVOKER) so existing RLS policies apply
+    - Fixed search_path
+*/
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_sale_id uuid,
+  p_receipt_number text,
+  p_customer_name text,
+  p_payment_method text,
+  p_sales_person_id uuid,
+  p_sales_person_name text,
+  p_items jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_item jsonb;
+  v_product products%ROWTYPE;
+  v_quantity integer;
+  v_total numeric(10,2) := 0;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without items';
+  END IF;
+
+  -- Idempotent retry: the sale was already committed on a previous attempt
+  IF EXISTS (SELECT 1 FROM sales WHERE id = p_sale_id) THEN
+    RETURN get_sale_json(p_sale_id);
+  END IF;
+
+  -- Lock every product in a stable order and validate stock before writing anything
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item->>'product_name';
+    END IF;
+
+    SELECT * INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % no longer exists', v_item->>'product_name';
+    END IF;
+
+    IF v_product.current_stock < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+        v_product.name, v_product.current_stock, v_quantity;
+    END IF;
+
+    v_total := v_total + (v_item->>'total_price')::numeric;
+  END LOOP;
+
+  INSERT INTO sales (
+    id,
+    receipt_number,
+    customer_name,
+    total_amount,
+    payment_method,
+    sales_person_id,
+    sales_person_name
+  ) VALUES (
+    p_sale_id,
+    p_receipt_number,
+    NULLIF(p_customer_name, ''),
+    v_total,
+    p_payment_method,
+    p_sales_person_id,
+    p_sales_person_name
+  );
+
+  INSERT INTO sale_items (
+    sale_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    total_price,
+    batch_number
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::numeric,
+    (value->>'total_price')::numeric,
+    value->>'batch_number'
+  FROM jsonb_array_elements(p_items);
+
+  UPDATE products p
+  SET current_stock = p.current_stock - i.quantity,
+      updated_at = now()
+  FROM (
+    SELECT (value->>'product_id')::uuid AS product_id,
+           SUM((value->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items)
+    GROUP BY 1
+  ) i
+  WHERE p.id = i.product_id;
+
+  INSERT INTO price_history (product_id, cost_price, selling_price, user_id, user_name)
+  SELECT
+    p.id,
+    p.cost_price,
+    (value->>'unit_price')::numeric,
+    p_sales_person_id,
+    p_sales_person_name
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid;
+
+  RETURN get_sale_json(p_sale_id);
+END;
+$$;
+
+-- Returns a sale with its items in the shape expected by the POS
+CREATE OR REPLACE FUNCTION public.get_sale_json(p_sale_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT jsonb_build_object(
+    'id', s.id,
+    'receipt_number', s.receipt_number,
+    'customer_name', s.customer_name,
+    'total_amount', s.total_amount,
+    'payment_method', s.payment_method,
+    'sales_person_id', s.sales_person_id,
+    'sales_person_name', s.sales_person_name,
+    'created_at', s.created_at,
+    'sale_items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', si.product_id,
+        'product_name', si.product_name,
+        'quantity', si.quantity,
+        'unit_price', si.unit_price,
+        'total_price', si.total_price,
+        'batch_number', si.batch_number
+      ))
+      FROM sale_items si
+      WHERE si.sale_id = s.id
+    ), '[]'::jsonb)
+  )
+  FROM sales s
+  WHERE s.id = p_sale_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(uuid, text, text, text, uuid, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sale_json(uuid) TO authenticated;
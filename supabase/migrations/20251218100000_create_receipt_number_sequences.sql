@@ -0,0 +1,265 @@
+/*
+  # Collision-Free Receipt Numbering
+
+  1. Overview
+    - Receipt numbers were built in the browser from the number of sales loaded
+      in client state, so two tills (or a stale page) could issue the same number
+    - Numbers are now allocated by the database from a per-branch counter inside
+      the checkout transaction
+
+  2. New Tables
+    - `receipt_sequences`
+      - `branch_code` (text, primary key) - Till/branch identifier (VITE_BRANCH_CODE)
+      - `prefix` (text, unique) - Printed before the number, e.g. WSB
+      - `reset_yearly` (boolean) - Restart numbering at 1 every January;
+        the year is then included in the number so it stays unique
+      - `padding` (integer) - Minimum number of digits
+      - `current_year` (integer) - Year of the last allocated number
+      - `last_value` (integer) - Last allocated number
+
+  3. New Functions
+    - `generate_receipt_number(p_branch_code)` - Allocates the next number for a
+      branch. The counter row is locked for the rest of the transaction, so a
+      rolled back checkout does not leave a gap
+
+  4. Changes
+    - `process_sale` now allocates the receipt number itself and takes a
+      branch code instead of a client-built receipt number
+    - Unique index on `sales.receipt_number` is ensured
+
+  5. Security
+    - All authenticated users can read sequences
+    - Only admins can change prefixes and reset rules
+    - `generate_receipt_number` is SECURITY DEFINER so cashiers can allocate
+      numbers without write access to the table
+*/
+
+CREATE TABLE IF NOT EXISTS receipt_sequences (
+  branch_code text PRIMARY KEY,
+  prefix text UNIQUE NOT NULL,
+  reset_yearly boolean NOT NULL DEFAULT false,
+  padding integer NOT NULL DEFAULT 6 CHECK (padding BETWEEN 1 AND 12),
+  current_year integer NOT NULL DEFAULT EXTRACT(YEAR FROM now())::integer,
+  last_value integer NOT NULL DEFAULT 0 CHECK (last_value >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Default branch keeps the existing WSB prefix. Six digits keeps new numbers
+-- distinct from the legacy four-digit WSB0001 style receipts.
+INSERT INTO receipt_sequences (branch_code, prefix)
+VALUES ('MAIN', 'WSB')
+ON CONFLICT (branch_code) DO NOTHING;
+
+CREATE UNIQUE INDEX IF NOT EXISTS sales_receipt_number_key ON sales(receipt_number);
+
+ALTER TABLE receipt_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "receipt_sequences_select"
+  ON public.receipt_sequences FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "receipt_sequences_insert"
+  ON public.receipt_sequences FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "receipt_sequences_update"
+  ON public.receipt_sequences FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION update_receipt_sequences_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_receipt_sequences_updated_at
+  BEFORE UPDATE ON receipt_sequences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_receipt_sequences_updated_at();
+
+-- Function to allocate the next receipt number for a branch
+CREATE OR REPLACE FUNCTION public.generate_receipt_number(p_branch_code text DEFAULT 'MAIN')
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_year integer := EXTRACT(YEAR FROM now())::integer;
+  v_seq receipt_sequences%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Missing authorization header';
+  END IF;
+
+  -- Unknown branches get their own sequence, prefixed with the branch code
+  INSERT INTO receipt_sequences (branch_code, prefix)
+  VALUES (p_branch_code, 'WSB-' || upper(p_branch_code))
+  ON CONFLICT (branch_code) DO NOTHING;
+
+  UPDATE receipt_sequences
+  SET last_value = CASE
+        WHEN reset_yearly AND current_year <> v_year THEN 1
+        ELSE last_value + 1
+      END,
+      current_year = v_year
+  WHERE branch_code = p_branch_code
+  RETURNING * INTO v_seq;
+
+  -- Format as PREFIX000123, or PREFIX-2026-000123 when numbering resets yearly
+  IF v_seq.reset_yearly THEN
+    RETURN v_seq.prefix || '-' || v_year::text || '-' || LPAD(v_seq.last_value::text, v_seq.padding, '0');
+  END IF;
+
+  RETURN v_seq.prefix || LPAD(v_seq.last_value::text, v_seq.padding, '0');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.generate_receipt_number(text) TO authenticated;
+
+-- Checkout now allocates the receipt number inside its own transaction
+DROP FUNCTION IF EXISTS public.process_sale(uuid, text, text, text, uuid, text, jsonb);
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_sale_id uuid,
+  p_branch_code text,
+  p_customer_name text,
+  p_payment_method text,
+  p_sales_person_id uuid,
+  p_sales_person_name text,
+  p_items jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_item jsonb;
+  v_product products%ROWTYPE;
+  v_quantity integer;
+  v_total numeric(10,2) := 0;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without items';
+  END IF;
+
+  -- Idempotent retry: the sale was already committed on a previous attempt
+  IF EXISTS (SELECT 1 FROM sales WHERE id = p_sale_id) THEN
+    RETURN get_sale_json(p_sale_id);
+  END IF;
+
+  -- Lock every product in a stable order and validate stock before writing anything
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item->>'product_name';
+    END IF;
+
+    SELECT * INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % no longer exists', v_item->>'product_name';
+    END IF;
+
+    IF v_product.current_stock < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+        v_product.name, v_product.current_stock, v_quantity;
+    END IF;
+
+    v_total := v_total + (v_item->>'total_price')::numeric;
+  END LOOP;
+
+  INSERT INTO sales (
+    id,
+    receipt_number,
+    customer_name,
+    total_amount,
+    payment_method,
+    sales_person_id,
+    sales_person_name
+  ) VALUES (
+    p_sale_id,
+    generate_receipt_number(COALESCE(NULLIF(p_branch_code, ''), 'MAIN')),
+    NULLIF(p_customer_name, ''),
+    v_total,
+    p_payment_method,
+    p_sales_person_id,
+    p_sales_person_name
+  );
+
+  INSERT INTO sale_items (
+    sale_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    total_price,
+    batch_number
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::numeric,
+    (value->>'total_price')::numeric,
+    value->>'batch_number'
+  FROM jsonb_array_elements(p_items);
+
+  UPDATE products p
+  SET current_stock = p.current_stock - i.quantity,
+      updated_at = now()
+  FROM (
+    SELECT (value->>'product_id')::uuid AS product_id,
+           SUM((value->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items)
+    GROUP BY 1
+  ) i
+  WHERE p.id = i.product_id;
+
+  INSERT INTO price_history (product_id, cost_price, selling_price, user_id, user_name)
+  SELECT
+    p.id,
+    p.cost_price,
+    (value->>'unit_price')::numeric,
+    p_sales_person_id,
+    p_sales_person_name
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid;
+
+  RETURN get_sale_json(p_sale_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(uuid, text, text, text, uuid, text, jsonb) TO authenticated;
@@ -0,0 +1,273 @@
+/*
+  # Split-Tender Payments
+
+  1. Overview
+    - A sale previously carried a single `payment_method`, but customers often pay
+      part M-Pesa and part cash
+    - Each sale now has one or more tender lines in `sale_payments`
+
+  2. New Tables
+    - `sale_payments`
+      - `id` (uuid, primary key)
+      - `sale_id` (uuid, references sales)
+      - `payment_method` (text) - cash, mpesa, card or insurance
+      - `amount` (numeric) - Amount applied to the sale
+      - `reference` (text, optional) - M-Pesa receipt, card slip, insurance ref
+      - `tendered_amount` (numeric, optional) - Cash handed over by the customer
+      - `change_amount` (numeric) - Cash change returned
+      - `created_at` (timestamptz)
+
+  3. Changes
+    - `sales.payment_method` accepts 'split' for sales with more than one method
+    - `process_sale` takes the tender lines and rejects the checkout unless they
+      add up to the sale total; single-method sales are recorded as one line
+    - `sales.mpesa_receipt_number` is filled from the first M-Pesa tender
+    - `get_sale_json` includes the tender lines
+    - Existing sales are back-filled with one tender line for their total
+
+  4. Security
+    - RLS enabled, same model as `sale_items` (read/insert for authenticated users)
+*/
+
+CREATE TABLE IF NOT EXISTS sale_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id uuid NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+  payment_method text NOT NULL CHECK (payment_method IN ('cash', 'mpesa', 'card', 'insurance')),
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  reference text,
+  tendered_amount numeric(10,2) CHECK (tendered_amount >= 0),
+  change_amount numeric(10,2) NOT NULL DEFAULT 0 CHECK (change_amount >= 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_payments_sale_id ON sale_payments(sale_id);
+CREATE INDEX IF NOT EXISTS idx_sale_payments_method ON sale_payments(payment_method);
+CREATE INDEX IF NOT EXISTS idx_sale_payments_reference ON sale_payments(reference);
+
+ALTER TABLE sale_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "sale_payments_select"
+  ON public.sale_payments FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "sale_payments_insert"
+  ON public.sale_payments FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+-- Allow 'split' as the summary payment method on sales
+ALTER TABLE sales DROP CONSTRAINT IF EXISTS sales_payment_method_check;
+ALTER TABLE sales ADD CONSTRAINT sales_payment_method_check
+  CHECK (payment_method IN ('cash', 'mpesa', 'card', 'insurance', 'split'));
+
+-- Back-fill one tender line per existing sale
+INSERT INTO sale_payments (sale_id, payment_method, amount, reference, created_at)
+SELECT s.id, s.payment_method, s.total_amount, s.mpesa_receipt_number, s.created_at
+FROM sales s
+WHERE s.total_amount > 0
+  AND s.payment_method <> 'split'
+  AND NOT EXISTS (SELECT 1 FROM sale_payments sp WHERE sp.sale_id = s.id);
+
+CREATE OR REPLACE FUNCTION public.get_sale_json(p_sale_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT jsonb_build_object(
+    'id', s.id,
+    'receipt_number', s.receipt_number,
+    'customer_name', s.customer_name,
+    'total_amount', s.total_amount,
+    'payment_method', s.payment_method,
+    'sales_person_id', s.sales_person_id,
+    'sales_person_name', s.sales_person_name,
+    'created_at', s.created_at,
+    'sale_items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', si.product_id,
+        'product_name', si.product_name,
+        'quantity', si.quantity,
+        'unit_price', si.unit_price,
+        'total_price', si.total_price,
+        'batch_number', si.batch_number
+      ))
+      FROM sale_items si
+      WHERE si.sale_id = s.id
+    ), '[]'::jsonb),
+    'sale_payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payment_method', sp.payment_method,
+        'amount', sp.amount,
+        'reference', sp.reference,
+        'tendered_amount', sp.tendered_amount,
+        'change_amount', sp.change_amount
+      ) ORDER BY sp.created_at)
+      FROM sale_payments sp
+      WHERE sp.sale_id = s.id
+    ), '[]'::jsonb)
+  )
+  FROM sales s
+  WHERE s.id = p_sale_id;
+$$;
+
+DROP FUNCTION IF EXISTS public.process_sale(uuid, text, text, text, uuid, text, jsonb);
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_sale_id uuid,
+  p_branch_code text,
+  p_customer_name text,
+  p_sales_person_id uuid,
+  p_sales_person_name text,
+  p_items jsonb,
+  p_payments jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_item jsonb;
+  v_product products%ROWTYPE;
+  v_quantity integer;
+  v_total numeric(10,2) := 0;
+  v_paid numeric(10,2) := 0;
+  v_methods text[];
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without items';
+  END IF;
+
+  IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without payment';
+  END IF;
+
+  -- Idempotent retry: the sale was already committed on a previous attempt
+  IF EXISTS (SELECT 1 FROM sales WHERE id = p_sale_id) THEN
+    RETURN get_sale_json(p_sale_id);
+  END IF;
+
+  -- Lock every product in a stable order and validate stock before writing anything
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item->>'product_name';
+    END IF;
+
+    SELECT * INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % no longer exists', v_item->>'product_name';
+    END IF;
+
+    IF v_product.current_stock < v_quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+        v_product.name, v_product.current_stock, v_quantity;
+    END IF;
+
+    v_total := v_total + (v_item->>'total_price')::numeric;
+  END LOOP;
+
+  SELECT COALESCE(SUM((value->>'amount')::numeric), 0),
+         array_agg(DISTINCT value->>'payment_method')
+  INTO v_paid, v_methods
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_paid <> v_total THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', v_paid, v_total;
+  END IF;
+
+  INSERT INTO sales (
+    id,
+    receipt_number,
+    customer_name,
+    total_amount,
+    payment_method,
+    mpesa_receipt_number,
+    sales_person_id,
+    sales_person_name
+  ) VALUES (
+    p_sale_id,
+    generate_receipt_number(COALESCE(NULLIF(p_branch_code, ''), 'MAIN')),
+    NULLIF(p_customer_name, ''),
+    v_total,
+    CASE WHEN array_length(v_methods, 1) > 1 THEN 'split' ELSE v_methods[1] END,
+    (
+      SELECT NULLIF(value->>'reference', '')
+      FROM jsonb_array_elements(p_payments)
+      WHERE value->>'payment_method' = 'mpesa'
+      LIMIT 1
+    ),
+    p_sales_person_id,
+    p_sales_person_name
+  );
+
+  INSERT INTO sale_items (
+    sale_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    total_price,
+    batch_number
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::numeric,
+    (value->>'total_price')::numeric,
+    value->>'batch_number'
+  FROM jsonb_array_elements(p_items);
+
+  INSERT INTO sale_payments (
+    sale_id,
+    payment_method,
+    amount,
+    reference,
+    tendered_amount,
+    change_amount
+  )
+  SELECT
+    p_sale_id,
+    value->>'payment_method',
+    (value->>'amount')::numeric,
+    NULLIF(value->>'reference', ''),
+    (value->>'tendered_amount')::numeric,
+    COALESCE((value->>'change_amount')::numeric, 0)
+  FROM jsonb_array_elements(p_payments);
+
+  UPDATE products p
+  SET current_stock = p.current_stock - i.quantity,
+      updated_at = now()
+  FROM (
+    SELECT (value->>'product_id')::uuid AS product_id,
+           SUM((value->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items)
+    GROUP BY 1
+  ) i
+  WHERE p.id = i.product_id;
+
+  INSERT INTO price_history (product_id, cost_price, selling_price, user_id, user_name)
+  SELECT
+    p.id,
+    p.cost_price,
+    (value->>'unit_price')::numeric,
+    p_sales_person_id,
+    p_sales_person_name
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid;
+
+  RETURN get_sale_json(p_sale_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(uuid, text, text, uuid, text, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,323 @@
+/*
+  # Customer Returns and Refunds
+
+  1. Overview
+    - `invoice_reversals` already has a 'sales' reversal type but nothing could
+      create one because every reversal had to point at a supplier invoice
+    - A sales reversal now points at the original sale, records the returned
+      lines and the tender the refund was paid out in
+
+  2. Changes
+    - `invoice_reversals.original_invoice_id` is nullable
+    - `invoice_reversals.original_sale_id` (uuid, references sales) - Receipt
+      being refunded; required for 'sales' reversals
+    - `invoice_reversal_items.original_sale_item_id` (uuid, references
+      sale_items) - Sale line being returned, used to cap return quantities
+
+  3. New Tables
+    - `sale_return_payments`
+      - `id` (uuid, primary key)
+      - `reversal_id` (uuid, references invoice_reversals)
+      - `payment_method` (text) - cash, mpesa, card or insurance
+      - `amount` (numeric) - Amount refunded to the customer
+      - `reference` (text, optional) - M-Pesa / card reversal reference
+      - `created_at` (timestamptz)
+
+  4. New Functions
+    - `process_sale_return(...)` - Records a return in one transaction:
+      validates quantities, restocks the exact batch each line was sold from,
+      writes the reversal, its items and refund tender, and returns the
+      reversal as JSON
+
+  5. Business Rules
+    - A line can only be returned up to the quantity sold minus earlier returns;
+      the sale row is locked so two tills cannot over-return the same receipt
+    - Refund amount is computed from the original unit price, not trusted from
+      the client, and the refund tender must add up to it
+    - `p_reversal_id` is generated by the client; retrying with the same id
+      returns the existing return instead of refunding twice
+
+  6. Security
+    - Runs as the calling user (SECURITY INVOKER) so existing RLS policies apply
+    - `sale_return_payments` follows the `invoice_reversal_items` model
+      (read for all, insert for the reversal owner, no update/delete)
+*/
+
+ALTER TABLE invoice_reversals ALTER COLUMN original_invoice_id DROP NOT NULL;
+
+ALTER TABLE invoice_reversals
+  ADD COLUMN IF NOT EXISTS original_sale_id uuid REFERENCES sales(id) ON DELETE RESTRICT;
+
+ALTER TABLE invoice_reversals DROP CONSTRAINT IF EXISTS invoice_reversals_source_check;
+ALTER TABLE invoice_reversals ADD CONSTRAINT invoice_reversals_source_check
+  CHECK (
+    (reversal_type = 'purchase' AND original_invoice_id IS NOT NULL)
+    OR (reversal_type = 'sales' AND original_sale_id IS NOT NULL)
+  );
+
+ALTER TABLE invoice_reversal_items
+  ADD COLUMN IF NOT EXISTS original_sale_item_id uuid REFERENCES sale_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoice_reversals_original_sale
+  ON invoice_reversals(original_sale_id);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_reversal_items_sale_item
+  ON invoice_reversal_items(original_sale_item_id);
+
+CREATE TABLE IF NOT EXISTS sale_return_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reversal_id uuid NOT NULL REFERENCES invoice_reversals(id) ON DELETE CASCADE,
+  payment_method text NOT NULL CHECK (payment_method IN ('cash', 'mpesa', 'card', 'insurance')),
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  reference text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_return_payments_reversal
+  ON sale_return_payments(reversal_id);
+
+ALTER TABLE sale_return_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "sale_return_payments_select"
+  ON public.sale_return_payments FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "sale_return_payments_insert"
+  ON public.sale_return_payments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.invoice_reversals
+      WHERE id = reversal_id
+      AND user_id = auth.uid()
+    )
+  );
+
+-- Returns a sales reversal with its items and refund tender
+CREATE OR REPLACE FUNCTION public.get_sale_return_json(p_reversal_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT jsonb_build_object(
+    'id', r.id,
+    'original_sale_id', r.original_sale_id,
+    'reversal_number', r.reversal_number,
+    'total_amount', r.total_amount,
+    'reason', r.reason,
+    'notes', r.notes,
+    'user_name', r.user_name,
+    'created_at', r.created_at,
+    'invoice_reversal_items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'original_sale_item_id', ri.original_sale_item_id,
+        'product_id', ri.product_id,
+        'product_name', ri.product_name,
+        'batch_number', ri.batch_number,
+        'quantity', ri.quantity,
+        'selling_price', ri.selling_price
+      ))
+      FROM invoice_reversal_items ri
+      WHERE ri.reversal_id = r.id
+    ), '[]'::jsonb),
+    'sale_return_payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payment_method', rp.payment_method,
+        'amount', rp.amount,
+        'reference', rp.reference
+      ) ORDER BY rp.created_at)
+      FROM sale_return_payments rp
+      WHERE rp.reversal_id = r.id
+    ), '[]'::jsonb)
+  )
+  FROM invoice_reversals r
+  WHERE r.id = p_reversal_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.process_sale_return(
+  p_reversal_id uuid,
+  p_sale_id uuid,
+  p_reason text,
+  p_notes text,
+  p_user_name text,
+  p_items jsonb,
+  p_refunds jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_sale sales%ROWTYPE;
+  v_item jsonb;
+  v_sale_item sale_items%ROWTYPE;
+  v_product_id uuid;
+  v_cost_price numeric(10,2);
+  v_quantity integer;
+  v_returned integer;
+  v_total numeric(10,2) := 0;
+  v_refunded numeric(10,2) := 0;
+  v_return_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Missing authorization header';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  IF p_refunds IS NULL OR jsonb_typeof(p_refunds) <> 'array' OR jsonb_array_length(p_refunds) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a return without refund tender';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT value->>'sale_item_id') FROM jsonb_array_elements(p_items)) <> jsonb_array_length(p_items) THEN
+    RAISE EXCEPTION 'Each receipt line can only appear once in a return';
+  END IF;
+
+  -- Idempotent retry: the return was already committed on a previous attempt
+  IF EXISTS (SELECT 1 FROM invoice_reversals WHERE id = p_reversal_id) THEN
+    RETURN get_sale_return_json(p_reversal_id);
+  END IF;
+
+  -- Serialise returns against the same receipt
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found';
+  END IF;
+
+  -- Validate every line and compute the refund before writing anything
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT * INTO v_sale_item
+    FROM sale_items
+    WHERE id = (v_item->>'sale_item_id')::uuid
+    AND sale_id = p_sale_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item is not part of receipt %', v_sale.receipt_number;
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid return quantity for %', v_sale_item.product_name;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO v_returned
+    FROM invoice_reversal_items
+    WHERE original_sale_item_id = v_sale_item.id;
+
+    IF v_quantity > v_sale_item.quantity - v_returned THEN
+      RAISE EXCEPTION 'Cannot return % of %: % sold, % already returned',
+        v_quantity, v_sale_item.product_name, v_sale_item.quantity, v_returned;
+    END IF;
+
+    v_total := v_total + v_sale_item.unit_price * v_quantity;
+  END LOOP;
+
+  SELECT COALESCE(SUM((value->>'amount')::numeric), 0)
+  INTO v_refunded
+  FROM jsonb_array_elements(p_refunds);
+
+  IF v_refunded <> v_total THEN
+    RAISE EXCEPTION 'Refund (%) does not match returned items (%)', v_refunded, v_total;
+  END IF;
+
+  SELECT COUNT(*) INTO v_return_count
+  FROM invoice_reversals
+  WHERE original_sale_id = p_sale_id;
+
+  INSERT INTO invoice_reversals (
+    id,
+    original_sale_id,
+    reversal_number,
+    reversal_type,
+    total_amount,
+    reason,
+    notes,
+    user_id,
+    user_name
+  ) VALUES (
+    p_reversal_id,
+    p_sale_id,
+    'RTN-' || v_sale.receipt_number || '-' || (v_return_count + 1)::text,
+    'sales',
+    v_total,
+    COALESCE(NULLIF(p_reason, ''), 'Customer return'),
+    NULLIF(p_notes, ''),
+    auth.uid(),
+    p_user_name
+  );
+
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT * INTO v_sale_item
+    FROM sale_items
+    WHERE id = (v_item->>'sale_item_id')::uuid;
+
+    -- Restock the exact batch the line was sold from
+    v_product_id := v_sale_item.product_id;
+    IF v_product_id IS NULL THEN
+      SELECT id INTO v_product_id
+      FROM products
+      WHERE name = v_sale_item.product_name
+      AND batch_number IS NOT DISTINCT FROM v_sale_item.batch_number
+      LIMIT 1;
+    END IF;
+
+    IF v_product_id IS NULL THEN
+      RAISE EXCEPTION 'Batch % of % no longer exists in inventory',
+        COALESCE(v_sale_item.batch_number, '-'), v_sale_item.product_name;
+    END IF;
+
+    UPDATE products
+    SET current_stock = current_stock + v_quantity,
+        updated_at = now()
+    WHERE id = v_product_id
+    RETURNING cost_price INTO v_cost_price;
+
+    INSERT INTO invoice_reversal_items (
+      reversal_id,
+      original_sale_item_id,
+      product_id,
+      product_name,
+      batch_number,
+      quantity,
+      cost_price,
+      selling_price,
+      total_cost
+    ) VALUES (
+      p_reversal_id,
+      v_sale_item.id,
+      v_product_id,
+      v_sale_item.product_name,
+      v_sale_item.batch_number,
+      v_quantity,
+      COALESCE(v_cost_price, 0),
+      v_sale_item.unit_price,
+      COALESCE(v_cost_price, 0) * v_quantity
+    );
+  END LOOP;
+
+  INSERT INTO sale_return_payments (reversal_id, payment_method, amount, reference)
+  SELECT
+    p_reversal_id,
+    value->>'payment_method',
+    (value->>'amount')::numeric,
+    NULLIF(value->>'reference', '')
+  FROM jsonb_array_elements(p_refunds);
+
+  RETURN get_sale_return_json(p_reversal_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale_return(uuid, uuid, text, text, text, jsonb, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sale_return_json(uuid) TO authenticated;
@@ -0,0 +1,171 @@
+/*
+  # Held (Parked) Sales
+
+  1. Overview
+    - The POS cart only lived in component state, so a cashier had to clear it
+      to serve the next customer
+    - Carts can now be parked under a name, listed from any till and resumed
+    - Parked carts do not reserve stock; stock is only checked when the resumed
+      cart is checked out
+
+  2. New Tables
+    - `app_settings`
+      - `key` (text, primary key)
+      - `value` (jsonb)
+      - `updated_by_name` (text)
+      - `created_at`, `updated_at` (timestamptz)
+    - `held_sales`
+      - `id` (uuid, primary key)
+      - `label` (text) - Name the cashier parked the cart under
+      - `customer_name` (text, optional)
+      - `items` (jsonb) - Cart lines as held in the POS
+      - `total_amount` (numeric)
+      - `branch_code` (text) - Till the cart was parked on
+      - `held_by` (uuid) / `held_by_name` (text)
+      - `expires_at` (timestamptz) - Set on insert from the
+        `held_sale_expiry_minutes` setting
+      - `created_at` (timestamptz)
+
+  3. New Functions
+    - `purge_expired_held_sales()` - Deletes parked carts past their expiry and
+      returns how many were removed
+
+  4. Security
+    - RLS enabled on both tables
+    - All authenticated users can read settings; only admins can change them
+    - All authenticated users can park, list and resume (delete) held carts
+*/
+
+CREATE TABLE IF NOT EXISTS app_settings (
+  key text PRIMARY KEY,
+  value jsonb NOT NULL,
+  updated_by_name text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+INSERT INTO app_settings (key, value)
+VALUES ('held_sale_expiry_minutes', '240'::jsonb)
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "app_settings_select"
+  ON public.app_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "app_settings_insert"
+  ON public.app_settings FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "app_settings_update"
+  ON public.app_settings FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION update_app_settings_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_app_settings_updated_at
+  BEFORE UPDATE ON app_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_app_settings_updated_at();
+
+CREATE TABLE IF NOT EXISTS held_sales (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  label text NOT NULL,
+  customer_name text,
+  items jsonb NOT NULL CHECK (jsonb_typeof(items) = 'array' AND jsonb_array_length(items) > 0),
+  total_amount numeric(10,2) NOT NULL DEFAULT 0 CHECK (total_amount >= 0),
+  branch_code text NOT NULL DEFAULT 'MAIN',
+  held_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  held_by_name text NOT NULL,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_held_sales_expires_at ON held_sales(expires_at);
+CREATE INDEX IF NOT EXISTS idx_held_sales_created_at ON held_sales(created_at DESC);
+
+ALTER TABLE held_sales ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "held_sales_select"
+  ON public.held_sales FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "held_sales_insert"
+  ON public.held_sales FOR INSERT
+  TO authenticated
+  WITH CHECK (held_by = auth.uid());
+
+CREATE POLICY "held_sales_delete"
+  ON public.held_sales FOR DELETE
+  TO authenticated
+  USING (true);
+
+-- Expiry is always taken from the current setting, never from the client
+CREATE OR REPLACE FUNCTION set_held_sale_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_minutes integer;
+BEGIN
+  SELECT (value #>> '{}')::integer INTO v_minutes
+  FROM app_settings
+  WHERE key = 'held_sale_expiry_minutes';
+
+  NEW.expires_at := now() + make_interval(mins => COALESCE(v_minutes, 240));
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_held_sale_expiry
+  BEFORE INSERT ON held_sales
+  FOR EACH ROW
+  EXECUTE FUNCTION set_held_sale_expiry();
+
+CREATE OR REPLACE FUNCTION public.purge_expired_held_sales()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM held_sales WHERE expires_at <= now();
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.purge_expired_held_sales() TO authenticated;
@@ -0,0 +1,281 @@
+/*
+  # Offline Sale Sync
+
+  1. Overview
+    - The POS can keep selling without internet: sales are queued on the till
+      with a client-generated id and replayed through `process_sale` when the
+      connection returns
+    - Goods in an offline sale have already left the shop, so a replayed sale
+      must never be rejected for stock. Lines that would now oversell are
+      recorded and flagged for a manager instead
+
+  2. New Tables
+    - `sale_sync_exceptions`
+      - `id` (uuid, primary key)
+      - `sale_id` (uuid, references sales)
+      - `product_id` (uuid, references products)
+      - `product_name`, `batch_number` (text)
+      - `quantity_sold` (integer) - Quantity on the offline sale line
+      - `stock_available` (integer) - Stock on hand when the sale was replayed
+      - `shortfall` (integer) - Units sold that were not in stock
+      - `status` (text) - open or resolved
+      - `resolution_notes`, `resolved_by_name` (text), `resolved_at` (timestamptz)
+      - `created_at` (timestamptz)
+
+  3. Changes
+    - `process_sale` takes two optional arguments:
+      - `p_sold_at` - When the sale happened on the till; used as `created_at`
+      - `p_offline` - Replay of a queued sale; oversold lines clamp stock at zero
+        and create a `sale_sync_exceptions` row instead of failing the sale
+    - Existing callers are unaffected; both arguments default to the old behaviour
+
+  4. Security
+    - RLS enabled on `sale_sync_exceptions`
+    - All authenticated users can read and create exceptions (created by the
+      checkout function running as the cashier)
+    - Only admins can resolve them
+*/
+
+CREATE TABLE IF NOT EXISTS sale_sync_exceptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id uuid NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+  product_id uuid REFERENCES products(id) ON DELETE SET NULL,
+  product_name text NOT NULL,
+  batch_number text,
+  quantity_sold integer NOT NULL CHECK (quantity_sold > 0),
+  stock_available integer NOT NULL,
+  shortfall integer NOT NULL CHECK (shortfall > 0),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'resolved')),
+  resolution_notes text,
+  resolved_by_name text,
+  resolved_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_sync_exceptions_sale_id ON sale_sync_exceptions(sale_id);
+CREATE INDEX IF NOT EXISTS idx_sale_sync_exceptions_status ON sale_sync_exceptions(status);
+
+ALTER TABLE sale_sync_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "sale_sync_exceptions_select"
+  ON public.sale_sync_exceptions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "sale_sync_exceptions_insert"
+  ON public.sale_sync_exceptions FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "sale_sync_exceptions_update"
+  ON public.sale_sync_exceptions FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+DROP FUNCTION IF EXISTS public.process_sale(uuid, text, text, uuid, text, jsonb, jsonb);
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_sale_id uuid,
+  p_branch_code text,
+  p_customer_name text,
+  p_sales_person_id uuid,
+  p_sales_person_name text,
+  p_items jsonb,
+  p_payments jsonb,
+  p_sold_at timestamptz DEFAULT NULL,
+  p_offline boolean DEFAULT false
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_item jsonb;
+  v_product products%ROWTYPE;
+  v_quantity integer;
+  v_total numeric(10,2) := 0;
+  v_paid numeric(10,2) := 0;
+  v_methods text[];
+  v_shortfalls jsonb := '[]'::jsonb;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without items';
+  END IF;
+
+  IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without payment';
+  END IF;
+
+  -- Idempotent retry: the sale was already committed on a previous attempt
+  IF EXISTS (SELECT 1 FROM sales WHERE id = p_sale_id) THEN
+    RETURN get_sale_json(p_sale_id);
+  END IF;
+
+  -- Lock every product in a stable order and validate stock before writing anything
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item->>'product_name';
+    END IF;
+
+    SELECT * INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % no longer exists', v_item->>'product_name';
+    END IF;
+
+    IF v_product.current_stock < v_quantity THEN
+      IF NOT p_offline THEN
+        RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+          v_product.name, v_product.current_stock, v_quantity;
+      END IF;
+
+      v_shortfalls := v_shortfalls || jsonb_build_object(
+        'product_id', v_product.id,
+        'product_name', v_product.name,
+        'batch_number', v_product.batch_number,
+        'quantity_sold', v_quantity,
+        'stock_available', v_product.current_stock
+      );
+    END IF;
+
+    v_total := v_total + (v_item->>'total_price')::numeric;
+  END LOOP;
+
+  SELECT COALESCE(SUM((value->>'amount')::numeric), 0),
+         array_agg(DISTINCT value->>'payment_method')
+  INTO v_paid, v_methods
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_paid <> v_total THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', v_paid, v_total;
+  END IF;
+
+  INSERT INTO sales (
+    id,
+    receipt_number,
+    customer_name,
+    total_amount,
+    payment_method,
+    mpesa_receipt_number,
+    sales_person_id,
+    sales_person_name,
+    created_at
+  ) VALUES (
+    p_sale_id,
+    generate_receipt_number(COALESCE(NULLIF(p_branch_code, ''), 'MAIN')),
+    NULLIF(p_customer_name, ''),
+    v_total,
+    CASE WHEN array_length(v_methods, 1) > 1 THEN 'split' ELSE v_methods[1] END,
+    (
+      SELECT NULLIF(value->>'reference', '')
+      FROM jsonb_array_elements(p_payments)
+      WHERE value->>'payment_method' = 'mpesa'
+      LIMIT 1
+    ),
+    p_sales_person_id,
+    p_sales_person_name,
+    COALESCE(p_sold_at, now())
+  );
+
+  INSERT INTO sale_items (
+    sale_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    total_price,
+    batch_number
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::numeric,
+    (value->>'total_price')::numeric,
+    value->>'batch_number'
+  FROM jsonb_array_elements(p_items);
+
+  INSERT INTO sale_payments (
+    sale_id,
+    payment_method,
+    amount,
+    reference,
+    tendered_amount,
+    change_amount
+  )
+  SELECT
+    p_sale_id,
+    value->>'payment_method',
+    (value->>'amount')::numeric,
+    NULLIF(value->>'reference', ''),
+    (value->>'tendered_amount')::numeric,
+    COALESCE((value->>'change_amount')::numeric, 0)
+  FROM jsonb_array_elements(p_payments);
+
+  -- Offline replays clamp at zero; the missing units are in sale_sync_exceptions
+  UPDATE products p
+  SET current_stock = GREATEST(p.current_stock - i.quantity, 0),
+      updated_at = now()
+  FROM (
+    SELECT (value->>'product_id')::uuid AS product_id,
+           SUM((value->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items)
+    GROUP BY 1
+  ) i
+  WHERE p.id = i.product_id;
+
+  INSERT INTO sale_sync_exceptions (
+    sale_id,
+    product_id,
+    product_name,
+    batch_number,
+    quantity_sold,
+    stock_available,
+    shortfall
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    value->>'batch_number',
+    (value->>'quantity_sold')::integer,
+    (value->>'stock_available')::integer,
+    (value->>'quantity_sold')::integer - (value->>'stock_available')::integer
+  FROM jsonb_array_elements(v_shortfalls);
+
+  INSERT INTO price_history (product_id, cost_price, selling_price, user_id, user_name)
+  SELECT
+    p.id,
+    p.cost_price,
+    (value->>'unit_price')::numeric,
+    p_sales_person_id,
+    p_sales_person_name
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid;
+
+  RETURN get_sale_json(p_sale_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(uuid, text, text, uuid, text, jsonb, jsonb, timestamptz, boolean) TO authenticated;
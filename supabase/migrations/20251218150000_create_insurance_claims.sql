@@ -0,0 +1,659 @@
+/*
+  # Insurance Claims
+
+  1. Overview
+    - Selecting 'insurance' at checkout only stored the label
+    - Insurers and their schemes are now master data, the member and optional
+      pre-authorisation are captured with the sale, and unpaid insurance sales
+      are batched per insurer into claims that track payment
+
+  2. New Tables
+    - `insurers`
+      - `id` (uuid, primary key)
+      - `name` (text, unique), `code` (text, unique) - Code is used in claim numbers
+      - `contact_email`, `phone` (text, optional)
+      - `is_active` (boolean)
+    - `insurance_schemes`
+      - `id` (uuid, primary key)
+      - `insurer_id` (uuid, references insurers)
+      - `name` (text) - Unique per insurer
+      - `copay_type` (text) - none, percent or fixed
+      - `copay_value` (numeric) - Percentage of the sale or fixed KES amount the
+        patient pays
+      - `is_active` (boolean)
+    - `insurance_claims`
+      - `id` (uuid, primary key)
+      - `claim_number` (text, unique) - CLM-<insurer code>-<yyyymm>-<n>
+      - `insurer_id` (uuid, references insurers)
+      - `status` (text) - submitted, partially_paid, paid or rejected
+      - `total_amount` (numeric) - Sum of the insurer portions in the claim
+      - `amount_paid` (numeric)
+      - `period_start`, `period_end` (date) - First and last sale date in the claim
+      - `notes`, `rejection_reason` (text)
+      - `submitted_at`, `paid_at` (timestamptz)
+      - `created_by` (uuid) / `created_by_name` (text)
+    - `sale_insurance` - One row per insurance-paid sale
+      - `sale_id` (uuid, unique, references sales)
+      - `insurer_id`, `scheme_id` (uuid)
+      - `member_number` (text), `member_name` (text, optional)
+      - `preauth_number` (text, optional)
+      - `insurer_amount` (numeric) - Owed by the insurer (insurance tender)
+      - `copay_amount` (numeric) - Paid by the patient with other tenders
+      - `claim_id` (uuid, references insurance_claims) - Null until claimed
+
+  3. Changes
+    - `process_sale` takes `p_insurance` (optional). It is required when any
+      tender is 'insurance' and the insurer amount is the insurance tender total
+
+  4. New Functions
+    - `create_insurance_claim(p_insurer_id, p_sale_ids, p_notes, p_user_name)` -
+      Batches unclaimed insurance sales of one insurer into a submitted claim
+    - `record_insurance_claim_payment(p_claim_id, p_amount)` - Adds a payment
+      and moves the claim to partially paid or paid
+
+  5. Security
+    - RLS enabled on all tables
+    - All authenticated users can read master data and insurance details;
+      cashiers create `sale_insurance` through checkout
+    - Only admins manage insurers, schemes and claims
+*/
+
+CREATE TABLE IF NOT EXISTS insurers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text UNIQUE NOT NULL,
+  code text UNIQUE NOT NULL,
+  contact_email text,
+  phone text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS insurance_schemes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  insurer_id uuid NOT NULL REFERENCES insurers(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  copay_type text NOT NULL DEFAULT 'none' CHECK (copay_type IN ('none', 'percent', 'fixed')),
+  copay_value numeric(10,2) NOT NULL DEFAULT 0 CHECK (copay_value >= 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (insurer_id, name),
+  CHECK (copay_type <> 'percent' OR copay_value <= 100)
+);
+
+CREATE TABLE IF NOT EXISTS insurance_claims (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  claim_number text UNIQUE NOT NULL,
+  insurer_id uuid NOT NULL REFERENCES insurers(id) ON DELETE RESTRICT,
+  status text NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'partially_paid', 'paid', 'rejected')),
+  total_amount numeric(12,2) NOT NULL DEFAULT 0 CHECK (total_amount >= 0),
+  amount_paid numeric(12,2) NOT NULL DEFAULT 0 CHECK (amount_paid >= 0),
+  period_start date,
+  period_end date,
+  notes text,
+  rejection_reason text,
+  submitted_at timestamptz DEFAULT now(),
+  paid_at timestamptz,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_name text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS sale_insurance (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id uuid UNIQUE NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+  insurer_id uuid NOT NULL REFERENCES insurers(id) ON DELETE RESTRICT,
+  scheme_id uuid REFERENCES insurance_schemes(id) ON DELETE SET NULL,
+  member_number text NOT NULL,
+  member_name text,
+  preauth_number text,
+  insurer_amount numeric(10,2) NOT NULL CHECK (insurer_amount > 0),
+  copay_amount numeric(10,2) NOT NULL DEFAULT 0 CHECK (copay_amount >= 0),
+  claim_id uuid REFERENCES insurance_claims(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_insurance_schemes_insurer ON insurance_schemes(insurer_id);
+CREATE INDEX IF NOT EXISTS idx_insurance_claims_insurer ON insurance_claims(insurer_id);
+CREATE INDEX IF NOT EXISTS idx_insurance_claims_status ON insurance_claims(status);
+CREATE INDEX IF NOT EXISTS idx_sale_insurance_insurer ON sale_insurance(insurer_id);
+CREATE INDEX IF NOT EXISTS idx_sale_insurance_claim ON sale_insurance(claim_id);
+
+ALTER TABLE insurers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE insurance_schemes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE insurance_claims ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sale_insurance ENABLE ROW LEVEL SECURITY;
+
+-- insurers
+CREATE POLICY "insurers_select"
+  ON public.insurers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "insurers_insert"
+  ON public.insurers FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "insurers_update"
+  ON public.insurers FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+-- insurance_schemes
+CREATE POLICY "insurance_schemes_select"
+  ON public.insurance_schemes FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "insurance_schemes_insert"
+  ON public.insurance_schemes FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "insurance_schemes_update"
+  ON public.insurance_schemes FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+-- insurance_claims
+CREATE POLICY "insurance_claims_select"
+  ON public.insurance_claims FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "insurance_claims_insert"
+  ON public.insurance_claims FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "insurance_claims_update"
+  ON public.insurance_claims FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+-- sale_insurance
+CREATE POLICY "sale_insurance_select"
+  ON public.sale_insurance FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "sale_insurance_insert"
+  ON public.sale_insurance FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "sale_insurance_update"
+  ON public.sale_insurance FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION update_insurers_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_insurers_updated_at
+  BEFORE UPDATE ON insurers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_insurers_updated_at();
+
+CREATE OR REPLACE FUNCTION update_insurance_schemes_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_insurance_schemes_updated_at
+  BEFORE UPDATE ON insurance_schemes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_insurance_schemes_updated_at();
+
+CREATE OR REPLACE FUNCTION update_insurance_claims_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_insurance_claims_updated_at
+  BEFORE UPDATE ON insurance_claims
+  FOR EACH ROW
+  EXECUTE FUNCTION update_insurance_claims_updated_at();
+
+-- Checkout records the insurance details of insurance-paid sales
+DROP FUNCTION IF EXISTS public.process_sale(uuid, text, text, uuid, text, jsonb, jsonb, timestamptz, boolean);
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_sale_id uuid,
+  p_branch_code text,
+  p_customer_name text,
+  p_sales_person_id uuid,
+  p_sales_person_name text,
+  p_items jsonb,
+  p_payments jsonb,
+  p_sold_at timestamptz DEFAULT NULL,
+  p_offline boolean DEFAULT false,
+  p_insurance jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_item jsonb;
+  v_product products%ROWTYPE;
+  v_quantity integer;
+  v_total numeric(10,2) := 0;
+  v_paid numeric(10,2) := 0;
+  v_insured numeric(10,2) := 0;
+  v_methods text[];
+  v_shortfalls jsonb := '[]'::jsonb;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without items';
+  END IF;
+
+  IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without payment';
+  END IF;
+
+  -- Idempotent retry: the sale was already committed on a previous attempt
+  IF EXISTS (SELECT 1 FROM sales WHERE id = p_sale_id) THEN
+    RETURN get_sale_json(p_sale_id);
+  END IF;
+
+  -- Lock every product in a stable order and validate stock before writing anything
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item->>'product_name';
+    END IF;
+
+    SELECT * INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % no longer exists', v_item->>'product_name';
+    END IF;
+
+    IF v_product.current_stock < v_quantity THEN
+      IF NOT p_offline THEN
+        RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+          v_product.name, v_product.current_stock, v_quantity;
+      END IF;
+
+      v_shortfalls := v_shortfalls || jsonb_build_object(
+        'product_id', v_product.id,
+        'product_name', v_product.name,
+        'batch_number', v_product.batch_number,
+        'quantity_sold', v_quantity,
+        'stock_available', v_product.current_stock
+      );
+    END IF;
+
+    v_total := v_total + (v_item->>'total_price')::numeric;
+  END LOOP;
+
+  SELECT COALESCE(SUM((value->>'amount')::numeric), 0),
+         COALESCE(SUM((value->>'amount')::numeric) FILTER (WHERE value->>'payment_method' = 'insurance'), 0),
+         array_agg(DISTINCT value->>'payment_method')
+  INTO v_paid, v_insured, v_methods
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_paid <> v_total THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', v_paid, v_total;
+  END IF;
+
+  IF v_insured > 0 AND (
+    p_insurance IS NULL
+    OR NULLIF(p_insurance->>'insurer_id', '') IS NULL
+    OR NULLIF(trim(p_insurance->>'member_number'), '') IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Insurer and member number are required for insurance payments';
+  END IF;
+
+  INSERT INTO sales (
+    id,
+    receipt_number,
+    customer_name,
+    total_amount,
+    payment_method,
+    mpesa_receipt_number,
+    sales_person_id,
+    sales_person_name,
+    created_at
+  ) VALUES (
+    p_sale_id,
+    generate_receipt_number(COALESCE(NULLIF(p_branch_code, ''), 'MAIN')),
+    NULLIF(p_customer_name, ''),
+    v_total,
+    CASE WHEN array_length(v_methods, 1) > 1 THEN 'split' ELSE v_methods[1] END,
+    (
+      SELECT NULLIF(value->>'reference', '')
+      FROM jsonb_array_elements(p_payments)
+      WHERE value->>'payment_method' = 'mpesa'
+      LIMIT 1
+    ),
+    p_sales_person_id,
+    p_sales_person_name,
+    COALESCE(p_sold_at, now())
+  );
+
+  INSERT INTO sale_items (
+    sale_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    total_price,
+    batch_number
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::numeric,
+    (value->>'total_price')::numeric,
+    value->>'batch_number'
+  FROM jsonb_array_elements(p_items);
+
+  INSERT INTO sale_payments (
+    sale_id,
+    payment_method,
+    amount,
+    reference,
+    tendered_amount,
+    change_amount
+  )
+  SELECT
+    p_sale_id,
+    value->>'payment_method',
+    (value->>'amount')::numeric,
+    NULLIF(value->>'reference', ''),
+    (value->>'tendered_amount')::numeric,
+    COALESCE((value->>'change_amount')::numeric, 0)
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_insured > 0 THEN
+    INSERT INTO sale_insurance (
+      sale_id,
+      insurer_id,
+      scheme_id,
+      member_number,
+      member_name,
+      preauth_number,
+      insurer_amount,
+      copay_amount
+    ) VALUES (
+      p_sale_id,
+      (p_insurance->>'insurer_id')::uuid,
+      NULLIF(p_insurance->>'scheme_id', '')::uuid,
+      trim(p_insurance->>'member_number'),
+      NULLIF(trim(p_insurance->>'member_name'), ''),
+      NULLIF(trim(p_insurance->>'preauth_number'), ''),
+      v_insured,
+      v_total - v_insured
+    );
+  END IF;
+
+  -- Offline replays clamp at zero; the missing units are in sale_sync_exceptions
+  UPDATE products p
+  SET current_stock = GREATEST(p.current_stock - i.quantity, 0),
+      updated_at = now()
+  FROM (
+    SELECT (value->>'product_id')::uuid AS product_id,
+           SUM((value->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items)
+    GROUP BY 1
+  ) i
+  WHERE p.id = i.product_id;
+
+  INSERT INTO sale_sync_exceptions (
+    sale_id,
+    product_id,
+    product_name,
+    batch_number,
+    quantity_sold,
+    stock_available,
+    shortfall
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    value->>'batch_number',
+    (value->>'quantity_sold')::integer,
+    (value->>'stock_available')::integer,
+    (value->>'quantity_sold')::integer - (value->>'stock_available')::integer
+  FROM jsonb_array_elements(v_shortfalls);
+
+  INSERT INTO price_history (product_id, cost_price, selling_price, user_id, user_name)
+  SELECT
+    p.id,
+    p.cost_price,
+    (value->>'unit_price')::numeric,
+    p_sales_person_id,
+    p_sales_person_name
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid;
+
+  RETURN get_sale_json(p_sale_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(uuid, text, text, uuid, text, jsonb, jsonb, timestamptz, boolean, jsonb) TO authenticated;
+
+-- Batches unclaimed insurance sales of one insurer into a submitted claim
+CREATE OR REPLACE FUNCTION public.create_insurance_claim(
+  p_insurer_id uuid,
+  p_sale_ids uuid[],
+  p_notes text,
+  p_user_name text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_insurer insurers%ROWTYPE;
+  v_claim_id uuid := gen_random_uuid();
+  v_prefix text;
+  v_sequence integer;
+  v_count integer;
+BEGIN
+  SELECT * INTO v_insurer FROM insurers WHERE id = p_insurer_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Insurer not found';
+  END IF;
+
+  IF p_sale_ids IS NULL OR array_length(p_sale_ids, 1) IS NULL THEN
+    RAISE EXCEPTION 'Select at least one sale to claim';
+  END IF;
+
+  -- Lock the lines so the same sale cannot land in two claims
+  PERFORM 1 FROM sale_insurance
+  WHERE sale_id = ANY(p_sale_ids)
+  FOR UPDATE;
+
+  SELECT COUNT(*) INTO v_count
+  FROM sale_insurance
+  WHERE sale_id = ANY(p_sale_ids)
+  AND insurer_id = p_insurer_id
+  AND claim_id IS NULL;
+
+  IF v_count <> array_length(p_sale_ids, 1) THEN
+    RAISE EXCEPTION 'Some sales are already claimed or belong to another insurer';
+  END IF;
+
+  v_prefix := 'CLM-' || upper(v_insurer.code) || '-' || to_char(now(), 'YYYYMM') || '-';
+
+  SELECT COALESCE(MAX(substring(claim_number FROM length(v_prefix) + 1)::integer), 0) + 1
+  INTO v_sequence
+  FROM insurance_claims
+  WHERE claim_number LIKE v_prefix || '%';
+
+  INSERT INTO insurance_claims (
+    id,
+    claim_number,
+    insurer_id,
+    status,
+    total_amount,
+    period_start,
+    period_end,
+    notes,
+    created_by,
+    created_by_name
+  )
+  SELECT
+    v_claim_id,
+    v_prefix || LPAD(v_sequence::text, 3, '0'),
+    p_insurer_id,
+    'submitted',
+    SUM(si.insurer_amount),
+    MIN(s.created_at)::date,
+    MAX(s.created_at)::date,
+    NULLIF(p_notes, ''),
+    auth.uid(),
+    p_user_name
+  FROM sale_insurance si
+  JOIN sales s ON s.id = si.sale_id
+  WHERE si.sale_id = ANY(p_sale_ids);
+
+  UPDATE sale_insurance
+  SET claim_id = v_claim_id
+  WHERE sale_id = ANY(p_sale_ids);
+
+  RETURN v_claim_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_insurance_claim(uuid, uuid[], text, text) TO authenticated;
+
+-- Adds a payment received from the insurer and updates the claim status
+CREATE OR REPLACE FUNCTION public.record_insurance_claim_payment(
+  p_claim_id uuid,
+  p_amount numeric
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_claim insurance_claims%ROWTYPE;
+  v_paid numeric(12,2);
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  SELECT * INTO v_claim FROM insurance_claims WHERE id = p_claim_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Claim not found';
+  END IF;
+
+  IF v_claim.status IN ('paid', 'rejected') THEN
+    RAISE EXCEPTION 'Claim % is already %', v_claim.claim_number, v_claim.status;
+  END IF;
+
+  v_paid := v_claim.amount_paid + p_amount;
+
+  IF v_paid > v_claim.total_amount THEN
+    RAISE EXCEPTION 'Payment exceeds the outstanding amount of %', v_claim.total_amount - v_claim.amount_paid;
+  END IF;
+
+  UPDATE insurance_claims
+  SET amount_paid = v_paid,
+      status = CASE WHEN v_paid >= total_amount THEN 'paid' ELSE 'partially_paid' END,
+      paid_at = CASE WHEN v_paid >= total_amount THEN now() ELSE NULL END
+  WHERE id = p_claim_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_insurance_claim_payment(uuid, numeric) TO authenticated;
@@ -0,0 +1,329 @@
+/*
+  # Customers
+
+  1. Overview
+    - Sales only carried a free-text customer name and the M-Pesa phone number
+      was never linked to a person
+    - Customers are now records the POS can look up by phone or name, and each
+      sale can point at the customer it was made to
+
+  2. New Tables
+    - `customers`
+      - `id` (uuid, primary key)
+      - `name` (text)
+      - `phone` (text, unique, optional) - Stored as 2547XXXXXXXX
+      - `notes` (text, optional)
+      - `allergies` (text, optional) - Shown to the cashier when the customer is picked
+      - `loyalty_id` (text, unique) - Card number, WSB000001 onwards unless entered
+      - `created_by_name` (text)
+      - `created_at`, `updated_at` (timestamptz)
+
+  3. Changes
+    - `sales.customer_id` and `held_sales.customer_id` (uuid, optional)
+    - `process_sale` takes `p_customer_id` (optional). When the customer name is
+      blank the customer's name is stored on the sale
+
+  4. Security
+    - RLS enabled on `customers`
+    - All authenticated users can read, create and update customers so cashiers
+      can add them at the till
+    - Only admins can delete customers
+*/
+
+CREATE SEQUENCE IF NOT EXISTS customer_loyalty_id_seq;
+
+CREATE TABLE IF NOT EXISTS customers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  phone text UNIQUE,
+  notes text,
+  allergies text,
+  loyalty_id text UNIQUE NOT NULL DEFAULT ('WSB' || LPAD(nextval('customer_loyalty_id_seq')::text, 6, '0')),
+  created_by_name text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customers_name ON customers(lower(name));
+
+ALTER TABLE sales ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES customers(id) ON DELETE SET NULL;
+ALTER TABLE held_sales ADD COLUMN IF NOT EXISTS customer_id uuid REFERENCES customers(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sales_customer_id ON sales(customer_id);
+
+ALTER TABLE customers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "customers_select"
+  ON public.customers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "customers_insert"
+  ON public.customers FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "customers_update"
+  ON public.customers FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "customers_delete"
+  ON public.customers FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION update_customers_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_customers_updated_at
+  BEFORE UPDATE ON customers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_customers_updated_at();
+
+DROP FUNCTION IF EXISTS public.process_sale(uuid, text, text, uuid, text, jsonb, jsonb, timestamptz, boolean, jsonb);
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_sale_id uuid,
+  p_branch_code text,
+  p_customer_name text,
+  p_sales_person_id uuid,
+  p_sales_person_name text,
+  p_items jsonb,
+  p_payments jsonb,
+  p_sold_at timestamptz DEFAULT NULL,
+  p_offline boolean DEFAULT false,
+  p_insurance jsonb DEFAULT NULL,
+  p_customer_id uuid DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_item jsonb;
+  v_product products%ROWTYPE;
+  v_quantity integer;
+  v_total numeric(10,2) := 0;
+  v_paid numeric(10,2) := 0;
+  v_insured numeric(10,2) := 0;
+  v_methods text[];
+  v_shortfalls jsonb := '[]'::jsonb;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without items';
+  END IF;
+
+  IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without payment';
+  END IF;
+
+  -- Idempotent retry: the sale was already committed on a previous attempt
+  IF EXISTS (SELECT 1 FROM sales WHERE id = p_sale_id) THEN
+    RETURN get_sale_json(p_sale_id);
+  END IF;
+
+  -- Lock every product in a stable order and validate stock before writing anything
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item->>'product_name';
+    END IF;
+
+    SELECT * INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % no longer exists', v_item->>'product_name';
+    END IF;
+
+    IF v_product.current_stock < v_quantity THEN
+      IF NOT p_offline THEN
+        RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+          v_product.name, v_product.current_stock, v_quantity;
+      END IF;
+
+      v_shortfalls := v_shortfalls || jsonb_build_object(
+        'product_id', v_product.id,
+        'product_name', v_product.name,
+        'batch_number', v_product.batch_number,
+        'quantity_sold', v_quantity,
+        'stock_available', v_product.current_stock
+      );
+    END IF;
+
+    v_total := v_total + (v_item->>'total_price')::numeric;
+  END LOOP;
+
+  SELECT COALESCE(SUM((value->>'amount')::numeric), 0),
+         COALESCE(SUM((value->>'amount')::numeric) FILTER (WHERE value->>'payment_method' = 'insurance'), 0),
+         array_agg(DISTINCT value->>'payment_method')
+  INTO v_paid, v_insured, v_methods
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_paid <> v_total THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', v_paid, v_total;
+  END IF;
+
+  IF v_insured > 0 AND (
+    p_insurance IS NULL
+    OR NULLIF(p_insurance->>'insurer_id', '') IS NULL
+    OR NULLIF(trim(p_insurance->>'member_number'), '') IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Insurer and member number are required for insurance payments';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM customers WHERE id = p_customer_id) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  INSERT INTO sales (
+    id,
+    receipt_number,
+    customer_id,
+    customer_name,
+    total_amount,
+    payment_method,
+    mpesa_receipt_number,
+    sales_person_id,
+    sales_person_name,
+    created_at
+  ) VALUES (
+    p_sale_id,
+    generate_receipt_number(COALESCE(NULLIF(p_branch_code, ''), 'MAIN')),
+    p_customer_id,
+    COALESCE(NULLIF(p_customer_name, ''), (SELECT name FROM customers WHERE id = p_customer_id)),
+    v_total,
+    CASE WHEN array_length(v_methods, 1) > 1 THEN 'split' ELSE v_methods[1] END,
+    (
+      SELECT NULLIF(value->>'reference', '')
+      FROM jsonb_array_elements(p_payments)
+      WHERE value->>'payment_method' = 'mpesa'
+      LIMIT 1
+    ),
+    p_sales_person_id,
+    p_sales_person_name,
+    COALESCE(p_sold_at, now())
+  );
+
+  INSERT INTO sale_items (
+    sale_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    total_price,
+    batch_number
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::numeric,
+    (value->>'total_price')::numeric,
+    value->>'batch_number'
+  FROM jsonb_array_elements(p_items);
+
+  INSERT INTO sale_payments (
+    sale_id,
+    payment_method,
+    amount,
+    reference,
+    tendered_amount,
+    change_amount
+  )
+  SELECT
+    p_sale_id,
+    value->>'payment_method',
+    (value->>'amount')::numeric,
+    NULLIF(value->>'reference', ''),
+    (value->>'tendered_amount')::numeric,
+    COALESCE((value->>'change_amount')::numeric, 0)
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_insured > 0 THEN
+    INSERT INTO sale_insurance (
+      sale_id,
+      insurer_id,
+      scheme_id,
+      member_number,
+      member_name,
+      preauth_number,
+      insurer_amount,
+      copay_amount
+    ) VALUES (
+      p_sale_id,
+      (p_insurance->>'insurer_id')::uuid,
+      NULLIF(p_insurance->>'scheme_id', '')::uuid,
+      trim(p_insurance->>'member_number'),
+      NULLIF(trim(p_insurance->>'member_name'), ''),
+      NULLIF(trim(p_insurance->>'preauth_number'), ''),
+      v_insured,
+      v_total - v_insured
+    );
+  END IF;
+
+  -- Offline replays clamp at zero; the missing units are in sale_sync_exceptions
+  UPDATE products p
+  SET current_stock = GREATEST(p.current_stock - i.quantity, 0),
+      updated_at = now()
+  FROM (
+    SELECT (value->>'product_id')::uuid AS product_id,
+           SUM((value->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items)
+    GROUP BY 1
+  ) i
+  WHERE p.id = i.product_id;
+
+  INSERT INTO sale_sync_exceptions (
+    sale_id,
+    product_id,
+    product_name,
+    batch_number,
+    quantity_sold,
+    stock_available,
+    shortfall
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    value->>'batch_number',
+    (value->>'quantity_sold')::integer,
+    (value->>'stock_available')::integer,
+    (value->>'quantity_sold')::integer - (value->>'stock_available')::integer
+  FROM jsonb_array_elements(v_shortfalls);
+
+  INSERT INTO price_history (product_id, cost_price, selling_price, user_id, user_name)
+  SELECT
+    p.id,
+    p.cost_price,
+    (value->>'unit_price')::numeric,
+    p_sales_person_id,
+    p_sales_person_name
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid;
+
+  RETURN get_sale_json(p_sale_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(uuid, text, text, uuid, text, jsonb, jsonb, timestamptz, boolean, jsonb, uuid) TO authenticated;
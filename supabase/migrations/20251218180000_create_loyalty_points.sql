@@ -0,0 +1,574 @@
+/*
+  # Loyalty Points
+
+  1. Overview
+    - Registered customers earn points on what they spend and can pay with
+      them at the till
+    - Earn rules live in `app_settings` under `loyalty_rules` and are managed by
+      admins from Settings: points per KES 100 spent, the KES value of a point,
+      per-category multipliers, categories that earn nothing, a minimum
+      redemption and how many months points last
+    - Points are redeemed oldest-expiry first. Points not redeemed by their
+      expiry date are written off by `expire_loyalty_points`
+
+  2. Changes
+    - `loyalty` is a payment method on sales and sale_payments. Returns are
+      refunded by another method; redeemed points are not credited back
+    - `process_sale` calls `apply_sale_loyalty` once the sale is written, so a
+      redemption larger than the balance rolls the whole sale back
+
+  3. New Tables
+    - `loyalty_ledger` - Every change to a customer's points
+      - `customer_id` (uuid, references customers)
+      - `sale_id` (uuid, optional)
+      - `entry_type` (text) - earn, redeem, expire or adjust
+      - `points` (integer) - Signed change to the balance
+      - `points_remaining` (integer) - Unredeemed points left on an earn entry
+      - `expires_at` (timestamptz, optional)
+      - `notes`, `created_by_name` (text)
+
+  4. New Views
+    - `customer_loyalty_balances` - Current balance per customer and how many
+      points expire in the next 30 days
+
+  5. Security
+    - RLS enabled; all authenticated users can read the ledger
+    - No insert, update or delete policies: entries are only written by
+      `apply_sale_loyalty` and `expire_loyalty_points`, which run as the owner
+*/
+
+INSERT INTO app_settings (key, value)
+VALUES (
+  'loyalty_rules',
+  '{"enabled": false, "points_per_100_kes": 1, "point_value_kes": 1, "min_redeem_points": 100, "expiry_months": 12, "category_multipliers": {}, "excluded_categories": []}'::jsonb
+)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS loyalty_ledger (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  sale_id uuid REFERENCES sales(id) ON DELETE SET NULL,
+  entry_type text NOT NULL CHECK (entry_type IN ('earn', 'redeem', 'expire', 'adjust')),
+  points integer NOT NULL CHECK (points <> 0),
+  points_remaining integer NOT NULL DEFAULT 0 CHECK (points_remaining >= 0),
+  expires_at timestamptz,
+  notes text,
+  created_by_name text,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_customer ON loyalty_ledger(customer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_sale ON loyalty_ledger(sale_id);
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_open ON loyalty_ledger(expires_at) WHERE points_remaining > 0;
+
+ALTER TABLE loyalty_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "loyalty_ledger_select" ON loyalty_ledger
+  FOR SELECT TO authenticated
+  USING (true);
+
+CREATE OR REPLACE VIEW customer_loyalty_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  customer_id,
+  SUM(points_remaining) FILTER (WHERE expires_at IS NULL OR expires_at > now())::integer AS balance,
+  SUM(points_remaining) FILTER (
+    WHERE expires_at > now() AND expires_at <= now() + interval '30 days'
+  )::integer AS expiring_soon,
+  MAX(created_at) AS last_activity_at
+FROM loyalty_ledger
+GROUP BY customer_id;
+
+GRANT SELECT ON customer_loyalty_balances TO authenticated;
+
+ALTER TABLE sales DROP CONSTRAINT IF EXISTS sales_payment_method_check;
+ALTER TABLE sales ADD CONSTRAINT sales_payment_method_check
+  CHECK (payment_method IN ('cash', 'mpesa', 'card', 'insurance', 'loyalty', 'split'));
+
+ALTER TABLE sale_payments DROP CONSTRAINT IF EXISTS sale_payments_payment_method_check;
+ALTER TABLE sale_payments ADD CONSTRAINT sale_payments_payment_method_check
+  CHECK (payment_method IN ('cash', 'mpesa', 'card', 'insurance', 'loyalty'));
+
+-- Writes off points that reached their expiry date without being redeemed
+CREATE OR REPLACE FUNCTION public.expire_loyalty_points()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_entry loyalty_ledger%ROWTYPE;
+  v_expired integer := 0;
+BEGIN
+  FOR v_entry IN
+    SELECT * FROM loyalty_ledger
+    WHERE points_remaining > 0 AND expires_at <= now()
+    FOR UPDATE
+  LOOP
+    INSERT INTO loyalty_ledger (customer_id, entry_type, points, notes, created_by_name)
+    VALUES (
+      v_entry.customer_id,
+      'expire',
+      -v_entry.points_remaining,
+      'Points earned ' || to_char(v_entry.created_at, 'YYYY-MM-DD') || ' expired',
+      'System'
+    );
+
+    UPDATE loyalty_ledger SET points_remaining = 0 WHERE id = v_entry.id;
+    v_expired := v_expired + v_entry.points_remaining;
+  END LOOP;
+
+  RETURN v_expired;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.expire_loyalty_points() TO authenticated;
+
+-- Redeems and earns points for a committed sale. Everything is read back from
+-- the sale itself and a sale is only ever applied once, so calling it directly
+-- cannot award points that were not earned.
+CREATE OR REPLACE FUNCTION public.apply_sale_loyalty(p_sale_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_rules jsonb;
+  v_sale sales%ROWTYPE;
+  v_redeem_amount numeric(10,2);
+  v_point_value numeric;
+  v_redeem_points integer;
+  v_available integer;
+  v_to_take integer;
+  v_entry loyalty_ledger%ROWTYPE;
+  v_eligible numeric := 0;
+  v_earned integer;
+  v_expiry_months integer;
+BEGIN
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id;
+
+  IF NOT FOUND OR EXISTS (SELECT 1 FROM loyalty_ledger WHERE sale_id = p_sale_id) THEN
+    RETURN;
+  END IF;
+
+  SELECT value INTO v_rules FROM app_settings WHERE key = 'loyalty_rules';
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_redeem_amount
+  FROM sale_payments
+  WHERE sale_id = p_sale_id AND payment_method = 'loyalty';
+
+  IF v_redeem_amount > 0 THEN
+    IF v_sale.customer_id IS NULL THEN
+      RAISE EXCEPTION 'Loyalty points can only be redeemed by a registered customer';
+    END IF;
+
+    IF NOT COALESCE((v_rules->>'enabled')::boolean, false) THEN
+      RAISE EXCEPTION 'Loyalty points are not enabled';
+    END IF;
+
+    v_point_value := COALESCE(NULLIF((v_rules->>'point_value_kes')::numeric, 0), 1);
+    v_redeem_points := ceil(v_redeem_amount / v_point_value)::integer;
+
+    IF v_redeem_points < COALESCE((v_rules->>'min_redeem_points')::integer, 0) THEN
+      RAISE EXCEPTION 'At least % points must be redeemed at a time', v_rules->>'min_redeem_points';
+    END IF;
+
+    -- Serialise redemptions for the same customer
+    PERFORM 1 FROM customers WHERE id = v_sale.customer_id FOR UPDATE;
+
+    SELECT COALESCE(SUM(points_remaining), 0) INTO v_available
+    FROM loyalty_ledger
+    WHERE customer_id = v_sale.customer_id
+      AND points_remaining > 0
+      AND (expires_at IS NULL OR expires_at > now());
+
+    IF v_available < v_redeem_points THEN
+      RAISE EXCEPTION 'Insufficient loyalty points: % available, % needed', v_available, v_redeem_points;
+    END IF;
+
+    v_to_take := v_redeem_points;
+    FOR v_entry IN
+      SELECT * FROM loyalty_ledger
+      WHERE customer_id = v_sale.customer_id
+        AND points_remaining > 0
+        AND (expires_at IS NULL OR expires_at > now())
+      ORDER BY expires_at NULLS LAST, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_to_take = 0;
+
+      UPDATE loyalty_ledger
+      SET points_remaining = points_remaining - LEAST(v_entry.points_remaining, v_to_take)
+      WHERE id = v_entry.id;
+
+      v_to_take := v_to_take - LEAST(v_entry.points_remaining, v_to_take);
+    END LOOP;
+
+    INSERT INTO loyalty_ledger (customer_id, sale_id, entry_type, points, notes, created_by_name)
+    VALUES (
+      v_sale.customer_id,
+      p_sale_id,
+      'redeem',
+      -v_redeem_points,
+      'Redeemed on receipt ' || v_sale.receipt_number,
+      v_sale.sales_person_name
+    );
+  END IF;
+
+  IF v_sale.customer_id IS NULL OR NOT COALESCE((v_rules->>'enabled')::boolean, false) THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(SUM(
+    si.total_price * COALESCE((v_rules->'category_multipliers'->>p.category)::numeric, 1)
+  ), 0)
+  INTO v_eligible
+  FROM sale_items si
+  LEFT JOIN products p ON p.id = si.product_id
+  WHERE si.sale_id = p_sale_id
+    AND NOT COALESCE(v_rules->'excluded_categories' ? p.category, false);
+
+  -- The part of the sale paid with points does not earn points again
+  IF v_sale.total_amount > 0 THEN
+    v_eligible := v_eligible * (v_sale.total_amount - v_redeem_amount) / v_sale.total_amount;
+  END IF;
+
+  v_earned := floor(v_eligible * COALESCE((v_rules->>'points_per_100_kes')::numeric, 0) / 100)::integer;
+  v_expiry_months := COALESCE((v_rules->>'expiry_months')::integer, 0);
+
+  IF v_earned > 0 THEN
+    INSERT INTO loyalty_ledger (
+      customer_id,
+      sale_id,
+      entry_type,
+      points,
+      points_remaining,
+      expires_at,
+      notes,
+      created_by_name,
+      created_at
+    ) VALUES (
+      v_sale.customer_id,
+      p_sale_id,
+      'earn',
+      v_earned,
+      v_earned,
+      CASE WHEN v_expiry_months > 0 THEN v_sale.created_at + make_interval(months => v_expiry_months) END,
+      'Earned on receipt ' || v_sale.receipt_number,
+      v_sale.sales_person_name,
+      v_sale.created_at
+    );
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_sale_loyalty(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_sale_id uuid,
+  p_branch_code text,
+  p_customer_name text,
+  p_sales_person_id uuid,
+  p_sales_person_name text,
+  p_items jsonb,
+  p_payments jsonb,
+  p_sold_at timestamptz DEFAULT NULL,
+  p_offline boolean DEFAULT false,
+  p_insurance jsonb DEFAULT NULL,
+  p_customer_id uuid DEFAULT NULL,
+  p_prescription jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_item jsonb;
+  v_product products%ROWTYPE;
+  v_quantity integer;
+  v_total numeric(10,2) := 0;
+  v_paid numeric(10,2) := 0;
+  v_insured numeric(10,2) := 0;
+  v_methods text[];
+  v_shortfalls jsonb := '[]'::jsonb;
+  v_script_product text;
+  v_prescription_id uuid;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without items';
+  END IF;
+
+  IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without payment';
+  END IF;
+
+  -- Idempotent retry: the sale was already committed on a previous attempt
+  IF EXISTS (SELECT 1 FROM sales WHERE id = p_sale_id) THEN
+    RETURN get_sale_json(p_sale_id);
+  END IF;
+
+  -- Lock every product in a stable order and validate stock before writing anything
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item->>'product_name';
+    END IF;
+
+    SELECT * INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % no longer exists', v_item->>'product_name';
+    END IF;
+
+    IF v_product.current_stock < v_quantity THEN
+      IF NOT p_offline THEN
+        RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+          v_product.name, v_product.current_stock, v_quantity;
+      END IF;
+
+      v_shortfalls := v_shortfalls || jsonb_build_object(
+        'product_id', v_product.id,
+        'product_name', v_product.name,
+        'batch_number', v_product.batch_number,
+        'quantity_sold', v_quantity,
+        'stock_available', v_product.current_stock
+      );
+    END IF;
+
+    IF v_product.drug_schedule <> 'otc' AND v_script_product IS NULL THEN
+      v_script_product := v_product.name;
+    END IF;
+
+    v_total := v_total + (v_item->>'total_price')::numeric;
+  END LOOP;
+
+  -- Offline sales were checked on the till against the cached catalogue
+  IF v_script_product IS NOT NULL AND NOT p_offline AND (
+    p_prescription IS NULL
+    OR NULLIF(trim(p_prescription->>'prescriber_name'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'prescriber_licence'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'patient_name'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'reference'), '') IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Prescription details are required for %', v_script_product;
+  END IF;
+
+  SELECT COALESCE(SUM((value->>'amount')::numeric), 0),
+         COALESCE(SUM((value->>'amount')::numeric) FILTER (WHERE value->>'payment_method' = 'insurance'), 0),
+         array_agg(DISTINCT value->>'payment_method')
+  INTO v_paid, v_insured, v_methods
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_paid <> v_total THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', v_paid, v_total;
+  END IF;
+
+  IF v_insured > 0 AND (
+    p_insurance IS NULL
+    OR NULLIF(p_insurance->>'insurer_id', '') IS NULL
+    OR NULLIF(trim(p_insurance->>'member_number'), '') IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Insurer and member number are required for insurance payments';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM customers WHERE id = p_customer_id) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  INSERT INTO sales (
+    id,
+    receipt_number,
+    customer_id,
+    customer_name,
+    total_amount,
+    payment_method,
+    mpesa_receipt_number,
+    sales_person_id,
+    sales_person_name,
+    created_at
+  ) VALUES (
+    p_sale_id,
+    generate_receipt_number(COALESCE(NULLIF(p_branch_code, ''), 'MAIN')),
+    p_customer_id,
+    COALESCE(NULLIF(p_customer_name, ''), (SELECT name FROM customers WHERE id = p_customer_id)),
+    v_total,
+    CASE WHEN array_length(v_methods, 1) > 1 THEN 'split' ELSE v_methods[1] END,
+    (
+      SELECT NULLIF(value->>'reference', '')
+      FROM jsonb_array_elements(p_payments)
+      WHERE value->>'payment_method' = 'mpesa'
+      LIMIT 1
+    ),
+    p_sales_person_id,
+    p_sales_person_name,
+    COALESCE(p_sold_at, now())
+  );
+
+  INSERT INTO sale_items (
+    sale_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    total_price,
+    batch_number
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::numeric,
+    (value->>'total_price')::numeric,
+    value->>'batch_number'
+  FROM jsonb_array_elements(p_items);
+
+  INSERT INTO sale_payments (
+    sale_id,
+    payment_method,
+    amount,
+    reference,
+    tendered_amount,
+    change_amount
+  )
+  SELECT
+    p_sale_id,
+    value->>'payment_method',
+    (value->>'amount')::numeric,
+    NULLIF(value->>'reference', ''),
+    (value->>'tendered_amount')::numeric,
+    COALESCE((value->>'change_amount')::numeric, 0)
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_insured > 0 THEN
+    INSERT INTO sale_insurance (
+      sale_id,
+      insurer_id,
+      scheme_id,
+      member_number,
+      member_name,
+      preauth_number,
+      insurer_amount,
+      copay_amount
+    ) VALUES (
+      p_sale_id,
+      (p_insurance->>'insurer_id')::uuid,
+      NULLIF(p_insurance->>'scheme_id', '')::uuid,
+      trim(p_insurance->>'member_number'),
+      NULLIF(trim(p_insurance->>'member_name'), ''),
+      NULLIF(trim(p_insurance->>'preauth_number'), ''),
+      v_insured,
+      v_total - v_insured
+    );
+  END IF;
+
+  -- Offline replays clamp at zero; the missing units are in sale_sync_exceptions
+  UPDATE products p
+  SET current_stock = GREATEST(p.current_stock - i.quantity, 0),
+      updated_at = now()
+  FROM (
+    SELECT (value->>'product_id')::uuid AS product_id,
+           SUM((value->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items)
+    GROUP BY 1
+  ) i
+  WHERE p.id = i.product_id;
+
+  IF p_prescription IS NOT NULL THEN
+    INSERT INTO prescriptions (
+      sale_id,
+      customer_id,
+      prescriber_name,
+      prescriber_licence,
+      patient_name,
+      reference,
+      image_path,
+      dispensed_by,
+      dispensed_by_name
+    ) VALUES (
+      p_sale_id,
+      p_customer_id,
+      trim(p_prescription->>'prescriber_name'),
+      trim(p_prescription->>'prescriber_licence'),
+      trim(p_prescription->>'patient_name'),
+      trim(p_prescription->>'reference'),
+      NULLIF(p_prescription->>'image_path', ''),
+      p_sales_person_id,
+      p_sales_person_name
+    )
+    RETURNING id INTO v_prescription_id;
+  END IF;
+
+  -- Balances are read after the stock update above
+  INSERT INTO controlled_drug_register (
+    product_id,
+    product_name,
+    batch_number,
+    sale_id,
+    prescription_id,
+    quantity,
+    balance_after,
+    dispensed_by,
+    dispensed_by_name,
+    created_at
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.batch_number,
+    p_sale_id,
+    v_prescription_id,
+    (value->>'quantity')::integer,
+    p.current_stock,
+    p_sales_person_id,
+    p_sales_person_name,
+    COALESCE(p_sold_at, now())
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid
+  WHERE p.drug_schedule = 'controlled';
+
+  INSERT INTO sale_sync_exceptions (
+    sale_id,
+    product_id,
+    product_name,
+    batch_number,
+    quantity_sold,
+    stock_available,
+    shortfall
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    value->>'batch_number',
+    (value->>'quantity_sold')::integer,
+    (value->>'stock_available')::integer,
+    (value->>'quantity_sold')::integer - (value->>'stock_available')::integer
+  FROM jsonb_array_elements(v_shortfalls);
+
+  INSERT INTO price_history (product_id, cost_price, selling_price, user_id, user_name)
+  SELECT
+    p.id,
+    p.cost_price,
+    (value->>'unit_price')::numeric,
+    p_sales_person_id,
+    p_sales_person_name
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid;
+
+  -- Raises if a loyalty tender is larger than the customer's balance
+  PERFORM apply_sale_loyalty(p_sale_id);
+
+  RETURN get_sale_json(p_sale_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(uuid, text, text, uuid, text, jsonb, jsonb, timestamptz, boolean, jsonb, uuid, jsonb) TO authenticated;
@@ -0,0 +1,570 @@
+/*
+  # Promotions and Checkout Discounts
+
+  1. Overview
+    - The till only allowed manual price edits per line. Admins can now define
+      promotions that the POS applies to the cart automatically
+    - Promotion types:
+      - percent: percentage off each unit, or off the cart
+      - fixed: KES off each unit, or off the cart total
+      - buy_x_get_y: buy `buy_quantity` units and get `get_quantity` free
+      - bundle: `buy_quantity` units for a bundle price of `value`
+    - Any promotion can be limited to a date range, a daily time window
+      (happy hour) and days of the week. Promotions with a `code` only apply
+      when the cashier enters the code at checkout
+    - Discounts never take a line below the 33% margin floor unless an admin
+      has allowed it on the promotion (`allow_below_floor`)
+
+  2. Changes
+    - `sale_items.discount_amount` (numeric) - Discount taken off the line.
+      `unit_price` and `total_price` are after the discount, so revenue and
+      refunds are unchanged
+    - `process_sale` takes `p_discounts` (optional) and rejects the checkout
+      unless the discount lines add up to the discounts on the items
+    - `get_sale_json` includes item discounts and the discount lines
+
+  3. New Tables
+    - `promotions`
+      - `name` (text)
+      - `promotion_type` (text) - percent, fixed, buy_x_get_y or bundle
+      - `applies_to` (text) - product, category or cart
+      - `product_id` (uuid, optional) / `category` (text, optional)
+      - `value` (numeric) - Percent, KES off or bundle price
+      - `buy_quantity`, `get_quantity` (integer, optional)
+      - `code` (text, optional, unique) - Discount code to enter at checkout
+      - `starts_at`, `ends_at` (timestamptz, optional)
+      - `daily_start_time`, `daily_end_time` (time, optional)
+      - `days_of_week` (integer[], optional) - 0 = Sunday
+      - `allow_below_floor` (boolean) - Admin override of the margin floor
+      - `is_active` (boolean)
+    - `sale_discounts` - Discount lines printed on the receipt
+      - `sale_id` (uuid, references sales)
+      - `promotion_id` (uuid, optional)
+      - `product_id` (uuid, optional) - Empty for cart-level discounts
+      - `description` (text)
+      - `amount` (numeric)
+      - `created_at` (timestamptz) - When the sale was made
+
+  4. Security
+    - RLS enabled on both tables
+    - All authenticated users can read promotions; only admins can change them
+    - `sale_discounts` follows `sale_payments` (read/insert for authenticated users)
+*/
+
+CREATE TABLE IF NOT EXISTS promotions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  promotion_type text NOT NULL CHECK (promotion_type IN ('percent', 'fixed', 'buy_x_get_y', 'bundle')),
+  applies_to text NOT NULL CHECK (applies_to IN ('product', 'category', 'cart')),
+  product_id uuid REFERENCES products(id) ON DELETE CASCADE,
+  category text,
+  value numeric(10,2) NOT NULL DEFAULT 0 CHECK (value >= 0),
+  buy_quantity integer CHECK (buy_quantity > 0),
+  get_quantity integer CHECK (get_quantity > 0),
+  code text,
+  starts_at timestamptz,
+  ends_at timestamptz,
+  daily_start_time time,
+  daily_end_time time,
+  days_of_week integer[],
+  allow_below_floor boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by_name text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CONSTRAINT promotions_target_check CHECK (
+    (applies_to = 'product' AND product_id IS NOT NULL)
+    OR (applies_to = 'category' AND category IS NOT NULL)
+    OR (applies_to = 'cart' AND promotion_type IN ('percent', 'fixed'))
+  ),
+  CONSTRAINT promotions_quantity_check CHECK (
+    (promotion_type <> 'buy_x_get_y' OR (buy_quantity IS NOT NULL AND get_quantity IS NOT NULL))
+    AND (promotion_type <> 'bundle' OR buy_quantity IS NOT NULL)
+  ),
+  CONSTRAINT promotions_percent_check CHECK (promotion_type <> 'percent' OR value <= 100)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promotions_code ON promotions(upper(code)) WHERE code IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_promotions_active ON promotions(is_active);
+
+ALTER TABLE promotions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "promotions_select"
+  ON public.promotions FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "promotions_insert"
+  ON public.promotions FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "promotions_update"
+  ON public.promotions FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "promotions_delete"
+  ON public.promotions FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION update_promotions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_promotions_updated_at
+  BEFORE UPDATE ON promotions
+  FOR EACH ROW
+  EXECUTE FUNCTION update_promotions_updated_at();
+
+ALTER TABLE sale_items ADD COLUMN IF NOT EXISTS discount_amount numeric(10,2) NOT NULL DEFAULT 0
+  CHECK (discount_amount >= 0);
+
+CREATE TABLE IF NOT EXISTS sale_discounts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id uuid NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+  promotion_id uuid REFERENCES promotions(id) ON DELETE SET NULL,
+  product_id uuid REFERENCES products(id) ON DELETE SET NULL,
+  description text NOT NULL,
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sale_discounts_sale_id ON sale_discounts(sale_id);
+CREATE INDEX IF NOT EXISTS idx_sale_discounts_created_at ON sale_discounts(created_at);
+
+ALTER TABLE sale_discounts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "sale_discounts_select"
+  ON public.sale_discounts FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "sale_discounts_insert"
+  ON public.sale_discounts FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE OR REPLACE FUNCTION public.get_sale_json(p_sale_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT jsonb_build_object(
+    'id', s.id,
+    'receipt_number', s.receipt_number,
+    'customer_name', s.customer_name,
+    'total_amount', s.total_amount,
+    'payment_method', s.payment_method,
+    'sales_person_id', s.sales_person_id,
+    'sales_person_name', s.sales_person_name,
+    'created_at', s.created_at,
+    'sale_items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', si.product_id,
+        'product_name', si.product_name,
+        'quantity', si.quantity,
+        'unit_price', si.unit_price,
+        'total_price', si.total_price,
+        'discount_amount', si.discount_amount,
+        'batch_number', si.batch_number
+      ))
+      FROM sale_items si
+      WHERE si.sale_id = s.id
+    ), '[]'::jsonb),
+    'sale_payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payment_method', sp.payment_method,
+        'amount', sp.amount,
+        'reference', sp.reference,
+        'tendered_amount', sp.tendered_amount,
+        'change_amount', sp.change_amount
+      ) ORDER BY sp.created_at)
+      FROM sale_payments sp
+      WHERE sp.sale_id = s.id
+    ), '[]'::jsonb),
+    'sale_discounts', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'promotion_id', sd.promotion_id,
+        'product_id', sd.product_id,
+        'description', sd.description,
+        'amount', sd.amount
+      ))
+      FROM sale_discounts sd
+      WHERE sd.sale_id = s.id
+    ), '[]'::jsonb)
+  )
+  FROM sales s
+  WHERE s.id = p_sale_id;
+$$;
+
+DROP FUNCTION IF EXISTS public.process_sale(uuid, text, text, uuid, text, jsonb, jsonb, timestamptz, boolean, jsonb, uuid, jsonb);
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_sale_id uuid,
+  p_branch_code text,
+  p_customer_name text,
+  p_sales_person_id uuid,
+  p_sales_person_name text,
+  p_items jsonb,
+  p_payments jsonb,
+  p_sold_at timestamptz DEFAULT NULL,
+  p_offline boolean DEFAULT false,
+  p_insurance jsonb DEFAULT NULL,
+  p_customer_id uuid DEFAULT NULL,
+  p_prescription jsonb DEFAULT NULL,
+  p_discounts jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_item jsonb;
+  v_product products%ROWTYPE;
+  v_quantity integer;
+  v_total numeric(10,2) := 0;
+  v_paid numeric(10,2) := 0;
+  v_insured numeric(10,2) := 0;
+  v_discounted numeric(10,2) := 0;
+  v_methods text[];
+  v_shortfalls jsonb := '[]'::jsonb;
+  v_script_product text;
+  v_prescription_id uuid;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without items';
+  END IF;
+
+  IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without payment';
+  END IF;
+
+  -- Idempotent retry: the sale was already committed on a previous attempt
+  IF EXISTS (SELECT 1 FROM sales WHERE id = p_sale_id) THEN
+    RETURN get_sale_json(p_sale_id);
+  END IF;
+
+  -- Lock every product in a stable order and validate stock before writing anything
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item->>'product_name';
+    END IF;
+
+    SELECT * INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % no longer exists', v_item->>'product_name';
+    END IF;
+
+    IF v_product.current_stock < v_quantity THEN
+      IF NOT p_offline THEN
+        RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+          v_product.name, v_product.current_stock, v_quantity;
+      END IF;
+
+      v_shortfalls := v_shortfalls || jsonb_build_object(
+        'product_id', v_product.id,
+        'product_name', v_product.name,
+        'batch_number', v_product.batch_number,
+        'quantity_sold', v_quantity,
+        'stock_available', v_product.current_stock
+      );
+    END IF;
+
+    IF v_product.drug_schedule <> 'otc' AND v_script_product IS NULL THEN
+      v_script_product := v_product.name;
+    END IF;
+
+    v_total := v_total + (v_item->>'total_price')::numeric;
+  END LOOP;
+
+  -- Offline sales were checked on the till against the cached catalogue
+  IF v_script_product IS NOT NULL AND NOT p_offline AND (
+    p_prescription IS NULL
+    OR NULLIF(trim(p_prescription->>'prescriber_name'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'prescriber_licence'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'patient_name'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'reference'), '') IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Prescription details are required for %', v_script_product;
+  END IF;
+
+  SELECT COALESCE(SUM((value->>'amount')::numeric), 0),
+         COALESCE(SUM((value->>'amount')::numeric) FILTER (WHERE value->>'payment_method' = 'insurance'), 0),
+         array_agg(DISTINCT value->>'payment_method')
+  INTO v_paid, v_insured, v_methods
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_paid <> v_total THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', v_paid, v_total;
+  END IF;
+
+  SELECT COALESCE(SUM((value->>'discount_amount')::numeric), 0)
+  INTO v_discounted
+  FROM jsonb_array_elements(p_items);
+
+  IF v_discounted <> COALESCE((
+    SELECT SUM((value->>'amount')::numeric) FROM jsonb_array_elements(COALESCE(p_discounts, '[]'::jsonb))
+  ), 0) THEN
+    RAISE EXCEPTION 'Discount lines do not match the discounts on the items (%)', v_discounted;
+  END IF;
+
+  IF v_insured > 0 AND (
+    p_insurance IS NULL
+    OR NULLIF(p_insurance->>'insurer_id', '') IS NULL
+    OR NULLIF(trim(p_insurance->>'member_number'), '') IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Insurer and member number are required for insurance payments';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM customers WHERE id = p_customer_id) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  INSERT INTO sales (
+    id,
+    receipt_number,
+    customer_id,
+    customer_name,
+    total_amount,
+    payment_method,
+    mpesa_receipt_number,
+    sales_person_id,
+    sales_person_name,
+    created_at
+  ) VALUES (
+    p_sale_id,
+    generate_receipt_number(COALESCE(NULLIF(p_branch_code, ''), 'MAIN')),
+    p_customer_id,
+    COALESCE(NULLIF(p_customer_name, ''), (SELECT name FROM customers WHERE id = p_customer_id)),
+    v_total,
+    CASE WHEN array_length(v_methods, 1) > 1 THEN 'split' ELSE v_methods[1] END,
+    (
+      SELECT NULLIF(value->>'reference', '')
+      FROM jsonb_array_elements(p_payments)
+      WHERE value->>'payment_method' = 'mpesa'
+      LIMIT 1
+    ),
+    p_sales_person_id,
+    p_sales_person_name,
+    COALESCE(p_sold_at, now())
+  );
+
+  INSERT INTO sale_items (
+    sale_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    total_price,
+    discount_amount,
+    batch_number
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::numeric,
+    (value->>'total_price')::numeric,
+    COALESCE((value->>'discount_amount')::numeric, 0),
+    value->>'batch_number'
+  FROM jsonb_array_elements(p_items);
+
+  INSERT INTO sale_discounts (
+    sale_id,
+    promotion_id,
+    product_id,
+    description,
+    amount,
+    created_at
+  )
+  SELECT
+    p_sale_id,
+    NULLIF(value->>'promotion_id', '')::uuid,
+    NULLIF(value->>'product_id', '')::uuid,
+    value->>'description',
+    (value->>'amount')::numeric,
+    COALESCE(p_sold_at, now())
+  FROM jsonb_array_elements(COALESCE(p_discounts, '[]'::jsonb));
+
+  INSERT INTO sale_payments (
+    sale_id,
+    payment_method,
+    amount,
+    reference,
+    tendered_amount,
+    change_amount
+  )
+  SELECT
+    p_sale_id,
+    value->>'payment_method',
+    (value->>'amount')::numeric,
+    NULLIF(value->>'reference', ''),
+    (value->>'tendered_amount')::numeric,
+    COALESCE((value->>'change_amount')::numeric, 0)
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_insured > 0 THEN
+    INSERT INTO sale_insurance (
+      sale_id,
+      insurer_id,
+      scheme_id,
+      member_number,
+      member_name,
+      preauth_number,
+      insurer_amount,
+      copay_amount
+    ) VALUES (
+      p_sale_id,
+      (p_insurance->>'insurer_id')::uuid,
+      NULLIF(p_insurance->>'scheme_id', '')::uuid,
+      trim(p_insurance->>'member_number'),
+      NULLIF(trim(p_insurance->>'member_name'), ''),
+      NULLIF(trim(p_insurance->>'preauth_number'), ''),
+      v_insured,
+      v_total - v_insured
+    );
+  END IF;
+
+  -- Offline replays clamp at zero; the missing units are in sale_sync_exceptions
+  UPDATE products p
+  SET current_stock = GREATEST(p.current_stock - i.quantity, 0),
+      updated_at = now()
+  FROM (
+    SELECT (value->>'product_id')::uuid AS product_id,
+           SUM((value->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items)
+    GROUP BY 1
+  ) i
+  WHERE p.id = i.product_id;
+
+  IF p_prescription IS NOT NULL THEN
+    INSERT INTO prescriptions (
+      sale_id,
+      customer_id,
+      prescriber_name,
+      prescriber_licence,
+      patient_name,
+      reference,
+      image_path,
+      dispensed_by,
+      dispensed_by_name
+    ) VALUES (
+      p_sale_id,
+      p_customer_id,
+      trim(p_prescription->>'prescriber_name'),
+      trim(p_prescription->>'prescriber_licence'),
+      trim(p_prescription->>'patient_name'),
+      trim(p_prescription->>'reference'),
+      NULLIF(p_prescription->>'image_path', ''),
+      p_sales_person_id,
+      p_sales_person_name
+    )
+    RETURNING id INTO v_prescription_id;
+  END IF;
+
+  -- Balances are read after the stock update above
+  INSERT INTO controlled_drug_register (
+    product_id,
+    product_name,
+    batch_number,
+    sale_id,
+    prescription_id,
+    quantity,
+    balance_after,
+    dispensed_by,
+    dispensed_by_name,
+    created_at
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.batch_number,
+    p_sale_id,
+    v_prescription_id,
+    (value->>'quantity')::integer,
+    p.current_stock,
+    p_sales_person_id,
+    p_sales_person_name,
+    COALESCE(p_sold_at, now())
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid
+  WHERE p.drug_schedule = 'controlled';
+
+  INSERT INTO sale_sync_exceptions (
+    sale_id,
+    product_id,
+    product_name,
+    batch_number,
+    quantity_sold,
+    stock_available,
+    shortfall
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    value->>'batch_number',
+    (value->>'quantity_sold')::integer,
+    (value->>'stock_available')::integer,
+    (value->>'quantity_sold')::integer - (value->>'stock_available')::integer
+  FROM jsonb_array_elements(v_shortfalls);
+
+  INSERT INTO price_history (product_id, cost_price, selling_price, user_id, user_name)
+  SELECT
+    p.id,
+    p.cost_price,
+    (value->>'unit_price')::numeric,
+    p_sales_person_id,
+    p_sales_person_name
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid;
+
+  -- Raises if a loyalty tender is larger than the customer's balance
+  PERFORM apply_sale_loyalty(p_sale_id);
+
+  RETURN get_sale_json(p_sale_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(uuid, text, text, uuid, text, jsonb, jsonb, timestamptz, boolean, jsonb, uuid, jsonb, jsonb) TO authenticated;
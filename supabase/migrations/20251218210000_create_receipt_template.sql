@@ -0,0 +1,27 @@
+/*
+  # Receipt Template
+
+  1. Overview
+    - Receipts were printed from hard-coded HTML. The layout now comes from a
+      template that admins edit in Settings: business name, KRA PIN, address,
+      phone, footer message, logo, paper width (58mm or 80mm) and which fields
+      to print
+    - The same template is rendered as HTML for the browser print dialog and as
+      ESC/POS for thermal printers connected to the till over WebUSB or Web
+      Serial. Which printer a till uses is kept in that browser, not here
+    - Receipts printed again from Sales History are marked REPRINT
+
+  2. Changes
+    - Seeds `app_settings.receipt_template` with the previous receipt layout
+
+  3. Security
+    - No policy changes; `app_settings` is already readable by signed-in users
+      and writable by admins
+*/
+
+INSERT INTO app_settings (key, value)
+VALUES (
+  'receipt_template',
+  '{"business_name": "WESABI PHARMACY", "kra_pin": "", "address": "", "phone": "", "footer_message": "Thank you for your business!", "logo_data_url": null, "paper_width": 80, "show_logo": false, "show_kra_pin": true, "show_address": true, "show_phone": true, "show_customer": true, "show_batch_numbers": false, "show_payment_references": true, "show_served_by": true, "print_after_sale": false, "open_cash_drawer": true}'::jsonb
+)
+ON CONFLICT (key) DO NOTHING;
@@ -0,0 +1,166 @@
+/*
+  # Fiscal Invoices (KRA eTIMS)
+
+  1. Overview
+    - Every sale must be transmitted to KRA as a tax invoice. Each new sale is
+      queued here in the same transaction that records it, and the
+      `etims-submit` edge function sends it through the configured fiscal
+      adapter
+    - The invoice carries each line's VAT class (from `products.vat_rate`),
+      taxable amounts and VAT by rate, and the buyer's KRA PIN when given
+    - The control number and QR link KRA returns are stored on the invoice
+      and printed on the receipt
+    - Submissions that fail stay queued and are retried with a growing delay
+      (1, 2, 4 ... up to 60 minutes)
+
+  2. Changes
+    - `get_sale_json` includes the sale's fiscal invoice
+
+  3. New Tables
+    - `fiscal_invoices`
+      - `sale_id` (uuid, unique, references sales)
+      - `invoice_sequence` (bigint) - Numeric invoice number KRA requires
+      - `status` (text) - pending, submitted or failed
+      - `buyer_pin` (text, optional) - Buyer's KRA PIN
+      - `payload` (jsonb) - Invoice as last sent
+      - `adapter` (text) - Fiscal adapter that sent it
+      - `control_number` (text) - CU invoice number returned by KRA
+      - `invoice_number` (text) - Fiscal receipt number
+      - `qr_code` (text) - Verification link encoded in the receipt QR code
+      - `attempts` (integer), `last_error` (text), `next_attempt_at` (timestamptz)
+      - `submitted_at`, `created_at`, `updated_at` (timestamptz)
+
+  4. Security
+    - RLS enabled; authenticated users can read fiscal invoices
+    - Rows are written by the sale trigger and the edge function (service
+      role) only
+*/
+
+CREATE TABLE IF NOT EXISTS fiscal_invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id uuid NOT NULL UNIQUE REFERENCES sales(id) ON DELETE CASCADE,
+  invoice_sequence bigint GENERATED ALWAYS AS IDENTITY,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'submitted', 'failed')),
+  buyer_pin text,
+  payload jsonb,
+  adapter text,
+  control_number text,
+  invoice_number text,
+  qr_code text,
+  attempts integer NOT NULL DEFAULT 0,
+  last_error text,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  submitted_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_fiscal_invoices_due ON fiscal_invoices(next_attempt_at) WHERE status <> 'submitted';
+CREATE INDEX IF NOT EXISTS idx_fiscal_invoices_created_at ON fiscal_invoices(created_at);
+
+ALTER TABLE fiscal_invoices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "fiscal_invoices_select"
+  ON public.fiscal_invoices FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION update_fiscal_invoices_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_fiscal_invoices_updated_at
+  BEFORE UPDATE ON fiscal_invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION update_fiscal_invoices_updated_at();
+
+-- Queues the invoice with the sale, so a till that goes away before
+-- submitting still leaves it for the retry sweep
+CREATE OR REPLACE FUNCTION public.queue_fiscal_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  INSERT INTO fiscal_invoices (sale_id)
+  VALUES (NEW.id)
+  ON CONFLICT (sale_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_fiscal_invoice
+  AFTER INSERT ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION queue_fiscal_invoice();
+
+CREATE OR REPLACE FUNCTION public.get_sale_json(p_sale_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT jsonb_build_object(
+    'id', s.id,
+    'receipt_number', s.receipt_number,
+    'customer_name', s.customer_name,
+    'total_amount', s.total_amount,
+    'payment_method', s.payment_method,
+    'sales_person_id', s.sales_person_id,
+    'sales_person_name', s.sales_person_name,
+    'created_at', s.created_at,
+    'sale_items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', si.product_id,
+        'product_name', si.product_name,
+        'quantity', si.quantity,
+        'unit_price', si.unit_price,
+        'total_price', si.total_price,
+        'discount_amount', si.discount_amount,
+        'batch_number', si.batch_number
+      ))
+      FROM sale_items si
+      WHERE si.sale_id = s.id
+    ), '[]'::jsonb),
+    'sale_payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payment_method', sp.payment_method,
+        'amount', sp.amount,
+        'reference', sp.reference,
+        'tendered_amount', sp.tendered_amount,
+        'change_amount', sp.change_amount
+      ) ORDER BY sp.created_at)
+      FROM sale_payments sp
+      WHERE sp.sale_id = s.id
+    ), '[]'::jsonb),
+    'sale_discounts', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'promotion_id', sd.promotion_id,
+        'product_id', sd.product_id,
+        'description', sd.description,
+        'amount', sd.amount
+      ))
+      FROM sale_discounts sd
+      WHERE sd.sale_id = s.id
+    ), '[]'::jsonb),
+    'fiscal_invoice', (
+      SELECT jsonb_build_object(
+        'status', fi.status,
+        'buyer_pin', fi.buyer_pin,
+        'control_number', fi.control_number,
+        'invoice_number', fi.invoice_number,
+        'qr_code', fi.qr_code,
+        'last_error', fi.last_error
+      )
+      FROM fiscal_invoices fi
+      WHERE fi.sale_id = s.id
+    )
+  )
+  FROM sales s
+  WHERE s.id = p_sale_id;
+$$;
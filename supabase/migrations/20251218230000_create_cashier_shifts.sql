@@ -0,0 +1,538 @@
+/*
+  # Cashier Shifts
+
+  1. Overview
+    - Sales only accumulated per sales person, so there was no way to balance
+      a till. Cashiers now open a shift with a counted opening float, record
+      cash paid into or out of the drawer, and close the shift with a blind
+      cash count
+    - Every sale and customer return is tagged with the cashier's shift that
+      covers its time, including offline sales that sync after the fact
+    - The X-report is the running total of an open shift; the Z-report is
+      taken when the shift closes and is kept unchanged for admin review
+
+  2. Changes
+    - `sales.shift_id` and `invoice_reversals.shift_id` (uuid, references
+      cashier_shifts) - Set on insert by trigger
+
+  3. New Tables
+    - `cashier_shifts`
+      - `id` (uuid, primary key)
+      - `cashier_id` (uuid) / `cashier_name` (text)
+      - `status` (text) - open, closed or approved
+      - `opening_float` (numeric) - Cash counted into the drawer at opening
+      - `opened_at`, `closed_at` (timestamptz)
+      - `counted_cash` (numeric) - Blind count at close
+      - `expected_cash` (numeric) - Float + cash sales - cash refunds +
+        pay-ins - pay-outs, at close
+      - `cash_variance` (numeric) - Counted minus expected
+      - `closing_notes` (text)
+      - `z_report` (jsonb) - Report as it stood at close
+      - `reviewed_by` (uuid) / `reviewed_by_name` (text), `reviewed_at`,
+        `review_notes` - Admin sign-off
+    - `cash_movements`
+      - `id` (uuid, primary key)
+      - `shift_id` (uuid, references cashier_shifts)
+      - `movement_type` (text) - pay_in or pay_out
+      - `amount` (numeric), `reason` (text)
+      - `created_by` (uuid) / `created_by_name` (text)
+
+  4. New Functions
+    - `open_cashier_shift(p_opening_float, p_cashier_name)`
+    - `record_cash_movement(p_shift_id, p_movement_type, p_amount, p_reason, p_user_name)`
+    - `get_shift_report(p_shift_id)` - X-report for an open shift, the Z-report
+      once closed. Expected cash and variance are withheld from the cashier
+      while the shift is open, so the closing count stays blind
+    - `close_cashier_shift(p_shift_id, p_counted_cash, p_notes)` - Records the
+      count and returns the Z-report
+    - `approve_cashier_shift(p_shift_id, p_notes, p_user_name)` - Admin sign-off
+
+  5. Security
+    - RLS enabled; cashiers see and manage their own shifts, admins see and
+      review all of them
+    - One open shift per cashier
+*/
+
+CREATE TABLE IF NOT EXISTS cashier_shifts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  cashier_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE RESTRICT,
+  cashier_name text NOT NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed', 'approved')),
+  opening_float numeric(10,2) NOT NULL CHECK (opening_float >= 0),
+  opened_at timestamptz NOT NULL DEFAULT now(),
+  closed_at timestamptz,
+  counted_cash numeric(10,2) CHECK (counted_cash >= 0),
+  expected_cash numeric(10,2),
+  cash_variance numeric(10,2),
+  closing_notes text,
+  z_report jsonb,
+  reviewed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  reviewed_by_name text,
+  reviewed_at timestamptz,
+  review_notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (status = 'open' OR (closed_at IS NOT NULL AND counted_cash IS NOT NULL))
+);
+
+CREATE TABLE IF NOT EXISTS cash_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shift_id uuid NOT NULL REFERENCES cashier_shifts(id) ON DELETE CASCADE,
+  movement_type text NOT NULL CHECK (movement_type IN ('pay_in', 'pay_out')),
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  reason text NOT NULL,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_by_name text NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE sales
+  ADD COLUMN IF NOT EXISTS shift_id uuid REFERENCES cashier_shifts(id) ON DELETE SET NULL;
+
+ALTER TABLE invoice_reversals
+  ADD COLUMN IF NOT EXISTS shift_id uuid REFERENCES cashier_shifts(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cashier_shifts_one_open
+  ON cashier_shifts(cashier_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_cashier_shifts_cashier_opened ON cashier_shifts(cashier_id, opened_at);
+CREATE INDEX IF NOT EXISTS idx_cashier_shifts_status ON cashier_shifts(status);
+CREATE INDEX IF NOT EXISTS idx_cash_movements_shift ON cash_movements(shift_id);
+CREATE INDEX IF NOT EXISTS idx_sales_shift ON sales(shift_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_reversals_shift ON invoice_reversals(shift_id);
+
+ALTER TABLE cashier_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cash_movements ENABLE ROW LEVEL SECURITY;
+
+-- cashier_shifts
+CREATE POLICY "cashier_shifts_select"
+  ON public.cashier_shifts FOR SELECT
+  TO authenticated
+  USING (
+    cashier_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "cashier_shifts_insert"
+  ON public.cashier_shifts FOR INSERT
+  TO authenticated
+  WITH CHECK (cashier_id = auth.uid() AND status = 'open');
+
+CREATE POLICY "cashier_shifts_update"
+  ON public.cashier_shifts FOR UPDATE
+  TO authenticated
+  USING (
+    (cashier_id = auth.uid() AND status = 'open')
+    OR EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  )
+  WITH CHECK (
+    (cashier_id = auth.uid() AND status IN ('open', 'closed'))
+    OR EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+-- cash_movements
+CREATE POLICY "cash_movements_select"
+  ON public.cash_movements FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.cashier_shifts
+      WHERE id = shift_id
+      AND cashier_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE POLICY "cash_movements_insert"
+  ON public.cash_movements FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.cashier_shifts
+      WHERE id = shift_id
+      AND status = 'open'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION update_cashier_shifts_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_cashier_shifts_updated_at
+  BEFORE UPDATE ON cashier_shifts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_cashier_shifts_updated_at();
+
+-- Finds the cashier's shift that was open at the given time. Runs as owner so
+-- a sale by one user can be matched whatever the caller may read.
+CREATE OR REPLACE FUNCTION public.find_cashier_shift(p_cashier_id uuid, p_at timestamptz)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT id
+  FROM cashier_shifts
+  WHERE cashier_id = p_cashier_id
+  AND opened_at <= p_at
+  AND (closed_at IS NULL OR closed_at > p_at)
+  ORDER BY opened_at DESC
+  LIMIT 1;
+$$;
+
+CREATE OR REPLACE FUNCTION public.assign_sale_shift()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.shift_id IS NULL THEN
+    NEW.shift_id := find_cashier_shift(NEW.sales_person_id, COALESCE(NEW.created_at, now()));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_sale_shift
+  BEFORE INSERT ON sales
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_sale_shift();
+
+CREATE OR REPLACE FUNCTION public.assign_reversal_shift()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.shift_id IS NULL AND NEW.reversal_type = 'sales' THEN
+    NEW.shift_id := find_cashier_shift(NEW.user_id, COALESCE(NEW.created_at, now()));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_reversal_shift
+  BEFORE INSERT ON invoice_reversals
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_reversal_shift();
+
+CREATE OR REPLACE FUNCTION public.open_cashier_shift(
+  p_opening_float numeric,
+  p_cashier_name text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_shift_id uuid := gen_random_uuid();
+BEGIN
+  IF p_opening_float IS NULL OR p_opening_float < 0 THEN
+    RAISE EXCEPTION 'Opening float cannot be negative';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM cashier_shifts WHERE cashier_id = auth.uid() AND status = 'open') THEN
+    RAISE EXCEPTION 'You already have an open shift. Close it before opening another.';
+  END IF;
+
+  INSERT INTO cashier_shifts (id, cashier_id, cashier_name, opening_float)
+  VALUES (v_shift_id, auth.uid(), p_cashier_name, round(p_opening_float, 2));
+
+  RETURN v_shift_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.open_cashier_shift(numeric, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_cash_movement(
+  p_shift_id uuid,
+  p_movement_type text,
+  p_amount numeric,
+  p_reason text,
+  p_user_name text
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  IF NULLIF(trim(COALESCE(p_reason, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for the %', replace(p_movement_type, '_', '-');
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM cashier_shifts WHERE id = p_shift_id AND status = 'open') THEN
+    RAISE EXCEPTION 'Shift is not open';
+  END IF;
+
+  INSERT INTO cash_movements (shift_id, movement_type, amount, reason, created_by, created_by_name)
+  VALUES (p_shift_id, p_movement_type, round(p_amount, 2), trim(p_reason), auth.uid(), p_user_name);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_cash_movement(uuid, text, numeric, text, text) TO authenticated;
+
+-- Totals of everything tagged to the shift as it stands now
+CREATE OR REPLACE FUNCTION public.compute_shift_report(p_shift_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_shift cashier_shifts%ROWTYPE;
+  v_payments jsonb;
+  v_refunds jsonb;
+  v_sales_count integer;
+  v_gross_sales numeric(12,2);
+  v_discounts numeric(12,2);
+  v_returns_count integer;
+  v_pay_ins numeric(12,2);
+  v_pay_outs numeric(12,2);
+  v_expected numeric(12,2);
+BEGIN
+  SELECT * INTO v_shift FROM cashier_shifts WHERE id = p_shift_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(total_amount), 0)
+  INTO v_sales_count, v_gross_sales
+  FROM sales
+  WHERE shift_id = p_shift_id;
+
+  SELECT COALESCE(SUM(sd.amount), 0)
+  INTO v_discounts
+  FROM sale_discounts sd
+  JOIN sales s ON s.id = sd.sale_id
+  WHERE s.shift_id = p_shift_id;
+
+  SELECT COALESCE(jsonb_object_agg(payment_method, total), '{}'::jsonb)
+  INTO v_payments
+  FROM (
+    SELECT sp.payment_method, SUM(sp.amount) AS total
+    FROM sale_payments sp
+    JOIN sales s ON s.id = sp.sale_id
+    WHERE s.shift_id = p_shift_id
+    GROUP BY sp.payment_method
+  ) totals;
+
+  SELECT COUNT(*)
+  INTO v_returns_count
+  FROM invoice_reversals
+  WHERE shift_id = p_shift_id;
+
+  SELECT COALESCE(jsonb_object_agg(payment_method, total), '{}'::jsonb)
+  INTO v_refunds
+  FROM (
+    SELECT rp.payment_method, SUM(rp.amount) AS total
+    FROM sale_return_payments rp
+    JOIN invoice_reversals r ON r.id = rp.reversal_id
+    WHERE r.shift_id = p_shift_id
+    GROUP BY rp.payment_method
+  ) totals;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'pay_in'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'pay_out'), 0)
+  INTO v_pay_ins, v_pay_outs
+  FROM cash_movements
+  WHERE shift_id = p_shift_id;
+
+  v_expected := v_shift.opening_float
+    + COALESCE((v_payments->>'cash')::numeric, 0)
+    - COALESCE((v_refunds->>'cash')::numeric, 0)
+    + v_pay_ins
+    - v_pay_outs;
+
+  RETURN jsonb_build_object(
+    'shift_id', v_shift.id,
+    'cashier_id', v_shift.cashier_id,
+    'cashier_name', v_shift.cashier_name,
+    'status', v_shift.status,
+    'opened_at', v_shift.opened_at,
+    'closed_at', v_shift.closed_at,
+    'opening_float', v_shift.opening_float,
+    'sales_count', v_sales_count,
+    'gross_sales', v_gross_sales,
+    'discounts', v_discounts,
+    'payments', v_payments,
+    'returns_count', v_returns_count,
+    'refunds', v_refunds,
+    'pay_ins', v_pay_ins,
+    'pay_outs', v_pay_outs,
+    'cash_movements', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'movement_type', movement_type,
+        'amount', amount,
+        'reason', reason,
+        'created_by_name', created_by_name,
+        'created_at', created_at
+      ) ORDER BY created_at)
+      FROM cash_movements
+      WHERE shift_id = p_shift_id
+    ), '[]'::jsonb),
+    'expected_cash', v_expected,
+    'counted_cash', v_shift.counted_cash,
+    'cash_variance', CASE WHEN v_shift.counted_cash IS NULL THEN NULL ELSE v_shift.counted_cash - v_expected END,
+    'generated_at', now()
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_shift_report(p_shift_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_shift cashier_shifts%ROWTYPE;
+  v_report jsonb;
+BEGIN
+  SELECT * INTO v_shift FROM cashier_shifts WHERE id = p_shift_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  IF v_shift.status = 'open' THEN
+    v_report := compute_shift_report(p_shift_id);
+
+    IF NOT EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    ) THEN
+      v_report := v_report || jsonb_build_object('expected_cash', NULL);
+    END IF;
+  ELSE
+    v_report := v_shift.z_report;
+  END IF;
+
+  RETURN v_report || jsonb_build_object(
+    'status', v_shift.status,
+    'closing_notes', v_shift.closing_notes,
+    'reviewed_by_name', v_shift.reviewed_by_name,
+    'reviewed_at', v_shift.reviewed_at,
+    'review_notes', v_shift.review_notes
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_shift_report(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.close_cashier_shift(
+  p_shift_id uuid,
+  p_counted_cash numeric,
+  p_notes text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_shift cashier_shifts%ROWTYPE;
+  v_report jsonb;
+  v_expected numeric(12,2);
+  v_closed_at timestamptz := now();
+BEGIN
+  IF p_counted_cash IS NULL OR p_counted_cash < 0 THEN
+    RAISE EXCEPTION 'Counted cash cannot be negative';
+  END IF;
+
+  -- Locked so a second till cannot close the same shift with another count
+  SELECT * INTO v_shift FROM cashier_shifts WHERE id = p_shift_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  IF v_shift.status <> 'open' THEN
+    RAISE EXCEPTION 'Shift is already closed';
+  END IF;
+
+  v_report := compute_shift_report(p_shift_id);
+  v_expected := (v_report->>'expected_cash')::numeric;
+  v_report := v_report || jsonb_build_object(
+    'status', 'closed',
+    'closed_at', v_closed_at,
+    'counted_cash', round(p_counted_cash, 2),
+    'cash_variance', round(p_counted_cash, 2) - v_expected
+  );
+
+  UPDATE cashier_shifts
+  SET status = 'closed',
+      closed_at = v_closed_at,
+      counted_cash = round(p_counted_cash, 2),
+      expected_cash = v_expected,
+      cash_variance = round(p_counted_cash, 2) - v_expected,
+      closing_notes = NULLIF(trim(COALESCE(p_notes, '')), ''),
+      z_report = v_report
+  WHERE id = p_shift_id;
+
+  RETURN get_shift_report(p_shift_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.close_cashier_shift(uuid, numeric, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.approve_cashier_shift(
+  p_shift_id uuid,
+  p_notes text,
+  p_user_name text
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_id = auth.uid()
+    AND role IN ('super_admin', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can sign off shifts';
+  END IF;
+
+  UPDATE cashier_shifts
+  SET status = 'approved',
+      reviewed_by = auth.uid(),
+      reviewed_by_name = p_user_name,
+      reviewed_at = now(),
+      review_notes = NULLIF(trim(COALESCE(p_notes, '')), '')
+  WHERE id = p_shift_id
+  AND status = 'closed';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only closed shifts can be signed off';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.approve_cashier_shift(uuid, text, text) TO authenticated;
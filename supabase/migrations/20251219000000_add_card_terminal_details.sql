@@ -0,0 +1,709 @@
+/*
+  # Card Terminal Payment Details
+
+  1. Overview
+    - Card tenders were only a label. Card payments taken on a payment
+      terminal now keep the terminal's approval code, the masked card number
+      and the terminal and transaction ids, so they can be matched to the
+      acquirer's settlement report and refunded to the same card
+
+  2. Changes
+    - `sale_payments` and `sale_return_payments` gain
+      - `approval_code` (text) - Authorisation code from the card issuer
+      - `masked_pan` (text) - Card number as printed by the terminal, e.g.
+        ******1234. Never more than six digits in a row, so a full card number
+        cannot be stored by mistake
+      - `terminal_id` (text) - Terminal that took the payment
+      - `terminal_transaction_id` (text) - Terminal's id for the transaction
+    - `sale_payments.card_scheme` (text) - VISA, MASTERCARD, ...
+    - `process_sale` and `process_sale_return` store these from the tender
+    - `get_sale_json` and `get_sale_return_json` return them
+
+  3. Security
+    - No change; the new columns follow the existing table policies
+*/
+
+ALTER TABLE sale_payments
+  ADD COLUMN IF NOT EXISTS approval_code text,
+  ADD COLUMN IF NOT EXISTS masked_pan text CHECK (masked_pan !~ '[0-9]{7,}'),
+  ADD COLUMN IF NOT EXISTS card_scheme text,
+  ADD COLUMN IF NOT EXISTS terminal_id text,
+  ADD COLUMN IF NOT EXISTS terminal_transaction_id text;
+
+ALTER TABLE sale_return_payments
+  ADD COLUMN IF NOT EXISTS approval_code text,
+  ADD COLUMN IF NOT EXISTS masked_pan text CHECK (masked_pan !~ '[0-9]{7,}'),
+  ADD COLUMN IF NOT EXISTS terminal_id text,
+  ADD COLUMN IF NOT EXISTS terminal_transaction_id text;
+
+CREATE INDEX IF NOT EXISTS idx_sale_payments_terminal_transaction
+  ON sale_payments(terminal_transaction_id) WHERE terminal_transaction_id IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_sale_id uuid,
+  p_branch_code text,
+  p_customer_name text,
+  p_sales_person_id uuid,
+  p_sales_person_name text,
+  p_items jsonb,
+  p_payments jsonb,
+  p_sold_at timestamptz DEFAULT NULL,
+  p_offline boolean DEFAULT false,
+  p_insurance jsonb DEFAULT NULL,
+  p_customer_id uuid DEFAULT NULL,
+  p_prescription jsonb DEFAULT NULL,
+  p_discounts jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_item jsonb;
+  v_product products%ROWTYPE;
+  v_quantity integer;
+  v_total numeric(10,2) := 0;
+  v_paid numeric(10,2) := 0;
+  v_insured numeric(10,2) := 0;
+  v_discounted numeric(10,2) := 0;
+  v_methods text[];
+  v_shortfalls jsonb := '[]'::jsonb;
+  v_script_product text;
+  v_prescription_id uuid;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without items';
+  END IF;
+
+  IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without payment';
+  END IF;
+
+  -- Idempotent retry: the sale was already committed on a previous attempt
+  IF EXISTS (SELECT 1 FROM sales WHERE id = p_sale_id) THEN
+    RETURN get_sale_json(p_sale_id);
+  END IF;
+
+  -- Lock every product in a stable order and validate stock before writing anything
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item->>'product_name';
+    END IF;
+
+    SELECT * INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % no longer exists', v_item->>'product_name';
+    END IF;
+
+    -- Expired batches cannot be sold; offline sales were checked when they were made
+    IF v_product.expiry_date < COALESCE(p_sold_at, now())::date AND NOT p_offline THEN
+      RAISE EXCEPTION 'Batch % of % expired on %', v_product.batch_number, v_product.name, v_product.expiry_date;
+    END IF;
+
+    IF v_product.current_stock < v_quantity THEN
+      IF NOT p_offline THEN
+        RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+          v_product.name, v_product.current_stock, v_quantity;
+      END IF;
+
+      v_shortfalls := v_shortfalls || jsonb_build_object(
+        'product_id', v_product.id,
+        'product_name', v_product.name,
+        'batch_number', v_product.batch_number,
+        'quantity_sold', v_quantity,
+        'stock_available', v_product.current_stock
+      );
+    END IF;
+
+    IF v_product.drug_schedule <> 'otc' AND v_script_product IS NULL THEN
+      v_script_product := v_product.name;
+    END IF;
+
+    v_total := v_total + (v_item->>'total_price')::numeric;
+  END LOOP;
+
+  -- Offline sales were checked on the till against the cached catalogue
+  IF v_script_product IS NOT NULL AND NOT p_offline AND (
+    p_prescription IS NULL
+    OR NULLIF(trim(p_prescription->>'prescriber_name'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'prescriber_licence'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'patient_name'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'reference'), '') IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Prescription details are required for %', v_script_product;
+  END IF;
+
+  SELECT COALESCE(SUM((value->>'amount')::numeric), 0),
+         COALESCE(SUM((value->>'amount')::numeric) FILTER (WHERE value->>'payment_method' = 'insurance'), 0),
+         array_agg(DISTINCT value->>'payment_method')
+  INTO v_paid, v_insured, v_methods
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_paid <> v_total THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', v_paid, v_total;
+  END IF;
+
+  SELECT COALESCE(SUM((value->>'discount_amount')::numeric), 0)
+  INTO v_discounted
+  FROM jsonb_array_elements(p_items);
+
+  IF v_discounted <> COALESCE((
+    SELECT SUM((value->>'amount')::numeric) FROM jsonb_array_elements(COALESCE(p_discounts, '[]'::jsonb))
+  ), 0) THEN
+    RAISE EXCEPTION 'Discount lines do not match the discounts on the items (%)', v_discounted;
+  END IF;
+
+  IF v_insured > 0 AND (
+    p_insurance IS NULL
+    OR NULLIF(p_insurance->>'insurer_id', '') IS NULL
+    OR NULLIF(trim(p_insurance->>'member_number'), '') IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Insurer and member number are required for insurance payments';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM customers WHERE id = p_customer_id) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  INSERT INTO sales (
+    id,
+    receipt_number,
+    customer_id,
+    customer_name,
+    total_amount,
+    payment_method,
+    mpesa_receipt_number,
+    sales_person_id,
+    sales_person_name,
+    created_at
+  ) VALUES (
+    p_sale_id,
+    generate_receipt_number(COALESCE(NULLIF(p_branch_code, ''), 'MAIN')),
+    p_customer_id,
+    COALESCE(NULLIF(p_customer_name, ''), (SELECT name FROM customers WHERE id = p_customer_id)),
+    v_total,
+    CASE WHEN array_length(v_methods, 1) > 1 THEN 'split' ELSE v_methods[1] END,
+    (
+      SELECT NULLIF(value->>'reference', '')
+      FROM jsonb_array_elements(p_payments)
+      WHERE value->>'payment_method' = 'mpesa'
+      LIMIT 1
+    ),
+    p_sales_person_id,
+    p_sales_person_name,
+    COALESCE(p_sold_at, now())
+  );
+
+  INSERT INTO sale_items (
+    sale_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    total_price,
+    discount_amount,
+    batch_number
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::numeric,
+    (value->>'total_price')::numeric,
+    COALESCE((value->>'discount_amount')::numeric, 0),
+    p.batch_number
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid;
+
+  INSERT INTO sale_discounts (
+    sale_id,
+    promotion_id,
+    product_id,
+    description,
+    amount,
+    created_at
+  )
+  SELECT
+    p_sale_id,
+    NULLIF(value->>'promotion_id', '')::uuid,
+    NULLIF(value->>'product_id', '')::uuid,
+    value->>'description',
+    (value->>'amount')::numeric,
+    COALESCE(p_sold_at, now())
+  FROM jsonb_array_elements(COALESCE(p_discounts, '[]'::jsonb));
+
+  INSERT INTO sale_payments (
+    sale_id,
+    payment_method,
+    amount,
+    reference,
+    tendered_amount,
+    change_amount,
+    approval_code,
+    masked_pan,
+    card_scheme,
+    terminal_id,
+    terminal_transaction_id
+  )
+  SELECT
+    p_sale_id,
+    value->>'payment_method',
+    (value->>'amount')::numeric,
+    NULLIF(value->>'reference', ''),
+    (value->>'tendered_amount')::numeric,
+    COALESCE((value->>'change_amount')::numeric, 0),
+    NULLIF(value->>'approval_code', ''),
+    NULLIF(value->>'masked_pan', ''),
+    NULLIF(value->>'card_scheme', ''),
+    NULLIF(value->>'terminal_id', ''),
+    NULLIF(value->>'terminal_transaction_id', '')
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_insured > 0 THEN
+    INSERT INTO sale_insurance (
+      sale_id,
+      insurer_id,
+      scheme_id,
+      member_number,
+      member_name,
+      preauth_number,
+      insurer_amount,
+      copay_amount
+    ) VALUES (
+      p_sale_id,
+      (p_insurance->>'insurer_id')::uuid,
+      NULLIF(p_insurance->>'scheme_id', '')::uuid,
+      trim(p_insurance->>'member_number'),
+      NULLIF(trim(p_insurance->>'member_name'), ''),
+      NULLIF(trim(p_insurance->>'preauth_number'), ''),
+      v_insured,
+      v_total - v_insured
+    );
+  END IF;
+
+  -- Offline replays clamp at zero; the missing units are in sale_sync_exceptions
+  UPDATE products p
+  SET current_stock = GREATEST(p.current_stock - i.quantity, 0),
+      updated_at = now()
+  FROM (
+    SELECT (value->>'product_id')::uuid AS product_id,
+           SUM((value->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items)
+    GROUP BY 1
+  ) i
+  WHERE p.id = i.product_id;
+
+  IF p_prescription IS NOT NULL THEN
+    INSERT INTO prescriptions (
+      sale_id,
+      customer_id,
+      prescriber_name,
+      prescriber_licence,
+      patient_name,
+      reference,
+      image_path,
+      dispensed_by,
+      dispensed_by_name
+    ) VALUES (
+      p_sale_id,
+      p_customer_id,
+      trim(p_prescription->>'prescriber_name'),
+      trim(p_prescription->>'prescriber_licence'),
+      trim(p_prescription->>'patient_name'),
+      trim(p_prescription->>'reference'),
+      NULLIF(p_prescription->>'image_path', ''),
+      p_sales_person_id,
+      p_sales_person_name
+    )
+    RETURNING id INTO v_prescription_id;
+  END IF;
+
+  -- Balances are read after the stock update above
+  INSERT INTO controlled_drug_register (
+    product_id,
+    product_name,
+    batch_number,
+    sale_id,
+    prescription_id,
+    quantity,
+    balance_after,
+    dispensed_by,
+    dispensed_by_name,
+    created_at
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.batch_number,
+    p_sale_id,
+    v_prescription_id,
+    (value->>'quantity')::integer,
+    p.current_stock,
+    p_sales_person_id,
+    p_sales_person_name,
+    COALESCE(p_sold_at, now())
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid
+  WHERE p.drug_schedule = 'controlled';
+
+  INSERT INTO sale_sync_exceptions (
+    sale_id,
+    product_id,
+    product_name,
+    batch_number,
+    quantity_sold,
+    stock_available,
+    shortfall
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    value->>'batch_number',
+    (value->>'quantity_sold')::integer,
+    (value->>'stock_available')::integer,
+    (value->>'quantity_sold')::integer - (value->>'stock_available')::integer
+  FROM jsonb_array_elements(v_shortfalls);
+
+  INSERT INTO price_history (product_id, cost_price, selling_price, user_id, user_name)
+  SELECT
+    p.id,
+    p.cost_price,
+    (value->>'unit_price')::numeric,
+    p_sales_person_id,
+    p_sales_person_name
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid;
+
+  -- Raises if a loyalty tender is larger than the customer's balance
+  PERFORM apply_sale_loyalty(p_sale_id);
+
+  RETURN get_sale_json(p_sale_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(uuid, text, text, uuid, text, jsonb, jsonb, timestamptz, boolean, jsonb, uuid, jsonb, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_sale_json(p_sale_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT jsonb_build_object(
+    'id', s.id,
+    'receipt_number', s.receipt_number,
+    'customer_name', s.customer_name,
+    'total_amount', s.total_amount,
+    'payment_method', s.payment_method,
+    'sales_person_id', s.sales_person_id,
+    'sales_person_name', s.sales_person_name,
+    'created_at', s.created_at,
+    'sale_items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'product_id', si.product_id,
+        'product_name', si.product_name,
+        'quantity', si.quantity,
+        'unit_price', si.unit_price,
+        'total_price', si.total_price,
+        'discount_amount', si.discount_amount,
+        'batch_number', si.batch_number
+      ))
+      FROM sale_items si
+      WHERE si.sale_id = s.id
+    ), '[]'::jsonb),
+    'sale_payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payment_method', sp.payment_method,
+        'amount', sp.amount,
+        'reference', sp.reference,
+        'tendered_amount', sp.tendered_amount,
+        'change_amount', sp.change_amount,
+        'approval_code', sp.approval_code,
+        'masked_pan', sp.masked_pan,
+        'card_scheme', sp.card_scheme,
+        'terminal_id', sp.terminal_id,
+        'terminal_transaction_id', sp.terminal_transaction_id
+      ) ORDER BY sp.created_at)
+      FROM sale_payments sp
+      WHERE sp.sale_id = s.id
+    ), '[]'::jsonb),
+    'sale_discounts', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'promotion_id', sd.promotion_id,
+        'product_id', sd.product_id,
+        'description', sd.description,
+        'amount', sd.amount
+      ))
+      FROM sale_discounts sd
+      WHERE sd.sale_id = s.id
+    ), '[]'::jsonb),
+    'fiscal_invoice', (
+      SELECT jsonb_build_object(
+        'status', fi.status,
+        'buyer_pin', fi.buyer_pin,
+        'control_number', fi.control_number,
+        'invoice_number', fi.invoice_number,
+        'qr_code', fi.qr_code,
+        'last_error', fi.last_error
+      )
+      FROM fiscal_invoices fi
+      WHERE fi.sale_id = s.id
+    )
+  )
+  FROM sales s
+  WHERE s.id = p_sale_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_sale_return_json(p_reversal_id uuid)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT jsonb_build_object(
+    'id', r.id,
+    'original_sale_id', r.original_sale_id,
+    'reversal_number', r.reversal_number,
+    'total_amount', r.total_amount,
+    'reason', r.reason,
+    'notes', r.notes,
+    'user_name', r.user_name,
+    'created_at', r.created_at,
+    'invoice_reversal_items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'original_sale_item_id', ri.original_sale_item_id,
+        'product_id', ri.product_id,
+        'product_name', ri.product_name,
+        'batch_number', ri.batch_number,
+        'quantity', ri.quantity,
+        'selling_price', ri.selling_price
+      ))
+      FROM invoice_reversal_items ri
+      WHERE ri.reversal_id = r.id
+    ), '[]'::jsonb),
+    'sale_return_payments', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'payment_method', rp.payment_method,
+        'amount', rp.amount,
+        'reference', rp.reference,
+        'approval_code', rp.approval_code,
+        'masked_pan', rp.masked_pan,
+        'terminal_id', rp.terminal_id,
+        'terminal_transaction_id', rp.terminal_transaction_id
+      ) ORDER BY rp.created_at)
+      FROM sale_return_payments rp
+      WHERE rp.reversal_id = r.id
+    ), '[]'::jsonb)
+  )
+  FROM invoice_reversals r
+  WHERE r.id = p_reversal_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.process_sale_return(
+  p_reversal_id uuid,
+  p_sale_id uuid,
+  p_reason text,
+  p_notes text,
+  p_user_name text,
+  p_items jsonb,
+  p_refunds jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_sale sales%ROWTYPE;
+  v_item jsonb;
+  v_sale_item sale_items%ROWTYPE;
+  v_product_id uuid;
+  v_cost_price numeric(10,2);
+  v_quantity integer;
+  v_returned integer;
+  v_total numeric(10,2) := 0;
+  v_refunded numeric(10,2) := 0;
+  v_return_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Missing authorization header';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  IF p_refunds IS NULL OR jsonb_typeof(p_refunds) <> 'array' OR jsonb_array_length(p_refunds) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a return without refund tender';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT value->>'sale_item_id') FROM jsonb_array_elements(p_items)) <> jsonb_array_length(p_items) THEN
+    RAISE EXCEPTION 'Each receipt line can only appear once in a return';
+  END IF;
+
+  -- Idempotent retry: the return was already committed on a previous attempt
+  IF EXISTS (SELECT 1 FROM invoice_reversals WHERE id = p_reversal_id) THEN
+    RETURN get_sale_return_json(p_reversal_id);
+  END IF;
+
+  -- Serialise returns against the same receipt
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found';
+  END IF;
+
+  -- Validate every line and compute the refund before writing anything
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT * INTO v_sale_item
+    FROM sale_items
+    WHERE id = (v_item->>'sale_item_id')::uuid
+    AND sale_id = p_sale_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item is not part of receipt %', v_sale.receipt_number;
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid return quantity for %', v_sale_item.product_name;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO v_returned
+    FROM invoice_reversal_items
+    WHERE original_sale_item_id = v_sale_item.id;
+
+    IF v_quantity > v_sale_item.quantity - v_returned THEN
+      RAISE EXCEPTION 'Cannot return % of %: % sold, % already returned',
+        v_quantity, v_sale_item.product_name, v_sale_item.quantity, v_returned;
+    END IF;
+
+    v_total := v_total + v_sale_item.unit_price * v_quantity;
+  END LOOP;
+
+  SELECT COALESCE(SUM((value->>'amount')::numeric), 0)
+  INTO v_refunded
+  FROM jsonb_array_elements(p_refunds);
+
+  IF v_refunded <> v_total THEN
+    RAISE EXCEPTION 'Refund (%) does not match returned items (%)', v_refunded, v_total;
+  END IF;
+
+  SELECT COUNT(*) INTO v_return_count
+  FROM invoice_reversals
+  WHERE original_sale_id = p_sale_id;
+
+  INSERT INTO invoice_reversals (
+    id,
+    original_sale_id,
+    reversal_number,
+    reversal_type,
+    total_amount,
+    reason,
+    notes,
+    user_id,
+    user_name
+  ) VALUES (
+    p_reversal_id,
+    p_sale_id,
+    'RTN-' || v_sale.receipt_number || '-' || (v_return_count + 1)::text,
+    'sales',
+    v_total,
+    COALESCE(NULLIF(p_reason, ''), 'Customer return'),
+    NULLIF(p_notes, ''),
+    auth.uid(),
+    p_user_name
+  );
+
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT * INTO v_sale_item
+    FROM sale_items
+    WHERE id = (v_item->>'sale_item_id')::uuid;
+
+    -- Restock the exact batch the line was sold from
+    v_product_id := v_sale_item.product_id;
+    IF v_product_id IS NULL THEN
+      SELECT id INTO v_product_id
+      FROM products
+      WHERE name = v_sale_item.product_name
+      AND batch_number IS NOT DISTINCT FROM v_sale_item.batch_number
+      LIMIT 1;
+    END IF;
+
+    IF v_product_id IS NULL THEN
+      RAISE EXCEPTION 'Batch % of % no longer exists in inventory',
+        COALESCE(v_sale_item.batch_number, '-'), v_sale_item.product_name;
+    END IF;
+
+    UPDATE products
+    SET current_stock = current_stock + v_quantity,
+        updated_at = now()
+    WHERE id = v_product_id
+    RETURNING cost_price INTO v_cost_price;
+
+    INSERT INTO invoice_reversal_items (
+      reversal_id,
+      original_sale_item_id,
+      product_id,
+      product_name,
+      batch_number,
+      quantity,
+      cost_price,
+      selling_price,
+      total_cost
+    ) VALUES (
+      p_reversal_id,
+      v_sale_item.id,
+      v_product_id,
+      v_sale_item.product_name,
+      v_sale_item.batch_number,
+      v_quantity,
+      COALESCE(v_cost_price, 0),
+      v_sale_item.unit_price,
+      COALESCE(v_cost_price, 0) * v_quantity
+    );
+  END LOOP;
+
+  INSERT INTO sale_return_payments (
+    reversal_id,
+    payment_method,
+    amount,
+    reference,
+    approval_code,
+    masked_pan,
+    terminal_id,
+    terminal_transaction_id
+  )
+  SELECT
+    p_reversal_id,
+    value->>'payment_method',
+    (value->>'amount')::numeric,
+    NULLIF(value->>'reference', ''),
+    NULLIF(value->>'approval_code', ''),
+    NULLIF(value->>'masked_pan', ''),
+    NULLIF(value->>'terminal_id', ''),
+    NULLIF(value->>'terminal_transaction_id', '')
+  FROM jsonb_array_elements(p_refunds);
+
+  RETURN get_sale_return_json(p_reversal_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale_return(uuid, uuid, text, text, text, jsonb, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_sale_return_json(uuid) TO authenticated;
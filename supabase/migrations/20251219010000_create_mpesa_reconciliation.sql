@@ -0,0 +1,572 @@
+/*
+  # M-Pesa Reconciliation
+
+  1. Overview
+    - `mpesa-c2b-confirmation` recorded till payments in `mpesa_transactions`
+      but nothing tied them to the sales they paid for, so payments made
+      without an STK push were reconciled by hand
+    - Every completed M-Pesa transaction is now matched to the M-Pesa tender
+      of a sale, as soon as either side is recorded:
+      1. the M-Pesa code typed or captured as the tender reference
+      2. the bill reference (account number) entered by the customer matching
+         the sale receipt number
+      3. the same amount within 30 minutes of the sale, preferring the
+         customer's phone number; only when exactly one tender fits
+    - A second payment with an M-Pesa code already seen, or for a tender that
+      is already paid, is flagged as a duplicate. A payment smaller than its
+      tender is flagged as underpaid
+    - A sale whose M-Pesa tenders are not all backed by a transaction is kept
+      `payment_status = 'pending'` until they are
+    - Cashiers attach the payments the matcher could not place by hand, or
+      mark them as not for a sale (e.g. a supplier refund)
+
+  2. Changes
+    - `mpesa_transactions` gains
+      - `transaction_time` (timestamptz) - Parsed from `transaction_date`
+        (YYYYMMDDHHMMSS, Nairobi time); the insert time when missing
+      - `reconciliation_status` (text) - unmatched, matched, underpaid,
+        duplicate or ignored
+      - `match_method` (text) - receipt, bill_ref, amount_time or manual
+      - `sale_id` (uuid) / `sale_payment_id` (uuid) - The tender it paid
+      - `duplicate_of` (uuid) - Earlier transaction with the same M-Pesa code
+      - `variance` (numeric) - Transaction amount minus tender amount
+      - `reconciled_at` (timestamptz), `reconciled_by_name` (text),
+        `reconciliation_note` (text)
+
+  3. New Functions
+    - `match_mpesa_transaction(p_transaction_id)` - Runs the matcher for one
+      transaction and returns its reconciliation status
+    - `reconcile_mpesa_transactions(p_days)` - Re-runs the matcher over the
+      unmatched transactions of the last days
+    - `attach_mpesa_transaction(p_transaction_id, p_sale_payment_id, p_user_name)`
+    - `ignore_mpesa_transaction(p_transaction_id, p_note, p_user_name)`
+    - `get_mpesa_variance_report(p_from, p_to)` - M-Pesa statement vs system
+      totals per day
+
+  4. Security
+    - Matching runs as owner so it can update the sale status whoever records
+      the payment or the sale, including the service role callbacks
+    - Only unmatched transactions can be attached or ignored
+*/
+
+ALTER TABLE mpesa_transactions
+  ADD COLUMN IF NOT EXISTS transaction_time timestamptz,
+  ADD COLUMN IF NOT EXISTS reconciliation_status text NOT NULL DEFAULT 'unmatched'
+    CHECK (reconciliation_status IN ('unmatched', 'matched', 'underpaid', 'duplicate', 'ignored')),
+  ADD COLUMN IF NOT EXISTS match_method text
+    CHECK (match_method IN ('receipt', 'bill_ref', 'amount_time', 'manual')),
+  ADD COLUMN IF NOT EXISTS sale_id uuid REFERENCES sales(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS sale_payment_id uuid REFERENCES sale_payments(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS duplicate_of uuid REFERENCES mpesa_transactions(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS variance numeric(10,2),
+  ADD COLUMN IF NOT EXISTS reconciled_at timestamptz,
+  ADD COLUMN IF NOT EXISTS reconciled_by_name text,
+  ADD COLUMN IF NOT EXISTS reconciliation_note text;
+
+CREATE INDEX IF NOT EXISTS idx_mpesa_reconciliation_status
+  ON mpesa_transactions(reconciliation_status, transaction_time);
+CREATE INDEX IF NOT EXISTS idx_mpesa_sale_payment ON mpesa_transactions(sale_payment_id);
+CREATE INDEX IF NOT EXISTS idx_mpesa_sale ON mpesa_transactions(sale_id);
+
+-- M-Pesa sends local time as YYYYMMDDHHMMSS
+CREATE OR REPLACE FUNCTION public.parse_mpesa_time(p_value text)
+RETURNS timestamptz
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF p_value IS NULL OR p_value !~ '^[0-9]{14}$' THEN
+    RETURN NULL;
+  END IF;
+  RETURN to_timestamp(p_value, 'YYYYMMDDHH24MISS')::timestamp AT TIME ZONE 'Africa/Nairobi';
+EXCEPTION WHEN OTHERS THEN
+  RETURN NULL;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION set_mpesa_transaction_time()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.transaction_time := COALESCE(parse_mpesa_time(NEW.transaction_date), NEW.transaction_time, NEW.created_at, now());
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public, pg_temp;
+
+CREATE TRIGGER set_mpesa_transaction_time
+  BEFORE INSERT OR UPDATE OF transaction_date ON mpesa_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION set_mpesa_transaction_time();
+
+UPDATE mpesa_transactions
+SET transaction_time = COALESCE(parse_mpesa_time(transaction_date), created_at)
+WHERE transaction_time IS NULL;
+
+-- Whether a tender already has the payment that backs it
+CREATE OR REPLACE FUNCTION public.is_mpesa_tender_paid(p_sale_payment_id uuid, p_except uuid DEFAULT NULL)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM mpesa_transactions
+    WHERE sale_payment_id = p_sale_payment_id
+    AND reconciliation_status IN ('matched', 'underpaid')
+    AND id IS DISTINCT FROM p_except
+  );
+$$;
+
+-- A sale is pending while any of its M-Pesa tenders has no payment behind it
+CREATE OR REPLACE FUNCTION public.refresh_sale_mpesa_status(p_sale_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  UPDATE sales s
+  SET payment_status = CASE
+    WHEN EXISTS (
+      SELECT 1 FROM sale_payments sp
+      WHERE sp.sale_id = s.id
+      AND sp.payment_method = 'mpesa'
+      AND NOT is_mpesa_tender_paid(sp.id)
+    ) THEN 'pending'
+    ELSE 'completed'
+  END
+  WHERE s.id = p_sale_id;
+END;
+$$;
+
+-- Links a transaction to a tender and decides matched, underpaid or duplicate
+CREATE OR REPLACE FUNCTION public.link_mpesa_transaction(
+  p_transaction_id uuid,
+  p_sale_payment_id uuid,
+  p_method text,
+  p_user_name text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_transaction mpesa_transactions%ROWTYPE;
+  v_tender sale_payments%ROWTYPE;
+  v_status text;
+BEGIN
+  SELECT * INTO v_transaction FROM mpesa_transactions WHERE id = p_transaction_id FOR UPDATE;
+  SELECT * INTO v_tender FROM sale_payments WHERE id = p_sale_payment_id;
+
+  IF is_mpesa_tender_paid(v_tender.id, v_transaction.id) THEN
+    v_status := 'duplicate';
+  ELSIF v_transaction.amount < v_tender.amount THEN
+    v_status := 'underpaid';
+  ELSE
+    v_status := 'matched';
+  END IF;
+
+  UPDATE mpesa_transactions
+  SET reconciliation_status = v_status,
+      match_method = p_method,
+      sale_id = v_tender.sale_id,
+      sale_payment_id = v_tender.id,
+      variance = v_transaction.amount - v_tender.amount,
+      reconciled_at = now(),
+      reconciled_by_name = p_user_name,
+      updated_at = now()
+  WHERE id = v_transaction.id;
+
+  PERFORM refresh_sale_mpesa_status(v_tender.sale_id);
+
+  RETURN v_status;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.match_mpesa_transaction(p_transaction_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_transaction mpesa_transactions%ROWTYPE;
+  v_code text;
+  v_phone text;
+  v_original uuid;
+  v_tender_id uuid;
+  v_method text;
+  v_candidates uuid[];
+BEGIN
+  SELECT * INTO v_transaction FROM mpesa_transactions WHERE id = p_transaction_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'M-Pesa transaction not found';
+  END IF;
+
+  IF v_transaction.reconciliation_status <> 'unmatched'
+    OR v_transaction.transaction_status <> 'completed'
+    OR COALESCE(v_transaction.amount, 0) <= 0 THEN
+    RETURN v_transaction.reconciliation_status;
+  END IF;
+
+  v_code := upper(trim(v_transaction.mpesa_receipt_number));
+  v_phone := right(regexp_replace(COALESCE(v_transaction.phone_number, ''), '\D', '', 'g'), 9);
+
+  -- Safaricom retries callbacks, so the same code can arrive twice
+  IF v_code <> '' THEN
+    SELECT id INTO v_original
+    FROM mpesa_transactions
+    WHERE upper(trim(mpesa_receipt_number)) = v_code
+    AND transaction_status = 'completed'
+    AND id <> v_transaction.id
+    AND (created_at, id) < (v_transaction.created_at, v_transaction.id)
+    ORDER BY created_at
+    LIMIT 1;
+
+    IF v_original IS NOT NULL THEN
+      UPDATE mpesa_transactions
+      SET reconciliation_status = 'duplicate',
+          duplicate_of = v_original,
+          reconciled_at = now(),
+          updated_at = now()
+      WHERE id = v_transaction.id;
+      RETURN 'duplicate';
+    END IF;
+
+    SELECT sp.id INTO v_tender_id
+    FROM sale_payments sp
+    WHERE sp.payment_method = 'mpesa'
+    AND upper(trim(sp.reference)) = v_code
+    ORDER BY sp.created_at
+    LIMIT 1;
+    v_method := 'receipt';
+  END IF;
+
+  IF v_tender_id IS NULL AND COALESCE(trim(v_transaction.bill_ref_number), '') <> '' THEN
+    SELECT sp.id INTO v_tender_id
+    FROM sales s
+    JOIN sale_payments sp ON sp.sale_id = s.id AND sp.payment_method = 'mpesa'
+    WHERE upper(s.receipt_number) = upper(trim(v_transaction.bill_ref_number))
+    ORDER BY is_mpesa_tender_paid(sp.id), abs(sp.amount - v_transaction.amount), sp.created_at
+    LIMIT 1;
+    v_method := 'bill_ref';
+  END IF;
+
+  IF v_tender_id IS NULL THEN
+    SELECT array_agg(candidate.id ORDER BY candidate.phone_match DESC) INTO v_candidates
+    FROM (
+      SELECT sp.id,
+        v_phone <> '' AND v_phone IN (
+          right(regexp_replace(COALESCE(s.customer_phone, ''), '\D', '', 'g'), 9),
+          right(regexp_replace(COALESCE(c.phone, ''), '\D', '', 'g'), 9)
+        ) AS phone_match
+      FROM sale_payments sp
+      JOIN sales s ON s.id = sp.sale_id
+      LEFT JOIN customers c ON c.id = s.customer_id
+      WHERE sp.payment_method = 'mpesa'
+      AND sp.amount = v_transaction.amount
+      AND s.created_at BETWEEN v_transaction.transaction_time - interval '30 minutes'
+        AND v_transaction.transaction_time + interval '30 minutes'
+      AND NOT is_mpesa_tender_paid(sp.id)
+    ) candidate;
+
+    -- Only a single candidate, or a single one paid from the customer's phone,
+    -- is safe to match automatically
+    IF array_length(v_candidates, 1) = 1 THEN
+      v_tender_id := v_candidates[1];
+    ELSIF array_length(v_candidates, 1) > 1 THEN
+      SELECT (array_agg(sp.id))[1] INTO v_tender_id
+      FROM sale_payments sp
+      JOIN sales s ON s.id = sp.sale_id
+      LEFT JOIN customers c ON c.id = s.customer_id
+      WHERE sp.id = ANY(v_candidates)
+      AND v_phone <> ''
+      AND v_phone IN (
+        right(regexp_replace(COALESCE(s.customer_phone, ''), '\D', '', 'g'), 9),
+        right(regexp_replace(COALESCE(c.phone, ''), '\D', '', 'g'), 9)
+      )
+      HAVING count(*) = 1;
+    END IF;
+    v_method := 'amount_time';
+  END IF;
+
+  IF v_tender_id IS NULL THEN
+    RETURN 'unmatched';
+  END IF;
+
+  RETURN link_mpesa_transaction(v_transaction.id, v_tender_id, v_method);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION match_mpesa_transaction_on_insert()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM match_mpesa_transaction(NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+CREATE TRIGGER match_mpesa_transaction_on_insert
+  AFTER INSERT ON mpesa_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION match_mpesa_transaction_on_insert();
+
+-- A customer often pays the till before the cashier records the sale, so a
+-- new M-Pesa tender looks for a payment that is already waiting
+CREATE OR REPLACE FUNCTION match_mpesa_tender_on_insert()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_sale sales%ROWTYPE;
+  v_transaction_id uuid;
+BEGIN
+  IF NEW.payment_method <> 'mpesa' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_sale FROM sales WHERE id = NEW.sale_id;
+
+  FOR v_transaction_id IN
+    SELECT id
+    FROM mpesa_transactions
+    WHERE reconciliation_status = 'unmatched'
+    AND transaction_status = 'completed'
+    AND (
+      upper(trim(mpesa_receipt_number)) = upper(trim(NEW.reference))
+      OR upper(trim(bill_ref_number)) = upper(v_sale.receipt_number)
+      OR (
+        amount = NEW.amount
+        AND transaction_time BETWEEN v_sale.created_at - interval '30 minutes'
+          AND v_sale.created_at + interval '30 minutes'
+      )
+    )
+    ORDER BY transaction_time
+  LOOP
+    PERFORM match_mpesa_transaction(v_transaction_id);
+    EXIT WHEN is_mpesa_tender_paid(NEW.id);
+  END LOOP;
+
+  PERFORM refresh_sale_mpesa_status(NEW.sale_id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+CREATE TRIGGER match_mpesa_tender_on_insert
+  AFTER INSERT ON sale_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION match_mpesa_tender_on_insert();
+
+CREATE OR REPLACE FUNCTION public.reconcile_mpesa_transactions(p_days integer DEFAULT 7)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_transaction_id uuid;
+  v_matched integer := 0;
+BEGIN
+  IF auth.uid() IS NULL AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  FOR v_transaction_id IN
+    SELECT id
+    FROM mpesa_transactions
+    WHERE reconciliation_status = 'unmatched'
+    AND transaction_status = 'completed'
+    AND transaction_time >= now() - make_interval(days => p_days)
+    ORDER BY transaction_time
+  LOOP
+    IF match_mpesa_transaction(v_transaction_id) <> 'unmatched' THEN
+      v_matched := v_matched + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_matched;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.attach_mpesa_transaction(
+  p_transaction_id uuid,
+  p_sale_payment_id uuid,
+  p_user_name text
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_transaction mpesa_transactions%ROWTYPE;
+  v_tender sale_payments%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_transaction FROM mpesa_transactions WHERE id = p_transaction_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'M-Pesa transaction not found';
+  END IF;
+
+  IF v_transaction.reconciliation_status <> 'unmatched' OR v_transaction.transaction_status <> 'completed' THEN
+    RAISE EXCEPTION 'Only unmatched completed payments can be attached';
+  END IF;
+
+  SELECT * INTO v_tender FROM sale_payments WHERE id = p_sale_payment_id;
+
+  IF NOT FOUND OR v_tender.payment_method <> 'mpesa' THEN
+    RAISE EXCEPTION 'Select an M-Pesa payment on a sale';
+  END IF;
+
+  IF is_mpesa_tender_paid(v_tender.id) THEN
+    RAISE EXCEPTION 'This sale payment already has an M-Pesa payment attached';
+  END IF;
+
+  RETURN link_mpesa_transaction(v_transaction.id, v_tender.id, 'manual', p_user_name);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.ignore_mpesa_transaction(
+  p_transaction_id uuid,
+  p_note text,
+  p_user_name text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NULLIF(trim(p_note), '') IS NULL THEN
+    RAISE EXCEPTION 'Say what the payment was for';
+  END IF;
+
+  UPDATE mpesa_transactions
+  SET reconciliation_status = 'ignored',
+      reconciliation_note = trim(p_note),
+      reconciled_at = now(),
+      reconciled_by_name = p_user_name,
+      updated_at = now()
+  WHERE id = p_transaction_id
+  AND reconciliation_status = 'unmatched';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only unmatched payments can be set aside';
+  END IF;
+END;
+$$;
+
+-- Daily totals in Nairobi time. The variance is money on the M-Pesa statement
+-- minus M-Pesa tendered in the system; ignored payments are left out of both
+CREATE OR REPLACE FUNCTION public.get_mpesa_variance_report(p_from date, p_to date)
+RETURNS TABLE (
+  report_date date,
+  mpesa_count integer,
+  mpesa_total numeric,
+  system_count integer,
+  system_total numeric,
+  matched_total numeric,
+  unmatched_count integer,
+  unmatched_total numeric,
+  unpaid_tender_count integer,
+  unpaid_tender_total numeric,
+  underpaid_count integer,
+  underpaid_total numeric,
+  duplicate_count integer,
+  duplicate_total numeric,
+  variance numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+  WITH days AS (
+    SELECT generate_series(p_from, p_to, interval '1 day')::date AS day
+  ),
+  statement AS (
+    SELECT (transaction_time AT TIME ZONE 'Africa/Nairobi')::date AS day, *
+    FROM mpesa_transactions
+    WHERE transaction_status = 'completed'
+    AND amount > 0
+    AND reconciliation_status <> 'ignored'
+    AND transaction_time >= (p_from::timestamp AT TIME ZONE 'Africa/Nairobi')
+    AND transaction_time < ((p_to + 1)::timestamp AT TIME ZONE 'Africa/Nairobi')
+  ),
+  tenders AS (
+    SELECT (s.created_at AT TIME ZONE 'Africa/Nairobi')::date AS day, sp.id, sp.amount,
+      is_mpesa_tender_paid(sp.id) AS paid
+    FROM sale_payments sp
+    JOIN sales s ON s.id = sp.sale_id
+    WHERE sp.payment_method = 'mpesa'
+    AND s.created_at >= (p_from::timestamp AT TIME ZONE 'Africa/Nairobi')
+    AND s.created_at < ((p_to + 1)::timestamp AT TIME ZONE 'Africa/Nairobi')
+  )
+  SELECT
+    d.day,
+    COALESCE(st.mpesa_count, 0)::integer,
+    COALESCE(st.mpesa_total, 0),
+    COALESCE(t.system_count, 0)::integer,
+    COALESCE(t.system_total, 0),
+    COALESCE(st.matched_total, 0),
+    COALESCE(st.unmatched_count, 0)::integer,
+    COALESCE(st.unmatched_total, 0),
+    COALESCE(t.unpaid_count, 0)::integer,
+    COALESCE(t.unpaid_total, 0),
+    COALESCE(st.underpaid_count, 0)::integer,
+    COALESCE(st.underpaid_total, 0),
+    COALESCE(st.duplicate_count, 0)::integer,
+    COALESCE(st.duplicate_total, 0),
+    COALESCE(st.mpesa_total, 0) - COALESCE(t.system_total, 0)
+  FROM days d
+  LEFT JOIN (
+    SELECT day,
+      count(*) AS mpesa_count,
+      sum(amount) AS mpesa_total,
+      sum(amount) FILTER (WHERE reconciliation_status IN ('matched', 'underpaid')) AS matched_total,
+      count(*) FILTER (WHERE reconciliation_status = 'unmatched') AS unmatched_count,
+      sum(amount) FILTER (WHERE reconciliation_status = 'unmatched') AS unmatched_total,
+      count(*) FILTER (WHERE reconciliation_status = 'underpaid') AS underpaid_count,
+      -sum(variance) FILTER (WHERE reconciliation_status = 'underpaid') AS underpaid_total,
+      count(*) FILTER (WHERE reconciliation_status = 'duplicate') AS duplicate_count,
+      sum(amount) FILTER (WHERE reconciliation_status = 'duplicate') AS duplicate_total
+    FROM statement
+    GROUP BY day
+  ) st ON st.day = d.day
+  LEFT JOIN (
+    SELECT day,
+      count(*) AS system_count,
+      sum(amount) AS system_total,
+      count(*) FILTER (WHERE NOT paid) AS unpaid_count,
+      sum(amount) FILTER (WHERE NOT paid) AS unpaid_total
+    FROM tenders
+    GROUP BY day
+  ) t ON t.day = d.day
+  ORDER BY d.day DESC;
+$$;
+
+-- Match what is already on record
+DO $$
+DECLARE
+  v_transaction_id uuid;
+BEGIN
+  FOR v_transaction_id IN
+    SELECT id FROM mpesa_transactions
+    WHERE reconciliation_status = 'unmatched'
+    AND transaction_status = 'completed'
+    ORDER BY transaction_time
+  LOOP
+    PERFORM match_mpesa_transaction(v_transaction_id);
+  END LOOP;
+END $$;
+
+GRANT EXECUTE ON FUNCTION public.match_mpesa_transaction(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.reconcile_mpesa_transactions(integer) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.attach_mpesa_transaction(uuid, uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.ignore_mpesa_transaction(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_mpesa_variance_report(date, date) TO authenticated;
@@ -0,0 +1,96 @@
+/*
+  # STK Push Tracking and Status Query
+
+  1. Overview
+    - An STK push was only recorded when Safaricom's callback arrived, so a
+      lost callback left the till waiting with nothing to follow up. The push
+      is now recorded as a pending transaction when it is sent; the callback
+      or the new `mpesa-stkquery` function completes it
+    - `mpesa-stkquery` asks the Daraja STK Push Query API for the result of a
+      pending push. The POS falls back to it when its polling times out, and
+      a sweeper run every minute resolves pushes left pending for more than
+      two minutes
+
+  2. Changes
+    - `mpesa_transactions` gains
+      - `requested_amount` (numeric) - Amount sent in the push
+      - `account_reference` (text) - Account reference sent in the push
+      - `query_attempts` (integer) / `last_queried_at` (timestamptz) - STK
+        Push Query calls made for it
+    - One transaction per `checkout_request_id`, so the callback can update
+      the pending row instead of adding another
+    - Reconciliation also runs when a pending push becomes completed, or
+      when its M-Pesa code arrives after it was completed by a status query
+
+  3. Scheduling
+    - When `pg_cron` and `pg_net` are enabled and the vault holds
+      `project_url` and `service_role_key`, the sweeper is scheduled here;
+      otherwise schedule a POST of {"action": "sweep"} to
+      `/functions/v1/mpesa-stkquery` every minute with the service role key
+
+  4. Security
+    - No change; the sweeper runs with the service role
+*/
+
+ALTER TABLE mpesa_transactions
+  ADD COLUMN IF NOT EXISTS requested_amount numeric(10,2),
+  ADD COLUMN IF NOT EXISTS account_reference text,
+  ADD COLUMN IF NOT EXISTS query_attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_queried_at timestamptz;
+
+-- Retried callbacks used to be inserted again; keep the first per push, which
+-- is the one reconciliation matched (later copies were flagged duplicates)
+DELETE FROM mpesa_transactions t
+USING mpesa_transactions earlier
+WHERE t.checkout_request_id IS NOT NULL
+AND t.checkout_request_id = earlier.checkout_request_id
+AND (t.created_at, t.id) > (earlier.created_at, earlier.id);
+
+DROP INDEX IF EXISTS idx_mpesa_checkout_request;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_mpesa_checkout_request
+  ON mpesa_transactions(checkout_request_id) WHERE checkout_request_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_mpesa_pending_stk
+  ON mpesa_transactions(created_at) WHERE transaction_status = 'pending';
+
+CREATE OR REPLACE FUNCTION match_mpesa_transaction_on_complete()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM match_mpesa_transaction(NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+-- Also when a callback brings the M-Pesa code of a push the query completed
+CREATE TRIGGER match_mpesa_transaction_on_complete
+  AFTER UPDATE OF transaction_status, mpesa_receipt_number ON mpesa_transactions
+  FOR EACH ROW
+  WHEN (
+    NEW.transaction_status = 'completed'
+    AND (OLD.transaction_status IS DISTINCT FROM 'completed' OR OLD.mpesa_receipt_number IS DISTINCT FROM NEW.mpesa_receipt_number)
+  )
+  EXECUTE FUNCTION match_mpesa_transaction_on_complete();
+
+DO $$
+BEGIN
+  IF (SELECT count(*) FROM pg_extension WHERE extname IN ('pg_cron', 'pg_net')) = 2
+    AND EXISTS (SELECT 1 FROM vault.decrypted_secrets WHERE name = 'project_url')
+    AND EXISTS (SELECT 1 FROM vault.decrypted_secrets WHERE name = 'service_role_key') THEN
+    PERFORM cron.schedule(
+      'mpesa-stk-sweeper',
+      '* * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/mpesa-stkquery',
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+          ),
+          body := '{"action": "sweep"}'::jsonb
+        );
+      $cron$
+    );
+  END IF;
+EXCEPTION WHEN undefined_table OR invalid_schema_name THEN
+  RAISE NOTICE 'Vault not available; schedule the mpesa-stkquery sweeper separately';
+END $$;
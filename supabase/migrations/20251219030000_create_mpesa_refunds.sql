@@ -0,0 +1,374 @@
+/*
+  # M-Pesa Refunds
+
+  1. Overview
+    - Customers who paid by M-Pesa could only be refunded in cash. Admins can
+      now send the money back to the customer's M-Pesa: a full payment is
+      reversed with the Daraja Transaction Reversal API, a part refund is
+      paid out with B2C
+    - `request_mpesa_refund` records the refund against the original
+      `mpesa_transactions` row; the `mpesa-refund` function sends it to
+      Safaricom and `mpesa-refund-result` records the result callback
+    - A refund can be tied to a customer return, whose M-Pesa refund tender
+      it pays out, or stand alone, e.g. when the customer was overcharged
+
+  2. New Tables
+    - `mpesa_refunds`
+      - `id` (uuid, primary key)
+      - `sale_id` (uuid, references sales)
+      - `mpesa_transaction_id` (uuid, references mpesa_transactions) - The
+        payment being refunded
+      - `sale_return_id` (uuid, references invoice_reversals) - Return the
+        refund pays out, if any
+      - `refund_type` (text) - reversal or b2c
+      - `amount` (numeric), `phone_number` (text), `reason` (text)
+      - `status` (text) - pending, completed or failed
+      - `conversation_id` / `originator_conversation_id` (text) - Daraja
+        request IDs the result callback is matched on
+      - `mpesa_receipt_number` (text) - M-Pesa code of the refund
+      - `result_code` (integer) / `result_description` (text)
+      - `attempts` (integer) - Times the refund was sent to Safaricom
+      - `shift_id` (uuid, references cashier_shifts) - Shift of the return,
+        or of the admin who sent it
+      - `requested_by` (uuid) / `requested_by_name` (text)
+      - `completed_at` (timestamptz)
+
+  3. Changes
+    - Shift reports include M-Pesa refunds sent and awaiting confirmation;
+      refunds sent without a return are added to the M-Pesa refunded total
+
+  4. New Functions
+    - `request_mpesa_refund(p_sale_id, p_amount, p_reason, p_phone_number, p_sale_return_id, p_user_name)`
+      - Admin only. Checks the amount against what is left to refund on the
+        sale's M-Pesa payments and records a pending refund
+
+  5. Security
+    - RLS enabled; authenticated users can read refunds for reports. Refunds
+      are only written through `request_mpesa_refund` and the edge functions
+    - `mpesa-refund` needs the `MPESA_INITIATOR_NAME` and
+      `MPESA_SECURITY_CREDENTIAL` secrets; `mpesa-refund-result` is called
+      by Safaricom and is deployed without JWT verification, so it only
+      accepts results carrying the `MPESA_REFUND_RESULT_TOKEN` secret that
+      `mpesa-refund` puts in the ResultURL
+*/
+
+CREATE TABLE IF NOT EXISTS mpesa_refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  sale_id uuid NOT NULL REFERENCES sales(id) ON DELETE RESTRICT,
+  mpesa_transaction_id uuid NOT NULL REFERENCES mpesa_transactions(id) ON DELETE RESTRICT,
+  sale_return_id uuid REFERENCES invoice_reversals(id) ON DELETE SET NULL,
+  refund_type text NOT NULL CHECK (refund_type IN ('reversal', 'b2c')),
+  amount numeric(10,2) NOT NULL CHECK (amount > 0),
+  phone_number text,
+  reason text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  conversation_id text,
+  originator_conversation_id text UNIQUE,
+  mpesa_receipt_number text,
+  result_code integer,
+  result_description text,
+  attempts integer NOT NULL DEFAULT 0,
+  shift_id uuid REFERENCES cashier_shifts(id) ON DELETE SET NULL,
+  requested_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  requested_by_name text NOT NULL,
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mpesa_refunds_sale ON mpesa_refunds(sale_id);
+CREATE INDEX IF NOT EXISTS idx_mpesa_refunds_transaction ON mpesa_refunds(mpesa_transaction_id);
+CREATE INDEX IF NOT EXISTS idx_mpesa_refunds_shift ON mpesa_refunds(shift_id);
+CREATE INDEX IF NOT EXISTS idx_mpesa_refunds_conversation ON mpesa_refunds(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_mpesa_refunds_created_at ON mpesa_refunds(created_at);
+
+ALTER TABLE mpesa_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "mpesa_refunds_select"
+  ON public.mpesa_refunds FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION update_mpesa_refunds_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_mpesa_refunds_updated_at
+  BEFORE UPDATE ON mpesa_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION update_mpesa_refunds_updated_at();
+
+CREATE OR REPLACE FUNCTION public.assign_mpesa_refund_shift()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.shift_id IS NULL THEN
+    NEW.shift_id := COALESCE(
+      (SELECT shift_id FROM invoice_reversals WHERE id = NEW.sale_return_id),
+      find_cashier_shift(NEW.requested_by, COALESCE(NEW.created_at, now()))
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_mpesa_refund_shift
+  BEFORE INSERT ON mpesa_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_mpesa_refund_shift();
+
+CREATE OR REPLACE FUNCTION public.request_mpesa_refund(
+  p_sale_id uuid,
+  p_amount numeric,
+  p_reason text,
+  p_phone_number text,
+  p_sale_return_id uuid,
+  p_user_name text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_amount numeric(10,2) := round(p_amount, 2);
+  v_transaction mpesa_transactions%ROWTYPE;
+  v_refunded numeric(10,2);
+  v_refundable numeric(10,2) := 0;
+  v_phone text := NULLIF(regexp_replace(COALESCE(p_phone_number, ''), '[^0-9]', '', 'g'), '');
+  v_refund_type text;
+  v_refund_id uuid := gen_random_uuid();
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_id = auth.uid()
+    AND role IN ('super_admin', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can refund to M-Pesa';
+  END IF;
+
+  IF v_amount IS NULL OR v_amount <= 0 THEN
+    RAISE EXCEPTION 'Refund amount must be greater than zero';
+  END IF;
+
+  IF v_amount <> trunc(v_amount) THEN
+    RAISE EXCEPTION 'M-Pesa refunds are sent in whole shillings';
+  END IF;
+
+  IF NULLIF(trim(COALESCE(p_reason, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for the refund';
+  END IF;
+
+  -- One refund request per sale at a time, so two admins cannot both refund
+  -- the same balance
+  PERFORM 1 FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found';
+  END IF;
+
+  IF p_sale_return_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM invoice_reversals
+    WHERE id = p_sale_return_id
+    AND original_sale_id = p_sale_id
+  ) THEN
+    RAISE EXCEPTION 'Return does not belong to this sale';
+  END IF;
+
+  -- Refund from the payment with the most left on it
+  FOR v_transaction IN
+    SELECT *
+    FROM mpesa_transactions
+    WHERE sale_id = p_sale_id
+    AND reconciliation_status IN ('matched', 'underpaid')
+    AND transaction_status = 'completed'
+    ORDER BY amount DESC, transaction_time
+  LOOP
+    SELECT COALESCE(SUM(amount), 0)
+    INTO v_refunded
+    FROM mpesa_refunds
+    WHERE mpesa_transaction_id = v_transaction.id
+    AND status <> 'failed';
+
+    v_refundable := GREATEST(v_refundable, v_transaction.amount - v_refunded);
+
+    IF v_transaction.amount - v_refunded >= v_amount THEN
+      -- Reversal only undoes a whole payment, and needs its M-Pesa code
+      v_refund_type := CASE
+        WHEN v_refunded = 0 AND v_amount = v_transaction.amount AND v_transaction.mpesa_receipt_number IS NOT NULL
+          THEN 'reversal'
+        ELSE 'b2c'
+      END;
+      EXIT;
+    END IF;
+  END LOOP;
+
+  IF v_refund_type IS NULL THEN
+    IF v_refundable = 0 THEN
+      RAISE EXCEPTION 'This sale has no M-Pesa payment left to refund';
+    END IF;
+    RAISE EXCEPTION 'Refund exceeds the % left to refund on a single M-Pesa payment of this sale', v_refundable;
+  END IF;
+
+  -- C2B payments carry a masked number, so B2C needs the customer's number
+  v_phone := COALESCE(v_phone, NULLIF(regexp_replace(COALESCE(v_transaction.phone_number, ''), '[^0-9]', '', 'g'), ''));
+  IF v_phone IS NOT NULL AND v_phone ~ '^0[17][0-9]{8}$' THEN
+    v_phone := '254' || substr(v_phone, 2);
+  END IF;
+
+  IF v_refund_type = 'b2c' AND (v_phone IS NULL OR v_phone !~ '^254[17][0-9]{8}$') THEN
+    RAISE EXCEPTION 'Enter the customer''s M-Pesa number to send a part refund';
+  END IF;
+
+  INSERT INTO mpesa_refunds (
+    id, sale_id, mpesa_transaction_id, sale_return_id, refund_type, amount,
+    phone_number, reason, requested_by, requested_by_name
+  ) VALUES (
+    v_refund_id, p_sale_id, v_transaction.id, p_sale_return_id, v_refund_type, v_amount,
+    CASE WHEN v_phone ~ '^254[17][0-9]{8}$' THEN v_phone ELSE v_transaction.phone_number END,
+    trim(p_reason), auth.uid(), p_user_name
+  );
+
+  RETURN v_refund_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.request_mpesa_refund(uuid, numeric, text, text, uuid, text) TO authenticated;
+
+-- Totals of everything tagged to the shift as it stands now
+CREATE OR REPLACE FUNCTION public.compute_shift_report(p_shift_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_shift cashier_shifts%ROWTYPE;
+  v_payments jsonb;
+  v_refunds jsonb;
+  v_mpesa_refunds jsonb;
+  v_direct_mpesa_refunds numeric(12,2);
+  v_sales_count integer;
+  v_gross_sales numeric(12,2);
+  v_discounts numeric(12,2);
+  v_returns_count integer;
+  v_pay_ins numeric(12,2);
+  v_pay_outs numeric(12,2);
+  v_expected numeric(12,2);
+BEGIN
+  SELECT * INTO v_shift FROM cashier_shifts WHERE id = p_shift_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(total_amount), 0)
+  INTO v_sales_count, v_gross_sales
+  FROM sales
+  WHERE shift_id = p_shift_id;
+
+  SELECT COALESCE(SUM(sd.amount), 0)
+  INTO v_discounts
+  FROM sale_discounts sd
+  JOIN sales s ON s.id = sd.sale_id
+  WHERE s.shift_id = p_shift_id;
+
+  SELECT COALESCE(jsonb_object_agg(payment_method, total), '{}'::jsonb)
+  INTO v_payments
+  FROM (
+    SELECT sp.payment_method, SUM(sp.amount) AS total
+    FROM sale_payments sp
+    JOIN sales s ON s.id = sp.sale_id
+    WHERE s.shift_id = p_shift_id
+    GROUP BY sp.payment_method
+  ) totals;
+
+  SELECT COUNT(*)
+  INTO v_returns_count
+  FROM invoice_reversals
+  WHERE shift_id = p_shift_id;
+
+  SELECT COALESCE(jsonb_object_agg(payment_method, total), '{}'::jsonb)
+  INTO v_refunds
+  FROM (
+    SELECT rp.payment_method, SUM(rp.amount) AS total
+    FROM sale_return_payments rp
+    JOIN invoice_reversals r ON r.id = rp.reversal_id
+    WHERE r.shift_id = p_shift_id
+    GROUP BY rp.payment_method
+  ) totals;
+
+  -- Money sent back over M-Pesa. Refunds for a return are already in the
+  -- return's refund tender; refunds made without one are added to it here
+  SELECT
+    jsonb_build_object(
+      'count', COUNT(*) FILTER (WHERE status = 'completed'),
+      'sent', COALESCE(SUM(amount) FILTER (WHERE status = 'completed'), 0),
+      'pending_count', COUNT(*) FILTER (WHERE status = 'pending'),
+      'pending', COALESCE(SUM(amount) FILTER (WHERE status = 'pending'), 0)
+    ),
+    COALESCE(SUM(amount) FILTER (WHERE status = 'completed' AND sale_return_id IS NULL), 0)
+  INTO v_mpesa_refunds, v_direct_mpesa_refunds
+  FROM mpesa_refunds
+  WHERE shift_id = p_shift_id;
+
+  IF v_direct_mpesa_refunds > 0 THEN
+    v_refunds := v_refunds || jsonb_build_object(
+      'mpesa', COALESCE((v_refunds->>'mpesa')::numeric, 0) + v_direct_mpesa_refunds
+    );
+  END IF;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'pay_in'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE movement_type = 'pay_out'), 0)
+  INTO v_pay_ins, v_pay_outs
+  FROM cash_movements
+  WHERE shift_id = p_shift_id;
+
+  v_expected := v_shift.opening_float
+    + COALESCE((v_payments->>'cash')::numeric, 0)
+    - COALESCE((v_refunds->>'cash')::numeric, 0)
+    + v_pay_ins
+    - v_pay_outs;
+
+  RETURN jsonb_build_object(
+    'shift_id', v_shift.id,
+    'cashier_id', v_shift.cashier_id,
+    'cashier_name', v_shift.cashier_name,
+    'status', v_shift.status,
+    'opened_at', v_shift.opened_at,
+    'closed_at', v_shift.closed_at,
+    'opening_float', v_shift.opening_float,
+    'sales_count', v_sales_count,
+    'gross_sales', v_gross_sales,
+    'discounts', v_discounts,
+    'payments', v_payments,
+    'returns_count', v_returns_count,
+    'refunds', v_refunds,
+    'mpesa_refunds', v_mpesa_refunds,
+    'pay_ins', v_pay_ins,
+    'pay_outs', v_pay_outs,
+    'cash_movements', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'movement_type', movement_type,
+        'amount', amount,
+        'reason', reason,
+        'created_by_name', created_by_name,
+        'created_at', created_at
+      ) ORDER BY created_at)
+      FROM cash_movements
+      WHERE shift_id = p_shift_id
+    ), '[]'::jsonb),
+    'expected_cash', v_expected,
+    'counted_cash', v_shift.counted_cash,
+    'cash_variance', CASE WHEN v_shift.counted_cash IS NULL THEN NULL ELSE v_shift.counted_cash - v_expected END,
+    'generated_at', now()
+  );
+END;
+$$;
@@ -0,0 +1,288 @@
+/*
+  # Product Master
+
+  1. Overview
+    - Every products row mixed catalogue fields (name, category, barcode,
+      minimum stock level, schedule) with the fields of one stock batch, so
+      each invoice batch created another "product" and low-stock alerts fired
+      per batch rather than per medicine
+    - Catalogue fields now live on `product_master`, one row per medicine.
+      `products` stays the stock-batch table that sales, invoices, returns
+      and stock takes already reference, with a link to its medicine
+    - Existing rows are merged into medicines by name (ignoring case and
+      surrounding spaces), then medicines whose batches share a barcode are
+      merged into one
+
+  2. New Tables
+    - `product_master`
+      - `id` (uuid, primary key)
+      - `name` (text) - Unique ignoring case
+      - `category` (text)
+      - `barcode` (text, optional) - Unique; scanning it finds the medicine
+      - `min_stock_level` (integer) - Reorder level for the medicine's total stock
+      - `drug_schedule` (text) - otc, prescription or controlled
+
+  3. Changes
+    - `products.product_master_id` (uuid, references product_master) - The
+      medicine the batch belongs to
+    - `products.name`, `category`, `min_stock_level` and `drug_schedule`
+      are kept as copies of the master by triggers, so existing queries and
+      reports keep working. Edits go to the master
+    - A new batch is attached to the medicine with its barcode, else its
+      name, and a medicine is created when there is none
+    - `products.barcode` is no longer unique: batches keep the code printed
+      on them, which may differ from the medicine's
+    - `supplier_order_items.product_master_id` - Orders are for a medicine,
+      not a batch. `product_id` becomes optional and no longer deletes the
+      order line when the batch is deleted
+
+  4. Security
+    - RLS enabled on `product_master` with the same rules as products: all
+      authenticated users can read, add and edit; only admins can delete
+*/
+
+CREATE TABLE IF NOT EXISTS product_master (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (trim(name) <> ''),
+  category text NOT NULL DEFAULT 'General',
+  barcode text,
+  min_stock_level integer NOT NULL DEFAULT 10 CHECK (min_stock_level >= 0),
+  drug_schedule text NOT NULL DEFAULT 'otc' CHECK (drug_schedule IN ('otc', 'prescription', 'controlled')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_master_name ON product_master (lower(trim(name)));
+
+ALTER TABLE products DROP CONSTRAINT IF EXISTS products_barcode_key;
+ALTER TABLE products ADD COLUMN IF NOT EXISTS product_master_id uuid REFERENCES product_master(id) ON DELETE RESTRICT;
+
+-- One medicine per name, then every batch linked to it
+INSERT INTO product_master (name, created_at)
+SELECT (array_agg(trim(name) ORDER BY created_at DESC))[1], min(created_at)
+FROM products
+GROUP BY lower(trim(name))
+ON CONFLICT DO NOTHING;
+
+UPDATE products p
+SET product_master_id = m.id
+FROM product_master m
+WHERE lower(trim(p.name)) = lower(trim(m.name))
+AND p.product_master_id IS NULL;
+
+-- Batches with the same barcode are the same medicine under another name.
+-- The masters are looked up again for each barcode, so chains of shared
+-- codes end up in one medicine.
+DO $$
+DECLARE
+  v_barcode text;
+  v_master_ids uuid[];
+BEGIN
+  FOR v_barcode IN
+    SELECT trim(barcode)
+    FROM products
+    WHERE NULLIF(trim(barcode), '') IS NOT NULL
+    GROUP BY trim(barcode)
+    HAVING count(DISTINCT product_master_id) > 1
+  LOOP
+    SELECT array_agg(DISTINCT product_master_id) INTO v_master_ids
+    FROM products
+    WHERE trim(barcode) = v_barcode;
+
+    IF array_length(v_master_ids, 1) > 1 THEN
+      UPDATE products
+      SET product_master_id = v_master_ids[1]
+      WHERE product_master_id = ANY(v_master_ids);
+    END IF;
+  END LOOP;
+END $$;
+
+DELETE FROM product_master m
+WHERE NOT EXISTS (SELECT 1 FROM products p WHERE p.product_master_id = m.id);
+
+-- Catalogue fields come from the latest batch, except the reorder level,
+-- which takes the highest, and the schedule, which takes the strictest
+UPDATE product_master m
+SET
+  category = b.category,
+  barcode = b.barcode,
+  min_stock_level = b.min_stock_level,
+  drug_schedule = b.drug_schedule
+FROM (
+  SELECT
+    product_master_id,
+    (array_agg(category ORDER BY created_at DESC))[1] AS category,
+    (array_agg(NULLIF(trim(barcode), '') ORDER BY created_at DESC) FILTER (WHERE NULLIF(trim(barcode), '') IS NOT NULL))[1] AS barcode,
+    COALESCE(max(min_stock_level), 10) AS min_stock_level,
+    CASE
+      WHEN bool_or(drug_schedule = 'controlled') THEN 'controlled'
+      WHEN bool_or(drug_schedule = 'prescription') THEN 'prescription'
+      ELSE 'otc'
+    END AS drug_schedule
+  FROM products
+  GROUP BY product_master_id
+) b
+WHERE b.product_master_id = m.id;
+
+UPDATE products p
+SET
+  name = m.name,
+  category = m.category,
+  min_stock_level = m.min_stock_level,
+  drug_schedule = m.drug_schedule
+FROM product_master m
+WHERE m.id = p.product_master_id;
+
+ALTER TABLE products ALTER COLUMN product_master_id SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_master_barcode ON product_master (barcode) WHERE barcode IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_products_product_master ON products(product_master_id);
+
+-- Supplier orders are for a medicine
+ALTER TABLE supplier_order_items ADD COLUMN IF NOT EXISTS product_master_id uuid REFERENCES product_master(id) ON DELETE CASCADE;
+
+UPDATE supplier_order_items i
+SET product_master_id = p.product_master_id
+FROM products p
+WHERE p.id = i.product_id
+AND i.product_master_id IS NULL;
+
+ALTER TABLE supplier_order_items ALTER COLUMN product_master_id SET NOT NULL;
+ALTER TABLE supplier_order_items ALTER COLUMN product_id DROP NOT NULL;
+ALTER TABLE supplier_order_items DROP CONSTRAINT IF EXISTS supplier_order_items_product_id_fkey;
+ALTER TABLE supplier_order_items
+  ADD CONSTRAINT supplier_order_items_product_id_fkey FOREIGN KEY (product_id) REFERENCES products(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_supplier_order_items_product_master ON supplier_order_items(product_master_id);
+
+CREATE OR REPLACE FUNCTION update_product_master_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_product_master_updated_at
+  BEFORE UPDATE ON product_master
+  FOR EACH ROW
+  EXECUTE FUNCTION update_product_master_updated_at();
+
+-- Links a batch to its medicine and copies the catalogue fields onto it.
+-- A batch is matched on its barcode first, since names are typed in many
+-- ways, then on its name; a medicine is created for anything new.
+CREATE OR REPLACE FUNCTION public.attach_product_master()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_master product_master%ROWTYPE;
+BEGIN
+  IF NEW.product_master_id IS NULL THEN
+    IF NULLIF(trim(NEW.barcode), '') IS NOT NULL THEN
+      SELECT id INTO NEW.product_master_id
+      FROM product_master
+      WHERE barcode = trim(NEW.barcode);
+
+      IF NEW.product_master_id IS NULL THEN
+        SELECT product_master_id INTO NEW.product_master_id
+        FROM products
+        WHERE trim(barcode) = trim(NEW.barcode)
+        AND id IS DISTINCT FROM NEW.id
+        LIMIT 1;
+      END IF;
+    END IF;
+
+    IF NEW.product_master_id IS NULL THEN
+      SELECT id INTO NEW.product_master_id
+      FROM product_master
+      WHERE lower(trim(name)) = lower(trim(NEW.name));
+    END IF;
+
+    IF NEW.product_master_id IS NULL THEN
+      INSERT INTO product_master (name, category, barcode, min_stock_level, drug_schedule)
+      VALUES (
+        trim(NEW.name),
+        COALESCE(NULLIF(trim(NEW.category), ''), 'General'),
+        NULLIF(trim(NEW.barcode), ''),
+        COALESCE(NEW.min_stock_level, 10),
+        COALESCE(NEW.drug_schedule, 'otc')
+      )
+      RETURNING id INTO NEW.product_master_id;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_master FROM product_master WHERE id = NEW.product_master_id;
+
+  NEW.name := v_master.name;
+  NEW.category := v_master.category;
+  NEW.min_stock_level := v_master.min_stock_level;
+  NEW.drug_schedule := v_master.drug_schedule;
+  NEW.barcode := COALESCE(NULLIF(trim(NEW.barcode), ''), v_master.barcode, '');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER attach_product_master
+  BEFORE INSERT OR UPDATE OF name, category, min_stock_level, drug_schedule, product_master_id ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION attach_product_master();
+
+CREATE OR REPLACE FUNCTION public.sync_product_master_batches()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name
+    OR NEW.category IS DISTINCT FROM OLD.category
+    OR NEW.min_stock_level IS DISTINCT FROM OLD.min_stock_level
+    OR NEW.drug_schedule IS DISTINCT FROM OLD.drug_schedule
+  THEN
+    UPDATE products
+    SET
+      name = NEW.name,
+      category = NEW.category,
+      min_stock_level = NEW.min_stock_level,
+      drug_schedule = NEW.drug_schedule,
+      updated_at = now()
+    WHERE product_master_id = NEW.id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_product_master_batches
+  AFTER UPDATE ON product_master
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_product_master_batches();
+
+ALTER TABLE product_master ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "product_master_select"
+  ON public.product_master FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "product_master_insert"
+  ON public.product_master FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "product_master_update"
+  ON public.product_master FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "product_master_delete"
+  ON public.product_master FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
@@ -0,0 +1,967 @@
+/*
+  # Stock Movement Ledger
+
+  1. Overview
+    - `products.current_stock` was overwritten in place by sales, returns,
+      invoices, credit notes, reversals and inventory edits, so there was no
+      way to tell how a batch reached its balance
+    - Every change to a batch's stock is now written to `stock_movements`
+      with the quantity, the balance before and after, who made it and the
+      document behind it. The ledger is never edited: mistakes are corrected
+      with another movement
+    - A trigger on `products` writes the movement whenever `current_stock`
+      changes and rejects the change when nothing says what it is, so the
+      balance on a batch is always the sum of its movements
+    - Existing stock is carried into the ledger as an opening balance
+
+  2. New Tables
+    - `stock_movements`
+      - `id` (uuid, primary key)
+      - `product_id` (uuid) - The batch. Not a foreign key, so the history of
+        a deleted batch is kept
+      - `product_master_id` (uuid) - The medicine, for its stock card
+      - `product_name`, `batch_number` (text) - As they were at the time
+      - `movement_type` (text) - sale, customer_return, purchase,
+        supplier_return, reversal, adjustment, transfer or write_off
+      - `quantity` (integer) - Signed change to the batch's stock
+      - `balance_before` / `balance_after` (integer)
+      - `source_type` (text) / `source_id` (uuid) / `reference` (text) - The
+        document behind the movement, e.g. a sale and its receipt number
+      - `reason` (text)
+      - `user_id` (uuid) / `user_name` (text)
+
+  3. Changes
+    - `process_sale` and `process_sale_return` say which sale or return
+      moved the stock
+    - A batch created with stock gets an opening movement: a purchase when
+      it came in on an invoice, otherwise an adjustment
+
+  4. New Functions
+    - `record_stock_movement(p_product_id, p_movement_type, p_quantity, p_reason, p_source_type, p_source_id, p_reference, p_user_name, p_expected_stock)`
+      - Purchases, supplier returns, reversals, adjustments and write-offs.
+        Refuses to take a batch below zero, and when `p_expected_stock` is
+        given, refuses if the stock changed since it was read
+    - `transfer_stock(p_from_product_id, p_to_product_id, p_quantity, p_reason, p_user_name)`
+      - Moves units between two batches of the same medicine, e.g. stock
+        booked under the wrong batch number
+
+  5. Security
+    - RLS enabled; all authenticated users can read the ledger
+    - No insert, update or delete policies: movements are only written by
+      the stock trigger, which runs as the owner, and a trigger rejects any
+      update or delete
+*/
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL,
+  product_master_id uuid,
+  product_name text NOT NULL,
+  batch_number text,
+  movement_type text NOT NULL CHECK (movement_type IN (
+    'sale', 'customer_return', 'purchase', 'supplier_return', 'reversal', 'adjustment', 'transfer', 'write_off'
+  )),
+  quantity integer NOT NULL CHECK (quantity <> 0),
+  balance_before integer NOT NULL,
+  balance_after integer NOT NULL CHECK (balance_after = balance_before + quantity),
+  source_type text,
+  source_id uuid,
+  reference text,
+  reason text,
+  user_id uuid,
+  user_name text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product ON stock_movements(product_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_master ON stock_movements(product_master_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_source ON stock_movements(source_type, source_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_created_at ON stock_movements(created_at);
+
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "stock_movements_select"
+  ON public.stock_movements FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION public.prevent_stock_movement_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  RAISE EXCEPTION 'Stock movements cannot be changed; record a correcting movement instead';
+END;
+$$;
+
+CREATE TRIGGER prevent_stock_movement_changes
+  BEFORE UPDATE OR DELETE ON stock_movements
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_stock_movement_changes();
+
+-- Opening balances for the stock already on hand
+INSERT INTO stock_movements (
+  product_id,
+  product_master_id,
+  product_name,
+  batch_number,
+  movement_type,
+  quantity,
+  balance_before,
+  balance_after,
+  reason,
+  user_name
+)
+SELECT
+  id,
+  product_master_id,
+  name,
+  batch_number,
+  'adjustment',
+  current_stock,
+  0,
+  current_stock,
+  'Opening balance',
+  'System'
+FROM products
+WHERE current_stock <> 0;
+
+-- Says what the stock changes in the rest of the transaction are. Every
+-- function that changes current_stock calls this first.
+CREATE OR REPLACE FUNCTION public.set_stock_movement_context(
+  p_movement_type text,
+  p_source_type text,
+  p_source_id uuid,
+  p_reference text,
+  p_reason text,
+  p_user_name text
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  PERFORM set_config('app.stock_movement_type', COALESCE(p_movement_type, ''), true);
+  PERFORM set_config('app.stock_movement_source_type', COALESCE(p_source_type, ''), true);
+  PERFORM set_config('app.stock_movement_source_id', COALESCE(p_source_id::text, ''), true);
+  PERFORM set_config('app.stock_movement_reference', COALESCE(p_reference, ''), true);
+  PERFORM set_config('app.stock_movement_reason', COALESCE(p_reason, ''), true);
+  PERFORM set_config('app.stock_movement_user_name', COALESCE(p_user_name, ''), true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_stock_movement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_before integer := 0;
+  v_movement_type text := NULLIF(current_setting('app.stock_movement_type', true), '');
+  v_source_type text := NULLIF(current_setting('app.stock_movement_source_type', true), '');
+  v_source_id uuid := NULLIF(current_setting('app.stock_movement_source_id', true), '')::uuid;
+  v_reference text := NULLIF(current_setting('app.stock_movement_reference', true), '');
+  v_reason text := NULLIF(current_setting('app.stock_movement_reason', true), '');
+  v_user_name text := NULLIF(current_setting('app.stock_movement_user_name', true), '');
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.current_stock = OLD.current_stock THEN
+      RETURN NEW;
+    END IF;
+
+    IF v_movement_type IS NULL THEN
+      RAISE EXCEPTION 'Stock of % (batch %) can only be changed by recording a stock movement',
+        NEW.name, COALESCE(NEW.batch_number, '-');
+    END IF;
+
+    v_before := OLD.current_stock;
+  ELSE
+    IF NEW.current_stock = 0 THEN
+      RETURN NEW;
+    END IF;
+
+    -- Batches created on an invoice are purchases; anything else added by
+    -- hand or imported is an opening adjustment
+    IF v_movement_type IS NULL THEN
+      IF NULLIF(trim(NEW.invoice_number), '') IS NOT NULL THEN
+        v_movement_type := 'purchase';
+        v_source_type := 'invoice';
+        v_reference := trim(NEW.invoice_number);
+        SELECT id INTO v_source_id FROM invoices WHERE invoice_number = trim(NEW.invoice_number);
+      ELSE
+        v_movement_type := 'adjustment';
+        v_reason := 'Opening stock';
+      END IF;
+    END IF;
+  END IF;
+
+  INSERT INTO stock_movements (
+    product_id,
+    product_master_id,
+    product_name,
+    batch_number,
+    movement_type,
+    quantity,
+    balance_before,
+    balance_after,
+    source_type,
+    source_id,
+    reference,
+    reason,
+    user_id,
+    user_name
+  ) VALUES (
+    NEW.id,
+    NEW.product_master_id,
+    NEW.name,
+    NEW.batch_number,
+    v_movement_type,
+    NEW.current_stock - v_before,
+    v_before,
+    NEW.current_stock,
+    v_source_type,
+    v_source_id,
+    v_reference,
+    v_reason,
+    auth.uid(),
+    COALESCE(v_user_name, (SELECT name FROM user_profiles WHERE user_id = auth.uid()))
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_stock_movement
+  AFTER INSERT OR UPDATE OF current_stock ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION log_stock_movement();
+
+CREATE OR REPLACE FUNCTION public.record_stock_movement(
+  p_product_id uuid,
+  p_movement_type text,
+  p_quantity integer,
+  p_reason text DEFAULT NULL,
+  p_source_type text DEFAULT NULL,
+  p_source_id uuid DEFAULT NULL,
+  p_reference text DEFAULT NULL,
+  p_user_name text DEFAULT NULL,
+  p_expected_stock integer DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_product products%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Missing authorization header';
+  END IF;
+
+  -- Sales and customer returns go through process_sale and
+  -- process_sale_return, transfers through transfer_stock
+  IF p_movement_type IS NULL OR p_movement_type NOT IN ('purchase', 'supplier_return', 'reversal', 'adjustment', 'write_off') THEN
+    RAISE EXCEPTION 'Invalid stock movement type: %', COALESCE(p_movement_type, '-');
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity = 0 THEN
+    RAISE EXCEPTION 'Stock movement quantity cannot be zero';
+  END IF;
+
+  IF p_movement_type = 'purchase' AND p_quantity < 0 THEN
+    RAISE EXCEPTION 'A purchase must add stock';
+  END IF;
+
+  IF p_movement_type IN ('supplier_return', 'write_off') AND p_quantity > 0 THEN
+    RAISE EXCEPTION 'A % must remove stock', replace(p_movement_type, '_', ' ');
+  END IF;
+
+  IF p_movement_type IN ('adjustment', 'write_off') AND NULLIF(trim(COALESCE(p_reason, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for the %', replace(p_movement_type, '_', '-');
+  END IF;
+
+  SELECT * INTO v_product FROM products WHERE id = p_product_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF p_expected_stock IS NOT NULL AND v_product.current_stock <> p_expected_stock THEN
+    RAISE EXCEPTION 'Stock of % (batch %) changed to % since it was read; reload and try again',
+      v_product.name, COALESCE(v_product.batch_number, '-'), v_product.current_stock;
+  END IF;
+
+  IF v_product.current_stock + p_quantity < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock for % (batch %). Available: %, Required: %',
+      v_product.name, COALESCE(v_product.batch_number, '-'), v_product.current_stock, -p_quantity;
+  END IF;
+
+  PERFORM set_stock_movement_context(
+    p_movement_type,
+    NULLIF(p_source_type, ''),
+    p_source_id,
+    NULLIF(trim(COALESCE(p_reference, '')), ''),
+    NULLIF(trim(COALESCE(p_reason, '')), ''),
+    p_user_name
+  );
+
+  UPDATE products
+  SET current_stock = current_stock + p_quantity,
+      updated_at = now()
+  WHERE id = p_product_id;
+
+  RETURN jsonb_build_object(
+    'product_id', p_product_id,
+    'balance_before', v_product.current_stock,
+    'balance_after', v_product.current_stock + p_quantity
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_stock_movement(uuid, text, integer, text, text, uuid, text, text, integer) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.transfer_stock(
+  p_from_product_id uuid,
+  p_to_product_id uuid,
+  p_quantity integer,
+  p_reason text,
+  p_user_name text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_from products%ROWTYPE;
+  v_to products%ROWTYPE;
+  v_transfer_id uuid := gen_random_uuid();
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Missing authorization header';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Transfer quantity must be greater than zero';
+  END IF;
+
+  IF p_from_product_id = p_to_product_id THEN
+    RAISE EXCEPTION 'Choose two different batches';
+  END IF;
+
+  IF NULLIF(trim(COALESCE(p_reason, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for the transfer';
+  END IF;
+
+  -- Lock both batches in the same order whichever way the transfer goes
+  PERFORM 1 FROM products
+  WHERE id IN (p_from_product_id, p_to_product_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_from FROM products WHERE id = p_from_product_id;
+  SELECT * INTO v_to FROM products WHERE id = p_to_product_id;
+
+  IF v_from.id IS NULL OR v_to.id IS NULL THEN
+    RAISE EXCEPTION 'Product not found';
+  END IF;
+
+  IF v_from.product_master_id <> v_to.product_master_id THEN
+    RAISE EXCEPTION 'Stock can only be transferred between batches of the same medicine';
+  END IF;
+
+  IF v_from.current_stock < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock for % (batch %). Available: %, Required: %',
+      v_from.name, COALESCE(v_from.batch_number, '-'), v_from.current_stock, p_quantity;
+  END IF;
+
+  PERFORM set_stock_movement_context(
+    'transfer', 'transfer', v_transfer_id,
+    'To batch ' || COALESCE(v_to.batch_number, '-'), trim(p_reason), p_user_name
+  );
+
+  UPDATE products
+  SET current_stock = current_stock - p_quantity,
+      updated_at = now()
+  WHERE id = p_from_product_id;
+
+  PERFORM set_stock_movement_context(
+    'transfer', 'transfer', v_transfer_id,
+    'From batch ' || COALESCE(v_from.batch_number, '-'), trim(p_reason), p_user_name
+  );
+
+  UPDATE products
+  SET current_stock = current_stock + p_quantity,
+      updated_at = now()
+  WHERE id = p_to_product_id;
+
+  RETURN v_transfer_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.transfer_stock(uuid, uuid, integer, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_sale_id uuid,
+  p_branch_code text,
+  p_customer_name text,
+  p_sales_person_id uuid,
+  p_sales_person_name text,
+  p_items jsonb,
+  p_payments jsonb,
+  p_sold_at timestamptz DEFAULT NULL,
+  p_offline boolean DEFAULT false,
+  p_insurance jsonb DEFAULT NULL,
+  p_customer_id uuid DEFAULT NULL,
+  p_prescription jsonb DEFAULT NULL,
+  p_discounts jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_item jsonb;
+  v_product products%ROWTYPE;
+  v_quantity integer;
+  v_total numeric(10,2) := 0;
+  v_paid numeric(10,2) := 0;
+  v_insured numeric(10,2) := 0;
+  v_discounted numeric(10,2) := 0;
+  v_methods text[];
+  v_shortfalls jsonb := '[]'::jsonb;
+  v_script_product text;
+  v_prescription_id uuid;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without items';
+  END IF;
+
+  IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without payment';
+  END IF;
+
+  -- Idempotent retry: the sale was already committed on a previous attempt
+  IF EXISTS (SELECT 1 FROM sales WHERE id = p_sale_id) THEN
+    RETURN get_sale_json(p_sale_id);
+  END IF;
+
+  -- Lock every product in a stable order and validate stock before writing anything
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items) ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item->>'product_name';
+    END IF;
+
+    SELECT * INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % no longer exists', v_item->>'product_name';
+    END IF;
+
+    -- Expired batches cannot be sold; offline sales were checked when they were made
+    IF v_product.expiry_date < COALESCE(p_sold_at, now())::date AND NOT p_offline THEN
+      RAISE EXCEPTION 'Batch % of % expired on %', v_product.batch_number, v_product.name, v_product.expiry_date;
+    END IF;
+
+    IF v_product.current_stock < v_quantity THEN
+      IF NOT p_offline THEN
+        RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+          v_product.name, v_product.current_stock, v_quantity;
+      END IF;
+
+      v_shortfalls := v_shortfalls || jsonb_build_object(
+        'product_id', v_product.id,
+        'product_name', v_product.name,
+        'batch_number', v_product.batch_number,
+        'quantity_sold', v_quantity,
+        'stock_available', v_product.current_stock
+      );
+    END IF;
+
+    IF v_product.drug_schedule <> 'otc' AND v_script_product IS NULL THEN
+      v_script_product := v_product.name;
+    END IF;
+
+    v_total := v_total + (v_item->>'total_price')::numeric;
+  END LOOP;
+
+  -- Offline sales were checked on the till against the cached catalogue
+  IF v_script_product IS NOT NULL AND NOT p_offline AND (
+    p_prescription IS NULL
+    OR NULLIF(trim(p_prescription->>'prescriber_name'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'prescriber_licence'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'patient_name'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'reference'), '') IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Prescription details are required for %', v_script_product;
+  END IF;
+
+  SELECT COALESCE(SUM((value->>'amount')::numeric), 0),
+         COALESCE(SUM((value->>'amount')::numeric) FILTER (WHERE value->>'payment_method' = 'insurance'), 0),
+         array_agg(DISTINCT value->>'payment_method')
+  INTO v_paid, v_insured, v_methods
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_paid <> v_total THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', v_paid, v_total;
+  END IF;
+
+  SELECT COALESCE(SUM((value->>'discount_amount')::numeric), 0)
+  INTO v_discounted
+  FROM jsonb_array_elements(p_items);
+
+  IF v_discounted <> COALESCE((
+    SELECT SUM((value->>'amount')::numeric) FROM jsonb_array_elements(COALESCE(p_discounts, '[]'::jsonb))
+  ), 0) THEN
+    RAISE EXCEPTION 'Discount lines do not match the discounts on the items (%)', v_discounted;
+  END IF;
+
+  IF v_insured > 0 AND (
+    p_insurance IS NULL
+    OR NULLIF(p_insurance->>'insurer_id', '') IS NULL
+    OR NULLIF(trim(p_insurance->>'member_number'), '') IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Insurer and member number are required for insurance payments';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM customers WHERE id = p_customer_id) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  INSERT INTO sales (
+    id,
+    receipt_number,
+    customer_id,
+    customer_name,
+    total_amount,
+    payment_method,
+    mpesa_receipt_number,
+    sales_person_id,
+    sales_person_name,
+    created_at
+  ) VALUES (
+    p_sale_id,
+    generate_receipt_number(COALESCE(NULLIF(p_branch_code, ''), 'MAIN')),
+    p_customer_id,
+    COALESCE(NULLIF(p_customer_name, ''), (SELECT name FROM customers WHERE id = p_customer_id)),
+    v_total,
+    CASE WHEN array_length(v_methods, 1) > 1 THEN 'split' ELSE v_methods[1] END,
+    (
+      SELECT NULLIF(value->>'reference', '')
+      FROM jsonb_array_elements(p_payments)
+      WHERE value->>'payment_method' = 'mpesa'
+      LIMIT 1
+    ),
+    p_sales_person_id,
+    p_sales_person_name,
+    COALESCE(p_sold_at, now())
+  );
+
+  INSERT INTO sale_items (
+    sale_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    total_price,
+    discount_amount,
+    batch_number
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::numeric,
+    (value->>'total_price')::numeric,
+    COALESCE((value->>'discount_amount')::numeric, 0),
+    p.batch_number
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid;
+
+  INSERT INTO sale_discounts (
+    sale_id,
+    promotion_id,
+    product_id,
+    description,
+    amount,
+    created_at
+  )
+  SELECT
+    p_sale_id,
+    NULLIF(value->>'promotion_id', '')::uuid,
+    NULLIF(value->>'product_id', '')::uuid,
+    value->>'description',
+    (value->>'amount')::numeric,
+    COALESCE(p_sold_at, now())
+  FROM jsonb_array_elements(COALESCE(p_discounts, '[]'::jsonb));
+
+  INSERT INTO sale_payments (
+    sale_id,
+    payment_method,
+    amount,
+    reference,
+    tendered_amount,
+    change_amount,
+    approval_code,
+    masked_pan,
+    card_scheme,
+    terminal_id,
+    terminal_transaction_id
+  )
+  SELECT
+    p_sale_id,
+    value->>'payment_method',
+    (value->>'amount')::numeric,
+    NULLIF(value->>'reference', ''),
+    (value->>'tendered_amount')::numeric,
+    COALESCE((value->>'change_amount')::numeric, 0),
+    NULLIF(value->>'approval_code', ''),
+    NULLIF(value->>'masked_pan', ''),
+    NULLIF(value->>'card_scheme', ''),
+    NULLIF(value->>'terminal_id', ''),
+    NULLIF(value->>'terminal_transaction_id', '')
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_insured > 0 THEN
+    INSERT INTO sale_insurance (
+      sale_id,
+      insurer_id,
+      scheme_id,
+      member_number,
+      member_name,
+      preauth_number,
+      insurer_amount,
+      copay_amount
+    ) VALUES (
+      p_sale_id,
+      (p_insurance->>'insurer_id')::uuid,
+      NULLIF(p_insurance->>'scheme_id', '')::uuid,
+      trim(p_insurance->>'member_number'),
+      NULLIF(trim(p_insurance->>'member_name'), ''),
+      NULLIF(trim(p_insurance->>'preauth_number'), ''),
+      v_insured,
+      v_total - v_insured
+    );
+  END IF;
+
+  PERFORM set_stock_movement_context(
+    'sale', 'sale', p_sale_id,
+    (SELECT receipt_number FROM sales WHERE id = p_sale_id),
+    NULL, p_sales_person_name
+  );
+
+  -- Offline replays clamp at zero; the missing units are in sale_sync_exceptions
+  UPDATE products p
+  SET current_stock = GREATEST(p.current_stock - i.quantity, 0),
+      updated_at = now()
+  FROM (
+    SELECT (value->>'product_id')::uuid AS product_id,
+           SUM((value->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items)
+    GROUP BY 1
+  ) i
+  WHERE p.id = i.product_id;
+
+  IF p_prescription IS NOT NULL THEN
+    INSERT INTO prescriptions (
+      sale_id,
+      customer_id,
+      prescriber_name,
+      prescriber_licence,
+      patient_name,
+      reference,
+      image_path,
+      dispensed_by,
+      dispensed_by_name
+    ) VALUES (
+      p_sale_id,
+      p_customer_id,
+      trim(p_prescription->>'prescriber_name'),
+      trim(p_prescription->>'prescriber_licence'),
+      trim(p_prescription->>'patient_name'),
+      trim(p_prescription->>'reference'),
+      NULLIF(p_prescription->>'image_path', ''),
+      p_sales_person_id,
+      p_sales_person_name
+    )
+    RETURNING id INTO v_prescription_id;
+  END IF;
+
+  -- Balances are read after the stock update above
+  INSERT INTO controlled_drug_register (
+    product_id,
+    product_name,
+    batch_number,
+    sale_id,
+    prescription_id,
+    quantity,
+    balance_after,
+    dispensed_by,
+    dispensed_by_name,
+    created_at
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.batch_number,
+    p_sale_id,
+    v_prescription_id,
+    (value->>'quantity')::integer,
+    p.current_stock,
+    p_sales_person_id,
+    p_sales_person_name,
+    COALESCE(p_sold_at, now())
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid
+  WHERE p.drug_schedule = 'controlled';
+
+  INSERT INTO sale_sync_exceptions (
+    sale_id,
+    product_id,
+    product_name,
+    batch_number,
+    quantity_sold,
+    stock_available,
+    shortfall
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    value->>'batch_number',
+    (value->>'quantity_sold')::integer,
+    (value->>'stock_available')::integer,
+    (value->>'quantity_sold')::integer - (value->>'stock_available')::integer
+  FROM jsonb_array_elements(v_shortfalls);
+
+  INSERT INTO price_history (product_id, cost_price, selling_price, user_id, user_name)
+  SELECT
+    p.id,
+    p.cost_price,
+    (value->>'unit_price')::numeric,
+    p_sales_person_id,
+    p_sales_person_name
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid;
+
+  -- Raises if a loyalty tender is larger than the customer's balance
+  PERFORM apply_sale_loyalty(p_sale_id);
+
+  RETURN get_sale_json(p_sale_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(uuid, text, text, uuid, text, jsonb, jsonb, timestamptz, boolean, jsonb, uuid, jsonb, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.process_sale_return(
+  p_reversal_id uuid,
+  p_sale_id uuid,
+  p_reason text,
+  p_notes text,
+  p_user_name text,
+  p_items jsonb,
+  p_refunds jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_sale sales%ROWTYPE;
+  v_item jsonb;
+  v_sale_item sale_items%ROWTYPE;
+  v_product_id uuid;
+  v_cost_price numeric(10,2);
+  v_quantity integer;
+  v_returned integer;
+  v_total numeric(10,2) := 0;
+  v_refunded numeric(10,2) := 0;
+  v_return_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Missing authorization header';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  IF p_refunds IS NULL OR jsonb_typeof(p_refunds) <> 'array' OR jsonb_array_length(p_refunds) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a return without refund tender';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT value->>'sale_item_id') FROM jsonb_array_elements(p_items)) <> jsonb_array_length(p_items) THEN
+    RAISE EXCEPTION 'Each receipt line can only appear once in a return';
+  END IF;
+
+  -- Idempotent retry: the return was already committed on a previous attempt
+  IF EXISTS (SELECT 1 FROM invoice_reversals WHERE id = p_reversal_id) THEN
+    RETURN get_sale_return_json(p_reversal_id);
+  END IF;
+
+  -- Serialise returns against the same receipt
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found';
+  END IF;
+
+  -- Validate every line and compute the refund before writing anything
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT * INTO v_sale_item
+    FROM sale_items
+    WHERE id = (v_item->>'sale_item_id')::uuid
+    AND sale_id = p_sale_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item is not part of receipt %', v_sale.receipt_number;
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid return quantity for %', v_sale_item.product_name;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO v_returned
+    FROM invoice_reversal_items
+    WHERE original_sale_item_id = v_sale_item.id;
+
+    IF v_quantity > v_sale_item.quantity - v_returned THEN
+      RAISE EXCEPTION 'Cannot return % of %: % sold, % already returned',
+        v_quantity, v_sale_item.product_name, v_sale_item.quantity, v_returned;
+    END IF;
+
+    v_total := v_total + v_sale_item.unit_price * v_quantity;
+  END LOOP;
+
+  SELECT COALESCE(SUM((value->>'amount')::numeric), 0)
+  INTO v_refunded
+  FROM jsonb_array_elements(p_refunds);
+
+  IF v_refunded <> v_total THEN
+    RAISE EXCEPTION 'Refund (%) does not match returned items (%)', v_refunded, v_total;
+  END IF;
+
+  SELECT COUNT(*) INTO v_return_count
+  FROM invoice_reversals
+  WHERE original_sale_id = p_sale_id;
+
+  INSERT INTO invoice_reversals (
+    id,
+    original_sale_id,
+    reversal_number,
+    reversal_type,
+    total_amount,
+    reason,
+    notes,
+    user_id,
+    user_name
+  ) VALUES (
+    p_reversal_id,
+    p_sale_id,
+    'RTN-' || v_sale.receipt_number || '-' || (v_return_count + 1)::text,
+    'sales',
+    v_total,
+    COALESCE(NULLIF(p_reason, ''), 'Customer return'),
+    NULLIF(p_notes, ''),
+    auth.uid(),
+    p_user_name
+  );
+
+  PERFORM set_stock_movement_context(
+    'customer_return', 'sale_return', p_reversal_id,
+    'RTN-' || v_sale.receipt_number || '-' || (v_return_count + 1)::text,
+    COALESCE(NULLIF(p_reason, ''), 'Customer return'), p_user_name
+  );
+
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT * INTO v_sale_item
+    FROM sale_items
+    WHERE id = (v_item->>'sale_item_id')::uuid;
+
+    -- Restock the exact batch the line was sold from
+    v_product_id := v_sale_item.product_id;
+    IF v_product_id IS NULL THEN
+      SELECT id INTO v_product_id
+      FROM products
+      WHERE name = v_sale_item.product_name
+      AND batch_number IS NOT DISTINCT FROM v_sale_item.batch_number
+      LIMIT 1;
+    END IF;
+
+    IF v_product_id IS NULL THEN
+      RAISE EXCEPTION 'Batch % of % no longer exists in inventory',
+        COALESCE(v_sale_item.batch_number, '-'), v_sale_item.product_name;
+    END IF;
+
+    UPDATE products
+    SET current_stock = current_stock + v_quantity,
+        updated_at = now()
+    WHERE id = v_product_id
+    RETURNING cost_price INTO v_cost_price;
+
+    INSERT INTO invoice_reversal_items (
+      reversal_id,
+      original_sale_item_id,
+      product_id,
+      product_name,
+      batch_number,
+      quantity,
+      cost_price,
+      selling_price,
+      total_cost
+    ) VALUES (
+      p_reversal_id,
+      v_sale_item.id,
+      v_product_id,
+      v_sale_item.product_name,
+      v_sale_item.batch_number,
+      v_quantity,
+      COALESCE(v_cost_price, 0),
+      v_sale_item.unit_price,
+      COALESCE(v_cost_price, 0) * v_quantity
+    );
+  END LOOP;
+
+  INSERT INTO sale_return_payments (
+    reversal_id,
+    payment_method,
+    amount,
+    reference,
+    approval_code,
+    masked_pan,
+    terminal_id,
+    terminal_transaction_id
+  )
+  SELECT
+    p_reversal_id,
+    value->>'payment_method',
+    (value->>'amount')::numeric,
+    NULLIF(value->>'reference', ''),
+    NULLIF(value->>'approval_code', ''),
+    NULLIF(value->>'masked_pan', ''),
+    NULLIF(value->>'terminal_id', ''),
+    NULLIF(value->>'terminal_transaction_id', '')
+  FROM jsonb_array_elements(p_refunds);
+
+  RETURN get_sale_return_json(p_reversal_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale_return(uuid, uuid, text, text, text, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,235 @@
+/*
+  # Purchase Orders
+
+  1. Overview
+    - `supplier_orders` only held order quantities and a free-form status, so
+      an order could not say who it was for, what it was expected to cost or
+      which invoice delivered it
+    - Orders are now addressed to a supplier and carry an expected unit cost
+      per line. They move through draft -> sent -> partially_received ->
+      received -> closed
+    - An invoice can be received against an order. Each invoice line points
+      at the order line it fulfils, so the quantity received and the price
+      paid against the expected cost are tracked per line
+    - Received quantities are kept up to date by triggers on invoice items
+      and invoice reversals, and a sent order moves to partially received or
+      received on its own as invoices come in
+
+  2. Changes
+    - `supplier_orders`
+      - `supplier` (text) - Who the order is addressed to
+      - `expected_date` (date) - When the delivery is expected
+      - `sent_at` / `closed_at` (timestamptz)
+      - `closed_reason` (text) - Why an order was closed with quantities
+        still outstanding
+      - `status` now defaults to draft and is limited to draft, sent,
+        partially_received, received and closed. Existing orders are mapped:
+        approved -> sent, completed -> received, cancelled -> closed, and
+        pending or any other status -> draft
+    - `supplier_order_items`
+      - `unit_cost` (numeric) - Expected cost per unit
+      - `received_quantity` (integer) - Received on invoices, net of reversals
+    - `invoices.supplier_order_id` - The order the invoice was received against
+    - `invoice_items.supplier_order_item_id` - The order line the item fulfils
+
+  3. New Functions
+    - `refresh_supplier_order_receipts(p_order_id)`
+      - Recalculates the received quantity of every line on the order and,
+        unless the order is a draft or closed, its status
+    - Triggers on `invoice_items` and `invoice_reversal_items` call it for
+      the affected order. An invoice item can only be linked to an order
+      that has been sent and is not closed
+
+  4. Security
+    - No policy changes; orders keep the policies from the RLS setup migration
+*/
+
+ALTER TABLE supplier_orders ADD COLUMN IF NOT EXISTS supplier text;
+ALTER TABLE supplier_orders ADD COLUMN IF NOT EXISTS expected_date date;
+ALTER TABLE supplier_orders ADD COLUMN IF NOT EXISTS sent_at timestamptz;
+ALTER TABLE supplier_orders ADD COLUMN IF NOT EXISTS closed_at timestamptz;
+ALTER TABLE supplier_orders ADD COLUMN IF NOT EXISTS closed_reason text;
+
+-- Free-form statuses the new check would reject start over as drafts
+UPDATE supplier_orders SET status = CASE
+  WHEN status = 'approved' THEN 'sent'
+  WHEN status = 'completed' THEN 'received'
+  WHEN status = 'cancelled' THEN 'closed'
+  WHEN status IN ('draft', 'sent', 'partially_received', 'received', 'closed') THEN status
+  ELSE 'draft'
+END;
+
+UPDATE supplier_orders SET sent_at = updated_at WHERE status IN ('sent', 'received') AND sent_at IS NULL;
+UPDATE supplier_orders SET closed_at = updated_at WHERE status = 'closed' AND closed_at IS NULL;
+
+ALTER TABLE supplier_orders ALTER COLUMN status SET DEFAULT 'draft';
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_constraint WHERE conname = 'supplier_orders_status_check'
+  ) THEN
+    ALTER TABLE supplier_orders ADD CONSTRAINT supplier_orders_status_check
+      CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'closed'));
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_supplier_orders_supplier ON supplier_orders(supplier);
+CREATE INDEX IF NOT EXISTS idx_supplier_orders_status ON supplier_orders(status);
+
+ALTER TABLE supplier_order_items ADD COLUMN IF NOT EXISTS unit_cost numeric(10, 2) CHECK (unit_cost >= 0);
+ALTER TABLE supplier_order_items ADD COLUMN IF NOT EXISTS received_quantity integer NOT NULL DEFAULT 0;
+
+-- Orders marked completed before receipts were tracked count as fully received
+UPDATE supplier_order_items i
+SET received_quantity = i.order_quantity
+FROM supplier_orders o
+WHERE o.id = i.order_id AND o.status = 'received' AND i.received_quantity = 0;
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS supplier_order_id uuid REFERENCES supplier_orders(id) ON DELETE SET NULL;
+ALTER TABLE invoice_items ADD COLUMN IF NOT EXISTS supplier_order_item_id uuid REFERENCES supplier_order_items(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_invoices_supplier_order_id ON invoices(supplier_order_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_items_supplier_order_item_id ON invoice_items(supplier_order_item_id);
+
+CREATE OR REPLACE FUNCTION refresh_supplier_order_receipts(p_order_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_status text;
+  v_ordered integer;
+  v_received integer;
+  v_outstanding integer;
+BEGIN
+  IF p_order_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE supplier_order_items oi
+  SET received_quantity = GREATEST(0, COALESCE((
+    SELECT SUM(ii.quantity - COALESCE((
+      SELECT SUM(ri.quantity)
+      FROM invoice_reversal_items ri
+      WHERE ri.original_invoice_item_id = ii.id
+    ), 0))
+    FROM invoice_items ii
+    WHERE ii.supplier_order_item_id = oi.id
+  ), 0))
+  WHERE oi.order_id = p_order_id;
+
+  SELECT status INTO v_status FROM supplier_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF v_status IS NULL OR v_status IN ('draft', 'closed') THEN
+    RETURN;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(order_quantity), 0),
+    COALESCE(SUM(received_quantity), 0),
+    COALESCE(SUM(GREATEST(order_quantity - received_quantity, 0)), 0)
+  INTO v_ordered, v_received, v_outstanding
+  FROM supplier_order_items
+  WHERE order_id = p_order_id;
+
+  UPDATE supplier_orders
+  SET status = CASE
+    WHEN v_ordered > 0 AND v_outstanding = 0 THEN 'received'
+    WHEN v_received > 0 THEN 'partially_received'
+    ELSE 'sent'
+  END
+  WHERE id = p_order_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION check_invoice_item_order_link()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_order_number text;
+  v_status text;
+BEGIN
+  IF NEW.supplier_order_item_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT o.order_number, o.status INTO v_order_number, v_status
+  FROM supplier_order_items oi
+  JOIN supplier_orders o ON o.id = oi.order_id
+  WHERE oi.id = NEW.supplier_order_item_id;
+
+  IF v_status NOT IN ('sent', 'partially_received', 'received') THEN
+    RAISE EXCEPTION 'Order % is % and cannot be received against', v_order_number, v_status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_invoice_item_order_link ON invoice_items;
+CREATE TRIGGER check_invoice_item_order_link
+  BEFORE INSERT OR UPDATE OF supplier_order_item_id ON invoice_items
+  FOR EACH ROW
+  EXECUTE FUNCTION check_invoice_item_order_link();
+
+CREATE OR REPLACE FUNCTION refresh_order_from_invoice_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.supplier_order_item_id IS NOT NULL THEN
+    PERFORM refresh_supplier_order_receipts(
+      (SELECT order_id FROM supplier_order_items WHERE id = OLD.supplier_order_item_id)
+    );
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.supplier_order_item_id IS NOT NULL THEN
+    PERFORM refresh_supplier_order_receipts(
+      (SELECT order_id FROM supplier_order_items WHERE id = NEW.supplier_order_item_id)
+    );
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_order_from_invoice_item ON invoice_items;
+CREATE TRIGGER refresh_order_from_invoice_item
+  AFTER INSERT OR DELETE OR UPDATE OF quantity, supplier_order_item_id ON invoice_items
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_order_from_invoice_item();
+
+CREATE OR REPLACE FUNCTION refresh_order_from_invoice_reversal_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_item_id uuid;
+BEGIN
+  v_item_id := CASE WHEN TG_OP = 'DELETE' THEN OLD.original_invoice_item_id ELSE NEW.original_invoice_item_id END;
+
+  IF v_item_id IS NOT NULL THEN
+    PERFORM refresh_supplier_order_receipts((
+      SELECT oi.order_id
+      FROM invoice_items ii
+      JOIN supplier_order_items oi ON oi.id = ii.supplier_order_item_id
+      WHERE ii.id = v_item_id
+    ));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS refresh_order_from_invoice_reversal_item ON invoice_reversal_items;
+CREATE TRIGGER refresh_order_from_invoice_reversal_item
+  AFTER INSERT OR DELETE ON invoice_reversal_items
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_order_from_invoice_reversal_item();
+
+GRANT EXECUTE ON FUNCTION refresh_supplier_order_receipts(uuid) TO authenticated;
@@ -0,0 +1,69 @@
+/*
+  # Reorder Suggestions
+
+  1. Overview
+    - New orders were seeded with every medicine under its minimum stock
+      level, with no regard for how fast it sells or how long the supplier
+      takes to deliver
+    - Order quantities are now proposed from sales velocity: average daily
+      units sold over a configurable window, the supplier's lead time and a
+      safety stock, less what is already on hand and on order, rounded up to
+      whole packs
+    - Rules live in `app_settings` under `reorder_rules` and are managed by
+      admins from Settings: the sales window, default lead time, safety stock
+      and review period in days, and lead-time overrides per supplier
+
+  2. Changes
+    - `product_master`
+      - `pack_size` (integer, default 1) - Units per pack the supplier sells;
+        suggested quantities are rounded up to whole packs
+      - `preferred_supplier` (text) - Who the medicine is normally ordered
+        from. Suggestions fall back to the supplier of the latest batch
+
+  3. New Functions
+    - `get_medicine_sales_velocity(p_days)`
+      - Units sold per medicine over the last `p_days` days, net of customer
+        returns
+
+  4. Security
+    - No policy changes; `app_settings` and `product_master` keep their
+      existing policies. The function runs as the caller
+*/
+
+ALTER TABLE product_master ADD COLUMN IF NOT EXISTS pack_size integer NOT NULL DEFAULT 1 CHECK (pack_size > 0);
+ALTER TABLE product_master ADD COLUMN IF NOT EXISTS preferred_supplier text;
+
+INSERT INTO app_settings (key, value)
+VALUES (
+  'reorder_rules',
+  '{"sales_window_days": 30, "default_lead_time_days": 7, "safety_stock_days": 7, "review_period_days": 14, "supplier_lead_times": {}}'::jsonb
+)
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.get_medicine_sales_velocity(p_days integer)
+RETURNS TABLE (
+  product_master_id uuid,
+  units_sold integer
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+  SELECT
+    p.product_master_id,
+    GREATEST(0, SUM(si.quantity - COALESCE(returned.quantity, 0)))::integer AS units_sold
+  FROM sale_items si
+  JOIN sales s ON s.id = si.sale_id
+  JOIN products p ON p.id = si.product_id
+  LEFT JOIN LATERAL (
+    SELECT SUM(ri.quantity) AS quantity
+    FROM invoice_reversal_items ri
+    WHERE ri.original_sale_item_id = si.id
+  ) returned ON true
+  WHERE s.created_at >= now() - make_interval(days => GREATEST(p_days, 1))
+  AND p.product_master_id IS NOT NULL
+  GROUP BY p.product_master_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_medicine_sales_velocity(integer) TO authenticated;
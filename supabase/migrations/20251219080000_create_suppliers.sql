@@ -0,0 +1,417 @@
+/*
+  # Suppliers
+
+  1. Overview
+    - Suppliers were free text on batches, invoices, credit notes and orders,
+      so the same supplier was spelled several ways and there was nowhere to
+      keep their contacts, KRA PIN or terms
+    - Suppliers are now records. Names already in use are collected into the
+      new table, and invoices, credit notes and orders are linked to them
+    - Per-supplier lead times move from the `reorder_rules` setting onto the
+      supplier
+    - Scorecards compare suppliers over a period: spend, how much of what was
+      ordered arrived, whether it arrived by the expected date, how their
+      prices moved and how much was returned to them on credit notes
+
+  2. New Tables
+    - `suppliers`
+      - `id` (uuid, primary key)
+      - `name` (text) - Unique ignoring case
+      - `contact_person`, `phone`, `email`, `address` (text, optional)
+      - `kra_pin` (text, optional) - Unique
+      - `payment_terms_days` (integer, default 30) - Days to pay an invoice
+      - `lead_time_days` (integer, optional) - Days from sending an order to
+        delivery. Reorder suggestions use the default lead time when blank
+      - `default_discount_percent` (numeric, default 0) - Filled in on new
+        invoices from the supplier
+      - `notes` (text, optional)
+      - `is_active` (boolean) - Inactive suppliers are hidden from pickers
+      - `created_at`, `updated_at` (timestamptz)
+
+  3. Changes
+    - `invoices.supplier_id`, `credit_notes.supplier_id` and
+      `supplier_orders.supplier_id` (uuid, references suppliers)
+      - Set by a trigger from the supplier name, creating the supplier when
+        there is none, so existing inserts keep working. When only the id is
+        given the name is copied from the supplier
+    - Renaming a supplier renames it on its invoices, credit notes, orders,
+      batches and preferred medicines
+    - `reorder_rules.supplier_lead_times` is copied to the suppliers and
+      removed from the setting
+
+  4. New Functions
+    - `get_supplier_scorecards(p_from, p_to)`
+      - Per supplier: invoices and spend net of purchase reversals, credit
+        notes and return rate against spend, units received against units
+        ordered on orders sent in the period, orders delivered by their
+        expected date, and the average change in unit cost across medicines
+        bought more than once
+    - `get_supplier_price_trend(p_supplier_id, p_from, p_to)`
+      - Monthly spend and a price index for one supplier: each line's unit
+        cost against the first cost paid for that medicine in the period
+
+  5. Security
+    - RLS enabled on `suppliers`: all authenticated users can read, add and
+      edit suppliers so they can be picked on invoices; only admins can
+      delete. The functions run as the caller
+    - `sync_supplier_name` runs as the owner with a fixed search path, so a
+      rename updates every linked record whatever the renaming user can edit
+*/
+
+CREATE TABLE IF NOT EXISTS suppliers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL CHECK (trim(name) <> ''),
+  contact_person text,
+  phone text,
+  email text,
+  address text,
+  kra_pin text,
+  payment_terms_days integer NOT NULL DEFAULT 30 CHECK (payment_terms_days >= 0),
+  lead_time_days integer CHECK (lead_time_days >= 0),
+  default_discount_percent numeric(5, 2) NOT NULL DEFAULT 0 CHECK (default_discount_percent >= 0 AND default_discount_percent <= 100),
+  notes text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_suppliers_name ON suppliers (lower(trim(name)));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_suppliers_kra_pin ON suppliers (upper(trim(kra_pin))) WHERE kra_pin IS NOT NULL;
+
+-- Every supplier name already in use, keeping the spelling seen most often
+INSERT INTO suppliers (name)
+SELECT DISTINCT ON (lower(trim(name))) trim(name)
+FROM (
+  SELECT supplier AS name FROM products
+  UNION ALL SELECT supplier FROM invoices
+  UNION ALL SELECT supplier FROM credit_notes
+  UNION ALL SELECT supplier FROM supplier_orders
+  UNION ALL SELECT preferred_supplier FROM product_master
+) names
+WHERE NULLIF(trim(name), '') IS NOT NULL
+AND lower(trim(name)) <> 'unknown supplier'
+GROUP BY name
+ORDER BY lower(trim(name)), COUNT(*) DESC
+ON CONFLICT DO NOTHING;
+
+UPDATE suppliers s
+SET lead_time_days = (lead.value)::integer
+FROM app_settings a, jsonb_each_text(a.value -> 'supplier_lead_times') lead
+WHERE a.key = 'reorder_rules'
+AND lower(trim(lead.key)) = lower(trim(s.name));
+
+UPDATE app_settings
+SET value = value - 'supplier_lead_times'
+WHERE key = 'reorder_rules';
+
+ALTER TABLE invoices ADD COLUMN IF NOT EXISTS supplier_id uuid REFERENCES suppliers(id) ON DELETE SET NULL;
+ALTER TABLE credit_notes ADD COLUMN IF NOT EXISTS supplier_id uuid REFERENCES suppliers(id) ON DELETE SET NULL;
+ALTER TABLE supplier_orders ADD COLUMN IF NOT EXISTS supplier_id uuid REFERENCES suppliers(id) ON DELETE SET NULL;
+
+UPDATE invoices i SET supplier_id = s.id FROM suppliers s WHERE lower(trim(i.supplier)) = lower(trim(s.name));
+UPDATE credit_notes c SET supplier_id = s.id FROM suppliers s WHERE lower(trim(c.supplier)) = lower(trim(s.name));
+UPDATE supplier_orders o SET supplier_id = s.id FROM suppliers s WHERE lower(trim(o.supplier)) = lower(trim(s.name));
+
+CREATE INDEX IF NOT EXISTS idx_invoices_supplier_id ON invoices(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_supplier_id ON credit_notes(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_supplier_orders_supplier_id ON supplier_orders(supplier_id);
+
+CREATE OR REPLACE FUNCTION update_suppliers_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_suppliers_updated_at
+  BEFORE UPDATE ON suppliers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_suppliers_updated_at();
+
+-- Links a document to its supplier. The id wins when it is given or
+-- changed; otherwise the name is looked up, and a supplier is created for
+-- a name that is new.
+CREATE OR REPLACE FUNCTION public.set_supplier_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.supplier_id IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.supplier_id IS DISTINCT FROM OLD.supplier_id) THEN
+    SELECT name INTO NEW.supplier FROM suppliers WHERE id = NEW.supplier_id;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.supplier IS NOT DISTINCT FROM OLD.supplier THEN
+    RETURN NEW;
+  END IF;
+
+  IF NULLIF(trim(NEW.supplier), '') IS NULL OR lower(trim(NEW.supplier)) = 'unknown supplier' THEN
+    NEW.supplier_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  SELECT id INTO NEW.supplier_id
+  FROM suppliers
+  WHERE lower(trim(name)) = lower(trim(NEW.supplier));
+
+  IF NEW.supplier_id IS NULL THEN
+    INSERT INTO suppliers (name)
+    VALUES (trim(NEW.supplier))
+    RETURNING id INTO NEW.supplier_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_invoice_supplier_id
+  BEFORE INSERT OR UPDATE OF supplier, supplier_id ON invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION set_supplier_id();
+
+CREATE TRIGGER set_credit_note_supplier_id
+  BEFORE INSERT OR UPDATE OF supplier, supplier_id ON credit_notes
+  FOR EACH ROW
+  EXECUTE FUNCTION set_supplier_id();
+
+CREATE TRIGGER set_supplier_order_supplier_id
+  BEFORE INSERT OR UPDATE OF supplier, supplier_id ON supplier_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION set_supplier_id();
+
+-- Runs as the owner: the rename has to reach invoices, credit notes and
+-- orders the renaming user could not update directly under RLS
+CREATE OR REPLACE FUNCTION public.sync_supplier_name()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.name IS DISTINCT FROM OLD.name THEN
+    UPDATE invoices SET supplier = NEW.name WHERE supplier_id = NEW.id;
+    UPDATE credit_notes SET supplier = NEW.name WHERE supplier_id = NEW.id;
+    UPDATE supplier_orders SET supplier = NEW.name WHERE supplier_id = NEW.id;
+    UPDATE products SET supplier = NEW.name WHERE lower(trim(supplier)) = lower(trim(OLD.name));
+    UPDATE product_master SET preferred_supplier = NEW.name WHERE lower(trim(preferred_supplier)) = lower(trim(OLD.name));
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER sync_supplier_name
+  AFTER UPDATE OF name ON suppliers
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_supplier_name();
+
+ALTER TABLE suppliers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "suppliers_select"
+  ON public.suppliers FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "suppliers_insert"
+  ON public.suppliers FOR INSERT
+  TO authenticated
+  WITH CHECK (true);
+
+CREATE POLICY "suppliers_update"
+  ON public.suppliers FOR UPDATE
+  TO authenticated
+  USING (true)
+  WITH CHECK (true);
+
+CREATE POLICY "suppliers_delete"
+  ON public.suppliers FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.get_supplier_scorecards(p_from date, p_to date)
+RETURNS TABLE (
+  supplier_id uuid,
+  supplier_name text,
+  invoice_count integer,
+  spend numeric,
+  returns_amount numeric,
+  return_rate numeric,
+  orders_sent integer,
+  ordered_units integer,
+  received_units integer,
+  fill_rate numeric,
+  deliveries_due integer,
+  on_time_deliveries integer,
+  on_time_rate numeric,
+  price_change_percent numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+  WITH period_invoices AS (
+    SELECT id, supplier_id, invoice_date, total_amount
+    FROM invoices
+    WHERE supplier_id IS NOT NULL
+    AND invoice_date BETWEEN p_from AND p_to
+  ),
+  spend AS (
+    SELECT supplier_id, COUNT(*)::integer AS invoice_count, SUM(total_amount) AS gross_spend
+    FROM period_invoices
+    GROUP BY supplier_id
+  ),
+  reversed AS (
+    SELECT i.supplier_id, SUM(r.total_amount) AS amount
+    FROM invoice_reversals r
+    JOIN invoices i ON i.id = r.original_invoice_id
+    WHERE r.reversal_type = 'purchase'
+    AND r.reversal_date BETWEEN p_from AND p_to
+    AND i.supplier_id IS NOT NULL
+    GROUP BY i.supplier_id
+  ),
+  returned AS (
+    SELECT supplier_id, SUM(total_amount) AS amount
+    FROM credit_notes
+    WHERE supplier_id IS NOT NULL
+    AND return_date BETWEEN p_from AND p_to
+    GROUP BY supplier_id
+  ),
+  period_orders AS (
+    SELECT
+      o.id,
+      o.supplier_id,
+      o.expected_date,
+      (SELECT MIN(i.invoice_date) FROM invoices i WHERE i.supplier_order_id = o.id) AS first_delivery
+    FROM supplier_orders o
+    WHERE o.supplier_id IS NOT NULL
+    AND o.sent_at IS NOT NULL
+    AND o.sent_at::date BETWEEN p_from AND p_to
+  ),
+  fill AS (
+    SELECT
+      po.supplier_id,
+      COUNT(DISTINCT po.id)::integer AS orders_sent,
+      COALESCE(SUM(oi.order_quantity), 0)::integer AS ordered_units,
+      COALESCE(SUM(LEAST(oi.received_quantity, oi.order_quantity)), 0)::integer AS received_units
+    FROM period_orders po
+    LEFT JOIN supplier_order_items oi ON oi.order_id = po.id
+    GROUP BY po.supplier_id
+  ),
+  -- An order counts once it has been delivered or its expected date has passed
+  timeliness AS (
+    SELECT
+      supplier_id,
+      COUNT(*)::integer AS deliveries_due,
+      COUNT(*) FILTER (WHERE first_delivery <= expected_date)::integer AS on_time_deliveries
+    FROM period_orders
+    WHERE expected_date IS NOT NULL
+    AND (first_delivery IS NOT NULL OR expected_date < CURRENT_DATE)
+    GROUP BY supplier_id
+  ),
+  priced_lines AS (
+    SELECT
+      pi.supplier_id,
+      COALESCE(p.product_master_id::text, lower(trim(ii.product_name))) AS medicine,
+      ii.cost_price,
+      pi.invoice_date,
+      ii.created_at
+    FROM invoice_items ii
+    JOIN period_invoices pi ON pi.id = ii.invoice_id
+    LEFT JOIN products p ON p.id = ii.product_id
+  ),
+  price_changes AS (
+    SELECT
+      supplier_id,
+      (array_agg(cost_price ORDER BY invoice_date, created_at))[1] AS first_cost,
+      (array_agg(cost_price ORDER BY invoice_date DESC, created_at DESC))[1] AS last_cost
+    FROM priced_lines
+    GROUP BY supplier_id, medicine
+    HAVING COUNT(*) > 1
+  ),
+  prices AS (
+    SELECT supplier_id, AVG((last_cost - first_cost) / first_cost * 100) AS change_percent
+    FROM price_changes
+    WHERE first_cost > 0
+    GROUP BY supplier_id
+  )
+  SELECT
+    s.id AS supplier_id,
+    s.name AS supplier_name,
+    COALESCE(sp.invoice_count, 0) AS invoice_count,
+    ROUND(COALESCE(sp.gross_spend, 0) - COALESCE(rv.amount, 0), 2) AS spend,
+    ROUND(COALESCE(rt.amount, 0), 2) AS returns_amount,
+    CASE WHEN sp.gross_spend > 0 THEN ROUND(COALESCE(rt.amount, 0) / sp.gross_spend * 100, 1) END AS return_rate,
+    COALESCE(f.orders_sent, 0) AS orders_sent,
+    COALESCE(f.ordered_units, 0) AS ordered_units,
+    COALESCE(f.received_units, 0) AS received_units,
+    CASE WHEN f.ordered_units > 0 THEN ROUND(f.received_units::numeric / f.ordered_units * 100, 1) END AS fill_rate,
+    COALESCE(t.deliveries_due, 0) AS deliveries_due,
+    COALESCE(t.on_time_deliveries, 0) AS on_time_deliveries,
+    CASE WHEN t.deliveries_due > 0 THEN ROUND(t.on_time_deliveries::numeric / t.deliveries_due * 100, 1) END AS on_time_rate,
+    ROUND(pr.change_percent, 1) AS price_change_percent
+  FROM suppliers s
+  LEFT JOIN spend sp ON sp.supplier_id = s.id
+  LEFT JOIN reversed rv ON rv.supplier_id = s.id
+  LEFT JOIN returned rt ON rt.supplier_id = s.id
+  LEFT JOIN fill f ON f.supplier_id = s.id
+  LEFT JOIN timeliness t ON t.supplier_id = s.id
+  LEFT JOIN prices pr ON pr.supplier_id = s.id
+  WHERE s.is_active
+  OR sp.supplier_id IS NOT NULL
+  OR rt.supplier_id IS NOT NULL
+  OR f.supplier_id IS NOT NULL
+  ORDER BY 4 DESC, s.name;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_supplier_price_trend(p_supplier_id uuid, p_from date, p_to date)
+RETURNS TABLE (
+  month_start date,
+  line_count integer,
+  spend numeric,
+  price_index numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+  WITH lines AS (
+    SELECT
+      date_trunc('month', i.invoice_date)::date AS month_start,
+      COALESCE(p.product_master_id::text, lower(trim(ii.product_name))) AS medicine,
+      ii.cost_price,
+      ii.total_cost,
+      i.invoice_date,
+      ii.created_at
+    FROM invoice_items ii
+    JOIN invoices i ON i.id = ii.invoice_id
+    LEFT JOIN products p ON p.id = ii.product_id
+    WHERE i.supplier_id = p_supplier_id
+    AND i.invoice_date BETWEEN p_from AND p_to
+  ),
+  first_costs AS (
+    SELECT medicine, (array_agg(cost_price ORDER BY invoice_date, created_at))[1] AS first_cost
+    FROM lines
+    GROUP BY medicine
+  )
+  SELECT
+    l.month_start,
+    COUNT(*)::integer AS line_count,
+    ROUND(SUM(l.total_cost), 2) AS spend,
+    ROUND(AVG(l.cost_price / fc.first_cost * 100) FILTER (WHERE fc.first_cost > 0), 1) AS price_index
+  FROM lines l
+  JOIN first_costs fc ON fc.medicine = l.medicine
+  GROUP BY l.month_start
+  ORDER BY l.month_start;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_supplier_scorecards(date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_supplier_price_trend(uuid, date, date) TO authenticated;
@@ -0,0 +1,468 @@
+/*
+  # Reverse Loyalty Points on Returns
+
+  1. Overview
+    - Returns never touched loyalty. The part of a sale paid with points was
+      refunded through another tender, turning redeemed points into cash, and
+      points earned on returned items stayed on the account
+    - A return now credits the loyalty share of its refund back as points and
+      claws back earned points in proportion to the value returned
+
+  2. Changes
+    - `loyalty_ledger.entry_type` allows
+      - `refund` - Redeemed points credited back by a return
+      - `clawback` - Earned points taken back by a return
+    - `loyalty_ledger.sale_return_id` (uuid, references invoice_reversals) -
+      Return a refund or clawback entry belongs to
+    - `sale_return_payments.payment_method` allows `loyalty`
+    - `process_sale_return` works out the loyalty share of the refund itself:
+      the returned value times the share of the sale paid with points, or
+      whatever is left of it on the return that takes back the last item. The
+      refund tenders passed in must cover the rest, and may not include
+      `loyalty`
+
+  3. New Functions
+    - `apply_return_loyalty(p_reversal_id)` - Credits the return's loyalty
+      refund back as points, in proportion to the points redeemed on the sale,
+      and claws back earned points. Points the customer has already spent are
+      not clawed back, since a balance cannot go below zero
+      - Credited points expire like newly earned ones
+      - Everything is read back from the return and a return is only ever
+        applied once
+
+  4. Security
+    - `apply_return_loyalty` runs as the owner, like `apply_sale_loyalty`; the
+      ledger still has no insert, update or delete policies
+*/
+
+ALTER TABLE loyalty_ledger DROP CONSTRAINT IF EXISTS loyalty_ledger_entry_type_check;
+ALTER TABLE loyalty_ledger ADD CONSTRAINT loyalty_ledger_entry_type_check
+  CHECK (entry_type IN ('earn', 'redeem', 'expire', 'adjust', 'refund', 'clawback'));
+
+ALTER TABLE loyalty_ledger
+  ADD COLUMN IF NOT EXISTS sale_return_id uuid REFERENCES invoice_reversals(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_ledger_sale_return ON loyalty_ledger(sale_return_id);
+
+ALTER TABLE sale_return_payments DROP CONSTRAINT IF EXISTS sale_return_payments_payment_method_check;
+ALTER TABLE sale_return_payments ADD CONSTRAINT sale_return_payments_payment_method_check
+  CHECK (payment_method IN ('cash', 'mpesa', 'card', 'insurance', 'loyalty'));
+
+-- Credits back redeemed points and claws back earned points for a committed
+-- return. Like apply_sale_loyalty, it reads everything from the return itself
+-- and applies a return only once.
+CREATE OR REPLACE FUNCTION public.apply_return_loyalty(p_reversal_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_rules jsonb;
+  v_return invoice_reversals%ROWTYPE;
+  v_sale sales%ROWTYPE;
+  v_fully_returned boolean;
+  v_loyalty_refund numeric(10,2);
+  v_loyalty_paid numeric(10,2);
+  v_redeemed integer;
+  v_credited integer;
+  v_credit integer;
+  v_earned integer;
+  v_clawed integer;
+  v_clawback integer;
+  v_to_take integer;
+  v_entry loyalty_ledger%ROWTYPE;
+  v_expiry_months integer;
+BEGIN
+  SELECT * INTO v_return FROM invoice_reversals WHERE id = p_reversal_id;
+
+  IF NOT FOUND OR EXISTS (SELECT 1 FROM loyalty_ledger WHERE sale_return_id = p_reversal_id) THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_sale FROM sales WHERE id = v_return.original_sale_id;
+
+  IF NOT FOUND OR v_sale.customer_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT value INTO v_rules FROM app_settings WHERE key = 'loyalty_rules';
+  v_expiry_months := COALESCE((v_rules->>'expiry_months')::integer, 0);
+
+  -- Serialise with redemptions for the same customer
+  PERFORM 1 FROM customers WHERE id = v_sale.customer_id FOR UPDATE;
+
+  -- This return is already written, so it counts as returned here
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM sale_items si
+    WHERE si.sale_id = v_sale.id
+    AND si.quantity > (
+      SELECT COALESCE(SUM(quantity), 0)
+      FROM invoice_reversal_items
+      WHERE original_sale_item_id = si.id
+    )
+  )
+  INTO v_fully_returned;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_loyalty_refund
+  FROM sale_return_payments
+  WHERE reversal_id = p_reversal_id AND payment_method = 'loyalty';
+
+  IF v_loyalty_refund > 0 THEN
+    SELECT COALESCE(SUM(amount), 0) INTO v_loyalty_paid
+    FROM sale_payments
+    WHERE sale_id = v_sale.id AND payment_method = 'loyalty';
+
+    SELECT
+      COALESCE(-SUM(points) FILTER (WHERE entry_type = 'redeem'), 0),
+      COALESCE(SUM(points) FILTER (WHERE entry_type = 'refund'), 0)
+    INTO v_redeemed, v_credited
+    FROM loyalty_ledger
+    WHERE sale_id = v_sale.id;
+
+    v_credit := CASE
+      WHEN v_fully_returned THEN v_redeemed - v_credited
+      ELSE LEAST(v_redeemed - v_credited, round(v_redeemed * v_loyalty_refund / NULLIF(v_loyalty_paid, 0))::integer)
+    END;
+
+    IF v_credit > 0 THEN
+      INSERT INTO loyalty_ledger (
+        customer_id,
+        sale_id,
+        sale_return_id,
+        entry_type,
+        points,
+        points_remaining,
+        expires_at,
+        notes,
+        created_by_name
+      ) VALUES (
+        v_sale.customer_id,
+        v_sale.id,
+        p_reversal_id,
+        'refund',
+        v_credit,
+        v_credit,
+        CASE WHEN v_expiry_months > 0 THEN now() + make_interval(months => v_expiry_months) END,
+        'Credited back on return ' || v_return.reversal_number,
+        v_return.user_name
+      );
+    END IF;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(points) FILTER (WHERE entry_type = 'earn'), 0),
+    COALESCE(-SUM(points) FILTER (WHERE entry_type = 'clawback'), 0)
+  INTO v_earned, v_clawed
+  FROM loyalty_ledger
+  WHERE sale_id = v_sale.id;
+
+  v_clawback := CASE
+    WHEN v_fully_returned THEN v_earned - v_clawed
+    ELSE LEAST(v_earned - v_clawed, round(v_earned * v_return.total_amount / NULLIF(v_sale.total_amount, 0))::integer)
+  END;
+
+  IF COALESCE(v_clawback, 0) <= 0 THEN
+    RETURN;
+  END IF;
+
+  -- Take from the sale's own earn entry first, then oldest expiry first
+  v_to_take := v_clawback;
+  FOR v_entry IN
+    SELECT * FROM loyalty_ledger
+    WHERE customer_id = v_sale.customer_id
+      AND points_remaining > 0
+      AND (expires_at IS NULL OR expires_at > now())
+    ORDER BY COALESCE(sale_id = v_sale.id AND entry_type = 'earn', false) DESC, expires_at NULLS LAST, created_at
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_to_take = 0;
+
+    UPDATE loyalty_ledger
+    SET points_remaining = points_remaining - LEAST(v_entry.points_remaining, v_to_take)
+    WHERE id = v_entry.id;
+
+    v_to_take := v_to_take - LEAST(v_entry.points_remaining, v_to_take);
+  END LOOP;
+
+  IF v_clawback - v_to_take > 0 THEN
+    INSERT INTO loyalty_ledger (customer_id, sale_id, sale_return_id, entry_type, points, notes, created_by_name)
+    VALUES (
+      v_sale.customer_id,
+      v_sale.id,
+      p_reversal_id,
+      'clawback',
+      -(v_clawback - v_to_take),
+      'Taken back on return ' || v_return.reversal_number
+        || CASE WHEN v_to_take > 0 THEN ' (' || v_to_take || ' points already spent)' ELSE '' END,
+      v_return.user_name
+    );
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.apply_return_loyalty(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.process_sale_return(
+  p_reversal_id uuid,
+  p_sale_id uuid,
+  p_reason text,
+  p_notes text,
+  p_user_name text,
+  p_items jsonb,
+  p_refunds jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_sale sales%ROWTYPE;
+  v_item jsonb;
+  v_sale_item sale_items%ROWTYPE;
+  v_product_id uuid;
+  v_cost_price numeric(10,2);
+  v_quantity integer;
+  v_returned integer;
+  v_total numeric(10,2) := 0;
+  v_refunded numeric(10,2) := 0;
+  v_return_count integer;
+  v_fully_returned boolean;
+  v_loyalty_paid numeric(10,2);
+  v_loyalty_refund numeric(10,2) := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Missing authorization header';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  -- May be empty when the whole refund goes back as points
+  IF p_refunds IS NULL OR jsonb_typeof(p_refunds) <> 'array' THEN
+    RAISE EXCEPTION 'Cannot complete a return without refund tender';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM jsonb_array_elements(p_refunds) WHERE value->>'payment_method' = 'loyalty') THEN
+    RAISE EXCEPTION 'Redeemed points are credited back automatically';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT value->>'sale_item_id') FROM jsonb_array_elements(p_items)) <> jsonb_array_length(p_items) THEN
+    RAISE EXCEPTION 'Each receipt line can only appear once in a return';
+  END IF;
+
+  -- Idempotent retry: the return was already committed on a previous attempt
+  IF EXISTS (SELECT 1 FROM invoice_reversals WHERE id = p_reversal_id) THEN
+    RETURN get_sale_return_json(p_reversal_id);
+  END IF;
+
+  -- Serialise returns against the same receipt
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found';
+  END IF;
+
+  -- Validate every line and compute the refund before writing anything
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT * INTO v_sale_item
+    FROM sale_items
+    WHERE id = (v_item->>'sale_item_id')::uuid
+    AND sale_id = p_sale_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item is not part of receipt %', v_sale.receipt_number;
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid return quantity for %', v_sale_item.product_name;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO v_returned
+    FROM invoice_reversal_items
+    WHERE original_sale_item_id = v_sale_item.id;
+
+    IF v_quantity > v_sale_item.quantity - v_returned THEN
+      RAISE EXCEPTION 'Cannot return % of %: % sold, % already returned',
+        v_quantity, v_sale_item.product_name, v_sale_item.quantity, v_returned;
+    END IF;
+
+    v_total := v_total + v_sale_item.unit_price * v_quantity;
+  END LOOP;
+
+  -- Whether this return takes back everything still on the receipt
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM sale_items si
+    WHERE si.sale_id = p_sale_id
+    AND si.quantity > (
+      SELECT COALESCE(SUM(quantity), 0)
+      FROM invoice_reversal_items
+      WHERE original_sale_item_id = si.id
+    ) + COALESCE((
+      SELECT (value->>'quantity')::integer
+      FROM jsonb_array_elements(p_items)
+      WHERE (value->>'sale_item_id')::uuid = si.id
+    ), 0)
+  )
+  INTO v_fully_returned;
+
+  -- The part of the sale paid with points goes back as points, so redeemed
+  -- points are never paid out in cash. The last return settles what is left
+  SELECT COALESCE(SUM(amount), 0) INTO v_loyalty_paid
+  FROM sale_payments
+  WHERE sale_id = p_sale_id AND payment_method = 'loyalty';
+
+  IF v_loyalty_paid > 0 THEN
+    v_loyalty_paid := v_loyalty_paid - (
+      SELECT COALESCE(SUM(rp.amount), 0)
+      FROM sale_return_payments rp
+      JOIN invoice_reversals r ON r.id = rp.reversal_id
+      WHERE r.original_sale_id = p_sale_id
+      AND rp.payment_method = 'loyalty'
+    );
+
+    v_loyalty_refund := GREATEST(CASE
+      WHEN v_fully_returned THEN v_loyalty_paid
+      ELSE LEAST(v_loyalty_paid, round(v_total * (
+        SELECT SUM(amount) FROM sale_payments WHERE sale_id = p_sale_id AND payment_method = 'loyalty'
+      ) / NULLIF(v_sale.total_amount, 0), 2))
+    END, 0);
+  END IF;
+
+  SELECT COALESCE(SUM((value->>'amount')::numeric), 0)
+  INTO v_refunded
+  FROM jsonb_array_elements(p_refunds);
+
+  IF v_refunded <> v_total - v_loyalty_refund THEN
+    IF v_loyalty_refund > 0 THEN
+      RAISE EXCEPTION 'Refund (%) does not match returned items (%) less % credited back as points',
+        v_refunded, v_total, v_loyalty_refund;
+    END IF;
+    RAISE EXCEPTION 'Refund (%) does not match returned items (%)', v_refunded, v_total;
+  END IF;
+
+  SELECT COUNT(*) INTO v_return_count
+  FROM invoice_reversals
+  WHERE original_sale_id = p_sale_id;
+
+  INSERT INTO invoice_reversals (
+    id,
+    original_sale_id,
+    reversal_number,
+    reversal_type,
+    total_amount,
+    reason,
+    notes,
+    user_id,
+    user_name
+  ) VALUES (
+    p_reversal_id,
+    p_sale_id,
+    'RTN-' || v_sale.receipt_number || '-' || (v_return_count + 1)::text,
+    'sales',
+    v_total,
+    COALESCE(NULLIF(p_reason, ''), 'Customer return'),
+    NULLIF(p_notes, ''),
+    auth.uid(),
+    p_user_name
+  );
+
+  PERFORM set_stock_movement_context(
+    'customer_return', 'sale_return', p_reversal_id,
+    'RTN-' || v_sale.receipt_number || '-' || (v_return_count + 1)::text,
+    COALESCE(NULLIF(p_reason, ''), 'Customer return'), p_user_name
+  );
+
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT * INTO v_sale_item
+    FROM sale_items
+    WHERE id = (v_item->>'sale_item_id')::uuid;
+
+    -- Restock the exact batch the line was sold from
+    v_product_id := v_sale_item.product_id;
+    IF v_product_id IS NULL THEN
+      SELECT id INTO v_product_id
+      FROM products
+      WHERE name = v_sale_item.product_name
+      AND batch_number IS NOT DISTINCT FROM v_sale_item.batch_number
+      LIMIT 1;
+    END IF;
+
+    IF v_product_id IS NULL THEN
+      RAISE EXCEPTION 'Batch % of % no longer exists in inventory',
+        COALESCE(v_sale_item.batch_number, '-'), v_sale_item.product_name;
+    END IF;
+
+    UPDATE products
+    SET current_stock = current_stock + v_quantity,
+        updated_at = now()
+    WHERE id = v_product_id
+    RETURNING cost_price INTO v_cost_price;
+
+    INSERT INTO invoice_reversal_items (
+      reversal_id,
+      original_sale_item_id,
+      product_id,
+      product_name,
+      batch_number,
+      quantity,
+      cost_price,
+      selling_price,
+      total_cost
+    ) VALUES (
+      p_reversal_id,
+      v_sale_item.id,
+      v_product_id,
+      v_sale_item.product_name,
+      v_sale_item.batch_number,
+      v_quantity,
+      COALESCE(v_cost_price, 0),
+      v_sale_item.unit_price,
+      COALESCE(v_cost_price, 0) * v_quantity
+    );
+  END LOOP;
+
+  INSERT INTO sale_return_payments (
+    reversal_id,
+    payment_method,
+    amount,
+    reference,
+    approval_code,
+    masked_pan,
+    terminal_id,
+    terminal_transaction_id
+  )
+  SELECT
+    p_reversal_id,
+    value->>'payment_method',
+    (value->>'amount')::numeric,
+    NULLIF(value->>'reference', ''),
+    NULLIF(value->>'approval_code', ''),
+    NULLIF(value->>'masked_pan', ''),
+    NULLIF(value->>'terminal_id', ''),
+    NULLIF(value->>'terminal_transaction_id', '')
+  FROM jsonb_array_elements(p_refunds);
+
+  IF v_loyalty_refund > 0 THEN
+    INSERT INTO sale_return_payments (reversal_id, payment_method, amount)
+    VALUES (p_reversal_id, 'loyalty', v_loyalty_refund);
+  END IF;
+
+  PERFORM apply_return_loyalty(p_reversal_id);
+
+  RETURN get_sale_return_json(p_reversal_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale_return(uuid, uuid, text, text, text, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,267 @@
+/*
+  # Lock Down Cashier Shifts
+
+  1. Overview
+    - A cashier could update their own open shift directly, including the
+      opening float, counted and expected cash and the Z-report, and mark it
+      closed without `close_cashier_shift`, making the variance say anything
+    - Pay-ins and pay-outs could be posted against any open shift, not only
+      the caller's own
+    - The X-report withheld only expected cash from the cashier, so it could
+      still be worked out from the float, cash takings and movements
+
+  2. Changes
+    - Shifts are only written by `open_cashier_shift`, `close_cashier_shift`
+      and `approve_cashier_shift`, which now run as the owner and check who
+      is calling
+    - `record_cash_movement` and the `cash_movements` insert policy only accept
+      the caller's own open shift, or any open shift for admins
+    - `get_shift_report` returns only non-cash totals to a cashier while their
+      shift is open: opening float, gross sales, cash taken and refunded,
+      pay-ins, pay-outs and the movements themselves are left out, and
+      `cash_withheld` is set. Admins and closed shifts see everything
+
+  3. Security
+    - `cashier_shifts_update` and `cashier_shifts_insert` policies dropped
+    - `cash_movements_insert` checks the shift's cashier
+*/
+
+DROP POLICY IF EXISTS "cashier_shifts_update" ON public.cashier_shifts;
+DROP POLICY IF EXISTS "cashier_shifts_insert" ON public.cashier_shifts;
+
+DROP POLICY IF EXISTS "cash_movements_insert" ON public.cash_movements;
+
+CREATE POLICY "cash_movements_insert"
+  ON public.cash_movements FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    created_by = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM public.cashier_shifts
+      WHERE id = shift_id
+      AND status = 'open'
+      AND (
+        cashier_id = auth.uid()
+        OR EXISTS (
+          SELECT 1 FROM public.user_profiles
+          WHERE user_id = auth.uid()
+          AND role IN ('super_admin', 'admin')
+        )
+      )
+    )
+  );
+
+CREATE OR REPLACE FUNCTION public.open_cashier_shift(
+  p_opening_float numeric,
+  p_cashier_name text
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_shift_id uuid := gen_random_uuid();
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Missing authorization header';
+  END IF;
+
+  IF p_opening_float IS NULL OR p_opening_float < 0 THEN
+    RAISE EXCEPTION 'Opening float cannot be negative';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM cashier_shifts WHERE cashier_id = auth.uid() AND status = 'open') THEN
+    RAISE EXCEPTION 'You already have an open shift. Close it before opening another.';
+  END IF;
+
+  INSERT INTO cashier_shifts (id, cashier_id, cashier_name, opening_float)
+  VALUES (v_shift_id, auth.uid(), p_cashier_name, round(p_opening_float, 2));
+
+  RETURN v_shift_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.record_cash_movement(
+  p_shift_id uuid,
+  p_movement_type text,
+  p_amount numeric,
+  p_reason text,
+  p_user_name text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Amount must be greater than zero';
+  END IF;
+
+  IF NULLIF(trim(COALESCE(p_reason, '')), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for the %', replace(p_movement_type, '_', '-');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM cashier_shifts
+    WHERE id = p_shift_id
+    AND status = 'open'
+    AND (
+      cashier_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_id = auth.uid()
+        AND role IN ('super_admin', 'admin')
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Shift is not open or is not yours';
+  END IF;
+
+  INSERT INTO cash_movements (shift_id, movement_type, amount, reason, created_by, created_by_name)
+  VALUES (p_shift_id, p_movement_type, round(p_amount, 2), trim(p_reason), auth.uid(), p_user_name);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_shift_report(p_shift_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_shift cashier_shifts%ROWTYPE;
+  v_report jsonb;
+BEGIN
+  SELECT * INTO v_shift FROM cashier_shifts WHERE id = p_shift_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  IF v_shift.status = 'open' THEN
+    v_report := compute_shift_report(p_shift_id);
+
+    -- Anything expected cash could be worked out from stays hidden from the
+    -- cashier until the count is in
+    IF NOT EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    ) THEN
+      v_report := (v_report - ARRAY['opening_float', 'gross_sales', 'pay_ins', 'pay_outs', 'cash_movements', 'expected_cash'])
+        || jsonb_build_object(
+          'payments', (v_report->'payments') - 'cash',
+          'refunds', (v_report->'refunds') - 'cash',
+          'cash_withheld', true
+        );
+    END IF;
+  ELSE
+    v_report := v_shift.z_report;
+  END IF;
+
+  RETURN v_report || jsonb_build_object(
+    'status', v_shift.status,
+    'closing_notes', v_shift.closing_notes,
+    'reviewed_by_name', v_shift.reviewed_by_name,
+    'reviewed_at', v_shift.reviewed_at,
+    'review_notes', v_shift.review_notes
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.close_cashier_shift(
+  p_shift_id uuid,
+  p_counted_cash numeric,
+  p_notes text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_shift cashier_shifts%ROWTYPE;
+  v_report jsonb;
+  v_expected numeric(12,2);
+  v_closed_at timestamptz := now();
+BEGIN
+  IF p_counted_cash IS NULL OR p_counted_cash < 0 THEN
+    RAISE EXCEPTION 'Counted cash cannot be negative';
+  END IF;
+
+  -- Locked so a second till cannot close the same shift with another count
+  SELECT * INTO v_shift FROM cashier_shifts WHERE id = p_shift_id FOR UPDATE;
+
+  IF NOT FOUND OR (
+    v_shift.cashier_id IS DISTINCT FROM auth.uid()
+    AND NOT EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin')
+    )
+  ) THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  IF v_shift.status <> 'open' THEN
+    RAISE EXCEPTION 'Shift is already closed';
+  END IF;
+
+  v_report := compute_shift_report(p_shift_id);
+  v_expected := (v_report->>'expected_cash')::numeric;
+  v_report := v_report || jsonb_build_object(
+    'status', 'closed',
+    'closed_at', v_closed_at,
+    'counted_cash', round(p_counted_cash, 2),
+    'cash_variance', round(p_counted_cash, 2) - v_expected
+  );
+
+  UPDATE cashier_shifts
+  SET status = 'closed',
+      closed_at = v_closed_at,
+      counted_cash = round(p_counted_cash, 2),
+      expected_cash = v_expected,
+      cash_variance = round(p_counted_cash, 2) - v_expected,
+      closing_notes = NULLIF(trim(COALESCE(p_notes, '')), ''),
+      z_report = v_report
+  WHERE id = p_shift_id;
+
+  RETURN get_shift_report(p_shift_id);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.approve_cashier_shift(
+  p_shift_id uuid,
+  p_notes text,
+  p_user_name text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM user_profiles
+    WHERE user_id = auth.uid()
+    AND role IN ('super_admin', 'admin')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can sign off shifts';
+  END IF;
+
+  UPDATE cashier_shifts
+  SET status = 'approved',
+      reviewed_by = auth.uid(),
+      reviewed_by_name = p_user_name,
+      reviewed_at = now(),
+      review_notes = NULLIF(trim(COALESCE(p_notes, '')), '')
+  WHERE id = p_shift_id
+  AND status = 'closed';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only closed shifts can be signed off';
+  END IF;
+END;
+$$;
@@ -0,0 +1,446 @@
+/*
+  # Decide Offline Sales on the Server
+
+  1. Overview
+    - `process_sale` trusted `p_offline` from the client, and setting it
+      skipped the stock, expiry and prescription checks, so any till could
+      sell prescription-only medicine without a prescription
+    - Stock was checked line by line, so the same batch on two lines could
+      oversell; the stock update then clamped at zero for every sale, hiding
+      it from the movement ledger
+
+  2. Changes
+    - A sale is only treated as an offline replay when the till flags it and
+      it was made more than two minutes before it reached the server
+    - Offline replays are never refused, but expired batches and prescription
+      medicines sold without full prescription details are now recorded in
+      `sale_sync_exceptions` alongside stock shortfalls
+    - Stock is checked against the total quantity of each batch in the cart,
+      and only offline replays clamp stock at zero
+    - `sale_sync_exceptions` gains
+      - `exception_type` (text) - stock, expired or prescription
+      - `details` (text) - What was wrong, e.g. the expiry date
+      - `shortfall` and `stock_available` are only required for stock
+        exceptions
+
+  3. Security
+    - No change to policies
+*/
+
+ALTER TABLE sale_sync_exceptions
+  ADD COLUMN IF NOT EXISTS exception_type text NOT NULL DEFAULT 'stock'
+    CHECK (exception_type IN ('stock', 'expired', 'prescription')),
+  ADD COLUMN IF NOT EXISTS details text;
+
+ALTER TABLE sale_sync_exceptions ALTER COLUMN shortfall DROP NOT NULL;
+ALTER TABLE sale_sync_exceptions DROP CONSTRAINT IF EXISTS sale_sync_exceptions_shortfall_check;
+ALTER TABLE sale_sync_exceptions ADD CONSTRAINT sale_sync_exceptions_shortfall_check
+  CHECK (exception_type <> 'stock' OR shortfall > 0);
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_sale_id uuid,
+  p_branch_code text,
+  p_customer_name text,
+  p_sales_person_id uuid,
+  p_sales_person_name text,
+  p_items jsonb,
+  p_payments jsonb,
+  p_sold_at timestamptz DEFAULT NULL,
+  p_offline boolean DEFAULT false,
+  p_insurance jsonb DEFAULT NULL,
+  p_customer_id uuid DEFAULT NULL,
+  p_prescription jsonb DEFAULT NULL,
+  p_discounts jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_item jsonb;
+  v_product products%ROWTYPE;
+  v_quantity integer;
+  v_total numeric(10,2) := 0;
+  v_paid numeric(10,2) := 0;
+  v_insured numeric(10,2) := 0;
+  v_discounted numeric(10,2) := 0;
+  v_methods text[];
+  v_exceptions jsonb := '[]'::jsonb;
+  v_prescription_id uuid;
+  v_offline boolean;
+  v_missing_prescription boolean;
+BEGIN
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without items';
+  END IF;
+
+  IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without payment';
+  END IF;
+
+  -- Idempotent retry: the sale was already committed on a previous attempt
+  IF EXISTS (SELECT 1 FROM sales WHERE id = p_sale_id) THEN
+    RETURN get_sale_json(p_sale_id);
+  END IF;
+
+  -- Only a sale the till made a while before sending it is treated as an
+  -- offline replay; a flag from the client alone is not enough
+  v_offline := COALESCE(p_offline, false)
+    AND p_sold_at IS NOT NULL
+    AND p_sold_at < now() - interval '2 minutes';
+
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item->>'product_name';
+    END IF;
+
+    v_total := v_total + (v_item->>'total_price')::numeric;
+  END LOOP;
+
+  v_missing_prescription := p_prescription IS NULL
+    OR NULLIF(trim(p_prescription->>'prescriber_name'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'prescriber_licence'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'patient_name'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'reference'), '') IS NULL;
+
+  -- Lock every product in a stable order and validate stock before writing
+  -- anything. A batch on several lines is checked against their total
+  FOR v_item IN
+    SELECT jsonb_build_object(
+      'product_id', value->>'product_id',
+      'product_name', MIN(value->>'product_name'),
+      'quantity', SUM((value->>'quantity')::integer)
+    )
+    FROM jsonb_array_elements(p_items)
+    GROUP BY value->>'product_id'
+    ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT * INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % no longer exists', v_item->>'product_name';
+    END IF;
+
+    -- An offline sale has already left the shop, so what would be refused
+    -- online is flagged for a manager instead
+    IF v_product.expiry_date < COALESCE(p_sold_at, now())::date THEN
+      IF NOT v_offline THEN
+        RAISE EXCEPTION 'Batch % of % expired on %', v_product.batch_number, v_product.name, v_product.expiry_date;
+      END IF;
+
+      v_exceptions := v_exceptions || jsonb_build_object(
+        'exception_type', 'expired',
+        'product_id', v_product.id,
+        'product_name', v_product.name,
+        'batch_number', v_product.batch_number,
+        'quantity_sold', v_quantity,
+        'stock_available', v_product.current_stock,
+        'details', 'Batch expired on ' || v_product.expiry_date
+      );
+    END IF;
+
+    IF v_product.current_stock < v_quantity THEN
+      IF NOT v_offline THEN
+        RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+          v_product.name, v_product.current_stock, v_quantity;
+      END IF;
+
+      v_exceptions := v_exceptions || jsonb_build_object(
+        'exception_type', 'stock',
+        'product_id', v_product.id,
+        'product_name', v_product.name,
+        'batch_number', v_product.batch_number,
+        'quantity_sold', v_quantity,
+        'stock_available', v_product.current_stock,
+        'shortfall', v_quantity - GREATEST(v_product.current_stock, 0)
+      );
+    END IF;
+
+    IF v_product.drug_schedule <> 'otc' AND v_missing_prescription THEN
+      IF NOT v_offline THEN
+        RAISE EXCEPTION 'Prescription details are required for %', v_product.name;
+      END IF;
+
+      v_exceptions := v_exceptions || jsonb_build_object(
+        'exception_type', 'prescription',
+        'product_id', v_product.id,
+        'product_name', v_product.name,
+        'batch_number', v_product.batch_number,
+        'quantity_sold', v_quantity,
+        'stock_available', v_product.current_stock,
+        'details', 'Dispensed without full prescription details'
+      );
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM((value->>'amount')::numeric), 0),
+         COALESCE(SUM((value->>'amount')::numeric) FILTER (WHERE value->>'payment_method' = 'insurance'), 0),
+         array_agg(DISTINCT value->>'payment_method')
+  INTO v_paid, v_insured, v_methods
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_paid <> v_total THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', v_paid, v_total;
+  END IF;
+
+  SELECT COALESCE(SUM((value->>'discount_amount')::numeric), 0)
+  INTO v_discounted
+  FROM jsonb_array_elements(p_items);
+
+  IF v_discounted <> COALESCE((
+    SELECT SUM((value->>'amount')::numeric) FROM jsonb_array_elements(COALESCE(p_discounts, '[]'::jsonb))
+  ), 0) THEN
+    RAISE EXCEPTION 'Discount lines do not match the discounts on the items (%)', v_discounted;
+  END IF;
+
+  IF v_insured > 0 AND (
+    p_insurance IS NULL
+    OR NULLIF(p_insurance->>'insurer_id', '') IS NULL
+    OR NULLIF(trim(p_insurance->>'member_number'), '') IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Insurer and member number are required for insurance payments';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM customers WHERE id = p_customer_id) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  INSERT INTO sales (
+    id,
+    receipt_number,
+    customer_id,
+    customer_name,
+    total_amount,
+    payment_method,
+    mpesa_receipt_number,
+    sales_person_id,
+    sales_person_name,
+    created_at
+  ) VALUES (
+    p_sale_id,
+    generate_receipt_number(COALESCE(NULLIF(p_branch_code, ''), 'MAIN')),
+    p_customer_id,
+    COALESCE(NULLIF(p_customer_name, ''), (SELECT name FROM customers WHERE id = p_customer_id)),
+    v_total,
+    CASE WHEN array_length(v_methods, 1) > 1 THEN 'split' ELSE v_methods[1] END,
+    (
+      SELECT NULLIF(value->>'reference', '')
+      FROM jsonb_array_elements(p_payments)
+      WHERE value->>'payment_method' = 'mpesa'
+      LIMIT 1
+    ),
+    p_sales_person_id,
+    p_sales_person_name,
+    COALESCE(p_sold_at, now())
+  );
+
+  INSERT INTO sale_items (
+    sale_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    total_price,
+    discount_amount,
+    batch_number
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::numeric,
+    (value->>'total_price')::numeric,
+    COALESCE((value->>'discount_amount')::numeric, 0),
+    p.batch_number
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid;
+
+  INSERT INTO sale_discounts (
+    sale_id,
+    promotion_id,
+    product_id,
+    description,
+    amount,
+    created_at
+  )
+  SELECT
+    p_sale_id,
+    NULLIF(value->>'promotion_id', '')::uuid,
+    NULLIF(value->>'product_id', '')::uuid,
+    value->>'description',
+    (value->>'amount')::numeric,
+    COALESCE(p_sold_at, now())
+  FROM jsonb_array_elements(COALESCE(p_discounts, '[]'::jsonb));
+
+  INSERT INTO sale_payments (
+    sale_id,
+    payment_method,
+    amount,
+    reference,
+    tendered_amount,
+    change_amount,
+    approval_code,
+    masked_pan,
+    card_scheme,
+    terminal_id,
+    terminal_transaction_id
+  )
+  SELECT
+    p_sale_id,
+    value->>'payment_method',
+    (value->>'amount')::numeric,
+    NULLIF(value->>'reference', ''),
+    (value->>'tendered_amount')::numeric,
+    COALESCE((value->>'change_amount')::numeric, 0),
+    NULLIF(value->>'approval_code', ''),
+    NULLIF(value->>'masked_pan', ''),
+    NULLIF(value->>'card_scheme', ''),
+    NULLIF(value->>'terminal_id', ''),
+    NULLIF(value->>'terminal_transaction_id', '')
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_insured > 0 THEN
+    INSERT INTO sale_insurance (
+      sale_id,
+      insurer_id,
+      scheme_id,
+      member_number,
+      member_name,
+      preauth_number,
+      insurer_amount,
+      copay_amount
+    ) VALUES (
+      p_sale_id,
+      (p_insurance->>'insurer_id')::uuid,
+      NULLIF(p_insurance->>'scheme_id', '')::uuid,
+      trim(p_insurance->>'member_number'),
+      NULLIF(trim(p_insurance->>'member_name'), ''),
+      NULLIF(trim(p_insurance->>'preauth_number'), ''),
+      v_insured,
+      v_total - v_insured
+    );
+  END IF;
+
+  PERFORM set_stock_movement_context(
+    'sale', 'sale', p_sale_id,
+    (SELECT receipt_number FROM sales WHERE id = p_sale_id),
+    NULL, p_sales_person_name
+  );
+
+  -- Offline replays clamp at zero; the missing units are in
+  -- sale_sync_exceptions. Online sales were checked above
+  UPDATE products p
+  SET current_stock = CASE WHEN v_offline THEN GREATEST(p.current_stock - i.quantity, 0) ELSE p.current_stock - i.quantity END,
+      updated_at = now()
+  FROM (
+    SELECT (value->>'product_id')::uuid AS product_id,
+           SUM((value->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items)
+    GROUP BY 1
+  ) i
+  WHERE p.id = i.product_id;
+
+  IF p_prescription IS NOT NULL THEN
+    INSERT INTO prescriptions (
+      sale_id,
+      customer_id,
+      prescriber_name,
+      prescriber_licence,
+      patient_name,
+      reference,
+      image_path,
+      dispensed_by,
+      dispensed_by_name
+    ) VALUES (
+      p_sale_id,
+      p_customer_id,
+      trim(p_prescription->>'prescriber_name'),
+      trim(p_prescription->>'prescriber_licence'),
+      trim(p_prescription->>'patient_name'),
+      trim(p_prescription->>'reference'),
+      NULLIF(p_prescription->>'image_path', ''),
+      p_sales_person_id,
+      p_sales_person_name
+    )
+    RETURNING id INTO v_prescription_id;
+  END IF;
+
+  -- Balances are read after the stock update above
+  INSERT INTO controlled_drug_register (
+    product_id,
+    product_name,
+    batch_number,
+    sale_id,
+    prescription_id,
+    quantity,
+    balance_after,
+    dispensed_by,
+    dispensed_by_name,
+    created_at
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.batch_number,
+    p_sale_id,
+    v_prescription_id,
+    (value->>'quantity')::integer,
+    p.current_stock,
+    p_sales_person_id,
+    p_sales_person_name,
+    COALESCE(p_sold_at, now())
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid
+  WHERE p.drug_schedule = 'controlled';
+
+  INSERT INTO sale_sync_exceptions (
+    sale_id,
+    exception_type,
+    product_id,
+    product_name,
+    batch_number,
+    quantity_sold,
+    stock_available,
+    shortfall,
+    details
+  )
+  SELECT
+    p_sale_id,
+    value->>'exception_type',
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    value->>'batch_number',
+    (value->>'quantity_sold')::integer,
+    (value->>'stock_available')::integer,
+    (value->>'shortfall')::integer,
+    value->>'details'
+  FROM jsonb_array_elements(v_exceptions);
+
+  INSERT INTO price_history (product_id, cost_price, selling_price, user_id, user_name)
+  SELECT
+    p.id,
+    p.cost_price,
+    (value->>'unit_price')::numeric,
+    p_sales_person_id,
+    p_sales_person_name
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid;
+
+  -- Raises if a loyalty tender is larger than the customer's balance
+  PERFORM apply_sale_loyalty(p_sale_id);
+
+  RETURN get_sale_json(p_sale_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(uuid, text, text, uuid, text, jsonb, jsonb, timestamptz, boolean, jsonb, uuid, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,391 @@
+/*
+  # Refund Cards After Returns
+
+  1. Overview
+    - The return modal refunded the card on the terminal before the return was
+      recorded. If recording the return then failed, the customer had their
+      money back while the stock and the return were never booked, and a
+      retry sent a second refund to the card
+    - A card refund could be larger than what was paid by card on the sale
+    - The return is now recorded first with its card refund tender, and the
+      terminal's result is attached to it afterwards
+
+  2. Changes
+    - `process_sale_return` refuses card refunds above what the sale took by
+      card, less card refunds on earlier returns. Sales from before split
+      payments count their whole total when they were paid by card
+
+  3. New Functions
+    - `record_return_card_refund(p_reversal_id, p_approval_code, p_masked_pan,
+      p_terminal_id, p_terminal_transaction_id)` - Attaches an approved
+      terminal refund to the return's card tender and returns the return
+      - Recording the same terminal transaction again is a no-op, so it can
+        be retried
+      - A card tender that already has another terminal transaction is not
+        overwritten
+
+  4. Security
+    - `record_return_card_refund` runs as the owner, since
+      `sale_return_payments` has no update policy. Only the cashier who
+      recorded the return, or an admin, can call it
+*/
+
+CREATE OR REPLACE FUNCTION public.record_return_card_refund(
+  p_reversal_id uuid,
+  p_approval_code text,
+  p_masked_pan text,
+  p_terminal_id text,
+  p_terminal_transaction_id text
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NULLIF(p_terminal_transaction_id, '') IS NULL THEN
+    RAISE EXCEPTION 'Missing terminal transaction';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM invoice_reversals
+    WHERE id = p_reversal_id
+    AND (
+      user_id = auth.uid()
+      OR EXISTS (
+        SELECT 1 FROM user_profiles
+        WHERE user_id = auth.uid()
+        AND role IN ('super_admin', 'admin')
+      )
+    )
+  ) THEN
+    RAISE EXCEPTION 'Return not found';
+  END IF;
+
+  -- Retried after the first attempt was already saved
+  IF EXISTS (
+    SELECT 1 FROM sale_return_payments
+    WHERE reversal_id = p_reversal_id
+    AND payment_method = 'card'
+    AND terminal_transaction_id = p_terminal_transaction_id
+  ) THEN
+    RETURN get_sale_return_json(p_reversal_id);
+  END IF;
+
+  UPDATE sale_return_payments
+  SET reference = COALESCE(NULLIF(p_approval_code, ''), reference),
+      approval_code = NULLIF(p_approval_code, ''),
+      masked_pan = NULLIF(p_masked_pan, ''),
+      terminal_id = NULLIF(p_terminal_id, ''),
+      terminal_transaction_id = p_terminal_transaction_id
+  WHERE id = (
+    SELECT id FROM sale_return_payments
+    WHERE reversal_id = p_reversal_id
+    AND payment_method = 'card'
+    AND terminal_transaction_id IS NULL
+    LIMIT 1
+  );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Return has no card refund waiting for the terminal';
+  END IF;
+
+  RETURN get_sale_return_json(p_reversal_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_return_card_refund(uuid, text, text, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.process_sale_return(
+  p_reversal_id uuid,
+  p_sale_id uuid,
+  p_reason text,
+  p_notes text,
+  p_user_name text,
+  p_items jsonb,
+  p_refunds jsonb
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_sale sales%ROWTYPE;
+  v_item jsonb;
+  v_sale_item sale_items%ROWTYPE;
+  v_product_id uuid;
+  v_cost_price numeric(10,2);
+  v_quantity integer;
+  v_returned integer;
+  v_total numeric(10,2) := 0;
+  v_refunded numeric(10,2) := 0;
+  v_return_count integer;
+  v_fully_returned boolean;
+  v_loyalty_paid numeric(10,2);
+  v_loyalty_refund numeric(10,2) := 0;
+  v_card_refund numeric(10,2);
+  v_card_remaining numeric(10,2);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Missing authorization header';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Select at least one item to return';
+  END IF;
+
+  -- May be empty when the whole refund goes back as points
+  IF p_refunds IS NULL OR jsonb_typeof(p_refunds) <> 'array' THEN
+    RAISE EXCEPTION 'Cannot complete a return without refund tender';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM jsonb_array_elements(p_refunds) WHERE value->>'payment_method' = 'loyalty') THEN
+    RAISE EXCEPTION 'Redeemed points are credited back automatically';
+  END IF;
+
+  IF (SELECT COUNT(DISTINCT value->>'sale_item_id') FROM jsonb_array_elements(p_items)) <> jsonb_array_length(p_items) THEN
+    RAISE EXCEPTION 'Each receipt line can only appear once in a return';
+  END IF;
+
+  -- Idempotent retry: the return was already committed on a previous attempt
+  IF EXISTS (SELECT 1 FROM invoice_reversals WHERE id = p_reversal_id) THEN
+    RETURN get_sale_return_json(p_reversal_id);
+  END IF;
+
+  -- Serialise returns against the same receipt
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale not found';
+  END IF;
+
+  -- Validate every line and compute the refund before writing anything
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT * INTO v_sale_item
+    FROM sale_items
+    WHERE id = (v_item->>'sale_item_id')::uuid
+    AND sale_id = p_sale_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Item is not part of receipt %', v_sale.receipt_number;
+    END IF;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid return quantity for %', v_sale_item.product_name;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO v_returned
+    FROM invoice_reversal_items
+    WHERE original_sale_item_id = v_sale_item.id;
+
+    IF v_quantity > v_sale_item.quantity - v_returned THEN
+      RAISE EXCEPTION 'Cannot return % of %: % sold, % already returned',
+        v_quantity, v_sale_item.product_name, v_sale_item.quantity, v_returned;
+    END IF;
+
+    v_total := v_total + v_sale_item.unit_price * v_quantity;
+  END LOOP;
+
+  -- Whether this return takes back everything still on the receipt
+  SELECT NOT EXISTS (
+    SELECT 1
+    FROM sale_items si
+    WHERE si.sale_id = p_sale_id
+    AND si.quantity > (
+      SELECT COALESCE(SUM(quantity), 0)
+      FROM invoice_reversal_items
+      WHERE original_sale_item_id = si.id
+    ) + COALESCE((
+      SELECT (value->>'quantity')::integer
+      FROM jsonb_array_elements(p_items)
+      WHERE (value->>'sale_item_id')::uuid = si.id
+    ), 0)
+  )
+  INTO v_fully_returned;
+
+  -- The part of the sale paid with points goes back as points, so redeemed
+  -- points are never paid out in cash. The last return settles what is left
+  SELECT COALESCE(SUM(amount), 0) INTO v_loyalty_paid
+  FROM sale_payments
+  WHERE sale_id = p_sale_id AND payment_method = 'loyalty';
+
+  IF v_loyalty_paid > 0 THEN
+    v_loyalty_paid := v_loyalty_paid - (
+      SELECT COALESCE(SUM(rp.amount), 0)
+      FROM sale_return_payments rp
+      JOIN invoice_reversals r ON r.id = rp.reversal_id
+      WHERE r.original_sale_id = p_sale_id
+      AND rp.payment_method = 'loyalty'
+    );
+
+    v_loyalty_refund := GREATEST(CASE
+      WHEN v_fully_returned THEN v_loyalty_paid
+      ELSE LEAST(v_loyalty_paid, round(v_total * (
+        SELECT SUM(amount) FROM sale_payments WHERE sale_id = p_sale_id AND payment_method = 'loyalty'
+      ) / NULLIF(v_sale.total_amount, 0), 2))
+    END, 0);
+  END IF;
+
+  SELECT COALESCE(SUM((value->>'amount')::numeric), 0)
+  INTO v_refunded
+  FROM jsonb_array_elements(p_refunds);
+
+  IF v_refunded <> v_total - v_loyalty_refund THEN
+    IF v_loyalty_refund > 0 THEN
+      RAISE EXCEPTION 'Refund (%) does not match returned items (%) less % credited back as points',
+        v_refunded, v_total, v_loyalty_refund;
+    END IF;
+    RAISE EXCEPTION 'Refund (%) does not match returned items (%)', v_refunded, v_total;
+  END IF;
+
+  -- A card can only get back what it paid, less earlier card refunds
+  SELECT COALESCE(SUM((value->>'amount')::numeric), 0)
+  INTO v_card_refund
+  FROM jsonb_array_elements(p_refunds)
+  WHERE value->>'payment_method' = 'card';
+
+  IF v_card_refund > 0 THEN
+    SELECT CASE
+      WHEN EXISTS (SELECT 1 FROM sale_payments WHERE sale_id = p_sale_id) THEN (
+        SELECT COALESCE(SUM(amount), 0) FROM sale_payments
+        WHERE sale_id = p_sale_id AND payment_method = 'card'
+      )
+      WHEN v_sale.payment_method = 'card' THEN v_sale.total_amount
+      ELSE 0
+    END - (
+      SELECT COALESCE(SUM(rp.amount), 0)
+      FROM sale_return_payments rp
+      JOIN invoice_reversals r ON r.id = rp.reversal_id
+      WHERE r.original_sale_id = p_sale_id
+      AND rp.payment_method = 'card'
+    )
+    INTO v_card_remaining;
+
+    IF v_card_refund > v_card_remaining THEN
+      RAISE EXCEPTION 'Card refund (%) is more than the % left of the card payment on receipt %',
+        v_card_refund, GREATEST(v_card_remaining, 0), v_sale.receipt_number;
+    END IF;
+  END IF;
+
+  SELECT COUNT(*) INTO v_return_count
+  FROM invoice_reversals
+  WHERE original_sale_id = p_sale_id;
+
+  INSERT INTO invoice_reversals (
+    id,
+    original_sale_id,
+    reversal_number,
+    reversal_type,
+    total_amount,
+    reason,
+    notes,
+    user_id,
+    user_name
+  ) VALUES (
+    p_reversal_id,
+    p_sale_id,
+    'RTN-' || v_sale.receipt_number || '-' || (v_return_count + 1)::text,
+    'sales',
+    v_total,
+    COALESCE(NULLIF(p_reason, ''), 'Customer return'),
+    NULLIF(p_notes, ''),
+    auth.uid(),
+    p_user_name
+  );
+
+  PERFORM set_stock_movement_context(
+    'customer_return', 'sale_return', p_reversal_id,
+    'RTN-' || v_sale.receipt_number || '-' || (v_return_count + 1)::text,
+    COALESCE(NULLIF(p_reason, ''), 'Customer return'), p_user_name
+  );
+
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT * INTO v_sale_item
+    FROM sale_items
+    WHERE id = (v_item->>'sale_item_id')::uuid;
+
+    -- Restock the exact batch the line was sold from
+    v_product_id := v_sale_item.product_id;
+    IF v_product_id IS NULL THEN
+      SELECT id INTO v_product_id
+      FROM products
+      WHERE name = v_sale_item.product_name
+      AND batch_number IS NOT DISTINCT FROM v_sale_item.batch_number
+      LIMIT 1;
+    END IF;
+
+    IF v_product_id IS NULL THEN
+      RAISE EXCEPTION 'Batch % of % no longer exists in inventory',
+        COALESCE(v_sale_item.batch_number, '-'), v_sale_item.product_name;
+    END IF;
+
+    UPDATE products
+    SET current_stock = current_stock + v_quantity,
+        updated_at = now()
+    WHERE id = v_product_id
+    RETURNING cost_price INTO v_cost_price;
+
+    INSERT INTO invoice_reversal_items (
+      reversal_id,
+      original_sale_item_id,
+      product_id,
+      product_name,
+      batch_number,
+      quantity,
+      cost_price,
+      selling_price,
+      total_cost
+    ) VALUES (
+      p_reversal_id,
+      v_sale_item.id,
+      v_product_id,
+      v_sale_item.product_name,
+      v_sale_item.batch_number,
+      v_quantity,
+      COALESCE(v_cost_price, 0),
+      v_sale_item.unit_price,
+      COALESCE(v_cost_price, 0) * v_quantity
+    );
+  END LOOP;
+
+  INSERT INTO sale_return_payments (
+    reversal_id,
+    payment_method,
+    amount,
+    reference,
+    approval_code,
+    masked_pan,
+    terminal_id,
+    terminal_transaction_id
+  )
+  SELECT
+    p_reversal_id,
+    value->>'payment_method',
+    (value->>'amount')::numeric,
+    NULLIF(value->>'reference', ''),
+    NULLIF(value->>'approval_code', ''),
+    NULLIF(value->>'masked_pan', ''),
+    NULLIF(value->>'terminal_id', ''),
+    NULLIF(value->>'terminal_transaction_id', '')
+  FROM jsonb_array_elements(p_refunds);
+
+  IF v_loyalty_refund > 0 THEN
+    INSERT INTO sale_return_payments (reversal_id, payment_method, amount)
+    VALUES (p_reversal_id, 'loyalty', v_loyalty_refund);
+  END IF;
+
+  PERFORM apply_return_loyalty(p_reversal_id);
+
+  RETURN get_sale_return_json(p_reversal_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale_return(uuid, uuid, text, text, text, jsonb, jsonb) TO authenticated;
@@ -0,0 +1,36 @@
+/*
+  # Key Product Promotions on Medicines
+
+  1. Overview
+    - Product promotions pointed at one stock batch in `products`. Once that
+      batch sold out, the next batch of the same medicine was sold at full
+      price, and deleting the batch deleted the promotion with it
+    - A product promotion now points at the medicine in `product_master` and
+      applies to every batch of it
+
+  2. Changes
+    - `promotions.product_master_id` (uuid, references product_master) - The
+      medicine the promotion applies to, filled in from the batch it pointed at
+    - `promotions.product_id` dropped
+    - `promotions_target_check` requires `product_master_id` for product
+      promotions
+*/
+
+ALTER TABLE promotions ADD COLUMN IF NOT EXISTS product_master_id uuid REFERENCES product_master(id) ON DELETE CASCADE;
+
+UPDATE promotions pr
+SET product_master_id = p.product_master_id
+FROM products p
+WHERE p.id = pr.product_id
+AND pr.product_master_id IS NULL;
+
+ALTER TABLE promotions DROP CONSTRAINT IF EXISTS promotions_target_check;
+ALTER TABLE promotions DROP COLUMN IF EXISTS product_id;
+
+ALTER TABLE promotions ADD CONSTRAINT promotions_target_check CHECK (
+  (applies_to = 'product' AND product_master_id IS NOT NULL)
+  OR (applies_to = 'category' AND category IS NOT NULL)
+  OR (applies_to = 'cart' AND promotion_type IN ('percent', 'fixed'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotions_product_master ON promotions(product_master_id);
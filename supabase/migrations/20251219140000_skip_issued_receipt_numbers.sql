@@ -0,0 +1,105 @@
+/*
+  # Skip Issued Receipt Numbers
+
+  1. Overview
+    - `generate_receipt_number` could hand out a number a sale already had,
+      e.g. after an admin lowered the counter or switched back to an earlier
+      prefix, and the checkout then failed on the unique receipt index
+    - Numbers wider than the padding were truncated by LPAD, so a counter that
+      outgrew its digits repeated earlier receipts
+
+  2. Changes
+    - `generate_receipt_number` skips any number already on a sale, and never
+      truncates a number wider than the padding
+    - Changing a sequence's prefix, digits or yearly reset reseeds its counter
+      from the highest receipt already issued in the new format
+
+  3. Security
+    - No change to policies
+*/
+
+-- A new format continues after the highest receipt already issued in it, so
+-- switching back to an earlier prefix cannot regenerate stored numbers
+CREATE OR REPLACE FUNCTION public.reseed_receipt_sequence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_year integer := EXTRACT(YEAR FROM now())::integer;
+  v_stem text;
+BEGIN
+  IF NEW.prefix IS NOT DISTINCT FROM OLD.prefix
+    AND NEW.padding IS NOT DISTINCT FROM OLD.padding
+    AND NEW.reset_yearly IS NOT DISTINCT FROM OLD.reset_yearly
+  THEN
+    RETURN NEW;
+  END IF;
+
+  v_stem := CASE WHEN NEW.reset_yearly THEN NEW.prefix || '-' || v_year::text || '-' ELSE NEW.prefix END;
+
+  SELECT COALESCE(MAX(substring(receipt_number FROM length(v_stem) + 1)::bigint), 0)
+  INTO NEW.last_value
+  FROM sales
+  WHERE left(receipt_number, length(v_stem)) = v_stem
+  AND substring(receipt_number FROM length(v_stem) + 1) ~ '^[0-9]+$'
+  AND length(receipt_number) - length(v_stem) >= NEW.padding;
+
+  NEW.current_year := v_year;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reseed_receipt_sequence ON receipt_sequences;
+
+CREATE TRIGGER reseed_receipt_sequence
+  BEFORE UPDATE OF prefix, padding, reset_yearly ON receipt_sequences
+  FOR EACH ROW
+  EXECUTE FUNCTION reseed_receipt_sequence();
+
+CREATE OR REPLACE FUNCTION public.generate_receipt_number(p_branch_code text DEFAULT 'MAIN')
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_year integer := EXTRACT(YEAR FROM now())::integer;
+  v_seq receipt_sequences%ROWTYPE;
+  v_number text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Missing authorization header';
+  END IF;
+
+  -- Unknown branches get their own sequence, prefixed with the branch code
+  INSERT INTO receipt_sequences (branch_code, prefix)
+  VALUES (p_branch_code, 'WSB-' || upper(p_branch_code))
+  ON CONFLICT (branch_code) DO NOTHING;
+
+  UPDATE receipt_sequences
+  SET last_value = CASE
+        WHEN reset_yearly AND current_year <> v_year THEN 1
+        ELSE last_value + 1
+      END,
+      current_year = v_year
+  WHERE branch_code = p_branch_code
+  RETURNING * INTO v_seq;
+
+  LOOP
+    -- Format as PREFIX000123, or PREFIX-2026-000123 when numbering resets
+    -- yearly. Numbers wider than the padding are never truncated
+    v_number := CASE WHEN v_seq.reset_yearly THEN v_seq.prefix || '-' || v_year::text || '-' ELSE v_seq.prefix END
+      || LPAD(v_seq.last_value::text, GREATEST(v_seq.padding, length(v_seq.last_value::text)), '0');
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM sales WHERE receipt_number = v_number);
+
+    UPDATE receipt_sequences
+    SET last_value = last_value + 1
+    WHERE branch_code = p_branch_code
+    RETURNING * INTO v_seq;
+  END LOOP;
+
+  RETURN v_number;
+END;
+$$;
@@ -0,0 +1,20 @@
+/*
+  # Close Direct Prescription and Register Inserts
+
+  1. Overview
+    - `prescriptions` and `controlled_drug_register` accepted inserts from any
+      signed-in user, so entries could be added to the register, or a
+      prescription attached to a sale, without going through checkout
+    - Both tables are written by `process_sale`, which runs as the owner, so
+      the insert policies are no longer needed
+
+  2. Changes
+    - None to functions or tables
+
+  3. Security
+    - `prescriptions_insert` and `controlled_drug_register_insert` policies
+      dropped; both tables are read-only to authenticated users
+*/
+
+DROP POLICY IF EXISTS "prescriptions_insert" ON public.prescriptions;
+DROP POLICY IF EXISTS "controlled_drug_register_insert" ON public.controlled_drug_register;
@@ -0,0 +1,663 @@
+/*
+  # Validate Discounts and the Margin Floor in Checkout
+
+  1. Overview
+    - Promotion discounts and the 33% margin floor were only worked out on
+      the till. `process_sale` checked that the discount lines added up, but
+      not that they came from a promotion, that the promotion was running,
+      or that a line stayed above the floor, so any discount or price the
+      till sent was accepted
+    - `process_sale` now checks every discount against its promotion and
+      every medicine against the margin floor
+
+  2. Changes
+    - Each product or category discount must come from a running promotion
+      that covers the medicine, one promotion per medicine, and be no more
+      than the promotion gives on the units sold
+    - A cart discount must come from a single running cart promotion and be
+      no more than it gives on the total after line discounts
+    - Each medicine must be priced at least at its minimum selling price
+      (cost plus 33%), and stay there after discounts unless its line
+      promotion or the cart promotion has `allow_below_floor`, which only
+      admins can set
+    - Offline replays are checked against the time they were made, and are
+      flagged in `sale_sync_exceptions` as `pricing` instead of refused
+    - `is_promotion_live(p_promotion_id, p_at)` - Active, within its dates,
+      days and daily window in Nairobi time. A promotion that ended in the
+      five minutes before the sale still counts, for a checkout in progress
+    - `get_promotion_line_discount(p_promotion_id, p_quantity, p_gross)` -
+      What a product or category promotion gives on a line, as on the till
+
+  3. Security
+    - No change to policies
+*/
+
+ALTER TABLE sale_sync_exceptions DROP CONSTRAINT IF EXISTS sale_sync_exceptions_exception_type_check;
+ALTER TABLE sale_sync_exceptions ADD CONSTRAINT sale_sync_exceptions_exception_type_check
+  CHECK (exception_type IN ('stock', 'expired', 'prescription', 'pricing'));
+
+CREATE OR REPLACE FUNCTION public.is_promotion_live(p_promotion_id uuid, p_at timestamptz)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT COALESCE(bool_or(
+    pr.is_active
+    AND (pr.starts_at IS NULL OR at.ts >= pr.starts_at)
+    AND (pr.ends_at IS NULL OR at.ts <= pr.ends_at)
+    AND (
+      pr.days_of_week IS NULL
+      OR cardinality(pr.days_of_week) = 0
+      OR EXTRACT(DOW FROM at.ts AT TIME ZONE 'Africa/Nairobi')::integer = ANY(pr.days_of_week)
+    )
+    AND (
+      pr.daily_start_time IS NULL
+      OR pr.daily_end_time IS NULL
+      -- A window such as 22:00-02:00 runs past midnight
+      OR CASE WHEN pr.daily_start_time <= pr.daily_end_time
+        THEN (at.ts AT TIME ZONE 'Africa/Nairobi')::time >= pr.daily_start_time
+          AND (at.ts AT TIME ZONE 'Africa/Nairobi')::time < pr.daily_end_time
+        ELSE (at.ts AT TIME ZONE 'Africa/Nairobi')::time >= pr.daily_start_time
+          OR (at.ts AT TIME ZONE 'Africa/Nairobi')::time < pr.daily_end_time
+      END
+    )
+  ), false)
+  FROM promotions pr
+  CROSS JOIN (VALUES (p_at), (p_at - interval '5 minutes')) AS at(ts)
+  WHERE pr.id = p_promotion_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_promotion_line_discount(
+  p_promotion_id uuid,
+  p_quantity integer,
+  p_gross numeric
+)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT COALESCE(CASE promotion_type
+    WHEN 'percent' THEN p_gross * value / 100
+    WHEN 'fixed' THEN LEAST(value, p_gross / p_quantity) * p_quantity
+    WHEN 'buy_x_get_y' THEN (p_quantity / (buy_quantity + get_quantity)) * get_quantity * p_gross / p_quantity
+    WHEN 'bundle' THEN GREATEST((p_quantity / buy_quantity) * (buy_quantity * p_gross / p_quantity - value), 0)
+  END, 0)
+  FROM promotions
+  WHERE id = p_promotion_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.process_sale(
+  p_sale_id uuid,
+  p_branch_code text,
+  p_customer_name text,
+  p_sales_person_id uuid,
+  p_sales_person_name text,
+  p_items jsonb,
+  p_payments jsonb,
+  p_sold_at timestamptz DEFAULT NULL,
+  p_offline_token uuid DEFAULT NULL,
+  p_insurance jsonb DEFAULT NULL,
+  p_customer_id uuid DEFAULT NULL,
+  p_prescription jsonb DEFAULT NULL,
+  p_discounts jsonb DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_item jsonb;
+  v_product products%ROWTYPE;
+  v_quantity integer;
+  v_total numeric(10,2) := 0;
+  v_paid numeric(10,2) := 0;
+  v_insured numeric(10,2) := 0;
+  v_discounted numeric(10,2) := 0;
+  v_methods text[];
+  v_exceptions jsonb := '[]'::jsonb;
+  v_offline boolean := false;
+  v_sold_at timestamptz := now();
+  v_token offline_sale_tokens%ROWTYPE;
+  v_shift cashier_shifts%ROWTYPE;
+  v_missing_prescription boolean;
+  v_discount jsonb;
+  v_line jsonb;
+  v_promotion promotions%ROWTYPE;
+  v_problem text;
+  v_cart_count integer;
+  v_cart_amount numeric(10,2);
+  v_cart_promotion_id uuid;
+  v_cart_description text;
+  v_cart_below_floor boolean;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Missing authorization header';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without items';
+  END IF;
+
+  IF p_payments IS NULL OR jsonb_typeof(p_payments) <> 'array' OR jsonb_array_length(p_payments) = 0 THEN
+    RAISE EXCEPTION 'Cannot complete a sale without payment';
+  END IF;
+
+  -- Idempotent retry: the sale was already committed on a previous attempt
+  IF EXISTS (SELECT 1 FROM sales WHERE id = p_sale_id) THEN
+    RETURN get_sale_json(p_sale_id);
+  END IF;
+
+  -- Only a sale queued with a token reserved while the till was online is an
+  -- offline replay, and it keeps its till time only inside the shift the
+  -- token was reserved for. Without a token the sale is taken as made now
+  IF p_offline_token IS NOT NULL THEN
+    SELECT * INTO v_token
+    FROM offline_sale_tokens
+    WHERE id = p_offline_token
+    FOR UPDATE;
+
+    IF NOT FOUND OR v_token.used_at IS NOT NULL OR v_token.issued_to <> p_sales_person_id THEN
+      RAISE EXCEPTION 'Offline sale token is not valid for this sale';
+    END IF;
+
+    SELECT * INTO v_shift FROM cashier_shifts WHERE id = v_token.shift_id;
+
+    IF v_shift.status <> 'open' THEN
+      RAISE EXCEPTION 'The shift this offline sale was made in has closed';
+    END IF;
+
+    IF p_sold_at IS NULL
+      OR p_sold_at < GREATEST(v_token.issued_at, v_shift.opened_at, now() - interval '24 hours')
+      OR p_sold_at > now() + interval '5 minutes'
+    THEN
+      RAISE EXCEPTION 'Offline sale time % is outside the open shift', p_sold_at;
+    END IF;
+
+    UPDATE offline_sale_tokens
+    SET used_at = now(),
+        sale_id = p_sale_id
+    WHERE id = p_offline_token;
+
+    v_offline := true;
+    v_sold_at := LEAST(p_sold_at, now());
+  END IF;
+
+  FOR v_item IN
+    SELECT value FROM jsonb_array_elements(p_items)
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    IF v_quantity IS NULL OR v_quantity <= 0 THEN
+      RAISE EXCEPTION 'Invalid quantity for %', v_item->>'product_name';
+    END IF;
+
+    v_total := v_total + (v_item->>'total_price')::numeric;
+  END LOOP;
+
+  v_missing_prescription := p_prescription IS NULL
+    OR NULLIF(trim(p_prescription->>'prescriber_name'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'prescriber_licence'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'patient_name'), '') IS NULL
+    OR NULLIF(trim(p_prescription->>'reference'), '') IS NULL;
+
+  -- Lock every product in a stable order and validate stock before writing
+  -- anything. A batch on several lines is checked against their total
+  FOR v_item IN
+    SELECT jsonb_build_object(
+      'product_id', value->>'product_id',
+      'product_name', MIN(value->>'product_name'),
+      'quantity', SUM((value->>'quantity')::integer)
+    )
+    FROM jsonb_array_elements(p_items)
+    GROUP BY value->>'product_id'
+    ORDER BY value->>'product_id'
+  LOOP
+    v_quantity := (v_item->>'quantity')::integer;
+
+    SELECT * INTO v_product
+    FROM products
+    WHERE id = (v_item->>'product_id')::uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % no longer exists', v_item->>'product_name';
+    END IF;
+
+    -- An offline sale has already left the shop, so what would be refused
+    -- online is flagged for a manager instead
+    IF v_product.expiry_date < v_sold_at::date THEN
+      IF NOT v_offline THEN
+        RAISE EXCEPTION 'Batch % of % expired on %', v_product.batch_number, v_product.name, v_product.expiry_date;
+      END IF;
+
+      v_exceptions := v_exceptions || jsonb_build_object(
+        'exception_type', 'expired',
+        'product_id', v_product.id,
+        'product_name', v_product.name,
+        'batch_number', v_product.batch_number,
+        'quantity_sold', v_quantity,
+        'stock_available', v_product.current_stock,
+        'details', 'Batch expired on ' || v_product.expiry_date
+      );
+    END IF;
+
+    IF v_product.current_stock < v_quantity THEN
+      IF NOT v_offline THEN
+        RAISE EXCEPTION 'Insufficient stock for %: % available, % requested',
+          v_product.name, v_product.current_stock, v_quantity;
+      END IF;
+
+      v_exceptions := v_exceptions || jsonb_build_object(
+        'exception_type', 'stock',
+        'product_id', v_product.id,
+        'product_name', v_product.name,
+        'batch_number', v_product.batch_number,
+        'quantity_sold', v_quantity,
+        'stock_available', v_product.current_stock,
+        'shortfall', v_quantity - GREATEST(v_product.current_stock, 0)
+      );
+    END IF;
+
+    IF v_product.drug_schedule <> 'otc' AND v_missing_prescription THEN
+      IF NOT v_offline THEN
+        RAISE EXCEPTION 'Prescription details are required for %', v_product.name;
+      END IF;
+
+      v_exceptions := v_exceptions || jsonb_build_object(
+        'exception_type', 'prescription',
+        'product_id', v_product.id,
+        'product_name', v_product.name,
+        'batch_number', v_product.batch_number,
+        'quantity_sold', v_quantity,
+        'stock_available', v_product.current_stock,
+        'details', 'Dispensed without full prescription details'
+      );
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM((value->>'amount')::numeric), 0),
+         COALESCE(SUM((value->>'amount')::numeric) FILTER (WHERE value->>'payment_method' = 'insurance'), 0),
+         array_agg(DISTINCT value->>'payment_method')
+  INTO v_paid, v_insured, v_methods
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_paid <> v_total THEN
+    RAISE EXCEPTION 'Payments (%) do not match sale total (%)', v_paid, v_total;
+  END IF;
+
+  SELECT COALESCE(SUM((value->>'discount_amount')::numeric), 0)
+  INTO v_discounted
+  FROM jsonb_array_elements(p_items);
+
+  IF v_discounted <> COALESCE((
+    SELECT SUM((value->>'amount')::numeric) FROM jsonb_array_elements(COALESCE(p_discounts, '[]'::jsonb))
+  ), 0) THEN
+    RAISE EXCEPTION 'Discount lines do not match the discounts on the items (%)', v_discounted;
+  END IF;
+
+  -- Line discounts: one running promotion per medicine that covers it, for no
+  -- more than it gives on the units sold. A cart line can be split over
+  -- several batches, so each medicine is checked as a whole
+  FOR v_discount IN
+    SELECT jsonb_build_object(
+      'medicine', COALESCE(p.product_master_id::text, lower(p.name)),
+      'promotion_ids', jsonb_agg(DISTINCT value->>'promotion_id'),
+      'description', MIN(value->>'description'),
+      'amount', SUM((value->>'amount')::numeric)
+    )
+    FROM jsonb_array_elements(COALESCE(p_discounts, '[]'::jsonb))
+    LEFT JOIN products p ON p.id = NULLIF(value->>'product_id', '')::uuid
+    WHERE NULLIF(value->>'product_id', '') IS NOT NULL
+    GROUP BY COALESCE(p.product_master_id::text, lower(p.name))
+  LOOP
+    SELECT * INTO v_promotion FROM promotions WHERE id = NULLIF(v_discount->'promotion_ids'->>0, '')::uuid;
+
+    SELECT jsonb_build_object(
+      'product_id', MIN(p.id::text),
+      'product_name', MIN(p.name),
+      'product_master_id', MIN(p.product_master_id::text),
+      'category', MIN(p.category),
+      'quantity', SUM((value->>'quantity')::integer),
+      'gross', SUM((value->>'total_price')::numeric + COALESCE((value->>'discount_amount')::numeric, 0))
+    )
+    INTO v_line
+    FROM jsonb_array_elements(p_items)
+    JOIN products p ON p.id = (value->>'product_id')::uuid
+    WHERE COALESCE(p.product_master_id::text, lower(p.name)) = v_discount->>'medicine';
+
+    v_problem := CASE
+      WHEN jsonb_array_length(v_discount->'promotion_ids') > 1 THEN 'only one promotion applies to each medicine'
+      WHEN v_promotion.id IS NULL OR NOT is_promotion_live(v_promotion.id, v_sold_at) THEN 'the promotion is not running'
+      WHEN v_line->>'quantity' IS NULL THEN 'the medicine is not in the sale'
+      WHEN NOT (
+        (v_promotion.applies_to = 'product' AND v_promotion.product_master_id::text = v_line->>'product_master_id')
+        OR (v_promotion.applies_to = 'category' AND v_promotion.category = v_line->>'category')
+      ) THEN 'the promotion does not cover this medicine'
+      WHEN (v_discount->>'amount')::numeric > round(get_promotion_line_discount(
+        v_promotion.id, (v_line->>'quantity')::integer, (v_line->>'gross')::numeric
+      ), 2) + 0.01 THEN 'it is more than the promotion gives'
+    END;
+
+    IF v_problem IS NOT NULL THEN
+      IF NOT v_offline THEN
+        RAISE EXCEPTION 'Discount "%" refused: %', v_discount->>'description', v_problem;
+      END IF;
+
+      v_exceptions := v_exceptions || jsonb_build_object(
+        'exception_type', 'pricing',
+        'product_id', v_line->>'product_id',
+        'product_name', COALESCE(v_line->>'product_name', v_discount->>'description'),
+        'quantity_sold', COALESCE((v_line->>'quantity')::integer, 1),
+        'stock_available', 0,
+        'details', 'Discount ' || (v_discount->>'amount') || ' refused: ' || v_problem
+      );
+    END IF;
+  END LOOP;
+
+  SELECT COUNT(*),
+         COALESCE(SUM((value->>'amount')::numeric), 0),
+         NULLIF(MIN(value->>'promotion_id'), '')::uuid,
+         MIN(value->>'description')
+  INTO v_cart_count, v_cart_amount, v_cart_promotion_id, v_cart_description
+  FROM jsonb_array_elements(COALESCE(p_discounts, '[]'::jsonb))
+  WHERE NULLIF(value->>'product_id', '') IS NULL;
+
+  -- The cart discount is worked out on the total after line discounts, and
+  -- each line's share of it was rounded on the till
+  IF v_cart_count > 0 THEN
+    SELECT * INTO v_promotion FROM promotions WHERE id = v_cart_promotion_id;
+
+    v_problem := CASE
+      WHEN v_cart_count > 1 THEN 'only one cart promotion applies to a sale'
+      WHEN v_promotion.id IS NULL OR NOT is_promotion_live(v_promotion.id, v_sold_at) THEN 'the promotion is not running'
+      WHEN v_promotion.applies_to <> 'cart' THEN 'the promotion is not a cart promotion'
+      WHEN v_cart_amount > round(CASE
+          WHEN v_promotion.promotion_type = 'percent' THEN (v_total + v_cart_amount) * v_promotion.value / 100
+          ELSE LEAST(v_promotion.value, v_total + v_cart_amount)
+        END, 2) + 0.01 * jsonb_array_length(p_items)
+        THEN 'it is more than the promotion gives'
+    END;
+
+    IF v_problem IS NOT NULL THEN
+      IF NOT v_offline THEN
+        RAISE EXCEPTION 'Discount "%" refused: %', v_cart_description, v_problem;
+      END IF;
+
+      v_exceptions := v_exceptions || jsonb_build_object(
+        'exception_type', 'pricing',
+        'product_name', v_cart_description,
+        'quantity_sold', (SELECT SUM((value->>'quantity')::integer) FROM jsonb_array_elements(p_items)),
+        'stock_available', 0,
+        'details', 'Cart discount ' || v_cart_amount || ' refused: ' || v_problem
+      );
+    END IF;
+  END IF;
+
+  v_cart_below_floor := v_cart_count = 1
+    AND COALESCE((SELECT allow_below_floor FROM promotions WHERE id = v_cart_promotion_id), false);
+
+  -- The price before discounts is never below the margin floor, and only a
+  -- promotion an admin allowed below it takes the price after discounts
+  -- there. A cent a unit covers the till rounding the floor in floating point
+  FOR v_item IN
+    SELECT jsonb_build_object(
+      'medicine', COALESCE(p.product_master_id::text, lower(p.name)),
+      'product_id', MIN(p.id::text),
+      'product_name', MIN(p.name),
+      'quantity', SUM((value->>'quantity')::integer),
+      'net', SUM((value->>'total_price')::numeric),
+      'gross', SUM((value->>'total_price')::numeric + COALESCE((value->>'discount_amount')::numeric, 0)),
+      'minimum', SUM(round(p.cost_price * 1.33, 2) * (value->>'quantity')::integer)
+    )
+    FROM jsonb_array_elements(p_items)
+    JOIN products p ON p.id = (value->>'product_id')::uuid
+    GROUP BY COALESCE(p.product_master_id::text, lower(p.name))
+  LOOP
+    IF (v_item->>'gross')::numeric + 0.01 * (v_item->>'quantity')::integer < (v_item->>'minimum')::numeric
+      OR (
+        (v_item->>'net')::numeric + 0.01 * (v_item->>'quantity')::integer < (v_item->>'minimum')::numeric
+        AND NOT v_cart_below_floor
+        AND NOT EXISTS (
+          SELECT 1
+          FROM jsonb_array_elements(COALESCE(p_discounts, '[]'::jsonb)) d
+          JOIN products dp ON dp.id = NULLIF(d.value->>'product_id', '')::uuid
+          JOIN promotions pr ON pr.id = NULLIF(d.value->>'promotion_id', '')::uuid
+          WHERE COALESCE(dp.product_master_id::text, lower(dp.name)) = v_item->>'medicine'
+          AND pr.allow_below_floor
+        )
+      )
+    THEN
+      IF NOT v_offline THEN
+        RAISE EXCEPTION '% cannot be sold for % (minimum selling price %)',
+          v_item->>'product_name', v_item->>'net', v_item->>'minimum';
+      END IF;
+
+      v_exceptions := v_exceptions || jsonb_build_object(
+        'exception_type', 'pricing',
+        'product_id', v_item->>'product_id',
+        'product_name', v_item->>'product_name',
+        'quantity_sold', (v_item->>'quantity')::integer,
+        'stock_available', 0,
+        'details', 'Sold for ' || (v_item->>'net') || ', below the minimum selling price of ' || (v_item->>'minimum')
+      );
+    END IF;
+  END LOOP;
+
+  IF v_insured > 0 AND (
+    p_insurance IS NULL
+    OR NULLIF(p_insurance->>'insurer_id', '') IS NULL
+    OR NULLIF(trim(p_insurance->>'member_number'), '') IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Insurer and member number are required for insurance payments';
+  END IF;
+
+  IF p_customer_id IS NOT NULL AND NOT EXISTS (SELECT 1 FROM customers WHERE id = p_customer_id) THEN
+    RAISE EXCEPTION 'Customer not found';
+  END IF;
+
+  INSERT INTO sales (
+    id,
+    receipt_number,
+    customer_id,
+    customer_name,
+    total_amount,
+    payment_method,
+    mpesa_receipt_number,
+    sales_person_id,
+    sales_person_name,
+    created_at
+  ) VALUES (
+    p_sale_id,
+    generate_receipt_number(COALESCE(NULLIF(p_branch_code, ''), 'MAIN')),
+    p_customer_id,
+    COALESCE(NULLIF(p_customer_name, ''), (SELECT name FROM customers WHERE id = p_customer_id)),
+    v_total,
+    CASE WHEN array_length(v_methods, 1) > 1 THEN 'split' ELSE v_methods[1] END,
+    (
+      SELECT NULLIF(value->>'reference', '')
+      FROM jsonb_array_elements(p_payments)
+      WHERE value->>'payment_method' = 'mpesa'
+      LIMIT 1
+    ),
+    p_sales_person_id,
+    p_sales_person_name,
+    v_sold_at
+  );
+
+  INSERT INTO sale_items (
+    sale_id,
+    product_id,
+    product_name,
+    quantity,
+    unit_price,
+    total_price,
+    discount_amount,
+    batch_number
+  )
+  SELECT
+    p_sale_id,
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    (value->>'quantity')::integer,
+    (value->>'unit_price')::numeric,
+    (value->>'total_price')::numeric,
+    COALESCE((value->>'discount_amount')::numeric, 0),
+    p.batch_number
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid;
+
+  INSERT INTO sale_discounts (
+    sale_id,
+    promotion_id,
+    product_id,
+    description,
+    amount,
+    created_at
+  )
+  SELECT
+    p_sale_id,
+    NULLIF(value->>'promotion_id', '')::uuid,
+    NULLIF(value->>'product_id', '')::uuid,
+    value->>'description',
+    (value->>'amount')::numeric,
+    v_sold_at
+  FROM jsonb_array_elements(COALESCE(p_discounts, '[]'::jsonb));
+
+  INSERT INTO sale_payments (
+    sale_id,
+    payment_method,
+    amount,
+    reference,
+    tendered_amount,
+    change_amount,
+    approval_code,
+    masked_pan,
+    card_scheme,
+    terminal_id,
+    terminal_transaction_id
+  )
+  SELECT
+    p_sale_id,
+    value->>'payment_method',
+    (value->>'amount')::numeric,
+    NULLIF(value->>'reference', ''),
+    (value->>'tendered_amount')::numeric,
+    COALESCE((value->>'change_amount')::numeric, 0),
+    NULLIF(value->>'approval_code', ''),
+    NULLIF(value->>'masked_pan', ''),
+    NULLIF(value->>'card_scheme', ''),
+    NULLIF(value->>'terminal_id', ''),
+    NULLIF(value->>'terminal_transaction_id', '')
+  FROM jsonb_array_elements(p_payments);
+
+  IF v_insured > 0 THEN
+    INSERT INTO sale_insurance (
+      sale_id,
+      insurer_id,
+      scheme_id,
+      member_number,
+      member_name,
+      preauth_number,
+      insurer_amount,
+      copay_amount
+    ) VALUES (
+      p_sale_id,
+      (p_insurance->>'insurer_id')::uuid,
+      NULLIF(p_insurance->>'scheme_id', '')::uuid,
+      trim(p_insurance->>'member_number'),
+      NULLIF(trim(p_insurance->>'member_name'), ''),
+      NULLIF(trim(p_insurance->>'preauth_number'), ''),
+      v_insured,
+      v_total - v_insured
+    );
+  END IF;
+
+  -- Written before the stock moves, so the controlled drug register entries
+  -- the movements produce can link to it
+  IF p_prescription IS NOT NULL THEN
+    INSERT INTO prescriptions (
+      sale_id,
+      customer_id,
+      prescriber_name,
+      prescriber_licence,
+      patient_name,
+      reference,
+      image_path,
+      dispensed_by,
+      dispensed_by_name
+    ) VALUES (
+      p_sale_id,
+      p_customer_id,
+      trim(p_prescription->>'prescriber_name'),
+      trim(p_prescription->>'prescriber_licence'),
+      trim(p_prescription->>'patient_name'),
+      trim(p_prescription->>'reference'),
+      NULLIF(p_prescription->>'image_path', ''),
+      p_sales_person_id,
+      p_sales_person_name
+    );
+  END IF;
+
+  PERFORM set_stock_movement_context(
+    'sale', 'sale', p_sale_id,
+    (SELECT receipt_number FROM sales WHERE id = p_sale_id),
+    NULL, p_sales_person_name
+  );
+
+  -- Offline replays clamp at zero; the missing units are in
+  -- sale_sync_exceptions. Online sales were checked above
+  UPDATE products p
+  SET current_stock = CASE WHEN v_offline THEN GREATEST(p.current_stock - i.quantity, 0) ELSE p.current_stock - i.quantity END,
+      updated_at = now()
+  FROM (
+    SELECT (value->>'product_id')::uuid AS product_id,
+           SUM((value->>'quantity')::integer) AS quantity
+    FROM jsonb_array_elements(p_items)
+    GROUP BY 1
+  ) i
+  WHERE p.id = i.product_id;
+
+  INSERT INTO sale_sync_exceptions (
+    sale_id,
+    exception_type,
+    product_id,
+    product_name,
+    batch_number,
+    quantity_sold,
+    stock_available,
+    shortfall,
+    details
+  )
+  SELECT
+    p_sale_id,
+    value->>'exception_type',
+    (value->>'product_id')::uuid,
+    value->>'product_name',
+    value->>'batch_number',
+    (value->>'quantity_sold')::integer,
+    (value->>'stock_available')::integer,
+    (value->>'shortfall')::integer,
+    value->>'details'
+  FROM jsonb_array_elements(v_exceptions);
+
+  INSERT INTO price_history (product_id, cost_price, selling_price, user_id, user_name)
+  SELECT
+    p.id,
+    p.cost_price,
+    (value->>'unit_price')::numeric,
+    p_sales_person_id,
+    p_sales_person_name
+  FROM jsonb_array_elements(p_items)
+  JOIN products p ON p.id = (value->>'product_id')::uuid;
+
+  -- Raises if a loyalty tender is larger than the customer's balance
+  PERFORM apply_sale_loyalty(p_sale_id);
+
+  RETURN get_sale_json(p_sale_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_sale(uuid, text, text, uuid, text, jsonb, jsonb, timestamptz, uuid, jsonb, uuid, jsonb, jsonb) TO authenticated;
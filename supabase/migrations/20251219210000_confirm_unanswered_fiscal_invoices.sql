@@ -0,0 +1,23 @@
+/*
+  # Confirm Unanswered Fiscal Invoices
+
+  1. Overview
+    - Every error from KRA marked the invoice `failed`, including a timeout
+      after which KRA may have accepted it, and the retry rebuilt the invoice
+      under the same number
+    - An invoice with no answer is now `unconfirmed`; `etims-submit` resends it
+      exactly as first sent, and eTIMS answers a resent invoice number with
+      the receipt it already issued
+
+  2. Changes
+    - `fiscal_invoices.status` also allows `unconfirmed`
+
+  3. Security
+    - No change to policies
+*/
+
+ALTER TABLE fiscal_invoices DROP CONSTRAINT IF EXISTS fiscal_invoices_status_check;
+
+ALTER TABLE fiscal_invoices
+  ADD CONSTRAINT fiscal_invoices_status_check
+  CHECK (status IN ('pending', 'unconfirmed', 'submitted', 'failed'));
@@ -0,0 +1,122 @@
+/*
+  # Limit Medicine Edits to Admin and Inventory Staff
+
+  1. Overview
+    - Any signed-in user could add or change a medicine in `product_master`,
+      so a cashier could set a controlled drug's `drug_schedule` to `otc`,
+      which every batch of it then follows, and sell it without a prescription
+    - A batch could likewise be moved onto another medicine to take on its
+      schedule
+
+  2. Changes
+    - `attach_product_master` runs as the owner, so a batch received by any
+      role that may add stock still gets its medicine created
+    - Moving an existing batch to another medicine is refused unless the user
+      is an admin or inventory staff
+
+  3. Security
+    - `product_master_insert` and `product_master_update` limited to
+      `super_admin`, `admin` and `inventory`
+*/
+
+DROP POLICY IF EXISTS "product_master_insert" ON public.product_master;
+DROP POLICY IF EXISTS "product_master_update" ON public.product_master;
+
+CREATE POLICY "product_master_insert"
+  ON public.product_master FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin', 'inventory')
+    )
+  );
+
+CREATE POLICY "product_master_update"
+  ON public.product_master FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin', 'inventory')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin', 'inventory')
+    )
+  );
+
+-- Links a batch to its medicine and copies the catalogue fields onto it.
+-- A batch is matched on its barcode first, since names are typed in many
+-- ways, then on its name; a medicine is created for anything new.
+CREATE OR REPLACE FUNCTION public.attach_product_master()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_master product_master%ROWTYPE;
+BEGIN
+  -- A batch takes its schedule from its medicine, so moving it is a catalogue edit
+  IF TG_OP = 'UPDATE'
+    AND NEW.product_master_id IS DISTINCT FROM OLD.product_master_id
+    AND auth.uid() IS NOT NULL
+    AND NOT EXISTS (
+      SELECT 1 FROM user_profiles
+      WHERE user_id = auth.uid()
+      AND role IN ('super_admin', 'admin', 'inventory')
+    )
+  THEN
+    RAISE EXCEPTION 'Only admins and inventory staff can move a batch to another medicine';
+  END IF;
+
+  IF NEW.product_master_id IS NULL THEN
+    IF NULLIF(trim(NEW.barcode), '') IS NOT NULL THEN
+      SELECT id INTO NEW.product_master_id
+      FROM product_master
+      WHERE barcode = trim(NEW.barcode);
+
+      IF NEW.product_master_id IS NULL THEN
+        SELECT product_master_id INTO NEW.product_master_id
+        FROM products
+        WHERE trim(barcode) = trim(NEW.barcode)
+        AND id IS DISTINCT FROM NEW.id
+        LIMIT 1;
+      END IF;
+    END IF;
+
+    IF NEW.product_master_id IS NULL THEN
+      SELECT id INTO NEW.product_master_id
+      FROM product_master
+      WHERE lower(trim(name)) = lower(trim(NEW.name));
+    END IF;
+
+    IF NEW.product_master_id IS NULL THEN
+      INSERT INTO product_master (name, category, barcode, min_stock_level, drug_schedule)
+      VALUES (
+        trim(NEW.name),
+        COALESCE(NULLIF(trim(NEW.category), ''), 'General'),
+        NULLIF(trim(NEW.barcode), ''),
+        COALESCE(NEW.min_stock_level, 10),
+        COALESCE(NEW.drug_schedule, 'otc')
+      )
+      RETURNING id INTO NEW.product_master_id;
+    END IF;
+  END IF;
+
+  SELECT * INTO v_master FROM product_master WHERE id = NEW.product_master_id;
+
+  NEW.name := v_master.name;
+  NEW.category := v_master.category;
+  NEW.min_stock_level := v_master.min_stock_level;
+  NEW.drug_schedule := v_master.drug_schedule;
+  NEW.barcode := COALESCE(NULLIF(trim(NEW.barcode), ''), v_master.barcode, '');
+  RETURN NEW;
+END;
+$$;